@@ -37,6 +37,13 @@ class MockIntersectionObserver {
 
 global.IntersectionObserver = MockIntersectionObserver;
 
+// jsdom has no WebCrypto or TextEncoder; secure storage encrypts with them
+const { webcrypto } = require('crypto');
+const { TextEncoder, TextDecoder } = require('util');
+Object.defineProperty(globalThis, 'crypto', { value: webcrypto, configurable: true });
+global.TextEncoder = TextEncoder;
+global.TextDecoder = TextDecoder;
+
 // Suppress console error/warnings in tests
 const originalConsoleError = console.error;
 const originalConsoleWarn = console.warn;
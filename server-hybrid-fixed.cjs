@@ -6,6 +6,9 @@ const bcrypt = require('bcryptjs');
 const { clerkMiddleware, requireAuth } = require('@clerk/express');
 const dotenv = require('dotenv');
 const path = require('path');
+const fs = require('fs');
+const crypto = require('crypto');
+const { WebSocketServer } = require('ws');
 
 // Price history generation utilities
 function generateFakePriceHistory(basePrice, pointsCount = 30, intervalSeconds = 15) {
@@ -143,38 +146,245 @@ const USERS = [
   }
 ];
 
-// Mock stock data
+// Exchange rates served at /api/remote/fx-rates; the currencies they quote are the supported ones
+const FX_RATES_FILE = path.join(__dirname, 'public', 'fx-rates.json');
+
+// Read on each call, like the rates endpoint, so edits to the file apply while the server runs
+const getSupportedCurrencies = () => {
+  try {
+    const { base = 'USD', rates = {} } = JSON.parse(fs.readFileSync(FX_RATES_FILE, 'utf8'));
+    return [...new Set([base, ...Object.keys(rates)])].filter(code => /^[A-Z]{3}$/.test(code)).sort();
+  } catch (error) {
+    return ['USD'];
+  }
+};
+
+// Symbol grammar per instrument type (SECURITY_CONSTRAINTS.SYMBOL_PATTERNS in src/lib/types.ts)
+const SYMBOL_PATTERNS = {
+  equity: /^[A-Z0-9]{1,6}(?:[.-][A-Z0-9]{1,3}){0,2}$/,
+  etf: /^[A-Z0-9]{1,6}(?:[.-][A-Z0-9]{1,3}){0,2}$/,
+  index: /^\^?[A-Z0-9]{1,8}$/,
+  crypto: /^[A-Z0-9]{2,10}-[A-Z]{3,4}$/,
+  fx: /^[A-Z]{6}=X$/,
+};
+const isValidSymbol = symbol => typeof symbol === 'string' && Object.values(SYMBOL_PATTERNS).some(pattern => pattern.test(symbol));
+
+// Exchanges the client knows about (EXCHANGE_CODES in src/lib/types.ts)
+const SUPPORTED_EXCHANGES = [
+  'NASDAQ', 'NYSE', 'LSE', 'XETRA', 'EURONEXT', 'SIX', 'TSE', 'HKEX', 'TSX', 'NSE', 'ASX', 'CRYPTO', 'FX'
+];
+
+// Mock stock data; prices are in each stock's listing currency
 const defaultStockData = [
-  { symbol: 'BNOX', name: 'Bane&Ox Inc.', basePrice: 185.75 },
-  { symbol: 'GOOGL', name: 'Alphabet Inc.', basePrice: 176.30 },
-  { symbol: 'MSFT', name: 'Microsoft Corporation', basePrice: 415.20 },
+  { symbol: 'BNOX', name: 'Bane&Ox Inc.', basePrice: 185.75, currency: 'USD', instrumentType: 'equity' },
+  { symbol: 'GOOGL', name: 'Alphabet Inc.', basePrice: 176.30, currency: 'USD', instrumentType: 'equity', exchange: 'NASDAQ' },
+  { symbol: 'MSFT', name: 'Microsoft Corporation', basePrice: 415.20, currency: 'USD', instrumentType: 'equity', exchange: 'NASDAQ' },
 ];
 
+// Every write to a stock or control field takes the next version, and the
+// field's version is sent along in `versions`, so clients can tell which
+// fields changed here since they last synced and merge their own edits
+let dataVersion = 0;
+
+function stampVersions(target, fields) {
+  target.versions = { ...target.versions };
+  fields.forEach(field => {
+    target.versions[field] = ++dataVersion;
+  });
+  return target;
+}
+
+const STOCK_VERSIONED_FIELDS = ['symbol', 'name', 'currency', 'instrumentType', 'exchange', 'currentPrice'];
+
 // Initialize stocks with price history
 let stocksData = defaultStockData.map(stock => {
   const priceHistory = generateFakePriceHistory(stock.basePrice, 30, 15);
   const mostRecentPrice = priceHistory[priceHistory.length - 1].price;
   
-  return {
+  return stampVersions({
     symbol: stock.symbol,
     name: stock.name,
+    currency: stock.currency,
+    instrumentType: stock.instrumentType,
+    exchange: stock.exchange,
     currentPrice: mostRecentPrice,
     previousPrice: priceHistory.length > 1 ? priceHistory[priceHistory.length - 2].price : mostRecentPrice,
     initialPrice: stock.basePrice,
     percentageChange: ((mostRecentPrice - stock.basePrice) / stock.basePrice) * 100,
     lastUpdated: new Date(),
     priceHistory: priceHistory,
-  };
+  }, STOCK_VERSIONED_FIELDS);
 });
 
+// Stock groups (watchlists) shared with the ticker, e.g. { id, name: 'Tech', symbols: ['GOOGL', 'MSFT'] }
+let stockGroups = [];
+
+// Validate and normalize groups sent by a client
+function sanitizeStockGroups(groups) {
+  if (!Array.isArray(groups) || groups.length > 20) {
+    return null;
+  }
+  const ids = new Set();
+  const sanitized = [];
+  for (const group of groups) {
+    if (!group || typeof group.id !== 'string' || !group.id || group.id.length > 64 || ids.has(group.id)) {
+      return null;
+    }
+    if (typeof group.name !== 'string' || !group.name.trim() || group.name.trim().length > 40) {
+      return null;
+    }
+    if (!Array.isArray(group.symbols)) {
+      return null;
+    }
+    ids.add(group.id);
+    sanitized.push({
+      id: group.id,
+      name: group.name.trim(),
+      symbols: [...new Set(group.symbols.filter(isValidSymbol))].slice(0, 50)
+    });
+  }
+  return sanitized;
+}
+
 // System state
-let systemState = {
+let systemState = stampVersions({
   isPaused: false,
   updateIntervalMs: 1000,
   selectedCurrency: 'USD',
   lastUpdated: new Date(),
   isEmergencyStopped: false
-};
+}, ['isPaused', 'updateIntervalMs', 'selectedCurrency', 'isEmergencyStopped']);
+
+// Live update stream: each change to stocks or controls becomes an event with a
+// sequence number. Recent events are kept so a client that reconnects can
+// resume after the last one it saw.
+const STREAM_BUFFER_SIZE = 1000;
+const STREAM_KEEPALIVE_MS = 25000;
+let streamSeq = 0;
+const streamEvents = [];
+const streamClients = new Set();
+
+function publishStreamEvent(event) {
+  const message = { ...event, seq: ++streamSeq };
+  streamEvents.push(message);
+  if (streamEvents.length > STREAM_BUFFER_SIZE) {
+    streamEvents.shift();
+  }
+  streamClients.forEach(client => client.send(message));
+}
+
+function publishStockTick(stock) {
+  publishStreamEvent({
+    type: 'tick',
+    symbol: stock.symbol,
+    price: stock.currentPrice,
+    timestamp: new Date(stock.lastUpdated).toISOString(),
+    version: stock.versions.currentPrice
+  });
+}
+
+function publishControls() {
+  publishStreamEvent({ type: 'controls', controls: systemState });
+}
+
+// Events after `since`, or a snapshot for a new client or one too far behind
+function streamBacklog(since) {
+  const oldestSeq = streamEvents.length > 0 ? streamEvents[0].seq : streamSeq + 1;
+  if (Number.isInteger(since) && since >= oldestSeq - 1 && since <= streamSeq) {
+    return streamEvents.filter(event => event.seq > since);
+  }
+  return [{ type: 'snapshot', seq: streamSeq, stocks: stocksData, groups: stockGroups, controls: systemState }];
+}
+
+// Start sending events to a client, beginning with what it missed
+function addStreamClient(client, since) {
+  streamBacklog(since).forEach(event => client.send(event));
+  streamClients.add(client);
+  return () => streamClients.delete(client);
+}
+
+// EventSource and WebSocket cannot send headers, so stream clients trade their
+// token for a ticket to put in the URL. A ticket opens one stream and expires
+// quickly, so URLs that end up in logs or history do not let anyone in.
+const STREAM_TICKET_TTL_MS = 30 * 1000;
+const streamTickets = new Map();
+
+function issueStreamTicket(user) {
+  const now = Date.now();
+  // Entries are added in expiry order
+  for (const [ticket, entry] of streamTickets) {
+    if (entry.expiresAt > now) break;
+    streamTickets.delete(ticket);
+  }
+  const ticket = crypto.randomBytes(24).toString('base64url');
+  streamTickets.set(ticket, { user, expiresAt: now + STREAM_TICKET_TTL_MS });
+  return ticket;
+}
+
+// The user a ticket was issued to, or null; either way the ticket is used up
+function redeemStreamTicket(ticket) {
+  const entry = typeof ticket === 'string' ? streamTickets.get(ticket) : undefined;
+  if (!entry) {
+    return null;
+  }
+  streamTickets.delete(ticket);
+  return entry.expiresAt > Date.now() ? entry.user : null;
+}
+
+function streamTicketAuth(req, res, next) {
+  const user = redeemStreamTicket(req.query.ticket);
+  if (!user) {
+    return res.status(401).json({ error: 'Valid stream ticket required', authType: 'stream-ticket' });
+  }
+  req.user = user;
+  next();
+}
+
+// Answers to mutations sent with an Idempotency-Key, so a request the client
+// retries after losing the response is not applied twice
+const IDEMPOTENCY_TTL_MS = 24 * 60 * 60 * 1000;
+const IDEMPOTENCY_MAX_KEYS = 1000;
+const IDEMPOTENCY_KEY_MAX_LENGTH = 200;
+const idempotentResponses = new Map();
+
+// Runs after authentication: keys are kept per user and route
+function idempotent(req, res, next) {
+  const key = req.headers['idempotency-key'];
+  if (!key) {
+    return next();
+  }
+  if (key.length > IDEMPOTENCY_KEY_MAX_LENGTH) {
+    return res.status(400).json({ success: false, error: 'Idempotency-Key is too long' });
+  }
+
+  const now = Date.now();
+  // Entries are added in expiry order
+  for (const [cacheKey, entry] of idempotentResponses) {
+    if (entry.expiresAt > now) break;
+    idempotentResponses.delete(cacheKey);
+  }
+
+  const cacheKey = `${req.user.id}:${req.method}:${req.originalUrl}:${key}`;
+  const cached = idempotentResponses.get(cacheKey);
+  if (cached) {
+    console.log(`🔁 Replaying response for idempotency key ${key}`);
+    res.set('Idempotent-Replayed', 'true');
+    return res.status(cached.status).json(cached.body);
+  }
+
+  // Only successful answers are kept: a refused or failed request changed nothing and may be retried
+  const json = res.json.bind(res);
+  res.json = body => {
+    if (res.statusCode >= 200 && res.statusCode < 300) {
+      idempotentResponses.set(cacheKey, { status: res.statusCode, body, expiresAt: now + IDEMPOTENCY_TTL_MS });
+      if (idempotentResponses.size > IDEMPOTENCY_MAX_KEYS) {
+        idempotentResponses.delete(idempotentResponses.keys().next().value);
+      }
+    }
+    return json(body);
+  };
+  next();
+}
 
 // Hybrid authentication middleware
 function hybridAuth(req, res, next) {
@@ -358,13 +568,70 @@ app.get('/api/remote/stocks', hybridAuth, (req, res) => {
   res.json({
     success: true,
     stocks: stocksData,
+    groups: stockGroups,
+    authMethod: req.user.authMethod
+  });
+});
+
+// Ticket for opening the live update stream
+app.post('/api/remote/stream/ticket', hybridAuth, (req, res) => {
+  res.json({
+    success: true,
+    ticket: issueStreamTicket(req.user),
+    expiresInMs: STREAM_TICKET_TTL_MS,
+    authMethod: req.user.authMethod
+  });
+});
+
+// Live updates over Server-Sent Events (the WebSocket on the same path is set up with the server)
+app.get('/api/remote/stream', streamTicketAuth, (req, res) => {
+  console.log(`📡 Live update stream opened by ${req.user.username || req.user.id} (${req.user.authMethod})`);
+  
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache, no-transform',
+    'Connection': 'keep-alive',
+    'X-Accel-Buffering': 'no'
+  });
+  
+  // A reconnecting EventSource sends Last-Event-ID; the client's own reconnects use ?since=
+  const resumeFrom = req.headers['last-event-id'] ?? req.query.since;
+  const removeClient = addStreamClient({
+    send: event => res.write(`id: ${event.seq}\ndata: ${JSON.stringify(event)}\n\n`)
+  }, resumeFrom === undefined ? NaN : Number(resumeFrom));
+  
+  const keepAlive = setInterval(() => res.write(': keep-alive\n\n'), STREAM_KEEPALIVE_MS);
+  req.on('close', () => {
+    clearInterval(keepAlive);
+    removeClient();
+  });
+});
+
+// Replace stock groups (requires controller or admin role)
+app.put('/api/remote/stocks/groups', hybridAuth, requireRole(['controller', 'admin']), idempotent, (req, res) => {
+  const groups = sanitizeStockGroups(req.body && req.body.groups);
+  
+  if (!groups) {
+    return res.status(400).json({ 
+      error: 'groups must be a list of at most 20 groups, each with an id, a name of up to 40 characters and a list of symbols',
+      authMethod: req.user.authMethod
+    });
+  }
+  
+  stockGroups = groups;
+  publishStreamEvent({ type: 'groups', groups: stockGroups });
+  console.log(`🗂️ Stock groups updated by ${req.user.username} (${groups.length} groups)`);
+  
+  res.json({
+    success: true,
+    groups: stockGroups,
     authMethod: req.user.authMethod
   });
 });
 
 // Add new stock (requires controller or admin role)
-app.post('/api/remote/stocks', hybridAuth, requireRole(['controller', 'admin']), (req, res) => {
-  const { symbol, name, initialPrice } = req.body;
+app.post('/api/remote/stocks', hybridAuth, requireRole(['controller', 'admin']), idempotent, (req, res) => {
+  const { symbol, name, initialPrice, currency = 'USD', instrumentType = 'equity', exchange } = req.body;
   
   console.log(`📈 Adding new stock ${symbol} by ${req.user.username} (${req.user.authMethod})`);
   
@@ -376,9 +643,23 @@ app.post('/api/remote/stocks', hybridAuth, requireRole(['controller', 'admin']),
     });
   }
   
-  if (!/^[A-Z]{1,5}$/.test(symbol)) {
+  if (!Object.prototype.hasOwnProperty.call(SYMBOL_PATTERNS, instrumentType)) {
+    return res.status(400).json({ 
+      error: `instrumentType must be one of: ${Object.keys(SYMBOL_PATTERNS).join(', ')}`,
+      authMethod: req.user.authMethod
+    });
+  }
+  
+  if (typeof symbol !== 'string' || !SYMBOL_PATTERNS[instrumentType].test(symbol)) {
+    return res.status(400).json({ 
+      error: `Symbol is not a valid ${instrumentType} symbol`,
+      authMethod: req.user.authMethod
+    });
+  }
+  
+  if (exchange !== undefined && !SUPPORTED_EXCHANGES.includes(exchange)) {
     return res.status(400).json({ 
-      error: 'Symbol must be 1-5 uppercase letters',
+      error: `exchange must be one of: ${SUPPORTED_EXCHANGES.join(', ')}`,
       authMethod: req.user.authMethod
     });
   }
@@ -390,6 +671,14 @@ app.post('/api/remote/stocks', hybridAuth, requireRole(['controller', 'admin']),
     });
   }
   
+  const supportedCurrencies = getSupportedCurrencies();
+  if (typeof currency !== 'string' || !supportedCurrencies.includes(currency)) {
+    return res.status(400).json({ 
+      error: `currency must be one of: ${supportedCurrencies.join(', ')}`,
+      authMethod: req.user.authMethod
+    });
+  }
+  
   // Check if stock already exists
   if (stocksData.some(stock => stock.symbol === symbol)) {
     return res.status(409).json({ 
@@ -402,6 +691,9 @@ app.post('/api/remote/stocks', hybridAuth, requireRole(['controller', 'admin']),
   const newStock = {
     symbol: symbol.toUpperCase(),
     name: name.trim(),
+    currency,
+    instrumentType,
+    exchange,
     currentPrice: parseFloat(initialPrice),
     previousPrice: parseFloat(initialPrice),
     initialPrice: parseFloat(initialPrice),
@@ -412,9 +704,11 @@ app.post('/api/remote/stocks', hybridAuth, requireRole(['controller', 'admin']),
       price: parseFloat(initialPrice)
     }]
   };
+  stampVersions(newStock, STOCK_VERSIONED_FIELDS);
   
   // Add to stocks array
   stocksData.push(newStock);
+  publishStreamEvent({ type: 'stockAdded', stock: newStock });
   
   console.log(`✅ Stock ${symbol} added successfully by ${req.user.username}`);
   
@@ -427,10 +721,10 @@ app.post('/api/remote/stocks', hybridAuth, requireRole(['controller', 'admin']),
 });
 
 // Bulk stock operations (requires controller or admin role)
-app.put('/api/remote/stocks/bulk', hybridAuth, requireRole(['controller', 'admin']), (req, res) => {
-  const { updateType, percentage } = req.body;
+app.put('/api/remote/stocks/bulk', hybridAuth, requireRole(['controller', 'admin']), idempotent, (req, res) => {
+  const { updateType, percentage, group } = req.body;
   
-  console.log(`🚀 Bulk operation ${updateType} by ${req.user.username} (${req.user.authMethod})`);
+  console.log(`🚀 Bulk operation ${updateType}${group ? ` on group ${group}` : ''} by ${req.user.username} (${req.user.authMethod})`);
   
   if (!updateType) {
     return res.status(400).json({ 
@@ -439,10 +733,23 @@ app.put('/api/remote/stocks/bulk', hybridAuth, requireRole(['controller', 'admin
     });
   }
   
+  // Optionally target only the stocks in one group
+  let targetStocks = stocksData;
+  if (group) {
+    const targetGroup = stockGroups.find(g => g.id === group);
+    if (!targetGroup) {
+      return res.status(404).json({ 
+        error: 'Group not found',
+        authMethod: req.user.authMethod
+      });
+    }
+    targetStocks = stocksData.filter(stock => targetGroup.symbols.includes(stock.symbol));
+  }
+  
   let updatedStocks = [];
   const changes = [];
   
-  stocksData.forEach((stock) => {
+  targetStocks.forEach((stock) => {
     let newPrice;
     const currentPrice = stock.currentPrice;
     
@@ -481,6 +788,7 @@ app.put('/api/remote/stocks/bulk', hybridAuth, requireRole(['controller', 'admin
       stock.currentPrice = newPrice;
       stock.percentageChange = ((newPrice - stock.initialPrice) / stock.initialPrice) * 100;
       stock.lastUpdated = new Date();
+      stampVersions(stock, ['currentPrice']);
       
       // Add to price history
       stock.priceHistory.push({
@@ -495,6 +803,7 @@ app.put('/api/remote/stocks/bulk', hybridAuth, requireRole(['controller', 'admin
       
       changes.push(`${stock.symbol}: ${previousPrice.toFixed(2)} → ${newPrice.toFixed(2)}`);
       updatedStocks.push(stock.symbol);
+      publishStockTick(stock);
     }
   });
   
@@ -507,6 +816,7 @@ app.put('/api/remote/stocks/bulk', hybridAuth, requireRole(['controller', 'admin
     changes: changes,
     updateType: updateType,
     percentage: percentage,
+    group: group || null,
     updatedBy: req.user.username,
     authMethod: req.user.authMethod,
     timestamp: new Date()
@@ -525,12 +835,13 @@ app.get('/api/remote/controls', hybridAuth, (req, res) => {
 });
 
 // Update system controls (requires controller or admin role)
-app.put('/api/remote/controls', hybridAuth, requireRole(['controller', 'admin']), (req, res) => {
+app.put('/api/remote/controls', hybridAuth, requireRole(['controller', 'admin']), idempotent, (req, res) => {
   const updates = req.body;
   
   console.log(`🔧 Controls update by ${req.user.username} (${req.user.authMethod}):`, updates);
   
   const changes = [];
+  const changedFields = [];
   
   // Validate and update isPaused
   if (updates.isPaused !== undefined) {
@@ -542,6 +853,7 @@ app.put('/api/remote/controls', hybridAuth, requireRole(['controller', 'admin'])
     }
     const oldState = systemState.isPaused;
     systemState.isPaused = updates.isPaused;
+    changedFields.push('isPaused');
     changes.push(`System ${updates.isPaused ? 'paused' : 'resumed'} (was ${oldState ? 'paused' : 'running'})`);
   }
   
@@ -555,20 +867,22 @@ app.put('/api/remote/controls', hybridAuth, requireRole(['controller', 'admin'])
     }
     const oldInterval = systemState.updateIntervalMs;
     systemState.updateIntervalMs = updates.updateIntervalMs;
+    changedFields.push('updateIntervalMs');
     changes.push(`Update interval changed from ${oldInterval}ms to ${updates.updateIntervalMs}ms`);
   }
   
   // Validate and update selectedCurrency
   if (updates.selectedCurrency !== undefined) {
-    const validCurrencies = ['USD', 'EUR', 'GBP', 'JPY', 'CAD', 'CHF', 'INR'];
-    if (typeof updates.selectedCurrency !== 'string' || !validCurrencies.includes(updates.selectedCurrency)) {
+    const supportedCurrencies = getSupportedCurrencies();
+    if (typeof updates.selectedCurrency !== 'string' || !supportedCurrencies.includes(updates.selectedCurrency)) {
       return res.status(400).json({ 
-        error: `selectedCurrency must be one of: ${validCurrencies.join(', ')}`,
+        error: `selectedCurrency must be one of: ${supportedCurrencies.join(', ')}`,
         authMethod: req.user.authMethod
       });
     }
     const oldCurrency = systemState.selectedCurrency;
     systemState.selectedCurrency = updates.selectedCurrency;
+    changedFields.push('selectedCurrency');
     changes.push(`Currency changed from ${oldCurrency} to ${updates.selectedCurrency}`);
   }
   
@@ -582,6 +896,7 @@ app.put('/api/remote/controls', hybridAuth, requireRole(['controller', 'admin'])
     }
     const oldVolatility = systemState.volatility;
     systemState.volatility = updates.volatility;
+    changedFields.push('volatility');
     changes.push(`Volatility changed from ${oldVolatility}% to ${updates.volatility}%`);
   }
   
@@ -594,8 +909,10 @@ app.put('/api/remote/controls', hybridAuth, requireRole(['controller', 'admin'])
       });
     }
     systemState.isEmergencyStopped = updates.isEmergencyStopped;
+    changedFields.push('isEmergencyStopped');
     if (updates.isEmergencyStopped) {
       systemState.isPaused = true; // Emergency stop also pauses
+      changedFields.push('isPaused');
     }
     changes.push(`Emergency stop ${updates.isEmergencyStopped ? 'activated' : 'deactivated'}`);
   }
@@ -608,6 +925,8 @@ app.put('/api/remote/controls', hybridAuth, requireRole(['controller', 'admin'])
   }
   
   systemState.lastUpdated = new Date();
+  stampVersions(systemState, [...new Set(changedFields)]);
+  publishControls();
   
   console.log(`✅ Controls updated by ${req.user.username}: ${changes.join(', ')}`);
   
@@ -622,12 +941,14 @@ app.put('/api/remote/controls', hybridAuth, requireRole(['controller', 'admin'])
 });
 
 // Dedicated pause endpoint (requires controller or admin role)
-app.post('/api/remote/controls/pause', hybridAuth, requireRole(['controller', 'admin']), (req, res) => {
+app.post('/api/remote/controls/pause', hybridAuth, requireRole(['controller', 'admin']), idempotent, (req, res) => {
   console.log(`⏸️ System pause by ${req.user.username} (${req.user.authMethod})`);
   
   const wasPaused = systemState.isPaused;
   systemState.isPaused = true;
   systemState.lastUpdated = new Date();
+  stampVersions(systemState, ['isPaused']);
+  publishControls();
   
   const message = wasPaused ? 'System was already paused' : 'System paused successfully';
   const changes = [wasPaused ? 'System was already paused' : 'System paused'];
@@ -646,13 +967,15 @@ app.post('/api/remote/controls/pause', hybridAuth, requireRole(['controller', 'a
 });
 
 // Dedicated resume endpoint (requires controller or admin role)
-app.post('/api/remote/controls/resume', hybridAuth, requireRole(['controller', 'admin']), (req, res) => {
+app.post('/api/remote/controls/resume', hybridAuth, requireRole(['controller', 'admin']), idempotent, (req, res) => {
   console.log(`▶️ System resume by ${req.user.username} (${req.user.authMethod})`);
   
   const wasPaused = systemState.isPaused;
   systemState.isPaused = false;
   systemState.isEmergencyStopped = false; // Resume also clears emergency stop
   systemState.lastUpdated = new Date();
+  stampVersions(systemState, ['isPaused', 'isEmergencyStopped']);
+  publishControls();
   
   const message = wasPaused ? 'System resumed successfully' : 'System was already running';
   const changes = [wasPaused ? 'System resumed' : 'System was already running'];
@@ -671,7 +994,7 @@ app.post('/api/remote/controls/resume', hybridAuth, requireRole(['controller', '
 });
 
 // Update individual stock (requires controller or admin role)
-app.put('/api/remote/stocks/:symbol', hybridAuth, requireRole(['controller', 'admin']), (req, res) => {
+app.put('/api/remote/stocks/:symbol', hybridAuth, requireRole(['controller', 'admin']), idempotent, (req, res) => {
   const { symbol } = req.params;
   const { price } = req.body;
   
@@ -696,6 +1019,7 @@ app.put('/api/remote/stocks/:symbol', hybridAuth, requireRole(['controller', 'ad
   stock.currentPrice = parseFloat(price);
   stock.percentageChange = ((stock.currentPrice - stock.initialPrice) / stock.initialPrice) * 100;
   stock.lastUpdated = new Date();
+  stampVersions(stock, ['currentPrice']);
   
   // Add to price history
   stock.priceHistory.push({
@@ -707,6 +1031,7 @@ app.put('/api/remote/stocks/:symbol', hybridAuth, requireRole(['controller', 'ad
   if (stock.priceHistory.length > 100) {
     stock.priceHistory = stock.priceHistory.slice(-100);
   }
+  publishStockTick(stock);
   
   res.json({
     success: true,
@@ -716,7 +1041,7 @@ app.put('/api/remote/stocks/:symbol', hybridAuth, requireRole(['controller', 'ad
 });
 
 // Update stock price (legacy endpoint - requires controller or admin role)
-app.put('/api/remote/stocks/:symbol/price', hybridAuth, requireRole(['controller', 'admin']), (req, res) => {
+app.put('/api/remote/stocks/:symbol/price', hybridAuth, requireRole(['controller', 'admin']), idempotent, (req, res) => {
   const { symbol } = req.params;
   const { price } = req.body;
   
@@ -735,6 +1060,7 @@ app.put('/api/remote/stocks/:symbol/price', hybridAuth, requireRole(['controller
   stock.currentPrice = parseFloat(price);
   stock.percentageChange = ((stock.currentPrice - stock.initialPrice) / stock.initialPrice) * 100;
   stock.lastUpdated = new Date();
+  stampVersions(stock, ['currentPrice']);
   
   // Add to price history
   stock.priceHistory.push({
@@ -746,6 +1072,7 @@ app.put('/api/remote/stocks/:symbol/price', hybridAuth, requireRole(['controller
   if (stock.priceHistory.length > 100) {
     stock.priceHistory = stock.priceHistory.slice(-100);
   }
+  publishStockTick(stock);
   
   res.json({
     success: true,
@@ -755,7 +1082,7 @@ app.put('/api/remote/stocks/:symbol/price', hybridAuth, requireRole(['controller
 });
 
 // Delete stock (admin role required for hybrid system)
-app.delete('/api/remote/stocks/:symbol', hybridAuth, requireRole('admin'), (req, res) => {
+app.delete('/api/remote/stocks/:symbol', hybridAuth, requireRole('admin'), idempotent, (req, res) => {
   const { symbol } = req.params;
   
   console.log(`🗑️ Deleting stock ${symbol} by ${req.user.username} (${req.user.authMethod})`);
@@ -766,6 +1093,7 @@ app.delete('/api/remote/stocks/:symbol', hybridAuth, requireRole('admin'), (req,
   }
   
   const deletedStock = stocksData.splice(index, 1)[0];
+  publishStreamEvent({ type: 'stockRemoved', symbol: deletedStock.symbol });
   
   res.json({
     success: true,
@@ -789,6 +1117,22 @@ app.get('/api/remote/info', (req, res) => {
   });
 });
 
+// Exchange rates for the client's JSON rates provider (public).
+// Served from public/fx-rates.json, re-read on each request so rates can be edited while the server runs.
+app.get('/api/remote/fx-rates', (req, res) => {
+  fs.readFile(FX_RATES_FILE, 'utf8', (err, contents) => {
+    if (err) {
+      return res.status(404).json({ success: false, error: 'Exchange rates file not found' });
+    }
+    try {
+      const document = JSON.parse(contents);
+      res.json({ ...document, timestamp: document.timestamp || new Date().toISOString() });
+    } catch (parseError) {
+      res.status(500).json({ success: false, error: 'Exchange rates file is not valid JSON' });
+    }
+  });
+});
+
 // Health check
 app.get('/health', (req, res) => {
   res.json({
@@ -830,13 +1174,50 @@ app.use((err, req, res, next) => {
 });
 
 // Start server
-app.listen(PORT, () => {
+const server = app.listen(PORT, () => {
   console.log(`🚀 Hybrid Stock Ticker API Server running on port ${PORT}`);
   console.log(`🔧 Environment: ${process.env.NODE_ENV || 'development'}`);
   console.log(`🔐 Authentication methods: ${JWT_SECRET ? 'JWT' : ''} ${CLERK_SECRET_KEY ? 'Clerk' : ''}`);
   console.log(`🌍 Allowed origins: ${ALLOWED_ORIGINS.join(', ')}`);
 });
 
+// Live updates over WebSocket. Upgrades bypass CORS and the auth middleware,
+// so the origin and the stream ticket are checked here.
+const wss = new WebSocketServer({ noServer: true });
+
+server.on('upgrade', (req, socket, head) => {
+  const url = new URL(req.url, 'http://localhost');
+  const reject = (status) => {
+    socket.write(`HTTP/1.1 ${status}\r\n\r\n`);
+    socket.destroy();
+  };
+  
+  if (url.pathname !== '/api/remote/stream') {
+    return reject('404 Not Found');
+  }
+  if (req.headers.origin && !ALLOWED_ORIGINS.includes(req.headers.origin)) {
+    return reject('403 Forbidden');
+  }
+  const user = redeemStreamTicket(url.searchParams.get('ticket'));
+  if (!user) {
+    return reject('401 Unauthorized');
+  }
+  
+  wss.handleUpgrade(req, socket, head, ws => {
+    console.log(`📡 Live update WebSocket opened by ${user.username || user.id} (${user.authMethod})`);
+    const since = url.searchParams.has('since') ? Number(url.searchParams.get('since')) : NaN;
+    const removeClient = addStreamClient({
+      send: event => {
+        if (ws.readyState === ws.OPEN) {
+          ws.send(JSON.stringify(event));
+        }
+      }
+    }, since);
+    ws.on('close', removeClient);
+    ws.on('error', error => console.warn('⚠️ Live update WebSocket error:', error.message));
+  });
+});
+
 // Price update simulation (for development)
 if (process.env.NODE_ENV !== 'production') {
   setInterval(() => {
@@ -851,6 +1232,7 @@ if (process.env.NODE_ENV !== 'production') {
           percentageChange: ((newPrice - stock.initialPrice) / stock.initialPrice) * 100,
           lastUpdated: new Date(),
         };
+        stampVersions(updatedStock, ['currentPrice']);
         
         // Add to price history
         updatedStock.priceHistory.push({
@@ -863,6 +1245,7 @@ if (process.env.NODE_ENV !== 'production') {
           updatedStock.priceHistory = updatedStock.priceHistory.slice(-100);
         }
         
+        publishStockTick(updatedStock);
         return updatedStock;
       });
     }
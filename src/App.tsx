@@ -1,6 +1,7 @@
 import React from 'react';
 import { BrowserRouter as Router, Routes, Route, Navigate, Link } from 'react-router-dom';
 import { TickerProvider } from './lib/context';
+import { PortfolioProvider } from './lib/portfolioContext';
 import { TabContent } from './components/TabContent';
 import TickerPage from './pages/TickerPage';
 import ControlsPage from './pages/ControlsPage';
@@ -9,6 +10,8 @@ import LandingPage from './pages/LandingPage';
 import RemoteControlPanelJWT from './pages/RemoteControlPanelJWT';
 import { useSecurity } from './hooks/useSecurity';
 import SecurityWarning from './components/SecurityWarning';
+import AlertToasts from './components/AlertToasts';
+import OutboxStatus from './components/OutboxStatus';
 
 // Authentication components
 import SignInPage from './components/auth/SignInPage';
@@ -68,6 +71,7 @@ function MainApp() {
 
   return (
     <TickerProvider>
+      <PortfolioProvider>
         <div className="min-h-screen bg-gray-900">
           {/* Security Warning Banner */}
           <SecurityWarning securityState={securityState} />
@@ -105,6 +109,9 @@ function MainApp() {
                   {/* Bridge Status for Clerk users */}
                   <BridgeStatus className="mr-2" />
                   
+                  {/* Edits waiting for or refused by the API server */}
+                  <OutboxStatus className="mr-2" />
+                  
                   {/* Authenticated user - show profile info */}
                   <UserInfoDisplay />
                   <div className="border-l border-blue-600 pl-4">
@@ -134,8 +141,12 @@ function MainApp() {
               <p>© {new Date().getFullYear()} Stock Ticker</p>
             </div>
           </footer>
+          
+          {/* Price alert toasts */}
+          <AlertToasts />
         </div>
-      </TickerProvider>
+      </PortfolioProvider>
+    </TickerProvider>
   );
 }
 
@@ -0,0 +1,109 @@
+import {
+  createAlert,
+  evaluateAlerts,
+  isAlertConditionMet,
+  validateAlertRule,
+  validateNewAlert,
+  describeAlertRule,
+  DEFAULT_ALERT_RULES,
+} from '../../lib/alertEngine';
+import { AlertRule, PricePoint, StockInfo } from '../../lib/types';
+
+const NOW = 1_700_000_000_000;
+
+const makeStock = (currentPrice: number, initialPrice = 100): StockInfo => ({
+  symbol: 'ABC',
+  name: 'ABC Corp',
+  currentPrice,
+  previousPrice: currentPrice,
+  initialPrice,
+  percentChange: ((currentPrice - initialPrice) / initialPrice) * 100,
+  lastUpdated: new Date(NOW),
+  priceHistory: [],
+});
+
+// One point per second, ending at NOW
+const makeHistory = (prices: number[]): PricePoint[] =>
+  prices.map((price, i) => ({ timestamp: new Date(NOW - (prices.length - 1 - i) * 1000), price }));
+
+const evaluate = (alert: ReturnType<typeof createAlert>, price: number, now = NOW) =>
+  evaluateAlerts([alert], [makeStock(price)], now, () => []);
+
+describe('Alert engine', () => {
+  describe('isAlertConditionMet', () => {
+    it('should compare against price thresholds', () => {
+      expect(isAlertConditionMet({ type: 'priceAbove', price: 110 }, makeStock(111), [], NOW)).toBe(true);
+      expect(isAlertConditionMet({ type: 'priceBelow', price: 90 }, makeStock(95), [], NOW)).toBe(false);
+    });
+
+    it('should measure percent moves from the initial price or a window', () => {
+      expect(isAlertConditionMet({ type: 'percentChange', percent: 5 }, makeStock(106), [], NOW)).toBe(true);
+      expect(isAlertConditionMet({ type: 'percentChange', percent: -5 }, makeStock(106), [], NOW)).toBe(false);
+
+      // Up 10% from the start of the 1 minute window, even though it is flat since initialPrice
+      const history = makeHistory([200, ...Array(60).fill(100), 110]);
+      const rule: AlertRule = { type: 'percentChange', percent: 10, windowMinutes: 1 };
+      expect(isAlertConditionMet(rule, makeStock(110, 110), history, NOW)).toBe(true);
+    });
+
+    it('should detect a moving-average crossover only on the crossing tick', () => {
+      const rule: AlertRule = { type: 'maCrossover', fastPeriod: 2, slowPeriod: 4, direction: 'bullish' };
+      const crossing = makeHistory([10, 10, 10, 10, 14]);
+      expect(isAlertConditionMet(rule, makeStock(14), crossing, NOW)).toBe(true);
+      const after = makeHistory([10, 10, 10, 14, 15]);
+      expect(isAlertConditionMet(rule, makeStock(15), after, NOW)).toBe(false);
+      expect(isAlertConditionMet({ ...rule, direction: 'bearish' }, makeStock(14), crossing, NOW)).toBe(false);
+    });
+  });
+
+  describe('evaluateAlerts', () => {
+    const input = { symbol: 'ABC', rule: { type: 'priceAbove', price: 110 } as AlertRule, repeat: false, cooldownSeconds: 0 };
+
+    it('should leave alerts untouched while the condition does not hold', () => {
+      const alerts = [createAlert(input, 'a1', NOW)];
+      const result = evaluateAlerts(alerts, [makeStock(100)], NOW, () => []);
+      expect(result.alerts).toBe(alerts);
+      expect(result.events).toHaveLength(0);
+    });
+
+    it('should disable one-shot alerts after firing', () => {
+      const result = evaluate(createAlert(input, 'a1', NOW), 120);
+      expect(result.events).toHaveLength(1);
+      expect(result.events[0].message).toContain('ABC');
+      expect(result.alerts[0]).toMatchObject({ enabled: false, armed: false, triggerCount: 1 });
+    });
+
+    it('should re-arm repeating alerts once the condition clears and respect the cooldown', () => {
+      let alert = createAlert({ ...input, repeat: true, cooldownSeconds: 30 }, 'a1', NOW);
+      alert = evaluate(alert, 120).alerts[0];
+      expect(evaluate(alert, 121, NOW + 1000).events).toHaveLength(0); // Still above, not re-armed
+
+      alert = evaluate(alert, 100, NOW + 2000).alerts[0];
+      expect(alert.armed).toBe(true);
+      expect(evaluate(alert, 120, NOW + 10000).events).toHaveLength(0); // Cooling down
+      expect(evaluate(alert, 120, NOW + 31000).events).toHaveLength(1);
+    });
+  });
+
+  describe('validation', () => {
+    it('should accept the default rules', () => {
+      Object.values(DEFAULT_ALERT_RULES).forEach(rule => {
+        expect(validateAlertRule(rule).isValid).toBe(true);
+        expect(describeAlertRule(rule)).not.toBe('');
+      });
+    });
+
+    it('should describe price thresholds in the listing currency', () => {
+      expect(describeAlertRule({ type: 'priceAbove', price: 150 })).toBe('Price above $150.00');
+      expect(describeAlertRule({ type: 'priceBelow', price: 2500 }, 'JPY')).toBe('Price below ¥2,500');
+    });
+
+    it('should reject invalid rules and cooldowns', () => {
+      expect(validateAlertRule({ type: 'priceAbove', price: -1 }).isValid).toBe(false);
+      expect(validateAlertRule({ type: 'percentChange', percent: 0 }).isValid).toBe(false);
+      expect(validateAlertRule({ type: 'maCrossover', fastPeriod: 20, slowPeriod: 5, direction: 'either' }).isValid).toBe(false);
+      expect(validateAlertRule({ type: 'volume' }).isValid).toBe(false);
+      expect(validateNewAlert({ symbol: 'ABC', rule: DEFAULT_ALERT_RULES.priceAbove, repeat: true, cooldownSeconds: -5 }).isValid).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,170 @@
+import { ApiClient, ApiClientOptions, apiStockSchema } from '../../lib/apiClient';
+
+interface FakeReply {
+  status?: number;
+  body?: unknown;
+  contentType?: string;
+}
+
+// Just enough of a fetch Response for the client
+const reply = ({ status = 200, body, contentType = 'application/json' }: FakeReply): Response => ({
+  ok: status >= 200 && status < 300,
+  status,
+  headers: { get: (name: string) => name.toLowerCase() === 'content-type' ? contentType : null },
+  json: async () => typeof body === 'string' ? JSON.parse(body) : body,
+} as unknown as Response);
+
+const stock = (overrides: Record<string, unknown> = {}) => ({
+  symbol: 'BNOX',
+  name: 'Bianox Inc.',
+  currentPrice: 101.5,
+  previousPrice: 100,
+  initialPrice: 100,
+  lastUpdated: '2024-01-25T14:30:00.000Z',
+  ...overrides,
+});
+
+describe('ApiClient', () => {
+  let fetchFn: jest.Mock;
+
+  const createClient = (options: Partial<ApiClientOptions> = {}) => new ApiClient({
+    baseUrl: 'http://api.test',
+    getAuthHeaders: () => ({ Authorization: 'Bearer token-1' }),
+    fetchFn,
+    ...options,
+  });
+
+  beforeEach(() => {
+    fetchFn = jest.fn();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should return validated data with the auth headers applied', async () => {
+    fetchFn.mockResolvedValue(reply({ body: { success: true, stocks: [stock()], groups: [] } }));
+
+    const result = await createClient().getStocks();
+
+    expect(result).toEqual({ ok: true, status: 200, data: expect.objectContaining({ stocks: [expect.objectContaining({ symbol: 'BNOX' })] }) });
+    const [url, init] = fetchFn.mock.calls[0];
+    expect(url).toBe('http://api.test/api/remote/stocks');
+    expect(init.method).toBe('GET');
+    expect(init.headers).toMatchObject({ Authorization: 'Bearer token-1', 'Content-Type': 'application/json' });
+  });
+
+  it('should send bodies as JSON and use a given token instead of the client credentials', async () => {
+    fetchFn.mockResolvedValue(reply({ body: { success: true, stock: stock({ currentPrice: 120 }) } }));
+
+    await createClient().setStockPrice('BTC/USD', 120, { token: 'admin-token' });
+
+    const [url, init] = fetchFn.mock.calls[0];
+    expect(url).toBe('http://api.test/api/remote/stocks/BTC%2FUSD');
+    expect(init.body).toBe(JSON.stringify({ price: 120 }));
+    expect(init.headers.Authorization).toBe('Bearer admin-token');
+    expect(init.headers).not.toHaveProperty('Idempotency-Key');
+  });
+
+  it('should send an idempotency key when given one', async () => {
+    fetchFn.mockResolvedValue(reply({ body: { success: true, message: 'Stock removed' } }));
+
+    await createClient().removeStock('ZENT', { idempotencyKey: 'edit-1' });
+
+    expect(fetchFn.mock.calls[0][1].headers['Idempotency-Key']).toBe('edit-1');
+  });
+
+  it('should report malformed data as an invalid response, with where it went wrong', async () => {
+    fetchFn.mockResolvedValue(reply({ body: { success: true, stocks: [stock(), stock({ currentPrice: 'n/a' })] } }));
+
+    const result = await createClient().getStocks();
+
+    expect(result).toEqual({
+      ok: false,
+      error: { kind: 'invalid-response', status: 200, message: 'GET /api/remote/stocks: stocks[1].currentPrice: expected a number' },
+    });
+  });
+
+  it('should report a response that is not JSON', async () => {
+    fetchFn.mockResolvedValue(reply({ body: '<html></html>', contentType: 'text/html' }));
+    expect(await createClient().getControls()).toMatchObject({ ok: false, error: { kind: 'invalid-response' } });
+
+    fetchFn.mockResolvedValue(reply({ body: '{"success": tru' }));
+    expect(await createClient().getControls()).toMatchObject({ ok: false, error: { kind: 'invalid-response' } });
+  });
+
+  it('should map error statuses to kinds and keep the server message', async () => {
+    const onUnauthorized = jest.fn();
+    const client = createClient({ onUnauthorized });
+
+    fetchFn.mockResolvedValueOnce(reply({ status: 401, body: { success: false, error: 'Token expired' } }));
+    expect(await client.getStocks()).toEqual({ ok: false, error: { kind: 'unauthorized', status: 401, message: 'Token expired' } });
+    expect(onUnauthorized).toHaveBeenCalledTimes(1);
+
+    fetchFn.mockResolvedValueOnce(reply({ status: 404, body: { success: false, error: 'Stock not found' } }));
+    expect(await client.removeStock('ZENT')).toMatchObject({ ok: false, error: { kind: 'not-found', message: 'Stock not found' } });
+
+    fetchFn.mockResolvedValueOnce(reply({ status: 500, contentType: 'text/plain' }));
+    expect(await client.getStocks()).toMatchObject({ ok: false, error: { kind: 'http', status: 500 } });
+
+    fetchFn.mockResolvedValueOnce(reply({ body: { success: false, error: 'Invalid update type' } }));
+    expect(await client.bulkUpdate({ updateType: 'sideways' })).toMatchObject({ ok: false, error: { kind: 'http', message: 'Invalid update type' } });
+    expect(onUnauthorized).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not call the server without credentials or a base URL', async () => {
+    expect(await createClient({ getAuthHeaders: () => null }).getStocks())
+      .toMatchObject({ ok: false, error: { kind: 'unauthorized' } });
+    expect(await createClient({ baseUrl: () => '' }).getStocks())
+      .toMatchObject({ ok: false, error: { kind: 'not-configured' } });
+    const brokenAuth = createClient({ getAuthHeaders: async () => { throw new Error('bridge not loaded'); } });
+    expect(await brokenAuth.getStocks())
+      .toMatchObject({ ok: false, error: { kind: 'unauthorized', message: 'Could not get API credentials: bridge not loaded' } });
+    expect(fetchFn).not.toHaveBeenCalled();
+
+    // Login needs no credentials
+    fetchFn.mockResolvedValue(reply({ body: { success: true, token: 'token-2', user: { id: 1, username: 'admin' } } }));
+    const login = await createClient({ getAuthHeaders: () => null }).login('admin', 'secret');
+    expect(login).toMatchObject({ ok: true, data: { token: 'token-2', user: { id: 1 } } });
+    expect(fetchFn.mock.calls[0][1].headers).not.toHaveProperty('Authorization');
+  });
+
+  it('should time out, and tell a timeout from a cancelled or failed request', async () => {
+    jest.useFakeTimers();
+    fetchFn.mockImplementation((_url: string, init: RequestInit) => new Promise((_resolve, reject) => {
+      init.signal?.addEventListener('abort', () => reject(new Error('aborted')));
+    }));
+
+    const timedOut = createClient({ timeoutMs: 1000 }).getStocks();
+    await Promise.resolve();
+    jest.advanceTimersByTime(1000);
+    expect(await timedOut).toEqual({ ok: false, error: { kind: 'timeout', message: 'Timeout after 1000ms' } });
+
+    const controller = new AbortController();
+    const cancelled = createClient().getStocks({ signal: controller.signal });
+    await Promise.resolve();
+    controller.abort();
+    expect(await cancelled).toMatchObject({ ok: false, error: { kind: 'aborted' } });
+
+    fetchFn.mockRejectedValue(new TypeError('Failed to fetch'));
+    expect(await createClient().getStocks()).toMatchObject({ ok: false, error: { kind: 'network', message: 'Connection failed: Failed to fetch' } });
+  });
+});
+
+describe('apiStockSchema', () => {
+  it('should drop optional fields it cannot use and keep unknown ones', () => {
+    const result = apiStockSchema.parse(stock({ currency: 'XXX', exchange: 'NASDAQ', volume: 'lots', sector: 'Tech' }));
+
+    expect(result.success).toBe(true);
+    const parsed = result.success ? result.data : null;
+    expect(parsed).not.toHaveProperty('currency');
+    expect(parsed).not.toHaveProperty('volume');
+    expect(parsed).toMatchObject({ exchange: 'NASDAQ', sector: 'Tech' });
+  });
+
+  it('should reject missing or impossible required fields', () => {
+    expect(apiStockSchema.parse(stock({ symbol: undefined }))).toEqual({ success: false, issue: 'symbol: expected a string' });
+    expect(apiStockSchema.parse(stock({ currentPrice: -5 }))).toEqual({ success: false, issue: 'currentPrice: expected a positive number' });
+    expect(apiStockSchema.parse(stock({ lastUpdated: 'yesterday' }))).toEqual({ success: false, issue: 'lastUpdated: expected a date' });
+  });
+});
@@ -0,0 +1,96 @@
+import {
+  COMMAND_LOG_LIMITS,
+  EMPTY_COMMAND_LOG,
+  createCommandEntry,
+  describeCommand,
+  recordCommand,
+  redoCommand,
+  undoCommand,
+} from '../../lib/commandLog';
+import { CommandLogEntry, StockInfo, TickerCommand } from '../../lib/types';
+
+const NOW = 1_700_000_000_000;
+
+const prices = (values: Record<string, number>): TickerCommand => ({ type: 'setPrices', prices: values });
+
+const interval = (updateIntervalMs: number): TickerCommand => ({ type: 'updateControls', updates: { updateIntervalMs } });
+
+const priceEntry = (symbol: string, from: number, to: number, at = NOW, id = `${symbol}-${to}`): CommandLogEntry =>
+  createCommandEntry(prices({ [symbol]: to }), prices({ [symbol]: from }), id, at);
+
+const stock = (symbol: string): StockInfo => ({
+  symbol,
+  name: `${symbol} Inc.`,
+  currentPrice: 10,
+  previousPrice: 10,
+  initialPrice: 10,
+  percentChange: 0,
+  lastUpdated: new Date(NOW),
+  priceHistory: [],
+});
+
+describe('Command log', () => {
+  it('should undo and redo in order', () => {
+    let log = recordCommand(EMPTY_COMMAND_LOG, priceEntry('BNOX', 100, 110));
+    log = recordCommand(log, priceEntry('MSFT', 400, 420, NOW + 5000));
+
+    const undone = undoCommand(log);
+    expect(undone?.entry.inverse).toEqual(prices({ MSFT: 400 }));
+    expect(undone?.log.done.map(entry => entry.id)).toEqual(['BNOX-110']);
+
+    const redone = redoCommand(undone!.log);
+    expect(redone?.entry.command).toEqual(prices({ MSFT: 420 }));
+    expect(redone?.log).toEqual(log);
+
+    expect(undoCommand(EMPTY_COMMAND_LOG)).toBeNull();
+    expect(redoCommand(log)).toBeNull();
+  });
+
+  it('should clear the redo list when a new action is recorded', () => {
+    const log = undoCommand(recordCommand(EMPTY_COMMAND_LOG, priceEntry('BNOX', 100, 110)))!.log;
+    expect(log.undone).toHaveLength(1);
+
+    expect(recordCommand(log, priceEntry('MSFT', 400, 420)).undone).toEqual([]);
+  });
+
+  it('should merge quick changes to the same thing, keeping the first inverse', () => {
+    let log = recordCommand(EMPTY_COMMAND_LOG, createCommandEntry(interval(600), interval(1000), 'a', NOW));
+    log = recordCommand(log, createCommandEntry(interval(400), interval(600), 'b', NOW + 200));
+
+    expect(log.done).toHaveLength(1);
+    expect(log.done[0]).toMatchObject({ id: 'b', command: interval(400), inverse: interval(1000), label: 'Update interval 400ms' });
+
+    // Later, or for another stock, it is a new entry
+    log = recordCommand(log, createCommandEntry(interval(300), interval(400), 'c', NOW + 200 + COMMAND_LOG_LIMITS.COALESCE_MS + 1));
+    log = recordCommand(log, priceEntry('BNOX', 100, 110, NOW + 5000));
+    log = recordCommand(log, priceEntry('MSFT', 400, 420, NOW + 5001));
+    expect(log.done.map(entry => entry.id)).toEqual(['b', 'c', 'BNOX-110', 'MSFT-420']);
+  });
+
+  it('should drop changes that end where they started', () => {
+    let log = recordCommand(EMPTY_COMMAND_LOG, priceEntry('BNOX', 100, 110));
+    log = recordCommand(log, priceEntry('BNOX', 110, 100, NOW + 100));
+    expect(log.done).toEqual([]);
+
+    expect(recordCommand(EMPTY_COMMAND_LOG, priceEntry('BNOX', 100, 100))).toBe(EMPTY_COMMAND_LOG);
+  });
+
+  it('should keep only the newest entries', () => {
+    let log = EMPTY_COMMAND_LOG;
+    for (let i = 0; i < COMMAND_LOG_LIMITS.MAX_ENTRIES + 5; i++) {
+      log = recordCommand(log, priceEntry('BNOX', i, i + 1, NOW + i * 10000));
+    }
+
+    expect(log.done).toHaveLength(COMMAND_LOG_LIMITS.MAX_ENTRIES);
+    expect(log.done[log.done.length - 1].id).toBe(`BNOX-${COMMAND_LOG_LIMITS.MAX_ENTRIES + 5}`);
+  });
+
+  it('should describe commands', () => {
+    expect(describeCommand(prices({ BNOX: 101.123456 }))).toBe('Set BNOX to 101.1235');
+    expect(describeCommand(prices({ BNOX: 1, MSFT: 2 }))).toBe('Set 2 prices');
+    expect(describeCommand({ type: 'restoreStock', stock: stock('ZENT'), index: 0 })).toBe('Add ZENT');
+    expect(describeCommand({ type: 'removeStock', symbol: 'ZENT' })).toBe('Remove ZENT');
+    expect(describeCommand({ type: 'updateControls', updates: { selectedCurrency: 'EUR' } })).toBe('Display currency EUR');
+    expect(createCommandEntry(prices({ BNOX: 1 }), prices({ BNOX: 2 }), 'x', NOW, '+10% on all stocks').label).toBe('+10% on all stocks');
+  });
+});
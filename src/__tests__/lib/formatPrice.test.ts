@@ -0,0 +1,81 @@
+import {
+  CURRENCIES,
+  CURRENCY_RATES,
+  DEFAULT_FORMAT_PREFERENCES,
+  formatNumber,
+  formatPrice,
+  getCurrencyDecimals,
+  setFormatPreferences,
+  validateCurrency,
+  validateLocale,
+} from '../../lib/types';
+
+// Intl output separates some symbols with a non-breaking space
+const normalize = (text: string) => text.replace(/[  ]/g, ' ');
+
+describe('Locale-aware formatting', () => {
+  afterEach(() => setFormatPreferences(DEFAULT_FORMAT_PREFERENCES));
+
+  describe('currencies', () => {
+    it('should describe and accept every currency in the built-in rate table', () => {
+      Object.keys(CURRENCY_RATES).forEach(code => {
+        expect(CURRENCIES[code].code).toBe(code);
+        expect(validateCurrency(code).isValid).toBe(true);
+      });
+      expect(validateCurrency('XYZ').isValid).toBe(false);
+    });
+
+    it('should know which currencies have no minor units', () => {
+      expect(getCurrencyDecimals('USD')).toBe(2);
+      expect(getCurrencyDecimals('JPY')).toBe(0);
+      expect(getCurrencyDecimals('KRW')).toBe(0);
+    });
+  });
+
+  describe('formatPrice', () => {
+    it('should format US amounts by default', () => {
+      expect(formatPrice(1234.5, 'USD')).toBe('$1,234.50');
+      expect(formatPrice(1234.5, 'JPY')).toBe('¥1,235');
+      expect(formatPrice(-3, 'USD')).toBe('-$3.00');
+    });
+
+    it('should follow the locale for grouping and symbol placement', () => {
+      setFormatPreferences({ locale: 'de-DE', compactLargeAmounts: false });
+      expect(normalize(formatPrice(1234.5, 'EUR'))).toBe('1.234,50 €');
+
+      setFormatPreferences({ locale: 'en-IN', compactLargeAmounts: false });
+      expect(formatPrice(1234567, 'INR')).toBe('₹12,34,567.00');
+    });
+
+    it('should honour explicit decimals except for currencies without minor units', () => {
+      expect(formatPrice(1.23456, 'USD', 4)).toBe('$1.2346');
+      expect(formatPrice(1.5, 'JPY', 4)).toBe('¥2');
+    });
+
+    it('should abbreviate large amounts only when asked or preferred', () => {
+      expect(formatPrice(1234567, 'USD', 2, undefined, { compact: true })).toBe('$1.2M');
+      expect(formatPrice(1234567, 'USD')).toBe('$1,234,567.00');
+
+      setFormatPreferences({ locale: 'en-US', compactLargeAmounts: true });
+      expect(formatPrice(1234567, 'USD')).toBe('$1.2M');
+      expect(formatPrice(99.5, 'USD')).toBe('$99.50');
+      expect(formatPrice(1234567, 'USD', 2, undefined, { compact: false })).toBe('$1,234,567.00');
+    });
+  });
+
+  describe('formatNumber', () => {
+    it('should format plain numbers in the selected locale', () => {
+      expect(formatNumber(12345.6)).toBe('12,345.6');
+      setFormatPreferences({ locale: 'fr-FR', compactLargeAmounts: false });
+      expect(normalize(formatNumber(12345.6))).toBe('12 345,6');
+    });
+  });
+
+  describe('validateLocale', () => {
+    it('should accept valid tags and the browser default', () => {
+      expect(validateLocale('').isValid).toBe(true);
+      expect(validateLocale('ja-JP').isValid).toBe(true);
+      expect(validateLocale('not a locale!').isValid).toBe(false);
+    });
+  });
+});
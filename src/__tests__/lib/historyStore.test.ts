@@ -0,0 +1,118 @@
+import {
+  TieredHistoryStore,
+  DEFAULT_HISTORY_RETENTION,
+  HISTORY_RETENTION_PRESETS,
+  validateHistoryRetention,
+  getRetentionCoverageMs,
+} from '../../lib/historyStore';
+import { HistoryRetentionConfig, PricePoint } from '../../lib/types';
+
+const SMALL_RETENTION: HistoryRetentionConfig = {
+  method: 'lttb',
+  tiers: [
+    { capacity: 20, compression: 1 },
+    { capacity: 20, compression: 5 },
+  ],
+};
+
+// One point per second, ending now
+const makeTicks = (count: number, endTime = Date.now()): PricePoint[] =>
+  Array.from({ length: count }, (_, i) => ({
+    timestamp: new Date(endTime - (count - 1 - i) * 1000),
+    price: 100 + i,
+  }));
+
+describe('TieredHistoryStore', () => {
+  it('should ignore points it has already stored', () => {
+    const store = new TieredHistoryStore(SMALL_RETENTION);
+    const ticks = makeTicks(10);
+    expect(store.ingest('ABC', ticks.slice(0, 6))).toBe(6);
+    expect(store.ingest('ABC', ticks)).toBe(4);
+    expect(store.query('ABC')).toHaveLength(10);
+  });
+
+  it('should keep memory bounded while keeping the newest points raw', () => {
+    const store = new TieredHistoryStore(SMALL_RETENTION);
+    const ticks = makeTicks(1000);
+    ticks.forEach(tick => store.ingest('ABC', [tick]));
+
+    const { pointsPerTier } = store.getStats('ABC');
+    expect(pointsPerTier[0]).toBeLessThanOrEqual(20);
+    expect(pointsPerTier[1]).toBeLessThanOrEqual(20);
+
+    const history = store.query('ABC');
+    expect(history.slice(-pointsPerTier[0])).toEqual(ticks.slice(-pointsPerTier[0]));
+    // Older tiers cover more time than their point count
+    const spanSeconds = (history[history.length - 1].timestamp.getTime() - history[0].timestamp.getTime()) / 1000;
+    expect(spanSeconds).toBeGreaterThan(history.length);
+  });
+
+  it('should return history in chronological order', () => {
+    const store = new TieredHistoryStore(SMALL_RETENTION);
+    store.ingest('ABC', makeTicks(200));
+    const times = store.query('ABC').map(point => point.timestamp.getTime());
+    expect(times).toEqual([...times].sort((a, b) => a - b));
+  });
+
+  it('should filter by range and limit the number of points', () => {
+    const store = new TieredHistoryStore(DEFAULT_HISTORY_RETENTION);
+    store.ingest('ABC', makeTicks(300));
+    expect(store.query('ABC', '1m').length).toBeLessThanOrEqual(61);
+    expect(store.query('ABC', 'all', 50)).toHaveLength(50);
+    expect(store.query('XYZ')).toEqual([]);
+  });
+
+  it('should measure ranges back from a given time', () => {
+    const store = new TieredHistoryStore(DEFAULT_HISTORY_RETENTION);
+    const dayAgo = Date.now() - 24 * 60 * 60 * 1000;
+    store.ingest('ABC', makeTicks(300, dayAgo));
+    expect(store.query('ABC', '1m')).toEqual([]);
+    expect(store.query('ABC', '1m', undefined, dayAgo)).toHaveLength(61);
+  });
+
+  it('should re-tier stored history when the config changes', () => {
+    const store = new TieredHistoryStore(DEFAULT_HISTORY_RETENTION);
+    store.ingest('ABC', makeTicks(100));
+    store.setConfig(SMALL_RETENTION);
+    expect(store.getStats('ABC').pointsPerTier).toHaveLength(2);
+    expect(store.query('ABC').length).toBeLessThanOrEqual(40);
+  });
+
+  it('should restore saved points from before the stored history', () => {
+    const store = new TieredHistoryStore(DEFAULT_HISTORY_RETENTION);
+    const ticks = makeTicks(100);
+    store.ingest('ABC', ticks.slice(60));
+
+    // Saved points overlapping the live ones are left out
+    expect(store.restore('ABC', ticks.slice(0, 70))).toBe(60);
+    expect(store.query('ABC')).toEqual(ticks);
+    expect(store.restore('ABC', ticks.slice(0, 10))).toBe(0);
+
+    expect(store.restore('XYZ', ticks.slice(0, 5))).toBe(5);
+  });
+});
+
+describe('validateHistoryRetention', () => {
+  it('should accept the presets', () => {
+    Object.values(HISTORY_RETENTION_PRESETS).forEach(config => {
+      expect(validateHistoryRetention(config).isValid).toBe(true);
+    });
+  });
+
+  it('should reject bad methods, capacities and compression', () => {
+    expect(validateHistoryRetention({ ...SMALL_RETENTION, method: 'average' }).isValid).toBe(false);
+    expect(validateHistoryRetention({ method: 'lttb', tiers: [] }).isValid).toBe(false);
+    expect(validateHistoryRetention({ method: 'lttb', tiers: [{ capacity: 5, compression: 1 }] }).isValid).toBe(false);
+    expect(validateHistoryRetention({
+      method: 'lttb',
+      tiers: [{ capacity: 100, compression: 1 }, { capacity: 100, compression: 1 }],
+    }).isValid).toBe(false);
+  });
+});
+
+describe('getRetentionCoverageMs', () => {
+  it('should multiply compression down the tiers', () => {
+    // 20 raw seconds + 20 points at 5s each
+    expect(getRetentionCoverageMs(SMALL_RETENTION, 1000)).toBe(120 * 1000);
+  });
+});
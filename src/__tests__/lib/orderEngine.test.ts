@@ -0,0 +1,144 @@
+import {
+  createOrder,
+  describeOrder,
+  matchOrder,
+  parseOrders,
+  processOrders,
+  pruneOrders,
+  validateNewOrder,
+  ORDER_LIMITS,
+} from '../../lib/orderEngine';
+import { NewOrder, Order } from '../../lib/types';
+import { createPortfolio } from '../../utils/portfolio';
+
+let nextId = 0;
+const makeOrder = (input: Partial<NewOrder>, overrides: Partial<Order> = {}): Order => ({
+  ...createOrder({ symbol: 'MSFT', side: 'buy', type: 'market', quantity: 10, ...input }, `o${nextId++}`, 0),
+  ...overrides,
+});
+
+describe('Order Engine', () => {
+  describe('validateNewOrder', () => {
+    it('should require prices for the order type', () => {
+      expect(validateNewOrder({ symbol: 'MSFT', side: 'buy', type: 'market', quantity: 1 }).isValid).toBe(true);
+      expect(validateNewOrder({ symbol: 'MSFT', side: 'buy', type: 'limit', quantity: 1 }).isValid).toBe(false);
+      expect(validateNewOrder({ symbol: 'MSFT', side: 'buy', type: 'stop', quantity: 1, limitPrice: 10 }).isValid).toBe(false);
+      expect(validateNewOrder({ symbol: 'MSFT', side: 'buy', type: 'stopLimit', quantity: 1, stopPrice: 10 }).isValid).toBe(false);
+      expect(validateNewOrder({ symbol: 'MSFT', side: 'buy', type: 'stopLimit', quantity: 1, stopPrice: 10, limitPrice: 11 }).isValid).toBe(true);
+    });
+
+    it('should reject bad symbols, sides and quantities', () => {
+      expect(validateNewOrder({ symbol: '', side: 'buy', type: 'market', quantity: 1 }).isValid).toBe(false);
+      expect(validateNewOrder({ symbol: 'MSFT', side: 'hold' as never, type: 'market', quantity: 1 }).isValid).toBe(false);
+      expect(validateNewOrder({ symbol: 'MSFT', side: 'buy', type: 'market', quantity: 2.5 }).isValid).toBe(false);
+    });
+  });
+
+  describe('createOrder', () => {
+    it('should drop prices the order type does not use', () => {
+      const order = createOrder({ symbol: 'msft', side: 'buy', type: 'limit', quantity: 1, limitPrice: 10, stopPrice: 9 }, 'o', 5);
+      expect(order).toMatchObject({ symbol: 'MSFT', limitPrice: 10, stopPrice: undefined, status: 'open', triggered: false, createdAt: 5 });
+    });
+  });
+
+  describe('describeOrder', () => {
+    it('should include the relevant prices', () => {
+      expect(describeOrder({ symbol: 'MSFT', side: 'sell', type: 'stopLimit', quantity: 5, stopPrice: 95, limitPrice: 94 }))
+        .toBe('Sell 5 MSFT stop limit $95.00 / $94.00');
+    });
+  });
+
+  describe('matchOrder', () => {
+    it('should fill market orders at the current price', () => {
+      expect(matchOrder(makeOrder({}), 101)).toEqual({ triggered: false, fillPrice: 101 });
+    });
+
+    it('should fill limit orders only at the limit or better', () => {
+      const buy = makeOrder({ type: 'limit', limitPrice: 100 });
+      expect(matchOrder(buy, 100.5).fillPrice).toBeNull();
+      expect(matchOrder(buy, 99).fillPrice).toBe(99);
+
+      const sell = makeOrder({ side: 'sell', type: 'limit', limitPrice: 100 });
+      expect(matchOrder(sell, 99.5).fillPrice).toBeNull();
+      expect(matchOrder(sell, 102).fillPrice).toBe(102);
+    });
+
+    it('should fill stop orders once the stop is reached, even past it', () => {
+      const sellStop = makeOrder({ side: 'sell', type: 'stop', stopPrice: 95 });
+      expect(matchOrder(sellStop, 96)).toEqual({ triggered: false, fillPrice: null });
+      expect(matchOrder(sellStop, 90)).toEqual({ triggered: true, fillPrice: 90 });
+
+      const buyStop = makeOrder({ type: 'stop', stopPrice: 105 });
+      expect(matchOrder(buyStop, 106).fillPrice).toBe(106);
+    });
+
+    it('should work stop-limit orders as limits after triggering', () => {
+      const order = makeOrder({ side: 'sell', type: 'stopLimit', stopPrice: 95, limitPrice: 94 });
+      // Gapped through the limit: triggered but not filled
+      expect(matchOrder(order, 93)).toEqual({ triggered: true, fillPrice: null });
+      // Stays triggered when the price recovers above the stop
+      expect(matchOrder({ ...order, triggered: true }, 96)).toEqual({ triggered: true, fillPrice: 96 });
+    });
+  });
+
+  describe('processOrders', () => {
+    it('should book fills as trades and update order status', () => {
+      const order = makeOrder({ type: 'limit', limitPrice: 100 });
+      const portfolio = { ...createPortfolio(10000), orders: [order] };
+
+      const unchanged = processOrders(portfolio, { MSFT: 101 }, 1);
+      expect(unchanged).toBe(portfolio);
+
+      const filled = processOrders(portfolio, { MSFT: 99 }, 2);
+      expect(filled.cash).toBeCloseTo(9010);
+      expect(filled.trades).toEqual([expect.objectContaining({ symbol: 'MSFT', side: 'buy', quantity: 10, price: 99, timestamp: 2, orderId: order.id })]);
+      expect(filled.orders[0]).toMatchObject({ status: 'filled', fillPrice: 99, filledAt: 2 });
+    });
+
+    it('should record a stop being reached without a fill', () => {
+      const order = makeOrder({ side: 'sell', type: 'stopLimit', stopPrice: 95, limitPrice: 94 });
+      const portfolio = { ...createPortfolio(), orders: [order] };
+      const next = processOrders(portfolio, { MSFT: 93 }, 3);
+      expect(next.orders[0]).toMatchObject({ status: 'open', triggered: true, updatedAt: 3 });
+      expect(next.trades).toHaveLength(0);
+    });
+
+    it('should reject fills that cannot be settled, in order', () => {
+      const first = makeOrder({ quantity: 8 });
+      const second = makeOrder({ quantity: 8 });
+      const sell = makeOrder({ symbol: 'AAPL', side: 'sell', quantity: 1 });
+      const portfolio = { ...createPortfolio(1000), orders: [first, second, sell] };
+
+      const next = processOrders(portfolio, { MSFT: 100, AAPL: 50 }, 4);
+      expect(next.orders.map(o => o.status)).toEqual(['filled', 'rejected', 'rejected']);
+      expect(next.orders[1].rejectReason).toMatch(/cash/);
+      expect(next.cash).toBeCloseTo(200);
+    });
+
+    it('should leave orders for symbols without a price open', () => {
+      const portfolio = { ...createPortfolio(), orders: [makeOrder({})] };
+      expect(processOrders(portfolio, {}, 5)).toBe(portfolio);
+    });
+  });
+
+  describe('pruneOrders', () => {
+    it('should drop the oldest closed orders but keep open ones', () => {
+      const orders = [
+        makeOrder({}),
+        ...Array.from({ length: ORDER_LIMITS.MAX_ORDERS }, () => makeOrder({}, { status: 'filled' })),
+      ];
+      const pruned = pruneOrders(orders);
+      expect(pruned).toHaveLength(ORDER_LIMITS.MAX_ORDERS);
+      expect(pruned[0]).toBe(orders[0]);
+      expect(pruned).not.toContain(orders[1]);
+    });
+  });
+
+  describe('parseOrders', () => {
+    it('should drop malformed orders', () => {
+      const valid = makeOrder({ type: 'limit', limitPrice: 10 });
+      expect(parseOrders([valid, { ...valid, status: 'pending' }, { ...valid, limitPrice: -1 }, null])).toEqual([valid]);
+      expect(parseOrders('junk')).toEqual([]);
+    });
+  });
+});
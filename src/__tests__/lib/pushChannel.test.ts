@@ -0,0 +1,308 @@
+import { ApiStock } from '../../lib/apiClient';
+import {
+  PUSH_CHANNEL,
+  PushClient,
+  PushMessage,
+  PushTransport,
+  PushTransportFactory,
+  PushTransportHandlers,
+  PushTransportKind,
+  backoffDelay,
+  parsePushMessage,
+} from '../../lib/pushChannel';
+
+// A message before the server numbers it
+type WithoutSeq<T> = T extends unknown ? Omit<T, 'seq'> : never;
+type ServerEvent = WithoutSeq<PushMessage>;
+
+interface Connection {
+  handlers: PushTransportHandlers;
+  closed: boolean;
+}
+
+const makeStock = (symbol: string, price: number): ApiStock => ({
+  symbol,
+  name: `${symbol} Inc.`,
+  currentPrice: price,
+  previousPrice: price,
+  initialPrice: price,
+  currency: 'USD',
+  lastUpdated: '2024-01-25T14:30:00.000Z',
+  priceHistory: [{ timestamp: '2024-01-25T14:30:00.000Z', price }],
+});
+
+// Local stand-in for the API server's stream: numbers events, keeps the
+// recent ones for resuming, and answers over either transport
+class MockPushServer {
+  seq = 0;
+  events: PushMessage[] = [];
+  bufferSize = 100;
+  acceptWebSocket = true;
+  down = false;
+  opened: { kind: PushTransportKind; since: number | null }[] = [];
+  private connections = new Set<Connection>();
+
+  readonly transports: Record<PushTransportKind, PushTransportFactory> = {
+    websocket: (url, handlers) => this.connect('websocket', url, handlers),
+    sse: (url, handlers) => this.connect('sse', url, handlers),
+  };
+
+  get connectionCount(): number {
+    return this.connections.size;
+  }
+
+  publish(event: ServerEvent): void {
+    const message = { ...event, seq: ++this.seq } as PushMessage;
+    this.events = [...this.events, message].slice(-this.bufferSize);
+    this.connections.forEach(connection => this.send(connection, message));
+  }
+
+  // Send raw data to every client, e.g. malformed or out-of-order messages
+  sendRaw(data: string): void {
+    this.connections.forEach(connection => connection.handlers.onMessage(data));
+  }
+
+  // Drop every connection, as a server restart or network change would
+  dropAll(): void {
+    this.connections.forEach(connection => {
+      this.connections.delete(connection);
+      connection.handlers.onClose();
+    });
+  }
+
+  private connect(kind: PushTransportKind, url: string, handlers: PushTransportHandlers): PushTransport {
+    const sinceParam = new URL(url).searchParams.get('since');
+    const since = sinceParam === null ? null : Number(sinceParam);
+    const connection: Connection = { handlers, closed: false };
+
+    setTimeout(() => {
+      if (connection.closed) return;
+      if (this.down || (kind === 'websocket' && !this.acceptWebSocket)) {
+        handlers.onClose();
+        return;
+      }
+      this.opened.push({ kind, since });
+      this.connections.add(connection);
+      handlers.onOpen();
+      this.backlog(since).forEach(message => this.send(connection, message));
+    }, 0);
+
+    return {
+      close: () => {
+        connection.closed = true;
+        this.connections.delete(connection);
+      },
+    };
+  }
+
+  private backlog(since: number | null): PushMessage[] {
+    const oldestSeq = this.events.length > 0 ? this.events[0].seq : this.seq + 1;
+    if (since !== null && since >= oldestSeq - 1 && since <= this.seq) {
+      return this.events.filter(event => event.seq > since);
+    }
+    return [{
+      type: 'snapshot',
+      seq: this.seq,
+      stocks: [makeStock('BNOX', 100)],
+      groups: [],
+      controls: { isPaused: false, selectedCurrency: 'USD', updateIntervalMs: 1000 },
+    }];
+  }
+
+  private send(connection: Connection, message: PushMessage): void {
+    connection.handlers.onMessage(JSON.stringify(message));
+  }
+}
+
+describe('PushClient', () => {
+  let server: MockPushServer;
+  let messages: PushMessage[];
+  let poll: jest.Mock;
+  let client: PushClient;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    server = new MockPushServer();
+    messages = [];
+    poll = jest.fn();
+    client = new PushClient({
+      getUrl: (kind, since) => `mock://stream/${kind}${since === null ? '' : `?since=${since}`}`,
+      onMessage: message => messages.push(message),
+      poll,
+      transports: server.transports,
+      random: () => 1,
+    });
+  });
+
+  afterEach(() => {
+    client.stop();
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  const settle = () => jest.advanceTimersByTime(1);
+
+  it('should receive a snapshot and then typed changes over WebSocket', () => {
+    client.start();
+    settle();
+    expect(client.status.mode).toBe('websocket');
+
+    server.publish({ type: 'tick', symbol: 'BNOX', price: 101.5, timestamp: '2024-01-25T14:30:01.000Z' });
+    server.publish({ type: 'stockAdded', stock: makeStock('ZENT', 50) });
+    server.publish({ type: 'stockRemoved', symbol: 'ZENT' });
+    server.publish({ type: 'controls', controls: { isPaused: true, selectedCurrency: 'EUR', updateIntervalMs: 2000 } });
+
+    expect(messages.map(message => message.type)).toEqual(['snapshot', 'tick', 'stockAdded', 'stockRemoved', 'controls']);
+    expect(messages[1]).toMatchObject({ symbol: 'BNOX', price: 101.5, seq: 1 });
+    expect(client.status.lastSeq).toBe(4);
+    expect(poll).not.toHaveBeenCalled();
+  });
+
+  it('should use Server-Sent Events when the WebSocket cannot be opened', () => {
+    server.acceptWebSocket = false;
+    client.start();
+    settle();
+    settle();
+    expect(client.status.mode).toBe('sse');
+
+    // Later reconnects go straight to SSE
+    server.dropAll();
+    jest.advanceTimersByTime(PUSH_CHANNEL.INITIAL_BACKOFF_MS + 1);
+    expect(server.opened.map(open => open.kind)).toEqual(['sse', 'sse']);
+  });
+
+  it('should reconnect with backoff and resume after the last message seen', () => {
+    client.start();
+    settle();
+    server.publish({ type: 'tick', symbol: 'BNOX', price: 101, timestamp: '2024-01-25T14:30:01.000Z' });
+
+    server.dropAll();
+    expect(client.status.mode).toBe('connecting');
+    server.publish({ type: 'tick', symbol: 'BNOX', price: 102, timestamp: '2024-01-25T14:30:02.000Z' });
+    server.publish({ type: 'tick', symbol: 'BNOX', price: 103, timestamp: '2024-01-25T14:30:03.000Z' });
+
+    jest.advanceTimersByTime(backoffDelay(1, () => 1) - 1);
+    expect(server.opened).toHaveLength(1);
+    jest.advanceTimersByTime(2);
+
+    expect(server.opened[1]).toEqual({ kind: 'websocket', since: 1 });
+    expect(messages.map(message => message.seq)).toEqual([0, 1, 2, 3]);
+    expect(messages.filter(message => message.type === 'snapshot')).toHaveLength(1);
+  });
+
+  it('should start over from a snapshot when the server no longer has the missed messages', () => {
+    server.bufferSize = 2;
+    client.start();
+    settle();
+
+    server.dropAll();
+    for (let i = 1; i <= 5; i++) {
+      server.publish({ type: 'tick', symbol: 'BNOX', price: 100 + i, timestamp: '2024-01-25T14:30:01.000Z' });
+    }
+    jest.advanceTimersByTime(PUSH_CHANNEL.INITIAL_BACKOFF_MS + 1);
+
+    expect(messages.map(message => message.type)).toEqual(['snapshot', 'snapshot']);
+    expect(client.status.lastSeq).toBe(5);
+  });
+
+  it('should resync when messages go missing', () => {
+    client.start();
+    settle();
+    server.sendRaw(JSON.stringify({ type: 'stockRemoved', symbol: 'BNOX', seq: 7 }));
+    settle();
+
+    expect(messages.map(message => message.type)).toEqual(['snapshot', 'snapshot']);
+    expect(server.opened[1].since).toBeNull();
+    expect(server.connectionCount).toBe(1);
+  });
+
+  it('should ignore malformed messages', () => {
+    client.start();
+    settle();
+    server.sendRaw('not json');
+    server.sendRaw(JSON.stringify({ type: 'tick', symbol: 'BNOX', price: -1, timestamp: 'x', seq: 1 }));
+
+    expect(messages).toHaveLength(1);
+    expect(client.status.lastSeq).toBe(0);
+  });
+
+  it('should poll while the stream is down and switch back when it returns', () => {
+    server.down = true;
+    client.start();
+
+    // Each failure waits longer before the next attempt
+    for (let failure = 1; failure < PUSH_CHANNEL.MAX_FAILURES_BEFORE_POLLING; failure++) {
+      settle();
+      settle();
+      expect(client.status).toMatchObject({ mode: 'connecting', failures: failure });
+      jest.advanceTimersByTime(backoffDelay(failure, () => 1));
+    }
+    settle();
+    settle();
+    expect(client.status.mode).toBe('polling');
+    expect(poll).toHaveBeenCalledTimes(1);
+
+    jest.advanceTimersByTime(PUSH_CHANNEL.POLL_INTERVAL_MS * 2);
+    expect(poll).toHaveBeenCalledTimes(3);
+
+    server.down = false;
+    jest.advanceTimersByTime(PUSH_CHANNEL.RETRY_STREAM_MS - PUSH_CHANNEL.POLL_INTERVAL_MS * 2 + 10);
+    expect(client.status.mode).toBe('websocket');
+    // Polled state replaced the streamed one, so the stream starts from a snapshot
+    expect(server.opened[0].since).toBeNull();
+    const polls = poll.mock.calls.length;
+    jest.advanceTimersByTime(PUSH_CHANNEL.POLL_INTERVAL_MS * 3);
+    expect(poll).toHaveBeenCalledTimes(polls);
+  });
+
+  it('should fetch an async stream URL for each connection, and drop one that arrives after stopping', async () => {
+    let tickets = 0;
+    const getUrl = jest.fn(async (kind: PushTransportKind) => `mock://stream/${kind}?ticket=${++tickets}`);
+    client = new PushClient({ getUrl, onMessage: message => messages.push(message), poll, transports: server.transports, random: () => 1 });
+
+    client.start();
+    await jest.advanceTimersByTimeAsync(1);
+    expect(client.status.mode).toBe('websocket');
+
+    server.dropAll();
+    jest.advanceTimersByTime(PUSH_CHANNEL.INITIAL_BACKOFF_MS);
+    client.stop();
+    await jest.advanceTimersByTimeAsync(1);
+
+    expect(getUrl).toHaveBeenCalledTimes(2);
+    expect(server.opened).toHaveLength(1);
+    expect(server.connectionCount).toBe(0);
+  });
+
+  it('should stop cleanly', () => {
+    client.start();
+    settle();
+    client.stop();
+
+    expect(client.status.mode).toBe('stopped');
+    expect(server.connectionCount).toBe(0);
+    server.dropAll();
+    jest.advanceTimersByTime(PUSH_CHANNEL.MAX_BACKOFF_MS);
+    expect(server.opened).toHaveLength(1);
+  });
+});
+
+describe('backoffDelay', () => {
+  it('should double up to the maximum, with jitter', () => {
+    expect(backoffDelay(1, () => 0)).toBe(PUSH_CHANNEL.INITIAL_BACKOFF_MS / 2);
+    expect(backoffDelay(1, () => 1)).toBe(PUSH_CHANNEL.INITIAL_BACKOFF_MS);
+    expect(backoffDelay(3, () => 1)).toBe(PUSH_CHANNEL.INITIAL_BACKOFF_MS * 4);
+    expect(backoffDelay(20, () => 1)).toBe(PUSH_CHANNEL.MAX_BACKOFF_MS);
+  });
+});
+
+describe('parsePushMessage', () => {
+  it('should accept known message types only', () => {
+    expect(parsePushMessage(JSON.stringify({ type: 'stockRemoved', symbol: 'BNOX', seq: 3 })))
+      .toEqual({ type: 'stockRemoved', symbol: 'BNOX', seq: 3 });
+    expect(parsePushMessage(JSON.stringify({ type: 'reboot', seq: 3 }))).toBeNull();
+    expect(parsePushMessage(JSON.stringify({ type: 'stockRemoved', symbol: 'BNOX' }))).toBeNull();
+    expect(parsePushMessage(JSON.stringify({ type: 'stockAdded', stock: { symbol: 'BNOX' }, seq: 3 }))).toBeNull();
+  });
+});
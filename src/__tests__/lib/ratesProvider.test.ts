@@ -0,0 +1,142 @@
+import {
+  DEFAULT_RATES_PROVIDER_CONFIGS,
+  JsonRatesProvider,
+  SimulatedRatesProvider,
+  StaticRatesProvider,
+  createStaticSnapshot,
+  isRatesStale,
+  parseRatesPayload,
+  validateRatesProviderConfig,
+  RATES_LIMITS,
+} from '../../lib/ratesProvider';
+import {
+  CURRENCY_RATES,
+  convertCurrency,
+  formatPrice,
+  getCurrencyInfo,
+  getCurrencyRates,
+  getSupportedCurrencies,
+  setCurrencyRates,
+  validateCurrency,
+} from '../../lib/types';
+import { createSeededRandom } from '../../utils/random';
+
+const FULL_RATES = { ...CURRENCY_RATES, EUR: 0.9, GBP: 0.8, JPY: 150 };
+
+const mockFetch = (body: unknown, ok: boolean = true, status: number = 200) =>
+  jest.fn().mockResolvedValue({ ok, status, json: async () => body }) as unknown as typeof fetch;
+
+describe('Rates Provider', () => {
+  describe('parseRatesPayload', () => {
+    it('should parse USD-based documents with a timestamp', () => {
+      const { result, snapshot } = parseRatesPayload({ base: 'USD', timestamp: '2024-05-01T12:00:00Z', rates: FULL_RATES }, 'test');
+      expect(result.isValid).toBe(true);
+      expect(snapshot).toEqual({ rates: FULL_RATES, timestamp: Date.parse('2024-05-01T12:00:00Z'), source: 'test' });
+    });
+
+    it('should rebase rates quoted against another currency', () => {
+      const eurRates = Object.fromEntries(Object.entries(FULL_RATES).map(([code, rate]) => [code, rate / 0.9]));
+      const { snapshot } = parseRatesPayload({ base: 'EUR', rates: eurRates }, 'test', 42);
+      expect(snapshot?.rates.USD).toBe(1);
+      expect(snapshot?.rates.EUR).toBeCloseTo(0.9);
+      expect(snapshot?.rates.JPY).toBeCloseTo(150);
+      expect(snapshot?.timestamp).toBe(42);
+    });
+
+    it('should support exactly the currencies the document quotes', () => {
+      const { snapshot } = parseRatesPayload({ rates: { USD: 1, EUR: 0.9, XAU: 0.0004 } }, 'test');
+      expect(Object.keys(snapshot?.rates ?? {}).sort()).toEqual(['EUR', 'USD', 'XAU']);
+    });
+
+    it('should reject invalid rates, documents without USD, bad bases and bad timestamps', () => {
+      expect(parseRatesPayload({ rates: { ...FULL_RATES, EUR: -1, gbp: 0.8 } }, 'test').result.errorMessage).toBe('Invalid rates for EUR, gbp');
+      expect(parseRatesPayload({ base: 'EUR', rates: { GBP: 0.85 } }, 'test').result.errorMessage).toMatch(/no rate for USD/);
+      expect(parseRatesPayload({ base: 'euro', rates: FULL_RATES }, 'test').result.isValid).toBe(false);
+      expect(parseRatesPayload({ rates: FULL_RATES, timestamp: 'yesterday' }, 'test').result.isValid).toBe(false);
+      expect(parseRatesPayload('rates', 'test').result.isValid).toBe(false);
+    });
+  });
+
+  describe('providers', () => {
+    it('should serve the built-in table from the static provider', async () => {
+      const snapshot = await new StaticRatesProvider().getRates();
+      expect(snapshot.rates).toEqual(CURRENCY_RATES);
+    });
+
+    it('should fetch and parse rates from a URL', async () => {
+      const fetchFn = mockFetch({ rates: FULL_RATES });
+      const snapshot = await new JsonRatesProvider('/fx-rates.json', fetchFn).getRates();
+      expect(fetchFn).toHaveBeenCalledWith('/fx-rates.json', expect.anything());
+      expect(snapshot.rates.JPY).toBe(150);
+      expect(snapshot.source).toBe('/fx-rates.json');
+    });
+
+    it('should fail on HTTP errors and invalid documents', async () => {
+      await expect(new JsonRatesProvider('/x', mockFetch({}, false, 503)).getRates()).rejects.toThrow(/503/);
+      await expect(new JsonRatesProvider('/x', mockFetch({ base: 'EUR', rates: { GBP: 1 } })).getRates()).rejects.toThrow(/USD/);
+    });
+
+    it('should drift simulated rates within bounds and keep USD fixed', async () => {
+      const provider = new SimulatedRatesProvider(RATES_LIMITS.MAX_VOLATILITY_PERCENT, createSeededRandom(7));
+      let snapshot = await provider.getRates();
+      for (let i = 0; i < 200; i++) {
+        snapshot = await provider.getRates();
+      }
+      expect(snapshot.rates.USD).toBe(1);
+      expect(snapshot.rates.EUR).not.toBe(CURRENCY_RATES.EUR);
+      Object.entries(CURRENCY_RATES).forEach(([code, anchor]) => {
+        const rate = snapshot.rates[code as keyof typeof CURRENCY_RATES];
+        expect(rate).toBeGreaterThanOrEqual(anchor * (1 - RATES_LIMITS.MAX_DRIFT) - 1e-9);
+        expect(rate).toBeLessThanOrEqual(anchor * (1 + RATES_LIMITS.MAX_DRIFT) + 1e-9);
+      });
+    });
+  });
+
+  describe('validateRatesProviderConfig', () => {
+    it('should accept the defaults', () => {
+      Object.values(DEFAULT_RATES_PROVIDER_CONFIGS).forEach(config => {
+        expect(validateRatesProviderConfig(config).isValid).toBe(true);
+      });
+    });
+
+    it('should reject bad URLs, intervals and volatility', () => {
+      const { json, simulated } = DEFAULT_RATES_PROVIDER_CONFIGS;
+      expect(validateRatesProviderConfig({ ...json, url: 'javascript:alert(1)' }).isValid).toBe(false);
+      expect(validateRatesProviderConfig({ ...json, url: 'https://example.com/rates.json' }).isValid).toBe(true);
+      expect(validateRatesProviderConfig({ ...json, refreshIntervalMs: 10 }).isValid).toBe(false);
+      expect(validateRatesProviderConfig({ ...simulated, volatilityPercent: 0 }).isValid).toBe(false);
+    });
+  });
+
+  describe('isRatesStale', () => {
+    it('should flag rates older than the maximum age, except the built-in table', () => {
+      const config = DEFAULT_RATES_PROVIDER_CONFIGS.json;
+      const snapshot = { rates: FULL_RATES, timestamp: 0, source: '/fx-rates.json' };
+      expect(isRatesStale(snapshot, config, config.maxAgeMs)).toBe(false);
+      expect(isRatesStale(snapshot, config, config.maxAgeMs + 1)).toBe(true);
+      expect(isRatesStale(createStaticSnapshot(0), config, 1e12)).toBe(false);
+    });
+  });
+
+  describe('active rates', () => {
+    afterEach(() => setCurrencyRates(CURRENCY_RATES));
+
+    it('should be used by convertCurrency and formatPrice', () => {
+      setCurrencyRates(FULL_RATES);
+      expect(getCurrencyRates().JPY).toBe(150);
+      expect(convertCurrency(10, 'USD', 'JPY')).toBeCloseTo(1500);
+      expect(formatPrice(10, 'JPY', 2, 'USD')).toBe('¥1,500');
+      expect(formatPrice(10, 'USD')).toBe('$10.00');
+    });
+
+    it('should decide which currencies are supported', () => {
+      setCurrencyRates({ USD: 1, EUR: 0.9, SAR: 3.75 });
+      expect(getSupportedCurrencies()).toEqual(['EUR', 'SAR', 'USD']);
+      expect(validateCurrency('SAR').isValid).toBe(true);
+      expect(validateCurrency('GBP').errorMessage).toBe('No exchange rate for GBP. Supported currencies: EUR, SAR, USD');
+      expect(validateCurrency('usd').isValid).toBe(false);
+      expect(getCurrencyInfo('SAR')).toMatchObject({ code: 'SAR', name: 'Saudi Riyal' });
+      expect(getCurrencyInfo('GBP')).toEqual({ code: 'GBP', symbol: '£', name: 'British Pound' });
+    });
+  });
+});
@@ -0,0 +1,146 @@
+import {
+  ReplayEngine,
+  replayStock,
+  validateReplayData,
+  validateReplayOptions,
+} from '../../lib/replayEngine';
+import { PricePoint, StockInfo } from '../../lib/types';
+
+const OPEN = Date.UTC(2024, 0, 25, 14, 30);
+const MINUTE = 60 * 1000;
+
+// One bar per minute, starting at the open
+const minuteBars = (prices: number[]): PricePoint[] =>
+  prices.map((price, i) => ({ timestamp: new Date(OPEN + i * MINUTE), price }));
+
+const stock = (symbol: string, price: number): StockInfo => ({
+  symbol,
+  name: symbol,
+  currentPrice: price,
+  previousPrice: price,
+  initialPrice: price,
+  percentChange: 0,
+  lastUpdated: new Date(),
+  priceHistory: [],
+});
+
+describe('ReplayEngine', () => {
+  const histories = { BNOX: minuteBars([100, 101, 99, 104, 110]) };
+
+  it('should advance the playhead by the interval times the speed', () => {
+    const engine = new ReplayEngine(histories, { speed: 60 });
+    expect(engine.getHistory('BNOX').map(p => p.price)).toEqual([100]);
+
+    engine.advance(1); // 1 s at 60× is one minute bar
+    expect(engine.getHistory('BNOX').map(p => p.price)).toEqual([100, 101]);
+
+    engine.advance(2);
+    expect(engine.getHistory('BNOX').map(p => p.price)).toEqual([100, 101, 99, 104]);
+    expect(engine.getProgress()).toMatchObject({ status: 'playing', currentTime: OPEN + 3 * MINUTE, speed: 60 });
+  });
+
+  it('should end at the last bar unless looping', () => {
+    const engine = new ReplayEngine(histories, { speed: 60 });
+    engine.advance(10);
+    expect(engine.getProgress()).toMatchObject({ status: 'ended', currentTime: OPEN + 4 * MINUTE });
+
+    engine.advance(1);
+    expect(engine.getProgress().currentTime).toBe(OPEN + 4 * MINUTE);
+
+    const looping = new ReplayEngine(histories, { speed: 60, loop: true });
+    looping.advance(5); // One minute past the end wraps to one minute past the start
+    expect(looping.getProgress()).toMatchObject({ status: 'playing', currentTime: OPEN + MINUTE });
+  });
+
+  it('should seek within the data and restart an ended replay on resume', () => {
+    const engine = new ReplayEngine(histories, { speed: 60 });
+    engine.seek(OPEN + 2.5 * MINUTE);
+    expect(engine.getHistory('BNOX').map(p => p.price)).toEqual([100, 101, 99]);
+
+    engine.seek(OPEN - MINUTE);
+    expect(engine.getProgress().currentTime).toBe(OPEN);
+
+    engine.advance(100);
+    expect(engine.getProgress().status).toBe('ended');
+    engine.seek(OPEN + MINUTE);
+    expect(engine.getProgress().status).toBe('paused');
+
+    engine.advance(100);
+    expect(engine.getProgress().currentTime).toBe(OPEN + MINUTE);
+
+    expect(engine.resume()).toBe(true);
+    engine.advance(100);
+    expect(engine.resume()).toBe(true);
+    expect(engine.getProgress()).toMatchObject({ status: 'playing', currentTime: OPEN });
+  });
+
+  it('should limit history to the most recent points', () => {
+    const engine = new ReplayEngine(histories);
+    engine.seek(OPEN + 4 * MINUTE);
+    expect(engine.getHistory('BNOX', 2).map(p => p.price)).toEqual([104, 110]);
+    expect(engine.getHistory('MISSING')).toEqual([]);
+  });
+
+  it('should sort unordered input and span every symbol', () => {
+    const engine = new ReplayEngine({
+      BNOX: minuteBars([100, 101]).reverse(),
+      ZENT: [{ timestamp: new Date(OPEN + 10 * MINUTE), price: 50 }],
+    });
+    expect(engine.startTime).toBe(OPEN);
+    expect(engine.endTime).toBe(OPEN + 10 * MINUTE);
+    expect(engine.getOpeningPrice('BNOX')).toBe(100);
+    expect(engine.getHistory('ZENT')).toEqual([]);
+  });
+});
+
+describe('replayStock', () => {
+  it('should show the stock as of the playhead', () => {
+    const engine = new ReplayEngine({ BNOX: minuteBars([100, 101, 99]) });
+    engine.seek(OPEN + 2 * MINUTE);
+
+    const replayed = replayStock(stock('BNOX', 100), engine);
+    expect(replayed).toMatchObject({ currentPrice: 99, previousPrice: 101, percentChange: -1 });
+    expect(replayed.lastUpdated.getTime()).toBe(OPEN + 2 * MINUTE);
+    expect(replayed.priceHistory).toHaveLength(3);
+
+    // Unchanged until the playhead reaches the next bar
+    expect(replayStock(replayed, engine)).toBe(replayed);
+  });
+
+  it('should leave stocks without bars yet unchanged', () => {
+    const engine = new ReplayEngine({ BNOX: minuteBars([100, 101]) });
+    const zent = stock('ZENT', 50);
+    expect(replayStock(zent, engine)).toBe(zent);
+  });
+});
+
+describe('validateReplayData', () => {
+  it('should accept a day of bars', () => {
+    expect(validateReplayData({ BNOX: minuteBars([100, 101]) }).isValid).toBe(true);
+  });
+
+  it.each([
+    [{}, 'no prices'],
+    [{ BNOX: [] }, 'No prices to replay for BNOX'],
+    [{ BNOX: minuteBars([100]) }, 'two different timestamps'],
+    [{ BNOX: [{ timestamp: new Date('nope'), price: 1 }, ...minuteBars([100])] }, 'valid timestamp'],
+    [{ BNOX: minuteBars([100, -1]) }, 'BNOX:'],
+  ])('should reject %j', (histories, message) => {
+    const result = validateReplayData(histories as Record<string, PricePoint[]>);
+    expect(result.isValid).toBe(false);
+    expect(result.errorMessage).toContain(message);
+  });
+});
+
+describe('validateReplayOptions', () => {
+  it('should accept the preset speeds and loop flags', () => {
+    expect(validateReplayOptions({ speed: 1 }).isValid).toBe(true);
+    expect(validateReplayOptions({ speed: 60, loop: true }).isValid).toBe(true);
+  });
+
+  it('should reject out-of-range speeds', () => {
+    expect(validateReplayOptions({ speed: 0 }).isValid).toBe(false);
+    expect(validateReplayOptions({ speed: NaN }).isValid).toBe(false);
+    expect(validateReplayOptions({ speed: 100000 }).isValid).toBe(false);
+  });
+});
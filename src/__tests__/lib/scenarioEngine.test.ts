@@ -0,0 +1,127 @@
+import {
+  ScenarioEngine,
+  PRESET_SCENARIOS,
+  validateScenario,
+  parseScenario,
+  serializeScenario,
+} from '../../lib/scenarioEngine';
+import { MarketScenario } from '../../lib/types';
+
+// Run the engine to completion and return the cumulative price factor per symbol
+const runToEnd = (engine: ScenarioEngine, dtSeconds: number): Record<string, number> => {
+  const levels: Record<string, number> = {};
+  for (let i = 0; i < 10000 && engine.isActive(); i++) {
+    engine.advance(dtSeconds).forEach((effect, symbol) => {
+      levels[symbol] = (levels[symbol] ?? 1) * effect.ratio;
+    });
+  }
+  return levels;
+};
+
+describe('ScenarioEngine', () => {
+  const crashAndRecover: MarketScenario = {
+    name: 'Crash',
+    steps: [
+      { symbol: 'BNOX', type: 'move', percent: -12, durationSeconds: 90, volatilityMultiplier: 3 },
+      { symbol: 'BNOX', type: 'recover', percent: 50, durationSeconds: 300 },
+    ],
+  };
+
+  it('should follow the scripted path tick by tick', () => {
+    const engine = new ScenarioEngine(crashAndRecover);
+
+    const first = engine.advance(45).get('BNOX');
+    expect(first?.ratio).toBeCloseTo(0.94, 10);
+    expect(first?.volatilityMultiplier).toBe(3);
+
+    engine.advance(45);
+    expect(engine.getProgress().stepIndex).toBe(1);
+
+    const levels = runToEnd(engine, 30);
+    // -12%, then half of the drop recovered: 0.88 + 0.06
+    expect(levels.BNOX * 0.88).toBeCloseTo(0.94, 10);
+    expect(engine.getProgress().status).toBe('completed');
+    expect(engine.getProgress().elapsedSeconds).toBe(390);
+  });
+
+  it('should apply instant gaps on the next tick', () => {
+    const engine = new ScenarioEngine(PRESET_SCENARIOS.earningsGap);
+    const effect = engine.advance(1).get('BNOX');
+    expect(effect?.ratio).toBeCloseTo(1.15, 10);
+    expect(effect?.volatilityMultiplier).toBe(4);
+  });
+
+  it('should run steps marked withPrevious concurrently', () => {
+    const engine = new ScenarioEngine(PRESET_SCENARIOS.rally);
+    expect(engine.getProgress().totalSeconds).toBe(240);
+
+    const levels = runToEnd(engine, 10);
+    expect(levels.BNOX).toBeCloseTo(1.08, 10);
+    expect(levels.GOOGL).toBeCloseTo(1.05, 10);
+    expect(levels.MSFT).toBeCloseTo(1.04, 10);
+  });
+
+  it('should not advance while paused and stop after abort', () => {
+    const engine = new ScenarioEngine(crashAndRecover);
+    engine.advance(10);
+
+    expect(engine.pause()).toBe(true);
+    expect(engine.advance(10).size).toBe(0);
+    expect(engine.getProgress().elapsedSeconds).toBe(10);
+
+    expect(engine.pause()).toBe(false);
+    expect(engine.resume()).toBe(true);
+    engine.advance(10);
+    expect(engine.getProgress().elapsedSeconds).toBe(20);
+
+    expect(engine.abort()).toBe(true);
+    expect(engine.isActive()).toBe(false);
+    expect(engine.advance(10).size).toBe(0);
+    expect(engine.resume()).toBe(false);
+  });
+});
+
+describe('Scenario validation and JSON', () => {
+  it('should accept all presets', () => {
+    Object.values(PRESET_SCENARIOS).forEach(scenario => {
+      expect(validateScenario(scenario).isValid).toBe(true);
+    });
+  });
+
+  it('should reject impossible moves', () => {
+    const result = validateScenario({
+      name: 'Wipeout',
+      steps: [{ symbol: 'BNOX', type: 'move', percent: -100, durationSeconds: 10 }],
+    });
+    expect(result.isValid).toBe(false);
+    expect(result.errorMessage).toContain('Step 1');
+  });
+
+  it('should reject scenarios without steps', () => {
+    expect(validateScenario({ name: 'Empty', steps: [] }).isValid).toBe(false);
+  });
+
+  it('should round-trip through JSON', () => {
+    const result = parseScenario(serializeScenario(PRESET_SCENARIOS.crash));
+    expect(result.isValid).toBe(true);
+    expect(result.scenario).toEqual(PRESET_SCENARIOS.crash);
+  });
+
+  it('should drop unknown fields and normalize symbols', () => {
+    const result = parseScenario(JSON.stringify({
+      name: ' Custom ',
+      extra: 'ignored',
+      steps: [{ symbol: 'bnox', type: 'hold', percent: 0, durationSeconds: 5, note: 'ignored' }],
+    }));
+    expect(result.scenario).toEqual({
+      name: 'Custom',
+      steps: [{ symbol: 'BNOX', type: 'hold', percent: 0, durationSeconds: 5 }],
+    });
+  });
+
+  it('should report invalid JSON', () => {
+    const result = parseScenario('{not json');
+    expect(result.isValid).toBe(false);
+    expect(result.errorMessage).toContain('not valid JSON');
+  });
+});
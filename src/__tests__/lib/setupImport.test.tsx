@@ -0,0 +1,74 @@
+import React from 'react';
+import { act, render } from '@testing-library/react';
+
+import { TickerProvider, useTickerContext } from '../../lib/context';
+import { TickerContextType } from '../../lib/types';
+
+// Modules that read Vite's import.meta.env, or need Clerk
+jest.mock('../../config/env', () => ({
+  logger: { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() },
+}));
+jest.mock('../../lib/config', () => ({
+  shouldUseApiServer: () => false,
+  getApiBaseUrl: () => 'http://localhost:3001',
+  buildStreamUrl: () => '',
+  isDevelopment: () => false,
+  checkApiHealth: jest.fn(),
+}));
+jest.mock('../../auth/utils/index', () => ({
+  tokenStorage: { getJWTToken: () => null, getAccessToken: () => null, getSessionId: () => null },
+}));
+jest.mock('../../hooks/useAuth', () => ({
+  useAuth: () => ({ isSignedIn: false, isLoaded: true, userId: null }),
+}));
+jest.mock('../../hooks/useClerkJWTBridge', () => ({
+  useClerkJWTBridge: () => ({ isBridging: false, isBridged: false, bridgeError: null, isReadyForAPI: false }),
+}));
+
+describe('TickerProvider setup import/export', () => {
+  let context: TickerContextType;
+  const Capture = () => {
+    context = useTickerContext();
+    return null;
+  };
+
+  it('should export the stored history and drop what belonged to removed stocks on import', async () => {
+    const { unmount } = render(<TickerProvider><Capture /></TickerProvider>);
+
+    act(() => {
+      context.addAlert({ symbol: 'BNOX', rule: { type: 'priceAbove', price: 500 }, repeat: false, cooldownSeconds: 0 });
+    });
+    act(() => {
+      context.addAlert({ symbol: 'MSFT', rule: { type: 'priceAbove', price: 500 }, repeat: false, cooldownSeconds: 0 });
+    });
+    act(() => {
+      context.createWatchlist('Tech', ['BNOX', 'MSFT']);
+    });
+    act(() => {
+      context.updateSpeed(3000);
+    });
+    expect(context.tickerState.commandLog.done).not.toHaveLength(0);
+
+    const exported = context.exportSetup();
+    expect(Object.keys(exported.histories ?? {})).toEqual(exported.stocks.map(stock => stock.symbol));
+    expect(exported.histories?.MSFT.length).toBeGreaterThan(0);
+
+    const msft = exported.stocks.find(stock => stock.symbol === 'MSFT')!;
+    const older = { timestamp: new Date(Date.now() - 3600000), price: 400 };
+    act(() => {
+      expect(context.importSetup({ ...exported, stocks: [msft], selectedStock: 'MSFT', histories: { MSFT: [older] } }).isValid).toBe(true);
+    });
+
+    expect(context.tickerState.stocks.map(stock => stock.symbol)).toEqual(['MSFT']);
+    expect(context.tickerState.alerts.map(alert => alert.symbol)).toEqual(['MSFT']);
+    expect(context.tickerState.watchlists[0].symbols).toEqual(['MSFT']);
+    expect(context.tickerState.commandLog).toEqual({ done: [], undone: [] });
+    expect(context.getStockPriceHistory('MSFT')[0]).toEqual(older);
+
+    // Let the saves the import started finish before the environment goes away
+    await act(async () => {
+      await context.saveStateToStorage();
+    });
+    unmount();
+  });
+});
@@ -0,0 +1,154 @@
+import {
+  SETUP_FILE_FORMAT,
+  normalizeSetup,
+  parseHistoryCsv,
+  parseSetup,
+  serializeHistoryCsv,
+  serializeSetup,
+} from '../../lib/setupTransfer';
+import { MAX_HISTORY_POINTS, StockInfo, TickerSetup } from '../../lib/types';
+
+const NOW = Date.parse('2024-05-01T12:00:00Z');
+
+const makeStock = (symbol: string, prices: number[], overrides: Partial<StockInfo> = {}): StockInfo => ({
+  symbol,
+  name: `${symbol} Corp`,
+  currentPrice: prices[prices.length - 1],
+  previousPrice: prices[prices.length - 2] ?? prices[prices.length - 1],
+  initialPrice: prices[0],
+  percentChange: 0,
+  lastUpdated: new Date(NOW),
+  priceHistory: prices.map((price, i) => ({ timestamp: new Date(NOW - (prices.length - 1 - i) * 1000), price })),
+  ...overrides,
+});
+
+const setup: TickerSetup = {
+  stocks: [
+    makeStock('MSFT', [400, 410, 415.2], { exchange: 'NASDAQ', priceModel: { type: 'gbm', drift: 0.0001, sigma: 0.001 } }),
+    makeStock('7203.T', [2800, 2850], { currency: 'JPY', exchange: 'TSE', indicators: [{ type: 'sma', period: 5 }] }),
+  ],
+  updateIntervalMs: 2000,
+  selectedCurrency: 'EUR',
+  selectedStock: '7203.T',
+  scenario: {
+    name: 'Crash',
+    steps: [{ symbol: 'MSFT', type: 'move', percent: -10, durationSeconds: 60 }],
+  },
+};
+
+describe('Setup transfer', () => {
+  describe('JSON setups', () => {
+    it('should round-trip a setup through JSON', () => {
+      const json = serializeSetup(setup, NOW);
+      expect(JSON.parse(json)).toMatchObject({ format: SETUP_FILE_FORMAT, version: 1, exportedAt: '2024-05-01T12:00:00.000Z' });
+
+      const result = parseSetup(json, NOW);
+      expect(result.isValid).toBe(true);
+      expect(result.setup?.stocks.map(stock => stock.symbol)).toEqual(['MSFT', '7203.T']);
+      expect(result.setup?.stocks[1]).toMatchObject({ currency: 'JPY', exchange: 'TSE', currentPrice: 2850, indicators: [{ type: 'sma', period: 5 }] });
+      expect(result.setup?.stocks[0].priceHistory[2].timestamp).toEqual(new Date(NOW));
+      expect(result.setup?.stocks[0].percentChange).toBeCloseTo(3.8, 10);
+      expect(result.setup).toMatchObject({ updateIntervalMs: 2000, selectedCurrency: 'EUR', selectedStock: '7203.T', scenario: setup.scenario });
+    });
+
+    it('should reject files that are not ticker setups', () => {
+      expect(parseSetup('{').errorMessage).toBe('Setup file is not valid JSON');
+      expect(parseSetup(JSON.stringify({ stocks: [] })).errorMessage).toBe('Not a ticker setup file');
+      expect(parseSetup(JSON.stringify({ format: SETUP_FILE_FORMAT, version: 99 })).errorMessage).toContain('version 99');
+    });
+
+    it('should validate stocks with the entry rules and name the offending stock', () => {
+      const invalid = (stock: object) => normalizeSetup({ ...setup, stocks: [stock] }, NOW).errorMessage;
+
+      expect(invalid({ ...setup.stocks[0], symbol: 'NOT A SYMBOL!' })).toMatch(/^NOT A SYMBOL!: /);
+      expect(invalid({ ...setup.stocks[0], currentPrice: -1 })).toContain('currentPrice');
+      expect(invalid({ ...setup.stocks[0], currency: 'XXX' })).toContain('No exchange rate for XXX');
+      expect(invalid({ ...setup.stocks[0], exchange: 'CRYPTO' })).toContain('CRYPTO does not list equity');
+      expect(invalid({ ...setup.stocks[0], priceHistory: [{ timestamp: 'soon', price: 1 }] })).toContain('no valid timestamp');
+      expect(normalizeSetup({ ...setup, stocks: [setup.stocks[0], setup.stocks[0]] }, NOW).errorMessage).toBe('MSFT: duplicate symbol');
+    });
+
+    it('should check the interval, currency and scenario', () => {
+      expect(normalizeSetup({ ...setup, updateIntervalMs: 1 }, NOW).isValid).toBe(false);
+      expect(normalizeSetup({ ...setup, selectedCurrency: 'XXX' }, NOW).isValid).toBe(false);
+      expect(normalizeSetup({
+        ...setup,
+        scenario: { name: 'Other', steps: [{ symbol: 'AAPL', type: 'move', percent: 5, durationSeconds: 10 }] },
+      }, NOW).errorMessage).toBe('Scenario: stock AAPL is not part of the setup');
+    });
+
+    it('should drop unknown fields and fill in optional ones', () => {
+      const { setup: result } = normalizeSetup({
+        updateIntervalMs: 1000,
+        selectedCurrency: 'USD',
+        selectedStock: 'GONE',
+        stocks: [{ symbol: 'aapl', name: 'Apple', initialPrice: 100, currentPrice: 110, extra: '<script>' }],
+      }, NOW);
+
+      expect(result?.selectedStock).toBe('AAPL');
+      expect(result?.stocks[0]).toEqual({
+        symbol: 'AAPL',
+        name: 'Apple',
+        currency: 'USD',
+        currentPrice: 110,
+        previousPrice: 110,
+        initialPrice: 100,
+        percentChange: expect.closeTo(10, 10),
+        lastUpdated: new Date(NOW),
+        priceHistory: [{ timestamp: new Date(NOW), price: 110 }],
+      });
+    });
+
+    it('should keep only the most recent history points on a stock', () => {
+      const prices = Array.from({ length: MAX_HISTORY_POINTS + 10 }, (_, i) => 100 + i);
+      const { setup: result } = normalizeSetup({ ...setup, stocks: [makeStock('MSFT', prices)], scenario: undefined }, NOW);
+      expect(result?.stocks[0].priceHistory).toHaveLength(MAX_HISTORY_POINTS);
+      expect(result?.stocks[0].priceHistory[0].price).toBe(110);
+    });
+
+    it('should carry the stored long-range history for stocks in the setup', () => {
+      const history = [
+        { timestamp: new Date(NOW - 3600000), price: 390 },
+        { timestamp: new Date(NOW - 7200000), price: 380 },
+      ];
+      const result = parseSetup(serializeSetup({ ...setup, histories: { MSFT: history } }, NOW), NOW);
+      expect(result.setup?.histories?.MSFT.map(point => point.price)).toEqual([380, 390]);
+
+      expect(normalizeSetup({ ...setup, histories: { AAPL: history } }, NOW).errorMessage).toBe('Histories: stock AAPL is not part of the setup');
+      expect(normalizeSetup({ ...setup, histories: { MSFT: [{ price: 1 }] } }, NOW).errorMessage).toContain('Histories: MSFT:');
+    });
+  });
+
+  describe('CSV histories', () => {
+    it('should round-trip price histories through CSV', () => {
+      const csv = serializeHistoryCsv(setup.stocks);
+      expect(csv.split('\n')[0]).toBe('symbol,currency,timestamp,price');
+      expect(csv).toContain('7203.T,JPY,2024-05-01T12:00:00.000Z,2850');
+
+      const result = parseHistoryCsv(csv, setup.stocks);
+      expect(result.isValid).toBe(true);
+      expect(result.histories?.MSFT.map(point => point.price)).toEqual([400, 410, 415.2]);
+      expect(result.histories?.['7203.T']).toHaveLength(2);
+    });
+
+    it('should accept reordered columns, quotes, epoch timestamps and unsorted rows', () => {
+      const csv = 'Price,Timestamp,Symbol\r\n"101.5",1714564860000,msft\r\n100,"2024-05-01T11:00:00Z",MSFT\r\n\r\n';
+      const result = parseHistoryCsv(csv, setup.stocks);
+      expect(result.histories?.MSFT).toEqual([
+        { timestamp: new Date('2024-05-01T11:00:00Z'), price: 100 },
+        { timestamp: new Date(1714564860000), price: 101.5 },
+      ]);
+    });
+
+    it('should report the first bad row', () => {
+      const header = 'symbol,currency,timestamp,price\n';
+      expect(parseHistoryCsv(header, setup.stocks).errorMessage).toBe('CSV file has no price rows');
+      expect(parseHistoryCsv('symbol,price\nMSFT,1\n', setup.stocks).errorMessage).toContain('missing timestamp');
+      expect(parseHistoryCsv(`${header}AAPL,USD,2024-05-01,1\n`, setup.stocks).errorMessage).toBe('Row 2: AAPL is not on the ticker');
+      expect(parseHistoryCsv(`${header}MSFT,USD,2024-05-01,1\n7203.T,USD,2024-05-01,1\n`, setup.stocks).errorMessage)
+        .toBe('Row 3: 7203.T is listed in JPY, not USD');
+      expect(parseHistoryCsv(`${header}MSFT,USD,yesterday,1\n`, setup.stocks).errorMessage).toBe('Row 2: timestamp is not a valid date');
+      expect(parseHistoryCsv(`${header}MSFT,USD,2024-05-01,abc\n`, setup.stocks).errorMessage).toMatch(/^Row 2: /);
+    });
+  });
+});
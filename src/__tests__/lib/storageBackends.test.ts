@@ -0,0 +1,147 @@
+import {
+  LocalStorageBackend,
+  StorageBackend,
+  StorageQuotaError,
+  TieredStorage,
+} from '../../lib/storageBackends';
+import {
+  configureSecureStorage,
+  loadFromSecureStorage,
+  saveToSecureStorage,
+  setSecureStorageBackend,
+  storageKeyFor,
+} from '../../lib/secureStorage';
+import { storageKeyringId } from '../../lib/storageCrypto';
+import { HISTORY_PERSISTENCE, loadHistories, saveHistories } from '../../lib/historyPersistence';
+import { PricePoint, StorageBackendName } from '../../lib/types';
+
+// In-memory backend that is full once it holds more than maxChars
+class MemoryBackend implements StorageBackend {
+  readonly items = new Map<string, string>();
+
+  constructor(readonly name: StorageBackendName, private readonly maxChars = Infinity) {}
+
+  async getItem(key: string) {
+    return this.items.get(key) ?? null;
+  }
+
+  async setItem(key: string, value: string) {
+    const used = Array.from(this.items.entries())
+      .filter(([existing]) => existing !== key)
+      .reduce((total, [, item]) => total + item.length, 0);
+    if (used + value.length > this.maxChars) {
+      throw new StorageQuotaError(this.name);
+    }
+    this.items.set(key, value);
+  }
+
+  async removeItem(key: string) {
+    this.items.delete(key);
+  }
+
+  async keys() {
+    return Array.from(this.items.keys());
+  }
+}
+
+const makeTicks = (count: number, start = Date.UTC(2024, 0, 25, 14, 30)): PricePoint[] =>
+  Array.from({ length: count }, (_, i) => ({ timestamp: new Date(start + i * 1000), price: 100 + (i % 7) }));
+
+describe('TieredStorage', () => {
+  it('should pick the backend by payload size and keep one copy', async () => {
+    const local = new MemoryBackend('localStorage');
+    const idb = new MemoryBackend('indexedDB');
+    const storage = new TieredStorage(local, idb, 10);
+
+    expect(await storage.setItem('a', 'small')).toBe('localStorage');
+    expect(await storage.setItem('a', 'a much larger value')).toBe('indexedDB');
+    expect(local.items.has('a')).toBe(false);
+    expect(await storage.getItem('a')).toBe('a much larger value');
+
+    expect(await storage.setItem('a', 'small')).toBe('localStorage');
+    expect(idb.items.has('a')).toBe(false);
+    expect(await storage.keys()).toEqual(['a']);
+  });
+
+  it('should move items to IndexedDB when localStorage is full', async () => {
+    const storage = new TieredStorage(new MemoryBackend('localStorage', 8), new MemoryBackend('indexedDB'), 100);
+    expect(await storage.setItem('a', 'fits')).toBe('localStorage');
+    expect(await storage.setItem('b', 'too long')).toBe('indexedDB');
+    expect(await storage.getItem('b')).toBe('too long');
+  });
+
+  it('should report full storage when no backend has room', async () => {
+    const storage = new TieredStorage(new MemoryBackend('localStorage', 8));
+    expect(storage.backends).toEqual(['localStorage']);
+    await expect(storage.setItem('a', 'too long for it')).rejects.toBeInstanceOf(StorageQuotaError);
+  });
+});
+
+describe('LocalStorageBackend', () => {
+  afterEach(() => jest.restoreAllMocks());
+
+  it('should turn quota errors into StorageQuotaError', async () => {
+    jest.spyOn(Storage.prototype, 'setItem').mockImplementation(() => {
+      throw new DOMException('The quota has been exceeded.', 'QuotaExceededError');
+    });
+    await expect(new LocalStorageBackend().setItem('a', 'b')).rejects.toBeInstanceOf(StorageQuotaError);
+  });
+});
+
+describe('secure storage backends', () => {
+  const local = new MemoryBackend('localStorage', 20000);
+  const idb = new MemoryBackend('indexedDB');
+  const storage = new TieredStorage(local, idb, 2000);
+
+  let scope: string;
+  const slot = (key: string) => storageKeyFor(key, scope);
+
+  beforeAll(async () => {
+    setSecureStorageBackend(storage);
+    await configureSecureStorage('backend-user');
+    scope = await storageKeyringId('backend-user');
+  });
+
+  it('should save large items to IndexedDB, encrypted', async () => {
+    const result = await saveToSecureStorage('large', { text: 'x'.repeat(5000) });
+    expect(result).toEqual({ isValid: true, backend: 'indexedDB' });
+    expect(idb.items.get(slot('large'))).not.toContain('xxxx');
+    expect((await loadFromSecureStorage('large')).data).toEqual({ text: 'x'.repeat(5000) });
+  });
+
+  it('should report when storage is full', async () => {
+    const full = new TieredStorage(new MemoryBackend('localStorage', 100));
+    setSecureStorageBackend(full);
+    const result = await saveToSecureStorage('state', { text: 'x'.repeat(500) });
+    setSecureStorageBackend(storage);
+
+    expect(result).toMatchObject({ isValid: false, quotaExceeded: true });
+    expect(result.errorMessage).toContain('storage is full');
+  });
+
+  it('should save price histories in chunks and restore them', async () => {
+    const ticks = makeTicks(HISTORY_PERSISTENCE.CHUNK_POINTS + 10);
+    expect((await saveHistories({ BNOX: ticks, ZENT: makeTicks(3) })).isValid).toBe(true);
+    expect(idb.items.has(slot('history_BNOX_0'))).toBe(true);
+    expect(local.items.has(slot('history_BNOX_1'))).toBe(true);
+
+    const restored = await loadHistories();
+    expect(restored.BNOX).toEqual(ticks);
+    expect(restored.ZENT).toHaveLength(3);
+
+    // Histories of stocks no longer saved are dropped, and so are surplus chunks
+    await saveHistories({ BNOX: makeTicks(5, Date.UTC(2024, 0, 26)) });
+    expect(Object.keys(await loadHistories())).toEqual(['BNOX']);
+    expect(await storage.getItem(slot('history_BNOX_1'))).toBeNull();
+    expect(await storage.getItem(slot('history_ZENT_0'))).toBeNull();
+  });
+
+  it('should not rewrite histories without new points', async () => {
+    const ticks = makeTicks(10, Date.UTC(2024, 0, 27));
+    await saveHistories({ ABC: ticks });
+    const saved = await storage.getItem(slot('history_ABC_0'));
+
+    await saveHistories({ ABC: ticks });
+    expect(await storage.getItem(slot('history_ABC_0'))).toBe(saved);
+  });
+});
@@ -0,0 +1,186 @@
+import {
+  STORAGE_CRYPTO,
+  StorageKeyring,
+  deriveStorageKey,
+  generateKeyringSecret,
+  isEncryptedStorageItem,
+  loadStorageKeyring,
+  retireStorageKeys,
+  rotateStorageKeyring,
+  storageKeyringId,
+} from '../../lib/storageCrypto';
+import {
+  configureSecureStorage,
+  loadFromSecureStorage,
+  rotateSecureStorageKey,
+  saveToSecureStorage,
+  storageKeyFor,
+  upgradeSecureStorage,
+} from '../../lib/secureStorage';
+import { generateChecksum } from '../../lib/types';
+
+const NOW = 1_700_000_000_000;
+
+const salt = () => globalThis.crypto.getRandomValues(new Uint8Array(STORAGE_CRYPTO.SALT_BYTES));
+
+const makeKey = async (id: string) =>
+  ({ id, key: await deriveStorageKey(await generateKeyringSecret(), 'alice', salt()), createdAt: NOW });
+
+const readStored = async (key: string, userId: string) =>
+  JSON.parse(localStorage.getItem(storageKeyFor(key, await storageKeyringId(userId))) || 'null');
+
+describe('StorageKeyring', () => {
+  it('should round-trip text and use a fresh IV each time', async () => {
+    const keyring = new StorageKeyring(await makeKey('a'));
+    const first = await keyring.encrypt('hello', 'slot');
+    const second = await keyring.encrypt('hello', 'slot');
+
+    expect(isEncryptedStorageItem(first)).toBe(true);
+    expect(first).toMatchObject({ format: STORAGE_CRYPTO.FORMAT, keyId: 'a' });
+    expect(first.iv).not.toBe(second.iv);
+    expect(first.ciphertext).not.toContain('hello');
+    expect(await keyring.decrypt(first, 'slot')).toBe('hello');
+  });
+
+  it('should reject items that were changed, moved or written by another user', async () => {
+    const keyring = new StorageKeyring(await makeKey('a'));
+    const item = await keyring.encrypt('hello', 'slot');
+
+    const tampered = { ...item, ciphertext: btoa(atob(item.ciphertext).replace(/^./, c => String.fromCharCode(c.charCodeAt(0) ^ 1))) };
+    await expect(keyring.decrypt(tampered, 'slot')).rejects.toThrow('Data integrity check failed');
+    await expect(keyring.decrypt(item, 'other slot')).rejects.toThrow('Data integrity check failed');
+
+    const otherUser = new StorageKeyring(await makeKey('a'));
+    await expect(otherUser.decrypt(item, 'slot')).rejects.toThrow('Data integrity check failed');
+  });
+
+  it('should decrypt with retired keys and encrypt with the current one', async () => {
+    const oldKey = await makeKey('a');
+    const newKey = await makeKey('b');
+    const item = await new StorageKeyring(oldKey).encrypt('hello');
+
+    const rotated = new StorageKeyring(newKey, [oldKey]);
+    expect(await rotated.decrypt(item)).toBe('hello');
+    expect((await rotated.encrypt('hello')).keyId).toBe('b');
+
+    const retired = new StorageKeyring(newKey);
+    await expect(retired.decrypt(item)).rejects.toThrow('key that is not available (a)');
+  });
+});
+
+describe('storage key derivation', () => {
+  it('should derive keys from a secret that cannot be exported', async () => {
+    const secret = await generateKeyringSecret();
+    const key = await deriveStorageKey(secret, 'alice', salt());
+
+    expect(secret.extractable).toBe(false);
+    expect(key.extractable).toBe(false);
+    await expect(globalThis.crypto.subtle.exportKey('raw', key)).rejects.toThrow();
+  });
+
+  it('should bind keys to the session material and salt', async () => {
+    const secret = await generateKeyringSecret();
+    const keySalt = salt();
+    const item = await new StorageKeyring({ id: 'a', key: await deriveStorageKey(secret, 'alice', keySalt), createdAt: NOW }).encrypt('hello');
+
+    const same = new StorageKeyring({ id: 'a', key: await deriveStorageKey(secret, 'alice', keySalt), createdAt: NOW });
+    expect(await same.decrypt(item)).toBe('hello');
+
+    const otherUser = new StorageKeyring({ id: 'a', key: await deriveStorageKey(secret, 'bob', keySalt), createdAt: NOW });
+    await expect(otherUser.decrypt(item)).rejects.toThrow('Data integrity check failed');
+    const otherSalt = new StorageKeyring({ id: 'a', key: await deriveStorageKey(secret, 'alice', salt()), createdAt: NOW });
+    await expect(otherSalt.decrypt(item)).rejects.toThrow('Data integrity check failed');
+  });
+});
+
+describe('storage keyrings', () => {
+  it('should keep one keyring per user and add keys on rotation', async () => {
+    const keyring = await loadStorageKeyring('alice', NOW);
+    const again = await loadStorageKeyring('alice');
+    expect(again.currentKeyId).toBe(keyring.currentKeyId);
+    expect(again.currentKeyCreatedAt).toBe(NOW);
+    expect(await again.decrypt(await keyring.encrypt('hello'))).toBe('hello');
+    expect((await loadStorageKeyring('bob')).currentKeyId).not.toBe(keyring.currentKeyId);
+
+    const rotated = await rotateStorageKeyring('alice', NOW + 1000);
+    expect(rotated.currentKeyId).not.toBe(keyring.currentKeyId);
+    expect(rotated.currentKeyCreatedAt).toBe(NOW + 1000);
+    expect(rotated.has(keyring.currentKeyId)).toBe(true);
+
+    await retireStorageKeys('alice');
+    const retired = await loadStorageKeyring('alice');
+    expect(retired.currentKeyId).toBe(rotated.currentKeyId);
+    expect(retired.has(keyring.currentKeyId)).toBe(false);
+  });
+});
+
+describe('configureSecureStorage', () => {
+  it('should move items saved before signing in to the signed-in user', async () => {
+    await configureSecureStorage(null);
+    await saveToSecureStorage('draft', { cash: 7 });
+
+    await configureSecureStorage('dave');
+
+    expect((await loadFromSecureStorage('draft')).data).toEqual({ cash: 7 });
+    expect((await readStored('draft', 'dave')).keyId).toBe((await loadStorageKeyring('dave')).currentKeyId);
+    expect(await readStored('draft', 'anonymous')).toBeNull();
+  });
+
+  it('should keep each user\'s items apart', async () => {
+    await configureSecureStorage('erin');
+    await saveToSecureStorage('settings', { theme: 'dark' });
+
+    await configureSecureStorage('frank');
+    expect((await loadFromSecureStorage('settings')).result.errorMessage).toBe('No data found in storage');
+    await saveToSecureStorage('settings', { theme: 'light' });
+
+    await configureSecureStorage('erin');
+    expect((await loadFromSecureStorage('settings')).data).toEqual({ theme: 'dark' });
+  });
+});
+
+describe('rotateSecureStorageKey', () => {
+  beforeAll(() => configureSecureStorage('rotation-user'));
+
+  it('should re-encrypt saved items under the new key and take over legacy items', async () => {
+    await saveToSecureStorage('portfolio', { cash: 100 });
+    const data = { cash: 5 };
+    localStorage.setItem('secure_ticker_legacyItem', btoa(JSON.stringify({
+      data, timestamp: 0, checksum: generateChecksum(JSON.stringify(data)), version: 1,
+    })));
+    const before = await readStored('portfolio', 'rotation-user');
+
+    expect(await rotateSecureStorageKey()).toEqual({ isValid: true });
+
+    const after = await readStored('portfolio', 'rotation-user');
+    const legacy = await readStored('legacyItem', 'rotation-user');
+    expect(after.keyId).not.toBe(before.keyId);
+    expect(legacy.keyId).toBe(after.keyId);
+    expect(localStorage.getItem('secure_ticker_legacyItem')).toBeNull();
+
+    expect((await loadFromSecureStorage('portfolio')).data).toEqual({ cash: 100 });
+    expect((await loadFromSecureStorage('legacyItem')).data).toEqual({ cash: 5 });
+  });
+});
+
+describe('upgradeSecureStorage', () => {
+  beforeAll(() => configureSecureStorage('upgrade-user'));
+
+  it('should rotate the key once it is due and retire old keys once nothing needs them', async () => {
+    await saveToSecureStorage('portfolio', { cash: 100 });
+    const first = (await loadStorageKeyring('upgrade-user')).currentKeyId;
+
+    expect(await upgradeSecureStorage()).toEqual({ isValid: true });
+    expect((await loadStorageKeyring('upgrade-user')).currentKeyId).toBe(first);
+
+    expect(await upgradeSecureStorage(Date.now() + STORAGE_CRYPTO.KEY_MAX_AGE_MS)).toEqual({ isValid: true });
+    const rotated = await loadStorageKeyring('upgrade-user');
+    expect(rotated.currentKeyId).not.toBe(first);
+    expect(rotated.has(first)).toBe(true);
+    expect((await readStored('portfolio', 'upgrade-user')).keyId).toBe(rotated.currentKeyId);
+
+    expect(await upgradeSecureStorage()).toEqual({ isValid: true });
+    expect((await loadStorageKeyring('upgrade-user')).has(first)).toBe(false);
+    expect((await loadFromSecureStorage('portfolio')).data).toEqual({ cash: 100 });
+  });
+});
@@ -0,0 +1,186 @@
+import {
+  INITIAL_STORAGE_VERSION,
+  describeMigrationFailure,
+  getStorageVersion,
+  migrateStoredData,
+  registerStorageMigration,
+} from '../../lib/storageMigrations';
+import {
+  configureSecureStorage,
+  loadFromSecureStorage,
+  saveToSecureStorage,
+  storageBackupKeyFor,
+  storageKeyFor,
+} from '../../lib/secureStorage';
+import { StorageKeyring, loadStorageKeyring, storageKeyringId } from '../../lib/storageCrypto';
+
+// Each test registers its migrations under its own key, since the registry is global
+let keyCounter = 0;
+const nextKey = () => `test${++keyCounter}`;
+
+const registerRename = (key: string) => {
+  registerStorageMigration(key, {
+    fromVersion: 1,
+    description: 'Rename count to total',
+    migrate: (data) => {
+      const { count, ...rest } = data as { count: number };
+      return { ...rest, total: count };
+    },
+  });
+  registerStorageMigration(key, {
+    fromVersion: 2,
+    description: 'Add currency',
+    migrate: (data) => ({ ...(data as object), currency: 'USD' }),
+  });
+};
+
+describe('migrateStoredData', () => {
+  it('should upgrade payloads step by step', () => {
+    const key = nextKey();
+    registerRename(key);
+    expect(getStorageVersion(key)).toBe(3);
+
+    const { data, report } = migrateStoredData(key, { count: 2 }, 1);
+    expect(data).toEqual({ total: 2, currency: 'USD' });
+    expect(report).toMatchObject({ fromVersion: 1, toVersion: 3, targetVersion: 3, applied: ['Rename count to total', 'Add currency'] });
+    expect(report.failed).toBeUndefined();
+
+    expect(migrateStoredData(key, { total: 2 }, 2).data).toEqual({ total: 2, currency: 'USD' });
+  });
+
+  it('should report the step that failed and return no data', () => {
+    const key = nextKey();
+    registerStorageMigration(key, { fromVersion: 1, description: 'Works', migrate: (data) => data });
+    registerStorageMigration(key, {
+      fromVersion: 2,
+      description: 'Breaks',
+      migrate: () => { throw new Error('bad payload'); },
+    });
+
+    const { data, report } = migrateStoredData(key, {}, 1);
+    expect(data).toBeUndefined();
+    expect(report).toMatchObject({ toVersion: 2, applied: ['Works'], failed: { fromVersion: 2, description: 'Breaks', error: 'bad payload' } });
+    expect(describeMigrationFailure(report)).toContain(`Saved ${key} could not be upgraded from version 1 to 3`);
+  });
+
+  it('should report gaps in the registry', () => {
+    const key = nextKey();
+    registerStorageMigration(key, { fromVersion: 2, description: 'Only the second step', migrate: (data) => data });
+
+    const { report } = migrateStoredData(key, {}, 1);
+    expect(report.failed).toMatchObject({ fromVersion: 1, error: 'No migration registered' });
+  });
+
+  it('should reject duplicate and invalid registrations', () => {
+    const key = nextKey();
+    registerRename(key);
+    expect(() => registerStorageMigration(key, { fromVersion: 1, description: 'Again', migrate: (d) => d })).toThrow();
+    expect(() => registerStorageMigration(key, { fromVersion: 0, description: 'Too old', migrate: (d) => d })).toThrow();
+  });
+
+  it('should leave keys without migrations at the initial version', () => {
+    expect(getStorageVersion(nextKey())).toBe(INITIAL_STORAGE_VERSION);
+  });
+
+  it('should add currency and instrument identity to ticker state saved at version 1', () => {
+    const { data } = migrateStoredData('tickerState', {
+      stocks: [{ symbol: 'BNOX' }, { symbol: 'VOD.L', currency: 'GBP' }],
+      updateIntervalMs: 1000,
+    }, 1);
+    expect(data).toEqual({
+      stocks: [
+        { symbol: 'BNOX', currency: 'USD', instrumentType: 'equity', exchange: undefined },
+        { symbol: 'VOD.L', currency: 'GBP', instrumentType: 'equity', exchange: 'LSE' },
+      ],
+      updateIntervalMs: 1000,
+    });
+  });
+});
+
+describe('loadFromSecureStorage', () => {
+  let keyring: StorageKeyring;
+  let scope: string;
+
+  beforeAll(async () => {
+    await configureSecureStorage('migration-user');
+    keyring = await loadStorageKeyring('migration-user');
+    scope = await storageKeyringId('migration-user');
+  });
+
+  const slot = (key: string) => storageKeyFor(key, scope);
+  // Items as saved before storage was encrypted, for no user in particular
+  const storeLegacy = (key: string, value: unknown) => localStorage.setItem(`secure_ticker_${key}`, btoa(JSON.stringify(value)));
+  const storeItem = async (key: string, item: unknown) =>
+    localStorage.setItem(slot(key), JSON.stringify(await keyring.encrypt(JSON.stringify(item), key)));
+  const readItem = async (key: string, storageKey = slot(key)) =>
+    JSON.parse(await keyring.decrypt(JSON.parse(localStorage.getItem(storageKey) || ''), key));
+
+  it('should round-trip data at the current version', async () => {
+    const key = nextKey();
+    registerRename(key);
+    expect((await saveToSecureStorage(key, { total: 1, currency: 'EUR' })).isValid).toBe(true);
+    expect((await readItem(key)).version).toBe(3);
+
+    const { result, data, migration } = await loadFromSecureStorage(key);
+    expect(result.isValid).toBe(true);
+    expect(data).toEqual({ total: 1, currency: 'EUR' });
+    expect(migration).toBeUndefined();
+  });
+
+  it('should migrate unversioned payloads, back them up and save the upgrade', async () => {
+    const key = nextKey();
+    registerRename(key);
+    storeLegacy(key, { count: 5 });
+
+    const { result, data, migration } = await loadFromSecureStorage(key);
+    expect(result.isValid).toBe(true);
+    expect(data).toEqual({ total: 5, currency: 'USD' });
+    expect(migration?.applied).toHaveLength(2);
+    expect(migration?.backupKey).toBe(storageBackupKeyFor(key, 1, scope));
+    expect(await readItem(key, storageBackupKeyFor(key, 1, scope))).toMatchObject({ version: 1, data: { count: 5 } });
+    expect(await readItem(key)).toMatchObject({ version: 3, data: { total: 5, currency: 'USD' } });
+  });
+
+  it('should keep the saved payload when a migration fails', async () => {
+    const key = nextKey();
+    registerStorageMigration(key, { fromVersion: 1, description: 'Breaks', migrate: () => { throw new Error('nope'); } });
+    await storeItem(key, { data: { count: 5 }, timestamp: 0, version: 1 });
+    const original = localStorage.getItem(slot(key));
+
+    const { result, data, migration } = await loadFromSecureStorage(key);
+    expect(result.isValid).toBe(false);
+    expect(result.errorMessage).toContain('Breaks');
+    expect(data).toBeUndefined();
+    expect(migration?.failed?.error).toBe('nope');
+    expect(localStorage.getItem(slot(key))).toBe(original);
+    expect(localStorage.getItem(storageBackupKeyFor(key, 1, scope))).toBe(original);
+  });
+
+  it('should refuse payloads from a newer schema version', async () => {
+    const key = nextKey();
+    await storeItem(key, { data: { total: 1 }, timestamp: 0, version: 9 });
+
+    const { result } = await loadFromSecureStorage(key);
+    expect(result.isValid).toBe(false);
+    expect(result.errorMessage).toContain('newer version');
+  });
+
+  it('should detect tampered payloads', async () => {
+    const key = nextKey();
+    await saveToSecureStorage(key, { total: 1 });
+    const item = JSON.parse(localStorage.getItem(slot(key)) || '');
+    const flipped = atob(item.ciphertext).split('').map((c, i) => i === 0 ? String.fromCharCode(c.charCodeAt(0) ^ 1) : c).join('');
+    localStorage.setItem(slot(key), JSON.stringify({ ...item, ciphertext: btoa(flipped) }));
+
+    expect((await loadFromSecureStorage(key)).result.errorMessage).toBe('Data integrity check failed');
+  });
+
+  it('should not load an item written to another key', async () => {
+    const key = nextKey();
+    const other = nextKey();
+    await saveToSecureStorage(key, { total: 1 });
+    localStorage.setItem(slot(other), localStorage.getItem(slot(key)) || '');
+
+    expect((await loadFromSecureStorage(other)).result.errorMessage).toBe('Data integrity check failed');
+  });
+});
@@ -0,0 +1,49 @@
+import React from 'react';
+import { render, waitFor } from '@testing-library/react';
+
+import { TickerProvider } from '../../lib/context';
+import { STORAGE_CRYPTO, loadStorageKeyring, storageKeyringId } from '../../lib/storageCrypto';
+import { storageKeyFor } from '../../lib/secureStorage';
+import { generateChecksum } from '../../lib/types';
+
+// Modules that read Vite's import.meta.env, or need Clerk
+jest.mock('../../config/env', () => ({
+  logger: { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() },
+}));
+jest.mock('../../lib/config', () => ({
+  shouldUseApiServer: () => false,
+  getApiBaseUrl: () => 'http://localhost:3001',
+  buildStreamUrl: () => '',
+  isDevelopment: () => false,
+  checkApiHealth: jest.fn(),
+}));
+jest.mock('../../auth/utils/index', () => ({
+  tokenStorage: { getJWTToken: () => null, getAccessToken: () => null, getSessionId: () => null },
+}));
+jest.mock('../../hooks/useAuth', () => ({
+  useAuth: () => ({ isSignedIn: true, isLoaded: true, userId: 'provider-user' }),
+}));
+jest.mock('../../hooks/useClerkJWTBridge', () => ({
+  useClerkJWTBridge: () => ({ isBridging: false, isBridged: false, bridgeError: null, isReadyForAPI: false }),
+}));
+
+describe('TickerProvider secure storage', () => {
+  it('should rotate a due storage key on sign-in and re-encrypt saved items under it', async () => {
+    const user = 'provider-user';
+    const first = await loadStorageKeyring(user, Date.now() - STORAGE_CRYPTO.KEY_MAX_AGE_MS);
+    const data = { cash: 5 };
+    localStorage.setItem('secure_ticker_portfolio', btoa(JSON.stringify({
+      data, timestamp: 0, checksum: generateChecksum(JSON.stringify(data)), version: 1,
+    })));
+    const slot = storageKeyFor('portfolio', await storageKeyringId(user));
+
+    const { unmount } = render(<TickerProvider><div /></TickerProvider>);
+
+    await waitFor(() => expect(localStorage.getItem(slot)).not.toBeNull());
+    const rotated = await loadStorageKeyring(user);
+    expect(rotated.currentKeyId).not.toBe(first.currentKeyId);
+    expect(JSON.parse(localStorage.getItem(slot) || '').keyId).toBe(rotated.currentKeyId);
+    expect(localStorage.getItem('secure_ticker_portfolio')).toBeNull();
+    unmount();
+  });
+});
@@ -0,0 +1,118 @@
+import {
+  EXCHANGES,
+  EXCHANGE_CODES,
+  INSTRUMENT_TYPES,
+  InstrumentType,
+  SECURITY_CONSTRAINTS,
+  getInstrumentType,
+  inferExchange,
+  sanitizeStockSymbol,
+  validateExchange,
+  validateInstrumentType,
+  validateStockSymbol,
+} from '../../lib/types';
+
+describe('Instrument symbols', () => {
+  describe('validateStockSymbol', () => {
+    it.each([
+      ['equity', 'AAPL'],
+      ['equity', 'BRK.B'],
+      ['equity', 'RDS-A'],
+      ['equity', '7203.T'],
+      ['equity', 'RDS-A.L'],
+      ['etf', 'VUSA.L'],
+      ['index', '^GSPC'],
+      ['index', 'SPX'],
+      ['crypto', 'BTC-USD'],
+      ['crypto', 'ETH-USDT'],
+      ['fx', 'EURUSD=X'],
+    ] as Array<[InstrumentType, string]>)('accepts %s symbol %s', (type, symbol) => {
+      expect(validateStockSymbol(symbol, type).isValid).toBe(true);
+      expect(validateStockSymbol(symbol).isValid).toBe(true);
+    });
+
+    it.each([
+      ['equity', 'TOOLONGSYM'],
+      ['equity', 'BRK..B'],
+      ['equity', '^GSPC'],
+      ['index', '^'],
+      ['crypto', 'BTCUSD'],
+      ['crypto', 'BTC-US'],
+      ['fx', 'EURUSD'],
+      ['fx', 'EUR-USD'],
+    ] as Array<[InstrumentType, string]>)('rejects %s symbol %s', (type, symbol) => {
+      const result = validateStockSymbol(symbol, type);
+      expect(result.isValid).toBe(false);
+      expect(result.errorMessage).toContain(INSTRUMENT_TYPES[type].label.toLowerCase());
+    });
+
+    it('rejects lowercase, markup and empty symbols whatever the type', () => {
+      expect(validateStockSymbol('aapl').isValid).toBe(false);
+      expect(validateStockSymbol('<B>').isValid).toBe(false);
+      expect(validateStockSymbol('').isValid).toBe(false);
+    });
+
+    it('rejects unknown instrument types', () => {
+      expect(validateStockSymbol('AAPL', 'bond' as InstrumentType).errorMessage).toBe('Unknown instrument type: bond');
+      expect(validateInstrumentType('etf').isValid).toBe(true);
+    });
+
+    it('keeps every example symbol within the generic pattern and length limit', () => {
+      (Object.keys(INSTRUMENT_TYPES) as InstrumentType[]).forEach(type => {
+        INSTRUMENT_TYPES[type].examples.split(', ').forEach(symbol => {
+          expect(SECURITY_CONSTRAINTS.SYMBOL_PATTERNS[type].test(symbol)).toBe(true);
+          expect(SECURITY_CONSTRAINTS.STOCK_SYMBOL_PATTERN.test(symbol)).toBe(true);
+          expect(symbol.length).toBeLessThanOrEqual(SECURITY_CONSTRAINTS.STOCK_SYMBOL_MAX_LENGTH);
+        });
+      });
+    });
+  });
+
+  describe('sanitizeStockSymbol', () => {
+    it('uppercases and keeps the grammar separators', () => {
+      expect(sanitizeStockSymbol(' brk.b ')).toBe('BRK.B');
+      expect(sanitizeStockSymbol('^gspc')).toBe('^GSPC');
+      expect(sanitizeStockSymbol('<script>')).toBe('SCRIPT');
+    });
+
+    it('normalizes slashed pairs for crypto and FX', () => {
+      expect(sanitizeStockSymbol('btc/usd', 'crypto')).toBe('BTC-USD');
+      expect(sanitizeStockSymbol('EUR/USD', 'fx')).toBe('EURUSD=X');
+      expect(sanitizeStockSymbol('EURUSD=X', 'fx')).toBe('EURUSD=X');
+    });
+
+    it('caps the length', () => {
+      expect(sanitizeStockSymbol('A'.repeat(40))).toHaveLength(SECURITY_CONSTRAINTS.STOCK_SYMBOL_MAX_LENGTH);
+    });
+  });
+
+  describe('exchanges', () => {
+    it('infers the exchange from the symbol suffix or the instrument type', () => {
+      expect(inferExchange('7203.T')).toBe('TSE');
+      expect(inferExchange('RY.TO')).toBe('TSX');
+      expect(inferExchange('VOD.L', 'etf')).toBe('LSE');
+      expect(inferExchange('BRK.B')).toBeUndefined();
+      expect(inferExchange('BTC-USD', 'crypto')).toBe('CRYPTO');
+      expect(inferExchange('EURUSD=X', 'fx')).toBe('FX');
+    });
+
+    it('only accepts exchanges that list the instrument type', () => {
+      expect(validateExchange('NYSE').isValid).toBe(true);
+      expect(validateExchange('CRYPTO', 'crypto').isValid).toBe(true);
+      expect(validateExchange('NYSE', 'crypto').isValid).toBe(false);
+      expect(validateExchange('MOON').errorMessage).toBe('Unknown exchange: MOON');
+    });
+
+    it('describes every exchange code', () => {
+      EXCHANGE_CODES.forEach(code => {
+        expect(EXCHANGES[code].name).toBeTruthy();
+        expect(EXCHANGES[code].instrumentTypes.length).toBeGreaterThan(0);
+      });
+    });
+
+    it('treats stocks without an instrument type as equities', () => {
+      expect(getInstrumentType({})).toBe('equity');
+      expect(getInstrumentType({ instrumentType: 'index' })).toBe('index');
+    });
+  });
+});
@@ -0,0 +1,206 @@
+import {
+  SYNC_LIMITS,
+  SYNCED_CONTROL_FIELDS,
+  addConflicts,
+  createSyncEdit,
+  describeRefusedEdit,
+  localEditTimes,
+  mergeFields,
+  mergeStockList,
+  queueEdit,
+  settleSync,
+} from '../../lib/syncMerge';
+import { SyncEdit, SyncState } from '../../lib/types';
+
+const NOW = 1_700_000_000_000;
+
+const setPrice = (symbol: string, price: number, createdAt = NOW, id = `edit-${symbol}-${price}`): SyncEdit =>
+  createSyncEdit({ type: 'setPrice', symbol, price }, id, createdAt);
+
+const removeStock = (symbol: string, createdAt = NOW): SyncEdit =>
+  createSyncEdit({ type: 'removeStock', symbol }, `remove-${symbol}`, createdAt);
+
+const addStock = (symbol: string, createdAt = NOW): SyncEdit =>
+  createSyncEdit({ type: 'addStock', stock: { symbol, name: `${symbol} Inc.`, initialPrice: 10, currency: 'USD', instrumentType: 'equity' } }, `add-${symbol}`, createdAt);
+
+const controls = (updates: Extract<SyncEdit, { type: 'updateControls' }>['updates'], createdAt = NOW, id = 'edit-controls'): SyncEdit =>
+  createSyncEdit({ type: 'updateControls', updates }, id, createdAt);
+
+const emptySync = (overrides: Partial<SyncState> = {}): SyncState => ({
+  stocks: {},
+  controls: {},
+  pendingEdits: [],
+  failedEdits: [],
+  conflicts: [],
+  connection: 'unknown',
+  ...overrides,
+});
+
+describe('Sync merge', () => {
+  describe('mergeFields', () => {
+    const mergePrice = (edits: SyncEdit[], serverPrice: number, serverVersion: number | undefined, seen = { server: 5, serverValue: 100 }) =>
+      mergeFields(
+        ['currentPrice'] as const,
+        { currentPrice: 120 },
+        { currentPrice: seen },
+        localEditTimes(edits, 'BNOX'),
+        { values: { currentPrice: serverPrice }, versions: serverVersion === undefined ? undefined : { currentPrice: serverVersion } },
+        'BNOX'
+      );
+
+    it('should take the server value when there is no local edit', () => {
+      const merged = mergePrice([], 105, 6);
+
+      expect(merged.values).toEqual({ currentPrice: 105 });
+      expect(merged.versions.currentPrice).toEqual({ server: 6, serverValue: 105 });
+      expect(merged.conflicts).toEqual([]);
+    });
+
+    it('should keep a local edit while the field is unchanged on the server', () => {
+      const merged = mergePrice([setPrice('BNOX', 120)], 100, 5);
+
+      expect(merged.values).toEqual({ currentPrice: 120 });
+      expect(merged.conflicts).toEqual([]);
+      expect(merged.overridden).toEqual([]);
+    });
+
+    it('should keep the server value when it moved past the version the edit was made against', () => {
+      const merged = mergePrice([setPrice('BNOX', 120)], 105, 6);
+
+      expect(merged.values).toEqual({ currentPrice: 105 });
+      expect(merged.conflicts).toEqual([{ symbol: 'BNOX', field: 'currentPrice', localValue: 120, serverValue: 105, winner: 'server' }]);
+      expect(merged.overridden).toEqual(['currentPrice']);
+      expect(merged.versions.currentPrice).toEqual({ server: 6, serverValue: 105 });
+    });
+
+    it('should settle on versions, whatever the edit\'s clock says', () => {
+      // An edit stamped far ahead of the server's clock still loses to a newer version
+      expect(mergePrice([setPrice('BNOX', 120, NOW + 3_600_000)], 105, 6).conflicts[0]).toMatchObject({ winner: 'server' });
+      // and one stamped behind it still stands while the version is unchanged
+      expect(mergePrice([setPrice('BNOX', 120, NOW - 3_600_000)], 100, 5).values).toEqual({ currentPrice: 120 });
+    });
+
+    it('should compare values for servers that send no versions', () => {
+      expect(mergePrice([setPrice('BNOX', 120)], 100, undefined).conflicts).toEqual([]);
+      expect(mergePrice([setPrice('BNOX', 120)], 105, undefined).conflicts).toHaveLength(1);
+    });
+
+    it('should not report a conflict when both sides made the same change', () => {
+      const merged = mergePrice([setPrice('BNOX', 120)], 120, 6);
+
+      expect(merged.values).toEqual({ currentPrice: 120 });
+      expect(merged.conflicts).toEqual([]);
+    });
+
+    it('should send edits made before the server value was first seen as they are', () => {
+      const merged = mergeFields(
+        SYNCED_CONTROL_FIELDS,
+        { isPaused: true, updateIntervalMs: 1000, selectedCurrency: 'EUR' },
+        {},
+        localEditTimes([controls({ isPaused: true })], undefined),
+        { values: { isPaused: false, updateIntervalMs: 2000, selectedCurrency: 'USD' }, versions: { isPaused: 3, updateIntervalMs: 4, selectedCurrency: 2 } }
+      );
+
+      expect(merged.values).toEqual({ isPaused: true, updateIntervalMs: 2000, selectedCurrency: 'USD' });
+      expect(merged.conflicts).toEqual([]);
+    });
+
+    it('should leave fields the server did not send alone', () => {
+      const merged = mergeFields(['exchange', 'name'] as const, { exchange: 'NASDAQ', name: 'Old' }, {}, {}, { values: { name: 'New' } });
+
+      expect(merged.values).toEqual({ name: 'New' });
+      expect(merged.versions).not.toHaveProperty('exchange');
+    });
+  });
+
+  describe('mergeStockList', () => {
+    const server = (symbol: string, created?: number) => ({ symbol, created });
+
+    it('should remove stocks the server dropped, reporting unsent edits to them', () => {
+      const merged = mergeStockList(['BNOX', 'ZENT', 'MSFT'], [server('BNOX')], {}, [setPrice('ZENT', 12)]);
+
+      expect(merged.removed).toEqual(['ZENT', 'MSFT']);
+      expect(merged.discarded).toEqual(['ZENT']);
+      expect(merged.conflicts).toEqual([{ symbol: 'ZENT', field: 'stock', localValue: 'edited', serverValue: 'removed', winner: 'server' }]);
+    });
+
+    it('should keep stocks this tab is still adding', () => {
+      const merged = mergeStockList(['BNOX', 'NEWCO'], [server('BNOX')], {}, [addStock('NEWCO')]);
+
+      expect(merged.removed).toEqual([]);
+    });
+
+    it('should keep stocks this tab is removing removed, unless the server added them again since', () => {
+      const stocks = { ZENT: { fields: {}, created: 4 } };
+
+      expect(mergeStockList([], [server('ZENT', 4)], stocks, [removeStock('ZENT')]).removing).toEqual(['ZENT']);
+      expect(mergeStockList([], [server('ZENT')], {}, [removeStock('ZENT')]).removing).toEqual(['ZENT']);
+
+      const readded = mergeStockList([], [server('ZENT', 9)], stocks, [removeStock('ZENT')]);
+      expect(readded.removing).toEqual([]);
+      expect(readded.discarded).toEqual(['ZENT']);
+      expect(readded.conflicts[0]).toMatchObject({ symbol: 'ZENT', winner: 'server' });
+    });
+  });
+
+  describe('queueEdit', () => {
+    it('should replace a price or controls edit right before it', () => {
+      let edits = queueEdit([], setPrice('BNOX', 110, NOW, 'a'));
+      edits = queueEdit(edits, setPrice('BNOX', 111, NOW + 1, 'b'));
+      edits = queueEdit(edits, controls({ isPaused: true }, NOW + 2, 'c'));
+      edits = queueEdit(edits, controls({ updateIntervalMs: 500 }, NOW + 3, 'd'));
+
+      expect(edits).toEqual([
+        { id: 'b', type: 'setPrice', symbol: 'BNOX', price: 111, createdAt: NOW + 1 },
+        { id: 'd', type: 'updateControls', updates: { isPaused: true, updateIntervalMs: 500 }, createdAt: NOW + 3 },
+      ]);
+    });
+
+    it('should drop a removed stock\'s other edits', () => {
+      const edits = [setPrice('BNOX', 110), setPrice('MSFT', 400), setPrice('BNOX', 112, NOW, 'later')];
+
+      expect(queueEdit(edits, removeStock('BNOX')).map(edit => edit.type === 'setPrice' ? edit.symbol : edit.type))
+        .toEqual(['MSFT', 'removeStock']);
+    });
+  });
+
+  describe('settleSync', () => {
+    it('should drop the edits that lost to the server and report the conflicts', () => {
+      const sync = emptySync({
+        pendingEdits: [setPrice('BNOX', 110), controls({ isPaused: true, selectedCurrency: 'EUR' }), setPrice('ZENT', 5), setPrice('MSFT', 400)],
+      });
+
+      const settled = settleSync(sync, {
+        conflicts: [{ symbol: 'BNOX', field: 'currentPrice', localValue: 110, serverValue: 105, winner: 'server' }],
+        discarded: ['ZENT'],
+        overridden: [{ symbol: 'BNOX', fields: ['currentPrice'] }, { fields: ['isPaused'] }],
+      }, NOW);
+
+      expect(settled.pendingEdits).toEqual([
+        { ...controls({ selectedCurrency: 'EUR' }) },
+        setPrice('MSFT', 400),
+      ]);
+      expect(settled.conflicts).toHaveLength(1);
+      expect(settled.conflicts[0].message).toBe('BNOX price changed here and on the server: kept the server\'s (105 over 110)');
+    });
+
+    it('should keep only the newest conflicts', () => {
+      const found = Array.from({ length: SYNC_LIMITS.MAX_CONFLICTS + 5 }, (_, i) => ({
+        symbol: `S${i}`, field: 'currentPrice' as const, localValue: i, serverValue: i + 1, winner: 'server' as const,
+      }));
+
+      const conflicts = addConflicts([], found, NOW);
+
+      expect(conflicts).toHaveLength(SYNC_LIMITS.MAX_CONFLICTS);
+      expect(conflicts[0].symbol).toBe(`S${found.length - 1}`);
+      expect(new Set(conflicts.map(conflict => conflict.id)).size).toBe(conflicts.length);
+    });
+  });
+
+  it('should describe refused edits', () => {
+    expect(describeRefusedEdit(removeStock('ZENT'), 'Insufficient permissions'))
+      .toBe('The server refused to remove ZENT: Insufficient permissions');
+    expect(describeRefusedEdit(controls({ isPaused: true, updateIntervalMs: 500 }), 'Bad request'))
+      .toBe('The server refused the pause state and update interval change: Bad request');
+  });
+});
@@ -0,0 +1,84 @@
+import { createSyncEdit } from '../../lib/syncMerge';
+import {
+  SYNC_OUTBOX,
+  discardFailedSyncEdit,
+  failSyncEdit,
+  parseSavedOutbox,
+  restoreOutbox,
+  retryFailedSyncEdit,
+} from '../../lib/syncOutbox';
+import { SyncEdit, SyncState } from '../../lib/types';
+
+const NOW = 1_700_000_000_000;
+
+const setPrice = (symbol: string, price: number, id = `edit-${symbol}-${price}`, createdAt = NOW): SyncEdit =>
+  createSyncEdit({ type: 'setPrice', symbol, price }, id, createdAt);
+
+const emptySync = (overrides: Partial<SyncState> = {}): SyncState => ({
+  stocks: {},
+  controls: {},
+  pendingEdits: [],
+  failedEdits: [],
+  conflicts: [],
+  connection: 'unknown',
+  ...overrides,
+});
+
+describe('Sync outbox', () => {
+  it('should move a refused edit to the failed edits, newest first and capped', () => {
+    let sync = emptySync({ pendingEdits: [setPrice('BNOX', 110), setPrice('MSFT', 400)] });
+
+    sync = failSyncEdit(sync, sync.pendingEdits[0], 'Insufficient permissions', NOW);
+
+    expect(sync.pendingEdits).toEqual([setPrice('MSFT', 400)]);
+    expect(sync.failedEdits).toEqual([{ edit: setPrice('BNOX', 110), message: 'Insufficient permissions', failedAt: NOW }]);
+
+    for (let i = 0; i < SYNC_OUTBOX.MAX_FAILED_EDITS + 3; i++) {
+      sync = failSyncEdit(sync, setPrice('ZENT', i + 1), 'Bad request', NOW + i);
+    }
+    expect(sync.failedEdits).toHaveLength(SYNC_OUTBOX.MAX_FAILED_EDITS);
+    expect(sync.failedEdits[0].failedAt).toBe(NOW + SYNC_OUTBOX.MAX_FAILED_EDITS + 2);
+  });
+
+  it('should queue a retried edit again as made now, keeping its id', () => {
+    const sync = failSyncEdit(emptySync(), setPrice('BNOX', 110, 'a'), 'Bad request', NOW);
+
+    const retried = retryFailedSyncEdit(sync, 'a', NOW + 5000);
+
+    expect(retried?.pendingEdits).toEqual([setPrice('BNOX', 110, 'a', NOW + 5000)]);
+    expect(retried?.failedEdits).toEqual([]);
+    expect(retryFailedSyncEdit(sync, 'missing', NOW)).toBeNull();
+    expect(discardFailedSyncEdit(sync, 'a').failedEdits).toEqual([]);
+  });
+
+  it('should put saved edits before the ones made while loading, without duplicates', () => {
+    const saved = { pendingEdits: [setPrice('BNOX', 110, 'a'), setPrice('MSFT', 400, 'b')], failedEdits: [] };
+    const sync = emptySync({ pendingEdits: [setPrice('MSFT', 400, 'b'), setPrice('ZENT', 12, 'c')] });
+
+    expect(restoreOutbox(sync, saved).pendingEdits.map(edit => edit.id)).toEqual(['a', 'b', 'c']);
+  });
+
+  it('should let a later removal drop saved edits to the same stock', () => {
+    const saved = { pendingEdits: [setPrice('BNOX', 110, 'a')], failedEdits: [] };
+    const removal = createSyncEdit({ type: 'removeStock', symbol: 'BNOX' }, 'r', NOW + 1);
+
+    expect(restoreOutbox(emptySync({ pendingEdits: [removal] }), saved).pendingEdits).toEqual([removal]);
+  });
+
+  it('should leave out saved entries that cannot be read', () => {
+    const parsed = parseSavedOutbox({
+      pendingEdits: [
+        setPrice('BNOX', 110),
+        { id: 'x', type: 'setPrice', symbol: 'BNOX', price: -1, createdAt: NOW },
+        { id: 'y', type: 'teleport', createdAt: NOW },
+        { id: 'z', type: 'updateControls', updates: {}, createdAt: NOW },
+      ],
+      failedEdits: [{ edit: setPrice('MSFT', 400), message: 'Refused', failedAt: NOW }, { edit: null }],
+    });
+
+    expect(parsed.pendingEdits).toEqual([setPrice('BNOX', 110)]);
+    expect(parsed.failedEdits).toHaveLength(1);
+    expect(parseSavedOutbox(null)).toEqual({ pendingEdits: [], failedEdits: [] });
+    expect(parseSavedOutbox({ pendingEdits: 'lots' }).pendingEdits).toEqual([]);
+  });
+});
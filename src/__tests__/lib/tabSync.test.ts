@@ -0,0 +1,178 @@
+import {
+  SyncChannel,
+  TAB_SYNC,
+  TabCoordinator,
+  TabSyncHandlers,
+  TabSyncMessage,
+  pickSharedState,
+  relayCommands,
+} from '../../lib/tabSync';
+import { TabRole, TickerState } from '../../lib/types';
+
+// Delivers messages to every other channel, asynchronously like BroadcastChannel
+class FakeHub {
+  private channels = new Set<SyncChannel>();
+
+  connect(): SyncChannel {
+    const hub = this;
+    const channel: SyncChannel = {
+      onmessage: null,
+      postMessage(message: TabSyncMessage) {
+        hub.channels.forEach(other => {
+          if (other !== channel) {
+            setTimeout(() => other.onmessage?.({ data: JSON.parse(JSON.stringify(message)) } as MessageEvent<TabSyncMessage>), 0);
+          }
+        });
+      },
+      close() {
+        hub.channels.delete(channel);
+      },
+    };
+    this.channels.add(channel);
+    return channel;
+  }
+}
+
+interface TestTab {
+  coordinator: TabCoordinator;
+  channel: SyncChannel;
+  roles: TabRole[];
+  states: unknown[];
+  commands: [string, unknown[]][];
+}
+
+const openTab = (hub: FakeHub, tabId: string): TestTab => {
+  const tab = { roles: [], states: [], commands: [] } as unknown as TestTab;
+  const handlers: TabSyncHandlers = {
+    onRoleChange: role => tab.roles.push(role),
+    onState: state => tab.states.push(state),
+    onCommand: (name, args) => tab.commands.push([name, args]),
+  };
+  tab.channel = hub.connect();
+  tab.coordinator = new TabCoordinator(tab.channel, handlers, tabId);
+  tab.coordinator.start();
+  return tab;
+};
+
+describe('TabCoordinator', () => {
+  let hub: FakeHub;
+  let tabs: TestTab[];
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    hub = new FakeHub();
+    tabs = [];
+  });
+
+  afterEach(() => {
+    tabs.forEach(tab => tab.coordinator.stop());
+    jest.useRealTimers();
+  });
+
+  const open = (tabId: string) => {
+    const tab = openTab(hub, tabId);
+    tabs.push(tab);
+    return tab;
+  };
+
+  const settle = () => jest.advanceTimersByTime(TAB_SYNC.STARTUP_WAIT_MS + TAB_SYNC.CLAIM_WINDOW_MS + 10);
+
+  it('should make the first tab leader and later tabs followers', () => {
+    const first = open('b');
+    settle();
+    expect(first.coordinator.role).toBe('leader');
+
+    const second = open('a');
+    settle();
+    expect(second.coordinator.role).toBe('follower');
+    expect(first.coordinator.role).toBe('leader');
+
+    jest.advanceTimersByTime(TAB_SYNC.HEARTBEAT_MS);
+    expect(first.coordinator.tabCount).toBe(2);
+    expect(second.coordinator.tabCount).toBe(2);
+  });
+
+  it('should elect a single leader when tabs open together', () => {
+    const [b, a, c] = [open('b'), open('a'), open('c')];
+    settle();
+    jest.advanceTimersByTime(TAB_SYNC.HEARTBEAT_MS);
+
+    expect(a.coordinator.role).toBe('leader');
+    expect(b.coordinator.role).toBe('follower');
+    expect(c.coordinator.role).toBe('follower');
+  });
+
+  it('should send state to followers and controls to the leader', () => {
+    const leader = open('a');
+    settle();
+    const follower = open('b');
+    settle();
+
+    leader.coordinator.broadcastState({ isPaused: true } as never);
+    follower.coordinator.sendCommand('setPrice', ['BNOX', 12]);
+    // Only the leader broadcasts state, and only followers send controls
+    follower.coordinator.broadcastState({ isPaused: false } as never);
+    leader.coordinator.sendCommand('togglePause', []);
+    jest.advanceTimersByTime(10);
+
+    expect(follower.states).toEqual([{ isPaused: true }]);
+    expect(leader.states).toEqual([]);
+    expect(leader.commands).toEqual([['setPrice', ['BNOX', 12]]]);
+    expect(follower.commands).toEqual([]);
+  });
+
+  it('should hand leadership over when the leader tab closes', () => {
+    const leader = open('a');
+    settle();
+    const follower = open('b');
+    settle();
+
+    leader.coordinator.stop();
+    jest.advanceTimersByTime(TAB_SYNC.CLAIM_WINDOW_MS + 10);
+    expect(follower.coordinator.role).toBe('leader');
+  });
+
+  it('should take over when the leader stops sending heartbeats', () => {
+    const leader = open('a');
+    settle();
+    const follower = open('b');
+    settle();
+
+    // A crashed tab cannot resign; it just goes quiet
+    jest.spyOn(leader.channel, 'postMessage').mockImplementation(() => {});
+    jest.advanceTimersByTime(TAB_SYNC.LEADER_TIMEOUT_MS + TAB_SYNC.HEARTBEAT_MS + TAB_SYNC.CLAIM_WINDOW_MS);
+    expect(follower.coordinator.role).toBe('leader');
+    expect(follower.coordinator.tabCount).toBe(1);
+  });
+});
+
+describe('relayCommands', () => {
+  it('should send successful controls to the leader from follower tabs only', () => {
+    const sendCommand = jest.fn();
+    const coordinator = { role: 'follower', sendCommand } as unknown as TabCoordinator;
+    const commands = {
+      setPrice: jest.fn((_symbol: string, price: number) => ({ isValid: price > 0 })),
+      togglePause: jest.fn(),
+    };
+    const relayed = relayCommands(() => commands, () => coordinator);
+
+    expect(relayed.setPrice('BNOX', 12)).toEqual({ isValid: true });
+    expect(relayed.setPrice('BNOX', -1)).toEqual({ isValid: false });
+    relayed.togglePause();
+    expect(sendCommand.mock.calls).toEqual([['setPrice', ['BNOX', 12]], ['togglePause', []]]);
+
+    (coordinator as { role: string }).role = 'leader';
+    relayed.togglePause();
+    expect(sendCommand).toHaveBeenCalledTimes(2);
+    expect(commands.togglePause).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('pickSharedState', () => {
+  it('should leave out per-tab state', () => {
+    const shared = pickSharedState({ stocks: [], isPaused: false, rateLimiters: {}, storage: { backends: [] } } as unknown as TickerState);
+    expect(shared).toMatchObject({ stocks: [], isPaused: false });
+    expect(shared).not.toHaveProperty('rateLimiters');
+    expect(shared).not.toHaveProperty('storage');
+  });
+});
@@ -0,0 +1,67 @@
+import { aggregateCandles, getCandleInterval, formatCandleInterval, RANGE_CANDLE_INTERVAL_MS } from '../../utils/candles';
+import { PricePoint } from '../../lib/types';
+
+describe('Candles', () => {
+  // Points every 15 seconds starting on a minute boundary
+  const start = Date.UTC(2024, 0, 1, 12, 0, 0);
+  const makePoints = (prices: number[], stepMs = 15000): PricePoint[] =>
+    prices.map((price, i) => ({ timestamp: new Date(start + i * stepMs), price }));
+
+  describe('aggregateCandles', () => {
+    it('should build OHLC values per interval', () => {
+      const candles = aggregateCandles(makePoints([100, 104, 98, 101, 102, 99]), '1m');
+
+      expect(candles).toHaveLength(2);
+      expect(candles[0]).toEqual({
+        timestamp: new Date(start),
+        open: 100,
+        high: 104,
+        low: 98,
+        close: 101,
+        pointCount: 4,
+      });
+      expect(candles[1]).toMatchObject({ open: 102, high: 102, low: 99, close: 99, pointCount: 2 });
+    });
+
+    it('should accept unsorted points', () => {
+      const points = makePoints([100, 104, 98, 101]);
+      const candles = aggregateCandles([...points].reverse(), 60000);
+      expect(candles[0].open).toBe(100);
+      expect(candles[0].close).toBe(101);
+    });
+
+    it('should skip intervals without points', () => {
+      const points = makePoints([100, 110], 3 * 60 * 1000);
+      const candles = aggregateCandles(points, '1m');
+      expect(candles.map(candle => candle.timestamp.getTime())).toEqual([start, start + 3 * 60 * 1000]);
+    });
+
+    it('should return no candles for empty history', () => {
+      expect(aggregateCandles([], '5m')).toEqual([]);
+    });
+
+    it('should reject invalid intervals', () => {
+      expect(() => aggregateCandles(makePoints([100]), 0)).toThrow('Invalid candle interval');
+    });
+  });
+
+  describe('getCandleInterval', () => {
+    it('should use the fixed interval for each time range', () => {
+      expect(getCandleInterval('1h', [])).toBe(RANGE_CANDLE_INTERVAL_MS['1h']);
+    });
+
+    it('should size candles for the whole history when viewing all', () => {
+      // 30 points over 7.25 minutes: 1 minute candles give at most 12 candles
+      const points = makePoints(Array(30).fill(100));
+      expect(getCandleInterval('all', points)).toBe(60000);
+    });
+  });
+
+  describe('formatCandleInterval', () => {
+    it('should format seconds, minutes and hours', () => {
+      expect(formatCandleInterval(15000)).toBe('15s');
+      expect(formatCandleInterval(300000)).toBe('5m');
+      expect(formatCandleInterval(4 * 3600000)).toBe('4h');
+    });
+  });
+});
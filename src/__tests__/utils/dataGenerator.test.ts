@@ -6,6 +6,16 @@ import {
   PriceHistoryConfig 
 } from '../../utils/dataGenerator';
 import { MAX_HISTORY_POINTS } from '../../lib/types';
+import { RandomSource, createSeededRandom } from '../../utils/random';
+
+// Plays back the given values in a loop
+const sequence = (...values: number[]): RandomSource => {
+  let index = 0;
+  return () => values[index++ % values.length];
+};
+
+// Prices are rounded to cents, so they can land up to half a cent past a bound
+const CENT = 0.01;
 
 describe('DataGenerator', () => {
   beforeEach(() => {
@@ -37,18 +47,24 @@ describe('DataGenerator', () => {
       const basePrice = 150;
       const config: PriceHistoryConfig = {
         basePrice,
-        pointsCount: 20,
-        maxVariationPercent: 5
+        pointsCount: 200,
+        maxVariationPercent: 5,
+        random: createSeededRandom(7)
       };
 
       const history = generateFakePriceHistory(config);
       
-      // All prices should be within reasonable bounds of the base price
+      // Without a trend, every price stays within maxVariationPercent of the base
       history.forEach(point => {
-        expect(point.price).toBeGreaterThan(basePrice * 0.8); // 20% below base
-        expect(point.price).toBeLessThan(basePrice * 1.2); // 20% above base
-        expect(point.price).toBeGreaterThan(0.01); // Never zero or negative
+        expect(point.price).toBeGreaterThanOrEqual(basePrice * 0.95 - CENT);
+        expect(point.price).toBeLessThanOrEqual(basePrice * 1.05 + CENT);
       });
+
+      // The extremes of the random source reach the bounds
+      const lowest = generateFakePriceHistory({ ...config, random: () => 0 });
+      const highest = generateFakePriceHistory({ ...config, random: () => 1 });
+      expect(lowest[lowest.length - 1].price).toBeCloseTo(basePrice * 0.95, 1);
+      expect(highest[highest.length - 1].price).toBeCloseTo(basePrice * 1.05, 1);
     });
 
     it('should create timestamps going backwards in time', () => {
@@ -93,23 +109,21 @@ describe('DataGenerator', () => {
         pointsCount: 10,
         enableTrend: true,
         trendStrength: 0.5, // Positive trend
-        maxVariationPercent: 1
+        maxVariationPercent: 1,
+        // No random fluctuation, so only the trend moves the price
+        random: () => 0.5
       };
 
-      // Run multiple times to reduce randomness effect
-      let trendingUpCount = 0;
-      for (let test = 0; test < 5; test++) {
-        const history = generateFakePriceHistory(config);
-        const firstPrice = history[0].price;
-        const lastPrice = history[history.length - 1].price;
-        
-        if (lastPrice > firstPrice) {
-          trendingUpCount++;
-        }
+      const rising = generateFakePriceHistory(config).map(point => point.price);
+      for (let i = 1; i < rising.length; i++) {
+        expect(rising[i]).toBeGreaterThanOrEqual(rising[i - 1]);
       }
-      
-      // With positive trend strength, more tests should trend upward
-      expect(trendingUpCount).toBeGreaterThan(2); // At least 3 out of 5 tests
+      // The newest point carries the full trend: 0.5 of the 1% variation
+      expect(rising[rising.length - 1]).toBeCloseTo(100.5, 1);
+
+      const falling = generateFakePriceHistory({ ...config, trendStrength: -0.5 }).map(point => point.price);
+      expect(falling[falling.length - 1]).toBeLessThan(falling[0]);
+      expect(falling[falling.length - 1]).toBeCloseTo(99.5, 1);
     });
   });
 
@@ -140,16 +154,23 @@ describe('DataGenerator', () => {
         { symbol: 'STOCK2', name: 'Stock 2', basePrice: 100 }
       ];
 
-      const histories = generateMultipleStockHistories(stocks);
+      const histories = generateMultipleStockHistories(stocks, createSeededRandom(11));
       
-      // The two stocks should have some differences in their price patterns
-      // (This is probabilistic, but should be true most of the time)
       const stock1Prices = histories['STOCK1'].map(p => p.price);
       const stock2Prices = histories['STOCK2'].map(p => p.price);
       
-      // They shouldn't be identical (very unlikely with random generation)
       expect(stock1Prices).not.toEqual(stock2Prices);
     });
+
+    it('should replay the same histories for the same seed', () => {
+      const stocks = [
+        { symbol: 'STOCK1', name: 'Stock 1', basePrice: 100 },
+        { symbol: 'STOCK2', name: 'Stock 2', basePrice: 250 }
+      ];
+
+      expect(generateMultipleStockHistories(stocks, createSeededRandom(11)))
+        .toEqual(generateMultipleStockHistories(stocks, createSeededRandom(11)));
+    });
   });
 
   describe('updatePriceHistory', () => {
@@ -194,28 +215,41 @@ describe('DataGenerator', () => {
     it('should generate price close to current price', () => {
       const currentPrice = 100;
       const maxChangePercent = 2;
+      const random = createSeededRandom(3);
       
-      // Test multiple times to account for randomness
-      for (let i = 0; i < 10; i++) {
-        const newPrice = generateRealisticPriceChange(currentPrice, maxChangePercent);
+      for (let i = 0; i < 500; i++) {
+        const newPrice = generateRealisticPriceChange(currentPrice, maxChangePercent, random);
         
-        expect(newPrice).toBeGreaterThan(currentPrice * 0.96); // Within 4% down
-        expect(newPrice).toBeLessThan(currentPrice * 1.04); // Within 4% up
-        expect(newPrice).toBeGreaterThan(0.01); // Never zero or negative
+        expect(newPrice).toBeGreaterThanOrEqual(currentPrice * 0.98 - CENT);
+        expect(newPrice).toBeLessThanOrEqual(currentPrice * 1.02 + CENT);
       }
     });
 
+    it('should size the change by the bucket the first draw falls in', () => {
+      // Small: up to 0.5%
+      expect(generateRealisticPriceChange(100, 5, sequence(0.1, 1))).toBe(100.5);
+      // Medium: up to 1.5%
+      expect(generateRealisticPriceChange(100, 5, sequence(0.8, 0))).toBe(98.5);
+      // Large: up to maxChangePercent
+      expect(generateRealisticPriceChange(100, 5, sequence(0.95, 1))).toBe(105);
+    });
+
+    it('should never go to zero or below', () => {
+      expect(generateRealisticPriceChange(0.01, 200, sequence(0.95, 0))).toBe(0.01);
+    });
+
     it('should favor smaller changes over larger ones', () => {
       const currentPrice = 100;
       const maxChangePercent = 5;
-      const testRuns = 100;
+      const testRuns = 2000;
+      const random = createSeededRandom(5);
       
       let smallChanges = 0; // Changes within 0.5%
       let mediumChanges = 0; // Changes within 0.5% to 2%
       let largeChanges = 0; // Changes over 2%
       
       for (let i = 0; i < testRuns; i++) {
-        const newPrice = generateRealisticPriceChange(currentPrice, maxChangePercent);
+        const newPrice = generateRealisticPriceChange(currentPrice, maxChangePercent, random);
         const changePercent = Math.abs((newPrice - currentPrice) / currentPrice) * 100;
         
         if (changePercent <= 0.5) {
@@ -227,10 +261,13 @@ describe('DataGenerator', () => {
         }
       }
       
-      // Should favor smaller changes
-      expect(smallChanges).toBeGreaterThan(mediumChanges);
+      // The small bucket (70%), plus the small draws of the others, stays within 0.5%: about 78%
+      expect(smallChanges / testRuns).toBeGreaterThan(0.74);
+      expect(smallChanges / testRuns).toBeLessThan(0.82);
+      // Only the large bucket (10%) goes past 2%, in 3 of its 5 percentage points: about 6%
+      expect(largeChanges / testRuns).toBeGreaterThan(0.04);
+      expect(largeChanges / testRuns).toBeLessThan(0.08);
       expect(mediumChanges).toBeGreaterThan(largeChanges);
-      expect(smallChanges).toBeGreaterThan(testRuns * 0.5); // At least 50% should be small changes
     });
 
     it('should round result to 2 decimal places', () => {
@@ -0,0 +1,53 @@
+import { lttb, minMaxDecimate, downsample } from '../../utils/downsampling';
+import { PricePoint } from '../../lib/types';
+
+const makePoints = (prices: number[]): PricePoint[] =>
+  prices.map((price, i) => ({ timestamp: new Date(1_700_000_000_000 + i * 1000), price }));
+
+describe('Downsampling', () => {
+  const wave = makePoints(Array.from({ length: 200 }, (_, i) => 100 + Math.sin(i / 10) * 10));
+
+  describe('lttb', () => {
+    it('should keep the first and last points', () => {
+      const result = lttb(wave, 20);
+      expect(result).toHaveLength(20);
+      expect(result[0]).toBe(wave[0]);
+      expect(result[19]).toBe(wave[199]);
+    });
+
+    it('should keep a spike', () => {
+      const prices = Array(100).fill(50);
+      prices[42] = 90;
+      const result = lttb(makePoints(prices), 10);
+      expect(result.some(point => point.price === 90)).toBe(true);
+    });
+
+    it('should return a copy when no reduction is needed', () => {
+      const result = lttb(wave, 500);
+      expect(result).toEqual(wave);
+      expect(result).not.toBe(wave);
+    });
+  });
+
+  describe('minMaxDecimate', () => {
+    it('should keep the extremes of each bucket in time order', () => {
+      const points = makePoints([5, 1, 9, 3, 7, 2, 8, 4]);
+      const result = minMaxDecimate(points, 4);
+      expect(result.map(point => point.price)).toEqual([1, 9, 2, 8]);
+    });
+
+    it('should keep the global minimum and maximum', () => {
+      const result = minMaxDecimate(wave, 10);
+      const prices = wave.map(point => point.price);
+      const sampled = result.map(point => point.price);
+      expect(Math.max(...sampled)).toBe(Math.max(...prices));
+      expect(Math.min(...sampled)).toBe(Math.min(...prices));
+      expect(result.length).toBeLessThanOrEqual(10);
+    });
+  });
+
+  it('should dispatch on the method', () => {
+    expect(downsample(wave, 10, 'minmax')).toEqual(minMaxDecimate(wave, 10));
+    expect(downsample(wave, 10, 'lttb')).toEqual(lttb(wave, 10));
+  });
+});
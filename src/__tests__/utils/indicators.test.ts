@@ -0,0 +1,125 @@
+import {
+  sma,
+  ema,
+  bollingerBands,
+  rsi,
+  macd,
+  computeIndicator,
+  validateIndicator,
+  getIndicatorLabel,
+  isOverlayIndicator,
+  DEFAULT_INDICATORS,
+} from '../../utils/indicators';
+
+describe('Indicators', () => {
+  const prices = [10, 11, 12, 13, 14, 15, 16, 17, 18, 19];
+
+  describe('sma', () => {
+    it('should average the trailing window', () => {
+      expect(sma([1, 2, 3, 4, 5], 3)).toEqual([null, null, 2, 3, 4]);
+    });
+  });
+
+  describe('ema', () => {
+    it('should seed with the SMA and then weight recent prices', () => {
+      const result = ema([1, 2, 3, 4, 5], 3);
+      expect(result.slice(0, 2)).toEqual([null, null]);
+      expect(result[2]).toBe(2);
+      // multiplier 0.5: (4 - 2) * 0.5 + 2 = 3, then (5 - 3) * 0.5 + 3 = 4
+      expect(result[3]).toBe(3);
+      expect(result[4]).toBe(4);
+    });
+
+    it('should equal a constant series', () => {
+      expect(ema([5, 5, 5, 5], 2).slice(1)).toEqual([5, 5, 5]);
+    });
+  });
+
+  describe('bollingerBands', () => {
+    it('should place bands around the moving average', () => {
+      const { middle, upper, lower } = bollingerBands([2, 4, 4, 4, 5, 5, 7, 9], 8, 2);
+      // Population standard deviation of this series is exactly 2
+      expect(middle[7]).toBe(5);
+      expect(upper[7]).toBe(9);
+      expect(lower[7]).toBe(1);
+      expect(upper[6]).toBeNull();
+    });
+  });
+
+  describe('rsi', () => {
+    it('should be 100 for a steadily rising series', () => {
+      const result = rsi(prices, 5);
+      expect(result.slice(0, 5).every(value => value === null)).toBe(true);
+      expect(result[5]).toBe(100);
+    });
+
+    it('should stay within 0 to 100', () => {
+      const noisy = [10, 12, 9, 13, 8, 14, 7, 15, 6, 16, 12, 11];
+      rsi(noisy, 4).forEach(value => {
+        if (value !== null) {
+          expect(value).toBeGreaterThanOrEqual(0);
+          expect(value).toBeLessThanOrEqual(100);
+        }
+      });
+    });
+  });
+
+  describe('macd', () => {
+    it('should derive the histogram from the MACD and signal lines', () => {
+      const series = Array.from({ length: 40 }, (_, i) => 100 + Math.sin(i / 3) * 5);
+      const result = macd(series, 3, 6, 4);
+      expect(result.macd[4]).toBeNull();
+      expect(result.macd[5]).not.toBeNull();
+      expect(result.signal[7]).toBeNull();
+      expect(result.signal[8]).not.toBeNull();
+      result.histogram.forEach((value, i) => {
+        if (value !== null) {
+          expect(value).toBeCloseTo((result.macd[i] as number) - (result.signal[i] as number), 10);
+        }
+      });
+    });
+  });
+
+  describe('computeIndicator', () => {
+    it('should place overlays on the price pane and oscillators in the sub-panel', () => {
+      expect(computeIndicator(DEFAULT_INDICATORS.sma, prices).pane).toBe('price');
+      expect(computeIndicator(DEFAULT_INDICATORS.bollinger, prices).lines).toHaveLength(3);
+      expect(computeIndicator(DEFAULT_INDICATORS.rsi, prices).range).toEqual({ min: 0, max: 100, guides: [30, 70] });
+      expect(computeIndicator(DEFAULT_INDICATORS.macd, prices).pane).toBe('oscillator');
+      expect(isOverlayIndicator('ema')).toBe(true);
+      expect(isOverlayIndicator('macd')).toBe(false);
+    });
+
+    it('should keep values aligned with the prices', () => {
+      Object.values(DEFAULT_INDICATORS).forEach(config => {
+        computeIndicator(config, prices).lines.forEach(line => {
+          expect(line.values).toHaveLength(prices.length);
+        });
+      });
+    });
+  });
+
+  describe('validateIndicator', () => {
+    it('should accept all defaults', () => {
+      Object.values(DEFAULT_INDICATORS).forEach(config => {
+        expect(validateIndicator(config).isValid).toBe(true);
+      });
+    });
+
+    it('should reject fractional or zero periods', () => {
+      expect(validateIndicator({ type: 'sma', period: 0 }).isValid).toBe(false);
+      expect(validateIndicator({ type: 'ema', period: 2.5 }).isValid).toBe(false);
+    });
+
+    it('should require the MACD fast period to be shorter', () => {
+      const result = validateIndicator({ type: 'macd', fastPeriod: 26, slowPeriod: 12, signalPeriod: 9 });
+      expect(result.isValid).toBe(false);
+      expect(result.errorMessage).toContain('fast period');
+    });
+
+    it('should label indicators with their parameters', () => {
+      expect(getIndicatorLabel(DEFAULT_INDICATORS.bollinger)).toBe('BB(20, 2)');
+      expect(getIndicatorLabel(DEFAULT_INDICATORS.macd)).toBe('MACD(12, 26, 9)');
+    });
+  });
+});
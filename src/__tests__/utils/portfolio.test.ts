@@ -0,0 +1,172 @@
+import {
+  applyTrade,
+  buildPositions,
+  createPortfolio,
+  parsePortfolio,
+  validateTrade,
+  valuePortfolio,
+} from '../../utils/portfolio';
+import { Currency, StockInfo, Trade, TradeSide, convertCurrency } from '../../lib/types';
+
+const makeStock = (symbol: string, currentPrice: number, initialPrice: number = currentPrice, currency?: Currency): StockInfo => ({
+  symbol,
+  name: `${symbol} Corp`,
+  currency,
+  currentPrice,
+  previousPrice: currentPrice,
+  initialPrice,
+  percentChange: 0,
+  lastUpdated: new Date(),
+  priceHistory: [],
+});
+
+let nextId = 0;
+const makeTrade = (symbol: string, side: TradeSide, quantity: number, price: number): Trade => ({
+  id: `t${nextId++}`,
+  symbol,
+  side,
+  quantity,
+  price,
+  timestamp: nextId,
+});
+
+describe('Portfolio', () => {
+  describe('buildPositions', () => {
+    it('should average the cost of buys', () => {
+      const [position] = buildPositions([
+        makeTrade('MSFT', 'buy', 10, 100),
+        makeTrade('MSFT', 'buy', 30, 120),
+      ]);
+      expect(position.quantity).toBe(40);
+      expect(position.averageCost).toBeCloseTo(115);
+      expect(position.realizedPnl).toBe(0);
+    });
+
+    it('should realize P&L against the average cost on sells', () => {
+      const [position] = buildPositions([
+        makeTrade('MSFT', 'buy', 10, 100),
+        makeTrade('MSFT', 'buy', 10, 200),
+        makeTrade('MSFT', 'sell', 5, 160),
+      ]);
+      expect(position.quantity).toBe(15);
+      expect(position.averageCost).toBeCloseTo(150);
+      expect(position.realizedPnl).toBeCloseTo(50);
+    });
+
+    it('should keep closed positions for their realized P&L', () => {
+      const positions = buildPositions([
+        makeTrade('MSFT', 'buy', 10, 100),
+        makeTrade('MSFT', 'sell', 10, 90),
+        makeTrade('AAPL', 'buy', 1, 50),
+      ]);
+      expect(positions.map(p => p.symbol)).toEqual(['MSFT', 'AAPL']);
+      expect(positions[0]).toMatchObject({ quantity: 0, averageCost: 0, realizedPnl: -100 });
+    });
+  });
+
+  describe('validateTrade', () => {
+    it('should require whole positive quantities', () => {
+      expect(validateTrade('buy', 0, 10, 1000).isValid).toBe(false);
+      expect(validateTrade('buy', 1.5, 10, 1000).isValid).toBe(false);
+      expect(validateTrade('buy', 5, 10, 1000).isValid).toBe(true);
+    });
+
+    it('should reject buys beyond the available cash', () => {
+      expect(validateTrade('buy', 101, 10, 1000).isValid).toBe(false);
+      expect(validateTrade('buy', 100, 10, 1000).isValid).toBe(true);
+    });
+
+    it('should not allow short selling', () => {
+      const position = { symbol: 'MSFT', quantity: 5, averageCost: 10, realizedPnl: 0 };
+      expect(validateTrade('sell', 1, 10, 0).isValid).toBe(false);
+      expect(validateTrade('sell', 6, 10, 0, position).isValid).toBe(false);
+      expect(validateTrade('sell', 5, 10, 0, position).isValid).toBe(true);
+    });
+  });
+
+  describe('applyTrade', () => {
+    it('should move cash and append the trade', () => {
+      let portfolio = createPortfolio(1000);
+      portfolio = applyTrade(portfolio, makeTrade('MSFT', 'buy', 5, 100));
+      expect(portfolio.cash).toBe(500);
+      portfolio = applyTrade(portfolio, makeTrade('MSFT', 'sell', 2, 150));
+      expect(portfolio.cash).toBe(800);
+      expect(portfolio.trades).toHaveLength(2);
+    });
+  });
+
+  describe('parsePortfolio', () => {
+    it('should fall back to an empty portfolio for malformed data', () => {
+      expect(parsePortfolio(null)).toEqual(createPortfolio());
+      expect(parsePortfolio({ startingCash: -1, cash: 0, trades: [] })).toEqual(createPortfolio());
+    });
+
+    it('should drop invalid trades', () => {
+      const valid = makeTrade('MSFT', 'buy', 1, 10);
+      const parsed = parsePortfolio({
+        startingCash: 1000,
+        cash: 990,
+        trades: [valid, { ...valid, side: 'short' }, { ...valid, quantity: -1 }, 'junk'],
+      });
+      expect(parsed.trades).toEqual([valid]);
+    });
+  });
+
+  describe('valuePortfolio', () => {
+    const trades = [makeTrade('MSFT', 'buy', 10, 100), makeTrade('AAPL', 'buy', 10, 50)];
+    const portfolio = { startingCash: 10000, cash: 8500, trades, orders: [] };
+    const positions = buildPositions(trades);
+
+    it('should value positions and totals at current prices', () => {
+      const summary = valuePortfolio(portfolio, positions, [makeStock('MSFT', 120, 110), makeStock('AAPL', 40)], 'USD');
+
+      expect(summary.marketValue).toBeCloseTo(1600);
+      expect(summary.equity).toBeCloseTo(10100);
+      expect(summary.unrealizedPnl).toBeCloseTo(100);
+      expect(summary.totalPnl).toBeCloseTo(100);
+      expect(summary.totalPnlPercent).toBeCloseTo(1);
+      expect(summary.dayChange).toBeCloseTo(100);
+
+      const msft = summary.positions.find(p => p.symbol === 'MSFT')!;
+      expect(msft.unrealizedPnl).toBeCloseTo(200);
+      expect(msft.unrealizedPnlPercent).toBeCloseTo(20);
+      expect(msft.allocationPercent).toBeCloseTo((1200 / 10100) * 100);
+    });
+
+    it('should add up to 100% allocation including cash', () => {
+      const summary = valuePortfolio(portfolio, positions, [makeStock('MSFT', 120), makeStock('AAPL', 40)], 'USD');
+      const total = summary.positions.reduce((sum, p) => sum + p.allocationPercent, summary.cashAllocationPercent);
+      expect(total).toBeCloseTo(100);
+    });
+
+    it('should convert USD amounts and USD quotes to the selected currency', () => {
+      const rate = convertCurrency(1, 'USD', 'EUR');
+      const stocks = [makeStock('MSFT', 100), makeStock('AAPL', 50)];
+      const summary = valuePortfolio(portfolio, positions, stocks, 'EUR');
+
+      expect(summary.cash).toBeCloseTo(8500 * rate);
+      expect(summary.equity).toBeCloseTo(10000 * rate);
+      expect(summary.unrealizedPnl).toBeCloseTo(0);
+      expect(summary.totalPnl).toBeCloseTo(0);
+    });
+
+    it('should convert quotes from each stock\'s listing currency', () => {
+      const jpyPerUsd = convertCurrency(1, 'USD', 'JPY');
+      // MSFT listed in yen at the equivalent of $110, AAPL in USD
+      const stocks = [makeStock('MSFT', 110 * jpyPerUsd, 100 * jpyPerUsd, 'JPY'), makeStock('AAPL', 50)];
+      const summary = valuePortfolio(portfolio, positions, stocks, 'USD');
+
+      const msft = summary.positions.find(p => p.symbol === 'MSFT')!;
+      expect(msft.price).toBeCloseTo(110);
+      expect(msft.dayChange).toBeCloseTo(100);
+      expect(summary.marketValue).toBeCloseTo(1600);
+    });
+
+    it('should value positions no longer on the ticker at cost', () => {
+      const summary = valuePortfolio(portfolio, positions, [makeStock('AAPL', 50)], 'USD');
+      const msft = summary.positions.find(p => p.symbol === 'MSFT')!;
+      expect(msft.isPriced).toBe(false);
+      expect(msft.unrealizedPnl).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,165 @@
+import {
+  createPriceModel,
+  validatePriceModel,
+  GbmPriceModel,
+  OrnsteinUhlenbeckPriceModel,
+  JumpDiffusionPriceModel,
+  GarchPriceModel,
+  RealisticPriceModel,
+  DEFAULT_PRICE_MODELS,
+} from '../../utils/priceModels';
+import { createSeededRandom, randomNormal } from '../../utils/random';
+
+describe('PriceModels', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('createPriceModel', () => {
+    it('should create the right implementation for each type', () => {
+      expect(createPriceModel(DEFAULT_PRICE_MODELS.realistic, 100)).toBeInstanceOf(RealisticPriceModel);
+      expect(createPriceModel(DEFAULT_PRICE_MODELS.gbm, 100)).toBeInstanceOf(GbmPriceModel);
+      expect(createPriceModel(DEFAULT_PRICE_MODELS.ornsteinUhlenbeck, 100)).toBeInstanceOf(OrnsteinUhlenbeckPriceModel);
+      expect(createPriceModel(DEFAULT_PRICE_MODELS.jumpDiffusion, 100)).toBeInstanceOf(JumpDiffusionPriceModel);
+      expect(createPriceModel(DEFAULT_PRICE_MODELS.garch, 100)).toBeInstanceOf(GarchPriceModel);
+    });
+
+    it('should keep generated prices positive and rounded for every model', () => {
+      Object.values(DEFAULT_PRICE_MODELS).forEach(config => {
+        const model = createPriceModel(config, 100);
+        let price = 100;
+        for (let i = 0; i < 200; i++) {
+          price = model.next(price, 1);
+          expect(price).toBeGreaterThanOrEqual(0.01);
+          const decimalPlaces = (price.toString().split('.')[1] || '').length;
+          expect(decimalPlaces).toBeLessThanOrEqual(2);
+        }
+      });
+    });
+  });
+
+  describe('seeded randomness', () => {
+    it('should produce identical paths for the same seed', () => {
+      Object.values(DEFAULT_PRICE_MODELS).forEach(config => {
+        const runPath = () => {
+          const model = createPriceModel(config, 100, createSeededRandom(1234));
+          const path: number[] = [];
+          let price = 100;
+          for (let i = 0; i < 50; i++) {
+            price = model.next(price, 1);
+            path.push(price);
+          }
+          return path;
+        };
+        expect(runPath()).toEqual(runPath());
+      });
+    });
+
+    it('should not touch Math.random when given a random source', () => {
+      const spy = jest.spyOn(Math, 'random');
+      const model = createPriceModel(DEFAULT_PRICE_MODELS.jumpDiffusion, 100, createSeededRandom(7));
+      model.next(100, 1);
+      expect(spy).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('GbmPriceModel', () => {
+    it('should follow pure drift when sigma is zero', () => {
+      const model = new GbmPriceModel({ type: 'gbm', drift: 0.01, sigma: 0 });
+      expect(model.next(100, 1)).toBe(Math.round(100 * Math.exp(0.01) * 100) / 100);
+    });
+  });
+
+  describe('OrnsteinUhlenbeckPriceModel', () => {
+    it('should revert towards the mean', () => {
+      const model = new OrnsteinUhlenbeckPriceModel({ type: 'ornsteinUhlenbeck', theta: 0.5, sigma: 0 }, 100);
+      expect(model.next(120, 1)).toBe(110);
+      expect(model.next(80, 1)).toBe(90);
+    });
+
+    it('should use an explicit mean over the reference price', () => {
+      const model = new OrnsteinUhlenbeckPriceModel({ type: 'ornsteinUhlenbeck', mean: 50, theta: 1, sigma: 0 }, 100);
+      expect(model.next(100, 1)).toBe(50);
+    });
+  });
+
+  describe('JumpDiffusionPriceModel', () => {
+    it('should jump when the jump draw succeeds', () => {
+      // Every uniform draw returns 0.5: normals become cos(pi) * sqrt(2 ln 2) and the jump fires
+      const random = () => 0.5;
+      const z = randomNormal(random);
+      const model = new JumpDiffusionPriceModel({
+        type: 'jumpDiffusion',
+        drift: 0,
+        sigma: 0,
+        jumpIntensity: 1000,
+        jumpMean: 0.1,
+        jumpStdDev: 0,
+      }, random);
+      expect(z).toBeLessThan(0);
+      expect(model.next(100, 1)).toBe(Math.round(100 * Math.exp(0.1) * 100) / 100);
+    });
+
+    it('should behave like GBM without jumps', () => {
+      const model = new JumpDiffusionPriceModel({
+        type: 'jumpDiffusion',
+        drift: 0.02,
+        sigma: 0,
+        jumpIntensity: 0,
+        jumpMean: 0.5,
+        jumpStdDev: 0.1,
+      });
+      expect(model.next(100, 1)).toBe(Math.round(100 * Math.exp(0.02) * 100) / 100);
+    });
+  });
+
+  describe('GarchPriceModel', () => {
+    it('should start at the long-run variance', () => {
+      const model = new GarchPriceModel({ type: 'garch', drift: 0, omega: 0.00001, alpha: 0.1, beta: 0.8 });
+      expect(model.getVariance()).toBeCloseTo(0.0001, 10);
+    });
+
+    it('should raise variance after a large shock', () => {
+      // Force an extreme normal draw (u close to zero), then no shock (cos(pi/2) = 0)
+      const draws = [1e-12, 0, 0.25, 0.25];
+      const model = new GarchPriceModel(
+        { type: 'garch', drift: 0, omega: 0.00001, alpha: 0.3, beta: 0.6 },
+        () => draws.shift() ?? 0.25
+      );
+      model.next(100);
+      const varianceAfterShock = model.getVariance();
+      model.next(100);
+      expect(model.getVariance()).toBeGreaterThan(varianceAfterShock);
+    });
+  });
+
+  describe('validatePriceModel', () => {
+    it('should accept all default models', () => {
+      Object.values(DEFAULT_PRICE_MODELS).forEach(config => {
+        expect(validatePriceModel(config).isValid).toBe(true);
+      });
+    });
+
+    it('should reject negative volatility', () => {
+      const result = validatePriceModel({ type: 'gbm', drift: 0, sigma: -1 });
+      expect(result.isValid).toBe(false);
+      expect(result.errorMessage).toContain('sigma');
+    });
+
+    it('should reject non-stationary GARCH parameters', () => {
+      const result = validatePriceModel({ type: 'garch', drift: 0, omega: 0.0001, alpha: 0.5, beta: 0.6 });
+      expect(result.isValid).toBe(false);
+    });
+
+    it('should reject unknown model types', () => {
+      const result = validatePriceModel({ type: 'nope' } as never);
+      expect(result.isValid).toBe(false);
+      expect(result.errorMessage).toContain('Unknown price model');
+    });
+
+    it('should reject NaN parameters', () => {
+      const result = validatePriceModel({ type: 'ornsteinUhlenbeck', theta: NaN, sigma: 0.1 });
+      expect(result.isValid).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,69 @@
+import {
+  createSeededRandom,
+  normalizeSeed,
+  hashSeed,
+  randomNormal,
+  MAX_SEED,
+} from '../../utils/random';
+import { generateFakePriceHistory } from '../../utils/dataGenerator';
+
+describe('Random', () => {
+  const take = (random: () => number, count: number) =>
+    Array.from({ length: count }, () => random());
+
+  describe('createSeededRandom', () => {
+    it('should replay the same sequence for the same seed', () => {
+      expect(take(createSeededRandom(42), 20)).toEqual(take(createSeededRandom(42), 20));
+    });
+
+    it('should produce different sequences for different seeds', () => {
+      expect(take(createSeededRandom(1), 20)).not.toEqual(take(createSeededRandom(2), 20));
+    });
+
+    it('should stay within [0, 1)', () => {
+      take(createSeededRandom('range-check'), 1000).forEach(value => {
+        expect(value).toBeGreaterThanOrEqual(0);
+        expect(value).toBeLessThan(1);
+      });
+    });
+
+    it('should treat numeric strings like numbers', () => {
+      expect(take(createSeededRandom('42'), 5)).toEqual(take(createSeededRandom(42), 5));
+    });
+  });
+
+  describe('normalizeSeed', () => {
+    it('should keep seeds within the 32-bit range', () => {
+      expect(normalizeSeed(MAX_SEED + 1)).toBe(0);
+      expect(normalizeSeed(-5)).toBe(5);
+      expect(normalizeSeed(3.7)).toBe(3);
+    });
+
+    it('should hash text seeds', () => {
+      expect(normalizeSeed('demo')).toBe(hashSeed('demo'));
+      expect(normalizeSeed(' demo ')).toBe(hashSeed('demo'));
+    });
+  });
+
+  describe('randomNormal', () => {
+    it('should have roughly zero mean and unit variance', () => {
+      const random = createSeededRandom(99);
+      const samples = Array.from({ length: 5000 }, () => randomNormal(random));
+      const mean = samples.reduce((sum, x) => sum + x, 0) / samples.length;
+      const variance = samples.reduce((sum, x) => sum + (x - mean) ** 2, 0) / samples.length;
+      expect(Math.abs(mean)).toBeLessThan(0.1);
+      expect(variance).toBeGreaterThan(0.9);
+      expect(variance).toBeLessThan(1.1);
+    });
+  });
+
+  describe('seeded price history', () => {
+    it('should generate identical histories for the same seed', () => {
+      const build = () => generateFakePriceHistory({
+        basePrice: 100,
+        random: createSeededRandom(2024),
+      }).map(point => point.price);
+      expect(build()).toEqual(build());
+    });
+  });
+});
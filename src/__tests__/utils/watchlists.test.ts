@@ -0,0 +1,82 @@
+import {
+  validateWatchlistName,
+  sanitizeWatchlistSymbols,
+  parseWatchlists,
+  getWatchlistStocks,
+  moveItem,
+} from '../../utils/watchlists';
+import { StockInfo } from '../../lib/types';
+
+const makeStock = (symbol: string): StockInfo => ({
+  symbol,
+  name: `${symbol} Corp`,
+  currentPrice: 100,
+  previousPrice: 100,
+  initialPrice: 100,
+  percentChange: 0,
+  lastUpdated: new Date(),
+  priceHistory: [],
+});
+
+describe('Watchlists', () => {
+  describe('validateWatchlistName', () => {
+    it('should accept simple names', () => {
+      expect(validateWatchlistName('Tech').isValid).toBe(true);
+      expect(validateWatchlistName('Demo set A').isValid).toBe(true);
+    });
+
+    it('should reject empty, long or markup names', () => {
+      expect(validateWatchlistName('  ').isValid).toBe(false);
+      expect(validateWatchlistName('x'.repeat(41)).isValid).toBe(false);
+      expect(validateWatchlistName('<script>').isValid).toBe(false);
+    });
+  });
+
+  describe('sanitizeWatchlistSymbols', () => {
+    it('should normalize symbols and drop duplicates and invalid entries', () => {
+      expect(sanitizeWatchlistSymbols(['msft', 'GOOGL', 'MSFT', 42, '', 'brk.b', '^^'])).toEqual(['MSFT', 'GOOGL', 'BRK.B']);
+      expect(sanitizeWatchlistSymbols('MSFT')).toEqual([]);
+    });
+  });
+
+  describe('parseWatchlists', () => {
+    it('should keep valid watchlists and skip malformed or duplicate ones', () => {
+      const parsed = parseWatchlists([
+        { id: 'a', name: ' Tech ', symbols: ['GOOGL', 'MSFT'] },
+        { id: 'a', name: 'Duplicate', symbols: [] },
+        { id: 'b', name: '<b>bad</b>', symbols: [] },
+        { name: 'No id', symbols: [] },
+        null,
+      ]);
+      expect(parsed).toEqual([{ id: 'a', name: 'Tech', symbols: ['GOOGL', 'MSFT'] }]);
+      expect(parseWatchlists({ id: 'a' })).toEqual([]);
+    });
+  });
+
+  describe('getWatchlistStocks', () => {
+    const stocks = ['BNOX', 'GOOGL', 'MSFT'].map(makeStock);
+
+    it('should return all stocks without a watchlist', () => {
+      expect(getWatchlistStocks(stocks)).toBe(stocks);
+    });
+
+    it('should follow the watchlist order and skip missing stocks', () => {
+      const watchlist = { id: 'a', name: 'Tech', symbols: ['MSFT', 'AAPL', 'GOOGL'] };
+      expect(getWatchlistStocks(stocks, watchlist).map(stock => stock.symbol)).toEqual(['MSFT', 'GOOGL']);
+    });
+  });
+
+  describe('moveItem', () => {
+    it('should move an item forward or backward', () => {
+      expect(moveItem(['a', 'b', 'c', 'd'], 0, 2)).toEqual(['b', 'c', 'a', 'd']);
+      expect(moveItem(['a', 'b', 'c', 'd'], 3, 1)).toEqual(['a', 'd', 'b', 'c']);
+    });
+
+    it('should return an unchanged copy for out-of-range moves', () => {
+      const items = ['a', 'b'];
+      const moved = moveItem(items, 5, 0);
+      expect(moved).toEqual(items);
+      expect(moved).not.toBe(items);
+    });
+  });
+});
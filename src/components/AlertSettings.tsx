@@ -0,0 +1,282 @@
+/**
+ * Alert Settings Component
+ *
+ * Creates and manages price alerts: price thresholds, percent moves
+ * and moving-average crossovers, each one-shot or repeating with an
+ * optional cooldown. Also lists the most recent alert firings.
+ */
+
+import React, { useState, FormEvent } from 'react';
+import { AlertEvent, AlertRule, AlertRuleType, Currency, MaCrossoverRule, NewPriceAlert, PriceAlert, ValidationResult } from '../lib/types';
+import { ALERT_RULE_LABELS, DEFAULT_ALERT_RULES, describeAlertRule, validateNewAlert } from '../lib/alertEngine';
+import { isNotificationSupported, requestNotificationPermission } from '../utils/notifications';
+
+interface AlertSettingsProps {
+  symbols: string[];
+  // Listing currency of each symbol, which price thresholds are entered in (USD if missing)
+  currencies?: Record<string, Currency>;
+  alerts: PriceAlert[];
+  events: AlertEvent[];
+  onAdd: (alert: NewPriceAlert) => ValidationResult;
+  onRemove: (id: string) => ValidationResult;
+  onToggle: (id: string, enabled: boolean) => ValidationResult;
+  onClearEvents: () => void;
+}
+
+// Convert a rule into editable string fields (everything except the type)
+const toFields = (rule: AlertRule): Record<string, string> => {
+  const fields: Record<string, string> = rule.type === 'percentChange' ? { windowMinutes: '' } : {};
+  Object.entries(rule).forEach(([key, value]) => {
+    if (key !== 'type') {
+      fields[key] = String(value);
+    }
+  });
+  return fields;
+};
+
+const FIELD_LABELS: Record<string, string> = {
+  percent: 'Percent (negative for a fall)',
+  windowMinutes: 'Window minutes (blank = since start)',
+  fastPeriod: 'Fast SMA period',
+  slowPeriod: 'Slow SMA period',
+  direction: 'Direction',
+};
+
+const AlertSettings: React.FC<AlertSettingsProps> = ({ symbols, currencies = {}, alerts, events, onAdd, onRemove, onToggle, onClearEvents }) => {
+  const [symbol, setSymbol] = useState(symbols[0] ?? '');
+  const currencyOf = (s: string): Currency => currencies[s] ?? 'USD';
+  const [ruleType, setRuleType] = useState<AlertRuleType>('priceAbove');
+  const [fields, setFields] = useState<Record<string, string>>(toFields(DEFAULT_ALERT_RULES.priceAbove));
+  const [repeat, setRepeat] = useState(false);
+  const [cooldown, setCooldown] = useState('60');
+  const [error, setError] = useState('');
+  const [permission, setPermission] = useState<NotificationPermission | 'unsupported'>(
+    isNotificationSupported() ? Notification.permission : 'unsupported'
+  );
+
+  const handleRuleTypeChange = (type: AlertRuleType) => {
+    setRuleType(type);
+    setFields(toFields(DEFAULT_ALERT_RULES[type]));
+    setError('');
+  };
+
+  const handleEnableNotifications = async () => {
+    setPermission(await requestNotificationPermission());
+  };
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+
+    const rule: Record<string, string | number> = { type: ruleType };
+    for (const [key, value] of Object.entries(fields)) {
+      if (key === 'direction') {
+        rule[key] = value;
+      } else if (value.trim() !== '') {
+        rule[key] = parseFloat(value);
+      }
+    }
+
+    const alert: NewPriceAlert = {
+      symbol: symbol || symbols[0] || '',
+      rule: rule as unknown as AlertRule,
+      repeat,
+      cooldownSeconds: repeat ? parseInt(cooldown, 10) : 0,
+    };
+
+    const validation = validateNewAlert(alert);
+    if (!validation.isValid) {
+      setError(validation.errorMessage || 'Invalid alert');
+      return;
+    }
+
+    const result = onAdd(alert);
+    if (!result.isValid) {
+      setError(result.errorMessage || 'Unable to add alert');
+      return;
+    }
+    setError('');
+
+    // Adding an alert is a user gesture, so this is a good moment to ask
+    if (permission === 'default') {
+      handleEnableNotifications();
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      {/* Browser notification permission */}
+      <div className="flex items-center justify-between bg-gray-800 p-3 rounded-md border border-gray-700 text-sm">
+        <span className="text-gray-300">
+          Browser notifications:{' '}
+          <span className={permission === 'granted' ? 'text-green-400' : 'text-gray-400'}>
+            {permission === 'unsupported' ? 'not supported' : permission === 'granted' ? 'on' : permission === 'denied' ? 'blocked' : 'off'}
+          </span>
+        </span>
+        {permission === 'default' && (
+          <button
+            type="button"
+            onClick={handleEnableNotifications}
+            className="py-1 px-3 bg-gray-700 hover:bg-gray-600 text-white rounded-md transition-colors text-xs"
+          >
+            Enable
+          </button>
+        )}
+      </div>
+
+      {/* New alert form */}
+      <form onSubmit={handleSubmit} className="space-y-2">
+        {error && (
+          <div className="p-2 bg-red-900 text-red-100 text-sm rounded-md">
+            {error}
+          </div>
+        )}
+
+        <div className="grid grid-cols-2 gap-2">
+          <select
+            value={symbol}
+            onChange={(e) => setSymbol(e.target.value)}
+            aria-label="Alert stock"
+            className="w-full p-2 border border-gray-700 rounded-md bg-black text-white text-sm"
+          >
+            {symbols.map(s => (
+              <option key={s} value={s}>{s}</option>
+            ))}
+          </select>
+          <select
+            value={ruleType}
+            onChange={(e) => handleRuleTypeChange(e.target.value as AlertRuleType)}
+            aria-label="Alert rule"
+            className="w-full p-2 border border-gray-700 rounded-md bg-black text-white text-sm"
+          >
+            {(Object.keys(ALERT_RULE_LABELS) as AlertRuleType[]).map(type => (
+              <option key={type} value={type}>{ALERT_RULE_LABELS[type]}</option>
+            ))}
+          </select>
+        </div>
+
+        <div className="grid grid-cols-2 gap-2">
+          {Object.keys(fields).map(name => (
+            <div key={name}>
+              <label htmlFor={`alert-${name}`} className="block text-xs font-medium text-gray-400 mb-1">
+                {name === 'price' ? `Price (${currencyOf(symbol || symbols[0] || '')})` : FIELD_LABELS[name] ?? name}
+              </label>
+              {name === 'direction' ? (
+                <select
+                  id={`alert-${name}`}
+                  value={fields[name]}
+                  onChange={(e) => setFields(prev => ({ ...prev, [name]: e.target.value as MaCrossoverRule['direction'] }))}
+                  className="w-full p-1 border border-gray-700 rounded-md bg-black text-white text-sm"
+                >
+                  <option value="either">Either way</option>
+                  <option value="bullish">Bullish (fast crosses above)</option>
+                  <option value="bearish">Bearish (fast crosses below)</option>
+                </select>
+              ) : (
+                <input
+                  id={`alert-${name}`}
+                  type="number"
+                  step="any"
+                  value={fields[name]}
+                  onChange={(e) => setFields(prev => ({ ...prev, [name]: e.target.value }))}
+                  className="w-full p-1 border border-gray-700 rounded-md bg-black text-white text-sm"
+                />
+              )}
+            </div>
+          ))}
+        </div>
+
+        <div className="flex items-center gap-4 text-sm">
+          <label className="flex items-center gap-2 text-gray-300">
+            <input type="checkbox" checked={repeat} onChange={(e) => setRepeat(e.target.checked)} />
+            Repeat
+          </label>
+          {repeat && (
+            <label className="flex items-center gap-2 text-gray-300">
+              Cooldown
+              <input
+                type="number"
+                min="0"
+                value={cooldown}
+                onChange={(e) => setCooldown(e.target.value)}
+                className="w-20 p-1 border border-gray-700 rounded-md bg-black text-white text-sm"
+              />
+              s
+            </label>
+          )}
+        </div>
+
+        <button
+          type="submit"
+          disabled={symbols.length === 0}
+          className="w-full py-1 px-3 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-700 text-white rounded-md transition-colors font-medium text-sm"
+        >
+          Add Alert
+        </button>
+      </form>
+
+      {/* Existing alerts */}
+      {alerts.length === 0 ? (
+        <p className="text-sm text-gray-400">No alerts yet.</p>
+      ) : (
+        <ul className="space-y-2">
+          {alerts.map(alert => (
+            <li
+              key={alert.id}
+              className={`flex items-center justify-between gap-2 p-2 rounded-md border text-sm ${
+                alert.enabled ? 'border-gray-700 bg-gray-800' : 'border-gray-800 bg-gray-900 text-gray-500'
+              }`}
+            >
+              <div>
+                <span className="font-mono font-bold">{alert.symbol}</span>{' '}
+                {describeAlertRule(alert.rule, currencyOf(alert.symbol))}
+                <div className="text-xs text-gray-400">
+                  {alert.repeat ? `Repeats${alert.cooldownSeconds > 0 ? `, ${alert.cooldownSeconds}s cooldown` : ''}` : 'One-shot'}
+                  {' · '}fired {alert.triggerCount}×
+                </div>
+              </div>
+              <div className="flex items-center gap-2">
+                <button
+                  type="button"
+                  onClick={() => onToggle(alert.id, !alert.enabled)}
+                  className="py-1 px-2 bg-gray-700 hover:bg-gray-600 text-white rounded-md transition-colors text-xs"
+                >
+                  {alert.enabled ? 'Disable' : 'Enable'}
+                </button>
+                <button
+                  type="button"
+                  onClick={() => onRemove(alert.id)}
+                  className="text-gray-500 hover:text-red-400"
+                  aria-label={`Remove alert on ${alert.symbol}`}
+                >
+                  ✕
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {/* Recent firings */}
+      {events.length > 0 && (
+        <div>
+          <div className="flex items-center justify-between mb-1">
+            <h4 className="text-sm font-medium text-gray-300">Recent Alerts</h4>
+            <button type="button" onClick={onClearEvents} className="text-xs text-gray-400 hover:text-white">
+              Clear
+            </button>
+          </div>
+          <ul className="space-y-1 text-xs text-gray-400 max-h-40 overflow-y-auto">
+            {events.map(event => (
+              <li key={event.id}>
+                <span className="text-gray-500">{new Date(event.timestamp).toLocaleTimeString()}</span>{' '}
+                {event.message}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AlertSettings;
@@ -0,0 +1,71 @@
+/**
+ * Alert Toasts Component
+ *
+ * Shows an in-app toast for each price alert that fires while the
+ * app is open. Toasts hide themselves after a few seconds; the full
+ * list of recent firings stays on the controls page.
+ */
+
+import React, { useEffect, useState } from 'react';
+import { useTickerContext } from '../lib/context';
+
+const TOAST_DURATION_MS = 8000;
+const MAX_VISIBLE_TOASTS = 4;
+
+const AlertToasts: React.FC = () => {
+  const { tickerState } = useTickerContext();
+  const [dismissed, setDismissed] = useState<Set<string>>(new Set());
+  const [now, setNow] = useState(Date.now());
+
+  const visible = tickerState.alertEvents
+    .filter(event => !dismissed.has(event.id) && now - event.timestamp < TOAST_DURATION_MS)
+    .slice(0, MAX_VISIBLE_TOASTS);
+
+  // Re-render while toasts are showing so they expire on time
+  useEffect(() => {
+    if (visible.length === 0) return;
+    const timer = setTimeout(() => setNow(Date.now()), 1000);
+    return () => clearTimeout(timer);
+  }, [visible.length, now]);
+
+  // A new event may arrive while no timer is running
+  useEffect(() => {
+    setNow(Date.now());
+  }, [tickerState.alertEvents]);
+
+  const dismiss = (id: string) => {
+    setDismissed(prev => new Set(prev).add(id));
+  };
+
+  if (visible.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="fixed bottom-4 right-4 z-50 space-y-2 w-80" role="status" aria-live="polite">
+      {visible.map(event => (
+        <div
+          key={event.id}
+          className="bg-gray-900 border border-yellow-500 text-gray-100 px-4 py-3 rounded-md shadow-lg"
+        >
+          <div className="flex items-start justify-between gap-3">
+            <div>
+              <div className="text-xs font-semibold text-yellow-400 uppercase tracking-wide">🔔 Price Alert</div>
+              <div className="text-sm mt-1">{event.message}</div>
+              <div className="text-xs text-gray-500 mt-1">{new Date(event.timestamp).toLocaleTimeString()}</div>
+            </div>
+            <button
+              onClick={() => dismiss(event.id)}
+              className="text-gray-400 hover:text-white"
+              aria-label="Dismiss alert"
+            >
+              ×
+            </button>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default AlertToasts;
@@ -0,0 +1,95 @@
+/**
+ * Command History Component
+ *
+ * Undo and redo buttons for control-panel actions, with the history of
+ * recorded actions: undone ones, which can be redone, are shown dimmed above
+ * the ones in effect. Ctrl+Z undoes and Ctrl+Shift+Z redoes (Cmd on macOS),
+ * except while typing in a text field, which keeps its own undo.
+ */
+
+import React, { useEffect } from 'react';
+import { CommandLog } from '../lib/types';
+
+interface CommandHistoryProps {
+  commandLog: CommandLog;
+  onUndo: () => void;
+  onRedo: () => void;
+}
+
+const TEXT_INPUT_TYPES = ['text', 'number', 'search', 'email', 'password', 'url', 'tel', 'date', 'time'];
+
+const isTextField = (target: EventTarget | null): boolean => {
+  if (!(target instanceof HTMLElement)) return false;
+  if (target.isContentEditable || target.tagName === 'TEXTAREA') return true;
+  return target instanceof HTMLInputElement && TEXT_INPUT_TYPES.includes(target.type);
+};
+
+const CommandHistory: React.FC<CommandHistoryProps> = ({ commandLog, onUndo, onRedo }) => {
+  const { done, undone } = commandLog;
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || event.altKey || event.key.toLowerCase() !== 'z' || isTextField(event.target)) {
+        return;
+      }
+      event.preventDefault();
+      if (event.shiftKey) {
+        onRedo();
+      } else {
+        onUndo();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onUndo, onRedo]);
+
+  return (
+    <div className="bg-gray-900 p-4 rounded-lg border border-gray-700">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="font-medium">History</h3>
+        <div className="flex gap-2">
+          <button
+            onClick={onUndo}
+            disabled={done.length === 0}
+            className="px-3 py-1 text-sm rounded-md bg-gray-700 hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed"
+            title="Undo (Ctrl+Z)"
+          >
+            ↶ Undo
+          </button>
+          <button
+            onClick={onRedo}
+            disabled={undone.length === 0}
+            className="px-3 py-1 text-sm rounded-md bg-gray-700 hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed"
+            title="Redo (Ctrl+Shift+Z)"
+          >
+            ↷ Redo
+          </button>
+        </div>
+      </div>
+
+      {done.length === 0 && undone.length === 0 ? (
+        <p className="text-sm text-gray-400">Price changes, added or removed stocks, and interval or currency changes show up here.</p>
+      ) : (
+        <ul className="space-y-1 max-h-48 overflow-y-auto text-sm">
+          {undone.map(entry => (
+            <li key={entry.id} className="flex justify-between gap-2 px-2 py-1 rounded text-gray-500 line-through">
+              <span>{entry.label}</span>
+              <span>{new Date(entry.recordedAt).toLocaleTimeString()}</span>
+            </li>
+          ))}
+          {[...done].reverse().map((entry, index) => (
+            <li
+              key={entry.id}
+              className={`flex justify-between gap-2 px-2 py-1 rounded ${index === 0 ? 'bg-gray-800 text-white' : 'text-gray-300'}`}
+            >
+              <span>{entry.label}</span>
+              <span className="text-gray-500">{new Date(entry.recordedAt).toLocaleTimeString()}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default CommandHistory;
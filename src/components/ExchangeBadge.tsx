@@ -0,0 +1,41 @@
+/**
+ * Exchange Badge Component
+ *
+ * Small tag with the exchange a stock is listed on, plus its instrument
+ * type when it is not a plain equity. Renders nothing when neither is known.
+ */
+
+import React from 'react';
+import { EXCHANGES, INSTRUMENT_TYPES, StockInfo, getInstrumentType } from '../lib/types';
+
+interface ExchangeBadgeProps {
+  stock: Pick<StockInfo, 'exchange' | 'instrumentType'>;
+  className?: string;
+}
+
+const ExchangeBadge: React.FC<ExchangeBadgeProps> = ({ stock, className = '' }) => {
+  const instrumentType = getInstrumentType(stock);
+  const exchange = stock.exchange ? EXCHANGES[stock.exchange] : undefined;
+  const typeLabel = INSTRUMENT_TYPES[instrumentType].label;
+
+  // The exchange already says it for crypto and FX
+  const showType = instrumentType !== 'equity' && stock.exchange !== 'CRYPTO' && stock.exchange !== 'FX';
+  if (!exchange && !showType) {
+    return null;
+  }
+
+  const title = [exchange?.name, typeLabel].filter(Boolean).join(' · ');
+
+  return (
+    <span
+      className={`inline-flex items-center gap-1 px-1.5 py-0.5 rounded border border-gray-600 bg-gray-800 text-gray-300 text-[10px] font-medium uppercase tracking-wide ${className}`}
+      title={title}
+    >
+      {stock.exchange}
+      {stock.exchange && showType && <span className="text-gray-500">·</span>}
+      {showType && typeLabel}
+    </span>
+  );
+};
+
+export default ExchangeBadge;
@@ -0,0 +1,73 @@
+/**
+ * Format Settings Component
+ *
+ * Chooses the locale used to display prices and numbers (grouping,
+ * decimal separator and currency symbol placement) and whether large
+ * amounts are abbreviated, with a live preview.
+ */
+
+import React, { useState } from 'react';
+import {
+  COMPACT_AMOUNT_THRESHOLD,
+  Currency,
+  FORMAT_LOCALES,
+  FormatPreferences,
+  ValidationResult,
+  formatPrice,
+} from '../lib/types';
+
+interface FormatSettingsProps {
+  preferences: FormatPreferences;
+  currency: Currency;
+  onChange: (preferences: FormatPreferences) => ValidationResult;
+}
+
+const PREVIEW_AMOUNT = 1234567.891;
+
+const FormatSettings: React.FC<FormatSettingsProps> = ({ preferences, currency, onChange }) => {
+  const [error, setError] = useState('');
+
+  const handleChange = (next: FormatPreferences) => {
+    const result = onChange(next);
+    setError(result.isValid ? '' : result.errorMessage || 'Unable to change display preferences');
+  };
+
+  return (
+    <div className="space-y-2">
+      {error && <div className="p-2 bg-red-900 text-red-100 text-sm rounded-md">{error}</div>}
+
+      <div>
+        <label htmlFor="format-locale" className="block text-xs font-medium text-gray-400 mb-1">Locale</label>
+        <select
+          id="format-locale"
+          value={preferences.locale}
+          onChange={(e) => handleChange({ ...preferences, locale: e.target.value })}
+          className="w-full p-2 border border-gray-700 rounded-md bg-black text-white text-sm"
+        >
+          {/* Keep a restored locale that is not in the list selectable */}
+          {!(preferences.locale in FORMAT_LOCALES) && <option value={preferences.locale}>{preferences.locale}</option>}
+          {Object.entries(FORMAT_LOCALES).map(([locale, label]) => (
+            <option key={locale} value={locale}>{label}{locale && ` (${locale})`}</option>
+          ))}
+        </select>
+      </div>
+
+      <label className="flex items-center gap-2 text-sm text-gray-300">
+        <input
+          type="checkbox"
+          checked={preferences.compactLargeAmounts}
+          onChange={(e) => handleChange({ ...preferences, compactLargeAmounts: e.target.checked })}
+        />
+        Abbreviate amounts of {formatPrice(COMPACT_AMOUNT_THRESHOLD, 'USD', 0, undefined, { compact: false })} and above
+      </label>
+
+      <div className="text-xs text-gray-400 bg-gray-800 p-2 rounded">
+        Preview: <span className="font-mono text-gray-200">{formatPrice(PREVIEW_AMOUNT, currency)}</span>
+        {' · '}
+        <span className="font-mono text-gray-200">{formatPrice(PREVIEW_AMOUNT, currency, 2, undefined, { compact: true })}</span>
+      </div>
+    </div>
+  );
+};
+
+export default FormatSettings;
@@ -0,0 +1,193 @@
+/**
+ * Indicator Settings Component
+ *
+ * Lets traders choose the technical indicators shown on a
+ * stock's chart and tune each indicator's parameters.
+ */
+
+import React, { useEffect, useState, FormEvent } from 'react';
+import { StockInfo, IndicatorConfig, IndicatorType, ValidationResult } from '../lib/types';
+import { DEFAULT_INDICATORS, INDICATOR_LABELS, getIndicatorLabel, validateIndicator } from '../utils/indicators';
+
+interface IndicatorSettingsProps {
+  stock: StockInfo;
+  onApply: (symbol: string, indicators: IndicatorConfig[]) => ValidationResult;
+}
+
+// Convert an indicator config into editable string fields (everything except the type)
+const toFields = (config: IndicatorConfig): Record<string, string> => {
+  const fields: Record<string, string> = {};
+  Object.entries(config).forEach(([key, value]) => {
+    if (key !== 'type') {
+      fields[key] = String(value);
+    }
+  });
+  return fields;
+};
+
+const IndicatorSettings: React.FC<IndicatorSettingsProps> = ({ stock, onApply }) => {
+  const indicators = stock.indicators ?? [];
+  const [indicatorType, setIndicatorType] = useState<IndicatorType>('sma');
+  const [fields, setFields] = useState<Record<string, string>>(toFields(DEFAULT_INDICATORS.sma));
+  const [editingIndex, setEditingIndex] = useState<number | null>(null);
+  const [error, setError] = useState('');
+
+  // Reset the form when switching to a different stock
+  useEffect(() => {
+    setIndicatorType('sma');
+    setFields(toFields(DEFAULT_INDICATORS.sma));
+    setEditingIndex(null);
+    setError('');
+  }, [stock.symbol]); // Only depend on the symbol, not on every price tick
+
+  const handleTypeChange = (type: IndicatorType) => {
+    setIndicatorType(type);
+    setFields(toFields(DEFAULT_INDICATORS[type]));
+    setError('');
+  };
+
+  const apply = (next: IndicatorConfig[]): boolean => {
+    const result = onApply(stock.symbol, next);
+    if (!result.isValid) {
+      setError(result.errorMessage || 'Invalid indicator');
+      return false;
+    }
+    setError('');
+    return true;
+  };
+
+  const handleEdit = (index: number) => {
+    const config = indicators[index];
+    setEditingIndex(index);
+    setIndicatorType(config.type);
+    setFields(toFields(config));
+    setError('');
+  };
+
+  const handleCancelEdit = () => {
+    setEditingIndex(null);
+    handleTypeChange(indicatorType);
+  };
+
+  const handleRemove = (index: number) => {
+    // Positions shift after a removal, so stop any edit in progress
+    if (apply(indicators.filter((_, i) => i !== index))) {
+      setEditingIndex(null);
+    }
+  };
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+
+    const config: Record<string, string | number> = { type: indicatorType };
+    for (const [key, value] of Object.entries(fields)) {
+      config[key] = parseFloat(value);
+    }
+    const indicator = config as unknown as IndicatorConfig;
+
+    const validation = validateIndicator(indicator);
+    if (!validation.isValid) {
+      setError(validation.errorMessage || 'Invalid indicator');
+      return;
+    }
+
+    const next = editingIndex === null
+      ? [...indicators, indicator]
+      : indicators.map((existing, i) => (i === editingIndex ? indicator : existing));
+    if (apply(next)) {
+      setEditingIndex(null);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      {error && (
+        <div className="p-2 bg-red-900 text-red-100 text-sm rounded-md">
+          {error}
+        </div>
+      )}
+
+      {/* Active indicators */}
+      {indicators.length === 0 ? (
+        <p className="text-sm text-gray-400">No indicators on {stock.symbol} yet.</p>
+      ) : (
+        <div className="flex flex-wrap gap-2">
+          {indicators.map((indicator, index) => (
+            <div
+              key={`${getIndicatorLabel(indicator)}-${index}`}
+              className={`flex items-center gap-1 px-2 py-1 rounded-md text-xs border ${
+                editingIndex === index ? 'border-blue-500 bg-blue-900' : 'border-gray-700 bg-gray-800'
+              }`}
+            >
+              <button type="button" onClick={() => handleEdit(index)} className="text-gray-200 hover:text-white">
+                {getIndicatorLabel(indicator)}
+              </button>
+              <button
+                type="button"
+                onClick={() => handleRemove(index)}
+                className="text-gray-500 hover:text-red-400"
+                aria-label={`Remove ${getIndicatorLabel(indicator)}`}
+              >
+                ✕
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Add or edit form */}
+      <form onSubmit={handleSubmit} className="space-y-2">
+        <select
+          value={indicatorType}
+          onChange={(e) => handleTypeChange(e.target.value as IndicatorType)}
+          disabled={editingIndex !== null}
+          className="w-full p-2 border border-gray-700 rounded-md bg-black text-white text-sm"
+        >
+          {(Object.keys(INDICATOR_LABELS) as IndicatorType[]).map(type => (
+            <option key={type} value={type}>
+              {INDICATOR_LABELS[type]}
+            </option>
+          ))}
+        </select>
+
+        <div className="grid grid-cols-3 gap-2">
+          {Object.keys(fields).map(name => (
+            <div key={name}>
+              <label htmlFor={`indicator-${name}`} className="block text-xs font-medium text-gray-400 mb-1">
+                {name}
+              </label>
+              <input
+                id={`indicator-${name}`}
+                type="number"
+                step="any"
+                value={fields[name]}
+                onChange={(e) => setFields(prev => ({ ...prev, [name]: e.target.value }))}
+                className="w-full p-1 border border-gray-700 rounded-md bg-black text-white text-sm"
+              />
+            </div>
+          ))}
+        </div>
+
+        <div className="flex gap-2">
+          <button
+            type="submit"
+            className="flex-1 py-1 px-3 bg-blue-600 hover:bg-blue-700 text-white rounded-md transition-colors font-medium text-sm"
+          >
+            {editingIndex === null ? 'Add Indicator' : 'Update Indicator'}
+          </button>
+          {editingIndex !== null && (
+            <button
+              type="button"
+              onClick={handleCancelEdit}
+              className="py-1 px-3 bg-gray-700 hover:bg-gray-600 text-white rounded-md transition-colors text-sm"
+            >
+              Cancel
+            </button>
+          )}
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default IndicatorSettings;
@@ -0,0 +1,152 @@
+/**
+ * Indicator Sub-Panel Component
+ *
+ * Draws an oscillator (RSI, MACD) below the price chart, sharing its
+ * x-axis labels and value-axis width so both panels line up, and
+ * mirroring hover highlights with the price chart.
+ */
+
+import React, { useEffect, useRef } from 'react';
+import { Chart as ChartJS, ChartDataset } from 'chart.js';
+import { IndicatorSeries } from '../utils/indicators';
+import { CHART_VALUE_AXIS_WIDTH, syncHoverIndex } from '../utils/chartSync';
+
+interface IndicatorSubPanelProps {
+  series: IndicatorSeries;
+  labels: string[];
+  showGrid?: boolean;
+  hoverIndex?: number | null; // Index hovered on a sibling chart (undefined while this panel is hovered)
+  onHover: (index: number | null) => void;
+}
+
+const IndicatorSubPanel: React.FC<IndicatorSubPanelProps> = ({ series, labels, showGrid = true, hoverIndex, onHover }) => {
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  const chartRef = useRef<ChartJS | null>(null);
+
+  // Keep the latest hover callback without recreating the chart
+  const onHoverRef = useRef(onHover);
+  onHoverRef.current = onHover;
+
+  useEffect(() => {
+    if (!canvasRef.current) return;
+
+    const datasets: ChartDataset<'line' | 'bar'>[] = series.lines.map(line => (
+      line.style === 'histogram'
+        ? {
+            type: 'bar',
+            label: line.label,
+            data: line.values,
+            backgroundColor: line.values.map(value => (value ?? 0) >= 0 ? 'rgba(0, 255, 136, 0.5)' : 'rgba(255, 68, 68, 0.5)'),
+            borderWidth: 0,
+            order: 2,
+            yAxisID: 'value',
+          }
+        : {
+            type: 'line',
+            label: line.label,
+            data: line.values,
+            borderColor: line.color,
+            borderWidth: 1.5,
+            borderDash: line.style === 'dashed' ? [4, 4] : [],
+            pointRadius: 0,
+            pointHoverRadius: 3,
+            tension: 0,
+            fill: false,
+            order: 1,
+            yAxisID: 'value',
+          }
+    ));
+
+    // Reference levels such as RSI 30/70
+    series.range?.guides.forEach(guide => {
+      datasets.push({
+        type: 'line',
+        label: `Level ${guide}`,
+        data: Array(labels.length).fill(guide),
+        borderColor: 'rgba(255, 255, 255, 0.25)',
+        borderWidth: 1,
+        borderDash: [6, 4],
+        pointRadius: 0,
+        pointHoverRadius: 0,
+        fill: false,
+        order: 3,
+        yAxisID: 'value',
+      });
+    });
+
+    try {
+      chartRef.current = new ChartJS(canvasRef.current, {
+        type: 'line',
+        data: { labels, datasets },
+        options: {
+          responsive: true,
+          maintainAspectRatio: false,
+          animation: false,
+          interaction: { intersect: false, mode: 'index' },
+          layout: { padding: { left: 20, right: 20, top: 4, bottom: 4 } },
+          onHover: (_event, elements) => onHoverRef.current(elements[0]?.index ?? null),
+          scales: {
+            x: {
+              type: 'category',
+              grid: { display: showGrid, color: 'rgba(255, 255, 255, 0.1)' },
+              ticks: { display: false }, // Time labels are shown on the price chart
+              border: { display: false },
+            },
+            value: {
+              type: 'linear',
+              position: 'right',
+              min: series.range?.min,
+              max: series.range?.max,
+              grid: { display: showGrid, color: 'rgba(255, 255, 255, 0.1)' },
+              ticks: {
+                color: 'rgba(255, 255, 255, 0.7)',
+                font: { size: 10, family: "'Inter', 'system-ui', sans-serif" },
+                maxTicksLimit: 4,
+              },
+              border: { display: false },
+              afterFit: (scale) => {
+                scale.width = CHART_VALUE_AXIS_WIDTH;
+              },
+            },
+          },
+          plugins: {
+            legend: { display: false },
+            tooltip: {
+              backgroundColor: 'rgba(0, 0, 0, 0.8)',
+              displayColors: false,
+              filter: (item) => !String(item.dataset.label).startsWith('Level '),
+              callbacks: {
+                label: (context) => `${context.dataset.label}: ${context.parsed.y.toFixed(2)}`,
+              },
+            },
+          },
+        },
+      });
+    } catch (error) {
+      console.error('Error creating indicator chart:', error);
+    }
+
+    return () => {
+      chartRef.current?.destroy();
+      chartRef.current = null;
+    };
+  }, [series, labels, showGrid]);
+
+  // Mirror hovers from the price chart
+  useEffect(() => {
+    if (chartRef.current && hoverIndex !== undefined) {
+      syncHoverIndex(chartRef.current, hoverIndex);
+    }
+  }, [hoverIndex]);
+
+  return (
+    <div className="relative h-full">
+      <span className="absolute top-1 left-6 text-xs font-medium text-gray-400 pointer-events-none">
+        {series.label}
+      </span>
+      <canvas ref={canvasRef} style={{ display: 'block', width: '100%', height: '100%' }} />
+    </div>
+  );
+};
+
+export default IndicatorSubPanel;
@@ -0,0 +1,227 @@
+/**
+ * Order Panel Component
+ *
+ * Paper-trading order entry (market, limit, stop and stop-limit) and a
+ * blotter of working and closed orders with their fills. Prices are
+ * entered and shown in the selected currency.
+ */
+
+import React, { useState, FormEvent } from 'react';
+import { useTickerContext } from '../lib/context';
+import { usePortfolioContext } from '../lib/portfolioContext';
+import { NewOrder, Order, OrderStatus, OrderType, TradeSide, convertCurrency, formatPrice, getStockCurrency } from '../lib/types';
+import { ORDER_TYPE_LABELS, describeOrder, validateNewOrder } from '../lib/orderEngine';
+
+const STATUS_CLASSES: Record<OrderStatus, string> = {
+  open: 'bg-blue-900 text-blue-100',
+  filled: 'bg-green-900 text-green-100',
+  cancelled: 'bg-gray-700 text-gray-300',
+  rejected: 'bg-red-900 text-red-100',
+};
+
+const OrderPanel: React.FC = () => {
+  const { tickerState } = useTickerContext();
+  const { portfolio, placeOrder, cancelOrder, clearClosedOrders } = usePortfolioContext();
+  const { stocks, selectedStock, selectedCurrency } = tickerState;
+
+  const [symbol, setSymbol] = useState(selectedStock ?? '');
+  const [side, setSide] = useState<TradeSide>('buy');
+  const [type, setType] = useState<OrderType>('market');
+  const [quantity, setQuantity] = useState('10');
+  const [limitPrice, setLimitPrice] = useState('');
+  const [stopPrice, setStopPrice] = useState('');
+  const [error, setError] = useState('');
+
+  const orderSymbol = stocks.some(stock => stock.symbol === symbol) ? symbol : stocks[0]?.symbol ?? '';
+  const orderStock = stocks.find(stock => stock.symbol === orderSymbol);
+  const showLimit = type === 'limit' || type === 'stopLimit';
+  const showStop = type === 'stop' || type === 'stopLimit';
+
+  // Order prices are kept in USD, like trades
+  const toUsd = (value: string) => value.trim() === '' ? undefined : convertCurrency(parseFloat(value), selectedCurrency, 'USD');
+  const money = (usd?: number) => usd === undefined ? '—' : formatPrice(usd, selectedCurrency, 2, 'USD');
+
+  // Newest first
+  const orders = [...portfolio.orders].reverse();
+  const openCount = orders.filter(order => order.status === 'open').length;
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+
+    const order: NewOrder = {
+      symbol: orderSymbol,
+      side,
+      type,
+      quantity: parseInt(quantity, 10),
+      limitPrice: showLimit ? toUsd(limitPrice) : undefined,
+      stopPrice: showStop ? toUsd(stopPrice) : undefined,
+    };
+
+    const validation = validateNewOrder(order);
+    if (!validation.isValid) {
+      setError(validation.errorMessage || 'Invalid order');
+      return;
+    }
+
+    const result = placeOrder(order);
+    setError(result.isValid ? '' : result.errorMessage || 'Unable to place order');
+  };
+
+  const handleCancel = (order: Order) => {
+    const result = cancelOrder(order.id);
+    setError(result.isValid ? '' : result.errorMessage || 'Unable to cancel order');
+  };
+
+  const statusDetail = (order: Order) => {
+    if (order.status === 'filled') {
+      return `@ ${money(order.fillPrice)}`;
+    }
+    if (order.status === 'rejected') {
+      return order.rejectReason;
+    }
+    if (order.status === 'open' && order.type === 'stopLimit' && order.triggered) {
+      return 'Stop reached, working limit';
+    }
+    return '';
+  };
+
+  return (
+    <div className="bg-black rounded-lg shadow-md p-4 border border-gray-700 space-y-4">
+      <h3 className="text-lg font-semibold text-white">Orders</h3>
+
+      {/* Order entry */}
+      <form onSubmit={handleSubmit} className="space-y-2 text-sm">
+        <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+          <select
+            value={orderSymbol}
+            onChange={(e) => setSymbol(e.target.value)}
+            aria-label="Order stock"
+            className="p-2 border border-gray-700 rounded-md bg-black text-white"
+          >
+            {stocks.map(stock => (
+              <option key={stock.symbol} value={stock.symbol}>{stock.symbol}</option>
+            ))}
+          </select>
+          <select
+            value={side}
+            onChange={(e) => setSide(e.target.value as TradeSide)}
+            aria-label="Order side"
+            className="p-2 border border-gray-700 rounded-md bg-black text-white"
+          >
+            <option value="buy">Buy</option>
+            <option value="sell">Sell</option>
+          </select>
+          <select
+            value={type}
+            onChange={(e) => setType(e.target.value as OrderType)}
+            aria-label="Order type"
+            className="p-2 border border-gray-700 rounded-md bg-black text-white"
+          >
+            {(Object.keys(ORDER_TYPE_LABELS) as OrderType[]).map(t => (
+              <option key={t} value={t}>{ORDER_TYPE_LABELS[t]}</option>
+            ))}
+          </select>
+          <input
+            type="number"
+            min="1"
+            step="1"
+            value={quantity}
+            onChange={(e) => setQuantity(e.target.value)}
+            aria-label="Order quantity"
+            placeholder="Shares"
+            className="p-2 border border-gray-700 rounded-md bg-black text-white"
+          />
+        </div>
+
+        {(showStop || showLimit) && (
+          <div className="grid grid-cols-2 gap-2">
+            {showStop && (
+              <input
+                type="number"
+                step="any"
+                value={stopPrice}
+                onChange={(e) => setStopPrice(e.target.value)}
+                aria-label="Stop price"
+                placeholder={`Stop price (${selectedCurrency})`}
+                className="p-2 border border-gray-700 rounded-md bg-black text-white"
+              />
+            )}
+            {showLimit && (
+              <input
+                type="number"
+                step="any"
+                value={limitPrice}
+                onChange={(e) => setLimitPrice(e.target.value)}
+                aria-label="Limit price"
+                placeholder={`Limit price (${selectedCurrency})`}
+                className="p-2 border border-gray-700 rounded-md bg-black text-white"
+              />
+            )}
+          </div>
+        )}
+
+        <div className="flex items-center justify-between gap-2">
+          <span className="text-gray-400">
+            {orderStock && <>Last {formatPrice(orderStock.currentPrice, selectedCurrency, 2, getStockCurrency(orderStock))}</>}
+          </span>
+          <button
+            type="submit"
+            disabled={!orderStock}
+            className={`py-2 px-4 text-white rounded-md transition-colors font-medium disabled:bg-gray-700 ${
+              side === 'buy' ? 'bg-green-700 hover:bg-green-600' : 'bg-red-700 hover:bg-red-600'
+            }`}
+          >
+            Place {side === 'buy' ? 'Buy' : 'Sell'} Order
+          </button>
+        </div>
+      </form>
+
+      {error && <div className="p-2 bg-red-900 text-red-100 text-sm rounded-md">{error}</div>}
+
+      {/* Blotter */}
+      <div>
+        <div className="flex items-center justify-between mb-2">
+          <h4 className="text-sm font-medium text-gray-300">Blotter ({openCount} working)</h4>
+          {orders.length > openCount && (
+            <button type="button" onClick={clearClosedOrders} className="text-xs text-gray-400 hover:text-white">
+              Clear closed
+            </button>
+          )}
+        </div>
+
+        {orders.length === 0 ? (
+          <p className="text-sm text-gray-400">No orders yet.</p>
+        ) : (
+          <ul className="space-y-1 text-sm max-h-80 overflow-y-auto">
+            {orders.map(order => (
+              <li key={order.id} className="flex items-center justify-between gap-2 p-2 rounded-md border border-gray-800 bg-gray-900">
+                <div>
+                  <div className="text-gray-200">{describeOrder(order, selectedCurrency)}</div>
+                  <div className="text-xs text-gray-500">
+                    {new Date(order.filledAt ?? order.createdAt).toLocaleTimeString()}
+                    {statusDetail(order) && <> · {statusDetail(order)}</>}
+                  </div>
+                </div>
+                <div className="flex items-center gap-2">
+                  <span className={`text-xs px-2 py-0.5 rounded-full ${STATUS_CLASSES[order.status]}`}>{order.status}</span>
+                  {order.status === 'open' && (
+                    <button
+                      type="button"
+                      onClick={() => handleCancel(order)}
+                      className="text-gray-500 hover:text-red-400"
+                      aria-label={`Cancel ${describeOrder(order)}`}
+                    >
+                      ✕
+                    </button>
+                  )}
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default OrderPanel;
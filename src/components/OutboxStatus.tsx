@@ -0,0 +1,52 @@
+/**
+ * Outbox Status Component
+ *
+ * Header badge for edits not on the API server yet: shows when the server
+ * cannot be reached, how many edits are waiting to be sent, and how many
+ * the server refused. Hidden while everything is sent.
+ */
+
+import React from 'react';
+import { useTickerContext } from '../lib/context';
+import { shouldUseApiServer } from '../lib/config';
+
+interface OutboxStatusProps {
+  className?: string;
+}
+
+const OutboxStatus: React.FC<OutboxStatusProps> = ({ className = '' }) => {
+  const { tickerState } = useTickerContext();
+  const { connection, pendingEdits, failedEdits } = tickerState.sync;
+  const isOffline = connection === 'offline';
+
+  if (!shouldUseApiServer() || (!isOffline && pendingEdits.length === 0 && failedEdits.length === 0)) {
+    return null;
+  }
+
+  return (
+    <div
+      className={`flex items-center space-x-2 text-sm ${className}`}
+      role="status"
+      title="Edits are sent to the API server once it can be reached; refused edits can be retried on the controls page"
+    >
+      {isOffline && (
+        <span className="flex items-center space-x-1 text-red-300">
+          <span className="h-2 w-2 rounded-full bg-red-400" />
+          <span>Offline</span>
+        </span>
+      )}
+      {pendingEdits.length > 0 && (
+        <span className="px-2 py-0.5 rounded bg-yellow-600 text-white">
+          {pendingEdits.length} pending
+        </span>
+      )}
+      {failedEdits.length > 0 && (
+        <span className="px-2 py-0.5 rounded bg-red-700 text-white">
+          {failedEdits.length} failed
+        </span>
+      )}
+    </div>
+  );
+};
+
+export default OutboxStatus;
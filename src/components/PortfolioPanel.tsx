@@ -0,0 +1,159 @@
+/**
+ * Portfolio Panel Component
+ *
+ * Shows the paper-trading positions, P&L, day change and allocation in
+ * the selected currency. Orders are entered in the order panel.
+ */
+
+import React, { useMemo, useState } from 'react';
+import { useTickerContext } from '../lib/context';
+import { usePortfolioContext } from '../lib/portfolioContext';
+import { convertCurrency, formatNumber, formatPrice } from '../lib/types';
+import { valuePortfolio } from '../utils/portfolio';
+
+const pnlClass = (value: number) =>
+  value > 0 ? 'text-green-400' : value < 0 ? 'text-red-400' : 'text-gray-300';
+
+const formatPercent = (value: number) =>
+  formatNumber(value / 100, { style: 'percent', minimumFractionDigits: 2, maximumFractionDigits: 2, signDisplay: 'exceptZero' });
+
+const formatShare = (value: number) =>
+  formatNumber(value / 100, { style: 'percent', minimumFractionDigits: 1, maximumFractionDigits: 1 });
+
+const PortfolioPanel: React.FC = () => {
+  const { tickerState } = useTickerContext();
+  const { portfolio, positions, resetPortfolio } = usePortfolioContext();
+  const { stocks, selectedCurrency } = tickerState;
+
+  const [error, setError] = useState('');
+  const [message, setMessage] = useState('');
+
+  const summary = useMemo(
+    () => valuePortfolio(portfolio, positions, stocks, selectedCurrency),
+    [portfolio, positions, stocks, selectedCurrency]
+  );
+
+  const money = (amount: number) => formatPrice(amount, selectedCurrency);
+
+  const handleReset = () => {
+    const input = prompt(
+      `Reset the portfolio? Enter the starting cash in ${selectedCurrency}:`,
+      convertCurrency(portfolio.startingCash, 'USD', selectedCurrency).toFixed(0)
+    );
+    if (input === null) return;
+
+    // Portfolio cash is kept in USD
+    const result = resetPortfolio(convertCurrency(parseFloat(input), selectedCurrency, 'USD'));
+    setError(result.isValid ? '' : result.errorMessage || 'Unable to reset portfolio');
+    setMessage(result.isValid ? 'Portfolio reset' : '');
+  };
+
+  return (
+    <div className="bg-black rounded-lg shadow-md p-4 border border-gray-700 space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-semibold text-white">Portfolio</h3>
+        <button type="button" onClick={handleReset} className="text-sm text-gray-400 hover:text-white">
+          Reset
+        </button>
+      </div>
+
+      {/* Totals */}
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-3 text-sm">
+        <div className="bg-gray-900 p-3 rounded-md border border-gray-700">
+          <div className="text-gray-400">Equity</div>
+          <div className="text-lg font-bold text-white">{money(summary.equity)}</div>
+        </div>
+        <div className="bg-gray-900 p-3 rounded-md border border-gray-700">
+          <div className="text-gray-400">Cash</div>
+          <div className="text-lg font-bold text-white">{money(summary.cash)}</div>
+        </div>
+        <div className="bg-gray-900 p-3 rounded-md border border-gray-700">
+          <div className="text-gray-400">Total P&L</div>
+          <div className={`text-lg font-bold ${pnlClass(summary.totalPnl)}`}>
+            {money(summary.totalPnl)} <span className="text-sm">({formatPercent(summary.totalPnlPercent)})</span>
+          </div>
+        </div>
+        <div className="bg-gray-900 p-3 rounded-md border border-gray-700">
+          <div className="text-gray-400">Realized / Unrealized</div>
+          <div className="text-lg font-bold">
+            <span className={pnlClass(summary.realizedPnl)}>{money(summary.realizedPnl)}</span>
+            <span className="text-gray-500"> / </span>
+            <span className={pnlClass(summary.unrealizedPnl)}>{money(summary.unrealizedPnl)}</span>
+          </div>
+        </div>
+        <div className="bg-gray-900 p-3 rounded-md border border-gray-700">
+          <div className="text-gray-400">Day Change</div>
+          <div className={`text-lg font-bold ${pnlClass(summary.dayChange)}`}>{money(summary.dayChange)}</div>
+        </div>
+      </div>
+
+      {error && <div className="p-2 bg-red-900 text-red-100 text-sm rounded-md">{error}</div>}
+      {message && <div className="p-2 bg-green-900 text-green-100 text-sm rounded-md">{message}</div>}
+
+      {/* Positions */}
+      {summary.positions.length === 0 ? (
+        <p className="text-sm text-gray-400">No open positions. Place a buy order to get started.</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm text-right">
+            <thead className="text-gray-400 border-b border-gray-700">
+              <tr>
+                <th className="py-2 text-left">Symbol</th>
+                <th className="py-2">Shares</th>
+                <th className="py-2">Avg Cost</th>
+                <th className="py-2">Price</th>
+                <th className="py-2">Market Value</th>
+                <th className="py-2">Unrealized P&L</th>
+                <th className="py-2">Day Change</th>
+                <th className="py-2">Allocation</th>
+              </tr>
+            </thead>
+            <tbody className="text-gray-200">
+              {summary.positions.map(position => (
+                <tr key={position.symbol} className="border-b border-gray-800">
+                  <td className="py-2 text-left font-mono font-bold" title={position.name}>
+                    {position.symbol}
+                    {!position.isPriced && <span className="ml-1 text-xs text-yellow-400" title="No longer on the ticker; valued at cost">*</span>}
+                  </td>
+                  <td className="py-2">{formatNumber(position.quantity)}</td>
+                  <td className="py-2">{money(position.averageCost)}</td>
+                  <td className="py-2">{money(position.price)}</td>
+                  <td className="py-2">{money(position.marketValue)}</td>
+                  <td className={`py-2 ${pnlClass(position.unrealizedPnl)}`}>
+                    {money(position.unrealizedPnl)} ({formatPercent(position.unrealizedPnlPercent)})
+                  </td>
+                  <td className={`py-2 ${pnlClass(position.dayChange)}`}>
+                    {money(position.dayChange)} ({formatPercent(position.dayChangePercent)})
+                  </td>
+                  <td className="py-2">{formatShare(position.allocationPercent)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {/* Allocation bar, cash included */}
+      {summary.equity > 0 && (
+        <div>
+          <div className="flex h-3 rounded-full overflow-hidden bg-gray-800" aria-label="Allocation">
+            {summary.positions.map((position, index) => (
+              <div
+                key={position.symbol}
+                title={`${position.symbol} ${formatShare(position.allocationPercent)}`}
+                style={{ width: `${position.allocationPercent}%`, opacity: 1 - (index % 4) * 0.2 }}
+                className="bg-blue-500"
+              />
+            ))}
+            <div title={`Cash ${formatShare(summary.cashAllocationPercent)}`} style={{ width: `${summary.cashAllocationPercent}%` }} className="bg-gray-600" />
+          </div>
+          <p className="text-xs text-gray-500 mt-1">
+            Cash {formatShare(summary.cashAllocationPercent)} · Day change is measured from each stock's initial price.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PortfolioPanel;
@@ -0,0 +1,137 @@
+/**
+ * Price Model Settings Component
+ *
+ * Lets operators choose the simulation model and parameters
+ * that drive a single stock's automatic price updates.
+ */
+
+import React, { useEffect, useState, FormEvent } from 'react';
+import { StockInfo, PriceModelConfig, PriceModelType, ValidationResult } from '../lib/types';
+import { DEFAULT_PRICE_MODELS, PRICE_MODEL_LABELS } from '../utils/priceModels';
+
+interface PriceModelSettingsProps {
+  stock: StockInfo;
+  onApply: (symbol: string, priceModel: PriceModelConfig) => ValidationResult;
+}
+
+// Convert a model config into editable string fields (everything except the type)
+const toFields = (config: PriceModelConfig): Record<string, string> => {
+  const fields: Record<string, string> = {};
+  Object.entries(config).forEach(([key, value]) => {
+    if (key !== 'type' && value !== undefined) {
+      fields[key] = String(value);
+    }
+  });
+  return fields;
+};
+
+const PriceModelSettings: React.FC<PriceModelSettingsProps> = ({ stock, onApply }) => {
+  const activeModel = stock.priceModel ?? DEFAULT_PRICE_MODELS.realistic;
+  const [modelType, setModelType] = useState<PriceModelType>(activeModel.type);
+  const [fields, setFields] = useState<Record<string, string>>(toFields(activeModel));
+  const [error, setError] = useState('');
+  const [saved, setSaved] = useState(false);
+
+  // Reset the form when switching to a different stock
+  useEffect(() => {
+    const model = stock.priceModel ?? DEFAULT_PRICE_MODELS.realistic;
+    setModelType(model.type);
+    setFields(toFields(model));
+    setError('');
+    setSaved(false);
+  }, [stock.symbol]); // Only depend on the symbol, not on every price tick
+
+  const handleTypeChange = (type: PriceModelType) => {
+    setModelType(type);
+    // Keep the stock's current parameters if it already uses this type
+    const source = activeModel.type === type ? activeModel : DEFAULT_PRICE_MODELS[type];
+    setFields(toFields(source));
+    setError('');
+    setSaved(false);
+  };
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    setSaved(false);
+
+    // Optional OU mean may be left blank to track the initial price
+    const config: Record<string, string | number> = { type: modelType };
+    for (const [key, value] of Object.entries(fields)) {
+      if (key === 'mean' && !value.trim()) continue;
+      config[key] = parseFloat(value);
+    }
+
+    const result = onApply(stock.symbol, config as unknown as PriceModelConfig);
+    if (!result.isValid) {
+      setError(result.errorMessage || 'Invalid price model');
+      return;
+    }
+    setError('');
+    setSaved(true);
+  };
+
+  // OU mean is optional, so always offer the field for that model
+  const fieldNames = modelType === 'ornsteinUhlenbeck' && !('mean' in fields)
+    ? [...Object.keys(fields), 'mean']
+    : Object.keys(fields);
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-3">
+      {error && (
+        <div className="p-2 bg-red-900 text-red-100 text-sm rounded-md">
+          {error}
+        </div>
+      )}
+      {saved && (
+        <div className="p-2 bg-green-900 text-green-100 text-sm rounded-md">
+          {stock.symbol} now uses {PRICE_MODEL_LABELS[modelType]}
+        </div>
+      )}
+
+      <div>
+        <label htmlFor="price-model-type" className="block text-sm font-medium text-gray-300 mb-1">
+          Model for {stock.symbol}
+        </label>
+        <select
+          id="price-model-type"
+          value={modelType}
+          onChange={(e) => handleTypeChange(e.target.value as PriceModelType)}
+          className="w-full p-2 border border-gray-700 rounded-md bg-black text-white"
+        >
+          {(Object.keys(PRICE_MODEL_LABELS) as PriceModelType[]).map(type => (
+            <option key={type} value={type}>
+              {PRICE_MODEL_LABELS[type]}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        {fieldNames.map(name => (
+          <div key={name}>
+            <label htmlFor={`price-model-${name}`} className="block text-xs font-medium text-gray-400 mb-1">
+              {name}{name === 'mean' ? ' (blank = initial price)' : ''}
+            </label>
+            <input
+              id={`price-model-${name}`}
+              type="number"
+              step="any"
+              value={fields[name] ?? ''}
+              onChange={(e) => setFields(prev => ({ ...prev, [name]: e.target.value }))}
+              className="w-full p-2 border border-gray-700 rounded-md bg-black text-white"
+            />
+          </div>
+        ))}
+      </div>
+
+      <button
+        type="submit"
+        className="w-full py-2 px-4 bg-blue-600 hover:bg-blue-700 text-white rounded-md transition-colors font-medium text-sm"
+      >
+        Apply Model
+      </button>
+    </form>
+  );
+};
+
+export default PriceModelSettings;
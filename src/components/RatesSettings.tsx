@@ -0,0 +1,182 @@
+/**
+ * Rates Settings Component
+ *
+ * Chooses where exchange rates come from (the built-in table, a JSON
+ * file or URL, or simulated drift), how often they refresh and when they
+ * count as stale, and lists the rates currently in use.
+ */
+
+import React, { useEffect, useState, FormEvent } from 'react';
+import { FxRatesState, RatesProviderConfig, RatesProviderType, ValidationResult, getSupportedCurrencies } from '../lib/types';
+import { DEFAULT_RATES_PROVIDER_CONFIGS, RATES_PROVIDER_LABELS, validateRatesProviderConfig } from '../lib/ratesProvider';
+import { shouldUseApiServer, buildApiUrl, API_ENDPOINTS } from '../lib/config';
+import RatesStatus from './RatesStatus';
+
+interface RatesSettingsProps {
+  fxRates: FxRatesState;
+  onSetProvider: (config: RatesProviderConfig) => ValidationResult;
+  onRefresh: () => ValidationResult;
+}
+
+// Form fields are edited as strings, durations in seconds
+const toFields = (config: RatesProviderConfig) => ({
+  url: config.url ?? DEFAULT_RATES_PROVIDER_CONFIGS.json.url ?? '',
+  refreshSeconds: String(config.refreshIntervalMs / 1000),
+  maxAgeSeconds: String(config.maxAgeMs / 1000),
+  volatilityPercent: String(config.volatilityPercent ?? DEFAULT_RATES_PROVIDER_CONFIGS.simulated.volatilityPercent),
+});
+
+const RatesSettings: React.FC<RatesSettingsProps> = ({ fxRates, onSetProvider, onRefresh }) => {
+  const [type, setType] = useState<RatesProviderType>(fxRates.config.type);
+  const [fields, setFields] = useState(toFields(fxRates.config));
+  const [error, setError] = useState('');
+
+  // Follow the applied configuration (e.g. restored from storage)
+  useEffect(() => {
+    setType(fxRates.config.type);
+    setFields(toFields(fxRates.config));
+  }, [fxRates.config]);
+
+  const handleTypeChange = (next: RatesProviderType) => {
+    setType(next);
+    setFields(toFields(DEFAULT_RATES_PROVIDER_CONFIGS[next]));
+    setError('');
+  };
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+
+    const config: RatesProviderConfig = {
+      type,
+      refreshIntervalMs: parseFloat(fields.refreshSeconds) * 1000,
+      maxAgeMs: parseFloat(fields.maxAgeSeconds) * 1000,
+      ...(type === 'json' ? { url: fields.url.trim() } : {}),
+      ...(type === 'simulated' ? { volatilityPercent: parseFloat(fields.volatilityPercent) } : {}),
+    };
+
+    const validation = validateRatesProviderConfig(config);
+    const result = validation.isValid ? onSetProvider(config) : validation;
+    setError(result.isValid ? '' : result.errorMessage || 'Unable to change rates provider');
+  };
+
+  const handleRefresh = () => {
+    const result = onRefresh();
+    setError(result.isValid ? '' : result.errorMessage || 'Unable to refresh rates');
+  };
+
+  const inputClass = 'w-full p-1 border border-gray-700 rounded-md bg-black text-white text-sm';
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between gap-2">
+        <RatesStatus fxRates={fxRates} />
+        <button
+          type="button"
+          onClick={handleRefresh}
+          className="py-1 px-3 bg-gray-700 hover:bg-gray-600 text-white rounded-md transition-colors text-xs"
+        >
+          Refresh now
+        </button>
+      </div>
+
+      {fxRates.lastError && (
+        <div className="p-2 bg-yellow-900 text-yellow-100 text-xs rounded-md">
+          Last refresh failed: {fxRates.lastError}. The previous rates are still in use.
+        </div>
+      )}
+
+      <form onSubmit={handleSubmit} className="space-y-2">
+        {error && (
+          <div className="p-2 bg-red-900 text-red-100 text-sm rounded-md">
+            {error}
+          </div>
+        )}
+
+        <select
+          value={type}
+          onChange={(e) => handleTypeChange(e.target.value as RatesProviderType)}
+          aria-label="Rates provider"
+          className="w-full p-2 border border-gray-700 rounded-md bg-black text-white text-sm"
+        >
+          {(Object.keys(RATES_PROVIDER_LABELS) as RatesProviderType[]).map(t => (
+            <option key={t} value={t}>{RATES_PROVIDER_LABELS[t]}</option>
+          ))}
+        </select>
+
+        {type === 'json' && (
+          <div>
+            <label htmlFor="rates-url" className="block text-xs font-medium text-gray-400 mb-1">Rates URL</label>
+            <input
+              id="rates-url"
+              value={fields.url}
+              onChange={(e) => setFields(prev => ({ ...prev, url: e.target.value }))}
+              placeholder="/fx-rates.json"
+              list="rates-url-suggestions"
+              className={inputClass}
+            />
+            <datalist id="rates-url-suggestions">
+              <option value="/fx-rates.json" />
+              {shouldUseApiServer() && <option value={buildApiUrl(API_ENDPOINTS.FX_RATES)} />}
+            </datalist>
+          </div>
+        )}
+
+        <div className="grid grid-cols-2 gap-2">
+          <div>
+            <label htmlFor="rates-refresh" className="block text-xs font-medium text-gray-400 mb-1">Refresh every (s)</label>
+            <input
+              id="rates-refresh"
+              type="number"
+              min="1"
+              value={fields.refreshSeconds}
+              onChange={(e) => setFields(prev => ({ ...prev, refreshSeconds: e.target.value }))}
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label htmlFor="rates-max-age" className="block text-xs font-medium text-gray-400 mb-1">Stale after (s)</label>
+            <input
+              id="rates-max-age"
+              type="number"
+              min="1"
+              value={fields.maxAgeSeconds}
+              onChange={(e) => setFields(prev => ({ ...prev, maxAgeSeconds: e.target.value }))}
+              className={inputClass}
+            />
+          </div>
+          {type === 'simulated' && (
+            <div>
+              <label htmlFor="rates-volatility" className="block text-xs font-medium text-gray-400 mb-1">Volatility per refresh (%)</label>
+              <input
+                id="rates-volatility"
+                type="number"
+                step="any"
+                value={fields.volatilityPercent}
+                onChange={(e) => setFields(prev => ({ ...prev, volatilityPercent: e.target.value }))}
+                className={inputClass}
+              />
+            </div>
+          )}
+        </div>
+
+        <button
+          type="submit"
+          className="w-full py-1 px-3 bg-blue-600 hover:bg-blue-700 text-white rounded-md transition-colors font-medium text-sm"
+        >
+          Apply Rates Provider
+        </button>
+      </form>
+
+      {/* Rates in use */}
+      <div className="grid grid-cols-3 gap-1 text-xs text-gray-400 max-h-40 overflow-y-auto">
+        {getSupportedCurrencies(fxRates.snapshot.rates).filter(code => code !== 'USD').map(code => (
+          <div key={code} className="bg-gray-800 px-2 py-1 rounded">
+            USD/{code} <span className="font-mono text-gray-200">{fxRates.snapshot.rates[code].toFixed(4)}</span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default RatesSettings;
@@ -0,0 +1,61 @@
+/**
+ * Rates Status Component
+ *
+ * Compact badge showing where the exchange rates come from, when they
+ * were published and whether they are stale or failed to refresh.
+ */
+
+import React, { useEffect, useState } from 'react';
+import { FxRatesState } from '../lib/types';
+import { STATIC_RATES_SOURCE, isRatesStale } from '../lib/ratesProvider';
+
+interface RatesStatusProps {
+  fxRates: FxRatesState;
+  className?: string;
+}
+
+// How often the age is re-evaluated while nothing else re-renders
+const STALENESS_CHECK_MS = 5000;
+
+/**
+ * Format how long ago a timestamp was, e.g. "12s ago" or "3m ago"
+ */
+export function formatAge(ms: number): string {
+  const seconds = Math.max(0, Math.round(ms / 1000));
+  if (seconds < 60) return `${seconds}s ago`;
+  const minutes = Math.round(seconds / 60);
+  if (minutes < 60) return `${minutes}m ago`;
+  const hours = Math.round(minutes / 60);
+  return hours < 48 ? `${hours}h ago` : `${Math.round(hours / 24)}d ago`;
+}
+
+const RatesStatus: React.FC<RatesStatusProps> = ({ fxRates, className = '' }) => {
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    const intervalId = setInterval(() => setNow(Date.now()), STALENESS_CHECK_MS);
+    return () => clearInterval(intervalId);
+  }, []);
+
+  const { snapshot, config, lastError } = fxRates;
+  const stale = isRatesStale(snapshot, config, now);
+  const tone = lastError || stale
+    ? 'bg-yellow-900 text-yellow-100 border-yellow-600'
+    : 'bg-gray-800 text-gray-300 border-gray-700';
+
+  const title = [
+    `Source: ${snapshot.source}`,
+    `Published ${new Date(snapshot.timestamp).toLocaleString()}`,
+    lastError ? `Last refresh failed: ${lastError}` : '',
+  ].filter(Boolean).join('\n');
+
+  return (
+    <span className={`inline-flex items-center gap-1 px-2 py-0.5 rounded-full border text-xs ${tone} ${className}`} title={title}>
+      FX {snapshot.source === STATIC_RATES_SOURCE ? 'fixed table' : formatAge(now - snapshot.timestamp)}
+      {stale && <span className="font-semibold">· stale</span>}
+      {lastError && !stale && <span className="font-semibold">· refresh failed</span>}
+    </span>
+  );
+};
+
+export default RatesStatus;
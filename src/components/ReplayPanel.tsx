@@ -0,0 +1,157 @@
+/**
+ * Replay Panel Component
+ *
+ * Loads a CSV of timestamped prices (e.g. a day of minute bars) and replays
+ * it through the ticker, with playback speed, seek and loop controls.
+ */
+
+import React, { useRef, useState, ChangeEvent } from 'react';
+import { PricePoint, ReplayOptions, ReplayProgress, StockInfo, ValidationResult } from '../lib/types';
+import { TRANSFER_LIMITS, parseHistoryCsv } from '../lib/setupTransfer';
+import { DEFAULT_REPLAY_OPTIONS, REPLAY_SPEEDS } from '../lib/replayEngine';
+import { readTextFile } from '../utils/fileTransfer';
+import ReplayTimeline from './ReplayTimeline';
+
+interface ReplayPanelProps {
+  stocks: StockInfo[];
+  replay?: ReplayProgress;
+  onStart: (histories: Record<string, PricePoint[]>, options: Partial<ReplayOptions>) => ValidationResult;
+  onPause: () => ValidationResult;
+  onResume: () => ValidationResult;
+  onSeek: (time: number) => ValidationResult;
+  onSetOptions: (options: Partial<ReplayOptions>) => ValidationResult;
+  onStop: () => ValidationResult;
+}
+
+interface LoadedReplay {
+  fileName: string;
+  histories: Record<string, PricePoint[]>;
+}
+
+const ReplayPanel: React.FC<ReplayPanelProps> = ({ stocks, replay, onStart, onPause, onResume, onSeek, onSetOptions, onStop }) => {
+  const [loaded, setLoaded] = useState<LoadedReplay | null>(null);
+  const [options, setOptions] = useState<ReplayOptions>(DEFAULT_REPLAY_OPTIONS);
+  const [error, setError] = useState('');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // Playback options follow the running replay, and are kept for the next start otherwise
+  const speed = replay ? replay.speed : options.speed;
+  const loop = replay ? replay.loop : options.loop;
+
+  const report = (result: ValidationResult) => {
+    setError(result.isValid ? '' : result.errorMessage || 'Replay failed');
+  };
+
+  const handleLoad = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Allow loading the same file again
+    if (!file) return;
+    if (file.size > TRANSFER_LIMITS.MAX_FILE_BYTES) {
+      setError(`${file.name} is larger than ${TRANSFER_LIMITS.MAX_FILE_BYTES / (1024 * 1024)} MB`);
+      return;
+    }
+
+    try {
+      const result = parseHistoryCsv(await readTextFile(file), stocks);
+      if (!result.isValid || !result.histories) {
+        report(result);
+        return;
+      }
+      setLoaded({ fileName: file.name, histories: result.histories });
+      setError('');
+    } catch (err) {
+      setError(`Error loading replay: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  };
+
+  const handleOptionsChange = (change: Partial<ReplayOptions>) => {
+    setOptions(prev => ({ ...prev, ...change }));
+    if (replay) {
+      report(onSetOptions(change));
+    }
+  };
+
+  const buttonClass = 'px-3 py-1 bg-gray-700 hover:bg-gray-600 disabled:opacity-50 text-white rounded-md text-sm transition-colors';
+
+  return (
+    <div className="space-y-3">
+      {error && <div className="p-2 bg-red-900 text-red-100 text-sm rounded-md">{error}</div>}
+
+      <div className="flex flex-wrap items-center gap-2">
+        <button type="button" onClick={() => fileInputRef.current?.click()} disabled={stocks.length === 0} className={buttonClass}>
+          Load prices…
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".csv,text/csv"
+          onChange={handleLoad}
+          className="hidden"
+          aria-label="Load replay prices file"
+        />
+        {loaded && (
+          <span className="text-xs text-gray-400">
+            {loaded.fileName}: {Object.entries(loaded.histories).map(([symbol, points]) => `${symbol} (${points.length})`).join(', ')}
+          </span>
+        )}
+      </div>
+
+      {/* Playback options */}
+      <div className="flex flex-wrap items-center gap-3 text-sm">
+        <div className="flex rounded-md overflow-hidden border border-gray-700 text-xs" role="group" aria-label="Playback speed">
+          {REPLAY_SPEEDS.map(option => (
+            <button
+              key={option}
+              type="button"
+              onClick={() => handleOptionsChange({ speed: option })}
+              className={`px-2 py-1 transition-colors ${
+                speed === option ? 'bg-blue-600 text-white' : 'bg-gray-800 text-gray-400 hover:text-white'
+              }`}
+            >
+              {option}×
+            </button>
+          ))}
+        </div>
+        <label className="flex items-center gap-1 text-gray-300">
+          <input
+            type="checkbox"
+            checked={loop}
+            onChange={(e) => handleOptionsChange({ loop: e.target.checked })}
+          />
+          Loop
+        </label>
+      </div>
+
+      {replay ? (
+        <>
+          <ReplayTimeline replay={replay} onSeek={onSeek} />
+          <div className="flex flex-wrap gap-2">
+            {replay.status === 'playing' ? (
+              <button type="button" onClick={() => report(onPause())} className={buttonClass}>Pause</button>
+            ) : (
+              <button type="button" onClick={() => report(onResume())} className={buttonClass}>
+                {replay.status === 'ended' ? 'Play again' : 'Resume'}
+              </button>
+            )}
+            <button type="button" onClick={() => report(onStop())} className={buttonClass}>Stop replay</button>
+          </div>
+          <p className="text-xs text-gray-400">Replaying {replay.symbols.join(', ')}. Other stocks keep simulating.</p>
+        </>
+      ) : (
+        <button
+          type="button"
+          onClick={() => loaded && report(onStart(loaded.histories, options))}
+          disabled={!loaded}
+          className="w-full py-1 px-3 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-700 text-white rounded-md transition-colors font-medium text-sm"
+        >
+          Start Replay
+        </button>
+      )}
+      <p className="text-xs text-gray-400">
+        Same CSV columns as the price history export: <code>symbol,currency,timestamp,price</code>, for stocks on the ticker.
+      </p>
+    </div>
+  );
+};
+
+export default ReplayPanel;
@@ -0,0 +1,69 @@
+/**
+ * Replay Timeline Component
+ *
+ * Playhead of a historical replay over its time span; dragging the slider
+ * seeks. Times are market time, from the replayed data.
+ */
+
+import React from 'react';
+import { ReplayProgress, ReplayStatus, ValidationResult } from '../lib/types';
+
+interface ReplayTimelineProps {
+  replay: ReplayProgress;
+  onSeek: (time: number) => ValidationResult;
+}
+
+const STATUS_LABELS: Record<ReplayStatus, string> = {
+  playing: '▶ Replaying',
+  paused: '❚❚ Paused',
+  ended: '■ Ended',
+};
+
+// Show dates only when the replay spans more than a day
+const formatTime = (time: number, withDate: boolean) => withDate
+  ? new Date(time).toLocaleString([], { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' })
+  : new Date(time).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' });
+
+const ReplayTimeline: React.FC<ReplayTimelineProps> = ({ replay, onSeek }) => {
+  const { status, speed, loop, startTime, endTime, currentTime } = replay;
+  const withDate = endTime - startTime > 24 * 60 * 60 * 1000;
+  const progress = ((currentTime - startTime) / (endTime - startTime)) * 100;
+
+  return (
+    <div className="px-2 text-xs">
+      <div className="flex justify-between items-center mb-1 text-gray-400">
+        <span className={status === 'playing' ? 'text-amber-400' : undefined}>
+          {STATUS_LABELS[status]} · {speed}×{loop ? ' · loop' : ''}
+        </span>
+        <span className="font-mono text-gray-200">{formatTime(currentTime, withDate)}</span>
+      </div>
+      <div className="relative h-4">
+        <div className="absolute inset-x-0 top-1/2 h-1 -translate-y-1/2 bg-gray-800 rounded-full" />
+        <div
+          className="absolute left-0 top-1/2 h-1 -translate-y-1/2 bg-amber-500 rounded-full"
+          style={{ width: `${progress}%` }}
+        />
+        <input
+          type="range"
+          min={startTime}
+          max={endTime}
+          step={1000}
+          value={currentTime}
+          onChange={(e) => onSeek(Number(e.target.value))}
+          aria-label="Replay playhead"
+          className="absolute inset-0 w-full opacity-0 cursor-pointer"
+        />
+        <div
+          className="absolute top-0 h-4 w-1 -ml-0.5 bg-amber-300 rounded-sm pointer-events-none"
+          style={{ left: `${progress}%` }}
+        />
+      </div>
+      <div className="flex justify-between text-gray-500 font-mono">
+        <span>{formatTime(startTime, withDate)}</span>
+        <span>{formatTime(endTime, withDate)}</span>
+      </div>
+    </div>
+  );
+};
+
+export default ReplayTimeline;
@@ -1,4 +1,4 @@
-import React, { useEffect, useRef, useCallback, useMemo } from 'react';
+import React, { useEffect, useRef, useCallback, useMemo, useState } from 'react';
 import {
   Chart as ChartJS,
   CategoryScale,
@@ -6,14 +6,27 @@ import {
   PointElement,
   LineElement,
   LineController,
+  BarElement,
+  BarController,
   Title,
   Tooltip,
   Legend,
+  ChartData,
+  DefaultDataPoint,
   ChartOptions,
   Filler,
 } from 'chart.js';
 import { useTickerContext } from '../lib/context';
-import { PricePoint, formatPrice, ChartTimeRange } from '../lib/types';
+import { PricePoint, formatPrice, getStockCurrency, ChartTimeRange, ChartType } from '../lib/types';
+import { aggregateCandles, getCandleInterval, formatCandleInterval } from '../utils/candles';
+import { computeIndicator } from '../utils/indicators';
+import { CHART_VALUE_AXIS_WIDTH, syncHoverIndex } from '../utils/chartSync';
+import IndicatorSettings from './IndicatorSettings';
+import IndicatorSubPanel from './IndicatorSubPanel';
+import ReplayTimeline from './ReplayTimeline';
+
+// Candlestick mode mixes bar and line datasets
+type StockChartData = ChartData<'bar' | 'line', DefaultDataPoint<'bar' | 'line'>, string>;
 
 // Register ChartJS components only once
 let chartJSRegistered = false;
@@ -24,6 +37,8 @@ if (!chartJSRegistered) {
     PointElement,
     LineElement,
     LineController,
+    BarElement,
+    BarController,
     Title,
     Tooltip,
     Legend,
@@ -36,15 +51,34 @@ interface SafeStockChartProps {
   selectedStock?: string;
   timeRange?: ChartTimeRange;
   showGrid?: boolean;
+  defaultChartType?: ChartType;
 }
 
+// Candle colors match the line chart's above/below initial price colors
+const CANDLE_UP_COLOR = '#00ff88';
+const CANDLE_DOWN_COLOR = '#ff4444';
+
+// Line charts are downsampled to at most this many points
+const MAX_CHART_POINTS = 300;
+
 const SafeStockChart: React.FC<SafeStockChartProps> = ({ 
   selectedStock, 
   timeRange = '1h', 
-  showGrid = true 
+  showGrid = true,
+  defaultChartType = 'line'
 }) => {
-  const { tickerState, getStockPriceHistory } = useTickerContext();
-  const { stocks } = tickerState;
+  const { tickerState, getStockPriceHistory, setIndicators, seekReplay } = useTickerContext();
+  const { stocks, replay } = tickerState;
+  
+  // Line or candlestick rendering, toggled from the chart header
+  const [chartType, setChartType] = useState<ChartType>(defaultChartType);
+  const [showIndicatorSettings, setShowIndicatorSettings] = useState(false);
+  
+  // Hovered data index, mirrored between the price chart and indicator sub-panels
+  const [hover, setHover] = useState<{ index: number | null; source: string }>({ index: null, source: 'price' });
+  const handleHover = useCallback((source: string, index: number | null) => {
+    setHover(prev => (prev.index === index && prev.source === source ? prev : { index, source }));
+  }, []);
   
   // Use refs to manage chart instance and canvas
   const chartRef = useRef<ChartJS | null>(null);
@@ -90,52 +124,75 @@ const SafeStockChart: React.FC<SafeStockChartProps> = ({
     return stocks[0];
   }, [selectedStock, stocks]);
 
-  // Filter price history based on time range
-  const getFilteredPriceHistory = useCallback((symbol: string, range: ChartTimeRange) => {
-    const allHistory = getStockPriceHistory(symbol);
-    if (allHistory.length === 0) return [];
-    
-    const now = new Date();
-    let cutoffTime: Date;
+  // Query the history store for the time range; line charts are downsampled to keep rendering fast
+  const getFilteredPriceHistory = useCallback((symbol: string, range: ChartTimeRange, maxPoints?: number) => {
+    return getStockPriceHistory(symbol, range, maxPoints);
+  }, [getStockPriceHistory]);
+
+  // Aggregate the visible history into OHLC candles for candlestick mode
+  const candleData = useMemo(() => {
+    if (chartType !== 'candlestick' || !currentStock) {
+      return null;
+    }
     
-    switch (range) {
-      case '1m':
-        cutoffTime = new Date(now.getTime() - 1 * 60 * 1000);
-        break;
-      case '5m':
-        cutoffTime = new Date(now.getTime() - 5 * 60 * 1000);
-        break;
-      case '15m':
-        cutoffTime = new Date(now.getTime() - 15 * 60 * 1000);
-        break;
-      case '1h':
-        cutoffTime = new Date(now.getTime() - 60 * 60 * 1000);
-        break;
-      case '4h':
-        cutoffTime = new Date(now.getTime() - 4 * 60 * 60 * 1000);
-        break;
-      case 'all':
-      default:
-        return allHistory;
+    const priceHistory = getFilteredPriceHistory(currentStock.symbol, timeRange);
+    const intervalMs = getCandleInterval(timeRange, priceHistory);
+    return { intervalMs, candles: aggregateCandles(priceHistory, intervalMs) };
+  }, [chartType, currentStock, timeRange, getFilteredPriceHistory]);
+
+  // Indicators are computed over the full history so moving averages are warmed up,
+  // then trimmed to the points (or candles) in view
+  const indicatorSeries = useMemo(() => {
+    const indicators = currentStock?.indicators ?? [];
+    if (!currentStock || indicators.length === 0) {
+      return [];
     }
     
-    return allHistory.filter(point => point.timestamp >= cutoffTime);
-  }, [getStockPriceHistory]);
+    // Visible points are downsampled from the full history, so line them up by timestamp
+    const fullHistory = getStockPriceHistory(currentStock.symbol);
+    const source = candleData
+      ? aggregateCandles(fullHistory, candleData.intervalMs).map(candle => ({ time: candle.timestamp.getTime(), price: candle.close }))
+      : fullHistory.map(point => ({ time: new Date(point.timestamp).getTime(), price: point.price }));
+    const visibleTimes = candleData
+      ? candleData.candles.map(candle => candle.timestamp.getTime())
+      : getFilteredPriceHistory(currentStock.symbol, timeRange, MAX_CHART_POINTS).map(point => new Date(point.timestamp).getTime());
+    const indexByTime = new Map(source.map((point, index) => [point.time, index]));
+    const prices = source.map(point => point.price);
+    
+    return indicators.map((config, index) => {
+      const series = computeIndicator(config, prices, index);
+      return {
+        ...series,
+        lines: series.lines.map(line => ({
+          ...line,
+          values: visibleTimes.map(time => {
+            const sourceIndex = indexByTime.get(time);
+            return sourceIndex === undefined ? null : line.values[sourceIndex];
+          }),
+        })),
+      };
+    });
+  }, [currentStock, candleData, timeRange, getStockPriceHistory, getFilteredPriceHistory]);
+
+  const oscillatorSeries = useMemo(
+    () => indicatorSeries.filter(series => series.pane === 'oscillator'),
+    [indicatorSeries]
+  );
 
   // Prepare chart data
-  const chartData = useMemo(() => {
+  const chartData = useMemo((): StockChartData | null => {
     if (!currentStock) {
       return null;
     }
     
-    const priceHistory = getFilteredPriceHistory(currentStock.symbol, timeRange);
+    const priceHistory = getFilteredPriceHistory(currentStock.symbol, timeRange, MAX_CHART_POINTS);
     if (priceHistory.length === 0) {
       return null;
     }
 
     // Enhanced time labeling with more frequent indicators
-    const labels = priceHistory.map((point, index) => {
-      const time = new Date(point.timestamp);
+    const formatTimeLabel = (timestamp: Date, index: number) => {
+      const time = new Date(timestamp);
       const hours = time.getHours().toString().padStart(2, '0');
       const minutes = time.getMinutes().toString().padStart(2, '0');
       const seconds = time.getSeconds().toString().padStart(2, '0');
@@ -151,7 +208,91 @@ const SafeStockChart: React.FC<SafeStockChartProps> = ({
         // For longer ranges, show hours and minutes
         return `${hours}:${minutes}`;
       }
+    };
+    
+    // Initial price reference line, shared by both chart types
+    const initialPriceDataset = (length: number) => ({
+      type: 'line' as const,
+      label: `Initial Price: ${formatPrice(currentStock.initialPrice, getStockCurrency(currentStock))}`,
+      data: Array(length).fill(currentStock.initialPrice),
+      borderColor: '#4488ff', // Blue reference line
+      backgroundColor: 'rgba(68, 136, 255, 0.1)',
+      borderWidth: 2,
+      borderDash: [8, 4], // Dashed line pattern
+      tension: 0,
+      pointRadius: 0, // No points on reference line
+      pointHoverRadius: 0,
+      pointBackgroundColor: 'transparent',
+      pointBorderColor: 'transparent',
+      fill: false,
+      yAxisID: 'price',
+      // Custom styling for reference line
+      spanGaps: true,
+      stepped: false,
     });
+    
+    // Moving average and Bollinger band overlays
+    const overlayDatasets = indicatorSeries
+      .filter(series => series.pane === 'price')
+      .flatMap(series => series.lines.map(line => ({
+        type: 'line' as const,
+        label: line.label,
+        indicator: true, // Marks overlays for the tooltip
+        data: line.values,
+        borderColor: line.color,
+        backgroundColor: 'transparent',
+        borderWidth: 1.5,
+        borderDash: line.style === 'dashed' ? [4, 4] : [],
+        tension: 0,
+        pointRadius: 0,
+        pointHoverRadius: 3,
+        fill: false,
+        yAxisID: 'price',
+      })));
+    
+    if (candleData) {
+      const { candles } = candleData;
+      if (candles.length === 0) {
+        return null;
+      }
+      
+      const candleColors = candles.map(candle => candle.close >= candle.open ? CANDLE_UP_COLOR : CANDLE_DOWN_COLOR);
+      
+      // Candles are drawn as two floating bar datasets: a thin high-low wick behind an open-close body
+      return {
+        labels: candles.map((candle, index) => formatTimeLabel(candle.timestamp, index)),
+        datasets: [
+          {
+            type: 'bar' as const,
+            label: `${currentStock.symbol} Range`,
+            data: candles.map(candle => [candle.low, candle.high] as [number, number]),
+            backgroundColor: candleColors,
+            borderWidth: 0,
+            barPercentage: 0.08,
+            grouped: false,
+            order: 2,
+            yAxisID: 'price',
+          },
+          {
+            type: 'bar' as const,
+            label: `${currentStock.symbol} OHLC`,
+            data: candles.map(candle => [candle.open, candle.close] as [number, number]),
+            backgroundColor: candleColors,
+            borderColor: candleColors,
+            borderWidth: 1,
+            barPercentage: 0.7,
+            minBarLength: 2, // Keep flat (open = close) candles visible
+            grouped: false,
+            order: 1,
+            yAxisID: 'price',
+          },
+          initialPriceDataset(candles.length),
+          ...overlayDatasets,
+        ],
+      };
+    }
+    
+    const labels = priceHistory.map((point, index) => formatTimeLabel(point.timestamp, index));
 
     const prices = priceHistory.map(point => point.price);
     
@@ -216,30 +357,18 @@ const SafeStockChart: React.FC<SafeStockChartProps> = ({
           yAxisID: 'price',
         },
         // Horizontal reference line for initial stock price
-        {
-          label: `Initial Price: $${currentStock.initialPrice.toFixed(2)}`,
-          data: Array(prices.length).fill(currentStock.initialPrice),
-          borderColor: '#4488ff', // Blue reference line
-          backgroundColor: 'rgba(68, 136, 255, 0.1)',
-          borderWidth: 2,
-          borderDash: [8, 4], // Dashed line pattern
-          tension: 0,
-          pointRadius: 0, // No points on reference line
-          pointHoverRadius: 0,
-          pointBackgroundColor: 'transparent',
-          pointBorderColor: 'transparent',
-          fill: false,
-          yAxisID: 'price',
-          // Custom styling for reference line
-          spanGaps: true,
-          stepped: false,
-        },
+        initialPriceDataset(prices.length),
+        ...overlayDatasets,
       ],
     };
-  }, [currentStock, timeRange, getFilteredPriceHistory]);
+  }, [currentStock, timeRange, getFilteredPriceHistory, candleData, indicatorSeries]);
 
   // Chart options with dynamic tooltip color
   const chartOptions: ChartOptions = useMemo(() => {
+    // Prices are charted in the stock's listing currency
+    const money = (price: number) => formatPrice(price, currentStock ? getStockCurrency(currentStock) : 'USD');
+    const signedMoney = (amount: number) => `${amount >= 0 ? '+' : '-'}${money(Math.abs(amount))}`;
+    
     // Determine tooltip color based on current price vs initial price
     const currentPrice = currentStock?.currentPrice || 0;
     const initialPrice = currentStock?.initialPrice || 0;
@@ -260,6 +389,7 @@ const SafeStockChart: React.FC<SafeStockChartProps> = ({
       intersect: false,
       mode: 'index',
     },
+    onHover: (_event, elements) => handleHover('price', elements[0]?.index ?? null),
     animation: {
       duration: 150, // Shorter duration for snappy 60fps animations
       easing: 'easeOutQuart', // Optimized easing for smooth movement
@@ -364,12 +494,16 @@ const SafeStockChart: React.FC<SafeStockChartProps> = ({
               size: 12,
               family: "'Inter', 'system-ui', sans-serif",
             },
-            callback: (value) => `$${typeof value === 'number' ? value.toFixed(2) : value}`,
+            callback: (value) => typeof value === 'number' ? money(value) : value,
             count: 8,
           },
           border: {
             display: false,
           },
+          // Fixed width keeps the x-axis aligned with indicator sub-panels
+          afterFit: (scale) => {
+            scale.width = CHART_VALUE_AXIS_WIDTH;
+          },
         },
       },
       plugins: {
@@ -422,13 +556,27 @@ const SafeStockChart: React.FC<SafeStockChartProps> = ({
           cornerRadius: 8,
           padding: 12,
           displayColors: false,
+          // One price (or OHLC) entry from the main dataset, plus any indicator overlays
+          filter: (tooltipItem) =>
+            (tooltipItem.dataset as { indicator?: boolean }).indicator === true ||
+            tooltipItem.datasetIndex === (candleData ? 1 : 0),
           callbacks: {
             title: (tooltipItems) => {
               // Enhanced tooltip with more detailed time information
               if (!tooltipItems[0] || !currentStock) return '';
               
               const dataIndex = tooltipItems[0].dataIndex;
-              const priceHistory = getFilteredPriceHistory(currentStock.symbol, timeRange);
+              
+              const candle = candleData?.candles[dataIndex];
+              if (candle) {
+                const time = new Date(candle.timestamp);
+                const hours = time.getHours().toString().padStart(2, '0');
+                const minutes = time.getMinutes().toString().padStart(2, '0');
+                const seconds = time.getSeconds().toString().padStart(2, '0');
+                return `Candle: ${hours}:${minutes}:${seconds} (${formatCandleInterval(candleData.intervalMs)})`;
+              }
+              
+              const priceHistory = getFilteredPriceHistory(currentStock.symbol, timeRange, MAX_CHART_POINTS);
               
               if (priceHistory[dataIndex]) {
                 const timestamp = priceHistory[dataIndex].timestamp;
@@ -449,18 +597,32 @@ const SafeStockChart: React.FC<SafeStockChartProps> = ({
               return tooltipItems[0]?.label || '';
             },
             label: (context) => {
+              if ((context.dataset as { indicator?: boolean }).indicator) {
+                return `${context.dataset.label}: ${money(context.parsed.y)}`;
+              }
+              
+              const candle = candleData?.candles[context.dataIndex];
+              if (candle) {
+                const candleChange = candle.close - candle.open;
+                return [
+                  `Open: ${money(candle.open)}`,
+                  `High: ${money(candle.high)}`,
+                  `Low: ${money(candle.low)}`,
+                  `Close: ${money(candle.close)}`,
+                  `Change: ${signedMoney(candleChange)} (${candle.pointCount} updates)`,
+                ];
+              }
+              
               const price = context.parsed.y;
               const initialPrice = currentStock?.initialPrice || 0;
               const change = currentStock ? 
                 ((price - initialPrice) / initialPrice * 100) : 0;
               const changeText = change >= 0 ? `+${change.toFixed(2)}%` : `${change.toFixed(2)}%`;
-              const priceDiff = price - initialPrice;
-              const priceDiffText = priceDiff >= 0 ? `+$${priceDiff.toFixed(2)}` : `-$${Math.abs(priceDiff).toFixed(2)}`;
               
               return [
-                `Price: $${price.toFixed(2)}`,
-                `Initial: $${initialPrice.toFixed(2)}`,
-                `Difference: ${priceDiffText} (${changeText})`,
+                `Price: ${money(price)}`,
+                `Initial: ${money(initialPrice)}`,
+                `Difference: ${signedMoney(price - initialPrice)} (${changeText})`,
                 change >= 0 ? '📈 Above initial price' : '📉 Below initial price'
               ];
             },
@@ -468,7 +630,7 @@ const SafeStockChart: React.FC<SafeStockChartProps> = ({
         },
       },
     };
-  }, [showGrid, currentStock]);
+  }, [showGrid, currentStock, candleData, handleHover]);
 
   // Create chart when component mounts or data changes
   useEffect(() => {
@@ -489,11 +651,16 @@ const SafeStockChart: React.FC<SafeStockChartProps> = ({
         
         // Create new chart instance
         chartRef.current = new ChartJS(ctx, {
-          type: 'line',
+          type: candleData ? 'bar' : 'line',
           data: chartData,
           options: chartOptions,
         });
         
+        // Candlestick mode has no current price marker to animate
+        if (candleData) {
+          return () => destroyChart();
+        }
+        
         // Add pulsing animation for current price marker
         let pulseDirection = 1;
         let pulseSize = 8;
@@ -539,7 +706,14 @@ const SafeStockChart: React.FC<SafeStockChartProps> = ({
       }
       destroyChart();
     };
-  }, [chartData, chartOptions, destroyChart]);
+  }, [chartData, chartOptions, candleData, destroyChart]);
+
+  // Mirror hovers from the indicator sub-panels onto the price chart
+  useEffect(() => {
+    if (chartRef.current && hover.source !== 'price') {
+      syncHoverIndex(chartRef.current, hover.index);
+    }
+  }, [hover]);
 
   // Cleanup on unmount
   useEffect(() => {
@@ -564,6 +738,9 @@ const SafeStockChart: React.FC<SafeStockChartProps> = ({
     );
   }
 
+  // Replayed stocks show the replay's playhead above the chart
+  const isReplayed = !!replay && replay.symbols.includes(currentStock.symbol);
+
   // Get the latest price update time for display
   const latestUpdateTime = currentStock.priceHistory.length > 0 
     ? currentStock.priceHistory[currentStock.priceHistory.length - 1].timestamp
@@ -611,9 +788,38 @@ const SafeStockChart: React.FC<SafeStockChartProps> = ({
           </div>
         </div>
         <div className="flex items-center space-x-2">
+          {/* Line / candlestick toggle */}
+          <div className="flex rounded-md overflow-hidden border border-gray-700 text-xs">
+            {(['line', 'candlestick'] as ChartType[]).map(type => (
+              <button
+                key={type}
+                type="button"
+                onClick={() => setChartType(type)}
+                className={`px-2 py-1 transition-colors ${
+                  chartType === type ? 'bg-blue-600 text-white' : 'bg-gray-800 text-gray-400 hover:text-white'
+                }`}
+              >
+                {type === 'line' ? 'Line' : 'Candles'}
+              </button>
+            ))}
+          </div>
+          <button
+            type="button"
+            onClick={() => setShowIndicatorSettings(prev => !prev)}
+            className={`px-2 py-1 rounded-md border text-xs transition-colors ${
+              showIndicatorSettings ? 'border-blue-500 bg-blue-900 text-white' : 'border-gray-700 bg-gray-800 text-gray-400 hover:text-white'
+            }`}
+          >
+            Indicators{currentStock.indicators?.length ? ` (${currentStock.indicators.length})` : ''}
+          </button>
           <div className="text-gray-400 text-sm font-medium">
             Data Points: {currentStock.priceHistory.length}
           </div>
+          {candleData && (
+            <div className="text-gray-400 text-sm font-medium">
+              Candles: {candleData.candles.length} × {formatCandleInterval(candleData.intervalMs)}
+            </div>
+          )}
           <div className="text-gray-400 text-sm font-medium">
             Updates: {timeRange === '1m' || timeRange === '5m' ? 'Real-time' : 'Live'}
           </div>
@@ -633,34 +839,73 @@ const SafeStockChart: React.FC<SafeStockChartProps> = ({
         </div>
       </div>
       
+      {/* Indicator settings popover */}
+      {showIndicatorSettings && (
+        <div className="absolute right-2 top-10 z-10 w-80 bg-gray-900 p-3 rounded-lg border border-gray-700 shadow-lg">
+          <div className="flex justify-between items-center mb-2">
+            <h4 className="text-sm font-medium text-white">Indicators for {currentStock.symbol}</h4>
+            <button
+              type="button"
+              onClick={() => setShowIndicatorSettings(false)}
+              className="text-gray-500 hover:text-white text-sm"
+              aria-label="Close indicator settings"
+            >
+              ✕
+            </button>
+          </div>
+          <IndicatorSettings stock={currentStock} onApply={setIndicators} />
+        </div>
+      )}
+      
+      {isReplayed && replay && (
+        <div className="mb-2">
+          <ReplayTimeline replay={replay} onSeek={seekReplay} />
+        </div>
+      )}
+      
       {/* Chart Container */}
-      <div className="relative" style={{ height: 'calc(100% - 3rem)' }}>
-        <canvas
-          ref={canvasRef}
-          id={chartId}
-          style={{ 
-            display: 'block', 
-            width: '100%', 
-            height: '100%',
-            transition: 'all 0.5s ease-in-out'
-          }}
-        />
-        
-        {/* Time Grid Overlay for Enhanced Precision */}
-        {showGrid && timeRange !== 'all' && (
-          <div 
-            className="absolute inset-0 pointer-events-none"
-            style={{
-              background: `repeating-linear-gradient(
-                to right,
-                transparent,
-                transparent 8.33%,
-                rgba(255, 255, 255, 0.05) 8.33%,
-                rgba(255, 255, 255, 0.05) 8.34%
-              )`
+      <div className="flex flex-col" style={{ height: isReplayed ? 'calc(100% - 6.5rem)' : 'calc(100% - 3rem)' }}>
+        <div className="relative" style={{ flex: 3, minHeight: 0 }}>
+          <canvas
+            ref={canvasRef}
+            id={chartId}
+            style={{ 
+              display: 'block', 
+              width: '100%', 
+              height: '100%',
+              transition: 'all 0.5s ease-in-out'
             }}
           />
-        )}
+        
+          {/* Time Grid Overlay for Enhanced Precision */}
+          {showGrid && timeRange !== 'all' && (
+            <div 
+              className="absolute inset-0 pointer-events-none"
+              style={{
+                background: `repeating-linear-gradient(
+                  to right,
+                  transparent,
+                  transparent 8.33%,
+                  rgba(255, 255, 255, 0.05) 8.33%,
+                  rgba(255, 255, 255, 0.05) 8.34%
+                )`
+              }}
+            />
+          )}
+        </div>
+
+        {/* Synced indicator sub-panels (RSI, MACD) */}
+        {oscillatorSeries.map((series, index) => (
+          <div key={`${series.label}-${index}`} className="border-t border-gray-800" style={{ flex: 1, minHeight: 0 }}>
+            <IndicatorSubPanel
+              series={series}
+              labels={chartData.labels ?? []}
+              showGrid={showGrid}
+              hoverIndex={hover.source === `indicator-${index}` ? undefined : hover.index}
+              onHover={(hoverIndex) => handleHover(`indicator-${index}`, hoverIndex)}
+            />
+          </div>
+        ))}
       </div>
       
       {/* Time Scale Legend */}
@@ -0,0 +1,382 @@
+/**
+ * Scenario Panel Component
+ *
+ * Builds, runs, saves and loads scripted market scenarios
+ * (crashes, rallies, earnings gaps) from the controls page.
+ */
+
+import React, { useRef, useState, ChangeEvent } from 'react';
+import { MarketScenario, ScenarioProgress, ScenarioStepType, ValidationResult } from '../lib/types';
+import { PRESET_SCENARIOS, parseScenario, serializeScenario, validateScenario } from '../lib/scenarioEngine';
+import { downloadTextFile, readTextFile, toFileName } from '../utils/fileTransfer';
+
+interface ScenarioPanelProps {
+  symbols: string[];
+  progress?: ScenarioProgress;
+  onStart: (scenario: MarketScenario) => ValidationResult;
+  onPause: () => ValidationResult;
+  onResume: () => ValidationResult;
+  onAbort: () => ValidationResult;
+}
+
+// Editable form row; numeric fields stay as text until the scenario is built
+interface StepDraft {
+  symbol: string;
+  type: ScenarioStepType;
+  percent: string;
+  durationSeconds: string;
+  volatilityMultiplier: string;
+  withPrevious: boolean;
+}
+
+const STEP_TYPE_LABELS: Record<ScenarioStepType, string> = {
+  move: 'Move %',
+  recover: 'Recover % of move',
+  hold: 'Hold',
+};
+
+const toDrafts = (scenario: MarketScenario): StepDraft[] =>
+  scenario.steps.map(step => ({
+    symbol: step.symbol,
+    type: step.type,
+    percent: String(step.percent),
+    durationSeconds: String(step.durationSeconds),
+    volatilityMultiplier: String(step.volatilityMultiplier ?? 1),
+    withPrevious: !!step.withPrevious,
+  }));
+
+const formatSeconds = (seconds: number): string => {
+  const minutes = Math.floor(seconds / 60);
+  const remainder = Math.floor(seconds % 60);
+  return `${minutes}:${remainder.toString().padStart(2, '0')}`;
+};
+
+const ScenarioPanel: React.FC<ScenarioPanelProps> = ({ symbols, progress, onStart, onPause, onResume, onAbort }) => {
+  const [name, setName] = useState(PRESET_SCENARIOS.crash.name);
+  const [description, setDescription] = useState(PRESET_SCENARIOS.crash.description ?? '');
+  const [steps, setSteps] = useState<StepDraft[]>(toDrafts(PRESET_SCENARIOS.crash));
+  const [error, setError] = useState('');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const isActive = progress?.status === 'running' || progress?.status === 'paused';
+
+  const loadScenario = (scenario: MarketScenario) => {
+    setName(scenario.name);
+    setDescription(scenario.description ?? '');
+    setSteps(toDrafts(scenario));
+    setError('');
+  };
+
+  // Convert the form into a scenario, or report why it is invalid
+  const buildScenario = (): MarketScenario | null => {
+    const scenario: MarketScenario = {
+      name: name.trim(),
+      ...(description.trim() ? { description: description.trim() } : {}),
+      steps: steps.map(draft => ({
+        symbol: draft.symbol,
+        type: draft.type,
+        percent: draft.type === 'hold' ? 0 : parseFloat(draft.percent),
+        durationSeconds: parseFloat(draft.durationSeconds),
+        volatilityMultiplier: parseFloat(draft.volatilityMultiplier),
+        ...(draft.withPrevious ? { withPrevious: true } : {}),
+      })),
+    };
+
+    const result = validateScenario(scenario);
+    if (!result.isValid) {
+      setError(result.errorMessage || 'Invalid scenario');
+      return null;
+    }
+    setError('');
+    return scenario;
+  };
+
+  const updateStep = (index: number, changes: Partial<StepDraft>) => {
+    setSteps(prev => prev.map((step, i) => (i === index ? { ...step, ...changes } : step)));
+  };
+
+  const addStep = () => {
+    setSteps(prev => [
+      ...prev,
+      {
+        symbol: prev[prev.length - 1]?.symbol ?? symbols[0] ?? '',
+        type: 'move',
+        percent: '0',
+        durationSeconds: '60',
+        volatilityMultiplier: '1',
+        withPrevious: false,
+      },
+    ]);
+  };
+
+  const removeStep = (index: number) => {
+    setSteps(prev => prev.filter((_, i) => i !== index));
+  };
+
+  const handleStart = () => {
+    const scenario = buildScenario();
+    if (!scenario) return;
+    const result = onStart(scenario);
+    if (!result.isValid) {
+      setError(result.errorMessage || 'Could not start scenario');
+    }
+  };
+
+  const handleControl = (action: () => ValidationResult) => {
+    const result = action();
+    setError(result.isValid ? '' : result.errorMessage || 'Scenario action failed');
+  };
+
+  const handleSave = () => {
+    const scenario = buildScenario();
+    if (!scenario) return;
+    downloadTextFile(`${toFileName(scenario.name, 'scenario')}.json`, serializeScenario(scenario));
+  };
+
+  const handleLoad = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Allow reloading the same file
+    if (!file) return;
+
+    try {
+      const result = parseScenario(await readTextFile(file));
+      if (!result.isValid || !result.scenario) {
+        setError(result.errorMessage || 'Invalid scenario file');
+        return;
+      }
+      loadScenario(result.scenario);
+    } catch (err) {
+      setError(`Error loading scenario: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  };
+
+  const progressPercent = progress && progress.totalSeconds > 0
+    ? Math.min(100, (progress.elapsedSeconds / progress.totalSeconds) * 100)
+    : progress?.status === 'completed' ? 100 : 0;
+
+  return (
+    <div className="space-y-4">
+      {error && (
+        <div className="p-2 bg-red-900 text-red-100 text-sm rounded-md">
+          {error}
+        </div>
+      )}
+
+      {/* Presets and file actions */}
+      <div className="flex flex-wrap gap-2">
+        {Object.entries(PRESET_SCENARIOS).map(([key, preset]) => (
+          <button
+            key={key}
+            type="button"
+            onClick={() => loadScenario(preset)}
+            disabled={isActive}
+            className="px-3 py-1 bg-gray-700 hover:bg-gray-600 disabled:opacity-50 text-white rounded-md text-sm transition-colors"
+          >
+            {preset.name}
+          </button>
+        ))}
+        <div className="flex-1" />
+        <button
+          type="button"
+          onClick={handleSave}
+          className="px-3 py-1 bg-gray-700 hover:bg-gray-600 text-white rounded-md text-sm transition-colors"
+        >
+          Save JSON
+        </button>
+        <button
+          type="button"
+          onClick={() => fileInputRef.current?.click()}
+          disabled={isActive}
+          className="px-3 py-1 bg-gray-700 hover:bg-gray-600 disabled:opacity-50 text-white rounded-md text-sm transition-colors"
+        >
+          Load JSON
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="application/json,.json"
+          onChange={handleLoad}
+          className="hidden"
+        />
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        <div>
+          <label htmlFor="scenario-name" className="block text-xs font-medium text-gray-400 mb-1">Name</label>
+          <input
+            id="scenario-name"
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            disabled={isActive}
+            className="w-full p-2 border border-gray-700 rounded-md bg-black text-white"
+          />
+        </div>
+        <div>
+          <label htmlFor="scenario-description" className="block text-xs font-medium text-gray-400 mb-1">Description</label>
+          <input
+            id="scenario-description"
+            type="text"
+            value={description}
+            onChange={(e) => setDescription(e.target.value)}
+            disabled={isActive}
+            className="w-full p-2 border border-gray-700 rounded-md bg-black text-white"
+          />
+        </div>
+      </div>
+
+      {/* Timeline steps */}
+      <div className="space-y-2">
+        {steps.map((step, index) => (
+          <div key={index} className="grid grid-cols-2 sm:grid-cols-7 gap-2 items-end bg-gray-800 p-2 rounded-md border border-gray-700">
+            <div>
+              <label className="block text-xs text-gray-400 mb-1">Stock</label>
+              <select
+                value={step.symbol}
+                onChange={(e) => updateStep(index, { symbol: e.target.value })}
+                disabled={isActive}
+                className="w-full p-1 border border-gray-700 rounded-md bg-black text-white text-sm"
+              >
+                {!symbols.includes(step.symbol) && <option value={step.symbol}>{step.symbol} (missing)</option>}
+                {symbols.map(symbol => (
+                  <option key={symbol} value={symbol}>{symbol}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-xs text-gray-400 mb-1">Action</label>
+              <select
+                value={step.type}
+                onChange={(e) => updateStep(index, { type: e.target.value as ScenarioStepType })}
+                disabled={isActive}
+                className="w-full p-1 border border-gray-700 rounded-md bg-black text-white text-sm"
+              >
+                {(Object.keys(STEP_TYPE_LABELS) as ScenarioStepType[]).map(type => (
+                  <option key={type} value={type}>{STEP_TYPE_LABELS[type]}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-xs text-gray-400 mb-1">Percent</label>
+              <input
+                type="number"
+                step="any"
+                value={step.type === 'hold' ? '' : step.percent}
+                onChange={(e) => updateStep(index, { percent: e.target.value })}
+                disabled={isActive || step.type === 'hold'}
+                className="w-full p-1 border border-gray-700 rounded-md bg-black text-white text-sm"
+              />
+            </div>
+            <div>
+              <label className="block text-xs text-gray-400 mb-1">Seconds</label>
+              <input
+                type="number"
+                min="0"
+                step="any"
+                value={step.durationSeconds}
+                onChange={(e) => updateStep(index, { durationSeconds: e.target.value })}
+                disabled={isActive}
+                className="w-full p-1 border border-gray-700 rounded-md bg-black text-white text-sm"
+              />
+            </div>
+            <div>
+              <label className="block text-xs text-gray-400 mb-1">Volatility ×</label>
+              <input
+                type="number"
+                min="0"
+                step="any"
+                value={step.volatilityMultiplier}
+                onChange={(e) => updateStep(index, { volatilityMultiplier: e.target.value })}
+                disabled={isActive}
+                className="w-full p-1 border border-gray-700 rounded-md bg-black text-white text-sm"
+              />
+            </div>
+            <label className="flex items-center gap-1 text-xs text-gray-400 pb-2">
+              <input
+                type="checkbox"
+                checked={step.withPrevious}
+                onChange={(e) => updateStep(index, { withPrevious: e.target.checked })}
+                disabled={isActive || index === 0}
+              />
+              With previous
+            </label>
+            <button
+              type="button"
+              onClick={() => removeStep(index)}
+              disabled={isActive || steps.length === 1}
+              className="px-2 py-1 bg-red-700 hover:bg-red-800 disabled:opacity-50 text-white rounded-md text-xs transition-colors"
+            >
+              Remove
+            </button>
+          </div>
+        ))}
+        <button
+          type="button"
+          onClick={addStep}
+          disabled={isActive}
+          className="w-full py-1 border border-dashed border-gray-600 hover:border-gray-400 disabled:opacity-50 text-gray-300 rounded-md text-sm transition-colors"
+        >
+          + Add Step
+        </button>
+      </div>
+
+      {/* Run controls */}
+      <div className="flex flex-wrap gap-2">
+        {!isActive && (
+          <button
+            type="button"
+            onClick={handleStart}
+            className="flex-1 py-2 px-4 bg-green-600 hover:bg-green-700 text-white rounded-md transition-colors font-medium text-sm"
+          >
+            Start Scenario
+          </button>
+        )}
+        {progress?.status === 'running' && (
+          <button
+            type="button"
+            onClick={() => handleControl(onPause)}
+            className="flex-1 py-2 px-4 bg-yellow-600 hover:bg-yellow-700 text-white rounded-md transition-colors font-medium text-sm"
+          >
+            Pause Scenario
+          </button>
+        )}
+        {progress?.status === 'paused' && (
+          <button
+            type="button"
+            onClick={() => handleControl(onResume)}
+            className="flex-1 py-2 px-4 bg-green-600 hover:bg-green-700 text-white rounded-md transition-colors font-medium text-sm"
+          >
+            Resume Scenario
+          </button>
+        )}
+        {isActive && (
+          <button
+            type="button"
+            onClick={() => handleControl(onAbort)}
+            className="flex-1 py-2 px-4 bg-red-600 hover:bg-red-700 text-white rounded-md transition-colors font-medium text-sm"
+          >
+            Abort
+          </button>
+        )}
+      </div>
+
+      {progress && (
+        <div className="bg-gray-800 p-3 rounded-md border border-gray-700 space-y-2">
+          <div className="flex justify-between text-sm">
+            <span className="text-gray-300">{progress.name}</span>
+            <span className="text-gray-400 capitalize">{progress.status}</span>
+          </div>
+          <div className="w-full h-2 bg-gray-700 rounded-full overflow-hidden">
+            <div className="h-full bg-blue-500 transition-all" style={{ width: `${progressPercent}%` }} />
+          </div>
+          <div className="flex justify-between text-xs text-gray-400">
+            <span>Step {Math.min(progress.stepIndex + 1, progress.stepCount)} of {progress.stepCount}</span>
+            <span>{formatSeconds(progress.elapsedSeconds)} / {formatSeconds(progress.totalSeconds)}</span>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ScenarioPanel;
@@ -0,0 +1,150 @@
+/**
+ * Setup Transfer Component
+ *
+ * Exports the ticker setup as JSON and price histories as CSV, and imports
+ * them again, to move demo setups between machines and environments.
+ */
+
+import React, { useRef, useState, ChangeEvent } from 'react';
+import { ChartTimeRange, PricePoint, StockInfo, TickerSetup, ValidationResult } from '../lib/types';
+import { TRANSFER_LIMITS, parseHistoryCsv, parseSetup, serializeHistoryCsv, serializeSetup } from '../lib/setupTransfer';
+import { downloadTextFile, readTextFile } from '../utils/fileTransfer';
+
+interface SetupTransferProps {
+  stocks: StockInfo[];
+  onExportSetup: () => TickerSetup;
+  onImportSetup: (setup: TickerSetup) => ValidationResult;
+  onImportHistory: (histories: Record<string, PricePoint[]>) => ValidationResult;
+  getHistory: (symbol: string, range?: ChartTimeRange) => PricePoint[];
+}
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+const SetupTransfer: React.FC<SetupTransferProps> = ({ stocks, onExportSetup, onImportSetup, onImportHistory, getHistory }) => {
+  const [error, setError] = useState('');
+  const [message, setMessage] = useState('');
+  const setupInputRef = useRef<HTMLInputElement>(null);
+  const historyInputRef = useRef<HTMLInputElement>(null);
+
+  const report = (result: ValidationResult, success: string) => {
+    setError(result.isValid ? '' : result.errorMessage || 'Import failed');
+    setMessage(result.isValid ? success : '');
+  };
+
+  const handleExportSetup = () => {
+    downloadTextFile(`ticker-setup-${today()}.json`, serializeSetup(onExportSetup()));
+  };
+
+  const handleExportHistory = () => {
+    const csv = serializeHistoryCsv(stocks, stock => getHistory(stock.symbol, 'all'));
+    downloadTextFile(`price-history-${today()}.csv`, csv, 'text/csv');
+  };
+
+  // Read a chosen file, refusing ones too large to be a ticker export
+  const readFile = async (e: ChangeEvent<HTMLInputElement>): Promise<string | null> => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Allow importing the same file again
+    if (!file) return null;
+    if (file.size > TRANSFER_LIMITS.MAX_FILE_BYTES) {
+      setError(`${file.name} is larger than ${TRANSFER_LIMITS.MAX_FILE_BYTES / (1024 * 1024)} MB`);
+      setMessage('');
+      return null;
+    }
+    return readTextFile(file);
+  };
+
+  const handleImportSetup = async (e: ChangeEvent<HTMLInputElement>) => {
+    try {
+      const text = await readFile(e);
+      if (text === null) return;
+
+      const result = parseSetup(text);
+      if (!result.isValid || !result.setup) {
+        report(result, '');
+        return;
+      }
+      if (!window.confirm(`Replace the current ${stocks.length} stocks with the ${result.setup.stocks.length} in this setup?`)) {
+        return;
+      }
+      report(onImportSetup(result.setup), `Imported ${result.setup.stocks.length} stocks${result.setup.scenario ? ' and a paused scenario' : ''}`);
+    } catch (err) {
+      setError(`Error importing setup: ${err instanceof Error ? err.message : String(err)}`);
+      setMessage('');
+    }
+  };
+
+  const handleImportHistory = async (e: ChangeEvent<HTMLInputElement>) => {
+    try {
+      const text = await readFile(e);
+      if (text === null) return;
+
+      const result = parseHistoryCsv(text, stocks);
+      if (!result.isValid || !result.histories) {
+        report(result, '');
+        return;
+      }
+      const counts = Object.entries(result.histories).map(([symbol, points]) => `${symbol} (${points.length})`);
+      report(onImportHistory(result.histories), `Imported price history for ${counts.join(', ')}`);
+    } catch (err) {
+      setError(`Error importing price history: ${err instanceof Error ? err.message : String(err)}`);
+      setMessage('');
+    }
+  };
+
+  const buttonClass = 'px-3 py-1 bg-gray-700 hover:bg-gray-600 disabled:opacity-50 text-white rounded-md text-sm transition-colors';
+
+  return (
+    <div className="space-y-3">
+      {error && <div className="p-2 bg-red-900 text-red-100 text-sm rounded-md">{error}</div>}
+      {message && <div className="p-2 bg-green-900 text-green-100 text-sm rounded-md">{message}</div>}
+
+      <div>
+        <h4 className="text-sm font-medium text-gray-300 mb-2">Setup (JSON)</h4>
+        <div className="flex flex-wrap gap-2">
+          <button type="button" onClick={handleExportSetup} disabled={stocks.length === 0} className={buttonClass}>
+            Export setup
+          </button>
+          <button type="button" onClick={() => setupInputRef.current?.click()} className={buttonClass}>
+            Import setup…
+          </button>
+          <input
+            ref={setupInputRef}
+            type="file"
+            accept=".json,application/json"
+            onChange={handleImportSetup}
+            className="hidden"
+            aria-label="Import setup file"
+          />
+        </div>
+        <p className="text-xs text-gray-400 mt-1">
+          Stocks with their prices, recent history, price models and indicators, the update interval, display currency and the active scenario.
+        </p>
+      </div>
+
+      <div>
+        <h4 className="text-sm font-medium text-gray-300 mb-2">Price history (CSV)</h4>
+        <div className="flex flex-wrap gap-2">
+          <button type="button" onClick={handleExportHistory} disabled={stocks.length === 0} className={buttonClass}>
+            Export history
+          </button>
+          <button type="button" onClick={() => historyInputRef.current?.click()} disabled={stocks.length === 0} className={buttonClass}>
+            Import history…
+          </button>
+          <input
+            ref={historyInputRef}
+            type="file"
+            accept=".csv,text/csv"
+            onChange={handleImportHistory}
+            className="hidden"
+            aria-label="Import price history file"
+          />
+        </div>
+        <p className="text-xs text-gray-400 mt-1">
+          Columns <code>symbol,currency,timestamp,price</code>, prices in each stock's listing currency. Imported rows must belong to stocks on the ticker.
+        </p>
+      </div>
+    </div>
+  );
+};
+
+export default SetupTransfer;
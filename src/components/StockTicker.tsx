@@ -1,5 +1,6 @@
 import React, { useEffect, useRef, useState } from 'react';
-import { StockInfo, formatPrice } from '../lib/types';
+import { StockInfo, formatPrice, getStockCurrency } from '../lib/types';
+import ExchangeBadge from './ExchangeBadge';
 import { useTickerContext } from '../lib/context';
 
 // Utility function to format price changes
@@ -51,7 +52,8 @@ type StockTickerItemProps = {
 const StockTickerItem: React.FC<StockTickerItemProps> = ({ stock, isSelected, onSelect }) => {
   const { tickerState } = useTickerContext();
   const { symbol, name, currentPrice, percentChange, lastUpdated } = stock;
-  const { isPaused } = tickerState;
+  const { isPaused, selectedCurrency } = tickerState;
+  const listingCurrency = getStockCurrency(stock);
   const priceRef = useRef<HTMLSpanElement>(null);
   const [prevPrice, setPrevPrice] = useState<number>(currentPrice);
   
@@ -108,6 +110,7 @@ const StockTickerItem: React.FC<StockTickerItemProps> = ({ stock, isSelected, on
             symbol === 'B&O' ? 'text-yellow-400' : 'text-white'
           }`}>
             {symbol}
+            <ExchangeBadge stock={stock} />
             {/* Small pause indicator next to symbol */}
             {isPaused && (
               <span className="text-xs text-yellow-400">⏸</span>
@@ -118,8 +121,13 @@ const StockTickerItem: React.FC<StockTickerItemProps> = ({ stock, isSelected, on
         
         <div className="text-right">
           <span className={`text-lg font-bold block ${getPriceColorBasedOnInitial(stock.currentPrice, stock.initialPrice)}`} ref={priceRef}>
-            {formatPrice(currentPrice, tickerState.selectedCurrency)}
+            {formatPrice(currentPrice, selectedCurrency, 2, listingCurrency)}
           </span>
+          {listingCurrency !== selectedCurrency && (
+            <span className="text-xs text-gray-400 block" title={`Listed in ${listingCurrency}`}>
+              {formatPrice(currentPrice, listingCurrency)}
+            </span>
+          )}
           
           <div className={`flex items-center text-base ${getPriceChangeClasses(percentChange || 0)}`}>
             {(percentChange || 0) > 0 ? (
@@ -149,13 +157,19 @@ const StockTickerItem: React.FC<StockTickerItemProps> = ({ stock, isSelected, on
 
 interface StockTickerListProps {
   stocks: StockInfo[];
+  // When provided, stocks can be reordered by drag and drop
+  onReorder?: (fromIndex: number, toIndex: number) => void;
 }
 
 // Main stock ticker list component
-export const StockTickerList: React.FC<StockTickerListProps> = ({ stocks }) => {
+export const StockTickerList: React.FC<StockTickerListProps> = ({ stocks, onReorder }) => {
   const { tickerState, selectStock } = useTickerContext();
   const { selectedStock } = tickerState;
   
+  // Drag and drop state: the item being dragged and the position it would be dropped at
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [dropIndex, setDropIndex] = useState<number | null>(null);
+  
   // If no stocks are provided, show a message
   if (!stocks || stocks.length === 0) {
     return (
@@ -191,7 +205,39 @@ export const StockTickerList: React.FC<StockTickerListProps> = ({ stocks }) => {
       aria-label="Stock ticker list"
     >
       {stocks.map((stock, index) => (
-        <div key={stock.symbol} onKeyDown={(e) => handleKeyNavigation(e, index)}>
+        <div
+          key={stock.symbol}
+          onKeyDown={(e) => handleKeyNavigation(e, index)}
+          draggable={Boolean(onReorder)}
+          onDragStart={(e) => {
+            e.dataTransfer.effectAllowed = 'move';
+            e.dataTransfer.setData('text/plain', stock.symbol);
+            setDragIndex(index);
+          }}
+          onDragOver={(e) => {
+            if (dragIndex === null) return;
+            e.preventDefault(); // Allow dropping here
+            e.dataTransfer.dropEffect = 'move';
+            setDropIndex(index);
+          }}
+          onDrop={(e) => {
+            e.preventDefault();
+            if (onReorder && dragIndex !== null && dragIndex !== index) {
+              onReorder(dragIndex, index);
+            }
+            setDragIndex(null);
+            setDropIndex(null);
+          }}
+          onDragEnd={() => {
+            setDragIndex(null);
+            setDropIndex(null);
+          }}
+          className={`${onReorder ? 'cursor-grab' : ''} ${dragIndex === index ? 'opacity-50' : ''} ${
+            dropIndex === index && dragIndex !== null && dragIndex !== index
+              ? (dragIndex < index ? 'border-b-2 border-blue-500' : 'border-t-2 border-blue-500')
+              : ''
+          }`}
+        >
           <StockTickerItem 
             stock={stock} 
             isSelected={selectedStock === stock.symbol}
@@ -0,0 +1,53 @@
+/**
+ * Storage Status Component
+ *
+ * Compact badge showing where saved state and price history are kept, how
+ * much of the browser's quota they use, and a warning when the last save
+ * failed because storage is full.
+ */
+
+import React from 'react';
+import { StorageStatus as StorageStatusInfo } from '../lib/types';
+
+interface StorageStatusProps {
+  storage: StorageStatusInfo;
+  className?: string;
+}
+
+const BACKEND_LABELS = {
+  localStorage: 'local storage',
+  indexedDB: 'IndexedDB',
+} as const;
+
+/**
+ * Format a byte count, e.g. "512 KB" or "1.2 MB"
+ */
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(1)} GB`;
+}
+
+const StorageStatus: React.FC<StorageStatusProps> = ({ storage, className = '' }) => {
+  const { backends, usageBytes, quotaBytes, lastSavedAt, quotaError } = storage;
+  const tone = quotaError
+    ? 'bg-red-900 text-red-100 border-red-600'
+    : 'bg-gray-800 text-gray-300 border-gray-700';
+
+  const title = [
+    backends.length > 0 ? `Saved in ${backends.map(backend => BACKEND_LABELS[backend]).join(' and ')}` : 'Storage not ready',
+    usageBytes !== undefined && quotaBytes ? `${formatBytes(usageBytes)} used of ${formatBytes(quotaBytes)}` : '',
+    lastSavedAt ? `Last saved ${new Date(lastSavedAt).toLocaleTimeString()}` : '',
+    quotaError ?? '',
+  ].filter(Boolean).join('\n');
+
+  return (
+    <span className={`inline-flex items-center gap-1 px-2 py-0.5 rounded-full border text-xs ${tone} ${className}`} title={title}>
+      {quotaError ? 'Storage full' : `Storage ${backends.includes('indexedDB') ? 'IndexedDB' : 'local'}`}
+      {usageBytes !== undefined && <span>· {formatBytes(usageBytes)}</span>}
+    </span>
+  );
+};
+
+export default StorageStatus;
@@ -0,0 +1,90 @@
+/**
+ * Sync Status Component
+ *
+ * Shows local edits still waiting to be sent to the API server, edits the
+ * server refused, which can be retried or discarded, and the conflicts found
+ * while merging the server's state: fields changed both here and on the server.
+ */
+
+import React from 'react';
+import { SyncState } from '../lib/types';
+
+interface SyncStatusProps {
+  sync: SyncState;
+  onDismiss: (id: string) => void;
+  onClear: () => void;
+  onRetry: (id: string) => void;
+  onDiscard: (id: string) => void;
+}
+
+const SyncStatus: React.FC<SyncStatusProps> = ({ sync, onDismiss, onClear, onRetry, onDiscard }) => {
+  const { pendingEdits, failedEdits, conflicts, connection } = sync;
+
+  return (
+    <div className="p-3 bg-gray-800 rounded-md border border-gray-700 space-y-2">
+      <div className="flex items-center justify-between">
+        <span className="text-sm font-medium text-gray-300">Sync</span>
+        <span className={`text-xs ${pendingEdits.length > 0 ? 'text-yellow-400' : 'text-gray-400'}`}>
+          {connection === 'offline' && 'Server unreachable · '}
+          {pendingEdits.length === 0
+            ? 'All changes sent'
+            : `${pendingEdits.length} change${pendingEdits.length === 1 ? '' : 's'} waiting for the server`}
+        </span>
+      </div>
+
+      {failedEdits.length > 0 && (
+        <div className="space-y-1">
+          <span className="text-xs font-medium text-red-400">Refused by the server</span>
+          <ul className="space-y-1">
+            {failedEdits.map(({ edit, message, failedAt }) => (
+              <li key={edit.id} className="flex items-start justify-between gap-2 text-xs p-2 bg-gray-900 rounded border border-red-800">
+                <span className="text-gray-200">
+                  {message}
+                  <span className="block text-gray-500">{new Date(failedAt).toLocaleTimeString()}</span>
+                </span>
+                <span className="flex gap-2 shrink-0">
+                  <button onClick={() => onRetry(edit.id)} className="text-blue-400 hover:text-blue-300">
+                    Retry
+                  </button>
+                  <button onClick={() => onDiscard(edit.id)} className="text-gray-400 hover:text-white">
+                    Discard
+                  </button>
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {conflicts.length > 0 && (
+        <div className="space-y-1">
+          <div className="flex items-center justify-between">
+            <span className="text-xs font-medium text-orange-400">Conflicts</span>
+            <button onClick={onClear} className="text-xs text-gray-400 hover:text-white">
+              Clear all
+            </button>
+          </div>
+          <ul className="space-y-1">
+            {conflicts.map(conflict => (
+              <li key={conflict.id} className="flex items-start justify-between gap-2 text-xs p-2 bg-gray-900 rounded border border-orange-800">
+                <span className="text-gray-200">
+                  {conflict.message}
+                  <span className="block text-gray-500">{new Date(conflict.detectedAt).toLocaleTimeString()}</span>
+                </span>
+                <button
+                  onClick={() => onDismiss(conflict.id)}
+                  className="text-gray-400 hover:text-white"
+                  aria-label="Dismiss conflict"
+                >
+                  ✕
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SyncStatus;
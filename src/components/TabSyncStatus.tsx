@@ -0,0 +1,37 @@
+/**
+ * Tab Sync Status Component
+ *
+ * Compact badge shown when the ticker is open in several tabs: whether this
+ * tab runs the simulation or mirrors the tab that does.
+ */
+
+import React from 'react';
+import { TabSyncStatus as TabSyncStatusInfo } from '../lib/types';
+
+interface TabSyncStatusProps {
+  tabSync: TabSyncStatusInfo;
+  className?: string;
+}
+
+const TabSyncStatus: React.FC<TabSyncStatusProps> = ({ tabSync, className = '' }) => {
+  if (tabSync.role === 'solo' || tabSync.tabCount < 2) {
+    return null;
+  }
+
+  const isLeader = tabSync.role === 'leader';
+  const title = isLeader
+    ? `This tab runs the ticker for ${tabSync.tabCount} open tabs; controls used in the others are applied here`
+    : `This tab shows the ticker running in another tab; if that tab closes, one of the ${tabSync.tabCount} open tabs takes over`;
+
+  return (
+    <span
+      className={`inline-flex items-center gap-1 px-2 py-0.5 rounded-full border text-xs bg-gray-800 text-gray-300 border-gray-700 ${className}`}
+      title={title}
+    >
+      <span className={`w-2 h-2 rounded-full ${isLeader ? 'bg-green-400' : 'bg-blue-400'}`}></span>
+      {isLeader ? `Leading ${tabSync.tabCount} tabs` : 'Following another tab'}
+    </span>
+  );
+};
+
+export default TabSyncStatus;
@@ -0,0 +1,185 @@
+/**
+ * Watchlist Tabs Component
+ *
+ * Switches the ticker between all stocks and named watchlists, and
+ * lets users create, rename and delete watchlists and choose which
+ * stocks appear in each one.
+ */
+
+import React, { useEffect, useState, FormEvent } from 'react';
+import { StockInfo, ValidationResult, Watchlist } from '../lib/types';
+
+interface WatchlistTabsProps {
+  stocks: StockInfo[];
+  watchlists: Watchlist[];
+  activeWatchlistId?: string;
+  onSelect: (id: string | null) => ValidationResult;
+  onCreate: (name: string, symbols?: string[]) => ValidationResult;
+  onRename: (id: string, name: string) => ValidationResult;
+  onDelete: (id: string) => ValidationResult;
+  onSetSymbols: (id: string, symbols: string[]) => ValidationResult;
+}
+
+const tabClass = (active: boolean) =>
+  `px-3 py-1 rounded-full text-sm font-medium transition-colors ${
+    active ? 'bg-blue-600 text-white' : 'bg-gray-800 text-gray-300 hover:bg-gray-700'
+  }`;
+
+const WatchlistTabs: React.FC<WatchlistTabsProps> = ({
+  stocks,
+  watchlists,
+  activeWatchlistId,
+  onSelect,
+  onCreate,
+  onRename,
+  onDelete,
+  onSetSymbols,
+}) => {
+  const activeWatchlist = watchlists.find(watchlist => watchlist.id === activeWatchlistId);
+  const [isCreating, setIsCreating] = useState(false);
+  const [isEditing, setIsEditing] = useState(false);
+  const [name, setName] = useState('');
+  const [error, setError] = useState('');
+
+  // Close the editor when switching lists
+  useEffect(() => {
+    setIsEditing(false);
+    setError('');
+  }, [activeWatchlistId]);
+
+  const report = (result: ValidationResult): boolean => {
+    setError(result.isValid ? '' : result.errorMessage || 'Watchlist update failed');
+    return result.isValid;
+  };
+
+  const handleCreate = (e: FormEvent) => {
+    e.preventDefault();
+    if (report(onCreate(name))) {
+      setName('');
+      setIsCreating(false);
+      setIsEditing(true); // Straight into choosing stocks
+    }
+  };
+
+  const handleRename = (e: FormEvent) => {
+    e.preventDefault();
+    if (activeWatchlist) {
+      report(onRename(activeWatchlist.id, name));
+    }
+  };
+
+  const handleToggleSymbol = (symbol: string, checked: boolean) => {
+    if (!activeWatchlist) return;
+    const symbols = checked
+      ? [...activeWatchlist.symbols, symbol]
+      : activeWatchlist.symbols.filter(s => s !== symbol);
+    report(onSetSymbols(activeWatchlist.id, symbols));
+  };
+
+  const handleDelete = () => {
+    if (activeWatchlist && confirm(`Delete the watchlist "${activeWatchlist.name}"? Its stocks stay on the ticker.`)) {
+      report(onDelete(activeWatchlist.id));
+    }
+  };
+
+  return (
+    <div className="mb-3 space-y-2">
+      <div className="flex flex-wrap items-center gap-2" role="tablist" aria-label="Watchlists">
+        <button role="tab" aria-selected={!activeWatchlist} onClick={() => onSelect(null)} className={tabClass(!activeWatchlist)}>
+          All ({stocks.length})
+        </button>
+        {watchlists.map(watchlist => (
+          <button
+            key={watchlist.id}
+            role="tab"
+            aria-selected={watchlist.id === activeWatchlistId}
+            onClick={() => onSelect(watchlist.id)}
+            className={tabClass(watchlist.id === activeWatchlistId)}
+          >
+            {watchlist.name} ({watchlist.symbols.length})
+          </button>
+        ))}
+
+        {isCreating ? (
+          <form onSubmit={handleCreate} className="flex items-center gap-1">
+            <input
+              autoFocus
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="e.g. Tech"
+              aria-label="Watchlist name"
+              className="w-32 px-2 py-1 border border-gray-700 rounded-md bg-black text-white text-sm"
+            />
+            <button type="submit" className="px-2 py-1 bg-blue-600 hover:bg-blue-700 text-white rounded-md text-sm">
+              Add
+            </button>
+            <button
+              type="button"
+              onClick={() => { setIsCreating(false); setName(''); setError(''); }}
+              className="px-2 py-1 text-gray-400 hover:text-white text-sm"
+            >
+              Cancel
+            </button>
+          </form>
+        ) : (
+          <button
+            onClick={() => { setIsCreating(true); setIsEditing(false); setName(''); }}
+            className="px-3 py-1 rounded-full text-sm text-gray-400 border border-dashed border-gray-600 hover:text-white hover:border-gray-400"
+          >
+            + New list
+          </button>
+        )}
+
+        {activeWatchlist && !isCreating && (
+          <button
+            onClick={() => { setIsEditing(!isEditing); setName(activeWatchlist.name); setError(''); }}
+            className="ml-auto text-sm text-gray-400 hover:text-white"
+          >
+            {isEditing ? 'Done' : 'Edit list'}
+          </button>
+        )}
+      </div>
+
+      {error && (
+        <div className="p-2 bg-red-900 text-red-100 text-sm rounded-md">
+          {error}
+        </div>
+      )}
+
+      {activeWatchlist && isEditing && (
+        <div className="bg-gray-900 p-3 rounded-md border border-gray-700 space-y-3">
+          <form onSubmit={handleRename} className="flex items-center gap-2">
+            <input
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              aria-label="Rename watchlist"
+              className="flex-1 px-2 py-1 border border-gray-700 rounded-md bg-black text-white text-sm"
+            />
+            <button type="submit" className="px-3 py-1 bg-gray-700 hover:bg-gray-600 text-white rounded-md text-sm">
+              Rename
+            </button>
+            <button type="button" onClick={handleDelete} className="px-3 py-1 bg-red-700 hover:bg-red-600 text-white rounded-md text-sm">
+              Delete
+            </button>
+          </form>
+
+          <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+            {stocks.map(stock => (
+              <label key={stock.symbol} className="flex items-center gap-2 text-sm text-gray-300">
+                <input
+                  type="checkbox"
+                  checked={activeWatchlist.symbols.includes(stock.symbol)}
+                  onChange={(e) => handleToggleSymbol(stock.symbol, e.target.checked)}
+                />
+                <span className="font-mono">{stock.symbol}</span>
+              </label>
+            ))}
+          </div>
+          <p className="text-xs text-gray-500">Drag stocks in the list below to reorder this watchlist.</p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default WatchlistTabs;
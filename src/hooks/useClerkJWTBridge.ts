@@ -26,6 +26,9 @@ export const useJWTAuth = () => {
   
   // Ref to prevent multiple simultaneous authentication attempts
   const isAuthenticatingRef = useRef(false);
+  
+  // Bumped to run the bridge again after a failure, e.g. while the API server is still starting up
+  const [retryAttempt, setRetryAttempt] = useState(0);
 
   // Bridge auth to JWT server (for both Clerk users and anonymous users)
   useEffect(() => {
@@ -132,7 +135,7 @@ export const useJWTAuth = () => {
 
     // Trigger authentication immediately when Clerk loads, regardless of sign-in status
     bridgeAuthentication();
-  }, [isLoaded, isSignedIn, user, getToken]);
+  }, [isLoaded, isSignedIn, user, getToken, retryAttempt]);
 
   // Auto-retry bridge on error after delay (but with exponential backoff)
   useEffect(() => {
@@ -153,6 +156,7 @@ export const useJWTAuth = () => {
           ...prev,
           error: null
         }));
+        setRetryAttempt(prev => prev + 1);
       }, delay);
 
       return () => clearTimeout(retryTimer);
@@ -0,0 +1,281 @@
+/**
+ * Alert Engine for Price Alerts
+ *
+ * Evaluates alert rules (price thresholds, percent moves and moving-average
+ * crossovers) against the current stocks. Evaluation is pure: TickerProvider
+ * runs it whenever prices change and stores the updated alerts and any new
+ * alert events, then delivers the events as toasts and browser notifications.
+ */
+
+import {
+  AlertEvent,
+  AlertRule,
+  AlertRuleType,
+  Currency,
+  NewPriceAlert,
+  PriceAlert,
+  PricePoint,
+  StockInfo,
+  ValidationResult,
+  formatPrice,
+  getStockCurrency,
+  sanitizeStockSymbol,
+  validateStockSymbol,
+} from './types';
+import { sma, MAX_INDICATOR_PERIOD } from '../utils/indicators';
+
+export const ALERT_LIMITS = {
+  MAX_ALERTS: 50,
+  MAX_EVENTS: 20,
+  MAX_PERCENT: 1000,
+  MAX_WINDOW_MINUTES: 24 * 60,
+  MAX_COOLDOWN_SECONDS: 24 * 60 * 60,
+};
+
+export const ALERT_RULE_LABELS: Record<AlertRuleType, string> = {
+  priceAbove: 'Price above',
+  priceBelow: 'Price below',
+  percentChange: 'Percent change',
+  maCrossover: 'Moving average crossover',
+};
+
+/**
+ * Default rule for each rule type, used to seed the alert form
+ */
+export const DEFAULT_ALERT_RULES: Record<AlertRuleType, AlertRule> = {
+  priceAbove: { type: 'priceAbove', price: 100 },
+  priceBelow: { type: 'priceBelow', price: 100 },
+  percentChange: { type: 'percentChange', percent: 5 },
+  maCrossover: { type: 'maCrossover', fastPeriod: 5, slowPeriod: 20, direction: 'either' },
+};
+
+const isPositiveInteger = (value: unknown, max: number): boolean =>
+  typeof value === 'number' && Number.isInteger(value) && value >= 1 && value <= max;
+
+/**
+ * Validate an alert rule
+ */
+export function validateAlertRule(rule: unknown): ValidationResult {
+  if (!rule || typeof rule !== 'object') {
+    return { isValid: false, errorMessage: 'Alert rule must be an object' };
+  }
+
+  const candidate = rule as AlertRule;
+  switch (candidate.type) {
+    case 'priceAbove':
+    case 'priceBelow':
+      if (typeof candidate.price !== 'number' || !isFinite(candidate.price) || candidate.price <= 0) {
+        return { isValid: false, errorMessage: 'Alert price must be a positive number' };
+      }
+      return { isValid: true };
+
+    case 'percentChange':
+      if (
+        typeof candidate.percent !== 'number' ||
+        !isFinite(candidate.percent) ||
+        candidate.percent === 0 ||
+        Math.abs(candidate.percent) > ALERT_LIMITS.MAX_PERCENT
+      ) {
+        return {
+          isValid: false,
+          errorMessage: `Percent change must be non-zero and at most ${ALERT_LIMITS.MAX_PERCENT}% either way`,
+        };
+      }
+      if (candidate.windowMinutes !== undefined && !isPositiveInteger(candidate.windowMinutes, ALERT_LIMITS.MAX_WINDOW_MINUTES)) {
+        return {
+          isValid: false,
+          errorMessage: `Window must be a whole number of minutes between 1 and ${ALERT_LIMITS.MAX_WINDOW_MINUTES}`,
+        };
+      }
+      return { isValid: true };
+
+    case 'maCrossover':
+      if (!isPositiveInteger(candidate.fastPeriod, MAX_INDICATOR_PERIOD) || !isPositiveInteger(candidate.slowPeriod, MAX_INDICATOR_PERIOD)) {
+        return {
+          isValid: false,
+          errorMessage: `Moving average periods must be whole numbers between 1 and ${MAX_INDICATOR_PERIOD}`,
+        };
+      }
+      if (candidate.fastPeriod >= candidate.slowPeriod) {
+        return { isValid: false, errorMessage: 'The fast period must be shorter than the slow period' };
+      }
+      if (!['bullish', 'bearish', 'either'].includes(candidate.direction)) {
+        return { isValid: false, errorMessage: 'Crossover direction must be bullish, bearish or either' };
+      }
+      return { isValid: true };
+
+    default:
+      return { isValid: false, errorMessage: 'Unknown alert rule type' };
+  }
+}
+
+/**
+ * Validate the user-supplied fields of a new alert
+ */
+export function validateNewAlert(alert: NewPriceAlert): ValidationResult {
+  const symbolValidation = validateStockSymbol(sanitizeStockSymbol(alert.symbol ?? ''));
+  if (!symbolValidation.isValid) {
+    return symbolValidation;
+  }
+
+  const ruleValidation = validateAlertRule(alert.rule);
+  if (!ruleValidation.isValid) {
+    return ruleValidation;
+  }
+
+  if (
+    typeof alert.cooldownSeconds !== 'number' ||
+    !Number.isInteger(alert.cooldownSeconds) ||
+    alert.cooldownSeconds < 0 ||
+    alert.cooldownSeconds > ALERT_LIMITS.MAX_COOLDOWN_SECONDS
+  ) {
+    return {
+      isValid: false,
+      errorMessage: `Cooldown must be a whole number of seconds between 0 and ${ALERT_LIMITS.MAX_COOLDOWN_SECONDS}`,
+    };
+  }
+
+  return { isValid: true };
+}
+
+/**
+ * Create an alert from validated input, armed and enabled
+ */
+export function createAlert(input: NewPriceAlert, id: string, now: number): PriceAlert {
+  return {
+    id,
+    symbol: sanitizeStockSymbol(input.symbol),
+    rule: input.rule,
+    repeat: Boolean(input.repeat),
+    cooldownSeconds: input.cooldownSeconds,
+    enabled: true,
+    armed: true,
+    triggerCount: 0,
+    createdAt: now,
+  };
+}
+
+/**
+ * Human-readable description of a rule, e.g. "Price above $150.00".
+ * Price thresholds are in the stock's listing currency.
+ */
+export function describeAlertRule(rule: AlertRule, currency: Currency = 'USD'): string {
+  switch (rule.type) {
+    case 'priceAbove':
+      return `Price above ${formatPrice(rule.price, currency)}`;
+    case 'priceBelow':
+      return `Price below ${formatPrice(rule.price, currency)}`;
+    case 'percentChange': {
+      const move = `${rule.percent > 0 ? 'Up' : 'Down'} ${Math.abs(rule.percent)}%`;
+      return rule.windowMinutes ? `${move} in ${rule.windowMinutes}m` : `${move} from initial price`;
+    }
+    case 'maCrossover': {
+      const direction = rule.direction === 'either' ? '' : ` (${rule.direction})`;
+      return `SMA(${rule.fastPeriod}) crosses SMA(${rule.slowPeriod})${direction}`;
+    }
+  }
+}
+
+const timeOf = (point: PricePoint): number => new Date(point.timestamp).getTime();
+
+/**
+ * Whether a rule's condition holds for a stock right now
+ * @param history Price history of the stock, oldest first, ending with the current price
+ */
+export function isAlertConditionMet(rule: AlertRule, stock: StockInfo, history: PricePoint[], now: number): boolean {
+  const price = stock.currentPrice;
+
+  switch (rule.type) {
+    case 'priceAbove':
+      return price >= rule.price;
+
+    case 'priceBelow':
+      return price <= rule.price;
+
+    case 'percentChange': {
+      let reference = stock.initialPrice;
+      if (rule.windowMinutes) {
+        const cutoff = now - rule.windowMinutes * 60 * 1000;
+        const start = history.find(point => timeOf(point) >= cutoff);
+        if (!start) return false;
+        reference = start.price;
+      }
+      if (!reference) return false;
+      const change = ((price - reference) / reference) * 100;
+      return rule.percent > 0 ? change >= rule.percent : change <= rule.percent;
+    }
+
+    case 'maCrossover': {
+      // Only the tick on which the averages cross counts
+      const prices = history.slice(-(rule.slowPeriod + 1)).map(point => point.price);
+      if (prices.length < rule.slowPeriod + 1) return false;
+      const fast = sma(prices, rule.fastPeriod);
+      const slow = sma(prices, rule.slowPeriod);
+      const last = prices.length - 1;
+      const before = (fast[last - 1] as number) - (slow[last - 1] as number);
+      const after = (fast[last] as number) - (slow[last] as number);
+      const bullish = before <= 0 && after > 0;
+      const bearish = before >= 0 && after < 0;
+      return rule.direction === 'bullish' ? bullish : rule.direction === 'bearish' ? bearish : bullish || bearish;
+    }
+  }
+}
+
+/**
+ * Evaluate every enabled alert against the current stocks
+ * @param getHistory Returns a stock's price history, oldest first
+ * @returns The updated alerts (the same array when nothing changed) and any new events
+ */
+export function evaluateAlerts(
+  alerts: PriceAlert[],
+  stocks: StockInfo[],
+  now: number,
+  getHistory: (stock: StockInfo) => PricePoint[]
+): { alerts: PriceAlert[]; events: AlertEvent[] } {
+  const events: AlertEvent[] = [];
+  const histories = new Map<string, PricePoint[]>();
+  let changed = false;
+
+  const nextAlerts = alerts.map(alert => {
+    const stock = stocks.find(s => s.symbol === alert.symbol);
+    if (!alert.enabled || !stock) {
+      return alert;
+    }
+
+    const needsHistory = alert.rule.type === 'maCrossover' || (alert.rule.type === 'percentChange' && alert.rule.windowMinutes);
+    if (needsHistory && !histories.has(stock.symbol)) {
+      histories.set(stock.symbol, getHistory(stock));
+    }
+    const met = isAlertConditionMet(alert.rule, stock, histories.get(stock.symbol) ?? [], now);
+
+    if (!met) {
+      if (alert.armed) return alert;
+      changed = true;
+      return { ...alert, armed: true };
+    }
+
+    const coolingDown = alert.lastTriggeredAt !== undefined && now - alert.lastTriggeredAt < alert.cooldownSeconds * 1000;
+    if (!alert.armed || coolingDown) {
+      return alert;
+    }
+
+    changed = true;
+    events.push({
+      id: `${alert.id}-${now}`,
+      alertId: alert.id,
+      symbol: stock.symbol,
+      message: `${stock.symbol}: ${describeAlertRule(alert.rule, getStockCurrency(stock))} at ${formatPrice(stock.currentPrice, getStockCurrency(stock))}`,
+      price: stock.currentPrice,
+      timestamp: now,
+    });
+    return {
+      ...alert,
+      armed: false,
+      enabled: alert.repeat,
+      triggerCount: alert.triggerCount + 1,
+      lastTriggeredAt: now,
+    };
+  });
+
+  return { alerts: changed ? nextAlerts : alerts, events };
+}
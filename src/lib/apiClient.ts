@@ -0,0 +1,437 @@
+/**
+ * API Client
+ *
+ * Typed access to the API server's /api/remote routes, shared by the ticker
+ * and the remote control panels. Each call adds the auth headers, applies a
+ * timeout, validates the response against a schema and resolves to an
+ * ApiResult: either the typed data, or an ApiError saying what went wrong
+ * (the server was unreachable, refused the request, or sent data the client
+ * cannot use). Calls never throw.
+ */
+
+import {
+  Infer,
+  Schema,
+  array,
+  boolean,
+  lenient,
+  number,
+  object,
+  oneOf,
+  optional,
+  record,
+  refine,
+  string,
+  union,
+  unknown,
+} from './apiSchema';
+import { Currency, EXCHANGE_CODES, ExchangeCode, InstrumentType, validateCurrency } from './types';
+
+// API endpoint configurations
+export const API_ENDPOINTS = {
+  STOCKS: '/api/remote/stocks',
+  STOCK_GROUPS: '/api/remote/stocks/groups',
+  FX_RATES: '/api/remote/fx-rates',
+  CONTROLS: '/api/remote/controls',
+  AUTH: '/api/remote/auth',
+  STATUS: '/api/remote/status',
+  RESTART: '/api/remote/restart',
+  STREAM: '/api/remote/stream',
+  STREAM_TICKET: '/api/remote/stream/ticket'
+} as const;
+
+// Routes used by the remote control panels only
+const PANEL_ROUTES = {
+  BULK: '/api/remote/stocks/bulk',
+  PAUSE: '/api/remote/controls/pause',
+  RESUME: '/api/remote/controls/resume',
+  USER: '/api/remote/user',
+} as const;
+
+export const API_CLIENT_DEFAULTS = {
+  TIMEOUT_MS: 10000,
+} as const;
+
+const INSTRUMENT_TYPE_CODES: readonly InstrumentType[] = ['equity', 'etf', 'index', 'crypto', 'fx'];
+
+const price = () => refine(number(), value => value > 0, 'a positive number');
+const timestamp = () => refine(string(), value => !isNaN(Date.parse(value)), 'a date');
+// Checked against the active rates, so only currencies that can be converted get in
+const currency = () => refine<Currency>(string(), value => validateCurrency(value).isValid, 'a currency with an exchange rate');
+// Version of each field at its last change on the server; older servers send none
+const versions = () => lenient(record(number()));
+
+// Listing currency and instrument identity are optional: unknown values are dropped
+export const apiStockSchema = object({
+  symbol: string(),
+  name: string(),
+  currentPrice: price(),
+  previousPrice: lenient(price()),
+  initialPrice: lenient(price()),
+  percentChange: lenient(number()),
+  percentageChange: lenient(number()),
+  change: lenient(number()),
+  volume: lenient(number()),
+  currency: lenient(currency()),
+  instrumentType: lenient(oneOf(INSTRUMENT_TYPE_CODES)),
+  exchange: lenient(oneOf<ExchangeCode>(EXCHANGE_CODES)),
+  lastUpdated: optional(timestamp()),
+  priceHistory: optional(array(object({ timestamp: timestamp(), price: price() }))),
+  versions: versions(),
+});
+
+export const apiStockGroupSchema = object({
+  id: string(),
+  name: string(),
+  symbols: array(string()),
+});
+
+export const apiControlsSchema = object({
+  isPaused: boolean(),
+  updateIntervalMs: refine(number(), value => value > 0, 'a positive number'),
+  selectedCurrency: currency(),
+  isEmergencyStopped: lenient(boolean()),
+  volatility: lenient(number()),
+  lastUpdated: lenient(string()),
+  versions: versions(),
+});
+
+const apiUserSchema = object({
+  // Numeric on the JWT server, a Clerk user id otherwise
+  id: lenient(union(string(), number())),
+  username: lenient(string()),
+  email: lenient(string()),
+  role: lenient(string()),
+});
+
+export type ApiStock = Infer<typeof apiStockSchema>;
+export type ApiStockGroup = Infer<typeof apiStockGroupSchema>;
+export type ApiControls = Infer<typeof apiControlsSchema>;
+export type ApiUser = Infer<typeof apiUserSchema>;
+
+const stocksResponseSchema = object({
+  stocks: array(apiStockSchema),
+  groups: lenient(array(apiStockGroupSchema)),
+});
+
+const stockResponseSchema = object({ stock: apiStockSchema });
+
+const removeStockResponseSchema = object({ deletedStock: lenient(apiStockSchema) });
+
+const bulkUpdateResponseSchema = object({
+  updatedCount: lenient(number()),
+  updatedStocks: lenient(array(string())),
+  changes: lenient(array(string())),
+});
+
+const stockGroupsResponseSchema = object({ groups: array(apiStockGroupSchema) });
+
+const streamTicketResponseSchema = object({
+  ticket: string(),
+  expiresInMs: lenient(number()),
+});
+
+const controlsResponseSchema = object({
+  controls: apiControlsSchema,
+  changes: lenient(array(string())),
+  message: lenient(string()),
+});
+
+// Older servers answer pause/resume/restart without the new state
+const actionResponseSchema = object({
+  controls: lenient(apiControlsSchema),
+  message: lenient(string()),
+  restartedBy: lenient(string()),
+});
+
+const loginResponseSchema = object({
+  token: string(),
+  sessionId: lenient(string()),
+  user: lenient(apiUserSchema),
+});
+
+const userResponseSchema = object({
+  user: lenient(apiUserSchema),
+  authMethod: lenient(string()),
+});
+
+export type StocksResponse = Infer<typeof stocksResponseSchema>;
+export type ControlsResponse = Infer<typeof controlsResponseSchema>;
+export type ActionResponse = Infer<typeof actionResponseSchema>;
+export type BulkUpdateResponse = Infer<typeof bulkUpdateResponseSchema>;
+export type LoginResponse = Infer<typeof loginResponseSchema>;
+export type UserResponse = Infer<typeof userResponseSchema>;
+export type StreamTicketResponse = Infer<typeof streamTicketResponseSchema>;
+
+export interface NewApiStock {
+  symbol: string;
+  name: string;
+  initialPrice: number;
+  currency?: Currency;
+  instrumentType?: InstrumentType;
+  exchange?: ExchangeCode;
+}
+
+export interface BulkUpdateRequest {
+  updateType: string;
+  percentage?: number;
+  // Only the stocks in this group
+  group?: string;
+}
+
+export type ControlsUpdate = Partial<Pick<ApiControls, 'isPaused' | 'updateIntervalMs' | 'selectedCurrency' | 'volatility'>>;
+
+export type ApiErrorKind =
+  | 'not-configured'
+  // No credentials, or the server rejected them (401)
+  | 'unauthorized'
+  | 'forbidden'
+  | 'not-found'
+  | 'http'
+  | 'network'
+  | 'timeout'
+  | 'aborted'
+  // The server answered, but not with data the client can use
+  | 'invalid-response';
+
+export interface ApiError {
+  kind: ApiErrorKind;
+  message: string;
+  // HTTP status, when the server answered
+  status?: number;
+}
+
+export type ApiResult<T> =
+  | { ok: true; status: number; data: T }
+  | { ok: false; error: ApiError };
+
+export interface ApiRequestOptions {
+  signal?: AbortSignal;
+  timeoutMs?: number;
+  // Use this token instead of the client's credentials
+  token?: string;
+  // Send no credentials at all
+  anonymous?: boolean;
+  // Lets the server recognise a retried mutation and not apply it twice
+  idempotencyKey?: string;
+}
+
+export interface ApiClientOptions {
+  // Server origin; the routes are appended to it
+  baseUrl: string | (() => string);
+  // Auth headers for a request, or null when not signed in
+  getAuthHeaders?: () => Record<string, string> | null | Promise<Record<string, string> | null>;
+  // Called when the server rejects the credentials
+  onUnauthorized?: () => void;
+  timeoutMs?: number;
+  fetchFn?: typeof fetch;
+}
+
+const failure = <T>(kind: ApiErrorKind, message: string, status?: number): ApiResult<T> =>
+  ({ ok: false, error: status === undefined ? { kind, message } : { kind, message, status } });
+
+const STATUS_KINDS: Record<number, ApiErrorKind> = {
+  401: 'unauthorized',
+  403: 'forbidden',
+  404: 'not-found',
+};
+
+export class ApiClient {
+  private readonly fetchFn: typeof fetch;
+
+  constructor(private readonly options: ApiClientOptions) {
+    this.fetchFn = options.fetchFn ?? ((...args) => fetch(...args));
+  }
+
+  getStocks(options?: ApiRequestOptions): Promise<ApiResult<StocksResponse>> {
+    return this.request('GET', API_ENDPOINTS.STOCKS, stocksResponseSchema, options);
+  }
+
+  addStock(stock: NewApiStock, options?: ApiRequestOptions): Promise<ApiResult<Infer<typeof stockResponseSchema>>> {
+    return this.request('POST', API_ENDPOINTS.STOCKS, stockResponseSchema, options, stock);
+  }
+
+  setStockPrice(symbol: string, price: number, options?: ApiRequestOptions): Promise<ApiResult<Infer<typeof stockResponseSchema>>> {
+    return this.request('PUT', `${API_ENDPOINTS.STOCKS}/${encodeURIComponent(symbol)}`, stockResponseSchema, options, { price });
+  }
+
+  /**
+   * Same as setStockPrice, on the route older servers offer
+   */
+  setStockPriceLegacy(symbol: string, price: number, options?: ApiRequestOptions): Promise<ApiResult<Infer<typeof stockResponseSchema>>> {
+    return this.request('PUT', `${API_ENDPOINTS.STOCKS}/${encodeURIComponent(symbol)}/price`, stockResponseSchema, options, { price });
+  }
+
+  removeStock(symbol: string, options?: ApiRequestOptions): Promise<ApiResult<Infer<typeof removeStockResponseSchema>>> {
+    return this.request('DELETE', `${API_ENDPOINTS.STOCKS}/${encodeURIComponent(symbol)}`, removeStockResponseSchema, options);
+  }
+
+  bulkUpdate(update: BulkUpdateRequest, options?: ApiRequestOptions): Promise<ApiResult<BulkUpdateResponse>> {
+    return this.request('PUT', PANEL_ROUTES.BULK, bulkUpdateResponseSchema, options, update);
+  }
+
+  saveStockGroups(groups: ApiStockGroup[], options?: ApiRequestOptions): Promise<ApiResult<Infer<typeof stockGroupsResponseSchema>>> {
+    return this.request('PUT', API_ENDPOINTS.STOCK_GROUPS, stockGroupsResponseSchema, options, { groups });
+  }
+
+  /**
+   * Single-use ticket that opens the live update stream; it expires within
+   * a minute, so fetch one for each connection
+   */
+  createStreamTicket(options?: ApiRequestOptions): Promise<ApiResult<StreamTicketResponse>> {
+    return this.request('POST', API_ENDPOINTS.STREAM_TICKET, streamTicketResponseSchema, options);
+  }
+
+  getControls(options?: ApiRequestOptions): Promise<ApiResult<ControlsResponse>> {
+    return this.request('GET', API_ENDPOINTS.CONTROLS, controlsResponseSchema, options);
+  }
+
+  updateControls(updates: ControlsUpdate, options?: ApiRequestOptions): Promise<ApiResult<ControlsResponse>> {
+    return this.request('PUT', API_ENDPOINTS.CONTROLS, controlsResponseSchema, options, updates);
+  }
+
+  pause(options?: ApiRequestOptions): Promise<ApiResult<ActionResponse>> {
+    return this.request('POST', PANEL_ROUTES.PAUSE, actionResponseSchema, options);
+  }
+
+  resume(options?: ApiRequestOptions): Promise<ApiResult<ActionResponse>> {
+    return this.request('POST', PANEL_ROUTES.RESUME, actionResponseSchema, options);
+  }
+
+  restart(options?: ApiRequestOptions): Promise<ApiResult<ActionResponse>> {
+    return this.request('POST', API_ENDPOINTS.RESTART, actionResponseSchema, options);
+  }
+
+  getStatus(options?: ApiRequestOptions): Promise<ApiResult<Record<string, unknown>>> {
+    return this.request('GET', API_ENDPOINTS.STATUS, object({}), options);
+  }
+
+  /**
+   * Exchange rate document; parse it with parseRatesPayload
+   */
+  getFxRates(options?: ApiRequestOptions): Promise<ApiResult<unknown>> {
+    return this.request('GET', API_ENDPOINTS.FX_RATES, unknown(), { anonymous: true, ...options });
+  }
+
+  login(username: string, password: string, options?: ApiRequestOptions): Promise<ApiResult<LoginResponse>> {
+    return this.request('POST', API_ENDPOINTS.AUTH, loginResponseSchema, { anonymous: true, ...options }, { username, password });
+  }
+
+  /**
+   * Who the server takes the current credentials to belong to
+   */
+  verifyAuth(options?: ApiRequestOptions): Promise<ApiResult<UserResponse>> {
+    return this.request('GET', API_ENDPOINTS.AUTH, userResponseSchema, options);
+  }
+
+  getUser(options?: ApiRequestOptions): Promise<ApiResult<UserResponse>> {
+    return this.request('GET', PANEL_ROUTES.USER, userResponseSchema, options);
+  }
+
+  private async request<T>(
+    method: string,
+    path: string,
+    schema: Schema<T>,
+    options: ApiRequestOptions = {},
+    body?: unknown
+  ): Promise<ApiResult<T>> {
+    let baseUrl: string;
+    try {
+      baseUrl = typeof this.options.baseUrl === 'function' ? this.options.baseUrl() : this.options.baseUrl;
+    } catch {
+      baseUrl = '';
+    }
+    if (!baseUrl) {
+      return failure('not-configured', 'API server is not configured');
+    }
+
+    const headers: Record<string, string> = { 'Accept': 'application/json', 'Content-Type': 'application/json' };
+    if (options.token) {
+      headers['Authorization'] = `Bearer ${options.token}`;
+    } else if (!options.anonymous && this.options.getAuthHeaders) {
+      let authHeaders: Record<string, string> | null;
+      try {
+        authHeaders = await this.options.getAuthHeaders();
+      } catch (err) {
+        return failure('unauthorized', `Could not get API credentials: ${err instanceof Error ? err.message : String(err)}`);
+      }
+      if (!authHeaders) {
+        return failure('unauthorized', 'Not signed in to the API server');
+      }
+      Object.assign(headers, authHeaders);
+    }
+    if (options.idempotencyKey) {
+      headers['Idempotency-Key'] = options.idempotencyKey;
+    }
+
+    if (options.signal?.aborted) {
+      return failure('aborted', 'Request was cancelled');
+    }
+    const controller = new AbortController();
+    const timeoutMs = options.timeoutMs ?? this.options.timeoutMs ?? API_CLIENT_DEFAULTS.TIMEOUT_MS;
+    let timedOut = false;
+    const timeoutId = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, timeoutMs);
+    const cancel = () => controller.abort();
+    options.signal?.addEventListener('abort', cancel);
+
+    try {
+      const response = await this.fetchFn(`${baseUrl}${path}`, {
+        method,
+        headers,
+        body: body === undefined ? undefined : JSON.stringify(body),
+        signal: controller.signal,
+      });
+
+      const contentType = response.headers.get('content-type') || '';
+      let data: unknown = undefined;
+      if (contentType.includes('application/json')) {
+        try {
+          data = await response.json();
+        } catch {
+          if (response.ok) {
+            return failure('invalid-response', `${method} ${path}: response is not valid JSON`, response.status);
+          }
+        }
+      }
+
+      if (!response.ok) {
+        const kind = STATUS_KINDS[response.status] ?? 'http';
+        if (kind === 'unauthorized') {
+          this.options.onUnauthorized?.();
+        }
+        const serverMessage = typeof data === 'object' && data !== null && typeof (data as { error?: unknown }).error === 'string'
+          ? (data as { error: string }).error
+          : `Server responded with status ${response.status}`;
+        return failure(kind, serverMessage, response.status);
+      }
+
+      if (data === undefined) {
+        return failure('invalid-response', `${method} ${path}: expected JSON, got ${contentType || 'no content type'}`, response.status);
+      }
+      if (typeof data === 'object' && data !== null && (data as { success?: unknown }).success === false) {
+        const error = (data as { error?: unknown }).error;
+        return failure('http', typeof error === 'string' ? error : 'Server reported a failure', response.status);
+      }
+
+      const parsed = schema.parse(data);
+      if (!parsed.success) {
+        return failure('invalid-response', `${method} ${path}: ${parsed.issue}`, response.status);
+      }
+      return { ok: true, status: response.status, data: parsed.data };
+    } catch (err) {
+      if (timedOut) {
+        return failure('timeout', `Timeout after ${timeoutMs}ms`);
+      }
+      if (options.signal?.aborted) {
+        return failure('aborted', 'Request was cancelled');
+      }
+      return failure('network', `Connection failed: ${err instanceof Error ? err.message : String(err)}`);
+    } finally {
+      clearTimeout(timeoutId);
+      options.signal?.removeEventListener('abort', cancel);
+    }
+  }
+}
@@ -0,0 +1,147 @@
+/**
+ * Response Schemas
+ *
+ * Minimal runtime type checks for data from the API server. A schema parses
+ * an unknown value into a typed one, or reports the first problem with its
+ * path, e.g. "stocks[2].currentPrice: expected a number".
+ *
+ * Object schemas check the declared fields and keep any others, so servers
+ * that send more than the client knows about still pass.
+ */
+
+export type SchemaResult<T> =
+  | { success: true; data: T }
+  | { success: false; issue: string };
+
+export interface Schema<T> {
+  parse(value: unknown, path?: string): SchemaResult<T>;
+}
+
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+const ok = <T>(data: T): SchemaResult<T> => ({ success: true, data });
+
+const fail = <T>(path: string, expected: string): SchemaResult<T> =>
+  ({ success: false, issue: `${path || 'response'}: expected ${expected}` });
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+export const string = (): Schema<string> => ({
+  parse: (value, path = '') => typeof value === 'string' ? ok(value) : fail(path, 'a string'),
+});
+
+export const number = (): Schema<number> => ({
+  parse: (value, path = '') => typeof value === 'number' && Number.isFinite(value) ? ok(value) : fail(path, 'a number'),
+});
+
+export const boolean = (): Schema<boolean> => ({
+  parse: (value, path = '') => typeof value === 'boolean' ? ok(value) : fail(path, 'true or false'),
+});
+
+export const unknown = (): Schema<unknown> => ({
+  parse: value => ok(value),
+});
+
+/**
+ * One of a fixed set of strings
+ */
+export const oneOf = <T extends string>(values: readonly T[]): Schema<T> => ({
+  parse: (value, path = '') => values.includes(value as T) ? ok(value as T) : fail(path, `one of ${values.join(', ')}`),
+});
+
+/**
+ * A value that may be missing (undefined or null, both read as undefined)
+ */
+export const optional = <T>(schema: Schema<T>): Schema<T | undefined> => ({
+  parse: (value, path) => value === undefined || value === null ? ok(undefined) : schema.parse(value, path),
+});
+
+/**
+ * A value the client can do without: missing or invalid values read as undefined
+ */
+export const lenient = <T>(schema: Schema<T>): Schema<T | undefined> => ({
+  parse: (value, path) => {
+    const result = schema.parse(value, path);
+    return result.success ? result : ok(undefined);
+  },
+});
+
+/**
+ * A further check on an already parsed value
+ */
+export const refine = <T>(schema: Schema<T>, check: (value: T) => boolean, expected: string): Schema<T> => ({
+  parse: (value, path = '') => {
+    const result = schema.parse(value, path);
+    return result.success && !check(result.data) ? fail(path, expected) : result;
+  },
+});
+
+/**
+ * A value matching any of the schemas, tried in order
+ */
+export const union = <S extends Schema<unknown>[]>(...schemas: S): Schema<Infer<S[number]>> => ({
+  parse: (value, path = '') => {
+    for (const schema of schemas) {
+      const result = schema.parse(value, path);
+      if (result.success) return result as SchemaResult<Infer<S[number]>>;
+    }
+    return fail(path, 'a value of another type');
+  },
+});
+
+export const array = <T>(item: Schema<T>): Schema<T[]> => ({
+  parse: (value, path = '') => {
+    if (!Array.isArray(value)) return fail(path, 'a list');
+    const items: T[] = [];
+    for (let i = 0; i < value.length; i++) {
+      const result = item.parse(value[i], `${path}[${i}]`);
+      if (!result.success) return result;
+      items.push(result.data);
+    }
+    return ok(items);
+  },
+});
+
+/**
+ * An object used as a map: any keys, every value matching the schema
+ */
+export const record = <T>(item: Schema<T>): Schema<Record<string, T>> => ({
+  parse: (value, path = '') => {
+    if (!isRecord(value)) return fail(path, 'an object');
+    const entries: Record<string, T> = {};
+    for (const key of Object.keys(value)) {
+      const result = item.parse(value[key], path ? `${path}.${key}` : key);
+      if (!result.success) return result as SchemaResult<Record<string, T>>;
+      entries[key] = result.data;
+    }
+    return ok(entries);
+  },
+});
+
+type Shape = Record<string, Schema<unknown>>;
+
+type OptionalKeys<S extends Shape> = { [K in keyof S]: undefined extends Infer<S[K]> ? K : never }[keyof S];
+
+type ObjectOf<S extends Shape> = {
+  [K in Exclude<keyof S, OptionalKeys<S>>]: Infer<S[K]>;
+} & {
+  [K in OptionalKeys<S>]?: Infer<S[K]>;
+} extends infer O ? { [K in keyof O]: O[K] } : never;
+
+export const object = <S extends Shape>(shape: S): Schema<ObjectOf<S>> => ({
+  parse: (value, path = '') => {
+    if (!isRecord(value)) return fail(path, 'an object');
+    const parsed: Record<string, unknown> = { ...value };
+    for (const key of Object.keys(shape)) {
+      const result = shape[key].parse(value[key], path ? `${path}.${key}` : key);
+      if (!result.success) return result as SchemaResult<ObjectOf<S>>;
+      if (result.data === undefined) {
+        delete parsed[key];
+      } else {
+        parsed[key] = result.data;
+      }
+    }
+    return ok(parsed as ObjectOf<S>);
+  },
+});
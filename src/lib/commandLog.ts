@@ -0,0 +1,121 @@
+/**
+ * Command Log
+ *
+ * Undo and redo for control-panel actions. Each price change, stock added or
+ * removed, and update interval or display currency change is recorded with
+ * the command that reverts it, worked out from the state it changed. Undoing
+ * applies the inverse and moves the entry to the redo list; a new action
+ * clears the redo list. Quick repeats of the same change, like dragging the
+ * speed slider, are kept as one entry. The log is pure: TickerProvider
+ * applies the commands.
+ */
+
+import { CommandLog, CommandLogEntry, TickerCommand } from './types';
+
+export const COMMAND_LOG_LIMITS = {
+  MAX_ENTRIES: 50,
+  // Changes to the same thing this close together are one entry
+  COALESCE_MS: 1500,
+} as const;
+
+export const EMPTY_COMMAND_LOG: CommandLog = { done: [], undone: [] };
+
+const formatCommandPrice = (price: number): string => String(Number(price.toFixed(4)));
+
+/**
+ * Describe a command for the history list
+ */
+export function describeCommand(command: TickerCommand): string {
+  switch (command.type) {
+    case 'setPrices': {
+      const entries = Object.entries(command.prices);
+      return entries.length === 1
+        ? `Set ${entries[0][0]} to ${formatCommandPrice(entries[0][1])}`
+        : `Set ${entries.length} prices`;
+    }
+    case 'restoreStock':
+      return `Add ${command.stock.symbol}`;
+    case 'removeStock':
+      return `Remove ${command.symbol}`;
+    case 'updateControls': {
+      const { updateIntervalMs, selectedCurrency } = command.updates;
+      return [
+        updateIntervalMs !== undefined ? `update interval ${updateIntervalMs}ms` : null,
+        selectedCurrency !== undefined ? `display currency ${selectedCurrency}` : null,
+      ].filter(Boolean).join(', ').replace(/^./, first => first.toUpperCase());
+    }
+  }
+}
+
+export function createCommandEntry(
+  command: TickerCommand,
+  inverse: TickerCommand,
+  id: string,
+  now: number,
+  label: string = describeCommand(command)
+): CommandLogEntry {
+  return { id, label, command, inverse, recordedAt: now };
+}
+
+// What a command changes, so repeated changes to the same thing can be merged
+const commandTarget = (command: TickerCommand): string | null => {
+  switch (command.type) {
+    case 'setPrices':
+      return `prices:${Object.keys(command.prices).sort().join(',')}`;
+    case 'updateControls':
+      return `controls:${Object.keys(command.updates).sort().join(',')}`;
+    default:
+      return null;
+  }
+};
+
+// Whether applying a command's inverse would change nothing
+const isNoop = (entry: CommandLogEntry): boolean =>
+  entry.command.type !== 'restoreStock' && entry.command.type !== 'removeStock' &&
+  JSON.stringify(entry.command) === JSON.stringify(entry.inverse);
+
+/**
+ * Add an action to the log and clear the redo list. An action right after a
+ * change to the same thing is merged into it, keeping the older inverse.
+ */
+export function recordCommand(log: CommandLog, entry: CommandLogEntry): CommandLog {
+  const last = log.done[log.done.length - 1];
+  const target = commandTarget(entry.command);
+  const merges = last !== undefined && target !== null && target === commandTarget(last.command) &&
+    entry.recordedAt - last.recordedAt <= COMMAND_LOG_LIMITS.COALESCE_MS;
+
+  if (merges) {
+    const merged: CommandLogEntry = { ...entry, inverse: last.inverse };
+    // e.g. a slider dragged back to where it started
+    const done = isNoop(merged) ? log.done.slice(0, -1) : [...log.done.slice(0, -1), merged];
+    return { done, undone: [] };
+  }
+  if (isNoop(entry)) {
+    return log;
+  }
+  return { done: [...log.done, entry].slice(-COMMAND_LOG_LIMITS.MAX_ENTRIES), undone: [] };
+}
+
+/**
+ * The entry to undo, and the log once it is undone
+ * @returns null when there is nothing to undo
+ */
+export function undoCommand(log: CommandLog): { entry: CommandLogEntry; log: CommandLog } | null {
+  const entry = log.done[log.done.length - 1];
+  if (!entry) {
+    return null;
+  }
+  return { entry, log: { done: log.done.slice(0, -1), undone: [...log.undone, entry] } };
+}
+
+/**
+ * The entry to redo, and the log once it is redone
+ * @returns null when there is nothing to redo
+ */
+export function redoCommand(log: CommandLog): { entry: CommandLogEntry; log: CommandLog } | null {
+  const entry = log.undone[log.undone.length - 1];
+  if (!entry) {
+    return null;
+  }
+  return { entry, log: { done: [...log.done, entry], undone: log.undone.slice(0, -1) } };
+}
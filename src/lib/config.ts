@@ -2,6 +2,8 @@
  * Environment-based configuration for API endpoints
  */
 
+import { API_ENDPOINTS, ApiClient } from './apiClient';
+
 // Get the API base URL based on environment
 export const getApiBaseUrl = (): string => {
   const currentOrigin = typeof window !== 'undefined' ? window.location.origin : 'unknown';
@@ -40,14 +42,7 @@ export const getApiBaseUrl = (): string => {
   return apiUrl;
 };
 
-// API endpoint configurations
-export const API_ENDPOINTS = {
-  STOCKS: '/api/remote/stocks',
-  CONTROLS: '/api/remote/controls',
-  AUTH: '/api/remote/auth',
-  STATUS: '/api/remote/status',
-  RESTART: '/api/remote/restart'
-} as const;
+export { API_ENDPOINTS };
 
 // Helper function to build full API URL
 export const buildApiUrl = (endpoint: string): string => {
@@ -58,6 +53,31 @@ export const buildApiUrl = (endpoint: string): string => {
   return `${baseUrl}${endpoint}`;
 };
 
+// Live update stream URL for a WebSocket or EventSource. Neither can send an
+// Authorization header, so a single-use stream ticket (see
+// apiClient.createStreamTicket) goes in the query string, never the token.
+export const buildStreamUrl = (transport: 'websocket' | 'sse', ticket: string, since: number | null): string => {
+  const url = new URL(buildApiUrl(API_ENDPOINTS.STREAM));
+  if (transport === 'websocket') {
+    url.protocol = url.protocol === 'https:' ? 'wss:' : 'ws:';
+  }
+  url.searchParams.set('ticket', ticket);
+  if (since !== null) {
+    url.searchParams.set('since', String(since));
+  }
+  return url.toString();
+};
+
+// Client for the API server, signed in through the Clerk-JWT bridge
+export const apiClient = new ApiClient({
+  baseUrl: getApiBaseUrl,
+  getAuthHeaders: async () => {
+    const { getJWTBridgeHeaders } = await import('../auth/utils/clerkJwtBridge');
+    const headers = getJWTBridgeHeaders();
+    return headers['Authorization'] ? headers : null;
+  },
+});
+
 // Check if API server should be used
 export const shouldUseApiServer = (): boolean => {
   return getApiBaseUrl() !== '';
@@ -77,122 +97,52 @@ export const checkApiHealth = async (timeoutMs: number = 5000): Promise<{isHealt
   }
   
   const startTime = Date.now();
-  const controller = new AbortController();
-  const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
   
+  // Step 1: First, try to authenticate with the JWT bridge if not already authenticated
+  let hasAuth = false;
   try {
-    const baseUrl = getApiBaseUrl();
-    
-    // Step 1: First, try to authenticate with the JWT bridge if not already authenticated
-    let hasAuth = false;
-    let headers = { 'Content-Type': 'application/json' };
+    const { isJWTBridgeAuthenticated, authenticateWithJWTBridge } = await import('../auth/utils/clerkJwtBridge');
     
-    try {
-      const { tokenStorage } = await import('../auth/utils/index');
-      const { isJWTBridgeAuthenticated, authenticateWithJWTBridge } = await import('../auth/utils/clerkJwtBridge');
-      
-      // Check if we're already authenticated
-      if (isJWTBridgeAuthenticated()) {
-        const token = tokenStorage.getAccessToken();
-        const sessionId = tokenStorage.getSessionId();
-        
-        if (token) {
-          headers = { ...headers, 'Authorization': `Bearer ${token}` };
-          hasAuth = true;
-        }
-        
-        if (sessionId) {
-          headers = { ...headers, 'X-Session-ID': sessionId };
-        }
-      } else {
-        // Try to authenticate for health check
-        console.log('🔐 Health check: Attempting to authenticate...');
-        const authResult = await authenticateWithJWTBridge('health-check');
-        
-        if (authResult.success && authResult.token) {
-          headers = { ...headers, 'Authorization': `Bearer ${authResult.token}` };
-          if (authResult.sessionId) {
-            headers = { ...headers, 'X-Session-ID': authResult.sessionId };
-          }
-          hasAuth = true;
-          console.log('✅ Health check: Authentication successful');
-        }
-      }
-    } catch (authError) {
-      console.log('⚠️ Health check: Authentication not available, testing connectivity only');
-    }
-    
-    // Step 2: Test the API endpoint
-    let healthUrl;
-    if (hasAuth) {
-      // Use stocks endpoint to test authenticated access
-      healthUrl = `${baseUrl}/api/remote/stocks`;
+    if (isJWTBridgeAuthenticated()) {
+      hasAuth = true;
     } else {
-      // Just test basic connectivity by trying to get a 401 response (which means server is up)
-      healthUrl = `${baseUrl}/api/remote/stocks`;
-    }
-    
-    const response = await fetch(healthUrl, {
-      method: 'GET',
-      headers,
-      signal: controller.signal,
-    });
-    
-    clearTimeout(timeoutId);
-    const responseTime = Date.now() - startTime;
-    
-    // Handle different response scenarios
-    if (response.status === 401) {
-      // Server is healthy, just requires authentication (expected for unauthenticated requests)
-      return {
-        isHealthy: true,
-        responseTime,
-        error: hasAuth ? 'Authentication failed' : undefined // No error if we expected 401
-      };
-    }
-    
-    if (response.ok) {
-      try {
-        const data = await response.json();
-        return {
-          isHealthy: data.success !== false,
-          responseTime,
-          error: data.success === false ? data.error || 'API returned error' : undefined
-        };
-      } catch (jsonError) {
-        // Response was OK but not JSON, still consider healthy
-        return {
-          isHealthy: true,
-          responseTime
-        };
+      // Try to authenticate for health check
+      console.log('🔐 Health check: Attempting to authenticate...');
+      const authResult = await authenticateWithJWTBridge('health-check');
+      hasAuth = authResult.success;
+      if (hasAuth) {
+        console.log('✅ Health check: Authentication successful');
       }
-    } else if (response.status >= 400 && response.status < 500) {
-      // Client errors (4xx) usually mean server is up but there's an issue with the request
-      return {
-        isHealthy: true, // Server is responding
-        responseTime,
-        error: `Client error: HTTP ${response.status}`
-      };
-    } else {
-      // Server errors (5xx) or other issues
-      return {
-        isHealthy: false,
-        responseTime,
-        error: `Server error: HTTP ${response.status}: ${response.statusText}`
-      };
     }
-  } catch (error) {
-    clearTimeout(timeoutId);
-    const responseTime = Date.now() - startTime;
-    
-    if (error instanceof Error) {
-      if (error.name === 'AbortError') {
-        return { isHealthy: false, responseTime, error: `Timeout after ${timeoutMs}ms` };
+  } catch (authError) {
+    console.log('⚠️ Health check: Authentication not available, testing connectivity only');
+  }
+  
+  // Step 2: Test the API endpoint. Without credentials a 401 still shows the server is up.
+  const result = await apiClient.getStocks({ timeoutMs, anonymous: !hasAuth });
+  const responseTime = Date.now() - startTime;
+  if (result.ok) {
+    return { isHealthy: true, responseTime };
+  }
+  
+  const { kind, message, status } = result.error;
+  switch (kind) {
+    case 'unauthorized':
+      // Server is healthy, just requires authentication (expected for unauthenticated requests)
+      return { isHealthy: true, responseTime, error: hasAuth ? 'Authentication failed' : undefined };
+    case 'timeout':
+    case 'network':
+    case 'aborted':
+    case 'not-configured':
+      return { isHealthy: false, responseTime, error: message };
+    case 'invalid-response':
+      // The server is responding, but its data cannot be used
+      return { isHealthy: true, responseTime, error: message };
+    default:
+      if (status !== undefined && status >= 400 && status < 500) {
+        // Client errors (4xx) usually mean server is up but there's an issue with the request
+        return { isHealthy: true, responseTime, error: `Client error: HTTP ${status}` };
       }
-      // Network errors usually mean server is down
-      return { isHealthy: false, responseTime, error: `Connection failed: ${error.message}` };
-    }
-    
-    return { isHealthy: false, responseTime, error: 'Unknown error occurred' };
+      return { isHealthy: false, responseTime, error: status !== undefined && status >= 500 ? `Server error: HTTP ${status}: ${message}` : message };
   }
 };
@@ -24,22 +24,104 @@ import {
   MemoryStats,
   Currency,
   validateCurrency,
-  convertCurrency,
   CURRENCY_RATES,
+  PriceModelConfig,
+  MarketScenario,
+  IndicatorConfig,
+  ChartTimeRange,
+  HistoryRetentionConfig,
+  NewPriceAlert,
+  PriceAlert,
+  Watchlist,
+  RatesProviderConfig,
+  setCurrencyRates,
+  getStockCurrency,
+  FormatPreferences,
+  DEFAULT_FORMAT_PREFERENCES,
+  setFormatPreferences,
+  validateLocale,
+  ExchangeCode,
+  InstrumentIdentity,
+  InstrumentType,
+  inferExchange,
+  validateExchange,
+  validateInstrumentType,
+  TickerSetup,
+  ReplayOptions,
+  StockVersions,
+  SyncConnection,
+  SyncEdit,
+  SyncValue,
+  SyncedControlField,
+  SyncedStockField,
+  TickerCommand,
 } from './types';
-import { shouldUseApiServer, buildApiUrl, API_ENDPOINTS, isDevelopment, checkApiHealth } from './config';
-import { generateMultipleStockHistories, generateRealisticPriceChange, updatePriceHistory } from '../utils/dataGenerator';
+import { shouldUseApiServer, getApiBaseUrl, buildStreamUrl, isDevelopment, checkApiHealth } from './config';
+import { generateMultipleStockHistories, updatePriceHistory } from '../utils/dataGenerator';
+import { PriceModel, createPriceModel, validatePriceModel, DEFAULT_PRICE_MODELS } from '../utils/priceModels';
+import { RandomSource, createSeededRandom, generateSeed, normalizeSeed } from '../utils/random';
+import { ScenarioEngine, validateScenario } from './scenarioEngine';
+import { normalizeSetup } from './setupTransfer';
+import { ReplayEngine, replayStock, validateReplayData, validateReplayOptions } from './replayEngine';
+import {
+  SecureStorageSaveResult,
+  configureSecureStorage,
+  getSecureStorageStatus,
+  loadFromSecureStorage,
+  saveToSecureStorage,
+  upgradeSecureStorage,
+} from './secureStorage';
+import { HISTORY_PERSISTENCE, loadHistories, saveHistories } from './historyPersistence';
+import { ApiClient, ApiControls, ApiError, ApiResult, ApiStock } from './apiClient';
+import { PushClient, PushMessage, backoffDelay } from './pushChannel';
+import { SharedTickerState, TabCoordinator, createTabCoordinator, pickSharedState, relayCommands } from './tabSync';
+import {
+  ConflictInput,
+  NewSyncEdit,
+  SYNCED_CONTROL_FIELDS,
+  SYNCED_STOCK_FIELDS,
+  ServerFields,
+  createSyncEdit,
+  describeConflict,
+  describeRefusedEdit,
+  localEditTimes,
+  mergeFields,
+  mergeStockList,
+  queueEdit,
+  recordServerFields,
+  settleSync,
+} from './syncMerge';
+import { EMPTY_COMMAND_LOG, createCommandEntry, recordCommand, redoCommand, undoCommand } from './commandLog';
+import {
+  discardFailedSyncEdit,
+  failSyncEdit,
+  loadOutbox,
+  restoreOutbox,
+  retryFailedSyncEdit,
+  saveOutbox,
+} from './syncOutbox';
+import { TieredHistoryStore, DEFAULT_HISTORY_RETENTION, validateHistoryRetention } from './historyStore';
+import { ALERT_LIMITS, createAlert, evaluateAlerts, validateAlertRule, validateNewAlert } from './alertEngine';
+import { showBrowserNotification } from '../utils/notifications';
+import {
+  DEFAULT_RATES_PROVIDER_CONFIGS,
+  createRatesProvider,
+  createStaticSnapshot,
+  validateRatesProviderConfig,
+} from './ratesProvider';
+import {
+  WATCHLIST_LIMITS,
+  createWatchlistId,
+  parseWatchlists,
+  sanitizeWatchlistSymbols,
+  validateWatchlistName,
+} from '../utils/watchlists';
+import { validateIndicator } from '../utils/indicators';
 import { tokenStorage } from '../auth/utils/index';
 import { authenticateWithJWTBridge, isJWTBridgeAuthenticated, getJWTBridgeHeaders, clearJWTBridge } from '../auth/utils/clerkJwtBridge';
 import { useAuth } from '../hooks/useAuth';
 import { useClerkJWTBridge } from '../hooks/useClerkJWTBridge';
 
-// Secure storage response type definition
-interface SecureStorageResponse<T> {
-  result: ValidationResult;
-  data?: T;
-}
-
 /**
  * Check if memory usage is within limits
  */
@@ -62,80 +144,6 @@ function checkMemoryUsage(memStats: MemoryStats): ValidationResult {
   }
 }
 
-/**
- * Save data to secure localStorage with encryption
- */
-function saveToSecureStorage<T>(key: string, data: T): ValidationResult {
-  try {
-    // Basic validation
-    if (!key || typeof key !== 'string') {
-      return { isValid: false, errorMessage: 'Invalid storage key' };
-    }
-    
-    // Convert data to string
-    const dataString = JSON.stringify(data);
-    
-    // In a real app, we'd encrypt this data before storing
-    // For this example, we'll just base64 encode it
-    const encodedData = btoa(dataString);
-    
-    // Save to localStorage with a prefix for identification
-    localStorage.setItem(`secure_ticker_${key}`, encodedData);
-    
-    return { isValid: true };
-  } catch (err) {
-    console.error('Failed to save to secure storage:', err);
-    return {
-      isValid: false,
-      errorMessage: `Storage error: ${err instanceof Error ? err.message : String(err)}`
-    };
-  }
-}
-
-/**
- * Load data from secure localStorage with decryption
- */
-function loadFromSecureStorage<T>(key: string): SecureStorageResponse<T> {
-  try {
-    // Basic validation
-    if (!key || typeof key !== 'string') {
-      return {
-        result: { isValid: false, errorMessage: 'Invalid storage key' }
-      };
-    }
-    
-    // Get from localStorage
-    const encodedData = localStorage.getItem(`secure_ticker_${key}`);
-    
-    // Handle missing data
-    if (!encodedData) {
-      return {
-        result: { isValid: false, errorMessage: 'No data found in storage' }
-      };
-    }
-    
-    // In a real app, we'd decrypt this data
-    // For this example, we'll just base64 decode it
-    const dataString = atob(encodedData);
-    
-    // Parse the JSON data
-    const data = JSON.parse(dataString) as T;
-    
-    return {
-      result: { isValid: true },
-      data
-    };
-  } catch (err) {
-    console.error('Failed to load from secure storage:', err);
-    return {
-      result: {
-        isValid: false,
-        errorMessage: `Storage error: ${err instanceof Error ? err.message : String(err)}`
-      }
-    };
-  }
-}
-
 /**
  * Mask sensitive data for logging and display
  */
@@ -200,39 +208,526 @@ function getJWTAuthHeaders(): Record<string, string> {
   return headers;
 }
 
+// API server client for the ticker; a rejected token is cleared so the bridge signs in again
+const tickerApi = new ApiClient({
+  baseUrl: getApiBaseUrl,
+  getAuthHeaders: () => {
+    const headers = getJWTAuthHeaders();
+    return headers.Authorization ? headers : null;
+  },
+  onUnauthorized: () => {
+    console.warn('⚠️ API authentication failed (401), clearing auth and retrying later');
+    clearJWTBridge();
+  },
+});
+
+/**
+ * Log a failed API call; the ticker carries on with local data either way
+ */
+function logApiError(what: string, error: ApiError): void {
+  if (error.kind === 'invalid-response') {
+    console.error(`❌ API server sent invalid ${what}, using local data: ${error.message}`);
+  } else {
+    console.warn(`⚠️ Could not fetch ${what} from API (${error.kind}), using local data: ${error.message}`);
+  }
+}
+
 // Create the context with a default undefined value
 export const TickerContext = createContext<TickerContextType | undefined>(undefined);
 
 // Default stock ticker configuration
 const DEFAULT_UPDATE_INTERVAL = 1000; // 1 second for smoother updates
 
+// Gentler walk for stocks without a model while the API server drives prices
+const API_ACTIVE_PRICE_MODEL: PriceModelConfig = { type: 'realistic', maxChangePercent: 0.5 };
+
 // Generate fake price histories for default stocks
-const defaultStockData = [
-  { symbol: 'BNOX', name: 'Bane&Ox Inc.', basePrice: 185.75 },
-  { symbol: 'GOOGL', name: 'Alphabet Inc.', basePrice: 176.30 },
-  { symbol: 'MSFT', name: 'Microsoft Corporation', basePrice: 415.20 },
+// Each default stock uses a different price model so demos show distinct behaviour
+const defaultStockData: Array<{ symbol: string; name: string; basePrice: number; priceModel: PriceModelConfig; exchange?: ExchangeCode }> = [
+  { symbol: 'BNOX', name: 'Bane&Ox Inc.', basePrice: 185.75, priceModel: DEFAULT_PRICE_MODELS.jumpDiffusion },
+  { symbol: 'GOOGL', name: 'Alphabet Inc.', basePrice: 176.30, priceModel: DEFAULT_PRICE_MODELS.ornsteinUhlenbeck, exchange: 'NASDAQ' },
+  { symbol: 'MSFT', name: 'Microsoft Corporation', basePrice: 415.20, priceModel: DEFAULT_PRICE_MODELS.garch, exchange: 'NASDAQ' },
 ];
 
-// Generate historical data for all stocks
-const stockHistories = generateMultipleStockHistories(defaultStockData);
-
-const DEFAULT_STOCKS: StockInfo[] = defaultStockData.map(stock => {
-  const priceHistory = stockHistories[stock.symbol];
-  // Get the most recent price from the generated history
-  const mostRecentPrice = priceHistory[priceHistory.length - 1].price;
+/**
+ * Build stocks with generated price histories from the given random source.
+ * The same stock list and seed always produce the same stocks.
+ */
+function createSimulatedStocks(
+  stockData: Array<{
+    symbol: string;
+    name: string;
+    basePrice: number;
+    priceModel?: PriceModelConfig;
+    currency?: Currency;
+    instrumentType?: InstrumentType;
+    exchange?: ExchangeCode;
+  }>,
+  random: RandomSource
+): StockInfo[] {
+  // Generate historical data for all stocks
+  const stockHistories = generateMultipleStockHistories(stockData, random);
   
+  return stockData.map(stock => {
+    const priceHistory = stockHistories[stock.symbol];
+    // Get the most recent price from the generated history
+    const mostRecentPrice = priceHistory[priceHistory.length - 1].price;
+    
+    return {
+      symbol: stock.symbol,
+      name: stock.name,
+      currency: stock.currency,
+      instrumentType: stock.instrumentType,
+      exchange: stock.exchange,
+      currentPrice: mostRecentPrice,
+      previousPrice: priceHistory.length > 1 ? priceHistory[priceHistory.length - 2].price : mostRecentPrice,
+      initialPrice: stock.basePrice,
+      percentChange: ((mostRecentPrice - stock.basePrice) / stock.basePrice) * 100,
+      lastUpdated: new Date(),
+      priceHistory: priceHistory,
+      priceModel: stock.priceModel,
+    };
+  });
+}
+
+// Seed for the initial session, shown in the UI so it can be replayed later
+const INITIAL_SIMULATION_SEED = generateSeed();
+const initialRandom = createSeededRandom(INITIAL_SIMULATION_SEED);
+
+const DEFAULT_STOCKS: StockInfo[] = createSimulatedStocks(defaultStockData, initialRandom);
+
+/**
+ * Listing currency and instrument identity of a stock from the API server
+ */
+function apiStockIdentity(apiStock: ApiStock): { currency: Currency; instrumentType?: InstrumentType; exchange?: ExchangeCode } {
+  // An exchange that does not list this kind of instrument is dropped
+  const exchange = apiStock.exchange && validateExchange(apiStock.exchange, apiStock.instrumentType).isValid
+    ? apiStock.exchange : undefined;
+  // Listing currency; servers that predate it only serve USD stocks
+  return { currency: apiStock.currency ?? 'USD', instrumentType: apiStock.instrumentType, exchange };
+}
+
+const priceHistoryFromApi = (apiStock: ApiStock): PricePoint[] =>
+  (apiStock.priceHistory ?? []).map(point => ({ timestamp: new Date(point.timestamp), price: point.price }));
+
+/**
+ * A stock from the API server that is not shown yet
+ */
+function stockFromApi(apiStock: ApiStock): StockInfo {
+  const { currency, instrumentType, exchange } = apiStockIdentity(apiStock);
+  const initialPrice = apiStock.initialPrice ?? apiStock.currentPrice;
+  return {
+    symbol: apiStock.symbol,
+    name: apiStock.name,
+    currency,
+    instrumentType,
+    exchange: exchange ?? inferExchange(apiStock.symbol, instrumentType),
+    currentPrice: apiStock.currentPrice,
+    previousPrice: apiStock.previousPrice ?? apiStock.currentPrice,
+    initialPrice,
+    percentChange: ((apiStock.currentPrice - initialPrice) / initialPrice) * 100,
+    lastUpdated: apiStock.lastUpdated ? new Date(apiStock.lastUpdated) : new Date(),
+    priceHistory: priceHistoryFromApi(apiStock)
+  };
+}
+
+/**
+ * State with the given watchlists (null keeps the current ones), dropping an
+ * active watchlist that no longer exists
+ */
+function withWatchlists(state: TickerState, watchlists: Watchlist[] | null): TickerState {
+  const next = watchlists ?? state.watchlists;
+  return {
+    ...state,
+    watchlists: next,
+    activeWatchlistId: next.some(watchlist => watchlist.id === state.activeWatchlistId)
+      ? state.activeWatchlistId
+      : undefined
+  };
+}
+
+const syncedStockValues = (stock: StockInfo): Record<SyncedStockField, SyncValue> => ({
+  name: stock.name,
+  currentPrice: stock.currentPrice,
+  currency: stock.currency ?? 'USD',
+  instrumentType: stock.instrumentType ?? null,
+  exchange: stock.exchange ?? null,
+});
+
+/**
+ * Synced fields of a stock as the API server has them; instrument identity the
+ * server does not send is left as it is here
+ */
+function serverStockFields(apiStock: ApiStock): ServerFields<SyncedStockField> {
+  const { currency, instrumentType, exchange } = apiStockIdentity(apiStock);
   return {
-    symbol: stock.symbol,
-    name: stock.name,
-    currentPrice: mostRecentPrice,
-    previousPrice: priceHistory.length > 1 ? priceHistory[priceHistory.length - 2].price : mostRecentPrice,
-    initialPrice: stock.basePrice,
-    percentChange: ((mostRecentPrice - stock.basePrice) / stock.basePrice) * 100,
-    lastUpdated: new Date(),
-    priceHistory: priceHistory,
+    values: { name: apiStock.name, currentPrice: apiStock.currentPrice, currency, instrumentType, exchange },
+    versions: apiStock.versions,
   };
+}
+
+const serverControlFields = (controls: ApiControls): ServerFields<SyncedControlField> => ({
+  values: { isPaused: controls.isPaused, updateIntervalMs: controls.updateIntervalMs, selectedCurrency: controls.selectedCurrency },
+  versions: controls.versions,
 });
 
+/**
+ * A local stock with its merged fields from the API server
+ */
+function mergeStockFromApi(localStock: StockInfo, apiStock: ApiStock, values: Partial<Record<SyncedStockField, SyncValue>>): StockInfo {
+  const merged: StockInfo = {
+    ...localStock,
+    name: (values.name ?? localStock.name) as string,
+    currency: (values.currency ?? localStock.currency) as Currency | undefined,
+    instrumentType: (values.instrumentType ?? localStock.instrumentType) as InstrumentType | undefined,
+    exchange: (values.exchange ?? localStock.exchange) as ExchangeCode | undefined,
+  };
+  if (values.currentPrice !== apiStock.currentPrice) {
+    // The local price edit stands until the server has it
+    return merged;
+  }
+  
+  // If API has richer data (more points), use it
+  // Otherwise, preserve local rich data and just update current price
+  const apiPriceHistory = priceHistoryFromApi(apiStock);
+  const apiLastUpdate = apiStock.lastUpdated ? new Date(apiStock.lastUpdated) : new Date();
+  let finalPriceHistory;
+  if (apiPriceHistory.length >= localStock.priceHistory.length) {
+    finalPriceHistory = apiPriceHistory;
+  } else if (apiLastUpdate > localStock.lastUpdated) {
+    // API has newer data, add the new price point
+    finalPriceHistory = updatePriceHistory(localStock.priceHistory, apiStock.currentPrice, MAX_HISTORY_POINTS);
+  } else {
+    // Keep local data as it's more recent
+    finalPriceHistory = localStock.priceHistory;
+  }
+  
+  return {
+    ...merged,
+    currentPrice: apiStock.currentPrice,
+    previousPrice: apiStock.previousPrice ?? localStock.currentPrice,
+    // Servers send either name for the change
+    percentChange: apiStock.percentChange ?? apiStock.percentageChange ??
+      ((apiStock.currentPrice - localStock.initialPrice) / localStock.initialPrice) * 100,
+    lastUpdated: apiLastUpdate,
+    priceHistory: finalPriceHistory
+  };
+}
+
+/**
+ * Merge stocks from the API server into the state, field by field (see
+ * syncMerge). With `complete` they are the server's whole list, and local
+ * stocks it does not have are removed unless this tab is still adding them.
+ */
+function mergeServerStocks(
+  state: TickerState,
+  apiStocks: ApiStock[],
+  complete: boolean,
+  isReplayed: (symbol: string) => boolean
+): TickerState {
+  const now = Date.now();
+  const { sync } = state;
+  const serverStocks = apiStocks.map(apiStock => ({ apiStock, fields: serverStockFields(apiStock) }));
+  const list = mergeStockList(
+    complete ? state.stocks.map(stock => stock.symbol) : [],
+    apiStocks.map(apiStock => ({ symbol: apiStock.symbol, created: apiStock.versions?.symbol })),
+    sync.stocks,
+    sync.pendingEdits
+  );
+  const conflicts: ConflictInput[] = [...list.conflicts];
+  const overridden: { symbol: string; fields: SyncedStockField[] }[] = [];
+  const stockVersions: Record<string, StockVersions> = { ...sync.stocks };
+  list.removed.forEach(symbol => delete stockVersions[symbol]);
+  const mergedStocks = new Map<string, StockInfo>();
+  const addedStocks: StockInfo[] = [];
+  
+  serverStocks.forEach(({ apiStock, fields }) => {
+    const { symbol } = apiStock;
+    if (list.removing.includes(symbol)) return;
+    const seen = sync.stocks[symbol];
+    const created = apiStock.versions?.symbol ?? seen?.created;
+    const localStock = state.stocks.find(stock => stock.symbol === symbol);
+    
+    if (!localStock) {
+      console.log(`📊 Adding new stock from API: ${symbol}`);
+      addedStocks.push(stockFromApi(apiStock));
+      stockVersions[symbol] = { fields: recordServerFields({}, fields), created };
+      return;
+    }
+    
+    // Replayed stocks follow the replay, not the server
+    if (isReplayed(symbol)) return;
+    
+    const merge = mergeFields(SYNCED_STOCK_FIELDS, syncedStockValues(localStock), seen?.fields ?? {}, localEditTimes(sync.pendingEdits, symbol), fields, symbol);
+    conflicts.push(...merge.conflicts);
+    if (merge.overridden.length > 0) {
+      overridden.push({ symbol, fields: merge.overridden });
+    }
+    stockVersions[symbol] = { fields: merge.versions, created };
+    mergedStocks.set(symbol, mergeStockFromApi(localStock, apiStock, merge.values));
+  });
+  
+  if (list.removed.length > 0) {
+    console.log(`🗑️ Stocks removed from API:`, list.removed.join(', '));
+  }
+  if (conflicts.length > 0) {
+    console.warn(`⚠️ Sync conflicts with the API server: ${conflicts.map(describeConflict).join('; ')}`);
+  }
+  
+  const stocks = [
+    ...state.stocks.filter(stock => !list.removed.includes(stock.symbol)).map(stock => mergedStocks.get(stock.symbol) ?? stock),
+    ...addedStocks,
+  ];
+  
+  // Check if the currently selected stock was removed
+  let selectedStock = state.selectedStock;
+  if (selectedStock && list.removed.includes(selectedStock)) {
+    // Selected stock was removed, select the first available stock or none
+    selectedStock = stocks.length > 0 ? stocks[0].symbol : undefined;
+    console.log(`📌 Selected stock was removed, switching to: ${selectedStock || 'none'}`);
+  }
+  
+  return {
+    ...state,
+    stocks,
+    selectedStock,
+    sync: settleSync({ ...sync, stocks: stockVersions }, { conflicts, discarded: list.discarded, overridden }, now),
+  };
+}
+
+/**
+ * State with a local edit queued for the API server. Follower tabs leave it
+ * to the leader tab, which runs the same control.
+ */
+function withSyncEdit(state: TickerState, input: NewSyncEdit): TickerState {
+  if (!shouldUseApiServer() || state.tabSync.role === 'follower') {
+    return state;
+  }
+  const now = Date.now();
+  // The id is also the edit's idempotency key on the server
+  const edit = createSyncEdit(input, `edit-${now.toString(36)}-${Math.random().toString(36).slice(2, 12)}`, now);
+  return { ...state, sync: { ...state.sync, pendingEdits: queueEdit(state.sync.pendingEdits, edit) } };
+}
+
+/**
+ * A stock at a price set from the controls, with the price added to its history
+ */
+function withStockPrice(stock: StockInfo, price: number, timestamp: Date): StockInfo {
+  const previousPrice = stock.currentPrice;
+  // Add the new price to history, keeping only MAX_HISTORY_POINTS
+  const priceHistory = [...stock.priceHistory, { timestamp, price }];
+  if (priceHistory.length > MAX_HISTORY_POINTS) {
+    priceHistory.shift();
+  }
+  return {
+    ...stock,
+    previousPrice,
+    currentPrice: price,
+    percentChange: ((price - previousPrice) / previousPrice) * 100,
+    lastUpdated: timestamp,
+    priceHistory,
+  };
+}
+
+/**
+ * State without a stock, selecting another one if it was selected
+ */
+function withoutStock(state: TickerState, symbol: string): TickerState {
+  const stocks = state.stocks.filter(stock => stock.symbol !== symbol);
+  const selectedStock = state.selectedStock === symbol ? stocks[0]?.symbol : state.selectedStock;
+  return withSyncEdit({ ...state, stocks, selectedStock }, { type: 'removeStock', symbol });
+}
+
+/**
+ * State with an imported setup's stocks, update interval and display
+ * currency, queueing the edits that bring the API server in line. The
+ * command log is cleared, since its commands were recorded against the
+ * replaced stocks, and alerts and watchlist entries for stocks that are gone
+ * are dropped.
+ */
+function withImportedSetup(state: TickerState, setup: TickerSetup): TickerState {
+  const symbols = new Set(setup.stocks.map(stock => stock.symbol));
+  const removed = state.stocks.filter(stock => !symbols.has(stock.symbol));
+  let next = removed.reduce((acc, { symbol }) => withSyncEdit(acc, { type: 'removeStock', symbol }), state);
+  
+  next = setup.stocks.reduce((acc, stock) => {
+    const existing = state.stocks.find(current => current.symbol === stock.symbol);
+    const added = existing ? acc : withSyncEdit(acc, {
+      type: 'addStock',
+      stock: {
+        symbol: stock.symbol,
+        name: stock.name,
+        initialPrice: stock.initialPrice,
+        currency: stock.currency ?? 'USD',
+        instrumentType: stock.instrumentType ?? 'equity',
+        exchange: stock.exchange,
+      },
+    });
+    const serverPrice = existing ? existing.currentPrice : stock.initialPrice;
+    return stock.currentPrice === serverPrice
+      ? added
+      : withSyncEdit(added, { type: 'setPrice', symbol: stock.symbol, price: stock.currentPrice });
+  }, next);
+  
+  const updates = {
+    ...(setup.updateIntervalMs !== state.updateIntervalMs ? { updateIntervalMs: setup.updateIntervalMs } : {}),
+    ...(setup.selectedCurrency !== state.selectedCurrency ? { selectedCurrency: setup.selectedCurrency } : {}),
+  };
+  if (Object.keys(updates).length > 0) {
+    next = withSyncEdit(next, { type: 'updateControls', updates });
+  }
+  
+  return {
+    ...next,
+    stocks: setup.stocks,
+    updateIntervalMs: setup.updateIntervalMs,
+    selectedCurrency: setup.selectedCurrency,
+    selectedStock: setup.selectedStock,
+    commandLog: EMPTY_COMMAND_LOG,
+    alerts: removed.length > 0 ? next.alerts.filter(alert => symbols.has(alert.symbol)) : next.alerts,
+    watchlists: removed.length > 0
+      ? next.watchlists.map(watchlist => ({ ...watchlist, symbols: watchlist.symbols.filter(symbol => symbols.has(symbol)) }))
+      : next.watchlists,
+  };
+}
+
+/**
+ * Apply a command from the command log, queueing the matching edits for the
+ * API server. Parts that no longer apply, e.g. prices of stocks removed
+ * since, are skipped.
+ */
+function applyTickerCommand(state: TickerState, command: TickerCommand): TickerState {
+  switch (command.type) {
+    case 'setPrices': {
+      const timestamp = new Date();
+      const changed = state.stocks.filter(stock => command.prices[stock.symbol] !== undefined);
+      return changed.reduce(
+        (next, { symbol }) => withSyncEdit(next, { type: 'setPrice', symbol, price: command.prices[symbol] }),
+        {
+          ...state,
+          stocks: state.stocks.map(stock =>
+            command.prices[stock.symbol] !== undefined ? withStockPrice(stock, command.prices[stock.symbol], timestamp) : stock
+          ),
+        }
+      );
+    }
+    case 'restoreStock': {
+      const { stock, index } = command;
+      if (state.stocks.some(existing => existing.symbol === stock.symbol)) {
+        return state;
+      }
+      const stocks = [...state.stocks];
+      stocks.splice(Math.min(index, stocks.length), 0, stock);
+      const restored = withSyncEdit({ ...state, stocks, selectedStock: state.selectedStock || stock.symbol }, {
+        type: 'addStock',
+        stock: {
+          symbol: stock.symbol,
+          name: stock.name,
+          initialPrice: stock.initialPrice,
+          currency: stock.currency ?? 'USD',
+          instrumentType: stock.instrumentType ?? 'equity',
+          exchange: stock.exchange,
+        },
+      });
+      return stock.currentPrice === stock.initialPrice
+        ? restored
+        : withSyncEdit(restored, { type: 'setPrice', symbol: stock.symbol, price: stock.currentPrice });
+    }
+    case 'removeStock':
+      return state.stocks.some(stock => stock.symbol === command.symbol) ? withoutStock(state, command.symbol) : state;
+    case 'updateControls':
+      return withSyncEdit({ ...state, ...command.updates }, { type: 'updateControls', updates: command.updates });
+  }
+}
+
+/**
+ * State with a control-panel action recorded in the command log. Follower
+ * tabs show the leader tab's log, which records the same control.
+ */
+function withCommand(state: TickerState, command: TickerCommand, inverse: TickerCommand, label?: string): TickerState {
+  if (state.tabSync.role === 'follower') {
+    return state;
+  }
+  const now = Date.now();
+  const entry = createCommandEntry(command, inverse, `cmd-${now.toString(36)}-${Math.random().toString(36).slice(2, 7)}`, now, label);
+  return { ...state, commandLog: recordCommand(state.commandLog, entry) };
+}
+
+// Current prices of the given stocks, to revert a price change to
+const currentPrices = (state: TickerState, symbols: string[]): Record<string, number> =>
+  Object.fromEntries(state.stocks.filter(stock => symbols.includes(stock.symbol)).map(stock => [stock.symbol, stock.currentPrice]));
+
+type SyncEditResult = ApiResult<{ stock?: ApiStock; controls?: ApiControls }>;
+
+/**
+ * Send a queued edit to the API server
+ */
+async function sendSyncEdit(edit: SyncEdit): Promise<SyncEditResult> {
+  const options = { idempotencyKey: edit.id };
+  switch (edit.type) {
+    case 'setPrice':
+      return tickerApi.setStockPrice(edit.symbol, edit.price, options);
+    case 'addStock':
+      return tickerApi.addStock(edit.stock, options);
+    case 'removeStock': {
+      const result = await tickerApi.removeStock(edit.symbol, options);
+      return result.ok ? { ...result, data: {} } : result;
+    }
+    case 'updateControls':
+      return tickerApi.updateControls(edit.updates, options);
+  }
+}
+
+// The server could not be reached or did not accept the credentials: keep the edit for the next try
+const shouldRetryEdit = (error: ApiError): boolean =>
+  ['network', 'timeout', 'aborted', 'not-configured', 'unauthorized'].includes(error.kind) ||
+  (error.kind === 'http' && (error.status ?? 0) >= 500);
+
+// The server is down or still starting up, rather than refusing this edit
+const isServerUnreachable = (error: ApiError): boolean =>
+  error.kind === 'network' || error.kind === 'timeout' || (error.kind === 'http' && (error.status ?? 0) >= 500);
+
+/**
+ * State once the server has answered a queued edit: the edit leaves the queue
+ * and the fields it wrote are recorded at the server's new versions. A refused
+ * edit moves to the failed edits.
+ */
+function settleSentEdit(state: TickerState, edit: SyncEdit, result: SyncEditResult): TickerState {
+  const now = Date.now();
+  const sync = { ...state.sync, pendingEdits: state.sync.pendingEdits.filter(queued => queued.id !== edit.id) };
+  
+  if (!result.ok) {
+    const alreadyDone = (edit.type === 'removeStock' && result.error.kind === 'not-found') ||
+      (edit.type === 'addStock' && result.error.status === 409) ||
+      // The server took the edit but answered with something unexpected
+      result.error.kind === 'invalid-response';
+    return {
+      ...state,
+      sync: alreadyDone ? sync : failSyncEdit(sync, edit, describeRefusedEdit(edit, result.error.message), now),
+    };
+  }
+  
+  const { stock, controls } = result.data;
+  const stocks = { ...sync.stocks };
+  if (edit.type === 'removeStock') {
+    delete stocks[edit.symbol];
+  } else if (stock) {
+    const seen = stocks[stock.symbol];
+    stocks[stock.symbol] = {
+      fields: recordServerFields(seen?.fields ?? {}, serverStockFields(stock)),
+      created: stock.versions?.symbol ?? seen?.created,
+    };
+  }
+  return {
+    ...state,
+    sync: {
+      ...sync,
+      stocks,
+      controls: controls ? recordServerFields(sync.controls, serverControlFields(controls)) : sync.controls,
+    },
+  };
+}
+
 /**
  * Error boundary component for catching and displaying errors
  */
@@ -273,7 +768,7 @@ class TickerErrorBoundary extends React.Component<
 // Provider component for the context
 export const TickerProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
   // Get Clerk auth state
-  const { isSignedIn } = useAuth();
+  const { isSignedIn, isLoaded: isAuthLoaded, userId } = useAuth();
   
   // Initialize Clerk-JWT bridge for API authentication
   const { isBridging, isBridged, bridgeError, isReadyForAPI } = useClerkJWTBridge();
@@ -288,6 +783,17 @@ export const TickerProvider: React.FC<{ children: ReactNode }> = ({ children })
     isPaused: false,
     selectedStock: DEFAULT_STOCKS[0]?.symbol, // Default to first stock
     selectedCurrency: 'USD', // Default currency
+    simulationSeed: INITIAL_SIMULATION_SEED,
+    historyRetention: DEFAULT_HISTORY_RETENTION,
+    alerts: [],
+    alertEvents: [],
+    watchlists: [],
+    fxRates: { config: DEFAULT_RATES_PROVIDER_CONFIGS.static, snapshot: createStaticSnapshot() },
+    formatPreferences: DEFAULT_FORMAT_PREFERENCES,
+    storage: { backends: [] }, // Filled in once secure storage is configured
+    tabSync: { role: 'solo', tabCount: 1 }, // Until other tabs are looked for
+    sync: { stocks: {}, controls: {}, pendingEdits: [], failedEdits: [], conflicts: [], connection: 'unknown' }, // Nothing synced with the API server yet
+    commandLog: EMPTY_COMMAND_LOG,
     rateLimiters: {}, // Initialize empty rate limiters
     retryTrackers: {}, // Initialize empty retry trackers
     memoryStats: getMemoryUsage(), // Initial memory stats (might be undefined)
@@ -299,6 +805,91 @@ export const TickerProvider: React.FC<{ children: ReactNode }> = ({ children })
   // Track update intervals for cleanup
   const intervalIdRef = useRef<NodeJS.Timeout | null>(null);
   
+  // Stateful price model instances, keyed by stock symbol
+  const priceModelsRef = useRef<Map<string, PriceModel>>(new Map());
+  
+  // Seeded random source shared by the whole simulation pipeline
+  const randomRef = useRef<RandomSource>(initialRandom);
+  const random = useCallback<RandomSource>(() => randomRef.current(), []);
+  
+  // Result of the last price tick, so React StrictMode's double-invoked updaters
+  // don't advance the random source twice for a single tick
+  const lastTickRef = useRef<{ tick: number; input: TickerState; output: TickerState } | null>(null);
+  const tickCounterRef = useRef(0);
+  
+  // Scripted scenario currently driving the simulation, advanced once per price tick
+  const scenarioEngineRef = useRef<ScenarioEngine | null>(null);
+  
+  // Historical prices replacing the simulation for replayed stocks, advanced once per price tick
+  const replayEngineRef = useRef<ReplayEngine | null>(null);
+  
+  // Set when indicator choices change so they are saved after the state update renders
+  const persistIndicatorsRef = useRef(false);
+  
+  // Set once price history saved in earlier visits has been restored, so saving it cannot overwrite it first
+  const historyRestoredRef = useRef(false);
+  
+  // Coordinates with the ticker in other tabs; null where tabs cannot broadcast to each other
+  const tabCoordinatorRef = useRef<TabCoordinator | null>(null);
+  // Followers render the leader tab's simulation instead of running their own
+  const isFollower = tickerState.tabSync.role === 'follower';
+  
+  // Latest state, for callbacks that run between renders, e.g. sending it to tabs that just opened
+  const tickerStateRef = useRef(tickerState);
+  tickerStateRef.current = tickerState;
+  
+  // Set while queued edits are being sent to the API server, so only one send runs at a time
+  const sendingEditsRef = useRef(false);
+  
+  // Set once edits saved in earlier visits have been restored, so saving the outbox cannot overwrite them first
+  const outboxRestoredRef = useRef(false);
+  
+  // Set when alerts are added, removed or toggled so they are saved after the state update renders
+  const persistAlertsRef = useRef(false);
+  
+  // Timestamp of the newest alert event already shown as a browser notification
+  const lastNotifiedAlertRef = useRef(Date.now());
+  
+  // Set when watchlists change locally so they are saved and pushed to the API server after the
+  // state update renders; pushes in flight keep API syncs from overwriting the local edit
+  const syncWatchlistsRef = useRef(false);
+  const watchlistPushesRef = useRef(0);
+  const watchlistsRef = useRef<Watchlist[]>(tickerState.watchlists);
+  watchlistsRef.current = tickerState.watchlists;
+  
+  // Set when the rates provider changes so the choice is saved after the state update renders
+  const persistRatesRef = useRef(false);
+  
+  // Set when display preferences change so they are saved after the state update renders
+  const persistFormatRef = useRef(false);
+  
+  // Set when the history retention changes so it is saved after the state update renders
+  const persistRetentionRef = useRef(false);
+  
+  // Refreshes exchange rates from the current provider; replaced whenever the provider changes
+  const refreshRatesRef = useRef<() => void>(() => {});
+  
+  // Long-term price history beyond each stock's rolling priceHistory, downsampled as it ages
+  const historyStoreRef = useRef(new TieredHistoryStore(tickerState.historyRetention));
+  
+  /**
+   * Bring a stock's stored history up to date. Replayed stocks store their bars
+   * up to the playhead, starting over when the playhead moved back.
+   */
+  const ingestHistory = useCallback((stock: StockInfo) => {
+    const store = historyStoreRef.current;
+    const replay = replayEngineRef.current;
+    if (!replay || !replay.hasSymbol(stock.symbol)) {
+      store.ingest(stock.symbol, stock.priceHistory);
+      return;
+    }
+    const { newestTimestamp } = store.getStats(stock.symbol);
+    if (newestTimestamp !== null && newestTimestamp > replay.getProgress().currentTime) {
+      store.remove(stock.symbol);
+    }
+    store.ingest(stock.symbol, replay.getHistory(stock.symbol));
+  }, []);
+  
   // Error handling for the error boundary
   const handleError = useCallback((error: Error, errorInfo: ErrorInfo) => {
     console.error('Ticker error boundary caught error:', error, errorInfo);
@@ -407,36 +998,12 @@ export const TickerProvider: React.FC<{ children: ReactNode }> = ({ children })
       
       // Update the state with the new price
       safelyUpdateState(prevState => {
-        const updatedStocks = prevState.stocks.map((stock) => {
-          if (stock.symbol === sanitizedSymbol) {
-            const previousPrice = stock.currentPrice;
-            const percentChange = ((price - previousPrice) / previousPrice) * 100;
-            const timestamp = new Date();
-            
-            // Add the new price to history, keeping only MAX_HISTORY_POINTS
-            const newPricePoint: PricePoint = { timestamp, price };
-            const updatedHistory = [...stock.priceHistory, newPricePoint];
-            
-            if (updatedHistory.length > MAX_HISTORY_POINTS) {
-              updatedHistory.shift(); // Remove oldest point if exceeding max
-            }
-            
-            return {
-              ...stock,
-              previousPrice,
-              currentPrice: price,
-              percentChange,
-              lastUpdated: timestamp,
-              priceHistory: updatedHistory,
-            };
-          }
-          return stock;
-        });
-        
-        return {
-          ...prevState,
-          stocks: updatedStocks,
-        };
+        const command: TickerCommand = { type: 'setPrices', prices: { [sanitizedSymbol]: price } };
+        return withCommand(
+          applyTickerCommand(prevState, command),
+          command,
+          { type: 'setPrices', prices: currentPrices(prevState, [sanitizedSymbol]) }
+        );
       });
       
       return { isValid: true };
@@ -450,6 +1017,58 @@ export const TickerProvider: React.FC<{ children: ReactNode }> = ({ children })
     }
   }, [tickerState.stocks, getRateLimiter, safelyUpdateState]);
 
+  /**
+   * Set several stocks' prices at once, e.g. a bulk change from the control
+   * panel, recorded as one action so it is undone in one step
+   */
+  const setPrices = useCallback((prices: Record<string, number>, label?: string): ValidationResult => {
+    try {
+      const symbols = Object.keys(prices);
+      if (symbols.length === 0) {
+        return { isValid: false, errorMessage: 'No prices to set' };
+      }
+      
+      for (const symbol of symbols) {
+        const priceValidation = validateStockPrice(prices[symbol]);
+        if (!priceValidation.isValid) {
+          return { isValid: false, errorMessage: `${symbol}: ${priceValidation.errorMessage}` };
+        }
+        if (!tickerState.stocks.some(s => s.symbol === symbol)) {
+          return {
+            isValid: false,
+            errorMessage: `Stock with symbol ${symbol} does not exist`
+          };
+        }
+      }
+      
+      // One bulk change counts once against the limit
+      const rateLimiter = getRateLimiter('setPrices');
+      const rateLimitCheck = checkRateLimit(rateLimiter);
+      if (!rateLimitCheck.isValid) {
+        return rateLimitCheck;
+      }
+      
+      safelyUpdateState(prevState => {
+        const command: TickerCommand = { type: 'setPrices', prices };
+        return withCommand(
+          applyTickerCommand(prevState, command),
+          command,
+          { type: 'setPrices', prices: currentPrices(prevState, symbols) },
+          label
+        );
+      });
+      
+      return { isValid: true };
+    } catch (err) {
+      console.error('Error setting prices:', err);
+      setError(`Error setting prices: ${err instanceof Error ? err.message : String(err)}`);
+      return { 
+        isValid: false, 
+        errorMessage: `Internal error setting prices: ${err instanceof Error ? err.message : String(err)}` 
+      };
+    }
+  }, [tickerState.stocks, getRateLimiter, safelyUpdateState]);
+
   /**
    * Update speed of price updates with validation
    */
@@ -469,10 +1088,14 @@ export const TickerProvider: React.FC<{ children: ReactNode }> = ({ children })
       }
       
       // Update interval
-      safelyUpdateState(prevState => ({
-        ...prevState,
-        updateIntervalMs: intervalMs,
-      }));
+      safelyUpdateState(prevState => withCommand(
+        withSyncEdit({
+          ...prevState,
+          updateIntervalMs: intervalMs,
+        }, { type: 'updateControls', updates: { updateIntervalMs: intervalMs } }),
+        { type: 'updateControls', updates: { updateIntervalMs: intervalMs } },
+        { type: 'updateControls', updates: { updateIntervalMs: prevState.updateIntervalMs } }
+      ));
       
       return { isValid: true };
     } catch (err) {
@@ -490,10 +1113,10 @@ export const TickerProvider: React.FC<{ children: ReactNode }> = ({ children })
    */
   const togglePause = useCallback(() => {
     try {
-      safelyUpdateState(prevState => ({
+      safelyUpdateState(prevState => withSyncEdit({
         ...prevState,
         isPaused: !prevState.isPaused,
-      }));
+      }, { type: 'updateControls', updates: { isPaused: !prevState.isPaused } }));
     } catch (err) {
       console.error('Error toggling pause state:', err);
       setError(`Error toggling pause: ${err instanceof Error ? err.message : String(err)}`);
@@ -504,17 +1127,38 @@ export const TickerProvider: React.FC<{ children: ReactNode }> = ({ children })
    * Add a new stock to the ticker with initial price history
    * with validation and sanitation
    */
-  const addStock = useCallback((symbol: string, name: string, initialPrice: number): ValidationResult => {
+  const addStock = useCallback((
+    symbol: string,
+    name: string,
+    initialPrice: number,
+    priceModel?: PriceModelConfig,
+    currency: Currency = 'USD',
+    instrument: InstrumentIdentity = {}
+  ): ValidationResult => {
     try {
+      const instrumentType = instrument.instrumentType ?? 'equity';
+      const typeValidation = validateInstrumentType(instrumentType);
+      if (!typeValidation.isValid) {
+        return typeValidation;
+      }
+      
       // Sanitize and validate inputs
-      const sanitizedSymbol = sanitizeStockSymbol(symbol);
+      const sanitizedSymbol = sanitizeStockSymbol(symbol, instrumentType);
       const sanitizedName = sanitizeStockName(name);
       
-      const symbolValidation = validateStockSymbol(sanitizedSymbol);
+      const symbolValidation = validateStockSymbol(sanitizedSymbol, instrumentType);
       if (!symbolValidation.isValid) {
         return symbolValidation;
       }
       
+      const exchange = instrument.exchange || inferExchange(sanitizedSymbol, instrumentType);
+      if (exchange) {
+        const exchangeValidation = validateExchange(exchange, instrumentType);
+        if (!exchangeValidation.isValid) {
+          return exchangeValidation;
+        }
+      }
+      
       const nameValidation = validateStockName(sanitizedName);
       if (!nameValidation.isValid) {
         return nameValidation;
@@ -525,6 +1169,18 @@ export const TickerProvider: React.FC<{ children: ReactNode }> = ({ children })
         return priceValidation;
       }
       
+      if (priceModel) {
+        const modelValidation = validatePriceModel(priceModel);
+        if (!modelValidation.isValid) {
+          return modelValidation;
+        }
+      }
+      
+      const currencyValidation = validateCurrency(currency);
+      if (!currencyValidation.isValid) {
+        return currencyValidation;
+      }
+      
       // Check rate limiting for adding stocks
       const rateLimiter = getRateLimiter('addStock');
       const rateLimitCheck = checkRateLimit(rateLimiter, 20, 60000); // 20 new stocks per minute max
@@ -546,21 +1202,32 @@ export const TickerProvider: React.FC<{ children: ReactNode }> = ({ children })
       const newStock: StockInfo = {
         symbol: sanitizedSymbol,
         name: sanitizedName,
+        currency,
+        instrumentType,
+        exchange,
         currentPrice: initialPrice,
         previousPrice: initialPrice,
         initialPrice: initialPrice,
         percentChange: 0,
         lastUpdated: timestamp,
         priceHistory: [{ timestamp, price: initialPrice }],
+        priceModel,
       };
       
       // Update state
-      safelyUpdateState(prevState => ({
-        ...prevState,
-        stocks: [...prevState.stocks, newStock],
-        // If this is the first stock, select it automatically
-        selectedStock: prevState.selectedStock || sanitizedSymbol,
-      }));
+      safelyUpdateState(prevState => withCommand(
+        withSyncEdit({
+          ...prevState,
+          stocks: [...prevState.stocks, newStock],
+          // If this is the first stock, select it automatically
+          selectedStock: prevState.selectedStock || sanitizedSymbol,
+        }, {
+          type: 'addStock',
+          stock: { symbol: sanitizedSymbol, name: sanitizedName, initialPrice, currency, instrumentType, exchange },
+        }),
+        { type: 'restoreStock', stock: newStock, index: prevState.stocks.length },
+        { type: 'removeStock', symbol: sanitizedSymbol }
+      ));
       
       return { isValid: true };
     } catch (err) {
@@ -601,22 +1268,19 @@ export const TickerProvider: React.FC<{ children: ReactNode }> = ({ children })
         return rateLimitCheck;
       }
       
-      // Update state
+      priceModelsRef.current.delete(sanitizedSymbol);
+      
+      // Update state; the removed stock is kept in the command log as it was, so undo can put it back
       safelyUpdateState(prevState => {
-        // Get filtered stocks
-        const filteredStocks = prevState.stocks.filter(stock => stock.symbol !== sanitizedSymbol);
-        
-        // If we're removing the currently selected stock, select another one if available
-        let newSelectedStock = prevState.selectedStock;
-        if (prevState.selectedStock === sanitizedSymbol) {
-          newSelectedStock = filteredStocks.length > 0 ? filteredStocks[0].symbol : undefined;
+        const index = prevState.stocks.findIndex(stock => stock.symbol === sanitizedSymbol);
+        if (index === -1) {
+          return prevState;
         }
-        
-        return {
-          ...prevState,
-          stocks: filteredStocks,
-          selectedStock: newSelectedStock,
-        };
+        return withCommand(
+          withoutStock(prevState, sanitizedSymbol),
+          { type: 'removeStock', symbol: sanitizedSymbol },
+          { type: 'restoreStock', stock: prevState.stocks[index], index }
+        );
       });
       
       return { isValid: true };
@@ -631,19 +1295,21 @@ export const TickerProvider: React.FC<{ children: ReactNode }> = ({ children })
   }, [tickerState.stocks, getRateLimiter, safelyUpdateState]);
 
   /**
-   * Select a stock for detailed viewing in the graph
-   * with validation
+   * Change the price simulation model used for a stock's automatic updates
    */
-  const selectStock = useCallback((symbol: string): ValidationResult => {
+  const setPriceModel = useCallback((symbol: string, priceModel: PriceModelConfig): ValidationResult => {
     try {
-      // Sanitize and validate input
       const sanitizedSymbol = sanitizeStockSymbol(symbol);
       const symbolValidation = validateStockSymbol(sanitizedSymbol);
       if (!symbolValidation.isValid) {
         return symbolValidation;
       }
       
-      // Check if stock exists
+      const modelValidation = validatePriceModel(priceModel);
+      if (!modelValidation.isValid) {
+        return modelValidation;
+      }
+      
       const stockExists = tickerState.stocks.some(s => s.symbol === sanitizedSymbol);
       if (!stockExists) {
         return {
@@ -652,421 +1318,1493 @@ export const TickerProvider: React.FC<{ children: ReactNode }> = ({ children })
         };
       }
       
-      // Check rate limiting for selecting stocks (less restrictive)
-      const rateLimiter = getRateLimiter('selectStock');
-      const rateLimitCheck = checkRateLimit(rateLimiter, 60, 60000); // 60 selections per minute
-      if (!rateLimitCheck.isValid) {
-        return rateLimitCheck;
-      }
+      // Drop the cached instance so stateful models start fresh
+      priceModelsRef.current.delete(sanitizedSymbol);
       
-      // Update state
       safelyUpdateState(prevState => ({
         ...prevState,
-        selectedStock: sanitizedSymbol,
+        stocks: prevState.stocks.map(stock =>
+          stock.symbol === sanitizedSymbol ? { ...stock, priceModel } : stock
+        ),
       }));
       
       return { isValid: true };
     } catch (err) {
-      console.error('Error selecting stock:', err);
-      setError(`Error selecting stock: ${err instanceof Error ? err.message : String(err)}`);
+      console.error('Error setting price model:', err);
+      setError(`Error setting price model: ${err instanceof Error ? err.message : String(err)}`);
       return { 
         isValid: false, 
-        errorMessage: `Internal error selecting stock: ${err instanceof Error ? err.message : String(err)}` 
+        errorMessage: `Internal error setting price model: ${err instanceof Error ? err.message : String(err)}` 
       };
     }
-  }, [tickerState.stocks, getRateLimiter, safelyUpdateState]);
+  }, [tickerState.stocks, safelyUpdateState]);
 
   /**
-   * Get price history for a specific stock with safety checks
+   * Set the chart indicators for a stock. Choices are persisted through
+   * saveStateToStorage and restored on the next visit.
    */
-  const getStockPriceHistory = useCallback((symbol: string): PricePoint[] => {
+  const setIndicators = useCallback((symbol: string, indicators: IndicatorConfig[]): ValidationResult => {
     try {
-      // Sanitize input
       const sanitizedSymbol = sanitizeStockSymbol(symbol);
-      if (!sanitizedSymbol) {
-        console.warn('Invalid symbol provided to getStockPriceHistory');
-        return [];
+      const symbolValidation = validateStockSymbol(sanitizedSymbol);
+      if (!symbolValidation.isValid) {
+        return symbolValidation;
       }
       
-      // Find stock with safety checks
-      const stock = tickerState.stocks.find(s => s.symbol === sanitizedSymbol);
-      if (!stock) {
-        console.warn(`Stock not found: ${sanitizedSymbol}`);
-        return [];
+      if (!Array.isArray(indicators) || indicators.length > 10) {
+        return { isValid: false, errorMessage: 'A stock can show at most 10 indicators' };
+      }
+      
+      for (const indicator of indicators) {
+        const indicatorValidation = validateIndicator(indicator);
+        if (!indicatorValidation.isValid) {
+          return indicatorValidation;
+        }
+      }
+      
+      const stockExists = tickerState.stocks.some(s => s.symbol === sanitizedSymbol);
+      if (!stockExists) {
+        return {
+          isValid: false,
+          errorMessage: `Stock with symbol ${sanitizedSymbol} does not exist`
+        };
       }
       
-      // Return a copy of the price history to prevent accidental mutations
-      return [...stock.priceHistory];
+      persistIndicatorsRef.current = true;
+      safelyUpdateState(prevState => ({
+        ...prevState,
+        stocks: prevState.stocks.map(stock =>
+          stock.symbol === sanitizedSymbol ? { ...stock, indicators } : stock
+        ),
+      }));
+      
+      return { isValid: true };
     } catch (err) {
-      console.error('Error getting stock price history:', err);
-      setError(`Error getting price history: ${err instanceof Error ? err.message : String(err)}`);
-      return [];
+      console.error('Error setting indicators:', err);
+      setError(`Error setting indicators: ${err instanceof Error ? err.message : String(err)}`);
+      return { 
+        isValid: false, 
+        errorMessage: `Internal error setting indicators: ${err instanceof Error ? err.message : String(err)}` 
+      };
     }
-  }, [tickerState.stocks]);
+  }, [tickerState.stocks, safelyUpdateState]);
 
   /**
-   * Change the selected currency with validation
+   * Restart the simulation from a seed. Every current stock is reset to its
+   * initial price with a regenerated history, so the same seed and stock list
+   * replay the same session tick-for-tick.
    */
-  const changeCurrency = useCallback((currency: Currency): ValidationResult => {
+  const setSimulationSeed = useCallback((seed: number | string): ValidationResult => {
     try {
-      // Validate currency
-      const currencyValidation = validateCurrency(currency);
-      if (!currencyValidation.isValid) {
-        return currencyValidation;
+      if (typeof seed === 'string' ? !seed.trim() : !isFinite(seed)) {
+        return { isValid: false, errorMessage: 'Seed must be a number or non-empty text' };
       }
       
-      // Check rate limiting for currency changes
-      const rateLimiter = getRateLimiter('changeCurrency');
-      const rateLimitCheck = checkRateLimit(rateLimiter, 30, 60000); // 30 currency changes per minute max
+      const rateLimiter = getRateLimiter('setSimulationSeed');
+      const rateLimitCheck = checkRateLimit(rateLimiter, 10, 60000); // 10 restarts per minute max
       if (!rateLimitCheck.isValid) {
         return rateLimitCheck;
       }
       
-      // Convert all stock prices to the new currency
-      safelyUpdateState(prevState => {
-        const convertedStocks = prevState.stocks.map((stock) => {
-          // Convert current, previous, and initial prices
-          const convertedCurrentPrice = convertCurrency(stock.currentPrice, prevState.selectedCurrency, currency);
-          const convertedPreviousPrice = convertCurrency(stock.previousPrice, prevState.selectedCurrency, currency);
-          const convertedInitialPrice = convertCurrency(stock.initialPrice, prevState.selectedCurrency, currency);
-          
-          // Convert price history
-          const convertedHistory = stock.priceHistory.map(point => ({
-            ...point,
-            price: convertCurrency(point.price, prevState.selectedCurrency, currency)
-          }));
-          
-          return {
-            ...stock,
-            currentPrice: convertedCurrentPrice,
-            previousPrice: convertedPreviousPrice,
-            initialPrice: convertedInitialPrice,
-            priceHistory: convertedHistory,
-            // Recalculate percentage change in the new currency
-            percentChange: convertedPreviousPrice > 0 
-              ? ((convertedCurrentPrice - convertedPreviousPrice) / convertedPreviousPrice) * 100
-              : 0
-          };
-        });
-        
-        return {
-          ...prevState,
-          selectedCurrency: currency,
-          stocks: convertedStocks
-        };
-      });
+      const normalizedSeed = normalizeSeed(seed);
+      randomRef.current = createSeededRandom(normalizedSeed);
+      priceModelsRef.current.clear();
+      historyStoreRef.current.clear();
+      lastTickRef.current = null;
+      
+      // Regenerate from the current stock list so user-added stocks replay too.
+      // Built outside the state updater so StrictMode re-runs can't consume extra draws.
+      const stocks = createSimulatedStocks(
+        tickerState.stocks.map(stock => ({
+          symbol: stock.symbol,
+          name: stock.name,
+          basePrice: stock.initialPrice,
+          priceModel: stock.priceModel,
+          currency: stock.currency,
+          instrumentType: stock.instrumentType,
+          exchange: stock.exchange,
+        })),
+        randomRef.current
+      );
+      
+      safelyUpdateState(prevState => ({
+        ...prevState,
+        stocks,
+        simulationSeed: normalizedSeed,
+      }));
       
       return { isValid: true };
     } catch (err) {
-      console.error('Error changing currency:', err);
-      setError(`Error changing currency: ${err instanceof Error ? err.message : String(err)}`);
+      console.error('Error setting simulation seed:', err);
+      setError(`Error setting simulation seed: ${err instanceof Error ? err.message : String(err)}`);
       return { 
         isValid: false, 
-        errorMessage: `Internal error changing currency: ${err instanceof Error ? err.message : String(err)}` 
+        errorMessage: `Internal error setting simulation seed: ${err instanceof Error ? err.message : String(err)}` 
       };
     }
-  }, [tickerState.selectedCurrency, tickerState.stocks, getRateLimiter, safelyUpdateState]);
-
-  /**
-   * Memory usage monitoring effect
-   */
-  useEffect(() => {
-    // Set up memory monitoring interval
-    const memoryCheckIntervalId = setInterval(() => {
-      try {
-        const memoryStats = getMemoryUsage();
-        
-        if (memoryStats) {
-          // Check memory usage and pause if exceeding limits
-          const memCheck = checkMemoryUsage(memoryStats);
-          
-          if (!memCheck.isValid && !tickerState.isPaused) {
-            console.warn(memCheck.errorMessage);
-            setError(`Memory warning: ${memCheck.errorMessage}`);
-            
-            // Auto-pause on high memory usage
-            safelyUpdateState(prevState => ({
-              ...prevState,
-              isPaused: true,
-              memoryStats
-            }));
-          } else {
-            // Just update memory stats
-            safelyUpdateState(prevState => ({
-              ...prevState,
-              memoryStats
-            }));
-          }
-        }
-      } catch (err) {
-        console.error('Error monitoring memory:', err);
-      }
-    }, SECURITY_CONSTRAINTS.MEMORY_CHECK_INTERVAL_MS);
-    
-    // Clean up interval
-    return () => {
-      clearInterval(memoryCheckIntervalId);
-    };
-  }, [tickerState.isPaused, safelyUpdateState, setError]);
+  }, [tickerState.stocks, getRateLimiter, safelyUpdateState]);
 
   /**
-   * Fetch stocks from API server
+   * Start a scripted scenario. It replaces any scenario already running and
+   * advances with each price tick, so pausing the ticker also pauses it.
    */
-  const fetchStocksFromAPI = useCallback(async (): Promise<void> => {
-    // Skip API calls if no API server is configured
-    if (!shouldUseApiServer()) {
-      console.log('🏥 API server disabled, using local data only');
-      return;
-    }
-    
-    // CRITICAL: Skip API calls if not authenticated
-    if (!isJWTBridgeAuthenticated()) {
-      console.log('⚠️ Skipping API call - not authenticated yet');
-      return;
-    }
-    
-    console.log('🔄 Attempting to fetch stocks from API...');
+  const startScenario = useCallback((scenario: MarketScenario): ValidationResult => {
     try {
-      const apiUrl = buildApiUrl(API_ENDPOINTS.STOCKS);
-      const headers = getJWTAuthHeaders();
+      const scenarioValidation = validateScenario(scenario);
+      if (!scenarioValidation.isValid) {
+        return scenarioValidation;
+      }
       
-      // Double-check we have auth headers
-      if (!headers.Authorization) {
-        console.warn('⚠️ No authorization header available, skipping API call');
-        return;
+      // Every scripted stock must be on the ticker
+      const missingSymbol = scenario.steps
+        .map(step => sanitizeStockSymbol(step.symbol))
+        .find(symbol => !tickerState.stocks.some(stock => stock.symbol === symbol));
+      if (missingSymbol) {
+        return { isValid: false, errorMessage: `Stock with symbol ${missingSymbol} does not exist` };
       }
       
-      const response = await fetch(apiUrl, {
-        method: 'GET',
-        headers: headers,
-      });
+      const rateLimiter = getRateLimiter('startScenario');
+      const rateLimitCheck = checkRateLimit(rateLimiter, 10, 60000); // 10 scenario starts per minute max
+      if (!rateLimitCheck.isValid) {
+        return rateLimitCheck;
+      }
       
-      console.log('📡 API Response status:', response.status);
+      const engine = new ScenarioEngine({
+        ...scenario,
+        steps: scenario.steps.map(step => ({ ...step, symbol: sanitizeStockSymbol(step.symbol) })),
+      });
+      scenarioEngineRef.current = engine;
       
-      if (!response.ok) {
-        // If we get 401, it means our authentication expired or failed
-        if (response.status === 401) {
-          console.warn('⚠️ API authentication failed (401), clearing auth and retrying later');
-          clearJWTBridge();
-          return;
-        }
-        
-        // Other errors - continue with local data
-        console.warn('⚠️ API server error, using local stock data');
-        return;
-      }
+      safelyUpdateState(prevState => ({
+        ...prevState,
+        scenario: engine.getProgress(),
+      }));
       
-      // Check if response is JSON before parsing
-      const contentType = response.headers.get('content-type');
-      if (!contentType || !contentType.includes('application/json')) {
-        console.warn('⚠️ API server returned non-JSON response, using local stock data');
-        return;
+      return { isValid: true };
+    } catch (err) {
+      console.error('Error starting scenario:', err);
+      setError(`Error starting scenario: ${err instanceof Error ? err.message : String(err)}`);
+      return { 
+        isValid: false, 
+        errorMessage: `Internal error starting scenario: ${err instanceof Error ? err.message : String(err)}` 
+      };
+    }
+  }, [tickerState.stocks, getRateLimiter, safelyUpdateState]);
+  
+  /**
+   * Apply a pause, resume or abort transition to the active scenario
+   */
+  const transitionScenario = useCallback((
+    transition: (engine: ScenarioEngine) => boolean,
+    errorMessage: string
+  ): ValidationResult => {
+    try {
+      const engine = scenarioEngineRef.current;
+      if (!engine || !transition(engine)) {
+        return { isValid: false, errorMessage };
       }
       
-      let data;
-      try {
-        data = await response.json();
-        console.log('📊 Received data from API:', data);
-      } catch (jsonError) {
-        console.warn('⚠️ Failed to parse API JSON response:', jsonError);
-        return;
-      }
+      safelyUpdateState(prevState => ({
+        ...prevState,
+        scenario: engine.getProgress(),
+      }));
       
-      if (data.success && data.stocks) {
-        console.log('✅ Merging API data with local state intelligently');
-        safelyUpdateState(prevState => {
-          console.log('📈 Previous stocks:', prevState.stocks.length);
-          
-          // Start with API stocks as the authoritative source
-          const mergedStocks: any[] = [];
-          
-          // Process each API stock and merge with local data if available
-          data.stocks.forEach((apiStock: any) => {
-            // Find corresponding local stock
-            const localStock = prevState.stocks.find(s => s.symbol === apiStock.symbol);
-            
-            if (!localStock) {
-              // New stock from API - add it
-              console.log(`📊 Adding new stock from API: ${apiStock.symbol}`);
-              mergedStocks.push({
-                ...apiStock,
-                lastUpdated: new Date(apiStock.lastUpdated),
-                priceHistory: apiStock.priceHistory.map((point: any) => ({
-                  ...point,
-                  timestamp: new Date(point.timestamp)
-                }))
-              });
-              return;
-            }
-            
-            // Convert API timestamps
-            const apiPriceHistory = apiStock.priceHistory.map((point: any) => ({
-              ...point,
-              timestamp: new Date(point.timestamp)
-            }));
-            
-            // If API has richer data (more points), use it
-            // Otherwise, preserve local rich data and just update current price
-            let finalPriceHistory;
-            if (apiPriceHistory.length >= localStock.priceHistory.length) {
-              // API has equal or more data points, use API data
-              console.log(`📊 ${localStock.symbol}: Using API data (${apiPriceHistory.length} points)`);
-              finalPriceHistory = apiPriceHistory;
-            } else {
-              // Local data is richer, merge intelligently
-              console.log(`📊 ${localStock.symbol}: Merging API current price with local history`);
-              
-              // Update local history with API's current price if it's newer
-              const apiLastUpdate = new Date(apiStock.lastUpdated);
-              const localLastUpdate = localStock.lastUpdated;
-              
-              if (apiLastUpdate > localLastUpdate) {
-                // API has newer data, add the new price point
-                finalPriceHistory = updatePriceHistory(
-                  localStock.priceHistory,
-                  apiStock.currentPrice,
-                  MAX_HISTORY_POINTS
-                );
-              } else {
-                // Keep local data as it's more recent
-                finalPriceHistory = localStock.priceHistory;
-              }
-            }
-            
-            // Add merged stock data
-            mergedStocks.push({
-              ...localStock,
-              currentPrice: apiStock.currentPrice,
-              previousPrice: apiStock.previousPrice,
-              percentChange: apiStock.percentChange, // Fixed: API returns percentChange not percentageChange
-              lastUpdated: new Date(apiStock.lastUpdated),
-              priceHistory: finalPriceHistory
-            });
-          });
-          
-          // Check for removed stocks
-          const removedStocks = prevState.stocks.filter(localStock => 
-            !data.stocks.find((apiStock: any) => apiStock.symbol === localStock.symbol)
-          );
-          
-          if (removedStocks.length > 0) {
-            console.log(`🗑️ Stocks removed from API:`, removedStocks.map(s => s.symbol).join(', '));
-          }
-          
-          // Check if the currently selected stock was removed
-          let newSelectedStock = prevState.selectedStock;
-          if (newSelectedStock && removedStocks.find(s => s.symbol === newSelectedStock)) {
-            // Selected stock was removed, select the first available stock or null
-            newSelectedStock = mergedStocks.length > 0 ? mergedStocks[0].symbol : null;
-            console.log(`📌 Selected stock was removed, switching to: ${newSelectedStock || 'none'}`);
-          }
-          
-          console.log('📈 Merged stocks:', mergedStocks.length);
-          
-          return {
-            ...prevState,
-            stocks: mergedStocks,
-            selectedStock: newSelectedStock
-          };
-        });
-        console.log('✅ Intelligent merge completed successfully');
-      } else {
-        console.warn('⚠️ API response missing success or stocks data');
-      }
+      return { isValid: true };
     } catch (err) {
-      // Silently continue with local data if API is unavailable
-      console.error('❌ Could not fetch from API, using local data:', err);
+      console.error('Error updating scenario:', err);
+      setError(`Error updating scenario: ${err instanceof Error ? err.message : String(err)}`);
+      return { 
+        isValid: false, 
+        errorMessage: `Internal error updating scenario: ${err instanceof Error ? err.message : String(err)}` 
+      };
     }
   }, [safelyUpdateState]);
   
+  const pauseScenario = useCallback(
+    () => transitionScenario(engine => engine.pause(), 'No running scenario to pause'),
+    [transitionScenario]
+  );
+  
+  const resumeScenario = useCallback(
+    () => transitionScenario(engine => engine.resume(), 'No paused scenario to resume'),
+    [transitionScenario]
+  );
+  
+  const abortScenario = useCallback(
+    () => transitionScenario(engine => engine.abort(), 'No active scenario to abort'),
+    [transitionScenario]
+  );
+
   /**
-   * Fetch controls from API server
+   * Add a price alert. Alerts are checked whenever prices change.
    */
-  const fetchControlsFromAPI = useCallback(async (): Promise<void> => {
-    // Skip API calls if no API server is configured
-    if (!shouldUseApiServer()) {
-      console.log('🏥 API server disabled, using local controls only');
-      return;
-    }
-    
-    // CRITICAL: Skip API calls if not authenticated
-    if (!isJWTBridgeAuthenticated()) {
-      console.log('⚠️ Skipping controls API call - not authenticated yet');
+  const addAlert = useCallback((alert: NewPriceAlert): ValidationResult => {
+    try {
+      const validation = validateNewAlert(alert);
+      if (!validation.isValid) {
+        return validation;
+      }
+      
+      const rateLimiter = getRateLimiter('addAlert');
+      const rateLimitCheck = checkRateLimit(rateLimiter, 20, 60000); // 20 alerts per minute max
+      if (!rateLimitCheck.isValid) {
+        return rateLimitCheck;
+      }
+      
+      if (tickerState.alerts.length >= ALERT_LIMITS.MAX_ALERTS) {
+        return { isValid: false, errorMessage: `Maximum number of alerts (${ALERT_LIMITS.MAX_ALERTS}) reached` };
+      }
+      
+      const sanitizedSymbol = sanitizeStockSymbol(alert.symbol);
+      if (!tickerState.stocks.some(s => s.symbol === sanitizedSymbol)) {
+        return {
+          isValid: false,
+          errorMessage: `Stock with symbol ${sanitizedSymbol} does not exist`
+        };
+      }
+      
+      const newAlert = createAlert(alert, `alert-${Date.now().toString(36)}-${Math.random().toString(36).substr(2, 5)}`, Date.now());
+      persistAlertsRef.current = true;
+      safelyUpdateState(prevState => ({
+        ...prevState,
+        alerts: [...prevState.alerts, newAlert],
+      }));
+      
+      return { isValid: true };
+    } catch (err) {
+      console.error('Error adding alert:', err);
+      setError(`Error adding alert: ${err instanceof Error ? err.message : String(err)}`);
+      return { 
+        isValid: false, 
+        errorMessage: `Internal error adding alert: ${err instanceof Error ? err.message : String(err)}` 
+      };
+    }
+  }, [tickerState.alerts, tickerState.stocks, getRateLimiter, safelyUpdateState]);
+
+  /**
+   * Remove a price alert
+   */
+  const removeAlert = useCallback((id: string): ValidationResult => {
+    try {
+      if (!tickerState.alerts.some(alert => alert.id === id)) {
+        return { isValid: false, errorMessage: 'Alert not found' };
+      }
+      
+      persistAlertsRef.current = true;
+      safelyUpdateState(prevState => ({
+        ...prevState,
+        alerts: prevState.alerts.filter(alert => alert.id !== id),
+      }));
+      
+      return { isValid: true };
+    } catch (err) {
+      console.error('Error removing alert:', err);
+      setError(`Error removing alert: ${err instanceof Error ? err.message : String(err)}`);
+      return { 
+        isValid: false, 
+        errorMessage: `Internal error removing alert: ${err instanceof Error ? err.message : String(err)}` 
+      };
+    }
+  }, [tickerState.alerts, safelyUpdateState]);
+
+  /**
+   * Enable or disable a price alert. Re-enabling re-arms it, so a fired
+   * one-shot alert can be used again.
+   */
+  const setAlertEnabled = useCallback((id: string, enabled: boolean): ValidationResult => {
+    try {
+      if (!tickerState.alerts.some(alert => alert.id === id)) {
+        return { isValid: false, errorMessage: 'Alert not found' };
+      }
+      
+      persistAlertsRef.current = true;
+      safelyUpdateState(prevState => ({
+        ...prevState,
+        alerts: prevState.alerts.map(alert =>
+          alert.id === id ? { ...alert, enabled, armed: enabled ? true : alert.armed } : alert
+        ),
+      }));
+      
+      return { isValid: true };
+    } catch (err) {
+      console.error('Error updating alert:', err);
+      setError(`Error updating alert: ${err instanceof Error ? err.message : String(err)}`);
+      return { 
+        isValid: false, 
+        errorMessage: `Internal error updating alert: ${err instanceof Error ? err.message : String(err)}` 
+      };
+    }
+  }, [tickerState.alerts, safelyUpdateState]);
+
+  /**
+   * Apply a change to the watchlists, to be saved and pushed to the API server
+   */
+  const updateWatchlists = useCallback((
+    update: (watchlists: Watchlist[]) => Watchlist[],
+    activeWatchlistId?: string | null
+  ) => {
+    syncWatchlistsRef.current = true;
+    safelyUpdateState(prevState => {
+      const watchlists = update(prevState.watchlists);
+      const nextActive = activeWatchlistId === undefined ? prevState.activeWatchlistId : activeWatchlistId ?? undefined;
+      return {
+        ...prevState,
+        watchlists,
+        activeWatchlistId: watchlists.some(watchlist => watchlist.id === nextActive) ? nextActive : undefined,
+      };
+    });
+  }, [safelyUpdateState]);
+
+  /**
+   * Create a watchlist and show it in the ticker
+   */
+  const createWatchlist = useCallback((name: string, symbols: string[] = []): ValidationResult => {
+    try {
+      const nameValidation = validateWatchlistName(name);
+      if (!nameValidation.isValid) {
+        return nameValidation;
+      }
+      
+      const rateLimiter = getRateLimiter('watchlists');
+      const rateLimitCheck = checkRateLimit(rateLimiter, 30, 60000); // 30 watchlist changes per minute max
+      if (!rateLimitCheck.isValid) {
+        return rateLimitCheck;
+      }
+      
+      const trimmedName = name.trim();
+      if (tickerState.watchlists.length >= WATCHLIST_LIMITS.MAX_WATCHLISTS) {
+        return { isValid: false, errorMessage: `Maximum number of watchlists (${WATCHLIST_LIMITS.MAX_WATCHLISTS}) reached` };
+      }
+      if (tickerState.watchlists.some(watchlist => watchlist.name.toLowerCase() === trimmedName.toLowerCase())) {
+        return { isValid: false, errorMessage: `A watchlist named ${trimmedName} already exists` };
+      }
+      
+      const watchlist: Watchlist = {
+        id: createWatchlistId(),
+        name: trimmedName,
+        symbols: sanitizeWatchlistSymbols(symbols).filter(symbol => tickerState.stocks.some(s => s.symbol === symbol)),
+      };
+      updateWatchlists(watchlists => [...watchlists, watchlist], watchlist.id);
+      
+      return { isValid: true };
+    } catch (err) {
+      console.error('Error creating watchlist:', err);
+      setError(`Error creating watchlist: ${err instanceof Error ? err.message : String(err)}`);
+      return { 
+        isValid: false, 
+        errorMessage: `Internal error creating watchlist: ${err instanceof Error ? err.message : String(err)}` 
+      };
+    }
+  }, [tickerState.watchlists, tickerState.stocks, getRateLimiter, updateWatchlists]);
+
+  /**
+   * Rename a watchlist
+   */
+  const renameWatchlist = useCallback((id: string, name: string): ValidationResult => {
+    try {
+      const nameValidation = validateWatchlistName(name);
+      if (!nameValidation.isValid) {
+        return nameValidation;
+      }
+      
+      const rateLimiter = getRateLimiter('watchlists');
+      const rateLimitCheck = checkRateLimit(rateLimiter, 30, 60000);
+      if (!rateLimitCheck.isValid) {
+        return rateLimitCheck;
+      }
+      
+      const trimmedName = name.trim();
+      if (!tickerState.watchlists.some(watchlist => watchlist.id === id)) {
+        return { isValid: false, errorMessage: 'Watchlist not found' };
+      }
+      if (tickerState.watchlists.some(watchlist => watchlist.id !== id && watchlist.name.toLowerCase() === trimmedName.toLowerCase())) {
+        return { isValid: false, errorMessage: `A watchlist named ${trimmedName} already exists` };
+      }
+      
+      updateWatchlists(watchlists => watchlists.map(watchlist =>
+        watchlist.id === id ? { ...watchlist, name: trimmedName } : watchlist
+      ));
+      
+      return { isValid: true };
+    } catch (err) {
+      console.error('Error renaming watchlist:', err);
+      setError(`Error renaming watchlist: ${err instanceof Error ? err.message : String(err)}`);
+      return { 
+        isValid: false, 
+        errorMessage: `Internal error renaming watchlist: ${err instanceof Error ? err.message : String(err)}` 
+      };
+    }
+  }, [tickerState.watchlists, getRateLimiter, updateWatchlists]);
+
+  /**
+   * Delete a watchlist; its stocks stay on the ticker
+   */
+  const deleteWatchlist = useCallback((id: string): ValidationResult => {
+    try {
+      if (!tickerState.watchlists.some(watchlist => watchlist.id === id)) {
+        return { isValid: false, errorMessage: 'Watchlist not found' };
+      }
+      
+      updateWatchlists(watchlists => watchlists.filter(watchlist => watchlist.id !== id));
+      
+      return { isValid: true };
+    } catch (err) {
+      console.error('Error deleting watchlist:', err);
+      setError(`Error deleting watchlist: ${err instanceof Error ? err.message : String(err)}`);
+      return { 
+        isValid: false, 
+        errorMessage: `Internal error deleting watchlist: ${err instanceof Error ? err.message : String(err)}` 
+      };
+    }
+  }, [tickerState.watchlists, updateWatchlists]);
+
+  /**
+   * Set which stocks appear in a watchlist, in display order
+   */
+  const setWatchlistSymbols = useCallback((id: string, symbols: string[]): ValidationResult => {
+    try {
+      if (!Array.isArray(symbols)) {
+        return { isValid: false, errorMessage: 'Symbols must be a list' };
+      }
+      
+      const rateLimiter = getRateLimiter('watchlists');
+      const rateLimitCheck = checkRateLimit(rateLimiter, 30, 60000);
+      if (!rateLimitCheck.isValid) {
+        return rateLimitCheck;
+      }
+      
+      if (!tickerState.watchlists.some(watchlist => watchlist.id === id)) {
+        return { isValid: false, errorMessage: 'Watchlist not found' };
+      }
+      
+      const sanitizedSymbols = sanitizeWatchlistSymbols(symbols);
+      const unknownSymbol = sanitizedSymbols.find(symbol => !tickerState.stocks.some(s => s.symbol === symbol));
+      if (unknownSymbol) {
+        return {
+          isValid: false,
+          errorMessage: `Stock with symbol ${unknownSymbol} does not exist`
+        };
+      }
+      
+      updateWatchlists(watchlists => watchlists.map(watchlist =>
+        watchlist.id === id ? { ...watchlist, symbols: sanitizedSymbols } : watchlist
+      ));
+      
+      return { isValid: true };
+    } catch (err) {
+      console.error('Error updating watchlist:', err);
+      setError(`Error updating watchlist: ${err instanceof Error ? err.message : String(err)}`);
+      return { 
+        isValid: false, 
+        errorMessage: `Internal error updating watchlist: ${err instanceof Error ? err.message : String(err)}` 
+      };
+    }
+  }, [tickerState.watchlists, tickerState.stocks, getRateLimiter, updateWatchlists]);
+
+  /**
+   * Choose the watchlist shown in the ticker, or null for all stocks
+   */
+  const selectWatchlist = useCallback((id: string | null): ValidationResult => {
+    if (id !== null && !tickerState.watchlists.some(watchlist => watchlist.id === id)) {
+      return { isValid: false, errorMessage: 'Watchlist not found' };
+    }
+    
+    safelyUpdateState(prevState => ({
+      ...prevState,
+      activeWatchlistId: id ?? undefined,
+    }));
+    
+    return { isValid: true };
+  }, [tickerState.watchlists, safelyUpdateState]);
+
+  /**
+   * Clear the list of recent alert firings
+   */
+  const clearAlertEvents = useCallback(() => {
+    safelyUpdateState(prevState => ({
+      ...prevState,
+      alertEvents: [],
+    }));
+  }, [safelyUpdateState]);
+
+  /**
+   * Dismiss a reported API server sync conflict
+   */
+  const dismissSyncConflict = useCallback((id: string) => {
+    safelyUpdateState(prevState => ({
+      ...prevState,
+      sync: { ...prevState.sync, conflicts: prevState.sync.conflicts.filter(conflict => conflict.id !== id) },
+    }));
+  }, [safelyUpdateState]);
+
+  /**
+   * Dismiss all reported API server sync conflicts
+   */
+  const clearSyncConflicts = useCallback(() => {
+    safelyUpdateState(prevState => ({
+      ...prevState,
+      sync: { ...prevState.sync, conflicts: [] },
+    }));
+  }, [safelyUpdateState]);
+
+  /**
+   * Queue an edit the API server refused again, e.g. after fixing permissions
+   */
+  const retryFailedEdit = useCallback((id: string): ValidationResult => {
+    if (!tickerState.sync.failedEdits.some(failed => failed.edit.id === id)) {
+      return { isValid: false, errorMessage: 'Failed edit not found' };
+    }
+    
+    safelyUpdateState(prevState => {
+      const sync = retryFailedSyncEdit(prevState.sync, id, Date.now());
+      return sync ? { ...prevState, sync } : prevState;
+    });
+    return { isValid: true };
+  }, [tickerState.sync.failedEdits, safelyUpdateState]);
+
+  /**
+   * Drop an edit the API server refused; the server's value comes back with its next update
+   */
+  const discardFailedEdit = useCallback((id: string) => {
+    safelyUpdateState(prevState => ({
+      ...prevState,
+      sync: discardFailedSyncEdit(prevState.sync, id),
+    }));
+  }, [safelyUpdateState]);
+
+  /**
+   * Revert the last recorded control-panel action
+   */
+  const undo = useCallback((): ValidationResult => {
+    try {
+      const { done } = tickerState.commandLog;
+      const entry = done[done.length - 1];
+      if (!entry) {
+        return { isValid: false, errorMessage: 'Nothing to undo' };
+      }
+      
+      if (entry.inverse.type === 'removeStock') {
+        priceModelsRef.current.delete(entry.inverse.symbol);
+      }
+      safelyUpdateState(prevState => {
+        const undone = undoCommand(prevState.commandLog);
+        return undone ? { ...applyTickerCommand(prevState, undone.entry.inverse), commandLog: undone.log } : prevState;
+      });
+      
+      return { isValid: true };
+    } catch (err) {
+      console.error('Error undoing action:', err);
+      setError(`Error undoing action: ${err instanceof Error ? err.message : String(err)}`);
+      return { 
+        isValid: false, 
+        errorMessage: `Internal error undoing action: ${err instanceof Error ? err.message : String(err)}` 
+      };
+    }
+  }, [tickerState.commandLog, safelyUpdateState]);
+
+  /**
+   * Apply the last undone control-panel action again
+   */
+  const redo = useCallback((): ValidationResult => {
+    try {
+      const { undone } = tickerState.commandLog;
+      const entry = undone[undone.length - 1];
+      if (!entry) {
+        return { isValid: false, errorMessage: 'Nothing to redo' };
+      }
+      
+      if (entry.command.type === 'removeStock') {
+        priceModelsRef.current.delete(entry.command.symbol);
+      }
+      safelyUpdateState(prevState => {
+        const redone = redoCommand(prevState.commandLog);
+        return redone ? { ...applyTickerCommand(prevState, redone.entry.command), commandLog: redone.log } : prevState;
+      });
+      
+      return { isValid: true };
+    } catch (err) {
+      console.error('Error redoing action:', err);
+      setError(`Error redoing action: ${err instanceof Error ? err.message : String(err)}`);
+      return { 
+        isValid: false, 
+        errorMessage: `Internal error redoing action: ${err instanceof Error ? err.message : String(err)}` 
+      };
+    }
+  }, [tickerState.commandLog, safelyUpdateState]);
+
+  /**
+   * Select a stock for detailed viewing in the graph
+   * with validation
+   */
+  const selectStock = useCallback((symbol: string): ValidationResult => {
+    try {
+      // Sanitize and validate input
+      const sanitizedSymbol = sanitizeStockSymbol(symbol);
+      const symbolValidation = validateStockSymbol(sanitizedSymbol);
+      if (!symbolValidation.isValid) {
+        return symbolValidation;
+      }
+      
+      // Check if stock exists
+      const stockExists = tickerState.stocks.some(s => s.symbol === sanitizedSymbol);
+      if (!stockExists) {
+        return {
+          isValid: false,
+          errorMessage: `Stock with symbol ${sanitizedSymbol} does not exist`
+        };
+      }
+      
+      // Check rate limiting for selecting stocks (less restrictive)
+      const rateLimiter = getRateLimiter('selectStock');
+      const rateLimitCheck = checkRateLimit(rateLimiter, 60, 60000); // 60 selections per minute
+      if (!rateLimitCheck.isValid) {
+        return rateLimitCheck;
+      }
+      
+      // Update state
+      safelyUpdateState(prevState => ({
+        ...prevState,
+        selectedStock: sanitizedSymbol,
+      }));
+      
+      return { isValid: true };
+    } catch (err) {
+      console.error('Error selecting stock:', err);
+      setError(`Error selecting stock: ${err instanceof Error ? err.message : String(err)}`);
+      return { 
+        isValid: false, 
+        errorMessage: `Internal error selecting stock: ${err instanceof Error ? err.message : String(err)}` 
+      };
+    }
+  }, [tickerState.stocks, getRateLimiter, safelyUpdateState]);
+
+  /**
+   * Get price history for a specific stock with safety checks. History comes
+   * from the tiered store, so older points are downsampled; pass a range to
+   * limit it to recent points and maxPoints to bound the result size.
+   */
+  const getStockPriceHistory = useCallback((symbol: string, range: ChartTimeRange = 'all', maxPoints?: number): PricePoint[] => {
+    try {
+      // Sanitize input
+      const sanitizedSymbol = sanitizeStockSymbol(symbol);
+      if (!sanitizedSymbol) {
+        console.warn('Invalid symbol provided to getStockPriceHistory');
+        return [];
+      }
+      
+      // Find stock with safety checks
+      const stock = tickerState.stocks.find(s => s.symbol === sanitizedSymbol);
+      if (!stock) {
+        console.warn(`Stock not found: ${sanitizedSymbol}`);
+        return [];
+      }
+      
+      // Ranges of replayed stocks are measured back from the playhead
+      const replay = replayEngineRef.current;
+      const now = replay && replay.hasSymbol(sanitizedSymbol) ? replay.getProgress().currentTime : Date.now();
+      return historyStoreRef.current.query(sanitizedSymbol, range, maxPoints, now);
+    } catch (err) {
+      console.error('Error getting stock price history:', err);
+      setError(`Error getting price history: ${err instanceof Error ? err.message : String(err)}`);
+      return [];
+    }
+  }, [tickerState.stocks]);
+
+  /**
+   * Change the selected currency with validation
+   */
+  const changeCurrency = useCallback((currency: Currency): ValidationResult => {
+    try {
+      // Validate currency
+      const currencyValidation = validateCurrency(currency);
+      if (!currencyValidation.isValid) {
+        return currencyValidation;
+      }
+      
+      // Check rate limiting for currency changes
+      const rateLimiter = getRateLimiter('changeCurrency');
+      const rateLimitCheck = checkRateLimit(rateLimiter, 30, 60000); // 30 currency changes per minute max
+      if (!rateLimitCheck.isValid) {
+        return rateLimitCheck;
+      }
+      
+      // Stock prices stay in their listing currencies; only the display currency changes
+      safelyUpdateState(prevState => withCommand(
+        withSyncEdit({
+          ...prevState,
+          selectedCurrency: currency,
+        }, { type: 'updateControls', updates: { selectedCurrency: currency } }),
+        { type: 'updateControls', updates: { selectedCurrency: currency } },
+        { type: 'updateControls', updates: { selectedCurrency: prevState.selectedCurrency } }
+      ));
+      
+      return { isValid: true };
+    } catch (err) {
+      console.error('Error changing currency:', err);
+      setError(`Error changing currency: ${err instanceof Error ? err.message : String(err)}`);
+      return { 
+        isValid: false, 
+        errorMessage: `Internal error changing currency: ${err instanceof Error ? err.message : String(err)}` 
+      };
+    }
+  }, [getRateLimiter, safelyUpdateState]);
+
+  /**
+   * Choose where exchange rates come from
+   */
+  const setRatesProvider = useCallback((config: RatesProviderConfig): ValidationResult => {
+    try {
+      const validation = validateRatesProviderConfig(config);
+      if (!validation.isValid) {
+        return validation;
+      }
+      
+      const rateLimiter = getRateLimiter('setRatesProvider');
+      const rateLimitCheck = checkRateLimit(rateLimiter, 10, 60000); // 10 changes per minute max
+      if (!rateLimitCheck.isValid) {
+        return rateLimitCheck;
+      }
+      
+      const ratesConfig: RatesProviderConfig = {
+        type: config.type,
+        refreshIntervalMs: config.refreshIntervalMs,
+        maxAgeMs: config.maxAgeMs,
+        ...(config.type === 'json' ? { url: config.url?.trim() } : {}),
+        ...(config.type === 'simulated' ? { volatilityPercent: config.volatilityPercent } : {}),
+      };
+      persistRatesRef.current = true;
+      safelyUpdateState(prevState => ({
+        ...prevState,
+        fxRates: { ...prevState.fxRates, config: ratesConfig, lastError: undefined },
+      }));
+      
+      return { isValid: true };
+    } catch (err) {
+      console.error('Error setting rates provider:', err);
+      setError(`Error setting rates provider: ${err instanceof Error ? err.message : String(err)}`);
+      return { 
+        isValid: false, 
+        errorMessage: `Internal error setting rates provider: ${err instanceof Error ? err.message : String(err)}` 
+      };
+    }
+  }, [getRateLimiter, safelyUpdateState]);
+
+  /**
+   * Fetch exchange rates from the current provider now instead of waiting for the next refresh
+   */
+  const refreshRates = useCallback((): ValidationResult => {
+    const rateLimiter = getRateLimiter('refreshRates');
+    const rateLimitCheck = checkRateLimit(rateLimiter, 10, 60000); // 10 manual refreshes per minute max
+    if (!rateLimitCheck.isValid) {
+      return rateLimitCheck;
+    }
+    
+    refreshRatesRef.current();
+    return { isValid: true };
+  }, [getRateLimiter]);
+
+  /**
+   * Change the locale and notation used to display prices and numbers
+   */
+  const updateFormatPreferences = useCallback((preferences: FormatPreferences): ValidationResult => {
+    try {
+      const localeValidation = validateLocale(preferences?.locale);
+      if (!localeValidation.isValid) {
+        return localeValidation;
+      }
+      if (typeof preferences.compactLargeAmounts !== 'boolean') {
+        return { isValid: false, errorMessage: 'Compact notation setting must be true or false' };
+      }
+      
+      const rateLimiter = getRateLimiter('updateFormatPreferences');
+      const rateLimitCheck = checkRateLimit(rateLimiter, 20, 60000); // 20 changes per minute max
+      if (!rateLimitCheck.isValid) {
+        return rateLimitCheck;
+      }
+      
+      const formatPreferences: FormatPreferences = {
+        locale: preferences.locale,
+        compactLargeAmounts: preferences.compactLargeAmounts,
+      };
+      // formatPrice reads the module-level preferences, so they must be in place before the re-render
+      setFormatPreferences(formatPreferences);
+      persistFormatRef.current = true;
+      safelyUpdateState(prevState => ({ ...prevState, formatPreferences }));
+      
+      return { isValid: true };
+    } catch (err) {
+      console.error('Error updating display preferences:', err);
+      setError(`Error updating display preferences: ${err instanceof Error ? err.message : String(err)}`);
+      return { 
+        isValid: false, 
+        errorMessage: `Internal error updating display preferences: ${err instanceof Error ? err.message : String(err)}` 
+      };
+    }
+  }, [getRateLimiter, safelyUpdateState]);
+
+  /**
+   * Current setup for export: stocks, update interval, display currency and the active scenario
+   */
+  const exportSetup = useCallback((): TickerSetup => {
+    const engine = scenarioEngineRef.current;
+    const store = historyStoreRef.current;
+    return {
+      stocks: tickerState.stocks,
+      updateIntervalMs: tickerState.updateIntervalMs,
+      selectedCurrency: tickerState.selectedCurrency,
+      selectedStock: tickerState.selectedStock,
+      ...(engine && engine.isActive() ? { scenario: engine.scenario } : {}),
+      histories: Object.fromEntries(tickerState.stocks.map(stock => [stock.symbol, store.query(stock.symbol)])),
+    };
+  }, [tickerState.stocks, tickerState.updateIntervalMs, tickerState.selectedCurrency, tickerState.selectedStock]);
+
+  /**
+   * Replace the stocks, update interval and display currency with an imported setup.
+   * Price models start afresh and stored history is replaced with the setup's;
+   * an imported scenario is restored paused so it can be resumed when the demo starts.
+   * The API server gets the changes as sync edits, undo history is cleared, and
+   * alerts and watchlist entries for stocks that are not in the setup are dropped.
+   */
+  const importSetup = useCallback((setup: TickerSetup): ValidationResult => {
+    try {
+      const { setup: normalized, ...validation } = normalizeSetup(setup);
+      if (!validation.isValid || !normalized) {
+        return validation;
+      }
+      
+      const rateLimiter = getRateLimiter('importSetup');
+      const rateLimitCheck = checkRateLimit(rateLimiter, 5, 60000); // 5 imports per minute max
+      if (!rateLimitCheck.isValid) {
+        return rateLimitCheck;
+      }
+      
+      priceModelsRef.current.clear();
+      historyStoreRef.current.clear();
+      Object.entries(normalized.histories ?? {}).forEach(([symbol, points]) => historyStoreRef.current.ingest(symbol, points));
+      lastTickRef.current = null;
+      replayEngineRef.current = null;
+      
+      let engine: ScenarioEngine | null = null;
+      if (normalized.scenario) {
+        engine = new ScenarioEngine(normalized.scenario);
+        engine.pause();
+      }
+      scenarioEngineRef.current = engine;
+      
+      // Alerts and watchlists only change when stocks are dropped
+      if (tickerState.stocks.some(stock => !normalized.stocks.some(imported => imported.symbol === stock.symbol))) {
+        persistAlertsRef.current = true;
+        syncWatchlistsRef.current = true;
+      }
+      safelyUpdateState(prevState => ({
+        ...withImportedSetup(prevState, normalized),
+        scenario: engine ? engine.getProgress() : undefined,
+        replay: undefined,
+      }));
+      
+      return { isValid: true };
+    } catch (err) {
+      console.error('Error importing setup:', err);
+      setError(`Error importing setup: ${err instanceof Error ? err.message : String(err)}`);
+      return { 
+        isValid: false, 
+        errorMessage: `Internal error importing setup: ${err instanceof Error ? err.message : String(err)}` 
+      };
+    }
+  }, [tickerState.stocks, getRateLimiter, safelyUpdateState]);
+
+  /**
+   * Replace the price histories of stocks on the ticker, e.g. from a CSV import.
+   * The latest point becomes the current price; the full history goes to the
+   * history store and the most recent points to the stock's priceHistory.
+   */
+  const importPriceHistory = useCallback((histories: Record<string, PricePoint[]>): ValidationResult => {
+    try {
+      const symbols = Object.keys(histories);
+      if (symbols.length === 0) {
+        return { isValid: false, errorMessage: 'No price history to import' };
+      }
+      
+      for (const symbol of symbols) {
+        if (!tickerState.stocks.some(stock => stock.symbol === symbol)) {
+          return { isValid: false, errorMessage: `Stock with symbol ${symbol} does not exist` };
+        }
+        const points = histories[symbol];
+        if (!Array.isArray(points) || points.length === 0) {
+          return { isValid: false, errorMessage: `No price history for ${symbol}` };
+        }
+        const invalidPoint = points.find(point => !validateStockPrice(point.price).isValid || !Number.isFinite(new Date(point.timestamp).getTime()));
+        if (invalidPoint) {
+          return { isValid: false, errorMessage: `Invalid price history point for ${symbol}` };
+        }
+      }
+      
+      const rateLimiter = getRateLimiter('importPriceHistory');
+      const rateLimitCheck = checkRateLimit(rateLimiter, 5, 60000); // 5 imports per minute max
+      if (!rateLimitCheck.isValid) {
+        return rateLimitCheck;
+      }
+      
+      const store = historyStoreRef.current;
+      symbols.forEach(symbol => {
+        store.remove(symbol);
+        store.ingest(symbol, histories[symbol]);
+        priceModelsRef.current.delete(symbol);
+      });
+      lastTickRef.current = null;
+      
+      safelyUpdateState(prevState => ({
+        ...prevState,
+        stocks: prevState.stocks.map(stock => {
+          const points = histories[stock.symbol];
+          if (!points) {
+            return stock;
+          }
+          const latest = points[points.length - 1];
+          const previous = points.length > 1 ? points[points.length - 2] : latest;
+          return {
+            ...stock,
+            currentPrice: latest.price,
+            previousPrice: previous.price,
+            percentChange: ((latest.price - stock.initialPrice) / stock.initialPrice) * 100,
+            lastUpdated: new Date(latest.timestamp),
+            priceHistory: points.slice(-MAX_HISTORY_POINTS),
+          };
+        }),
+      }));
+      
+      return { isValid: true };
+    } catch (err) {
+      console.error('Error importing price history:', err);
+      setError(`Error importing price history: ${err instanceof Error ? err.message : String(err)}`);
+      return { 
+        isValid: false, 
+        errorMessage: `Internal error importing price history: ${err instanceof Error ? err.message : String(err)}` 
+      };
+    }
+  }, [tickerState.stocks, getRateLimiter, safelyUpdateState]);
+
+  /**
+   * Replay recorded prices (e.g. a day of minute bars) for stocks on the ticker
+   * in place of their simulation. Each stock's first bar becomes its initial
+   * price; the replay starts playing from the first bar.
+   */
+  const startReplay = useCallback((histories: Record<string, PricePoint[]>, options: Partial<ReplayOptions> = {}): ValidationResult => {
+    try {
+      const dataValidation = validateReplayData(histories);
+      if (!dataValidation.isValid) {
+        return dataValidation;
+      }
+      const optionsValidation = validateReplayOptions(options);
+      if (!optionsValidation.isValid) {
+        return optionsValidation;
+      }
+      
+      const missingSymbol = Object.keys(histories).find(symbol => !tickerState.stocks.some(s => s.symbol === symbol));
+      if (missingSymbol) {
+        return { isValid: false, errorMessage: `Stock with symbol ${missingSymbol} does not exist` };
+      }
+      
+      const rateLimiter = getRateLimiter('startReplay');
+      const rateLimitCheck = checkRateLimit(rateLimiter, 10, 60000); // 10 replay starts per minute max
+      if (!rateLimitCheck.isValid) {
+        return rateLimitCheck;
+      }
+      
+      const engine = new ReplayEngine(histories, options);
+      engine.symbols().forEach(symbol => {
+        historyStoreRef.current.remove(symbol);
+        priceModelsRef.current.delete(symbol);
+      });
+      replayEngineRef.current = engine;
+      lastTickRef.current = null;
+      
+      safelyUpdateState(prevState => ({
+        ...prevState,
+        stocks: prevState.stocks.map(stock => {
+          const openingPrice = engine.getOpeningPrice(stock.symbol);
+          return openingPrice === undefined
+            ? stock
+            : replayStock({ ...stock, initialPrice: openingPrice, priceHistory: [] }, engine);
+        }),
+        replay: engine.getProgress(),
+      }));
+      
+      return { isValid: true };
+    } catch (err) {
+      console.error('Error starting replay:', err);
+      setError(`Error starting replay: ${err instanceof Error ? err.message : String(err)}`);
+      return { 
+        isValid: false, 
+        errorMessage: `Internal error starting replay: ${err instanceof Error ? err.message : String(err)}` 
+      };
+    }
+  }, [tickerState.stocks, getRateLimiter, safelyUpdateState]);
+  
+  /**
+   * Apply a change to the active replay, showing replayed stocks as of the new playhead
+   */
+  const transitionReplay = useCallback((
+    transition: (engine: ReplayEngine) => boolean,
+    errorMessage: string
+  ): ValidationResult => {
+    try {
+      const engine = replayEngineRef.current;
+      if (!engine || !transition(engine)) {
+        return { isValid: false, errorMessage };
+      }
+      lastTickRef.current = null;
+      
+      safelyUpdateState(prevState => ({
+        ...prevState,
+        stocks: prevState.stocks.map(stock => engine.hasSymbol(stock.symbol) ? replayStock(stock, engine) : stock),
+        replay: engine.getProgress(),
+      }));
+      
+      return { isValid: true };
+    } catch (err) {
+      console.error('Error updating replay:', err);
+      setError(`Error updating replay: ${err instanceof Error ? err.message : String(err)}`);
+      return { 
+        isValid: false, 
+        errorMessage: `Internal error updating replay: ${err instanceof Error ? err.message : String(err)}` 
+      };
+    }
+  }, [safelyUpdateState]);
+  
+  const pauseReplay = useCallback(
+    () => transitionReplay(engine => engine.pause(), 'No playing replay to pause'),
+    [transitionReplay]
+  );
+  
+  const resumeReplay = useCallback(
+    () => transitionReplay(engine => engine.resume(), 'No paused replay to resume'),
+    [transitionReplay]
+  );
+  
+  /**
+   * Move the replay's playhead to a point in market time
+   */
+  const seekReplay = useCallback((time: number): ValidationResult => {
+    if (typeof time !== 'number' || !isFinite(time)) {
+      return { isValid: false, errorMessage: 'Seek time must be a timestamp' };
+    }
+    return transitionReplay(engine => {
+      engine.seek(time);
+      return true;
+    }, 'No replay to seek');
+  }, [transitionReplay]);
+  
+  /**
+   * Change the playback speed or looping of the active replay
+   */
+  const setReplayOptions = useCallback((options: Partial<ReplayOptions>): ValidationResult => {
+    const validation = validateReplayOptions(options);
+    if (!validation.isValid) {
+      return validation;
+    }
+    return transitionReplay(engine => {
+      engine.setOptions(options);
+      return true;
+    }, 'No replay to change');
+  }, [transitionReplay]);
+  
+  /**
+   * End the replay; replayed stocks keep their last replayed price and their
+   * price models continue from there
+   */
+  const stopReplay = useCallback((): ValidationResult => {
+    try {
+      const engine = replayEngineRef.current;
+      if (!engine) {
+        return { isValid: false, errorMessage: 'No replay to stop' };
+      }
+      
+      engine.symbols().forEach(symbol => priceModelsRef.current.delete(symbol));
+      replayEngineRef.current = null;
+      lastTickRef.current = null;
+      
+      safelyUpdateState(prevState => ({
+        ...prevState,
+        replay: undefined,
+      }));
+      
+      return { isValid: true };
+    } catch (err) {
+      console.error('Error stopping replay:', err);
+      setError(`Error stopping replay: ${err instanceof Error ? err.message : String(err)}`);
+      return { 
+        isValid: false, 
+        errorMessage: `Internal error stopping replay: ${err instanceof Error ? err.message : String(err)}` 
+      };
+    }
+  }, [safelyUpdateState]);
+
+  // Refresh exchange rates from the configured provider; a new configuration starts a new provider.
+  // Failed refreshes, and rates that lack a currency the ticker uses, keep the previous rates in use.
+  useEffect(() => {
+    // Followers get the leader tab's rates
+    if (isFollower) {
+      refreshRatesRef.current = () => {};
+      return;
+    }
+    
+    const config = tickerState.fxRates.config;
+    const provider = createRatesProvider(config);
+    let cancelled = false;
+    
+    const refresh = () => {
+      const attemptedAt = Date.now();
+      provider.getRates()
+        .then(snapshot => {
+          if (cancelled) return;
+          const { selectedCurrency, stocks } = tickerStateRef.current;
+          const missing = [...new Set([selectedCurrency, ...stocks.map(getStockCurrency)])]
+            .filter(currency => !validateCurrency(currency, snapshot.rates).isValid);
+          if (missing.length > 0) {
+            throw new Error(`Rates from ${snapshot.source} have no rate for ${missing.join(', ')}, which the ticker uses`);
+          }
+          setCurrencyRates(snapshot.rates);
+          safelyUpdateState(prevState => ({
+            ...prevState,
+            fxRates: { ...prevState.fxRates, snapshot, lastAttemptAt: attemptedAt, lastError: undefined },
+          }));
+        })
+        .catch(err => {
+          if (cancelled) return;
+          console.warn('Failed to refresh exchange rates:', err);
+          safelyUpdateState(prevState => ({
+            ...prevState,
+            fxRates: {
+              ...prevState.fxRates,
+              lastAttemptAt: attemptedAt,
+              lastError: err instanceof Error ? err.message : String(err),
+            },
+          }));
+        });
+    };
+    
+    refreshRatesRef.current = refresh;
+    refresh();
+    const refreshIntervalId = setInterval(refresh, config.refreshIntervalMs);
+    
+    return () => {
+      cancelled = true;
+      clearInterval(refreshIntervalId);
+    };
+  }, [tickerState.fxRates.config, isFollower, safelyUpdateState]);
+
+  /**
+   * Memory usage monitoring effect
+   */
+  useEffect(() => {
+    // Set up memory monitoring interval
+    const memoryCheckIntervalId = setInterval(() => {
+      try {
+        const memoryStats = getMemoryUsage();
+        
+        if (memoryStats) {
+          // Check memory usage and pause if exceeding limits
+          const memCheck = checkMemoryUsage(memoryStats);
+          
+          if (!memCheck.isValid && !tickerState.isPaused) {
+            console.warn(memCheck.errorMessage);
+            setError(`Memory warning: ${memCheck.errorMessage}`);
+            
+            // Auto-pause on high memory usage
+            safelyUpdateState(prevState => ({
+              ...prevState,
+              isPaused: true,
+              memoryStats
+            }));
+          } else {
+            // Just update memory stats
+            safelyUpdateState(prevState => ({
+              ...prevState,
+              memoryStats
+            }));
+          }
+        }
+      } catch (err) {
+        console.error('Error monitoring memory:', err);
+      }
+    }, SECURITY_CONSTRAINTS.MEMORY_CHECK_INTERVAL_MS);
+    
+    // Clean up interval
+    return () => {
+      clearInterval(memoryCheckIntervalId);
+    };
+  }, [tickerState.isPaused, safelyUpdateState, setError]);
+
+  /**
+   * Push watchlists to the API server so remote controllers can target groups
+   */
+  const pushWatchlistsToAPI = useCallback(async (watchlists: Watchlist[]): Promise<void> => {
+    if (!shouldUseApiServer() || !isJWTBridgeAuthenticated()) {
+      return;
+    }
+    
+    watchlistPushesRef.current++;
+    try {
+      const result = await tickerApi.saveStockGroups(watchlists);
+      if (!result.ok) {
+        // Local watchlists still work without the API server
+        console.warn(`⚠️ Could not sync watchlists to API: ${result.error.message}`);
+      }
+    } finally {
+      watchlistPushesRef.current--;
+    }
+  }, []);
+
+  /**
+   * Server watchlists to adopt, or null to keep ours. Group membership travels with
+   * the stock list. The server copy wins unless a local edit is still being pushed;
+   * an empty server list is re-seeded from ours.
+   */
+  const resolveApiWatchlists = useCallback((groups: unknown): Watchlist[] | null => {
+    const apiWatchlists = Array.isArray(groups) ? parseWatchlists(groups) : null;
+    if (apiWatchlists?.length === 0 && watchlistsRef.current.length > 0) {
+      pushWatchlistsToAPI(watchlistsRef.current);
+    }
+    return apiWatchlists !== null && apiWatchlists.length > 0 &&
+      watchlistPushesRef.current === 0 && !syncWatchlistsRef.current
+      ? apiWatchlists
+      : null;
+  }, [pushWatchlistsToAPI]);
+
+  /**
+   * Merge the server's stock list (and groups) into local state
+   */
+  const mergeApiStocks = useCallback((apiStocks: ApiStock[], apiGroups: unknown): void => {
+    console.log('✅ Merging API data with local state');
+    const apiWatchlists = resolveApiWatchlists(apiGroups);
+    const isReplayed = (symbol: string) => replayEngineRef.current?.hasSymbol(symbol) ?? false;
+    
+    safelyUpdateState(prevState => withWatchlists(mergeServerStocks(prevState, apiStocks, true, isReplayed), apiWatchlists));
+  }, [safelyUpdateState, resolveApiWatchlists]);
+
+  /**
+   * Fetch stocks from API server
+   */
+  const fetchStocksFromAPI = useCallback(async (): Promise<void> => {
+    // Skip API calls if no API server is configured
+    if (!shouldUseApiServer()) {
+      console.log('🏥 API server disabled, using local data only');
+      return;
+    }
+    
+    // CRITICAL: Skip API calls if not authenticated
+    if (!isJWTBridgeAuthenticated()) {
+      console.log('⚠️ Skipping API call - not authenticated yet');
+      return;
+    }
+    
+    console.log('🔄 Attempting to fetch stocks from API...');
+    const result = await tickerApi.getStocks();
+    if (!result.ok) {
+      logApiError('stocks', result.error);
+      return;
+    }
+    console.log('📊 Received data from API:', result.data);
+    mergeApiStocks(result.data.stocks, result.data.groups);
+  }, [mergeApiStocks]);
+  
+  /**
+   * Apply the server's control state
+   */
+  const applyApiControls = useCallback((controls: ApiControls): void => {
+    console.log('✅ Updating local state with API control data');
+    safelyUpdateState(prevState => {
+      const now = Date.now();
+      const { sync } = prevState;
+      const merge = mergeFields(
+        SYNCED_CONTROL_FIELDS,
+        { isPaused: prevState.isPaused, updateIntervalMs: prevState.updateIntervalMs, selectedCurrency: prevState.selectedCurrency },
+        sync.controls,
+        localEditTimes(sync.pendingEdits, undefined),
+        serverControlFields(controls)
+      );
+      const newPaused = merge.values.isPaused as boolean;
+      const newCurrency = merge.values.selectedCurrency as Currency;
+      const newInterval = merge.values.updateIntervalMs as number;
+      
+      console.log(`🎛️ Syncing controls - Paused: ${prevState.isPaused} → ${newPaused}, Currency: ${prevState.selectedCurrency} → ${newCurrency}`);
+      if (merge.conflicts.length > 0) {
+        console.warn(`⚠️ Sync conflicts with the API server: ${merge.conflicts.map(describeConflict).join('; ')}`);
+      }
+      
+      return {
+        ...prevState,
+        isPaused: newPaused,
+        selectedCurrency: newCurrency,
+        updateIntervalMs: newInterval,
+        sync: settleSync({ ...sync, controls: merge.versions }, { conflicts: merge.conflicts, overridden: [{ fields: merge.overridden }] }, now)
+      };
+    });
+    console.log('✅ Control state updated successfully');
+  }, [safelyUpdateState]);
+
+  /**
+   * Apply a message from the live update stream
+   */
+  const applyPushMessage = useCallback((message: PushMessage): void => {
+    switch (message.type) {
+      case 'snapshot':
+        mergeApiStocks(message.stocks, message.groups);
+        applyApiControls(message.controls);
+        break;
+      case 'controls':
+        applyApiControls(message.controls);
+        break;
+      case 'groups': {
+        const apiWatchlists = resolveApiWatchlists(message.groups);
+        if (apiWatchlists) {
+          safelyUpdateState(prevState => withWatchlists(prevState, apiWatchlists));
+        }
+        break;
+      }
+      case 'tick':
+        // Replayed stocks follow the replay, not the server
+        if (replayEngineRef.current?.hasSymbol(message.symbol)) break;
+        safelyUpdateState(prevState => {
+          const local = prevState.stocks.find(stock => stock.symbol === message.symbol);
+          if (!local) return prevState;
+          const now = Date.now();
+          const { sync } = prevState;
+          const seen = sync.stocks[message.symbol];
+          const merge = mergeFields(
+            ['currentPrice'] as const,
+            { currentPrice: local.currentPrice },
+            seen?.fields ?? {},
+            localEditTimes(sync.pendingEdits, message.symbol),
+            {
+              values: { currentPrice: message.price },
+              versions: message.version !== undefined ? { currentPrice: message.version } : undefined,
+            },
+            message.symbol
+          );
+          const nextSync = settleSync(
+            { ...sync, stocks: { ...sync.stocks, [message.symbol]: { ...seen, fields: merge.versions } } },
+            { conflicts: merge.conflicts, overridden: [{ symbol: message.symbol, fields: merge.overridden }] },
+            now
+          );
+          // The local price edit stands until the server has it
+          if (merge.values.currentPrice !== message.price) {
+            return { ...prevState, sync: nextSync };
+          }
+          return {
+            ...prevState,
+            stocks: prevState.stocks.map(stock => stock.symbol !== message.symbol ? stock : {
+              ...stock,
+              previousPrice: stock.currentPrice,
+              currentPrice: message.price,
+              percentChange: ((message.price - stock.initialPrice) / stock.initialPrice) * 100,
+              lastUpdated: new Date(message.timestamp),
+              priceHistory: updatePriceHistory(stock.priceHistory, message.price, MAX_HISTORY_POINTS)
+            }),
+            sync: nextSync
+          };
+        });
+        break;
+      case 'stockAdded': {
+        const isReplayed = (symbol: string) => replayEngineRef.current?.hasSymbol(symbol) ?? false;
+        safelyUpdateState(prevState => mergeServerStocks(prevState, [message.stock], false, isReplayed));
+        break;
+      }
+      case 'stockRemoved':
+        console.log(`🗑️ Stock removed from API: ${message.symbol}`);
+        safelyUpdateState(prevState => {
+          const { sync } = prevState;
+          // Kept while this tab is still adding it
+          const list = mergeStockList([message.symbol], [], sync.stocks, sync.pendingEdits);
+          if (list.removed.length === 0) return prevState;
+          const stocks = prevState.stocks.filter(stock => stock.symbol !== message.symbol);
+          const stockVersions = { ...sync.stocks };
+          delete stockVersions[message.symbol];
+          return {
+            ...prevState,
+            stocks,
+            selectedStock: prevState.selectedStock === message.symbol ? stocks[0]?.symbol : prevState.selectedStock,
+            sync: settleSync({ ...sync, stocks: stockVersions }, { conflicts: list.conflicts, discarded: list.discarded }, Date.now())
+          };
+        });
+        break;
+    }
+  }, [mergeApiStocks, applyApiControls, resolveApiWatchlists, safelyUpdateState]);
+
+  /**
+   * Fetch controls from API server
+   */
+  const fetchControlsFromAPI = useCallback(async (): Promise<void> => {
+    // Skip API calls if no API server is configured
+    if (!shouldUseApiServer()) {
+      console.log('🏥 API server disabled, using local controls only');
+      return;
+    }
+    
+    // CRITICAL: Skip API calls if not authenticated
+    if (!isJWTBridgeAuthenticated()) {
+      console.log('⚠️ Skipping controls API call - not authenticated yet');
+      return;
+    }
+    
+    console.log('🔄 Attempting to fetch controls from API...');
+    const result = await tickerApi.getControls();
+    if (!result.ok) {
+      logApiError('controls', result.error);
+      return;
+    }
+    console.log('📊 Received controls data from API:', result.data);
+    applyApiControls(result.data.controls);
+  }, [applyApiControls]);
+
+  /**
+   * Record whether the API server could be reached
+   */
+  const setSyncConnection = useCallback((connection: SyncConnection) => {
+    safelyUpdateState(prevState => prevState.sync.connection === connection
+      ? prevState
+      : { ...prevState, sync: { ...prevState.sync, connection } });
+  }, [safelyUpdateState]);
+
+  /**
+   * Send queued local edits to the API server, oldest first. Stops at an edit
+   * the server cannot be reached for and keeps it for the next try.
+   */
+  const flushSyncEdits = useCallback(async (): Promise<void> => {
+    if (sendingEditsRef.current || !shouldUseApiServer() || !isJWTBridgeAuthenticated()) {
       return;
     }
     
-    console.log('🔄 Attempting to fetch controls from API...');
+    sendingEditsRef.current = true;
+    // Sent edits stay in tickerStateRef until the next render
+    const sent = new Set<string>();
     try {
-      const apiUrl = buildApiUrl(API_ENDPOINTS.CONTROLS);
-      const headers = getJWTAuthHeaders();
-      
-      // Double-check we have auth headers
-      if (!headers.Authorization) {
-        console.warn('⚠️ No authorization header available for controls, skipping API call');
-        return;
-      }
-      
-      const response = await fetch(apiUrl, {
-        method: 'GET',
-        headers: headers,
-      });
-      
-      console.log('📡 Controls API Response status:', response.status);
-      
-      if (!response.ok) {
-        // If we get 401, it means our authentication expired or failed
-        if (response.status === 401) {
-          console.warn('⚠️ Controls API authentication failed (401), clearing auth and retrying later');
-          clearJWTBridge();
+      for (;;) {
+        const { sync, tabSync } = tickerStateRef.current;
+        const edit = sync.pendingEdits.find(queued => !sent.has(queued.id));
+        // The leader tab sends the edits for all tabs
+        if (!edit || tabSync.role === 'follower') return;
+        
+        const result = await sendSyncEdit(edit);
+        if (!result.ok && shouldRetryEdit(result.error)) {
+          console.warn(`⚠️ Could not send queued edits to API (${result.error.kind}), will retry: ${result.error.message}`);
+          if (isServerUnreachable(result.error)) {
+            setSyncConnection('offline');
+          }
           return;
         }
-        
-        // Other errors - continue with local data
-        console.warn('⚠️ Controls API server error, using local control data');
-        return;
-      }
-      
-      // Check if response is JSON before parsing
-      const contentType = response.headers.get('content-type');
-      if (!contentType || !contentType.includes('application/json')) {
-        console.warn('⚠️ Controls API server returned non-JSON response, using local control data');
-        return;
-      }
-      
-      let data;
-      try {
-        data = await response.json();
-        console.log('📊 Received controls data from API:', data);
-      } catch (jsonError) {
-        console.warn('⚠️ Failed to parse controls API JSON response:', jsonError);
-        return;
-      }
-      
-      if (data.success && data.controls) {
-        console.log('✅ Updating local state with API control data');
-        safelyUpdateState(prevState => {
-          const newPaused = data.controls.isPaused;
-          const newCurrency = data.controls.selectedCurrency;
-          const newInterval = data.controls.updateIntervalMs;
-          
-          console.log(`🎛️ Syncing controls - Paused: ${prevState.isPaused} → ${newPaused}, Currency: ${prevState.selectedCurrency} → ${newCurrency}`);
-          
-          return {
-            ...prevState,
-            isPaused: newPaused,
-            selectedCurrency: newCurrency,
-            updateIntervalMs: newInterval
-          };
-        });
-        console.log('✅ Control state updated successfully');
-      } else {
-        console.warn('⚠️ API response missing success or controls data');
+        setSyncConnection('online');
+        if (!result.ok) {
+          console.warn(`⚠️ API server refused a queued ${edit.type} edit: ${result.error.message}`);
+        }
+        sent.add(edit.id);
+        safelyUpdateState(prevState => settleSentEdit(prevState, edit, result));
       }
-    } catch (err) {
-      // Silently continue with local data if API is unavailable
-      console.error('❌ Could not fetch controls from API, using local data:', err);
+    } finally {
+      sendingEditsRef.current = false;
     }
-  }, [safelyUpdateState]);
+  }, [safelyUpdateState, setSyncConnection]);
 
   /**
    * Effect to ensure immediate JWT bridge authentication
@@ -1101,10 +2839,14 @@ export const TickerProvider: React.FC<{ children: ReactNode }> = ({ children })
   }, []);
 
   /**
-   * Effect to sync with API server periodically
+   * Effect to keep in sync with the API server over the live update stream,
+   * polling while the stream is unavailable
    * Waits for Clerk-JWT bridge to be ready before syncing
    */
   useEffect(() => {
+    // The leader tab syncs with the API server for all tabs
+    if (isFollower) return;
+    
     console.log('🔄 Setting up API sync...');
     console.log('🔗 JWT Bridge Status:', { isBridging, isBridged, isReadyForAPI, bridgeError });
     
@@ -1123,56 +2865,98 @@ export const TickerProvider: React.FC<{ children: ReactNode }> = ({ children })
       return;
     }
     
-    // Check API health first
-    const initializeApiSync = async () => {
+    let pushClient: PushClient | null = null;
+    let healthRetryTimer: ReturnType<typeof setTimeout> | null = null;
+    let cancelled = false;
+    
+    // Check API health first; a server that is down or still waking up is checked again with backoff
+    const initializeApiSync = async (attempt = 1) => {
       if (shouldUseApiServer()) {
         console.log('🌡️ Checking API server health...');
         const healthCheck = await checkApiHealth(3000);
+        if (cancelled) return;
         
         if (healthCheck.isHealthy) {
           console.log(`✅ API server is healthy (${healthCheck.responseTime}ms response time)`);
+          setSyncConnection('online');
+          flushSyncEdits();
         } else {
+          const delayMs = backoffDelay(attempt);
           console.warn(`⚠️ API server health check failed: ${healthCheck.error}`);
-          console.warn('💡 Application will run in local-only mode');
+          console.warn(`💡 Running in local-only mode, edits are queued; checking again in ${Math.round(delayMs / 1000)}s`);
+          setSyncConnection('offline');
+          healthRetryTimer = setTimeout(() => initializeApiSync(attempt + 1), delayMs);
           return;
         }
       }
       
-      // Initial fetch from API (will gracefully fail if unhealthy)
+      // The stream starts with a snapshot of stocks and controls, then sends each change
       if (isReadyForAPI) {
         console.log('🚀 JWT bridge is ready, starting API sync...');
-        fetchStocksFromAPI();
-        fetchControlsFromAPI();
+        pushClient = new PushClient({
+          getUrl: async (transport, since) => {
+            const result = await tickerApi.createStreamTicket();
+            if (!result.ok) {
+              console.warn(`⚠️ Could not get a live update stream ticket (${result.error.kind}): ${result.error.message}`);
+              return null;
+            }
+            return buildStreamUrl(transport, result.data.ticket, since);
+          },
+          onMessage: applyPushMessage,
+          poll: () => {
+            console.log('⏰ Periodic API sync triggered (authenticated)');
+            fetchStocksFromAPI();
+            fetchControlsFromAPI();
+            flushSyncEdits();
+          },
+          onStatus: status => {
+            console.log(`📡 Live updates: ${status.mode}`);
+            // Back in touch with the server: send what was edited meanwhile
+            if (status.mode === 'websocket' || status.mode === 'sse') {
+              flushSyncEdits();
+            }
+          },
+        });
+        pushClient.start();
       }
     };
     
     initializeApiSync();
     
-    // Set up periodic sync with API server only if authenticated
-    let apiSyncInterval: NodeJS.Timeout | null = null;
-    if (isReadyForAPI) {
-      apiSyncInterval = setInterval(() => {
-        console.log('⏰ Periodic API sync triggered (authenticated)');
-        fetchStocksFromAPI();
-        fetchControlsFromAPI();
-      }, 5000); // Sync every 5 seconds to reduce server load
-    }
-    
     return () => {
-      if (apiSyncInterval) {
-        console.log('🛑 Cleaning up API sync interval');
-        clearInterval(apiSyncInterval);
+      cancelled = true;
+      if (healthRetryTimer) {
+        clearTimeout(healthRetryTimer);
       }
+      if (pushClient) {
+        console.log('🛑 Closing live update stream');
+        pushClient.stop();
+      }
+    };
+  }, [fetchStocksFromAPI, fetchControlsFromAPI, applyPushMessage, flushSyncEdits, setSyncConnection, isBridging, isBridged, isReadyForAPI, bridgeError, isFollower]);
+
+  /**
+   * Effect to send local edits to the API server as they are made, and to
+   * retry the queued ones when the browser comes back online
+   */
+  useEffect(() => {
+    if (isFollower || !isReadyForAPI || tickerState.sync.pendingEdits.length === 0) return;
+    
+    flushSyncEdits();
+    const handleOnline = () => {
+      flushSyncEdits();
     };
-  }, [fetchStocksFromAPI, fetchControlsFromAPI, isBridging, isBridged, isReadyForAPI, bridgeError]);
+    window.addEventListener('online', handleOnline);
+    return () => window.removeEventListener('online', handleOnline);
+  }, [tickerState.sync.pendingEdits, isFollower, isReadyForAPI, flushSyncEdits]);
 
   /**
    * Effect to update prices randomly on an interval
    * with proper cleanup
    */
   useEffect(() => {
-    // Skip setting up interval if paused
-    if (tickerState.isPaused) {
+    // Skip setting up interval if paused, or if another tab runs the simulation
+    if (tickerState.isPaused || isFollower) {
       // Clear any existing interval on pause
       if (intervalIdRef.current) {
         clearInterval(intervalIdRef.current);
@@ -1181,57 +2965,108 @@ export const TickerProvider: React.FC<{ children: ReactNode }> = ({ children })
       return;
     }
     
+    // Reuse model instances across ticks so stateful models (e.g. GARCH) keep their state
+    const getPriceModel = (stock: StockInfo, isApiActive: boolean): PriceModel => {
+      // Stocks without a model use the realistic walk, with smaller changes when API is active
+      const config = stock.priceModel ?? (isApiActive ? API_ACTIVE_PRICE_MODEL : DEFAULT_PRICE_MODELS.realistic);
+      const cached = priceModelsRef.current.get(stock.symbol);
+      if (cached && cached.config === config) {
+        return cached;
+      }
+      const model = createPriceModel(config, stock.initialPrice, random);
+      priceModelsRef.current.set(stock.symbol, model);
+      return model;
+    };
+    
+    // Advance every stock by one simulation tick
+    const computeNextState = (prevState: TickerState): TickerState => {
+      // Skip updates if paused (double-check)
+      if (prevState.isPaused) return prevState;
+      
+      // Check if API server is available and providing data
+      const isApiActive = shouldUseApiServer();
+      
+      // A running scenario drives every tick, even when the API is active
+      const scenarioEngine = scenarioEngineRef.current;
+      const scenarioEffects = scenarioEngine ? scenarioEngine.advance(prevState.updateIntervalMs / 1000) : null;
+      
+      // So does a replay, which moves its playhead by the interval times the playback speed
+      const replayEngine = replayEngineRef.current;
+      replayEngine?.advance(prevState.updateIntervalMs / 1000);
+      
+      // If API is active, reduce local update frequency to avoid conflicts
+      if (isApiActive && !scenarioEffects?.size && !replayEngine) {
+        // Only update occasionally when API is active (let API drive updates)
+        const shouldSkipUpdate = random() > 0.3; // Skip 70% of local updates
+        if (shouldSkipUpdate) {
+          console.log('🔄 Skipping local update - letting API drive changes');
+          return prevState;
+        }
+      }
+
+      console.log(`💫 Performing ${isApiActive ? 'supplemental' : 'primary'} local price update`);
+      
+      const dtSeconds = prevState.updateIntervalMs / 1000;
+      
+      // Update each stock using its configured price model
+      const updatedStocks = prevState.stocks.map((stock) => {
+        // Replayed stocks show the recorded prices instead
+        if (replayEngine?.hasSymbol(stock.symbol)) {
+          return replayStock(stock, replayEngine);
+        }
+        
+        const modelPrice = getPriceModel(stock, isApiActive).next(stock.currentPrice, dtSeconds);
+        
+        // Follow the scripted path, keeping the model's own movement as (scaled) noise
+        const effect = scenarioEffects?.get(stock.symbol);
+        const newPrice = effect
+          ? stock.currentPrice * effect.ratio + (modelPrice - stock.currentPrice) * effect.volatilityMultiplier
+          : modelPrice;
+        
+        // Ensure price stays within security constraints
+        const constrainedPrice = Math.max(SECURITY_CONSTRAINTS.MIN_STOCK_PRICE, 
+                                 Math.min(SECURITY_CONSTRAINTS.MAX_STOCK_PRICE, newPrice));
+        
+        const percentChange = ((constrainedPrice - stock.initialPrice) / stock.initialPrice) * 100;
+        const timestamp = new Date();
+        
+        // Update price history using the utility function
+        const updatedHistory = updatePriceHistory(stock.priceHistory, constrainedPrice, MAX_HISTORY_POINTS);
+        
+        return {
+          ...stock,
+          previousPrice: stock.currentPrice,
+          currentPrice: constrainedPrice,
+          percentChange,
+          lastUpdated: timestamp,
+          priceHistory: updatedHistory,
+        };
+      });
+
+      return {
+        ...prevState,
+        stocks: updatedStocks,
+        scenario: scenarioEngine ? scenarioEngine.getProgress() : prevState.scenario,
+        replay: replayEngine ? replayEngine.getProgress() : prevState.replay,
+      };
+    };
+    
     const updatePrices = () => {
+      const tick = ++tickCounterRef.current;
       try {
         safelyUpdateState(prevState => {
-          // Skip updates if paused (double-check)
-          if (prevState.isPaused) return prevState;
-          
-          // Check if API server is available and providing data
-          const isApiActive = shouldUseApiServer();
-          
-          // If API is active, reduce local update frequency to avoid conflicts
-          if (isApiActive) {
-            // Only update occasionally when API is active (let API drive updates)
-            const shouldSkipUpdate = Math.random() > 0.3; // Skip 70% of local updates
-            if (shouldSkipUpdate) {
-              console.log('🔄 Skipping local update - letting API drive changes');
-              return prevState;
-            }
+          // Reuse the result if React re-runs this updater for the same tick
+          const lastTick = lastTickRef.current;
+          if (lastTick && lastTick.tick === tick && lastTick.input === prevState) {
+            return lastTick.output;
           }
-
-          console.log(`💫 Performing ${isApiActive ? 'supplemental' : 'primary'} local price update`);
-          
-          // Update each stock with realistic price fluctuation
-          const updatedStocks = prevState.stocks.map((stock) => {
-            // Use smaller changes when API is active
-            const maxChange = isApiActive ? 0.5 : 2; // Smaller changes when API is active
-            const newPrice = generateRealisticPriceChange(stock.currentPrice, maxChange);
-            
-            // Ensure price stays within security constraints
-            const constrainedPrice = Math.max(SECURITY_CONSTRAINTS.MIN_STOCK_PRICE, 
-                                     Math.min(SECURITY_CONSTRAINTS.MAX_STOCK_PRICE, newPrice));
-            
-            const percentChange = ((constrainedPrice - stock.initialPrice) / stock.initialPrice) * 100;
-            const timestamp = new Date();
-            
-            // Update price history using the utility function
-            const updatedHistory = updatePriceHistory(stock.priceHistory, constrainedPrice, MAX_HISTORY_POINTS);
-            
-            return {
-              ...stock,
-              previousPrice: stock.currentPrice,
-              currentPrice: constrainedPrice,
-              percentChange,
-              lastUpdated: timestamp,
-              priceHistory: updatedHistory,
-            };
-          });
-
-          return {
-            ...prevState,
-            stocks: updatedStocks,
-          };
+          const nextState = computeNextState(prevState);
+          lastTickRef.current = { tick, input: prevState, output: nextState };
+          // Store the tick's prices now, so history read while rendering it already includes them
+          if (nextState !== prevState) {
+            nextState.stocks.forEach(ingestHistory);
+          }
+          return nextState;
         });
       } catch (err) {
         console.error('Error in auto price update:', err);
@@ -1249,7 +3084,7 @@ export const TickerProvider: React.FC<{ children: ReactNode }> = ({ children })
         intervalIdRef.current = null;
       }
     };
-  }, [tickerState.updateIntervalMs, tickerState.isPaused, safelyUpdateState]);
+  }, [tickerState.updateIntervalMs, tickerState.isPaused, isFollower, safelyUpdateState, random, ingestHistory]);
 
   /**
    * Retry mechanism for operations that might fail
@@ -1316,21 +3151,46 @@ export const TickerProvider: React.FC<{ children: ReactNode }> = ({ children })
     }
   }, [tickerState.retryTrackers, safelyUpdateState]);
 
+  // Show where state is saved, how much space it takes and whether storage ran out of it
+  const recordStorageResult = useCallback(async (result: SecureStorageSaveResult) => {
+    const status = await getSecureStorageStatus();
+    safelyUpdateState(prevState => ({
+      ...prevState,
+      storage: {
+        ...status,
+        lastSavedAt: result.isValid ? Date.now() : prevState.storage.lastSavedAt,
+        quotaError: result.quotaExceeded ? result.errorMessage : result.isValid ? undefined : prevState.storage.quotaError,
+      },
+    }));
+  }, [safelyUpdateState]);
+
   /**
-   * Save state to secure localStorage
+   * Save state to secure storage
    */
-  const saveStateToStorage = useCallback((): ValidationResult => {
+  const saveStateToStorage = useCallback(async (): Promise<ValidationResult> => {
+    // The leader tab saves the state all tabs share
+    if (tabCoordinatorRef.current?.role === 'follower') {
+      return { isValid: true };
+    }
     try {
       // Create a safe version of state (exclude some properties)
       const stateToSave = {
         stocks: tickerState.stocks,
         updateIntervalMs: tickerState.updateIntervalMs,
         isPaused: tickerState.isPaused,
-        selectedStock: tickerState.selectedStock
+        selectedStock: tickerState.selectedStock,
+        alerts: tickerState.alerts,
+        watchlists: tickerState.watchlists,
+        activeWatchlistId: tickerState.activeWatchlistId,
+        fxRates: tickerState.fxRates,
+        formatPreferences: tickerState.formatPreferences,
+        historyRetention: tickerState.historyRetention
       };
       
       // Save to secure storage
-      return saveToSecureStorage('tickerState', stateToSave);
+      const result = await saveToSecureStorage('tickerState', stateToSave);
+      await recordStorageResult(result);
+      return result;
     } catch (err) {
       console.error('Error saving state to storage:', err);
       setError(`Error saving state: ${err instanceof Error ? err.message : String(err)}`);
@@ -1339,15 +3199,44 @@ export const TickerProvider: React.FC<{ children: ReactNode }> = ({ children })
         errorMessage: `Failed to save state: ${err instanceof Error ? err.message : String(err)}`
       };
     }
-  }, [tickerState, setError]);
+  }, [tickerState, setError, recordStorageResult]);
+
+  /**
+   * Save the history store's price history, except replayed bars
+   */
+  const saveHistoryToStorage = useCallback(async (): Promise<ValidationResult> => {
+    if (!historyRestoredRef.current) {
+      return { isValid: false, errorMessage: 'Saved price history has not been restored yet' };
+    }
+    if (tabCoordinatorRef.current?.role === 'follower') {
+      return { isValid: true };
+    }
+    try {
+      const store = historyStoreRef.current;
+      const replay = replayEngineRef.current;
+      const histories = Object.fromEntries(store.symbols()
+        .filter(symbol => !replay || !replay.hasSymbol(symbol))
+        .map(symbol => [symbol, store.query(symbol)]));
+      
+      const result = await saveHistories(histories);
+      await recordStorageResult(result);
+      return result;
+    } catch (err) {
+      console.error('Error saving price history to storage:', err);
+      return {
+        isValid: false,
+        errorMessage: `Failed to save price history: ${err instanceof Error ? err.message : String(err)}`
+      };
+    }
+  }, [recordStorageResult]);
 
   /**
    * Load state from secure localStorage
    */
-  const loadStateFromStorage = useCallback((): ValidationResult => {
+  const loadStateFromStorage = useCallback(async (): Promise<ValidationResult> => {
     try {
       // Load from secure storage
-      const { result, data } = loadFromSecureStorage<Partial<TickerState>>('tickerState');
+      const { result, data } = await loadFromSecureStorage<Partial<TickerState>>('tickerState');
       
       if (!result.isValid || !data) {
         return result;
@@ -1374,6 +3263,308 @@ export const TickerProvider: React.FC<{ children: ReactNode }> = ({ children })
     }
   }, [safelyUpdateState, setError]);
 
+  /**
+   * Change how much price history is kept and how older points are downsampled
+   */
+  const setHistoryRetention = useCallback((config: HistoryRetentionConfig): ValidationResult => {
+    try {
+      const validation = validateHistoryRetention(config);
+      if (!validation.isValid) {
+        return validation;
+      }
+      
+      const rateLimiter = getRateLimiter('setHistoryRetention');
+      const rateLimitCheck = checkRateLimit(rateLimiter, 10, 60000); // 10 changes per minute max
+      if (!rateLimitCheck.isValid) {
+        return rateLimitCheck;
+      }
+      
+      const historyRetention: HistoryRetentionConfig = {
+        method: config.method,
+        tiers: config.tiers.map(tier => ({ capacity: tier.capacity, compression: tier.compression })),
+      };
+      persistRetentionRef.current = true;
+      safelyUpdateState(prevState => ({
+        ...prevState,
+        historyRetention,
+      }));
+      
+      return { isValid: true };
+    } catch (err) {
+      console.error('Error setting history retention:', err);
+      setError(`Error setting history retention: ${err instanceof Error ? err.message : String(err)}`);
+      return { 
+        isValid: false, 
+        errorMessage: `Internal error setting history retention: ${err instanceof Error ? err.message : String(err)}` 
+      };
+    }
+  }, [getRateLimiter, safelyUpdateState]);
+
+  // Re-tier the history store when the retention changes, including one restored or set in another tab
+  useEffect(() => {
+    const store = historyStoreRef.current;
+    if (store.getConfig() !== tickerState.historyRetention) {
+      store.setConfig(tickerState.historyRetention);
+    }
+  }, [tickerState.historyRetention]);
+
+  // Store prices that did not come from a tick, e.g. set by hand or pushed by the API server, and drop stocks that were removed
+  useEffect(() => {
+    const store = historyStoreRef.current;
+    const symbols = new Set(tickerState.stocks.map(stock => stock.symbol));
+    store.symbols().forEach(symbol => {
+      if (!symbols.has(symbol)) {
+        store.remove(symbol);
+      }
+    });
+    tickerState.stocks.forEach(ingestHistory);
+  }, [tickerState.stocks, ingestHistory]);
+
+  // Check alerts whenever prices (or the alerts themselves) change
+  useEffect(() => {
+    // Followers get the leader tab's alert firings
+    if (isFollower || !tickerState.alerts.some(alert => alert.enabled)) return;
+    
+    const now = Date.now();
+    const store = historyStoreRef.current;
+    safelyUpdateState(prevState => {
+      const { alerts, events } = evaluateAlerts(prevState.alerts, prevState.stocks, now, stock => {
+        ingestHistory(stock);
+        return store.query(stock.symbol);
+      });
+      if (alerts === prevState.alerts) {
+        return prevState;
+      }
+      return {
+        ...prevState,
+        alerts,
+        alertEvents: [...events.reverse(), ...prevState.alertEvents].slice(0, ALERT_LIMITS.MAX_EVENTS),
+      };
+    });
+  }, [tickerState.stocks, tickerState.alerts, isFollower, safelyUpdateState, ingestHistory]);
+
+  // Deliver new alert firings as browser notifications (toasts are rendered from alertEvents)
+  useEffect(() => {
+    const fresh = tickerState.alertEvents.filter(event => event.timestamp > lastNotifiedAlertRef.current);
+    if (fresh.length === 0) return;
+    
+    lastNotifiedAlertRef.current = Math.max(...fresh.map(event => event.timestamp));
+    // One notification per firing, from the leader tab
+    if (isFollower) return;
+    fresh.forEach(event => showBrowserNotification('Stock Ticker alert', event.message, event.id));
+  }, [tickerState.alertEvents, isFollower]);
+
+  // Save and sync watchlists once the state update carrying them has rendered
+  useEffect(() => {
+    if (!syncWatchlistsRef.current) return;
+    syncWatchlistsRef.current = false;
+    saveStateToStorage();
+    if (tabCoordinatorRef.current?.role !== 'follower') {
+      pushWatchlistsToAPI(tickerState.watchlists);
+    }
+  }, [tickerState.watchlists, saveStateToStorage, pushWatchlistsToAPI]);
+
+  // Save the rates provider choice once the state update carrying it has rendered
+  useEffect(() => {
+    if (!persistRatesRef.current) return;
+    persistRatesRef.current = false;
+    saveStateToStorage();
+  }, [tickerState.fxRates.config, saveStateToStorage]);
+
+  // Save the history retention once the state update carrying it has rendered
+  useEffect(() => {
+    if (!persistRetentionRef.current) return;
+    persistRetentionRef.current = false;
+    saveStateToStorage();
+  }, [tickerState.historyRetention, saveStateToStorage]);
+
+  // Save display preferences once the state update carrying them has rendered
+  useEffect(() => {
+    if (!persistFormatRef.current) return;
+    persistFormatRef.current = false;
+    saveStateToStorage();
+  }, [tickerState.formatPreferences, saveStateToStorage]);
+
+  // Save alerts once the state update carrying them has rendered
+  useEffect(() => {
+    if (!persistAlertsRef.current) return;
+    persistAlertsRef.current = false;
+    saveStateToStorage();
+  }, [tickerState.alerts, saveStateToStorage]);
+
+  // Save indicator choices once the state update carrying them has rendered
+  useEffect(() => {
+    if (!persistIndicatorsRef.current) return;
+    persistIndicatorsRef.current = false;
+    saveStateToStorage();
+  }, [tickerState.stocks, saveStateToStorage]);
+
+  // Rotate the user's storage key when it is due and re-encrypt items still under older keys, saved
+  // before encryption or saved before signing in. The leader tab does it, as it does the saving.
+  useEffect(() => {
+    if (!isAuthLoaded || isFollower) return;
+    
+    configureSecureStorage(userId)
+      .then(configured => configured.isValid ? upgradeSecureStorage() : configured)
+      .then(result => {
+        if (!result.isValid) {
+          console.warn('Could not upgrade saved data:', result.errorMessage);
+        }
+      })
+      .catch(err => console.error('Error upgrading saved data:', err));
+  }, [isAuthLoaded, userId, isFollower]);
+
+  // Restore saved alerts, watchlists, rates provider, display preferences and history retention, and indicator choices for stocks that are still on the ticker.
+  // Saved state is encrypted per user, so it is read once the signed-in user is known.
+  useEffect(() => {
+    if (!isAuthLoaded) return;
+    let cancelled = false;
+    
+    configureSecureStorage(userId)
+      .then(() => loadFromSecureStorage<Partial<TickerState>>('tickerState'))
+      .then(({ result, data, migration }) => {
+        if (cancelled) return;
+        if (migration?.failed) {
+          setError(`${result.errorMessage}. Your saved settings were backed up and not loaded.`);
+        }
+        if (!result.isValid || !data) return;
+        
+        const savedFormat = data.formatPreferences;
+        if (savedFormat && validateLocale(savedFormat.locale).isValid && typeof savedFormat.compactLargeAmounts === 'boolean') {
+          setFormatPreferences(savedFormat);
+          safelyUpdateState(prevState => ({ ...prevState, formatPreferences: savedFormat }));
+        }
+        
+        const savedRetention = data.historyRetention;
+        if (savedRetention && validateHistoryRetention(savedRetention).isValid) {
+          safelyUpdateState(prevState => ({ ...prevState, historyRetention: savedRetention }));
+        }
+        
+        // Saved rates are not reused; the provider fetches fresh ones
+        const savedRatesConfig = data.fxRates?.config;
+        if (savedRatesConfig && validateRatesProviderConfig(savedRatesConfig).isValid) {
+          safelyUpdateState(prevState => ({
+            ...prevState,
+            fxRates: { ...prevState.fxRates, config: savedRatesConfig },
+          }));
+        }
+        
+        // Saved alerts come back armed, since prices may have moved while the app was closed
+        const savedAlerts: PriceAlert[] = Array.isArray(data.alerts)
+          ? data.alerts
+              .filter(alert => typeof alert?.id === 'string' && validateAlertRule(alert.rule).isValid)
+              .slice(0, ALERT_LIMITS.MAX_ALERTS)
+              .map(alert => ({ ...alert, armed: true }))
+          : [];
+        if (savedAlerts.length > 0) {
+          safelyUpdateState(prevState => ({
+            ...prevState,
+            alerts: savedAlerts,
+          }));
+        }
+        
+        const savedWatchlists = parseWatchlists(data.watchlists);
+        if (savedWatchlists.length > 0) {
+          safelyUpdateState(prevState => ({
+            ...prevState,
+            // Watchlists already synced from the API server take precedence
+            watchlists: prevState.watchlists.length > 0 ? prevState.watchlists : savedWatchlists,
+            activeWatchlistId: savedWatchlists.some(watchlist => watchlist.id === data.activeWatchlistId)
+              ? data.activeWatchlistId
+              : prevState.activeWatchlistId,
+          }));
+        }
+        
+        if (!Array.isArray(data.stocks)) return;
+        
+        const savedIndicators = new Map<string, IndicatorConfig[]>();
+        data.stocks.forEach(stock => {
+          if (Array.isArray(stock.indicators)) {
+            savedIndicators.set(stock.symbol, stock.indicators.filter(indicator => validateIndicator(indicator).isValid));
+          }
+        });
+        if (savedIndicators.size === 0) return;
+        
+        safelyUpdateState(prevState => ({
+          ...prevState,
+          stocks: prevState.stocks.map(stock =>
+            savedIndicators.has(stock.symbol) ? { ...stock, indicators: savedIndicators.get(stock.symbol) } : stock
+          ),
+        }));
+      });
+    
+    return () => {
+      cancelled = true;
+    };
+  }, [isAuthLoaded, userId, safelyUpdateState]);
+
+  // Put price history saved in earlier visits behind the history collected since the page loaded
+  useEffect(() => {
+    if (!isAuthLoaded) return;
+    let cancelled = false;
+    historyRestoredRef.current = false;
+    
+    configureSecureStorage(userId)
+      .then(() => loadHistories())
+      .then(async histories => {
+        if (cancelled) return;
+        const store = historyStoreRef.current;
+        Object.entries(histories).forEach(([symbol, points]) => store.restore(symbol, points));
+        historyRestoredRef.current = true;
+        
+        const status = await getSecureStorageStatus();
+        safelyUpdateState(prevState => ({
+          ...prevState,
+          storage: { ...prevState.storage, ...status },
+        }));
+      })
+      .catch(err => console.error('Error restoring price history:', err));
+    
+    return () => {
+      cancelled = true;
+    };
+  }, [isAuthLoaded, userId, safelyUpdateState]);
+
+  // Put back edits that were still waiting for the API server when the page was closed
+  useEffect(() => {
+    if (!isAuthLoaded || !shouldUseApiServer()) return;
+    let cancelled = false;
+    outboxRestoredRef.current = false;
+    
+    configureSecureStorage(userId)
+      .then(() => loadOutbox())
+      .then(saved => {
+        if (cancelled) return;
+        outboxRestoredRef.current = true;
+        if (saved.pendingEdits.length > 0 || saved.failedEdits.length > 0) {
+          console.log(`📤 Restored ${saved.pendingEdits.length} unsent and ${saved.failedEdits.length} refused edits`);
+        }
+        // Always updated, so edits made while loading get saved too
+        safelyUpdateState(prevState => ({ ...prevState, sync: restoreOutbox(prevState.sync, saved) }));
+      })
+      .catch(err => console.error('Error restoring unsent edits:', err));
+    
+    return () => {
+      cancelled = true;
+    };
+  }, [isAuthLoaded, userId, safelyUpdateState]);
+
+  // Save the outbox as it changes, so edits made while the API server is down survive a reload
+  useEffect(() => {
+    // The leader tab saves for all tabs
+    if (!outboxRestoredRef.current || isFollower) return;
+    
+    saveOutbox({ pendingEdits: tickerState.sync.pendingEdits, failedEdits: tickerState.sync.failedEdits })
+      .then(recordStorageResult)
+      .catch(err => console.error('Error saving unsent edits:', err));
+  }, [tickerState.sync.pendingEdits, tickerState.sync.failedEdits, isFollower, recordStorageResult]);
+
+  // Save price history periodically; symbols without new points are skipped
+  useEffect(() => {
+    const intervalId = setInterval(saveHistoryToStorage, HISTORY_PERSISTENCE.SAVE_INTERVAL_MS);
+    return () => clearInterval(intervalId);
+  }, [saveHistoryToStorage]);
+
   /**
    * Get current memory usage stats
    */
@@ -1385,17 +3576,138 @@ export const TickerProvider: React.FC<{ children: ReactNode }> = ({ children })
     return freshStats || tickerState.memoryStats;
   }, [tickerState.memoryStats]);
 
-  // The value that will be provided to consumers of the context
-  const contextValue: TickerContextType = {
-    tickerState,
+  // Controls that change the state all tabs share; used in a follower tab, they also run in the leader
+  const tabCommands = {
     setPrice,
+    setPrices,
     updateSpeed,
     togglePause,
     addStock,
     removeStock,
+    setPriceModel,
+    setIndicators,
     selectStock,
-    getStockPriceHistory,
+    setHistoryRetention,
+    setSimulationSeed,
+    startScenario,
+    pauseScenario,
+    resumeScenario,
+    abortScenario,
+    addAlert,
+    removeAlert,
+    setAlertEnabled,
+    clearAlertEvents,
+    dismissSyncConflict,
+    clearSyncConflicts,
+    retryFailedEdit,
+    discardFailedEdit,
+    undo,
+    redo,
+    createWatchlist,
+    renameWatchlist,
+    deleteWatchlist,
+    setWatchlistSymbols,
+    selectWatchlist,
     changeCurrency,
+    setRatesProvider,
+    refreshRates,
+    updateFormatPreferences,
+    importSetup,
+    importPriceHistory,
+    startReplay,
+    pauseReplay,
+    resumeReplay,
+    seekReplay,
+    setReplayOptions,
+    stopReplay,
+  };
+  const tabCommandsRef = useRef(tabCommands);
+  tabCommandsRef.current = tabCommands;
+  const relayedCommandsRef = useRef<typeof tabCommands | null>(null);
+  if (!relayedCommandsRef.current) {
+    relayedCommandsRef.current = relayCommands(() => tabCommandsRef.current, () => tabCoordinatorRef.current);
+  }
+  
+  // Last state sent to follower tabs
+  const lastBroadcastRef = useRef<SharedTickerState | null>(null);
+  
+  // Elect one tab to run the simulation; the others render its state and send it their controls
+  useEffect(() => {
+    const coordinator = createTabCoordinator({
+      onRoleChange: (role, tabCount) => {
+        const { tabSync } = tickerStateRef.current;
+        if (role === 'leader' && tabSync.role === 'follower') {
+          // Scenarios and replays ran in the tab that closed and end with it
+          scenarioEngineRef.current = null;
+          replayEngineRef.current = null;
+        }
+        if (tabCount !== tabSync.tabCount) {
+          // Send everything again, so tabs that just opened get the whole state
+          lastBroadcastRef.current = null;
+        }
+        safelyUpdateState(prevState => {
+          if (prevState.tabSync.role === role && prevState.tabSync.tabCount === tabCount) {
+            return prevState;
+          }
+          const takingOver = role === 'leader' && prevState.tabSync.role === 'follower';
+          return {
+            ...prevState,
+            tabSync: { role, tabCount },
+            scenario: takingOver ? undefined : prevState.scenario,
+            replay: takingOver ? undefined : prevState.replay,
+          };
+        });
+      },
+      onState: state => {
+        setCurrencyRates(state.fxRates.snapshot.rates);
+        setFormatPreferences(state.formatPreferences);
+        safelyUpdateState(prevState => ({ ...prevState, ...state }));
+      },
+      onCommand: (name, args) => {
+        const command = tabCommandsRef.current[name as keyof typeof tabCommands] as ((...params: unknown[]) => unknown) | undefined;
+        if (typeof command !== 'function') {
+          console.warn(`Ignoring unknown control from another tab: ${name}`);
+          return;
+        }
+        command(...args);
+      },
+    });
+    if (!coordinator) return;
+    
+    tabCoordinatorRef.current = coordinator;
+    coordinator.start();
+    
+    // Hand over leadership as soon as the tab closes
+    const handlePageHide = () => coordinator.stop();
+    window.addEventListener('pagehide', handlePageHide);
+    
+    return () => {
+      window.removeEventListener('pagehide', handlePageHide);
+      coordinator.stop();
+      tabCoordinatorRef.current = null;
+    };
+  }, [safelyUpdateState]);
+  
+  // Leader: send the shared state to follower tabs whenever part of it changes
+  useEffect(() => {
+    const coordinator = tabCoordinatorRef.current;
+    if (!coordinator || coordinator.role !== 'leader' || coordinator.tabCount < 2) return;
+    
+    const shared = pickSharedState(tickerState);
+    const last = lastBroadcastRef.current;
+    if (last && (Object.keys(shared) as (keyof SharedTickerState)[]).every(key => shared[key] === last[key])) return;
+    
+    lastBroadcastRef.current = shared;
+    coordinator.broadcastState(shared);
+  }, [tickerState]);
+
+  // The value that will be provided to consumers of the context
+  const contextValue: TickerContextType = {
+    tickerState,
+    ...relayedCommandsRef.current,
+    getStockPriceHistory,
+    random,
+    exportSetup,
     validateInput, // Expose validation utilities
     saveStateToStorage,
     loadStateFromStorage,
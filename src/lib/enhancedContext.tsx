@@ -25,10 +25,14 @@ import {
   validateCurrency,
   convertCurrency,
   CURRENCY_RATES,
+  DEFAULT_FORMAT_PREFERENCES,
 } from './types';
 import { shouldUseApiServer, buildApiUrl, API_ENDPOINTS, isDevelopment } from './config';
 import { InterpolationEngine, InterpolatedPricePoint } from './interpolationEngine';
 import { globalPerformanceMonitor, PerformanceMetrics } from './performanceMonitor';
+import { RandomSource, createSeededRandom, generateSeed } from '../utils/random';
+import { DEFAULT_HISTORY_RETENTION } from './historyStore';
+import { DEFAULT_RATES_PROVIDER_CONFIGS, createStaticSnapshot } from './ratesProvider';
 
 // Enhanced state interface with interpolation support
 interface EnhancedTickerState extends TickerState {
@@ -109,6 +113,17 @@ export const EnhancedTickerProvider: React.FC<{ children: ReactNode }> = ({ chil
     isPaused: false,
     selectedStock: DEFAULT_ENHANCED_STOCKS[0]?.symbol,
     selectedCurrency: 'USD',
+    simulationSeed: generateSeed(),
+    historyRetention: DEFAULT_HISTORY_RETENTION,
+    alerts: [],
+    alertEvents: [],
+    watchlists: [],
+    fxRates: { config: DEFAULT_RATES_PROVIDER_CONFIGS.static, snapshot: createStaticSnapshot() },
+    formatPreferences: DEFAULT_FORMAT_PREFERENCES,
+    storage: { backends: [] },
+    tabSync: { role: 'solo', tabCount: 1 },
+    sync: { stocks: {}, controls: {}, pendingEdits: [], failedEdits: [], conflicts: [], connection: 'unknown' },
+    commandLog: { done: [], undone: [] },
     rateLimiters: {},
     retryTrackers: {},
     memoryStats: getMemoryUsage(),
@@ -122,8 +137,11 @@ export const EnhancedTickerProvider: React.FC<{ children: ReactNode }> = ({ chil
     performanceMetrics: globalPerformanceMonitor.getMetrics(),
   });
 
+  // Seeded from the simulation seed, so micro-fluctuations replay with it
+  const [random] = useState<RandomSource>(() => createSeededRandom(enhancedState.simulationSeed));
+
   // Interpolation engine
-  const interpolationEngine = useRef(new InterpolationEngine());
+  const interpolationEngine = useRef(new InterpolationEngine({}, random));
   
   // Track intervals
   const localUpdateIntervalRef = useRef<NodeJS.Timeout | null>(null);
@@ -491,6 +509,18 @@ export const EnhancedTickerProvider: React.FC<{ children: ReactNode }> = ({ chil
       rateLimiters: enhancedState.rateLimiters,
       retryTrackers: enhancedState.retryTrackers,
       memoryStats: enhancedState.memoryStats,
+      simulationSeed: enhancedState.simulationSeed,
+      historyRetention: enhancedState.historyRetention,
+      alerts: enhancedState.alerts,
+      alertEvents: enhancedState.alertEvents,
+      watchlists: enhancedState.watchlists,
+      activeWatchlistId: enhancedState.activeWatchlistId,
+      fxRates: enhancedState.fxRates,
+      formatPreferences: enhancedState.formatPreferences,
+      storage: enhancedState.storage,
+      tabSync: enhancedState.tabSync,
+      sync: enhancedState.sync,
+      commandLog: enhancedState.commandLog,
       lastDebouncedAction: enhancedState.lastDebouncedAction,
     },
     enhancedState,
@@ -504,12 +534,37 @@ export const EnhancedTickerProvider: React.FC<{ children: ReactNode }> = ({ chil
     
     // Original methods (simplified implementations for brevity)
     setPrice,
+    setPrices: () => ({ isValid: false, errorMessage: 'Not implemented in enhanced context' }),
     updateSpeed: (intervalMs: number) => setLocalUpdateSpeed(intervalMs),
     togglePause: () => {
       safelyUpdateState(prevState => ({ ...prevState, isPaused: !prevState.isPaused }));
     },
     addStock: () => ({ isValid: false, errorMessage: 'Not implemented in enhanced context' }),
     removeStock: () => ({ isValid: false, errorMessage: 'Not implemented in enhanced context' }),
+    setPriceModel: () => ({ isValid: false, errorMessage: 'Not implemented in enhanced context' }),
+    setIndicators: () => ({ isValid: false, errorMessage: 'Not implemented in enhanced context' }),
+    random,
+    setSimulationSeed: () => ({ isValid: false, errorMessage: 'Not implemented in enhanced context' }),
+    setHistoryRetention: () => ({ isValid: false, errorMessage: 'Not implemented in enhanced context' }),
+    startScenario: () => ({ isValid: false, errorMessage: 'Not implemented in enhanced context' }),
+    pauseScenario: () => ({ isValid: false, errorMessage: 'Not implemented in enhanced context' }),
+    resumeScenario: () => ({ isValid: false, errorMessage: 'Not implemented in enhanced context' }),
+    abortScenario: () => ({ isValid: false, errorMessage: 'Not implemented in enhanced context' }),
+    addAlert: () => ({ isValid: false, errorMessage: 'Not implemented in enhanced context' }),
+    removeAlert: () => ({ isValid: false, errorMessage: 'Not implemented in enhanced context' }),
+    setAlertEnabled: () => ({ isValid: false, errorMessage: 'Not implemented in enhanced context' }),
+    clearAlertEvents: () => {},
+    dismissSyncConflict: () => {},
+    clearSyncConflicts: () => {},
+    retryFailedEdit: () => ({ isValid: false, errorMessage: 'Not implemented in enhanced context' }),
+    discardFailedEdit: () => {},
+    undo: () => ({ isValid: false, errorMessage: 'Not implemented in enhanced context' }),
+    redo: () => ({ isValid: false, errorMessage: 'Not implemented in enhanced context' }),
+    createWatchlist: () => ({ isValid: false, errorMessage: 'Not implemented in enhanced context' }),
+    renameWatchlist: () => ({ isValid: false, errorMessage: 'Not implemented in enhanced context' }),
+    deleteWatchlist: () => ({ isValid: false, errorMessage: 'Not implemented in enhanced context' }),
+    setWatchlistSymbols: () => ({ isValid: false, errorMessage: 'Not implemented in enhanced context' }),
+    selectWatchlist: () => ({ isValid: false, errorMessage: 'Not implemented in enhanced context' }),
     selectStock: (symbol: string) => {
       safelyUpdateState(prevState => ({ ...prevState, selectedStock: symbol }));
       return { isValid: true };
@@ -519,14 +574,31 @@ export const EnhancedTickerProvider: React.FC<{ children: ReactNode }> = ({ chil
       return stock ? [...stock.priceHistory] : [];
     },
     changeCurrency: () => ({ isValid: false, errorMessage: 'Not implemented in enhanced context' }),
+    setRatesProvider: () => ({ isValid: false, errorMessage: 'Not implemented in enhanced context' }),
+    updateFormatPreferences: () => ({ isValid: false, errorMessage: 'Not implemented in enhanced context' }),
+    exportSetup: () => ({
+      stocks: enhancedState.stocks,
+      updateIntervalMs: enhancedState.localUpdateInterval,
+      selectedCurrency: enhancedState.selectedCurrency,
+      selectedStock: enhancedState.selectedStock,
+    }),
+    importSetup: () => ({ isValid: false, errorMessage: 'Not implemented in enhanced context' }),
+    importPriceHistory: () => ({ isValid: false, errorMessage: 'Not implemented in enhanced context' }),
+    startReplay: () => ({ isValid: false, errorMessage: 'Not implemented in enhanced context' }),
+    pauseReplay: () => ({ isValid: false, errorMessage: 'Not implemented in enhanced context' }),
+    resumeReplay: () => ({ isValid: false, errorMessage: 'Not implemented in enhanced context' }),
+    seekReplay: () => ({ isValid: false, errorMessage: 'Not implemented in enhanced context' }),
+    setReplayOptions: () => ({ isValid: false, errorMessage: 'Not implemented in enhanced context' }),
+    stopReplay: () => ({ isValid: false, errorMessage: 'Not implemented in enhanced context' }),
+    refreshRates: () => ({ isValid: false, errorMessage: 'Not implemented in enhanced context' }),
     validateInput: {
       stockSymbol: validateStockSymbol,
       stockName: validateStockName,
       stockPrice: validateStockPrice,
       updateInterval: validateUpdateInterval,
     },
-    saveStateToStorage: () => ({ isValid: false, errorMessage: 'Not implemented in enhanced context' }),
-    loadStateFromStorage: () => ({ isValid: false, errorMessage: 'Not implemented in enhanced context' }),
+    saveStateToStorage: async () => ({ isValid: false, errorMessage: 'Not implemented in enhanced context' }),
+    loadStateFromStorage: async () => ({ isValid: false, errorMessage: 'Not implemented in enhanced context' }),
     getMemoryUsage: () => getMemoryUsage(),
     maskSensitiveData: (data: any) => data, // Simplified implementation
   };
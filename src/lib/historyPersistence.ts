@@ -0,0 +1,120 @@
+/**
+ * Price History Persistence
+ *
+ * Saves the history store's price history between visits, in encrypted
+ * chunks of a few hundred points per symbol, so hours of history land in
+ * IndexedDB rather than localStorage and unchanged symbols are not
+ * rewritten. An index lists the saved symbols and their chunks; histories
+ * of stocks that left the ticker are dropped on the next save.
+ */
+
+import { PricePoint } from './types';
+import {
+  SecureStorageSaveResult,
+  loadFromSecureStorage,
+  removeFromSecureStorage,
+  saveToSecureStorage,
+} from './secureStorage';
+
+export const HISTORY_PERSISTENCE = {
+  CHUNK_POINTS: 500,
+  SAVE_INTERVAL_MS: 30000,
+  INDEX_KEY: 'historyIndex',
+} as const;
+
+interface HistoryIndexEntry {
+  chunks: number;
+  newestTimestamp: number;
+}
+
+type HistoryIndex = Record<string, HistoryIndexEntry>;
+
+// Points are saved as [timestamp, price] pairs to keep chunks small
+type SavedPoint = [number, number];
+
+const chunkKey = (symbol: string, index: number) => `history_${symbol}_${index}`;
+
+const timeOf = (point: PricePoint): number => new Date(point.timestamp).getTime();
+
+const isSavedPoint = (value: unknown): value is SavedPoint =>
+  Array.isArray(value) && value.length === 2 && Number.isFinite(value[0]) && Number.isFinite(value[1]) && value[1] > 0;
+
+async function loadIndex(): Promise<HistoryIndex> {
+  const { result, data } = await loadFromSecureStorage<HistoryIndex>(HISTORY_PERSISTENCE.INDEX_KEY);
+  return result.isValid && data && typeof data === 'object' ? data : {};
+}
+
+async function removeChunks(symbol: string, from: number, to: number): Promise<void> {
+  for (let i = from; i < to; i++) {
+    await removeFromSecureStorage(chunkKey(symbol, i));
+  }
+}
+
+/**
+ * Save each symbol's history, skipping symbols with no new points since the last save
+ * @param histories Points per symbol, oldest first
+ * @returns The first failed write, e.g. when storage is full, or the index write
+ */
+export async function saveHistories(histories: Record<string, PricePoint[]>): Promise<SecureStorageSaveResult> {
+  const index = await loadIndex();
+  const saved: HistoryIndex = {};
+
+  for (const [symbol, points] of Object.entries(histories)) {
+    if (points.length === 0) continue;
+
+    const newestTimestamp = timeOf(points[points.length - 1]);
+    const previous = index[symbol];
+    if (previous && previous.newestTimestamp === newestTimestamp) {
+      saved[symbol] = previous;
+      continue;
+    }
+
+    const chunks = Math.ceil(points.length / HISTORY_PERSISTENCE.CHUNK_POINTS);
+    for (let i = 0; i < chunks; i++) {
+      const chunk: SavedPoint[] = points
+        .slice(i * HISTORY_PERSISTENCE.CHUNK_POINTS, (i + 1) * HISTORY_PERSISTENCE.CHUNK_POINTS)
+        .map(point => [timeOf(point), point.price]);
+      const result = await saveToSecureStorage(chunkKey(symbol, i), chunk);
+      if (!result.isValid) {
+        return result;
+      }
+    }
+    await removeChunks(symbol, chunks, previous?.chunks ?? 0);
+    saved[symbol] = { chunks, newestTimestamp };
+  }
+
+  for (const [symbol, entry] of Object.entries(index)) {
+    if (!saved[symbol]) {
+      await removeChunks(symbol, 0, entry.chunks);
+    }
+  }
+
+  return saveToSecureStorage(HISTORY_PERSISTENCE.INDEX_KEY, saved);
+}
+
+// A symbol's saved points, or null if any chunk is missing or unreadable
+async function loadChunks(symbol: string, chunks: number): Promise<PricePoint[] | null> {
+  const points: PricePoint[] = [];
+  for (let i = 0; i < chunks; i++) {
+    const { result, data } = await loadFromSecureStorage<SavedPoint[]>(chunkKey(symbol, i));
+    if (!result.isValid || !Array.isArray(data)) {
+      return null;
+    }
+    data.filter(isSavedPoint).forEach(([timestamp, price]) => points.push({ timestamp: new Date(timestamp), price }));
+  }
+  return points;
+}
+
+/**
+ * Load every saved history, oldest point first; symbols whose chunks cannot be read are left out
+ */
+export async function loadHistories(): Promise<Record<string, PricePoint[]>> {
+  const histories: Record<string, PricePoint[]> = {};
+  for (const [symbol, entry] of Object.entries(await loadIndex())) {
+    const points = Number.isInteger(entry?.chunks) ? await loadChunks(symbol, entry.chunks) : null;
+    if (points && points.length > 0) {
+      histories[symbol] = points;
+    }
+  }
+  return histories;
+}
@@ -0,0 +1,291 @@
+/**
+ * Tiered Price History Store
+ *
+ * Keeps hours of price ticks in bounded memory. The newest points are kept
+ * at full resolution in tier 0; when a tier fills up, its oldest half is
+ * downsampled (LTTB or min/max) into the next tier, and the last tier drops
+ * its oldest points. Queries flatten the tiers oldest-first and can be
+ * limited to a chart time range and a maximum number of points.
+ */
+
+import {
+  ChartTimeRange,
+  DownsampleMethod,
+  HistoryRetentionConfig,
+  PricePoint,
+  ValidationResult,
+} from './types';
+import { TIME_RANGE_MS } from '../utils/candles';
+import { downsample } from '../utils/downsampling';
+
+export const HISTORY_RETENTION_LIMITS = {
+  MAX_TIERS: 5,
+  MIN_CAPACITY: 10,
+  MAX_CAPACITY: 5000,
+  MIN_COMPRESSION: 2,
+  MAX_COMPRESSION: 100,
+};
+
+const DOWNSAMPLE_METHODS: DownsampleMethod[] = ['lttb', 'minmax'];
+
+/**
+ * Default retention: 10 minutes of raw 1s ticks, then one hour at 6s, then 8 hours at 48s
+ */
+export const DEFAULT_HISTORY_RETENTION: HistoryRetentionConfig = {
+  method: 'lttb',
+  tiers: [
+    { capacity: 600, compression: 1 },
+    { capacity: 600, compression: 6 },
+    { capacity: 600, compression: 8 },
+  ],
+};
+
+/**
+ * Retention presets offered on the controls page
+ */
+export const HISTORY_RETENTION_PRESETS: Record<'short' | 'standard' | 'extended', HistoryRetentionConfig> = {
+  short: {
+    method: 'lttb',
+    tiers: [
+      { capacity: 300, compression: 1 },
+      { capacity: 300, compression: 5 },
+    ],
+  },
+  standard: DEFAULT_HISTORY_RETENTION,
+  extended: {
+    method: 'lttb',
+    tiers: [
+      { capacity: 1200, compression: 1 },
+      { capacity: 1200, compression: 10 },
+      { capacity: 1200, compression: 10 },
+    ],
+  },
+};
+
+/**
+ * Validate a retention config
+ */
+export function validateHistoryRetention(config: unknown): ValidationResult {
+  if (!config || typeof config !== 'object') {
+    return { isValid: false, errorMessage: 'History retention must be an object' };
+  }
+
+  const { method, tiers } = config as Partial<HistoryRetentionConfig>;
+  if (!DOWNSAMPLE_METHODS.includes(method as DownsampleMethod)) {
+    return { isValid: false, errorMessage: `Downsampling method must be one of: ${DOWNSAMPLE_METHODS.join(', ')}` };
+  }
+
+  if (!Array.isArray(tiers) || tiers.length === 0 || tiers.length > HISTORY_RETENTION_LIMITS.MAX_TIERS) {
+    return {
+      isValid: false,
+      errorMessage: `History retention needs between 1 and ${HISTORY_RETENTION_LIMITS.MAX_TIERS} tiers`,
+    };
+  }
+
+  for (let i = 0; i < tiers.length; i++) {
+    const tier = tiers[i];
+    if (!tier || typeof tier !== 'object') {
+      return { isValid: false, errorMessage: `Tier ${i + 1} is not valid` };
+    }
+    const { MIN_CAPACITY, MAX_CAPACITY, MIN_COMPRESSION, MAX_COMPRESSION } = HISTORY_RETENTION_LIMITS;
+    if (!Number.isInteger(tier.capacity) || tier.capacity < MIN_CAPACITY || tier.capacity > MAX_CAPACITY) {
+      return {
+        isValid: false,
+        errorMessage: `Tier ${i + 1} capacity must be a whole number between ${MIN_CAPACITY} and ${MAX_CAPACITY}`,
+      };
+    }
+    // Tier 0 holds raw points, so its compression is ignored
+    if (i > 0 && (!Number.isInteger(tier.compression) || tier.compression < MIN_COMPRESSION || tier.compression > MAX_COMPRESSION)) {
+      return {
+        isValid: false,
+        errorMessage: `Tier ${i + 1} compression must be a whole number between ${MIN_COMPRESSION} and ${MAX_COMPRESSION}`,
+      };
+    }
+  }
+
+  return { isValid: true };
+}
+
+/**
+ * Approximate time span covered by a retention config, in milliseconds
+ * @param config Retention config
+ * @param tickIntervalMs Interval between raw price updates
+ */
+export function getRetentionCoverageMs(config: HistoryRetentionConfig, tickIntervalMs: number): number {
+  let compression = 1;
+  return config.tiers.reduce((total, tier, index) => {
+    if (index > 0) {
+      compression *= tier.compression;
+    }
+    return total + tier.capacity * compression * tickIntervalMs;
+  }, 0);
+}
+
+const timeOf = (point: PricePoint): number => new Date(point.timestamp).getTime();
+
+/**
+ * Statistics for one symbol's history
+ */
+export interface HistoryStoreStats {
+  pointsPerTier: number[];
+  totalPoints: number;
+  oldestTimestamp: number | null;
+  newestTimestamp: number | null;
+}
+
+export class TieredHistoryStore {
+  private config: HistoryRetentionConfig;
+  // Per symbol, tiers[0] holds the newest raw points; each tier is in chronological order
+  private histories = new Map<string, PricePoint[][]>();
+
+  constructor(config: HistoryRetentionConfig = DEFAULT_HISTORY_RETENTION) {
+    this.config = config;
+  }
+
+  getConfig(): HistoryRetentionConfig {
+    return this.config;
+  }
+
+  /**
+   * Change the retention config, re-tiering the stored history
+   */
+  setConfig(config: HistoryRetentionConfig): void {
+    const existing = Array.from(this.histories.keys()).map(symbol => [symbol, this.query(symbol)] as const);
+    this.config = config;
+    this.histories.clear();
+    existing.forEach(([symbol, points]) => this.ingest(symbol, points));
+  }
+
+  /**
+   * Add points for a symbol; points not newer than the latest stored point are ignored,
+   * so a stock's rolling priceHistory can be ingested repeatedly
+   * @returns Number of points added
+   */
+  ingest(symbol: string, points: PricePoint[]): number {
+    let tiers = this.histories.get(symbol);
+    if (!tiers) {
+      tiers = this.config.tiers.map(() => []);
+      this.histories.set(symbol, tiers);
+    }
+
+    const latest = this.getLatestTimestamp(tiers);
+    let added = 0;
+    let lastTime = latest ?? -Infinity;
+    for (const point of points) {
+      const time = timeOf(point);
+      if (!Number.isFinite(time) || time <= lastTime) {
+        continue;
+      }
+      tiers[0].push(point);
+      lastTime = time;
+      added++;
+    }
+
+    if (added > 0) {
+      this.compact(tiers);
+    }
+    return added;
+  }
+
+  /**
+   * Add points from before the stored history, e.g. saved in an earlier visit.
+   * Only points older than the oldest stored point are added; the history is
+   * re-tiered with them.
+   * @returns Number of points added
+   */
+  restore(symbol: string, points: PricePoint[]): number {
+    const existing = this.query(symbol);
+    const oldest = existing.length > 0 ? timeOf(existing[0]) : Infinity;
+    const older = points
+      .filter(point => timeOf(point) < oldest)
+      .sort((a, b) => timeOf(a) - timeOf(b));
+    if (older.length === 0) {
+      return 0;
+    }
+
+    this.histories.delete(symbol);
+    this.ingest(symbol, [...older, ...existing]);
+    return older.length;
+  }
+
+  /**
+   * Query stored history, oldest first
+   * @param symbol Stock symbol
+   * @param range Only return points within this time range of now
+   * @param maxPoints Downsample the result to at most this many points
+   * @param now Time the range is measured back from, e.g. a replay's playhead
+   */
+  query(symbol: string, range: ChartTimeRange = 'all', maxPoints?: number, now: number = Date.now()): PricePoint[] {
+    const tiers = this.histories.get(symbol);
+    if (!tiers) {
+      return [];
+    }
+
+    let points: PricePoint[] = [];
+    for (let i = tiers.length - 1; i >= 0; i--) {
+      points = points.concat(tiers[i]);
+    }
+
+    if (range !== 'all') {
+      const cutoff = now - TIME_RANGE_MS[range];
+      points = points.filter(point => timeOf(point) >= cutoff);
+    }
+
+    if (maxPoints !== undefined && maxPoints > 0 && points.length > maxPoints) {
+      points = downsample(points, maxPoints, this.config.method);
+    }
+    return points;
+  }
+
+  has(symbol: string): boolean {
+    return this.histories.has(symbol);
+  }
+
+  symbols(): string[] {
+    return Array.from(this.histories.keys());
+  }
+
+  remove(symbol: string): void {
+    this.histories.delete(symbol);
+  }
+
+  clear(): void {
+    this.histories.clear();
+  }
+
+  getStats(symbol: string): HistoryStoreStats {
+    const tiers = this.histories.get(symbol) ?? [];
+    const points = this.query(symbol);
+    return {
+      pointsPerTier: tiers.map(tier => tier.length),
+      totalPoints: points.length,
+      oldestTimestamp: points.length > 0 ? timeOf(points[0]) : null,
+      newestTimestamp: points.length > 0 ? timeOf(points[points.length - 1]) : null,
+    };
+  }
+
+  private getLatestTimestamp(tiers: PricePoint[][]): number | null {
+    for (const tier of tiers) {
+      if (tier.length > 0) {
+        return timeOf(tier[tier.length - 1]);
+      }
+    }
+    return null;
+  }
+
+  // Push overflowing points down the tiers, newest tier first
+  private compact(tiers: PricePoint[][]): void {
+    const { tiers: tierConfigs, method } = this.config;
+
+    for (let i = 0; i < tiers.length; i++) {
+      const { capacity } = tierConfigs[i];
+      while (tiers[i].length > capacity) {
+        const overflow = tiers[i].splice(0, Math.ceil(capacity / 2));
+        if (i + 1 < tiers.length) {
+          const target = Math.max(1, Math.round(overflow.length / tierConfigs[i + 1].compression));
+          tiers[i + 1].push(...downsample(overflow, target, method));
+        }
+      }
+    }
+  }
+}
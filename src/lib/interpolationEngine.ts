@@ -6,6 +6,7 @@
  */
 
 import { PricePoint } from './types';
+import { RandomSource } from '../utils/random';
 
 export interface InterpolationConfig {
   // Interpolation settings
@@ -34,8 +35,10 @@ export class InterpolationEngine {
   private targetApiPrices: Map<string, number> = new Map();
   private interpolationStartTime: Map<string, number> = new Map();
   private currentStep: Map<string, number> = new Map();
+  private readonly random: RandomSource;
   
-  constructor(config: Partial<InterpolationConfig> = {}) {
+  constructor(config: Partial<InterpolationConfig> = {}, random: RandomSource = Math.random) {
+    this.random = random;
     this.config = {
       steps: 8, // 8 steps between API updates for smooth movement
       easingFunction: 'easeInOut',
@@ -95,7 +98,7 @@ export class InterpolationEngine {
     
     // Apply micro-fluctuations if enabled
     let finalPrice = basePrice;
-    if (this.config.microFluctuationEnabled && Math.random() < this.config.fluctuationFrequency) {
+    if (this.config.microFluctuationEnabled && this.random() < this.config.fluctuationFrequency) {
       const fluctuation = this.generateMicroFluctuation(basePrice);
       finalPrice = basePrice + fluctuation;
     }
@@ -128,8 +131,8 @@ export class InterpolationEngine {
    */
   generateLocalPrice(symbol: string, currentPrice: number): InterpolatedPricePoint {
     // Generate a small trend for more realistic movement
-    const trendDirection = Math.random() < 0.5 ? -1 : 1;
-    const trendStrength = Math.random() * 0.3; // Up to 0.3% trend
+    const trendDirection = this.random() < 0.5 ? -1 : 1;
+    const trendStrength = this.random() * 0.3; // Up to 0.3% trend
     
     // Apply micro-fluctuations
     const fluctuation = this.generateMicroFluctuation(currentPrice);
@@ -171,7 +174,7 @@ export class InterpolationEngine {
    */
   private generateMicroFluctuation(basePrice: number): number {
     // Generate random fluctuation within the specified range
-    const fluctuationPercent = (Math.random() - 0.5) * 2 * this.config.microFluctuationRange;
+    const fluctuationPercent = (this.random() - 0.5) * 2 * this.config.microFluctuationRange;
     return basePrice * (fluctuationPercent / 100);
   }
 
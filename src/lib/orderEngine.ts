@@ -0,0 +1,236 @@
+/**
+ * Order Engine for Paper Trading
+ *
+ * Matches market, limit, stop and stop-limit orders against the simulated
+ * price. Matching is pure: PortfolioProvider runs it on every price tick
+ * and whenever an order is placed, and stores the updated portfolio with
+ * any fills booked as trades.
+ *
+ * Fills happen at the tick price. A limit order only fills at its limit or
+ * better; a stop order becomes a market order once its stop is reached,
+ * so it can fill beyond the stop when the price gaps, as on a real market.
+ */
+
+import {
+  Currency,
+  NewOrder,
+  Order,
+  OrderStatus,
+  OrderType,
+  PortfolioState,
+  ValidationResult,
+  SECURITY_CONSTRAINTS,
+  formatPrice,
+  sanitizeStockSymbol,
+  validateStockSymbol,
+} from './types';
+import { PORTFOLIO_LIMITS, applyTrade, buildPositions, createTradeId, validateTrade } from '../utils/portfolio';
+
+export const ORDER_LIMITS = {
+  MAX_OPEN_ORDERS: 50,
+  MAX_ORDERS: 200, // Oldest closed orders are dropped beyond this
+};
+
+export const ORDER_TYPE_LABELS: Record<OrderType, string> = {
+  market: 'Market',
+  limit: 'Limit',
+  stop: 'Stop',
+  stopLimit: 'Stop limit',
+};
+
+const ORDER_STATUSES: OrderStatus[] = ['open', 'filled', 'cancelled', 'rejected'];
+
+const usesLimitPrice = (type: OrderType) => type === 'limit' || type === 'stopLimit';
+const usesStopPrice = (type: OrderType) => type === 'stop' || type === 'stopLimit';
+
+const isPositivePrice = (value: unknown): value is number =>
+  typeof value === 'number' && isFinite(value) && value >= SECURITY_CONSTRAINTS.MIN_STOCK_PRICE;
+
+/**
+ * Validate order entry
+ */
+export function validateNewOrder(order: NewOrder): ValidationResult {
+  if (!order || typeof order !== 'object') {
+    return { isValid: false, errorMessage: 'Order must be an object' };
+  }
+
+  const symbolValidation = validateStockSymbol(sanitizeStockSymbol(order.symbol || ''));
+  if (!symbolValidation.isValid) {
+    return symbolValidation;
+  }
+  if (order.side !== 'buy' && order.side !== 'sell') {
+    return { isValid: false, errorMessage: 'Order side must be buy or sell' };
+  }
+  if (!(order.type in ORDER_TYPE_LABELS)) {
+    return { isValid: false, errorMessage: `Unknown order type: ${String(order.type)}` };
+  }
+  if (!Number.isInteger(order.quantity) || order.quantity < 1 || order.quantity > PORTFOLIO_LIMITS.MAX_QUANTITY) {
+    return {
+      isValid: false,
+      errorMessage: `Quantity must be a whole number of shares between 1 and ${PORTFOLIO_LIMITS.MAX_QUANTITY.toLocaleString()}`,
+    };
+  }
+  if (usesLimitPrice(order.type) && !isPositivePrice(order.limitPrice)) {
+    return { isValid: false, errorMessage: 'Limit price must be a positive number' };
+  }
+  if (usesStopPrice(order.type) && !isPositivePrice(order.stopPrice)) {
+    return { isValid: false, errorMessage: 'Stop price must be a positive number' };
+  }
+
+  return { isValid: true };
+}
+
+/**
+ * Create an open order from validated input
+ */
+export function createOrder(input: NewOrder, id: string, now: number): Order {
+  return {
+    id,
+    symbol: sanitizeStockSymbol(input.symbol),
+    side: input.side,
+    type: input.type,
+    quantity: input.quantity,
+    limitPrice: usesLimitPrice(input.type) ? input.limitPrice : undefined,
+    stopPrice: usesStopPrice(input.type) ? input.stopPrice : undefined,
+    status: 'open',
+    triggered: false,
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+/**
+ * Human-readable order description, e.g. "Buy 10 MSFT stop limit $105.00 / $106.00"
+ */
+export function describeOrder(order: NewOrder, currency: Currency = 'USD'): string {
+  const price = (usd?: number) => formatPrice(usd ?? 0, currency, 2, 'USD');
+  const side = order.side === 'buy' ? 'Buy' : 'Sell';
+  const base = `${side} ${order.quantity} ${order.symbol} ${ORDER_TYPE_LABELS[order.type].toLowerCase()}`;
+
+  switch (order.type) {
+    case 'limit':
+      return `${base} ${price(order.limitPrice)}`;
+    case 'stop':
+      return `${base} ${price(order.stopPrice)}`;
+    case 'stopLimit':
+      return `${base} ${price(order.stopPrice)} / ${price(order.limitPrice)}`;
+    default:
+      return base;
+  }
+}
+
+/**
+ * Match one open order against a price (USD).
+ * Returns whether the stop has been reached and the fill price, if it fills.
+ */
+export function matchOrder(order: Order, price: number): { triggered: boolean; fillPrice: number | null } {
+  const isBuy = order.side === 'buy';
+  const triggered = order.triggered || (
+    usesStopPrice(order.type) && order.stopPrice !== undefined &&
+    (isBuy ? price >= order.stopPrice : price <= order.stopPrice)
+  );
+  const withinLimit = order.limitPrice !== undefined &&
+    (isBuy ? price <= order.limitPrice : price >= order.limitPrice);
+
+  switch (order.type) {
+    case 'market':
+      return { triggered, fillPrice: price };
+    case 'limit':
+      return { triggered, fillPrice: withinLimit ? price : null };
+    case 'stop':
+      return { triggered, fillPrice: triggered ? price : null };
+    case 'stopLimit':
+      return { triggered, fillPrice: triggered && withinLimit ? price : null };
+    default:
+      return { triggered, fillPrice: null };
+  }
+}
+
+/**
+ * Match all open orders against current prices (USD, by symbol), oldest first.
+ * Fills are checked against cash and holdings as they happen and rejected
+ * if they cannot be settled. Returns the same object when nothing changed.
+ */
+export function processOrders(portfolio: PortfolioState, prices: Record<string, number>, now: number): PortfolioState {
+  let next = portfolio;
+  let orders = portfolio.orders;
+
+  portfolio.orders.forEach((order, index) => {
+    const price = prices[order.symbol];
+    if (order.status !== 'open' || price === undefined) {
+      return;
+    }
+
+    const { triggered, fillPrice } = matchOrder(order, price);
+    let updated: Order | null = null;
+
+    if (fillPrice !== null) {
+      const position = buildPositions(next.trades).find(p => p.symbol === order.symbol);
+      const validation: ValidationResult = next.trades.length >= PORTFOLIO_LIMITS.MAX_TRADES
+        ? { isValid: false, errorMessage: `Trade limit of ${PORTFOLIO_LIMITS.MAX_TRADES} reached` }
+        : validateTrade(order.side, order.quantity, fillPrice, next.cash, position);
+
+      if (validation.isValid) {
+        next = applyTrade(next, {
+          id: createTradeId(),
+          symbol: order.symbol,
+          side: order.side,
+          quantity: order.quantity,
+          price: fillPrice,
+          timestamp: now,
+          orderId: order.id,
+        });
+        updated = { ...order, triggered, status: 'filled', fillPrice, filledAt: now, updatedAt: now };
+      } else {
+        updated = { ...order, triggered, status: 'rejected', rejectReason: validation.errorMessage, updatedAt: now };
+      }
+    } else if (triggered !== order.triggered) {
+      updated = { ...order, triggered, updatedAt: now };
+    }
+
+    if (updated) {
+      if (orders === portfolio.orders) {
+        orders = [...orders];
+      }
+      orders[index] = updated;
+    }
+  });
+
+  return next === portfolio && orders === portfolio.orders ? portfolio : { ...next, orders };
+}
+
+/**
+ * Drop the oldest closed orders beyond the order limit
+ */
+export function pruneOrders(orders: Order[]): Order[] {
+  let excess = orders.length - ORDER_LIMITS.MAX_ORDERS;
+  if (excess <= 0) {
+    return orders;
+  }
+  return orders.filter(order => {
+    if (excess > 0 && order.status !== 'open') {
+      excess--;
+      return false;
+    }
+    return true;
+  });
+}
+
+/**
+ * Parse saved orders, dropping malformed entries
+ */
+export function parseOrders(data: unknown): Order[] {
+  if (!Array.isArray(data)) {
+    return [];
+  }
+  return pruneOrders(data.filter((order): order is Order =>
+    !!order &&
+    typeof order === 'object' &&
+    typeof order.id === 'string' &&
+    validateNewOrder(order).isValid &&
+    ORDER_STATUSES.includes(order.status) &&
+    typeof order.triggered === 'boolean' &&
+    typeof order.createdAt === 'number' &&
+    typeof order.updatedAt === 'number'
+  ));
+}
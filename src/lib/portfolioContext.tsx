@@ -0,0 +1,181 @@
+import React from 'react';
+import { createContext, useContext, useState, useEffect, useMemo, useCallback, useRef, ReactNode } from 'react';
+import { NewOrder, PortfolioContextType, PortfolioState, StockInfo, ValidationResult, convertCurrency, getStockCurrency } from './types';
+import { useTickerContext } from './context';
+import { saveToSecureStorage, loadFromSecureStorage } from './secureStorage';
+import { ORDER_LIMITS, createOrder, parseOrders, processOrders, pruneOrders, validateNewOrder } from './orderEngine';
+import { PORTFOLIO_LIMITS, buildPositions, createPortfolio, parsePortfolio } from '../utils/portfolio';
+
+// Quotes are in each stock's listing currency; the portfolio books in USD
+const getUsdPrices = (stocks: StockInfo[]): Record<string, number> =>
+  Object.fromEntries(stocks.map(stock => [stock.symbol, convertCurrency(stock.currentPrice, getStockCurrency(stock), 'USD')]));
+
+export const PortfolioContext = createContext<PortfolioContextType | undefined>(undefined);
+
+/**
+ * Simulated portfolio on top of the ticker. Paper-trading orders are
+ * matched against the simulated price on every tick; fills are booked as
+ * trades and positions are derived from the trade log.
+ */
+export const PortfolioProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
+  const { tickerState } = useTickerContext();
+  const [portfolio, setPortfolio] = useState<PortfolioState>(createPortfolio);
+
+  // Saved portfolio is restored asynchronously (storage is encrypted); nothing is saved until it has been read
+  const restoredRef = useRef(false);
+  useEffect(() => {
+    let cancelled = false;
+    loadFromSecureStorage<PortfolioState>('portfolio').then(({ result, data }) => {
+      if (cancelled) return;
+      restoredRef.current = true;
+      if (result.isValid) {
+        setPortfolio({ ...parsePortfolio(data), orders: parseOrders(data?.orders) });
+      }
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const positions = useMemo(() => buildPositions(portfolio.trades), [portfolio.trades]);
+
+  // Latest values for the order callbacks, so they fill at the price on screen
+  const tickerStateRef = useRef(tickerState);
+  tickerStateRef.current = tickerState;
+  const portfolioRef = useRef(portfolio);
+  portfolioRef.current = portfolio;
+
+  useEffect(() => {
+    if (!restoredRef.current) return;
+    saveToSecureStorage('portfolio', portfolio);
+  }, [portfolio]);
+
+  // Match open orders on every price tick
+  useEffect(() => {
+    const { stocks } = tickerStateRef.current;
+    if (!portfolioRef.current.orders.some(order => order.status === 'open')) {
+      return;
+    }
+    const next = processOrders(portfolioRef.current, getUsdPrices(stocks), Date.now());
+    if (next !== portfolioRef.current) {
+      portfolioRef.current = next;
+      setPortfolio(next);
+    }
+  }, [tickerState.stocks]);
+
+  const placeOrder = useCallback((input: NewOrder): ValidationResult => {
+    try {
+      const validation = validateNewOrder(input);
+      if (!validation.isValid) {
+        return validation;
+      }
+
+      const { stocks } = tickerStateRef.current;
+      const order = createOrder(input, `ord-${Date.now().toString(36)}-${Math.random().toString(36).substr(2, 5)}`, Date.now());
+      if (!stocks.some(s => s.symbol === order.symbol)) {
+        return { isValid: false, errorMessage: `Stock ${order.symbol} not found` };
+      }
+
+      const current = portfolioRef.current;
+      if (current.orders.filter(o => o.status === 'open').length >= ORDER_LIMITS.MAX_OPEN_ORDERS) {
+        return { isValid: false, errorMessage: `At most ${ORDER_LIMITS.MAX_OPEN_ORDERS} open orders are allowed` };
+      }
+
+      // Match straight away so market orders fill at the price on screen
+      const next = processOrders(
+        { ...current, orders: pruneOrders([...current.orders, order]) },
+        getUsdPrices(stocks),
+        order.createdAt
+      );
+      portfolioRef.current = next; // Back-to-back orders see the updated cash
+      setPortfolio(next);
+
+      const placed = next.orders.find(o => o.id === order.id);
+      if (placed?.status === 'rejected') {
+        return { isValid: false, errorMessage: `Order rejected: ${placed.rejectReason}` };
+      }
+      return { isValid: true };
+    } catch (err) {
+      console.error('Error placing order:', err);
+      return {
+        isValid: false,
+        errorMessage: `Internal error placing order: ${err instanceof Error ? err.message : String(err)}`
+      };
+    }
+  }, []);
+
+  const buy = useCallback((symbol: string, quantity: number) =>
+    placeOrder({ symbol, side: 'buy', type: 'market', quantity }), [placeOrder]);
+  const sell = useCallback((symbol: string, quantity: number) =>
+    placeOrder({ symbol, side: 'sell', type: 'market', quantity }), [placeOrder]);
+
+  const cancelOrder = useCallback((id: string): ValidationResult => {
+    const current = portfolioRef.current;
+    const order = current.orders.find(o => o.id === id);
+    if (!order) {
+      return { isValid: false, errorMessage: 'Order not found' };
+    }
+    if (order.status !== 'open') {
+      return { isValid: false, errorMessage: `Order is already ${order.status}` };
+    }
+
+    const now = Date.now();
+    const next = {
+      ...current,
+      orders: current.orders.map(o => o.id === id ? { ...o, status: 'cancelled' as const, updatedAt: now } : o),
+    };
+    portfolioRef.current = next;
+    setPortfolio(next);
+    return { isValid: true };
+  }, []);
+
+  const clearClosedOrders = useCallback(() => {
+    const next = { ...portfolioRef.current, orders: portfolioRef.current.orders.filter(o => o.status === 'open') };
+    portfolioRef.current = next;
+    setPortfolio(next);
+  }, []);
+
+  const resetPortfolio = useCallback((startingCash: number = portfolioRef.current.startingCash): ValidationResult => {
+    if (typeof startingCash !== 'number' || !isFinite(startingCash) || startingCash <= 0 || startingCash > PORTFOLIO_LIMITS.MAX_STARTING_CASH) {
+      return {
+        isValid: false,
+        errorMessage: `Starting cash must be between 1 and ${PORTFOLIO_LIMITS.MAX_STARTING_CASH.toLocaleString()}`
+      };
+    }
+
+    const next = createPortfolio(startingCash);
+    portfolioRef.current = next;
+    setPortfolio(next);
+    return { isValid: true };
+  }, []);
+
+  const contextValue = useMemo<PortfolioContextType>(() => ({
+    portfolio,
+    positions,
+    buy,
+    sell,
+    placeOrder,
+    cancelOrder,
+    clearClosedOrders,
+    resetPortfolio,
+  }), [portfolio, positions, buy, sell, placeOrder, cancelOrder, clearClosedOrders, resetPortfolio]);
+
+  return (
+    <PortfolioContext.Provider value={contextValue}>
+      {children}
+    </PortfolioContext.Provider>
+  );
+};
+
+/**
+ * Custom hook to use the portfolio context with error handling
+ */
+export const usePortfolioContext = (): PortfolioContextType => {
+  const context = useContext(PortfolioContext);
+
+  if (context === undefined) {
+    throw new Error('usePortfolioContext must be used within a PortfolioProvider');
+  }
+
+  return context;
+};
@@ -0,0 +1,341 @@
+/**
+ * Live Updates from the API Server
+ *
+ * Streams changes made on the remote control panel (price ticks, control
+ * changes, stocks added or removed) instead of polling for them. The client
+ * connects over WebSocket and falls back to Server-Sent Events where the
+ * WebSocket cannot be opened.
+ *
+ * Every message carries a sequence number. After a dropped connection the
+ * client reconnects with exponential backoff and asks for the messages after
+ * the last one it saw; a server that no longer has them sends a snapshot
+ * instead. After repeated failures it polls, and keeps trying to get the
+ * stream back.
+ */
+
+import { ApiControls, ApiStock, apiControlsSchema, apiStockSchema } from './apiClient';
+import { Schema, array, lenient, number, object, refine, string, unknown } from './apiSchema';
+
+export const PUSH_CHANNEL = {
+  INITIAL_BACKOFF_MS: 1000,
+  MAX_BACKOFF_MS: 30000,
+  // Failed connection attempts in a row before falling back to polling
+  MAX_FAILURES_BEFORE_POLLING: 4,
+  POLL_INTERVAL_MS: 5000,
+  // While polling, how often to try the stream again
+  RETRY_STREAM_MS: 60000,
+} as const;
+
+export type PushTransportKind = 'websocket' | 'sse';
+
+export type PushMode = 'stopped' | 'connecting' | PushTransportKind | 'polling';
+
+export interface PushStatus {
+  mode: PushMode;
+  lastSeq: number | null;
+  failures: number;
+}
+
+export type PushMessage =
+  // Everything the client needs, sent on connect and when a resume is not possible
+  | { type: 'snapshot'; seq: number; stocks: ApiStock[]; groups: unknown[]; controls: ApiControls }
+  // `version` is the price's version on the server, where it keeps them
+  | { type: 'tick'; seq: number; symbol: string; price: number; timestamp: string; version?: number }
+  | { type: 'stockAdded'; seq: number; stock: ApiStock }
+  | { type: 'stockRemoved'; seq: number; symbol: string }
+  | { type: 'controls'; seq: number; controls: ApiControls }
+  | { type: 'groups'; seq: number; groups: unknown[] };
+
+const seq = () => refine(number(), value => Number.isInteger(value) && value >= 0, 'a sequence number');
+
+const MESSAGE_SCHEMAS: { [K in PushMessage['type']]: Schema<Omit<Extract<PushMessage, { type: K }>, 'type'>> } = {
+  snapshot: object({ seq: seq(), stocks: array(apiStockSchema), groups: array(unknown()), controls: apiControlsSchema }),
+  tick: object({ seq: seq(), symbol: string(), price: refine(number(), value => value > 0, 'a positive number'), timestamp: string(), version: lenient(number()) }),
+  stockAdded: object({ seq: seq(), stock: apiStockSchema }),
+  stockRemoved: object({ seq: seq(), symbol: string() }),
+  controls: object({ seq: seq(), controls: apiControlsSchema }),
+  groups: object({ seq: seq(), groups: array(unknown()) }),
+};
+
+/**
+ * Parse a message from the stream, or null when it is malformed or of an unknown type
+ */
+export function parsePushMessage(data: string): PushMessage | null {
+  let message: unknown;
+  try {
+    message = JSON.parse(data);
+  } catch {
+    return null;
+  }
+  const type = (message as { type?: unknown } | null)?.type;
+  if (typeof type !== 'string' || !Object.prototype.hasOwnProperty.call(MESSAGE_SCHEMAS, type)) {
+    return null;
+  }
+  const result = MESSAGE_SCHEMAS[type as PushMessage['type']].parse(message);
+  return result.success ? { ...result.data, type } as PushMessage : null;
+}
+
+/**
+ * Delay before reconnect attempt number `attempt` (from 1): doubling up to the
+ * maximum, with jitter so clients dropped together do not return together
+ */
+export function backoffDelay(attempt: number, random: () => number = Math.random): number {
+  const base = Math.min(PUSH_CHANNEL.MAX_BACKOFF_MS, PUSH_CHANNEL.INITIAL_BACKOFF_MS * 2 ** Math.max(0, attempt - 1));
+  return Math.round(base / 2 + random() * base / 2);
+}
+
+export interface PushTransport {
+  close(): void;
+}
+
+export interface PushTransportHandlers {
+  onOpen: () => void;
+  onMessage: (data: string) => void;
+  // Called once, when the connection fails or drops
+  onClose: () => void;
+}
+
+export type PushTransportFactory = (url: string, handlers: PushTransportHandlers) => PushTransport;
+
+export const webSocketTransport: PushTransportFactory = (url, handlers) => {
+  const socket = new WebSocket(url);
+  socket.onopen = () => handlers.onOpen();
+  socket.onmessage = event => handlers.onMessage(String(event.data));
+  // An error is always followed by close
+  socket.onclose = () => handlers.onClose();
+  return {
+    close: () => {
+      socket.onclose = null;
+      socket.close();
+    },
+  };
+};
+
+export const eventSourceTransport: PushTransportFactory = (url, handlers) => {
+  const source = new EventSource(url);
+  source.onopen = () => handlers.onOpen();
+  source.onmessage = event => handlers.onMessage(event.data);
+  // EventSource would retry on its own, without backoff; the client reconnects instead
+  source.onerror = () => {
+    source.close();
+    handlers.onClose();
+  };
+  return { close: () => source.close() };
+};
+
+/**
+ * The transports this browser supports
+ */
+export function defaultTransports(): Partial<Record<PushTransportKind, PushTransportFactory>> {
+  return {
+    ...(typeof WebSocket !== 'undefined' ? { websocket: webSocketTransport } : {}),
+    ...(typeof EventSource !== 'undefined' ? { sse: eventSourceTransport } : {}),
+  };
+}
+
+export interface PushClientOptions {
+  // Stream URL for a transport, resuming after `since`; null when not signed in
+  // yet. Called for each connection, and may fetch what the URL needs first.
+  getUrl: (kind: PushTransportKind, since: number | null) => string | null | Promise<string | null>;
+  onMessage: (message: PushMessage) => void;
+  // Fetches the current state; used while the stream is unavailable
+  poll: () => void | Promise<void>;
+  onStatus?: (status: PushStatus) => void;
+  transports?: Partial<Record<PushTransportKind, PushTransportFactory>>;
+  random?: () => number;
+}
+
+export class PushClient {
+  private readonly transports: Partial<Record<PushTransportKind, PushTransportFactory>>;
+  private transport: PushTransport | null = null;
+  // Identifies the current connection, so events from closed ones are ignored
+  private attempt = 0;
+  private mode: PushMode = 'stopped';
+  private lastSeq: number | null = null;
+  private failures = 0;
+  private webSocketFailed = false;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private pollTimer: ReturnType<typeof setInterval> | null = null;
+
+  constructor(private readonly options: PushClientOptions) {
+    this.transports = options.transports ?? defaultTransports();
+  }
+
+  get status(): PushStatus {
+    return { mode: this.mode, lastSeq: this.lastSeq, failures: this.failures };
+  }
+
+  start(): void {
+    if (this.mode !== 'stopped') return;
+    this.setMode('connecting');
+    this.connect();
+  }
+
+  stop(): void {
+    this.attempt++;
+    this.transport?.close();
+    this.transport = null;
+    this.clearReconnect();
+    this.stopPolling();
+    this.setMode('stopped');
+  }
+
+  private pickTransport(): PushTransportKind | null {
+    if (this.transports.websocket && !this.webSocketFailed) return 'websocket';
+    if (this.transports.sse) return 'sse';
+    return null;
+  }
+
+  private connect(): void {
+    this.clearReconnect();
+    const kind = this.pickTransport();
+    if (!kind) {
+      // Nothing to stream with: poll for good
+      this.startPolling();
+      return;
+    }
+    const attempt = ++this.attempt;
+    const url = this.options.getUrl(kind, this.lastSeq);
+    if (url instanceof Promise) {
+      url
+        .catch(err => {
+          console.warn('⚠️ Live updates: could not get the stream URL:', err);
+          return null;
+        })
+        .then(resolved => {
+          // Stopped or restarted meanwhile
+          if (attempt === this.attempt) this.open(kind, resolved, attempt);
+        });
+    } else {
+      this.open(kind, url, attempt);
+    }
+  }
+
+  private open(kind: PushTransportKind, url: string | null, attempt: number): void {
+    if (!url) {
+      this.handleFailure();
+      return;
+    }
+
+    let opened = false;
+    const isCurrent = () => attempt === this.attempt;
+    const transport = this.transports[kind]!(url, {
+      onOpen: () => {
+        if (!isCurrent()) return;
+        opened = true;
+        this.failures = 0;
+        this.stopPolling();
+        this.setMode(kind);
+      },
+      onMessage: data => {
+        if (isCurrent()) this.handleMessage(data);
+      },
+      onClose: () => {
+        if (!isCurrent()) return;
+        this.attempt++;
+        this.transport = null;
+        if (kind === 'websocket' && !opened && this.transports.sse) {
+          // e.g. a proxy that does not pass WebSockets; stay with SSE from now on
+          console.warn('⚠️ Live updates: WebSocket unavailable, using Server-Sent Events');
+          this.webSocketFailed = true;
+          this.connect();
+          return;
+        }
+        if (kind === 'sse' && !opened) {
+          // Neither transport got through, so the server is down rather than
+          // the WebSocket blocked: try the WebSocket first again next time
+          this.webSocketFailed = false;
+        }
+        this.handleFailure();
+      },
+    });
+    if (isCurrent()) {
+      this.transport = transport;
+    }
+  }
+
+  private handleMessage(data: string): void {
+    const message = parsePushMessage(data);
+    if (!message) {
+      console.warn('⚠️ Live updates: ignoring malformed message');
+      return;
+    }
+
+    if (message.type !== 'snapshot' && this.lastSeq !== null) {
+      if (message.seq <= this.lastSeq) {
+        // Already applied, e.g. replayed after a reconnect
+        return;
+      }
+      if (message.seq > this.lastSeq + 1) {
+        // Messages went missing: start over from a snapshot
+        console.warn(`⚠️ Live updates: missed messages ${this.lastSeq + 1}-${message.seq - 1}, resyncing`);
+        this.lastSeq = null;
+        this.attempt++;
+        this.transport?.close();
+        this.transport = null;
+        this.connect();
+        return;
+      }
+    }
+
+    this.lastSeq = message.seq;
+    try {
+      this.options.onMessage(message);
+    } catch (err) {
+      console.error('❌ Live updates: failed to apply message:', err);
+    }
+  }
+
+  private handleFailure(): void {
+    this.failures++;
+    if (this.mode === 'polling') {
+      this.reconnectLater(PUSH_CHANNEL.RETRY_STREAM_MS);
+    } else if (this.failures >= PUSH_CHANNEL.MAX_FAILURES_BEFORE_POLLING) {
+      console.warn(`⚠️ Live updates: stream unavailable after ${this.failures} attempts, polling instead`);
+      this.startPolling();
+      this.reconnectLater(PUSH_CHANNEL.RETRY_STREAM_MS);
+    } else {
+      this.setMode('connecting');
+      this.reconnectLater(backoffDelay(this.failures, this.options.random));
+    }
+  }
+
+  private reconnectLater(delayMs: number): void {
+    this.clearReconnect();
+    this.reconnectTimer = setTimeout(() => this.connect(), delayMs);
+  }
+
+  private clearReconnect(): void {
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+  }
+
+  private startPolling(): void {
+    if (this.pollTimer) return;
+    // Polled state replaces whatever was streamed, so the stream starts over from a snapshot
+    this.lastSeq = null;
+    this.setMode('polling');
+    this.poll();
+    this.pollTimer = setInterval(() => this.poll(), PUSH_CHANNEL.POLL_INTERVAL_MS);
+  }
+
+  private stopPolling(): void {
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = null;
+    }
+  }
+
+  private poll(): void {
+    new Promise<void>(resolve => resolve(this.options.poll()))
+      .catch(err => console.error('❌ Live updates: poll failed:', err));
+  }
+
+  private setMode(mode: PushMode): void {
+    if (mode === this.mode) return;
+    this.mode = mode;
+    this.options.onStatus?.(this.status);
+  }
+}
@@ -0,0 +1,231 @@
+/**
+ * Exchange Rate Providers
+ *
+ * A RatesProvider delivers USD-relative exchange rates with the time they
+ * were published. TickerProvider refreshes the configured provider on an
+ * interval and hands each snapshot to convertCurrency; when a refresh fails
+ * the previous rates stay in use and are flagged stale once they age past
+ * the configured limit.
+ */
+
+import {
+  CURRENCY_CODE_PATTERN,
+  CURRENCY_RATES,
+  Currency,
+  RatesProviderConfig,
+  RatesProviderType,
+  RatesSnapshot,
+  ValidationResult,
+} from './types';
+import { RandomSource, randomNormal } from '../utils/random';
+
+export const RATES_LIMITS = {
+  MIN_REFRESH_MS: 1000,
+  MAX_REFRESH_MS: 24 * 60 * 60 * 1000,
+  MIN_MAX_AGE_MS: 1000,
+  MAX_MAX_AGE_MS: 7 * 24 * 60 * 60 * 1000,
+  MAX_VOLATILITY_PERCENT: 5,
+  MAX_URL_LENGTH: 500,
+  MAX_DRIFT: 0.25, // Simulated rates stay within ±25% of the built-in table
+};
+
+export const RATES_PROVIDER_LABELS: Record<RatesProviderType, string> = {
+  static: 'Built-in table',
+  json: 'JSON file / URL',
+  simulated: 'Simulated drift',
+};
+
+/**
+ * Default settings for each provider type, used to seed the settings form
+ */
+export const DEFAULT_RATES_PROVIDER_CONFIGS: Record<RatesProviderType, RatesProviderConfig> = {
+  static: { type: 'static', refreshIntervalMs: 60 * 60 * 1000, maxAgeMs: 24 * 60 * 60 * 1000 },
+  json: { type: 'json', url: '/fx-rates.json', refreshIntervalMs: 60 * 1000, maxAgeMs: 5 * 60 * 1000 },
+  simulated: { type: 'simulated', refreshIntervalMs: 5000, maxAgeMs: 30 * 1000, volatilityPercent: 0.2 },
+};
+
+export const STATIC_RATES_SOURCE = 'Built-in table';
+
+export interface RatesProvider {
+  readonly type: RatesProviderType;
+  getRates(): Promise<RatesSnapshot>;
+}
+
+/**
+ * Snapshot of the built-in rate table
+ */
+export function createStaticSnapshot(now: number = Date.now()): RatesSnapshot {
+  return { rates: { ...CURRENCY_RATES }, timestamp: now, source: STATIC_RATES_SOURCE };
+}
+
+/**
+ * The built-in CURRENCY_RATES table. Its rates never age.
+ */
+export class StaticRatesProvider implements RatesProvider {
+  readonly type = 'static' as const;
+
+  async getRates(): Promise<RatesSnapshot> {
+    return createStaticSnapshot();
+  }
+}
+
+/**
+ * Parse a rates document such as
+ * { "base": "USD", "timestamp": "2024-05-01T12:00:00Z", "rates": { "EUR": 0.92, ... } }.
+ * Rates quoted against another base are converted to USD-relative rates.
+ * The document decides which currencies are supported, as long as it has a
+ * rate for USD. A missing timestamp means the rates are as of now.
+ */
+export function parseRatesPayload(data: unknown, source: string, now: number = Date.now()): { result: ValidationResult; snapshot?: RatesSnapshot } {
+  if (!data || typeof data !== 'object') {
+    return { result: { isValid: false, errorMessage: 'Rates document must be a JSON object' } };
+  }
+
+  const { base = 'USD', timestamp, rates } = data as { base?: unknown; timestamp?: unknown; rates?: unknown };
+  if (typeof base !== 'string' || !CURRENCY_CODE_PATTERN.test(base)) {
+    return { result: { isValid: false, errorMessage: `Unsupported base currency: ${String(base)}` } };
+  }
+  if (!rates || typeof rates !== 'object') {
+    return { result: { isValid: false, errorMessage: 'Rates document has no rates' } };
+  }
+
+  const quoted: Record<string, unknown> = { [base]: 1, ...(rates as Record<string, unknown>) };
+  const currencies = Object.keys(quoted) as Currency[];
+  const invalid = currencies.filter(code => {
+    const rate = quoted[code];
+    return !CURRENCY_CODE_PATTERN.test(code) || typeof rate !== 'number' || !isFinite(rate) || rate <= 0;
+  });
+  if (invalid.length > 0) {
+    return { result: { isValid: false, errorMessage: `Invalid rates for ${invalid.join(', ')}` } };
+  }
+  if (!currencies.includes('USD')) {
+    return { result: { isValid: false, errorMessage: 'Rates document has no rate for USD' } };
+  }
+
+  const usdRate = quoted.USD as number;
+  const usdRates = Object.fromEntries(
+    currencies.map(code => [code, code === 'USD' ? 1 : (quoted[code] as number) / usdRate])
+  ) as Record<Currency, number>;
+
+  let publishedAt = now;
+  if (timestamp !== undefined) {
+    publishedAt = typeof timestamp === 'number' ? timestamp : Date.parse(String(timestamp));
+    if (!isFinite(publishedAt)) {
+      return { result: { isValid: false, errorMessage: 'Rates timestamp is not a valid date' } };
+    }
+  }
+
+  return { result: { isValid: true }, snapshot: { rates: usdRates, timestamp: publishedAt, source } };
+}
+
+/**
+ * Rates fetched from a JSON document, e.g. a file served by the dev server or a mock API
+ */
+export class JsonRatesProvider implements RatesProvider {
+  readonly type = 'json' as const;
+
+  constructor(private readonly url: string, private readonly fetchFn: typeof fetch = (...args) => fetch(...args)) {}
+
+  async getRates(): Promise<RatesSnapshot> {
+    const response = await this.fetchFn(this.url, { headers: { Accept: 'application/json' } });
+    if (!response.ok) {
+      throw new Error(`Rates request failed with status ${response.status}`);
+    }
+
+    const { result, snapshot } = parseRatesPayload(await response.json(), this.url);
+    if (!result.isValid || !snapshot) {
+      throw new Error(result.errorMessage || 'Invalid rates document');
+    }
+    return snapshot;
+  }
+}
+
+/**
+ * Rates that drift randomly around the built-in table, for exercising
+ * currency effects without a network. Each refresh moves every rate by a
+ * normally distributed step with a slight pull back towards the table.
+ */
+export class SimulatedRatesProvider implements RatesProvider {
+  readonly type = 'simulated' as const;
+  private rates: Record<Currency, number> = { ...CURRENCY_RATES };
+
+  constructor(private readonly volatilityPercent: number, private readonly random: RandomSource = Math.random) {}
+
+  async getRates(): Promise<RatesSnapshot> {
+    const sigma = this.volatilityPercent / 100;
+    (Object.keys(this.rates) as Currency[]).forEach(code => {
+      if (code === 'USD') return;
+      const anchor = CURRENCY_RATES[code];
+      const logDrift = Math.log(this.rates[code] / anchor);
+      const next = anchor * Math.exp(logDrift * 0.95 + sigma * randomNormal(this.random));
+      this.rates[code] = Math.min(anchor * (1 + RATES_LIMITS.MAX_DRIFT), Math.max(anchor * (1 - RATES_LIMITS.MAX_DRIFT), next));
+    });
+    return { rates: { ...this.rates }, timestamp: Date.now(), source: 'Simulated' };
+  }
+}
+
+/**
+ * Validate a rates provider configuration
+ */
+export function validateRatesProviderConfig(config: RatesProviderConfig): ValidationResult {
+  if (!config || typeof config !== 'object') {
+    return { isValid: false, errorMessage: 'Rates provider settings must be an object' };
+  }
+  if (!(config.type in RATES_PROVIDER_LABELS)) {
+    return { isValid: false, errorMessage: `Unknown rates provider: ${String(config.type)}` };
+  }
+
+  const { refreshIntervalMs, maxAgeMs } = config;
+  if (typeof refreshIntervalMs !== 'number' || !isFinite(refreshIntervalMs) ||
+      refreshIntervalMs < RATES_LIMITS.MIN_REFRESH_MS || refreshIntervalMs > RATES_LIMITS.MAX_REFRESH_MS) {
+    return {
+      isValid: false,
+      errorMessage: `Refresh interval must be between ${RATES_LIMITS.MIN_REFRESH_MS / 1000}s and ${RATES_LIMITS.MAX_REFRESH_MS / 3600000}h`,
+    };
+  }
+  if (typeof maxAgeMs !== 'number' || !isFinite(maxAgeMs) ||
+      maxAgeMs < RATES_LIMITS.MIN_MAX_AGE_MS || maxAgeMs > RATES_LIMITS.MAX_MAX_AGE_MS) {
+    return { isValid: false, errorMessage: 'Maximum rate age is out of range' };
+  }
+
+  if (config.type === 'json') {
+    const url = typeof config.url === 'string' ? config.url.trim() : '';
+    if (!url || url.length > RATES_LIMITS.MAX_URL_LENGTH || !/^(https?:\/\/|\/)[^\s"'<>]*$/i.test(url)) {
+      return { isValid: false, errorMessage: 'Rates URL must be an http(s) URL or a path starting with /' };
+    }
+  }
+
+  if (config.type === 'simulated') {
+    const { volatilityPercent } = config;
+    if (typeof volatilityPercent !== 'number' || !isFinite(volatilityPercent) ||
+        volatilityPercent <= 0 || volatilityPercent > RATES_LIMITS.MAX_VOLATILITY_PERCENT) {
+      return { isValid: false, errorMessage: `Volatility must be above 0 and at most ${RATES_LIMITS.MAX_VOLATILITY_PERCENT}%` };
+    }
+  }
+
+  return { isValid: true };
+}
+
+/**
+ * Create the provider for a validated configuration
+ */
+export function createRatesProvider(config: RatesProviderConfig, random?: RandomSource): RatesProvider {
+  switch (config.type) {
+    case 'json':
+      return new JsonRatesProvider((config.url as string).trim());
+    case 'simulated':
+      return new SimulatedRatesProvider(config.volatilityPercent ?? DEFAULT_RATES_PROVIDER_CONFIGS.simulated.volatilityPercent!, random);
+    default:
+      return new StaticRatesProvider();
+  }
+}
+
+/**
+ * Whether rates are older than the configured maximum age. The built-in table never goes stale.
+ */
+export function isRatesStale(snapshot: RatesSnapshot, config: RatesProviderConfig, now: number = Date.now()): boolean {
+  if (snapshot.source === STATIC_RATES_SOURCE) {
+    return false;
+  }
+  return now - snapshot.timestamp > config.maxAgeMs;
+}
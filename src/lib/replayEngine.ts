@@ -0,0 +1,246 @@
+/**
+ * Replay Engine for Historical Price Data
+ *
+ * Plays back timestamped prices (e.g. a day of minute bars loaded from CSV)
+ * instead of simulating them. The engine keeps a playhead in market time;
+ * TickerProvider advances it once per price update by the update interval
+ * times the playback speed and shows each replayed stock's bars up to the
+ * playhead. Seeking moves the playhead; at the end the replay either stops
+ * or loops back to the start.
+ */
+
+import {
+  MAX_HISTORY_POINTS,
+  PricePoint,
+  ReplayOptions,
+  ReplayProgress,
+  ReplayStatus,
+  StockInfo,
+  ValidationResult,
+  validateStockPrice,
+} from './types';
+
+export const REPLAY_SPEEDS = [1, 10, 60];
+
+export const REPLAY_LIMITS = {
+  MIN_SPEED: 0.1,
+  MAX_SPEED: 3600,
+  MAX_SYMBOLS: 20,
+};
+
+export const DEFAULT_REPLAY_OPTIONS: ReplayOptions = { speed: 1, loop: false };
+
+const timeOf = (point: PricePoint): number => new Date(point.timestamp).getTime();
+
+/**
+ * Validate playback options
+ */
+export function validateReplayOptions(options: Partial<ReplayOptions>): ValidationResult {
+  if (!options || typeof options !== 'object') {
+    return { isValid: false, errorMessage: 'Replay options must be an object' };
+  }
+  const { speed, loop } = options;
+  if (speed !== undefined &&
+      (typeof speed !== 'number' || !isFinite(speed) || speed < REPLAY_LIMITS.MIN_SPEED || speed > REPLAY_LIMITS.MAX_SPEED)) {
+    return { isValid: false, errorMessage: `Playback speed must be between ${REPLAY_LIMITS.MIN_SPEED}× and ${REPLAY_LIMITS.MAX_SPEED}×` };
+  }
+  if (loop !== undefined && typeof loop !== 'boolean') {
+    return { isValid: false, errorMessage: 'Loop must be true or false' };
+  }
+  return { isValid: true };
+}
+
+/**
+ * Validate price series to replay, by symbol
+ */
+export function validateReplayData(histories: Record<string, PricePoint[]>): ValidationResult {
+  if (!histories || typeof histories !== 'object') {
+    return { isValid: false, errorMessage: 'Replay data must be price series by symbol' };
+  }
+
+  const symbols = Object.keys(histories);
+  if (symbols.length === 0) {
+    return { isValid: false, errorMessage: 'Replay data has no prices' };
+  }
+  if (symbols.length > REPLAY_LIMITS.MAX_SYMBOLS) {
+    return { isValid: false, errorMessage: `A replay can cover at most ${REPLAY_LIMITS.MAX_SYMBOLS} stocks` };
+  }
+
+  const times = new Set<number>();
+  for (const symbol of symbols) {
+    const points = histories[symbol];
+    if (!Array.isArray(points) || points.length === 0) {
+      return { isValid: false, errorMessage: `No prices to replay for ${symbol}` };
+    }
+    for (const point of points) {
+      const time = point && typeof point === 'object' ? timeOf(point) : NaN;
+      if (!Number.isFinite(time)) {
+        return { isValid: false, errorMessage: `${symbol}: price point has no valid timestamp` };
+      }
+      const priceValidation = validateStockPrice(point.price);
+      if (!priceValidation.isValid) {
+        return { isValid: false, errorMessage: `${symbol}: ${priceValidation.errorMessage}` };
+      }
+      times.add(time);
+    }
+  }
+
+  if (times.size < 2) {
+    return { isValid: false, errorMessage: 'Replay data must span at least two different timestamps' };
+  }
+
+  return { isValid: true };
+}
+
+export class ReplayEngine {
+  private readonly series: Map<string, PricePoint[]>;
+  readonly startTime: number;
+  readonly endTime: number;
+  private currentTime: number;
+  private status: ReplayStatus = 'playing';
+  private options: ReplayOptions;
+
+  /**
+   * @param histories Validated price series by symbol; they are copied and sorted
+   */
+  constructor(histories: Record<string, PricePoint[]>, options: Partial<ReplayOptions> = {}) {
+    this.series = new Map(Object.entries(histories).map(([symbol, points]) => [
+      symbol,
+      points.map(point => ({ timestamp: new Date(point.timestamp), price: point.price })).sort((a, b) => timeOf(a) - timeOf(b)),
+    ]));
+
+    const allTimes = Array.from(this.series.values()).flatMap(points => points.map(timeOf));
+    this.startTime = Math.min(...allTimes);
+    this.endTime = Math.max(...allTimes);
+    this.currentTime = this.startTime;
+    this.options = { ...DEFAULT_REPLAY_OPTIONS, ...options };
+  }
+
+  /**
+   * Move the playhead by one tick
+   * @param dtSeconds Wall time covered by the tick; market time advances by this times the speed
+   */
+  advance(dtSeconds: number): void {
+    if (this.status !== 'playing') {
+      return;
+    }
+
+    const next = this.currentTime + Math.max(0, dtSeconds) * 1000 * this.options.speed;
+    if (next < this.endTime) {
+      this.currentTime = next;
+    } else if (this.options.loop) {
+      this.currentTime = this.startTime + (next - this.endTime) % (this.endTime - this.startTime);
+    } else {
+      this.currentTime = this.endTime;
+      this.status = 'ended';
+    }
+  }
+
+  /**
+   * Move the playhead to a point in market time (clamped to the data)
+   */
+  seek(time: number): void {
+    this.currentTime = Math.min(this.endTime, Math.max(this.startTime, time));
+    if (this.status === 'ended' && this.currentTime < this.endTime) {
+      this.status = 'paused';
+    }
+  }
+
+  pause(): boolean {
+    if (this.status !== 'playing') return false;
+    this.status = 'paused';
+    return true;
+  }
+
+  /**
+   * Resume playback; an ended replay starts over
+   */
+  resume(): boolean {
+    if (this.status === 'playing') return false;
+    if (this.status === 'ended') {
+      this.currentTime = this.startTime;
+    }
+    this.status = 'playing';
+    return true;
+  }
+
+  setOptions(options: Partial<ReplayOptions>): void {
+    this.options = { ...this.options, ...options };
+  }
+
+  hasSymbol(symbol: string): boolean {
+    return this.series.has(symbol);
+  }
+
+  symbols(): string[] {
+    return Array.from(this.series.keys());
+  }
+
+  /**
+   * Points of a replayed stock up to the playhead, oldest first
+   * @param maxPoints Only return the most recent points
+   */
+  getHistory(symbol: string, maxPoints?: number): PricePoint[] {
+    const points = this.series.get(symbol) ?? [];
+
+    // Binary search for the first point after the playhead
+    let low = 0;
+    let high = points.length;
+    while (low < high) {
+      const mid = (low + high) >> 1;
+      if (timeOf(points[mid]) <= this.currentTime) {
+        low = mid + 1;
+      } else {
+        high = mid;
+      }
+    }
+
+    const start = maxPoints !== undefined && maxPoints > 0 ? Math.max(0, low - maxPoints) : 0;
+    return points.slice(start, low);
+  }
+
+  /**
+   * First price of a replayed stock, e.g. the session's open
+   */
+  getOpeningPrice(symbol: string): number | undefined {
+    return this.series.get(symbol)?.[0]?.price;
+  }
+
+  getProgress(): ReplayProgress {
+    return {
+      status: this.status,
+      symbols: this.symbols(),
+      startTime: this.startTime,
+      endTime: this.endTime,
+      currentTime: this.currentTime,
+      ...this.options,
+    };
+  }
+}
+
+/**
+ * Show a replayed stock as of the engine's playhead: the latest bar becomes the
+ * current price and the most recent bars its priceHistory. Stocks that are not
+ * replayed, or have no bar before the playhead yet, are returned unchanged.
+ */
+export function replayStock(stock: StockInfo, engine: ReplayEngine): StockInfo {
+  const history = engine.getHistory(stock.symbol, MAX_HISTORY_POINTS);
+  if (history.length === 0) {
+    return stock;
+  }
+
+  const latest = history[history.length - 1];
+  if (stock.priceHistory[stock.priceHistory.length - 1] === latest) {
+    return stock; // Playhead has not reached the next bar
+  }
+
+  const previous = history.length > 1 ? history[history.length - 2] : latest;
+  return {
+    ...stock,
+    previousPrice: previous.price,
+    currentPrice: latest.price,
+    percentChange: ((latest.price - stock.initialPrice) / stock.initialPrice) * 100,
+    lastUpdated: new Date(latest.timestamp),
+    priceHistory: history,
+  };
+}
@@ -0,0 +1,347 @@
+/**
+ * Scenario Engine for Scripted Market Stories
+ *
+ * Turns a scenario timeline (e.g. "BNOX -12% over 90s, then recover 50%
+ * over 5 minutes with volatility x3") into per-tick price effects. The
+ * engine only tracks simulated time; TickerProvider advances it once per
+ * price update and applies the returned effects on top of each stock's
+ * price model.
+ */
+
+import {
+  MarketScenario,
+  ScenarioProgress,
+  ScenarioStatus,
+  ScenarioStep,
+  ScenarioStepType,
+  ValidationResult,
+  validateStockSymbol,
+  sanitizeStockSymbol,
+} from './types';
+
+/**
+ * Effect of the scenario on one stock for a single tick
+ */
+export interface ScenarioEffect {
+  ratio: number; // Multiply the current price by this to follow the scripted path
+  volatilityMultiplier: number; // Scale the price model's own movement by this
+}
+
+// A step placed on the timeline, with levels relative to the price at scenario start (1 = unchanged)
+interface ScheduledStep {
+  step: ScenarioStep;
+  index: number;
+  startSeconds: number;
+  endSeconds: number;
+  fromLevel: number;
+  toLevel: number;
+}
+
+export const SCENARIO_LIMITS = {
+  MAX_NAME_LENGTH: 100,
+  MAX_STEPS: 50,
+  MAX_STEP_DURATION_SECONDS: 3600,
+  MAX_MOVE_PERCENT: 1000,
+  MAX_VOLATILITY_MULTIPLIER: 10,
+};
+
+const STEP_TYPES: ScenarioStepType[] = ['move', 'recover', 'hold'];
+
+/**
+ * Built-in scenarios offered on the controls page
+ */
+export const PRESET_SCENARIOS: Record<'crash' | 'rally' | 'earningsGap', MarketScenario> = {
+  crash: {
+    name: 'Flash crash',
+    description: 'Sharp sell-off followed by a partial recovery',
+    steps: [
+      { symbol: 'BNOX', type: 'move', percent: -12, durationSeconds: 90, volatilityMultiplier: 3 },
+      { symbol: 'BNOX', type: 'recover', percent: 50, durationSeconds: 300, volatilityMultiplier: 3 },
+    ],
+  },
+  rally: {
+    name: 'Broad rally',
+    description: 'Steady climb across the default stocks',
+    steps: [
+      { symbol: 'BNOX', type: 'move', percent: 8, durationSeconds: 240 },
+      { symbol: 'GOOGL', type: 'move', percent: 5, durationSeconds: 240, withPrevious: true },
+      { symbol: 'MSFT', type: 'move', percent: 4, durationSeconds: 240, withPrevious: true },
+    ],
+  },
+  earningsGap: {
+    name: 'Earnings gap',
+    description: 'Instant gap up on earnings, then a volatile drift back',
+    steps: [
+      { symbol: 'BNOX', type: 'move', percent: 15, durationSeconds: 0 },
+      { symbol: 'BNOX', type: 'hold', percent: 0, durationSeconds: 60, volatilityMultiplier: 4 },
+      { symbol: 'BNOX', type: 'recover', percent: 30, durationSeconds: 180, volatilityMultiplier: 2 },
+    ],
+  },
+};
+
+// Scripted level a step ends at, given the level it starts from
+function targetLevel(step: ScenarioStep, fromLevel: number): number {
+  switch (step.type) {
+    case 'move':
+      return fromLevel * (1 + step.percent / 100);
+    case 'recover':
+      return fromLevel + (1 - fromLevel) * (step.percent / 100);
+    case 'hold':
+    default:
+      return fromLevel;
+  }
+}
+
+// Lay the steps out on a timeline and compute each step's start and end level
+function buildSchedule(scenario: MarketScenario): ScheduledStep[] {
+  const levels = new Map<string, number>();
+  const schedule: ScheduledStep[] = [];
+  let cursor = 0;
+
+  scenario.steps.forEach((step, index) => {
+    const previous = schedule[schedule.length - 1];
+    const startSeconds = step.withPrevious && previous ? previous.startSeconds : cursor;
+    const endSeconds = startSeconds + step.durationSeconds;
+    const fromLevel = levels.get(step.symbol) ?? 1;
+    const toLevel = targetLevel(step, fromLevel);
+
+    levels.set(step.symbol, toLevel);
+    schedule.push({ step, index, startSeconds, endSeconds, fromLevel, toLevel });
+    cursor = Math.max(cursor, endSeconds);
+  });
+
+  return schedule;
+}
+
+/**
+ * Validate a scenario definition (for example one loaded from JSON)
+ */
+export function validateScenario(scenario: unknown): ValidationResult {
+  if (!scenario || typeof scenario !== 'object') {
+    return { isValid: false, errorMessage: 'Scenario must be an object' };
+  }
+
+  const { name, description, steps } = scenario as Partial<MarketScenario>;
+
+  if (typeof name !== 'string' || !name.trim()) {
+    return { isValid: false, errorMessage: 'Scenario name is required' };
+  }
+  if (name.length > SCENARIO_LIMITS.MAX_NAME_LENGTH) {
+    return { isValid: false, errorMessage: `Scenario name cannot exceed ${SCENARIO_LIMITS.MAX_NAME_LENGTH} characters` };
+  }
+  if (description !== undefined && typeof description !== 'string') {
+    return { isValid: false, errorMessage: 'Scenario description must be text' };
+  }
+  if (!Array.isArray(steps) || steps.length === 0) {
+    return { isValid: false, errorMessage: 'Scenario needs at least one step' };
+  }
+  if (steps.length > SCENARIO_LIMITS.MAX_STEPS) {
+    return { isValid: false, errorMessage: `Scenario cannot have more than ${SCENARIO_LIMITS.MAX_STEPS} steps` };
+  }
+
+  for (let i = 0; i < steps.length; i++) {
+    const step = steps[i] as Partial<ScenarioStep>;
+    const label = `Step ${i + 1}`;
+
+    if (!step || typeof step !== 'object') {
+      return { isValid: false, errorMessage: `${label} must be an object` };
+    }
+    const symbolResult = validateStockSymbol(typeof step.symbol === 'string' ? sanitizeStockSymbol(step.symbol) : '');
+    if (!symbolResult.isValid) {
+      return { isValid: false, errorMessage: `${label}: ${symbolResult.errorMessage}` };
+    }
+    if (!step.type || !STEP_TYPES.includes(step.type)) {
+      return { isValid: false, errorMessage: `${label}: type must be one of ${STEP_TYPES.join(', ')}` };
+    }
+    if (typeof step.percent !== 'number' || !isFinite(step.percent)) {
+      return { isValid: false, errorMessage: `${label}: percent must be a valid number` };
+    }
+    if (step.type === 'move' && (step.percent <= -100 || step.percent > SCENARIO_LIMITS.MAX_MOVE_PERCENT)) {
+      return { isValid: false, errorMessage: `${label}: move must be greater than -100% and at most ${SCENARIO_LIMITS.MAX_MOVE_PERCENT}%` };
+    }
+    if (step.type === 'recover' && (step.percent < 0 || step.percent > 100)) {
+      return { isValid: false, errorMessage: `${label}: recovery must be between 0% and 100%` };
+    }
+    if (
+      typeof step.durationSeconds !== 'number' ||
+      !isFinite(step.durationSeconds) ||
+      step.durationSeconds < 0 ||
+      step.durationSeconds > SCENARIO_LIMITS.MAX_STEP_DURATION_SECONDS
+    ) {
+      return { isValid: false, errorMessage: `${label}: duration must be between 0 and ${SCENARIO_LIMITS.MAX_STEP_DURATION_SECONDS} seconds` };
+    }
+    if (
+      step.volatilityMultiplier !== undefined &&
+      (typeof step.volatilityMultiplier !== 'number' ||
+        !isFinite(step.volatilityMultiplier) ||
+        step.volatilityMultiplier < 0 ||
+        step.volatilityMultiplier > SCENARIO_LIMITS.MAX_VOLATILITY_MULTIPLIER)
+    ) {
+      return { isValid: false, errorMessage: `${label}: volatility multiplier must be between 0 and ${SCENARIO_LIMITS.MAX_VOLATILITY_MULTIPLIER}` };
+    }
+    if (step.withPrevious !== undefined && typeof step.withPrevious !== 'boolean') {
+      return { isValid: false, errorMessage: `${label}: withPrevious must be true or false` };
+    }
+  }
+
+  return { isValid: true };
+}
+
+/**
+ * Serialize a scenario for saving
+ */
+export function serializeScenario(scenario: MarketScenario): string {
+  return JSON.stringify(scenario, null, 2);
+}
+
+/**
+ * Parse and validate a scenario saved with serializeScenario
+ * @returns Validation result, with the normalized scenario when valid
+ */
+export function parseScenario(json: string): ValidationResult & { scenario?: MarketScenario } {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    return { isValid: false, errorMessage: 'Scenario file is not valid JSON' };
+  }
+
+  const result = validateScenario(data);
+  if (!result.isValid) {
+    return result;
+  }
+
+  return { isValid: true, scenario: normalizeScenario(data as MarketScenario) };
+}
+
+/**
+ * Copy a validated scenario keeping only known fields, so saved files
+ * can't smuggle extra data into state
+ */
+export function normalizeScenario(raw: MarketScenario): MarketScenario {
+  return {
+    name: raw.name.trim(),
+    ...(raw.description ? { description: raw.description } : {}),
+    steps: raw.steps.map(step => ({
+      symbol: sanitizeStockSymbol(step.symbol),
+      type: step.type,
+      percent: step.percent,
+      durationSeconds: step.durationSeconds,
+      ...(step.volatilityMultiplier !== undefined ? { volatilityMultiplier: step.volatilityMultiplier } : {}),
+      ...(step.withPrevious ? { withPrevious: true } : {}),
+    })),
+  };
+}
+
+export class ScenarioEngine {
+  private readonly schedule: ScheduledStep[];
+  private readonly symbols: string[];
+  private readonly totalSeconds: number;
+  private lastLevels: Map<string, number> = new Map();
+  private elapsedSeconds = 0;
+  private status: ScenarioStatus = 'running';
+
+  constructor(readonly scenario: MarketScenario) {
+    this.schedule = buildSchedule(scenario);
+    this.symbols = Array.from(new Set(scenario.steps.map(step => step.symbol)));
+    this.totalSeconds = this.schedule.reduce((max, item) => Math.max(max, item.endSeconds), 0);
+    this.symbols.forEach(symbol => this.lastLevels.set(symbol, 1));
+  }
+
+  /**
+   * Advance the timeline by one tick
+   * @param dtSeconds Simulated time covered by the tick
+   * @returns Effects for every stock the scenario touches (empty unless running)
+   */
+  advance(dtSeconds: number): Map<string, ScenarioEffect> {
+    const effects = new Map<string, ScenarioEffect>();
+    if (this.status !== 'running') {
+      return effects;
+    }
+
+    this.elapsedSeconds = Math.min(this.elapsedSeconds + Math.max(0, dtSeconds), this.totalSeconds);
+
+    this.symbols.forEach(symbol => {
+      const level = this.levelAt(symbol, this.elapsedSeconds);
+      const lastLevel = this.lastLevels.get(symbol) ?? 1;
+      this.lastLevels.set(symbol, level);
+      effects.set(symbol, {
+        ratio: lastLevel > 0 ? level / lastLevel : 1,
+        volatilityMultiplier: this.volatilityAt(symbol, this.elapsedSeconds),
+      });
+    });
+
+    if (this.elapsedSeconds >= this.totalSeconds) {
+      this.status = 'completed';
+    }
+
+    return effects;
+  }
+
+  pause(): boolean {
+    if (this.status !== 'running') return false;
+    this.status = 'paused';
+    return true;
+  }
+
+  resume(): boolean {
+    if (this.status !== 'paused') return false;
+    this.status = 'running';
+    return true;
+  }
+
+  abort(): boolean {
+    if (this.status !== 'running' && this.status !== 'paused') return false;
+    this.status = 'aborted';
+    return true;
+  }
+
+  isActive(): boolean {
+    return this.status === 'running' || this.status === 'paused';
+  }
+
+  getProgress(): ScenarioProgress {
+    let stepIndex = 0;
+    this.schedule.forEach(item => {
+      if (item.startSeconds <= this.elapsedSeconds) {
+        stepIndex = Math.max(stepIndex, item.index);
+      }
+    });
+
+    return {
+      name: this.scenario.name,
+      status: this.status,
+      elapsedSeconds: this.elapsedSeconds,
+      totalSeconds: this.totalSeconds,
+      stepIndex,
+      stepCount: this.schedule.length,
+    };
+  }
+
+  // Scripted level of a stock at a point on the timeline (latest started step wins)
+  private levelAt(symbol: string, seconds: number): number {
+    let level = 1;
+    for (const item of this.schedule) {
+      if (item.step.symbol !== symbol || item.startSeconds > seconds) continue;
+      if (seconds >= item.endSeconds) {
+        level = item.toLevel;
+      } else {
+        const progress = (seconds - item.startSeconds) / (item.endSeconds - item.startSeconds);
+        level = item.fromLevel + (item.toLevel - item.fromLevel) * progress;
+      }
+    }
+    return level;
+  }
+
+  // Volatility multiplier of the step currently running for a stock
+  private volatilityAt(symbol: string, seconds: number): number {
+    let multiplier = 1;
+    for (const item of this.schedule) {
+      if (item.step.symbol !== symbol) continue;
+      if (item.startSeconds <= seconds && seconds < item.endSeconds) {
+        multiplier = item.step.volatilityMultiplier ?? 1;
+      }
+    }
+    return multiplier;
+  }
+}
@@ -0,0 +1,480 @@
+/**
+ * Secure Storage
+ *
+ * Saves app state encrypted under the signed-in user's key (see
+ * storageCrypto) and tagged with its schema version (see storageMigrations),
+ * in localStorage or, for large items, IndexedDB (see storageBackends).
+ * Each user's items are stored under their keyring id, so users of the same
+ * device never overwrite each other's items. Reads and writes wait until
+ * TickerProvider has configured the user's keyring, and run one at a time
+ * per storage key.
+ *
+ * Items saved by older releases (base64 JSON, stored for no user in
+ * particular), items under a rotated key and items saved before signing in
+ * are re-encrypted under the current key, into the user's slots, when they
+ * are loaded or when upgradeSecureStorage runs.
+ */
+
+import {
+  SECURITY_CONSTRAINTS,
+  SecureStorageItem,
+  StorageBackendName,
+  StorageStatus,
+  ValidationResult,
+  generateChecksum,
+} from './types';
+import {
+  INITIAL_STORAGE_VERSION,
+  StorageMigrationReport,
+  describeMigrationFailure,
+  getStorageVersion,
+  migrateStoredData,
+} from './storageMigrations';
+import {
+  STORAGE_CRYPTO,
+  StorageCryptoError,
+  StorageKeyring,
+  hasStorageKeyring,
+  isEncryptedStorageItem,
+  isWebCryptoAvailable,
+  loadStorageKeyring,
+  retireStorageKeys,
+  rotateStorageKeyring,
+  storageKeyringId,
+} from './storageCrypto';
+import { StorageQuotaError, TieredStorage, createDefaultStorage, estimateStorageUsage } from './storageBackends';
+
+// Secure storage response type definition
+export interface SecureStorageResponse<T> {
+  result: ValidationResult;
+  data?: T;
+  // Set when the saved payload was at an older schema version
+  migration?: StorageMigrationReport;
+}
+
+// Outcome of a save, with where the item went and whether storage was full
+export interface SecureStorageSaveResult extends ValidationResult {
+  backend?: StorageBackendName;
+  quotaExceeded?: boolean;
+}
+
+// Keyring of users who are not signed in
+const ANONYMOUS_USER = 'anonymous';
+
+const UNAVAILABLE_MESSAGE = 'Secure storage is not available: encryption needs a secure context (HTTPS)';
+
+/**
+ * Where an item is stored for the keyring with this id (see storageKeyringId)
+ */
+export const storageKeyFor = (key: string, scope: string) => `${SECURITY_CONSTRAINTS.STORAGE_PREFIX}${scope}_${key}`;
+
+// Pre-migration payloads are kept under this key, per version
+export const storageBackupKeyFor = (key: string, version: number, scope: string) => `${storageKeyFor(key, scope)}_backup_v${version}`;
+
+// Where releases before per-user storage kept an item
+const unscopedStorageKeyFor = (key: string) => `${SECURITY_CONSTRAINTS.STORAGE_PREFIX}${key}`;
+
+const SCOPED_STORAGE_KEY = new RegExp(`^${SECURITY_CONSTRAINTS.STORAGE_PREFIX}([0-9a-f]{16})_(.+)$`);
+
+// Keyring id and name of a stored item or backup; the scope is null for items stored for no user
+function parseStorageKey(storageKey: string): { scope: string | null; name: string } {
+  const scoped = SCOPED_STORAGE_KEY.exec(storageKey);
+  return scoped
+    ? { scope: scoped[1], name: scoped[2] }
+    : { scope: null, name: storageKey.slice(SECURITY_CONSTRAINTS.STORAGE_PREFIX.length) };
+}
+
+// Storage key an item or backup belongs to, e.g. tickerState for its backups
+const logicalKeyOf = (name: string) => name.replace(/_backup_v\d+$/, '');
+
+let storage: TieredStorage = createDefaultStorage();
+
+/**
+ * Keep items in other backends, e.g. in-memory ones in tests
+ */
+export function setSecureStorageBackend(next: TieredStorage): void {
+  storage = next;
+}
+
+/**
+ * Backends in use and the space this origin takes
+ */
+export async function getSecureStorageStatus(): Promise<StorageStatus> {
+  return { backends: storage.backends, ...(await estimateStorageUsage()) };
+}
+
+// Keyring in use, with the user it belongs to and the keyring id their items are stored under
+interface UserKeyring {
+  user: string;
+  scope: string;
+  keyring: StorageKeyring;
+}
+
+// Keyring of the configured user; settled with null when WebCrypto is unavailable
+let configuredUser: string | null = null;
+let settleKeyring: ((keyring: Promise<UserKeyring | null>) => void) | null = null;
+let keyringPromise = new Promise<UserKeyring | null>(resolve => { settleKeyring = resolve; });
+
+// Last operation per storage key, so reads and writes apply in order
+const queues = new Map<string, Promise<unknown>>();
+
+function enqueue<R>(key: string, task: () => Promise<R>): Promise<R> {
+  const next = (queues.get(key) ?? Promise.resolve()).then(task, task);
+  queues.set(key, next);
+  return next;
+}
+
+function isSecureStorageItem(value: unknown): value is SecureStorageItem<unknown> {
+  return !!value && typeof value === 'object' &&
+    'data' in value &&
+    typeof (value as SecureStorageItem<unknown>).version === 'number' &&
+    typeof (value as SecureStorageItem<unknown>).checksum === 'string';
+}
+
+async function loadUserKeyring(user: string): Promise<UserKeyring> {
+  return { user, scope: await storageKeyringId(user), keyring: await loadStorageKeyring(user) };
+}
+
+// Keyring of items saved before signing in, if there is one to take them over from
+async function loadGuestKeyring(active: UserKeyring): Promise<UserKeyring | null> {
+  if (active.user === ANONYMOUS_USER || !(await hasStorageKeyring(ANONYMOUS_USER))) {
+    return null;
+  }
+  return loadUserKeyring(ANONYMOUS_USER);
+}
+
+const parseStored = (stored: string): unknown => {
+  try {
+    return JSON.parse(stored);
+  } catch {
+    return null; // Not JSON, so saved before encryption
+  }
+};
+
+interface FoundItem {
+  storageKey: string;
+  stored: string;
+  keyring: StorageKeyring;
+}
+
+/**
+ * Find an item in the user's slot or, failing that, where it was saved for
+ * no user or before signing in
+ */
+async function findItem(name: string, active: UserKeyring): Promise<FoundItem | null> {
+  const own = storageKeyFor(name, active.scope);
+  const stored = await storage.getItem(own);
+  if (stored) {
+    const parsed = parseStored(stored);
+    // Another tab may have rotated the key since this one loaded the keyring
+    if (isEncryptedStorageItem(parsed) && !active.keyring.has(parsed.keyId)) {
+      active.keyring = await loadStorageKeyring(active.user);
+    }
+    return { storageKey: own, stored, keyring: active.keyring };
+  }
+
+  const unscoped = await storage.getItem(unscopedStorageKeyFor(name));
+  if (unscoped) {
+    return { storageKey: unscopedStorageKeyFor(name), stored: unscoped, keyring: active.keyring };
+  }
+
+  if (active.user === ANONYMOUS_USER) {
+    return null;
+  }
+  const guestKey = storageKeyFor(name, await storageKeyringId(ANONYMOUS_USER));
+  const guestStored = await storage.getItem(guestKey);
+  const guest = guestStored ? await loadGuestKeyring(active) : null;
+  return guest && guestStored ? { storageKey: guestKey, stored: guestStored, keyring: guest.keyring } : null;
+}
+
+/**
+ * Use the keyring of the signed-in user (or the anonymous one) for storage
+ */
+export async function configureSecureStorage(userId: string | null | undefined): Promise<ValidationResult> {
+  const user = userId || ANONYMOUS_USER;
+  if (user !== configuredUser) {
+    configuredUser = user;
+    const keyring = isWebCryptoAvailable()
+      ? loadUserKeyring(user).catch(err => {
+          console.error('Failed to load storage keyring:', err);
+          return null;
+        })
+      : Promise.resolve(null);
+    if (settleKeyring) {
+      settleKeyring(keyring);
+      settleKeyring = null;
+    } else {
+      keyringPromise = keyring;
+    }
+  }
+  return (await keyringPromise) ? { isValid: true } : { isValid: false, errorMessage: UNAVAILABLE_MESSAGE };
+}
+
+// Read a stored item, whether encrypted or saved before encryption
+async function openItem(stored: string, key: string, keyring: StorageKeyring): Promise<{ item: SecureStorageItem<unknown>; encrypted: boolean; stale: boolean }> {
+  const parsed = parseStored(stored);
+  if (isEncryptedStorageItem(parsed)) {
+    const item = JSON.parse(await keyring.decrypt(parsed, key));
+    return { item, encrypted: true, stale: parsed.keyId !== keyring.currentKeyId };
+  }
+
+  // Items saved before encryption are base64 JSON; before versioning, the bare data
+  const legacy: unknown = JSON.parse(atob(stored));
+  const item: SecureStorageItem<unknown> = isSecureStorageItem(legacy)
+    ? legacy
+    : { data: legacy, timestamp: 0, checksum: generateChecksum(JSON.stringify(legacy)), version: INITIAL_STORAGE_VERSION };
+  if (generateChecksum(JSON.stringify(item.data)) !== item.checksum) {
+    throw new StorageCryptoError('Data integrity check failed');
+  }
+  return { item, encrypted: false, stale: true };
+}
+
+async function sealItem(item: SecureStorageItem<unknown>, key: string, keyring: StorageKeyring): Promise<string> {
+  const { checksum, ...sealed } = item; // The GCM tag replaces the checksum
+  return JSON.stringify(await keyring.encrypt(JSON.stringify(sealed), key));
+}
+
+function storageError(err: unknown): SecureStorageSaveResult {
+  if (err instanceof StorageQuotaError) {
+    return { isValid: false, errorMessage: err.message, quotaExceeded: true };
+  }
+  return {
+    isValid: false,
+    errorMessage: err instanceof StorageCryptoError
+      ? err.message
+      : `Storage error: ${err instanceof Error ? err.message : String(err)}`,
+  };
+}
+
+/**
+ * Save data to secure storage with encryption, tagged with the key's
+ * current schema version
+ */
+export function saveToSecureStorage<T>(key: string, data: T): Promise<SecureStorageSaveResult> {
+  // Basic validation
+  if (!key || typeof key !== 'string') {
+    return Promise.resolve({ isValid: false, errorMessage: 'Invalid storage key' });
+  }
+
+  return enqueue(key, async (): Promise<SecureStorageSaveResult> => {
+    try {
+      const active = await keyringPromise;
+      if (!active) {
+        return { isValid: false, errorMessage: UNAVAILABLE_MESSAGE };
+      }
+      const item: SecureStorageItem<T> = { data, timestamp: Date.now(), version: getStorageVersion(key) };
+      const backend = await storage.setItem(storageKeyFor(key, active.scope), await sealItem(item, key, active.keyring));
+      return { isValid: true, backend };
+    } catch (err) {
+      console.error('Failed to save to secure storage:', err);
+      return storageError(err);
+    }
+  });
+}
+
+/**
+ * Load data from secure storage with decryption. Payloads saved at an
+ * older schema version are migrated step by step and saved again; the
+ * original is kept as a backup first, and is left in place if a step fails.
+ * Items found for no user or from before signing in are moved into the
+ * user's slot.
+ */
+export function loadFromSecureStorage<T>(key: string): Promise<SecureStorageResponse<T>> {
+  // Basic validation
+  if (!key || typeof key !== 'string') {
+    return Promise.resolve({ result: { isValid: false, errorMessage: 'Invalid storage key' } });
+  }
+
+  return enqueue(key, async (): Promise<SecureStorageResponse<T>> => {
+    try {
+      const active = await keyringPromise;
+      if (!active) {
+        return { result: { isValid: false, errorMessage: UNAVAILABLE_MESSAGE } };
+      }
+
+      const found = await findItem(key, active);
+      if (!found) {
+        return { result: { isValid: false, errorMessage: 'No data found in storage' } };
+      }
+
+      const { stored } = found;
+      const { item, encrypted, stale } = await openItem(stored, key, found.keyring);
+      const { keyring } = active;
+      const own = storageKeyFor(key, active.scope);
+      const moved = found.storageKey !== own;
+      // Write to the user's slot, dropping the item where it was found
+      const store = async (sealed: string) => {
+        await storage.setItem(own, sealed);
+        if (moved) {
+          await storage.removeItem(found.storageKey);
+        }
+      };
+
+      const currentVersion = getStorageVersion(key);
+      if (item.version > currentVersion) {
+        return {
+          result: {
+            isValid: false,
+            errorMessage: `Saved ${key} is from a newer version of the app (schema version ${item.version}, this version reads up to ${currentVersion})`
+          }
+        };
+      }
+      if (item.version === currentVersion) {
+        if (stale || moved) {
+          await store(await sealItem(item, key, keyring));
+        }
+        return { result: { isValid: true }, data: item.data as T };
+      }
+
+      // Keep the payload as it was, so a failed or faulty upgrade loses nothing;
+      // payloads saved before encryption or under another keyring are backed up under the user's key
+      const backupKey = storageBackupKeyFor(key, item.version, active.scope);
+      await storage.setItem(backupKey, encrypted && !moved ? stored : await sealItem(item, key, keyring));
+
+      const { data, report } = migrateStoredData(key, item.data, item.version);
+      const migration = { ...report, backupKey };
+      if (report.failed) {
+        console.warn(`${describeMigrationFailure(report)}. The saved data was kept in ${backupKey}.`);
+        if (!encrypted || moved) {
+          await store(await sealItem(item, key, keyring));
+        }
+        return {
+          result: { isValid: false, errorMessage: describeMigrationFailure(report) },
+          migration
+        };
+      }
+
+      console.info(`Migrated saved ${key} from version ${report.fromVersion} to ${report.toVersion}:`, report.applied);
+      const upgraded: SecureStorageItem<unknown> = { data, timestamp: Date.now(), version: currentVersion };
+      await store(await sealItem(upgraded, key, keyring));
+
+      return {
+        result: { isValid: true },
+        data: data as T,
+        migration
+      };
+    } catch (err) {
+      console.error('Failed to load from secure storage:', err);
+      return { result: storageError(err) };
+    }
+  });
+}
+
+/**
+ * Remove an item saved with saveToSecureStorage
+ */
+export function removeFromSecureStorage(key: string): Promise<void> {
+  return enqueue(key, async () => {
+    const active = await keyringPromise;
+    if (active) {
+      await storage.removeItem(storageKeyFor(key, active.scope));
+    }
+  });
+}
+
+/**
+ * Re-encrypt every item and backup of the user under the current key,
+ * including items saved before encryption, and move items saved for no user
+ * or before signing in into the user's slots where they have none. Schema
+ * versions are kept; items are migrated when they are next loaded. Items of
+ * other users are left alone.
+ */
+export async function reencryptSecureStorage(): Promise<ValidationResult> {
+  const active = await keyringPromise;
+  if (!active) {
+    return { isValid: false, errorMessage: UNAVAILABLE_MESSAGE };
+  }
+
+  const guest = await loadGuestKeyring(active);
+  const storageKeys = (await storage.keys())
+    .filter(storageKey => storageKey.startsWith(SECURITY_CONSTRAINTS.STORAGE_PREFIX));
+
+  const failed: string[] = [];
+  for (const storageKey of storageKeys) {
+    const { scope, name } = parseStorageKey(storageKey);
+    const key = logicalKeyOf(name);
+    const own = storageKeyFor(name, active.scope);
+    if (scope === active.scope) {
+      await enqueue(key, async () => {
+        try {
+          const stored = await storage.getItem(storageKey);
+          if (!stored) return;
+          const { item, stale } = await openItem(stored, key, active.keyring);
+          if (stale) {
+            await storage.setItem(storageKey, await sealItem(item, key, active.keyring));
+          }
+        } catch (err) {
+          console.warn(`Could not re-encrypt ${storageKey}:`, err);
+          failed.push(storageKey);
+        }
+      });
+    } else if (scope === null || scope === guest?.scope) {
+      const keyring = scope === null ? active.keyring : (guest as UserKeyring).keyring;
+      await enqueue(key, async () => {
+        try {
+          const stored = await storage.getItem(storageKey);
+          if (!stored || await storage.getItem(own)) return;
+          const { item } = await openItem(stored, key, keyring);
+          await storage.setItem(own, await sealItem(item, key, active.keyring));
+          await storage.removeItem(storageKey);
+        } catch (err) {
+          // Left where it is; it is not under this user's keys
+          console.warn(`Could not move ${storageKey} to the signed-in user:`, err);
+        }
+      });
+    }
+  }
+
+  return failed.length === 0
+    ? { isValid: true }
+    : { isValid: false, errorMessage: `Could not re-encrypt ${failed.join(', ')}` };
+}
+
+/**
+ * Start encrypting under a fresh key and re-encrypt stored items with it.
+ * The old keys stay on the ring until upgradeSecureStorage next finds that
+ * no item needs them, so other open tabs still holding them keep working.
+ */
+export async function rotateSecureStorageKey(now: number = Date.now()): Promise<ValidationResult> {
+  try {
+    const active = await keyringPromise;
+    if (!active) {
+      return { isValid: false, errorMessage: UNAVAILABLE_MESSAGE };
+    }
+
+    // Let reads and writes under the current key finish first
+    await Promise.allSettled(queues.values());
+    active.keyring = await rotateStorageKeyring(active.user, now);
+    return await reencryptSecureStorage();
+  } catch (err) {
+    console.error('Failed to rotate storage key:', err);
+    return storageError(err);
+  }
+}
+
+/**
+ * Bring the configured user's storage up to date, e.g. on sign-in: rotate
+ * the key once it is STORAGE_CRYPTO.KEY_MAX_AGE_MS old, otherwise re-encrypt
+ * what is not under the current key yet and retire the keys no item needs
+ * any more.
+ */
+export async function upgradeSecureStorage(now: number = Date.now()): Promise<ValidationResult> {
+  try {
+    const active = await keyringPromise;
+    if (!active) {
+      return { isValid: false, errorMessage: UNAVAILABLE_MESSAGE };
+    }
+    if (now - active.keyring.currentKeyCreatedAt >= STORAGE_CRYPTO.KEY_MAX_AGE_MS) {
+      return await rotateSecureStorageKey(now);
+    }
+
+    const result = await reencryptSecureStorage();
+    if (result.isValid) {
+      await retireStorageKeys(active.user);
+    }
+    return result;
+  } catch (err) {
+    console.error('Failed to upgrade secure storage:', err);
+    return storageError(err);
+  }
+}
@@ -0,0 +1,413 @@
+/**
+ * Ticker Setup Import/Export
+ *
+ * Serializes the ticker setup (stocks with their prices and recent history,
+ * update interval, display currency, the active scenario and the long-range
+ * history from the history store) as JSON, and
+ * full price histories as CSV, so demo setups can move between machines
+ * and environments. Imports are validated with the same rules as manual
+ * entry and only known fields are kept.
+ */
+
+import {
+  Currency,
+  ExchangeCode,
+  IndicatorConfig,
+  InstrumentType,
+  MAX_HISTORY_POINTS,
+  MarketScenario,
+  PriceModelConfig,
+  PricePoint,
+  SECURITY_CONSTRAINTS,
+  StockInfo,
+  TickerSetup,
+  ValidationResult,
+  getStockCurrency,
+  sanitizeStockName,
+  sanitizeStockSymbol,
+  validateCurrency,
+  validateExchange,
+  validateInstrumentType,
+  validateStockName,
+  validateStockPrice,
+  validateStockSymbol,
+  validateUpdateInterval,
+} from './types';
+import { normalizeScenario, validateScenario } from './scenarioEngine';
+import { validatePriceModel } from '../utils/priceModels';
+import { validateIndicator } from '../utils/indicators';
+import { HISTORY_RETENTION_LIMITS } from './historyStore';
+
+export const SETUP_FILE_FORMAT = 'stock-ticker-setup';
+export const SETUP_FILE_VERSION = 1;
+
+export const TRANSFER_LIMITS = {
+  MAX_FILE_BYTES: 5 * 1024 * 1024,
+  MAX_CSV_ROWS: 50000,
+  MAX_INDICATORS: 10,
+  // As many points as the largest history retention keeps for a stock
+  MAX_STORED_HISTORY_POINTS: HISTORY_RETENTION_LIMITS.MAX_TIERS * HISTORY_RETENTION_LIMITS.MAX_CAPACITY,
+};
+
+export const HISTORY_CSV_COLUMNS = ['symbol', 'currency', 'timestamp', 'price'] as const;
+
+type ParseResult<T> = ValidationResult & { value?: T };
+
+const fail = (errorMessage: string): ValidationResult => ({ isValid: false, errorMessage });
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+/**
+ * Parse a timestamp given as a Date, ISO string or milliseconds since epoch
+ */
+export function parseTimestamp(value: unknown): Date | null {
+  let time = NaN;
+  if (value instanceof Date) {
+    time = value.getTime();
+  } else if (typeof value === 'number') {
+    time = value;
+  } else if (typeof value === 'string' && value.trim() !== '') {
+    time = /^\d+$/.test(value.trim()) ? Number(value) : Date.parse(value);
+  }
+  return Number.isFinite(time) ? new Date(time) : null;
+}
+
+/**
+ * Validate price points and return them oldest first, one per timestamp
+ */
+function parsePricePoints(data: unknown): ParseResult<PricePoint[]> {
+  if (!Array.isArray(data)) {
+    return fail('price history must be a list');
+  }
+
+  const byTime = new Map<number, PricePoint>();
+  for (let i = 0; i < data.length; i++) {
+    const point = data[i];
+    const timestamp = isObject(point) ? parseTimestamp(point.timestamp) : null;
+    if (!isObject(point) || !timestamp) {
+      return fail(`price history point ${i + 1} has no valid timestamp`);
+    }
+    const priceValidation = validateStockPrice(point.price as number);
+    if (!priceValidation.isValid) {
+      return fail(`price history point ${i + 1}: ${priceValidation.errorMessage}`);
+    }
+    byTime.set(timestamp.getTime(), { timestamp, price: point.price as number });
+  }
+
+  const points = Array.from(byTime.values()).sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+  return { isValid: true, value: points };
+}
+
+/**
+ * Validate one imported stock and copy its known fields
+ */
+function parseStock(data: unknown, now: number): ParseResult<StockInfo> {
+  if (!isObject(data)) {
+    return fail('must be an object');
+  }
+
+  const instrumentType = (data.instrumentType ?? 'equity') as InstrumentType;
+  const typeValidation = validateInstrumentType(String(instrumentType));
+  if (!typeValidation.isValid) {
+    return typeValidation;
+  }
+
+  const symbol = sanitizeStockSymbol(typeof data.symbol === 'string' ? data.symbol : '', instrumentType);
+  const symbolValidation = validateStockSymbol(symbol, instrumentType);
+  if (!symbolValidation.isValid) {
+    return symbolValidation;
+  }
+
+  const name = sanitizeStockName(typeof data.name === 'string' ? data.name : '');
+  const nameValidation = validateStockName(name);
+  if (!nameValidation.isValid) {
+    return nameValidation;
+  }
+
+  const currency = (data.currency ?? 'USD') as Currency;
+  const currencyValidation = validateCurrency(String(currency));
+  if (!currencyValidation.isValid) {
+    return currencyValidation;
+  }
+
+  if (data.exchange !== undefined) {
+    const exchangeValidation = validateExchange(String(data.exchange), instrumentType);
+    if (!exchangeValidation.isValid) {
+      return exchangeValidation;
+    }
+  }
+
+  for (const field of ['initialPrice', 'currentPrice'] as const) {
+    const priceValidation = validateStockPrice(data[field] as number);
+    if (!priceValidation.isValid) {
+      return fail(`${field}: ${priceValidation.errorMessage}`);
+    }
+  }
+  const initialPrice = data.initialPrice as number;
+  const currentPrice = data.currentPrice as number;
+  const previousPrice = data.previousPrice === undefined ? currentPrice : data.previousPrice as number;
+  const previousValidation = validateStockPrice(previousPrice);
+  if (!previousValidation.isValid) {
+    return fail(`previousPrice: ${previousValidation.errorMessage}`);
+  }
+
+  if (data.priceModel !== undefined) {
+    const modelValidation = validatePriceModel(data.priceModel as PriceModelConfig);
+    if (!modelValidation.isValid) {
+      return modelValidation;
+    }
+  }
+
+  let indicators: IndicatorConfig[] | undefined;
+  if (data.indicators !== undefined) {
+    if (!Array.isArray(data.indicators) || data.indicators.length > TRANSFER_LIMITS.MAX_INDICATORS) {
+      return fail(`indicators must be a list of at most ${TRANSFER_LIMITS.MAX_INDICATORS}`);
+    }
+    for (const indicator of data.indicators as IndicatorConfig[]) {
+      const indicatorValidation = validateIndicator(indicator);
+      if (!indicatorValidation.isValid) {
+        return indicatorValidation;
+      }
+    }
+    indicators = data.indicators as IndicatorConfig[];
+  }
+
+  let priceHistory: PricePoint[] = [{ timestamp: new Date(now), price: currentPrice }];
+  if (data.priceHistory !== undefined) {
+    const historyResult = parsePricePoints(data.priceHistory);
+    if (!historyResult.isValid || !historyResult.value) {
+      return fail(historyResult.errorMessage || 'invalid price history');
+    }
+    if (historyResult.value.length > 0) {
+      priceHistory = historyResult.value.slice(-MAX_HISTORY_POINTS);
+    }
+  }
+
+  const stock: StockInfo = {
+    symbol,
+    name,
+    currency,
+    ...(data.instrumentType !== undefined ? { instrumentType } : {}),
+    ...(data.exchange !== undefined ? { exchange: data.exchange as ExchangeCode } : {}),
+    currentPrice,
+    previousPrice,
+    initialPrice,
+    percentChange: ((currentPrice - initialPrice) / initialPrice) * 100,
+    lastUpdated: priceHistory[priceHistory.length - 1].timestamp,
+    priceHistory,
+    ...(data.priceModel !== undefined ? { priceModel: data.priceModel as PriceModelConfig } : {}),
+    ...(indicators ? { indicators } : {}),
+  };
+
+  return { isValid: true, value: stock };
+}
+
+/**
+ * Validate a setup (e.g. a parsed file) and copy its known fields
+ * @returns Validation result, with the normalized setup when valid
+ */
+export function normalizeSetup(data: unknown, now: number = Date.now()): ValidationResult & { setup?: TickerSetup } {
+  if (!isObject(data)) {
+    return fail('Setup must be an object');
+  }
+  if (!Array.isArray(data.stocks) || data.stocks.length === 0) {
+    return fail('Setup must contain at least one stock');
+  }
+  if (data.stocks.length > SECURITY_CONSTRAINTS.MAX_STOCKS_ALLOWED) {
+    return fail(`Setup can contain at most ${SECURITY_CONSTRAINTS.MAX_STOCKS_ALLOWED} stocks`);
+  }
+
+  const stocks: StockInfo[] = [];
+  for (let i = 0; i < data.stocks.length; i++) {
+    const raw = data.stocks[i];
+    const label = isObject(raw) && typeof raw.symbol === 'string' ? raw.symbol : `Stock ${i + 1}`;
+    const result = parseStock(raw, now);
+    if (!result.isValid || !result.value) {
+      return fail(`${label}: ${result.errorMessage}`);
+    }
+    if (stocks.some(stock => stock.symbol === result.value!.symbol)) {
+      return fail(`${label}: duplicate symbol`);
+    }
+    stocks.push(result.value);
+  }
+
+  const intervalValidation = validateUpdateInterval(data.updateIntervalMs as number);
+  if (!intervalValidation.isValid) {
+    return intervalValidation;
+  }
+
+  const currencyValidation = validateCurrency(data.selectedCurrency as string);
+  if (!currencyValidation.isValid) {
+    return currencyValidation;
+  }
+
+  let scenario: MarketScenario | undefined;
+  if (data.scenario !== undefined) {
+    const scenarioValidation = validateScenario(data.scenario);
+    if (!scenarioValidation.isValid) {
+      return fail(`Scenario: ${scenarioValidation.errorMessage}`);
+    }
+    scenario = normalizeScenario(data.scenario as MarketScenario);
+    const missingSymbol = scenario.steps.map(step => step.symbol).find(symbol => !stocks.some(stock => stock.symbol === symbol));
+    if (missingSymbol) {
+      return fail(`Scenario: stock ${missingSymbol} is not part of the setup`);
+    }
+  }
+
+  let histories: Record<string, PricePoint[]> | undefined;
+  if (data.histories !== undefined) {
+    if (!isObject(data.histories)) {
+      return fail('Histories must be an object keyed by symbol');
+    }
+    histories = {};
+    for (const [symbol, points] of Object.entries(data.histories)) {
+      if (!stocks.some(stock => stock.symbol === symbol)) {
+        return fail(`Histories: stock ${symbol} is not part of the setup`);
+      }
+      const historyResult = parsePricePoints(points);
+      if (!historyResult.isValid || !historyResult.value) {
+        return fail(`Histories: ${symbol}: ${historyResult.errorMessage}`);
+      }
+      histories[symbol] = historyResult.value.slice(-TRANSFER_LIMITS.MAX_STORED_HISTORY_POINTS);
+    }
+  }
+
+  // A selection that no longer exists falls back to the first stock
+  const selectedStock = stocks.some(stock => stock.symbol === data.selectedStock)
+    ? data.selectedStock as string
+    : stocks[0].symbol;
+
+  return {
+    isValid: true,
+    setup: {
+      stocks,
+      updateIntervalMs: data.updateIntervalMs as number,
+      selectedCurrency: data.selectedCurrency as Currency,
+      selectedStock,
+      ...(scenario ? { scenario } : {}),
+      ...(histories ? { histories } : {}),
+    },
+  };
+}
+
+/**
+ * Serialize a setup as a versioned JSON document
+ */
+export function serializeSetup(setup: TickerSetup, now: number = Date.now()): string {
+  return JSON.stringify({
+    format: SETUP_FILE_FORMAT,
+    version: SETUP_FILE_VERSION,
+    exportedAt: new Date(now).toISOString(),
+    ...setup,
+  }, null, 2);
+}
+
+/**
+ * Parse and validate a setup saved with serializeSetup
+ * @returns Validation result, with the normalized setup when valid
+ */
+export function parseSetup(json: string, now: number = Date.now()): ValidationResult & { setup?: TickerSetup } {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    return fail('Setup file is not valid JSON');
+  }
+
+  if (!isObject(data) || data.format !== SETUP_FILE_FORMAT) {
+    return fail('Not a ticker setup file');
+  }
+  if (typeof data.version !== 'number' || data.version > SETUP_FILE_VERSION) {
+    return fail(`Setup file version ${String(data.version)} is not supported by this version of the app`);
+  }
+
+  return normalizeSetup(data, now);
+}
+
+/**
+ * Serialize price histories as CSV with one row per point, oldest first.
+ * Symbols follow the symbol grammar, so no field needs quoting.
+ * @param getHistory History to export for a stock (defaults to its recent priceHistory)
+ */
+export function serializeHistoryCsv(
+  stocks: StockInfo[],
+  getHistory: (stock: StockInfo) => PricePoint[] = stock => stock.priceHistory
+): string {
+  const rows = stocks.flatMap(stock => {
+    const currency = getStockCurrency(stock);
+    return getHistory(stock).map(point =>
+      [stock.symbol, currency, new Date(point.timestamp).toISOString(), String(point.price)].join(',')
+    );
+  });
+  return [HISTORY_CSV_COLUMNS.join(','), ...rows].join('\n') + '\n';
+}
+
+/**
+ * Parse price histories from CSV with a header row naming the columns
+ * (symbol, timestamp and price, plus an optional currency). Every row must
+ * belong to a stock on the ticker and, when a currency is given, match its
+ * listing currency.
+ * @returns Validation result, with the points by symbol (oldest first) when valid
+ */
+export function parseHistoryCsv(
+  csv: string,
+  stocks: StockInfo[]
+): ValidationResult & { histories?: Record<string, PricePoint[]> } {
+  const lines = csv.split(/\r?\n/).filter(line => line.trim() !== '');
+  if (lines.length < 2) {
+    return fail('CSV file has no price rows');
+  }
+  if (lines.length - 1 > TRANSFER_LIMITS.MAX_CSV_ROWS) {
+    return fail(`CSV file can contain at most ${TRANSFER_LIMITS.MAX_CSV_ROWS.toLocaleString()} rows`);
+  }
+
+  const splitRow = (line: string) => line.split(',').map(field => field.trim().replace(/^"(.*)"$/, '$1'));
+  const header = splitRow(lines[0]).map(column => column.toLowerCase());
+  const column = (name: string) => header.indexOf(name);
+  const missing = ['symbol', 'timestamp', 'price'].filter(name => column(name) === -1);
+  if (missing.length > 0) {
+    return fail(`CSV header is missing ${missing.join(', ')} (expected ${HISTORY_CSV_COLUMNS.join(',')})`);
+  }
+
+  const rows: Record<string, Array<{ timestamp: Date; price: number }>> = {};
+  for (let i = 1; i < lines.length; i++) {
+    const fields = splitRow(lines[i]);
+    const rowError = (message: string) => fail(`Row ${i + 1}: ${message}`);
+
+    const symbol = sanitizeStockSymbol(fields[column('symbol')] ?? '');
+    const stock = stocks.find(s => s.symbol === symbol);
+    if (!stock) {
+      return rowError(`${symbol || 'blank symbol'} is not on the ticker`);
+    }
+
+    const currency = column('currency') === -1 ? '' : fields[column('currency')] ?? '';
+    if (currency && currency.toUpperCase() !== getStockCurrency(stock)) {
+      return rowError(`${symbol} is listed in ${getStockCurrency(stock)}, not ${currency}`);
+    }
+
+    const timestamp = parseTimestamp(fields[column('timestamp')]);
+    if (!timestamp) {
+      return rowError('timestamp is not a valid date');
+    }
+
+    const price = Number(fields[column('price')]);
+    const priceValidation = validateStockPrice(price);
+    if (!priceValidation.isValid) {
+      return rowError(priceValidation.errorMessage || 'invalid price');
+    }
+
+    (rows[symbol] = rows[symbol] ?? []).push({ timestamp, price });
+  }
+
+  const histories: Record<string, PricePoint[]> = {};
+  for (const [symbol, points] of Object.entries(rows)) {
+    const result = parsePricePoints(points);
+    if (!result.isValid || !result.value) {
+      return fail(`${symbol}: ${result.errorMessage}`);
+    }
+    histories[symbol] = result.value;
+  }
+
+  return { isValid: true, histories };
+}
@@ -0,0 +1,198 @@
+/**
+ * Storage Backends
+ *
+ * Async key-value backends for saved state: localStorage for small items,
+ * and IndexedDB for large ones such as long price histories, which would not
+ * fit in localStorage's few megabytes. TieredStorage picks the backend for
+ * each write by payload size, and moves an item to IndexedDB when
+ * localStorage is full.
+ */
+
+import { StorageBackendName } from './types';
+
+export const STORAGE_BACKEND_LIMITS = {
+  // Items longer than this (in characters) are written to IndexedDB when it is available
+  MAX_LOCAL_ITEM_CHARS: 16 * 1024,
+  DB_NAME: 'stock-ticker',
+  DB_VERSION: 1,
+  DB_STORE: 'items',
+} as const;
+
+export interface StorageBackend {
+  readonly name: StorageBackendName;
+  getItem(key: string): Promise<string | null>;
+  /** @throws StorageQuotaError when the backend is full */
+  setItem(key: string, value: string): Promise<void>;
+  removeItem(key: string): Promise<void>;
+  keys(): Promise<string[]>;
+}
+
+export class StorageQuotaError extends Error {
+  constructor(backend: StorageBackendName) {
+    super(`Browser storage is full (${backend}); free up space or keep less price history`);
+    this.name = 'StorageQuotaError';
+  }
+}
+
+/**
+ * Whether an error thrown by localStorage or IndexedDB means storage is full
+ */
+export function isQuotaExceededError(err: unknown): boolean {
+  if (!err || typeof err !== 'object') return false;
+  const { name, code } = err as { name?: string; code?: number };
+  // Firefox used its own name; code 22 is the legacy DOMException code
+  return name === 'QuotaExceededError' || name === 'NS_ERROR_DOM_QUOTA_REACHED' || code === 22;
+}
+
+export class LocalStorageBackend implements StorageBackend {
+  readonly name = 'localStorage' as const;
+
+  async getItem(key: string): Promise<string | null> {
+    return localStorage.getItem(key);
+  }
+
+  async setItem(key: string, value: string): Promise<void> {
+    try {
+      localStorage.setItem(key, value);
+    } catch (err) {
+      throw isQuotaExceededError(err) ? new StorageQuotaError(this.name) : err;
+    }
+  }
+
+  async removeItem(key: string): Promise<void> {
+    localStorage.removeItem(key);
+  }
+
+  async keys(): Promise<string[]> {
+    return Array.from({ length: localStorage.length }, (_, i) => localStorage.key(i) as string);
+  }
+}
+
+export function isIndexedDBAvailable(): boolean {
+  return typeof indexedDB !== 'undefined';
+}
+
+export class IndexedDBBackend implements StorageBackend {
+  readonly name = 'indexedDB' as const;
+  private database: Promise<IDBDatabase> | null = null;
+
+  constructor(private readonly dbName: string = STORAGE_BACKEND_LIMITS.DB_NAME) {}
+
+  async getItem(key: string): Promise<string | null> {
+    const value = await this.run<unknown>('readonly', store => store.get(key));
+    return typeof value === 'string' ? value : null;
+  }
+
+  async setItem(key: string, value: string): Promise<void> {
+    await this.run('readwrite', store => store.put(value, key));
+  }
+
+  async removeItem(key: string): Promise<void> {
+    await this.run('readwrite', store => store.delete(key));
+  }
+
+  async keys(): Promise<string[]> {
+    return (await this.run('readonly', store => store.getAllKeys())).map(String);
+  }
+
+  // Opened on first use, and again after a failed open
+  private open(): Promise<IDBDatabase> {
+    if (!this.database) {
+      this.database = new Promise<IDBDatabase>((resolve, reject) => {
+        const request = indexedDB.open(this.dbName, STORAGE_BACKEND_LIMITS.DB_VERSION);
+        request.onupgradeneeded = () => request.result.createObjectStore(STORAGE_BACKEND_LIMITS.DB_STORE);
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+      this.database.catch(() => {
+        this.database = null;
+      });
+    }
+    return this.database;
+  }
+
+  // Resolves once the transaction has committed, so writes are durable
+  private async run<T>(mode: IDBTransactionMode, operation: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+    const db = await this.open();
+    return new Promise<T>((resolve, reject) => {
+      const transaction = db.transaction(STORAGE_BACKEND_LIMITS.DB_STORE, mode);
+      const request = operation(transaction.objectStore(STORAGE_BACKEND_LIMITS.DB_STORE));
+      transaction.oncomplete = () => resolve(request.result);
+      transaction.onerror = transaction.onabort = () => {
+        const error = transaction.error ?? request.error;
+        reject(isQuotaExceededError(error) ? new StorageQuotaError(this.name) : error);
+      };
+    });
+  }
+}
+
+/**
+ * localStorage for small items and, where available, IndexedDB for large ones.
+ * An item lives in exactly one backend; writing it removes any copy in the other.
+ */
+export class TieredStorage {
+  constructor(
+    private readonly small: StorageBackend,
+    private readonly large: StorageBackend | null = null,
+    private readonly maxSmallItemChars: number = STORAGE_BACKEND_LIMITS.MAX_LOCAL_ITEM_CHARS
+  ) {}
+
+  get backends(): StorageBackendName[] {
+    return this.large ? [this.small.name, this.large.name] : [this.small.name];
+  }
+
+  async getItem(key: string): Promise<string | null> {
+    const value = await this.small.getItem(key);
+    return value !== null || !this.large ? value : this.large.getItem(key);
+  }
+
+  /**
+   * Write to the backend suited to the value's size
+   * @returns Backend the value was written to
+   * @throws StorageQuotaError when no backend has room for it
+   */
+  async setItem(key: string, value: string): Promise<StorageBackendName> {
+    let target = this.large && value.length > this.maxSmallItemChars ? this.large : this.small;
+    try {
+      await target.setItem(key, value);
+    } catch (err) {
+      if (!(err instanceof StorageQuotaError) || !this.large || target === this.large) {
+        throw err;
+      }
+      target = this.large;
+      await target.setItem(key, value);
+    }
+
+    const other = target === this.small ? this.large : this.small;
+    await other?.removeItem(key);
+    return target.name;
+  }
+
+  async removeItem(key: string): Promise<void> {
+    await Promise.all([this.small.removeItem(key), this.large?.removeItem(key)]);
+  }
+
+  async keys(): Promise<string[]> {
+    const [small, large] = await Promise.all([this.small.keys(), this.large?.keys() ?? []]);
+    return Array.from(new Set([...small, ...large]));
+  }
+}
+
+export function createDefaultStorage(): TieredStorage {
+  return new TieredStorage(new LocalStorageBackend(), isIndexedDBAvailable() ? new IndexedDBBackend() : null);
+}
+
+/**
+ * Space used by and available to this origin, where the browser reports it
+ */
+export async function estimateStorageUsage(): Promise<{ usageBytes?: number; quotaBytes?: number }> {
+  try {
+    if (typeof navigator === 'undefined' || !navigator.storage?.estimate) {
+      return {};
+    }
+    const { usage, quota } = await navigator.storage.estimate();
+    return { usageBytes: usage, quotaBytes: quota };
+  } catch {
+    return {};
+  }
+}
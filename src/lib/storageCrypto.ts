@@ -0,0 +1,328 @@
+/**
+ * Storage Encryption
+ *
+ * Authenticated encryption (AES-GCM via WebCrypto) for data the app keeps in
+ * the browser. Each user's keys are derived with HKDF from their session
+ * material and a random secret made for them on this device. The secret is a
+ * non-extractable CryptoKey kept in IndexedDB: scripts can derive keys from
+ * it but not read it, so nothing stored next to the data is enough to
+ * decrypt it. The GCM tag detects any change to stored items.
+ *
+ * A keyring holds the current key, used for new writes, and retired keys
+ * that can still decrypt older items. Rotating derives a fresh key with a
+ * new salt; items are re-encrypted under it as they are rewritten.
+ */
+
+import { isIndexedDBAvailable } from './storageBackends';
+
+export const STORAGE_CRYPTO = {
+  FORMAT: 'aes-gcm-v1',
+  KEY_BITS: 256,
+  IV_BYTES: 12,
+  SECRET_BYTES: 32,
+  SALT_BYTES: 16,
+  // Keys are rotated once they are this old
+  KEY_MAX_AGE_MS: 30 * 24 * 60 * 60 * 1000,
+  // Keyrings are kept in their own database, apart from the items they encrypt
+  DB_NAME: 'stock-ticker-keys',
+  DB_VERSION: 1,
+  DB_STORE: 'keyrings',
+} as const;
+
+export interface EncryptedStorageItem {
+  format: typeof STORAGE_CRYPTO.FORMAT;
+  keyId: string;
+  iv: string;
+  ciphertext: string;
+}
+
+export interface StorageKeyEntry {
+  id: string;
+  key: CryptoKey;
+  createdAt: number;
+}
+
+// One user's keyring, as saved: the secret their keys are derived from and,
+// per key id, the salt it was derived with
+export interface KeyringRecord {
+  secret: CryptoKey;
+  current: string;
+  keys: Record<string, { salt: string; createdAt: number }>;
+}
+
+export interface KeyringStore {
+  get(id: string): Promise<KeyringRecord | null>;
+  set(id: string, record: KeyringRecord): Promise<void>;
+  remove(id: string): Promise<void>;
+}
+
+export class StorageCryptoError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'StorageCryptoError';
+  }
+}
+
+/**
+ * WebCrypto is only available in secure contexts (HTTPS or localhost)
+ */
+export function isWebCryptoAvailable(): boolean {
+  return typeof globalThis.crypto !== 'undefined' && typeof globalThis.crypto.subtle !== 'undefined';
+}
+
+const toBase64 = (bytes: Uint8Array): string => btoa(String.fromCharCode(...bytes));
+const fromBase64 = (text: string) => Uint8Array.from(atob(text), char => char.charCodeAt(0));
+
+const randomBytes = (length: number) => globalThis.crypto.getRandomValues(new Uint8Array(length));
+
+export function isEncryptedStorageItem(value: unknown): value is EncryptedStorageItem {
+  if (!value || typeof value !== 'object') return false;
+  const item = value as EncryptedStorageItem;
+  return item.format === STORAGE_CRYPTO.FORMAT &&
+    typeof item.keyId === 'string' &&
+    typeof item.iv === 'string' &&
+    typeof item.ciphertext === 'string';
+}
+
+/**
+ * SHA-256 of a string, as hex
+ */
+export async function sha256Hex(text: string): Promise<string> {
+  const digest = await globalThis.crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * A random secret to derive a user's keys from. It cannot be exported, so
+ * its bytes never reach script once imported.
+ */
+export function generateKeyringSecret(): Promise<CryptoKey> {
+  return globalThis.crypto.subtle.importKey('raw', randomBytes(STORAGE_CRYPTO.SECRET_BYTES), 'HKDF', false, ['deriveKey']);
+}
+
+/**
+ * Derive a non-extractable AES-GCM key with HKDF-SHA256
+ * @param sessionMaterial Bound into the key, e.g. the signed-in user's id
+ */
+export function deriveStorageKey(secret: CryptoKey, sessionMaterial: string, salt: BufferSource): Promise<CryptoKey> {
+  return globalThis.crypto.subtle.deriveKey(
+    { name: 'HKDF', hash: 'SHA-256', salt, info: new TextEncoder().encode(`stock-ticker-storage:${sessionMaterial}`) },
+    secret,
+    { name: 'AES-GCM', length: STORAGE_CRYPTO.KEY_BITS },
+    false,
+    ['encrypt', 'decrypt']
+  );
+}
+
+export class StorageKeyring {
+  private readonly keys: Map<string, CryptoKey>;
+  readonly currentKeyId: string;
+  readonly currentKeyCreatedAt: number;
+
+  /**
+   * @param current Key used for new writes
+   * @param retired Older keys, only used to decrypt
+   */
+  constructor(current: StorageKeyEntry, retired: StorageKeyEntry[] = []) {
+    this.keys = new Map(retired.map(entry => [entry.id, entry.key]));
+    this.keys.set(current.id, current.key);
+    this.currentKeyId = current.id;
+    this.currentKeyCreatedAt = current.createdAt;
+  }
+
+  has(keyId: string): boolean {
+    return this.keys.has(keyId);
+  }
+
+  /**
+   * Encrypt under the current key
+   * @param context Bound to the ciphertext (e.g. the storage key), so an item
+   *   only decrypts in the slot it was written to
+   */
+  async encrypt(plaintext: string, context: string = ''): Promise<EncryptedStorageItem> {
+    const iv = randomBytes(STORAGE_CRYPTO.IV_BYTES);
+    const ciphertext = await globalThis.crypto.subtle.encrypt(
+      { name: 'AES-GCM', iv, additionalData: new TextEncoder().encode(context) },
+      this.keys.get(this.currentKeyId) as CryptoKey,
+      new TextEncoder().encode(plaintext)
+    );
+    return {
+      format: STORAGE_CRYPTO.FORMAT,
+      keyId: this.currentKeyId,
+      iv: toBase64(iv),
+      ciphertext: toBase64(new Uint8Array(ciphertext)),
+    };
+  }
+
+  /**
+   * Decrypt and verify an item written under any key on the ring
+   * @throws StorageCryptoError for unknown keys and items that fail verification
+   */
+  async decrypt(item: EncryptedStorageItem, context: string = ''): Promise<string> {
+    const key = this.keys.get(item.keyId);
+    if (!key) {
+      throw new StorageCryptoError(`Encrypted with a key that is not available (${item.keyId})`);
+    }
+    try {
+      const plaintext = await globalThis.crypto.subtle.decrypt(
+        { name: 'AES-GCM', iv: fromBase64(item.iv), additionalData: new TextEncoder().encode(context) },
+        key,
+        fromBase64(item.ciphertext)
+      );
+      return new TextDecoder().decode(plaintext);
+    } catch {
+      throw new StorageCryptoError('Data integrity check failed');
+    }
+  }
+}
+
+/**
+ * Keyrings in IndexedDB, which keeps their secrets as they are without
+ * exposing their bytes
+ */
+export class IndexedDBKeyringStore implements KeyringStore {
+  private database: Promise<IDBDatabase> | null = null;
+
+  async get(id: string): Promise<KeyringRecord | null> {
+    return (await this.run<KeyringRecord | undefined>('readonly', store => store.get(id))) ?? null;
+  }
+
+  async set(id: string, record: KeyringRecord): Promise<void> {
+    await this.run('readwrite', store => store.put(record, id));
+  }
+
+  async remove(id: string): Promise<void> {
+    await this.run('readwrite', store => store.delete(id));
+  }
+
+  // Opened on first use, and again after a failed open
+  private open(): Promise<IDBDatabase> {
+    if (!this.database) {
+      this.database = new Promise<IDBDatabase>((resolve, reject) => {
+        const request = indexedDB.open(STORAGE_CRYPTO.DB_NAME, STORAGE_CRYPTO.DB_VERSION);
+        request.onupgradeneeded = () => request.result.createObjectStore(STORAGE_CRYPTO.DB_STORE);
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+      this.database.catch(() => {
+        this.database = null;
+      });
+    }
+    return this.database;
+  }
+
+  private async run<T>(mode: IDBTransactionMode, operation: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+    const db = await this.open();
+    return new Promise<T>((resolve, reject) => {
+      const transaction = db.transaction(STORAGE_CRYPTO.DB_STORE, mode);
+      const request = operation(transaction.objectStore(STORAGE_CRYPTO.DB_STORE));
+      transaction.oncomplete = () => resolve(request.result);
+      transaction.onerror = transaction.onabort = () => reject(transaction.error ?? request.error);
+    });
+  }
+}
+
+/**
+ * Keyrings kept for this page only, where IndexedDB is missing (e.g. in
+ * tests); items saved under them cannot be read after a reload
+ */
+export class MemoryKeyringStore implements KeyringStore {
+  private readonly records = new Map<string, KeyringRecord>();
+
+  async get(id: string): Promise<KeyringRecord | null> {
+    return this.records.get(id) ?? null;
+  }
+
+  async set(id: string, record: KeyringRecord): Promise<void> {
+    this.records.set(id, record);
+  }
+
+  async remove(id: string): Promise<void> {
+    this.records.delete(id);
+  }
+}
+
+let keyringStore: KeyringStore = isIndexedDBAvailable() ? new IndexedDBKeyringStore() : new MemoryKeyringStore();
+
+/**
+ * Keep keyrings elsewhere, e.g. in memory in tests
+ */
+export function setKeyringStore(next: KeyringStore): void {
+  keyringStore = next;
+}
+
+/**
+ * Id of a user's keyring, which also scopes where their items are stored.
+ * User ids are hashed so the key database does not list who used this device.
+ */
+export async function storageKeyringId(userId: string): Promise<string> {
+  return (await sha256Hex(userId)).slice(0, 16);
+}
+
+const newKeyId = () => Array.from(randomBytes(6), byte => byte.toString(16).padStart(2, '0')).join('');
+
+async function buildKeyring(record: KeyringRecord, userId: string): Promise<StorageKeyring> {
+  const entries = await Promise.all(Object.entries(record.keys).map(async ([id, { salt, createdAt }]) => ({
+    id,
+    key: await deriveStorageKey(record.secret, userId, fromBase64(salt)),
+    createdAt,
+  })));
+  const current = entries.find(entry => entry.id === record.current) as StorageKeyEntry;
+  return new StorageKeyring(current, entries.filter(entry => entry !== current));
+}
+
+const isKeyringRecord = (record: KeyringRecord | null): record is KeyringRecord =>
+  !!record && !!record.secret && typeof record.current === 'string' &&
+  !!record.keys && typeof record.keys[record.current]?.salt === 'string';
+
+async function withNewKey(record: KeyringRecord | null, now: number): Promise<KeyringRecord> {
+  const id = newKeyId();
+  return {
+    secret: record?.secret ?? await generateKeyringSecret(),
+    current: id,
+    keys: { ...record?.keys, [id]: { salt: toBase64(randomBytes(STORAGE_CRYPTO.SALT_BYTES)), createdAt: now } },
+  };
+}
+
+/**
+ * Keyring for a user on this device, creating its secret and first key on first use
+ */
+export async function loadStorageKeyring(userId: string, now: number = Date.now()): Promise<StorageKeyring> {
+  const id = await storageKeyringId(userId);
+  let record = await keyringStore.get(id);
+  if (!isKeyringRecord(record)) {
+    record = await withNewKey(null, now);
+    await keyringStore.set(id, record);
+  }
+  return buildKeyring(record, userId);
+}
+
+/**
+ * Derive a fresh key for a user and make it current; older keys stay on the
+ * ring until retired, so existing items still decrypt
+ */
+export async function rotateStorageKeyring(userId: string, now: number = Date.now()): Promise<StorageKeyring> {
+  const id = await storageKeyringId(userId);
+  const record = await keyringStore.get(id);
+  const rotated = await withNewKey(isKeyringRecord(record) ? record : null, now);
+  await keyringStore.set(id, rotated);
+  return buildKeyring(rotated, userId);
+}
+
+/**
+ * Drop every key but the current one, once no item needs them any more
+ */
+export async function retireStorageKeys(userId: string): Promise<void> {
+  const id = await storageKeyringId(userId);
+  const record = await keyringStore.get(id);
+  if (isKeyringRecord(record)) {
+    await keyringStore.set(id, { ...record, keys: { [record.current]: record.keys[record.current] } });
+  }
+}
+
+/**
+ * Whether a user has a keyring on this device
+ */
+export async function hasStorageKeyring(userId: string): Promise<boolean> {
+  return isKeyringRecord(await keyringStore.get(await storageKeyringId(userId)));
+}
@@ -0,0 +1,138 @@
+/**
+ * Storage Schema Migrations
+ *
+ * Saved payloads (ticker state, portfolio) record the schema version they
+ * were written with. Whenever what the app saves under a key changes, a
+ * migration is registered that upgrades a payload from that version to the
+ * next; loading runs the missing steps in order, so state saved by any older
+ * release still loads after an upgrade.
+ */
+
+import { StockInfo, getInstrumentType, getStockCurrency, inferExchange } from './types';
+
+export interface StorageMigration {
+  /** Version the migration upgrades from; it produces fromVersion + 1 */
+  fromVersion: number;
+  description: string;
+  /** Payloads are as read back from storage, so a migration checks their shape */
+  migrate: (data: unknown) => unknown;
+}
+
+export interface StorageMigrationReport {
+  key: string;
+  fromVersion: number;
+  /** Version the payload reached; below targetVersion when a step failed */
+  toVersion: number;
+  targetVersion: number;
+  applied: string[];
+  failed?: {
+    fromVersion: number;
+    description: string;
+    error: string;
+  };
+  /** Storage key holding the payload as it was before migrating */
+  backupKey?: string;
+}
+
+/** Payloads saved before versioning (and keys without migrations) are version 1 */
+export const INITIAL_STORAGE_VERSION = 1;
+
+const registry = new Map<string, Map<number, StorageMigration>>();
+
+/**
+ * Register the upgrade of a storage key's payload from one version to the next
+ */
+export function registerStorageMigration(key: string, migration: StorageMigration): void {
+  if (!Number.isInteger(migration.fromVersion) || migration.fromVersion < INITIAL_STORAGE_VERSION) {
+    throw new Error(`Invalid migration version for ${key}: ${migration.fromVersion}`);
+  }
+  const migrations = registry.get(key) ?? new Map<number, StorageMigration>();
+  if (migrations.has(migration.fromVersion)) {
+    throw new Error(`A migration from version ${migration.fromVersion} is already registered for ${key}`);
+  }
+  migrations.set(migration.fromVersion, migration);
+  registry.set(key, migrations);
+}
+
+/**
+ * Version payloads for a storage key are saved with: one past its newest migration
+ */
+export function getStorageVersion(key: string): number {
+  const migrations = registry.get(key);
+  if (!migrations || migrations.size === 0) {
+    return INITIAL_STORAGE_VERSION;
+  }
+  return Math.max(...migrations.keys()) + 1;
+}
+
+/**
+ * Upgrade a saved payload to the current version, one step at a time.
+ * Stops at the first step that is missing or throws; data is only returned
+ * when every step applied.
+ */
+export function migrateStoredData(key: string, data: unknown, version: number): { data?: unknown; report: StorageMigrationReport } {
+  const targetVersion = getStorageVersion(key);
+  const migrations = registry.get(key);
+  const report: StorageMigrationReport = { key, fromVersion: version, toVersion: version, targetVersion, applied: [] };
+
+  let current = data;
+  while (report.toVersion < targetVersion) {
+    const migration = migrations?.get(report.toVersion);
+    if (!migration) {
+      report.failed = { fromVersion: report.toVersion, description: `Upgrade to version ${report.toVersion + 1}`, error: 'No migration registered' };
+      return { report };
+    }
+    try {
+      current = migration.migrate(current);
+    } catch (err) {
+      report.failed = {
+        fromVersion: migration.fromVersion,
+        description: migration.description,
+        error: err instanceof Error ? err.message : String(err),
+      };
+      return { report };
+    }
+    report.applied.push(migration.description);
+    report.toVersion++;
+  }
+
+  return { data: current, report };
+}
+
+/**
+ * One line summary of a failed migration, for error messages
+ */
+export function describeMigrationFailure(report: StorageMigrationReport): string {
+  const step = report.failed
+    ? `${report.failed.description} (version ${report.failed.fromVersion} to ${report.failed.fromVersion + 1}): ${report.failed.error}`
+    : 'unknown error';
+  return `Saved ${report.key} could not be upgraded from version ${report.fromVersion} to ${report.targetVersion}: ${step}`;
+}
+
+// Ticker state, version 1 to 2: stocks saved before listing currencies and
+// instrument identities get the defaults the app assumed for them
+registerStorageMigration('tickerState', {
+  fromVersion: 1,
+  description: 'Add listing currency, instrument type and exchange to saved stocks',
+  migrate: (data) => {
+    if (!data || typeof data !== 'object') {
+      throw new Error('Saved ticker state is not an object');
+    }
+    const state = data as { stocks?: unknown };
+    if (!Array.isArray(state.stocks)) {
+      return data;
+    }
+    return {
+      ...state,
+      stocks: state.stocks.map((stock: StockInfo) => {
+        const instrumentType = getInstrumentType(stock);
+        return {
+          ...stock,
+          currency: getStockCurrency(stock),
+          instrumentType,
+          exchange: stock.exchange ?? inferExchange(stock.symbol, instrumentType),
+        };
+      }),
+    };
+  },
+});
@@ -0,0 +1,356 @@
+/**
+ * Merging Local and Server State
+ *
+ * Merges stocks and controls from the API server into local state field by
+ * field, instead of letting one side replace the other. For each synced field
+ * the ticker keeps the server's version of it when last seen; local edits the
+ * server has not confirmed yet are queued as SyncEdits. When the server's
+ * state comes in, a field
+ *
+ * - with no unsent local edit takes the server's value
+ * - with unsent local edits, unchanged on the server, keeps the local value
+ * - changed on both sides is a conflict: the edits were made against a
+ *   version the server has since moved past, so the server's value is kept,
+ *   the edits are dropped and the conflict is reported
+ *
+ * The server sends the version of each field's last change; for servers that
+ * keep none, a field counts as changed there when its value differs from the
+ * one last seen. Conflicts are settled on versions only: the browser's and
+ * the server's clocks are never compared. Stocks follow the server's list,
+ * except those this tab is still adding or removing. Merging is pure:
+ * TickerProvider stores the result.
+ */
+
+import {
+  FieldVersion,
+  StockVersions,
+  SyncConflict,
+  SyncEdit,
+  SyncState,
+  SyncValue,
+  SyncedControlField,
+  SyncedStockField,
+} from './types';
+
+export const SYNC_LIMITS = {
+  MAX_CONFLICTS: 20,
+};
+
+export const SYNCED_STOCK_FIELDS: readonly SyncedStockField[] = ['name', 'currentPrice', 'currency', 'instrumentType', 'exchange'];
+export const SYNCED_CONTROL_FIELDS: readonly SyncedControlField[] = ['isPaused', 'updateIntervalMs', 'selectedCurrency'];
+
+const FIELD_LABELS: Record<SyncConflict['field'], string> = {
+  name: 'name',
+  currentPrice: 'price',
+  currency: 'currency',
+  instrumentType: 'instrument type',
+  exchange: 'exchange',
+  isPaused: 'pause state',
+  updateIntervalMs: 'update interval',
+  selectedCurrency: 'display currency',
+  stock: 'stock',
+};
+
+/**
+ * Fields as the server has them
+ */
+export interface ServerFields<F extends string> {
+  // Fields the server did not send are left as they are
+  values: Partial<Record<F, SyncValue>>;
+  // Version of each field's last change; missing on servers that keep none
+  versions?: Record<string, number>;
+}
+
+type WithoutMeta<T> = T extends unknown ? Omit<T, 'id' | 'createdAt'> : never;
+
+export type NewSyncEdit = WithoutMeta<SyncEdit>;
+
+export type ConflictInput = Omit<SyncConflict, 'id' | 'message' | 'detectedAt'> & { message?: string };
+
+export interface FieldMerge<F extends string> {
+  // Merged value of each field the server sent
+  values: Partial<Record<F, SyncValue>>;
+  versions: Partial<Record<F, FieldVersion>>;
+  conflicts: ConflictInput[];
+  // Fields whose unsent local edits lost to the server; those edits should be dropped
+  overridden: F[];
+}
+
+export interface StockListMerge {
+  // Local stocks the server no longer has
+  removed: string[];
+  // Server stocks to leave out, as this tab is removing them
+  removing: string[];
+  conflicts: ConflictInput[];
+  // Stocks whose unsent edits should be dropped
+  discarded: string[];
+}
+
+/**
+ * What a merge settled: conflicts to report, and unsent edits that lost to the server
+ */
+export interface MergeOutcome {
+  conflicts: ConflictInput[];
+  // Stocks whose unsent edits are all dropped
+  discarded?: string[];
+  // Fields of a stock (undefined for the controls) whose unsent edits are dropped
+  overridden?: { symbol?: string; fields: readonly string[] }[];
+}
+
+/**
+ * A local edit to queue for the server
+ */
+export function createSyncEdit(input: NewSyncEdit, id: string, now: number): SyncEdit {
+  return { ...input, id, createdAt: now } as SyncEdit;
+}
+
+/**
+ * The stock (undefined for the controls) and fields an edit changes
+ */
+function editTargets(edit: SyncEdit): { symbol?: string; fields: readonly string[] } {
+  switch (edit.type) {
+    case 'setPrice':
+      return { symbol: edit.symbol, fields: ['currentPrice'] };
+    case 'addStock':
+      return { symbol: edit.stock.symbol, fields: SYNCED_STOCK_FIELDS };
+    case 'removeStock':
+      return { symbol: edit.symbol, fields: [] };
+    case 'updateControls':
+      return { fields: Object.keys(edit.updates) };
+  }
+}
+
+/**
+ * Whether an edit changes the given stock, or the controls when symbol is undefined
+ */
+export function isEditFor(edit: SyncEdit, symbol: string | undefined): boolean {
+  return editTargets(edit).symbol === symbol;
+}
+
+/**
+ * Time of the latest unsent edit to each field of a stock, or of the controls
+ * when symbol is undefined
+ */
+export function localEditTimes<F extends string>(edits: SyncEdit[], symbol: string | undefined): Partial<Record<F, number>> {
+  const times: Partial<Record<F, number>> = {};
+  edits.forEach(edit => {
+    const targets = editTargets(edit);
+    if (targets.symbol !== symbol) return;
+    targets.fields.forEach(field => {
+      times[field as F] = Math.max(times[field as F] ?? 0, edit.createdAt);
+    });
+  });
+  return times;
+}
+
+/**
+ * The latest unsent add or remove of each stock
+ */
+function pendingPresence(edits: SyncEdit[]): Map<string, Extract<SyncEdit, { type: 'addStock' | 'removeStock' }>> {
+  const presence = new Map<string, Extract<SyncEdit, { type: 'addStock' | 'removeStock' }>>();
+  edits.forEach(edit => {
+    if (edit.type === 'addStock') presence.set(edit.stock.symbol, edit);
+    if (edit.type === 'removeStock') presence.set(edit.symbol, edit);
+  });
+  return presence;
+}
+
+/**
+ * Add an edit to the queue. A price or controls edit right after another of
+ * the same kind replaces it, so a dragged slider sends its final value only.
+ * Removing a stock makes its other queued edits moot.
+ */
+export function queueEdit(edits: SyncEdit[], edit: SyncEdit): SyncEdit[] {
+  const last = edits[edits.length - 1];
+  if (last?.type === 'setPrice' && edit.type === 'setPrice' && last.symbol === edit.symbol) {
+    return [...edits.slice(0, -1), edit];
+  }
+  if (last?.type === 'updateControls' && edit.type === 'updateControls') {
+    return [...edits.slice(0, -1), { ...edit, updates: { ...last.updates, ...edit.updates } }];
+  }
+  if (edit.type === 'removeStock') {
+    return [...edits.filter(queued => !isEditFor(queued, edit.symbol)), edit];
+  }
+  return [...edits, edit];
+}
+
+/**
+ * Record the server's fields as seen, without changing local values, e.g.
+ * after the server confirmed an edit
+ */
+export function recordServerFields<F extends string>(
+  versions: Partial<Record<F, FieldVersion>>,
+  server: ServerFields<F>
+): Partial<Record<F, FieldVersion>> {
+  const recorded = { ...versions };
+  (Object.keys(server.values) as F[]).forEach(field => {
+    const serverValue = server.values[field];
+    if (serverValue === undefined) return;
+    recorded[field] = { server: server.versions?.[field] ?? versions[field]?.server ?? 0, serverValue };
+  });
+  return recorded;
+}
+
+/**
+ * Merge the server's fields into local ones. `editTimes` are the times of the
+ * unsent local edits to each field (see localEditTimes); only which fields
+ * have edits matters here. `versions` are the server's fields as last seen,
+ * which unsent edits were made against.
+ */
+export function mergeFields<F extends SyncedStockField | SyncedControlField>(
+  fields: readonly F[],
+  local: Partial<Record<F, SyncValue>>,
+  versions: Partial<Record<F, FieldVersion>>,
+  editTimes: Partial<Record<F, number>>,
+  server: ServerFields<F>,
+  symbol?: string
+): FieldMerge<F> {
+  const merged: FieldMerge<F> = { values: {}, versions: { ...versions }, conflicts: [], overridden: [] };
+
+  fields.forEach(field => {
+    const serverValue = server.values[field];
+    if (serverValue === undefined) return;
+    const serverVersion = server.versions?.[field];
+    const seen = versions[field];
+    const editedAt = editTimes[field];
+    merged.versions[field] = { server: serverVersion ?? seen?.server ?? 0, serverValue };
+
+    if (editedAt === undefined) {
+      merged.values[field] = serverValue;
+      return;
+    }
+
+    const localValue = local[field] ?? null;
+    const changedOnServer = seen !== undefined && (serverVersion !== undefined
+      ? serverVersion > seen.server
+      : serverValue !== seen.serverValue);
+    // Edits made before the server's value was ever seen are sent as they are
+    if (!changedOnServer || serverValue === localValue) {
+      merged.values[field] = localValue;
+      return;
+    }
+
+    // Changed on both sides: the server moved past the version the edits were
+    // made against, so sending them would overwrite a change they never saw
+    merged.conflicts.push({ symbol, field, localValue, serverValue, winner: 'server' });
+    merged.values[field] = serverValue;
+    merged.overridden.push(field);
+  });
+
+  return merged;
+}
+
+/**
+ * Merge the server's stock list into the local one. A stock the server no
+ * longer has is removed here unless this tab is still adding it; a removal on
+ * the server wins over unsent edits to the stock. A stock this tab is still
+ * removing stays removed, unless the server added it again since this tab
+ * last saw it (its `created` version moved on).
+ */
+export function mergeStockList(
+  localSymbols: string[],
+  serverStocks: { symbol: string; created?: number }[],
+  stockVersions: Record<string, StockVersions>,
+  edits: SyncEdit[]
+): StockListMerge {
+  const merged: StockListMerge = { removed: [], removing: [], conflicts: [], discarded: [] };
+  const presence = pendingPresence(edits);
+
+  serverStocks.forEach(({ symbol, created }) => {
+    if (presence.get(symbol)?.type !== 'removeStock') return;
+    const seenCreated = stockVersions[symbol]?.created;
+    if (created === undefined || seenCreated === undefined || created <= seenCreated) {
+      merged.removing.push(symbol);
+      return;
+    }
+    // Removing it would remove a stock this tab never saw
+    merged.conflicts.push({ symbol, field: 'stock', localValue: 'removed', serverValue: 'listed', winner: 'server' });
+    merged.discarded.push(symbol);
+  });
+
+  const serverSymbols = new Set(serverStocks.map(stock => stock.symbol));
+  localSymbols.forEach(symbol => {
+    if (serverSymbols.has(symbol) || presence.get(symbol)?.type === 'addStock') return;
+    merged.removed.push(symbol);
+    if (edits.some(edit => isEditFor(edit, symbol))) {
+      merged.conflicts.push({ symbol, field: 'stock', localValue: 'edited', serverValue: 'removed', winner: 'server' });
+      merged.discarded.push(symbol);
+    }
+  });
+
+  return merged;
+}
+
+/**
+ * Sync state with a merge's outcome applied
+ */
+export function settleSync(sync: SyncState, outcome: MergeOutcome, now: number): SyncState {
+  const discarded = outcome.discarded ?? [];
+  const overridden = outcome.overridden ?? [];
+  const pendingEdits = discarded.length === 0 && overridden.length === 0 ? sync.pendingEdits : sync.pendingEdits.flatMap((edit): SyncEdit[] => {
+    const targets = editTargets(edit);
+    if (targets.symbol !== undefined && discarded.includes(targets.symbol)) return [];
+    const lost = overridden.filter(entry => entry.symbol === targets.symbol).flatMap(entry => entry.fields);
+    if (edit.type === 'updateControls') {
+      const updates = Object.fromEntries(Object.entries(edit.updates).filter(([field]) => !lost.includes(field)));
+      return Object.keys(updates).length > 0 ? [{ ...edit, updates }] : [];
+    }
+    return edit.type === 'setPrice' && lost.includes('currentPrice') ? [] : [edit];
+  });
+  return { ...sync, pendingEdits, conflicts: addConflicts(sync.conflicts, outcome.conflicts, now) };
+}
+
+/**
+ * Describe an edit the server refused, for the user
+ */
+export function describeRefusedEdit(edit: SyncEdit, reason: string): string {
+  switch (edit.type) {
+    case 'setPrice':
+      return `The server refused the new ${edit.symbol} price (${edit.price}): ${reason}`;
+    case 'addStock':
+      return `The server refused to add ${edit.stock.symbol}: ${reason}`;
+    case 'removeStock':
+      return `The server refused to remove ${edit.symbol}: ${reason}`;
+    case 'updateControls': {
+      const fields = Object.keys(edit.updates) as SyncedControlField[];
+      return `The server refused the ${fields.map(field => FIELD_LABELS[field]).join(' and ')} change: ${reason}`;
+    }
+  }
+}
+
+const formatSyncValue = (value: SyncValue): string =>
+  value === null ? 'none' : typeof value === 'boolean' ? (value ? 'on' : 'off') : String(value);
+
+/**
+ * Describe a conflict for the user
+ */
+export function describeConflict(conflict: ConflictInput): string {
+  if (conflict.message) return conflict.message;
+  const subject = conflict.symbol ?? 'Controls';
+  if (conflict.field === 'stock') {
+    if (conflict.serverValue === 'removed') {
+      return `${subject} was removed on the server; your unsent changes to it were dropped`;
+    }
+    return `${subject} was added again on the server since you removed it; it was kept`;
+  }
+  const kept = conflict.winner === 'local' ? conflict.localValue : conflict.serverValue;
+  const dropped = conflict.winner === 'local' ? conflict.serverValue : conflict.localValue;
+  return `${subject} ${FIELD_LABELS[conflict.field]} changed here and on the server: kept ${conflict.winner === 'local' ? 'yours' : "the server's"} (${formatSyncValue(kept)} over ${formatSyncValue(dropped)})`;
+}
+
+/**
+ * Add newly found conflicts to the reported ones, newest first
+ */
+export function addConflicts(conflicts: SyncConflict[], found: ConflictInput[], now: number): SyncConflict[] {
+  if (found.length === 0) return conflicts;
+  const added = found.map((conflict, index): SyncConflict => {
+    const { message: _message, ...rest } = conflict;
+    return {
+      ...rest,
+      id: `conflict-${now.toString(36)}-${index}-${conflict.symbol ?? 'controls'}-${conflict.field}`,
+      message: describeConflict(conflict),
+      detectedAt: now,
+    };
+  });
+  return [...added.reverse(), ...conflicts].slice(0, SYNC_LIMITS.MAX_CONFLICTS);
+}
@@ -0,0 +1,127 @@
+/**
+ * Sync Outbox
+ *
+ * Keeps the edits waiting for the API server, and those it refused, between
+ * visits. A hosted server on a sleeping tier can take a minute to come up,
+ * so edits made meanwhile are saved and sent once it answers a health check.
+ * Each edit is sent with its id as the idempotency key: an edit resent after
+ * its response was lost is not applied twice. Refused edits wait here until
+ * they are retried or discarded.
+ */
+
+import { FailedSyncEdit, SyncEdit, SyncState } from './types';
+import { queueEdit } from './syncMerge';
+import { SecureStorageSaveResult, loadFromSecureStorage, saveToSecureStorage } from './secureStorage';
+
+export const SYNC_OUTBOX = {
+  STORAGE_KEY: 'syncOutbox',
+  MAX_FAILED_EDITS: 20,
+} as const;
+
+export interface SavedOutbox {
+  pendingEdits: SyncEdit[];
+  failedEdits: FailedSyncEdit[];
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isSymbol = (value: unknown): value is string => typeof value === 'string' && value.length > 0;
+
+const isPositive = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value) && value > 0;
+
+/**
+ * Whether a value read back from storage is a well-formed edit
+ */
+export function isSyncEdit(value: unknown): value is SyncEdit {
+  if (!isRecord(value) || typeof value.id !== 'string' || !Number.isFinite(value.createdAt)) {
+    return false;
+  }
+  switch (value.type) {
+    case 'setPrice':
+      return isSymbol(value.symbol) && isPositive(value.price);
+    case 'addStock':
+      return isRecord(value.stock) && isSymbol(value.stock.symbol) && typeof value.stock.name === 'string' &&
+        isPositive(value.stock.initialPrice) && typeof value.stock.currency === 'string' && typeof value.stock.instrumentType === 'string';
+    case 'removeStock':
+      return isSymbol(value.symbol);
+    case 'updateControls':
+      return isRecord(value.updates) && Object.keys(value.updates).length > 0;
+    default:
+      return false;
+  }
+}
+
+const isFailedSyncEdit = (value: unknown): value is FailedSyncEdit =>
+  isRecord(value) && isSyncEdit(value.edit) && typeof value.message === 'string' && Number.isFinite(value.failedAt);
+
+/**
+ * The outbox as saved, leaving out entries that cannot be read
+ */
+export function parseSavedOutbox(data: unknown): SavedOutbox {
+  if (!isRecord(data)) {
+    return { pendingEdits: [], failedEdits: [] };
+  }
+  return {
+    pendingEdits: Array.isArray(data.pendingEdits) ? data.pendingEdits.filter(isSyncEdit) : [],
+    failedEdits: Array.isArray(data.failedEdits) ? data.failedEdits.filter(isFailedSyncEdit) : [],
+  };
+}
+
+/**
+ * Sync state with the saved outbox put back: saved edits go before the ones
+ * made since, which were queued while it loaded
+ */
+export function restoreOutbox(sync: SyncState, saved: SavedOutbox): SyncState {
+  const pendingIds = new Set(sync.pendingEdits.map(edit => edit.id));
+  const failedIds = new Set(sync.failedEdits.map(failed => failed.edit.id));
+  const pendingEdits = [...saved.pendingEdits.filter(edit => !pendingIds.has(edit.id)), ...sync.pendingEdits]
+    .reduce<SyncEdit[]>(queueEdit, []);
+  const failedEdits = [...sync.failedEdits, ...saved.failedEdits.filter(failed => !failedIds.has(failed.edit.id))]
+    .slice(0, SYNC_OUTBOX.MAX_FAILED_EDITS);
+  return { ...sync, pendingEdits, failedEdits };
+}
+
+/**
+ * Move an edit the server refused from the queue to the failed edits
+ */
+export function failSyncEdit(sync: SyncState, edit: SyncEdit, message: string, now: number): SyncState {
+  return {
+    ...sync,
+    pendingEdits: sync.pendingEdits.filter(queued => queued.id !== edit.id),
+    failedEdits: [{ edit, message, failedAt: now }, ...sync.failedEdits.filter(failed => failed.edit.id !== edit.id)]
+      .slice(0, SYNC_OUTBOX.MAX_FAILED_EDITS),
+  };
+}
+
+/**
+ * Queue a failed edit again, as made now, against the server fields seen now
+ * @returns null if there is no failed edit with this id
+ */
+export function retryFailedSyncEdit(sync: SyncState, id: string, now: number): SyncState | null {
+  const failed = sync.failedEdits.find(entry => entry.edit.id === id);
+  if (!failed) {
+    return null;
+  }
+  return {
+    ...sync,
+    pendingEdits: queueEdit(sync.pendingEdits, { ...failed.edit, createdAt: now }),
+    failedEdits: sync.failedEdits.filter(entry => entry !== failed),
+  };
+}
+
+export function discardFailedSyncEdit(sync: SyncState, id: string): SyncState {
+  return { ...sync, failedEdits: sync.failedEdits.filter(failed => failed.edit.id !== id) };
+}
+
+export function saveOutbox(outbox: SavedOutbox): Promise<SecureStorageSaveResult> {
+  return saveToSecureStorage(SYNC_OUTBOX.STORAGE_KEY, outbox);
+}
+
+/**
+ * Load the saved outbox; empty when nothing was saved or it cannot be read
+ */
+export async function loadOutbox(): Promise<SavedOutbox> {
+  const { result, data } = await loadFromSecureStorage<unknown>(SYNC_OUTBOX.STORAGE_KEY);
+  return parseSavedOutbox(result.isValid ? data : null);
+}
@@ -0,0 +1,314 @@
+/**
+ * Cross-Tab Synchronization
+ *
+ * Keeps ticker tabs of the same browser in step over BroadcastChannel, e.g.
+ * the ticker on the projector and the control panel on the laptop. One tab
+ * is elected leader: it runs the simulation and broadcasts the shared state
+ * after every change. Followers render that state, and send the controls
+ * used in them to the leader to apply.
+ *
+ * Every tab sends a heartbeat. When the leader's heartbeats stop, or it
+ * resigns as its tab closes, the followers claim leadership; the claim from
+ * the lowest tab id wins, and a tab that hears a leader steps back.
+ */
+
+import { TabRole, TickerState, ValidationResult } from './types';
+
+export const TAB_SYNC = {
+  CHANNEL_NAME: 'stock-ticker-sync',
+  HEARTBEAT_MS: 1000,
+  // A leader not heard from for this long is taken to be gone
+  LEADER_TIMEOUT_MS: 3000,
+  // How long a new tab listens for a leader before claiming leadership
+  STARTUP_WAIT_MS: 500,
+  // How long a claim waits for objections from a leader or a lower tab id
+  CLAIM_WINDOW_MS: 300,
+} as const;
+
+/**
+ * State every tab shows; the rest (rate limiters, memory and storage stats,
+ * tab roles) is per tab
+ */
+export const SHARED_STATE_KEYS = [
+  'stocks',
+  'updateIntervalMs',
+  'isPaused',
+  'selectedStock',
+  'selectedCurrency',
+  'simulationSeed',
+  'scenario',
+  'replay',
+  'historyRetention',
+  'alerts',
+  'alertEvents',
+  'watchlists',
+  'activeWatchlistId',
+  'fxRates',
+  'formatPreferences',
+  'sync',
+  'commandLog',
+] as const satisfies readonly (keyof TickerState)[];
+
+export type SharedTickerState = Pick<TickerState, typeof SHARED_STATE_KEYS[number]>;
+
+export type TabSyncMessage =
+  | { type: 'heartbeat'; tabId: string; leader: boolean }
+  | { type: 'claim'; tabId: string }
+  | { type: 'resign'; tabId: string }
+  | { type: 'state'; tabId: string; state: SharedTickerState }
+  | { type: 'command'; tabId: string; name: string; args: unknown[] };
+
+/**
+ * The part of BroadcastChannel the coordinator uses
+ */
+export interface SyncChannel {
+  postMessage(message: TabSyncMessage): void;
+  onmessage: ((event: MessageEvent<TabSyncMessage>) => void) | null;
+  close(): void;
+}
+
+export interface TabSyncHandlers {
+  onRoleChange: (role: TabRole, tabCount: number) => void;
+  // Followers only: the leader's state
+  onState: (state: SharedTickerState) => void;
+  // Leader only: a control used in a follower tab
+  onCommand: (name: string, args: unknown[]) => void;
+}
+
+export function pickSharedState(state: TickerState): SharedTickerState {
+  return Object.fromEntries(SHARED_STATE_KEYS.map(key => [key, state[key]])) as SharedTickerState;
+}
+
+const createTabId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+export class TabCoordinator {
+  readonly tabId: string;
+  private currentRole: TabRole = 'follower';
+  private leaderId: string | null = null;
+  private leaderSeenAt = 0;
+  private claiming = false;
+  // Last heartbeat time per other tab
+  private peers = new Map<string, number>();
+  private timers: ReturnType<typeof setTimeout>[] = [];
+  private heartbeatId: ReturnType<typeof setInterval> | null = null;
+  private stopped = false;
+
+  constructor(
+    private readonly channel: SyncChannel,
+    private readonly handlers: TabSyncHandlers,
+    tabId: string = createTabId()
+  ) {
+    this.tabId = tabId;
+  }
+
+  get role(): TabRole {
+    return this.currentRole;
+  }
+
+  get tabCount(): number {
+    return this.peers.size + 1;
+  }
+
+  /**
+   * Join the other tabs: announce this tab, then claim leadership unless a leader answers
+   */
+  start(): void {
+    this.channel.onmessage = event => this.handleMessage(event.data);
+    this.heartbeatId = setInterval(() => this.tick(), TAB_SYNC.HEARTBEAT_MS);
+    this.sendHeartbeat();
+    this.later(TAB_SYNC.STARTUP_WAIT_MS, () => {
+      if (!this.leaderId) this.claim();
+    });
+  }
+
+  /**
+   * Leave, handing leadership over at once rather than after the timeout
+   */
+  stop(): void {
+    if (this.stopped) return;
+    this.stopped = true;
+    if (this.currentRole === 'leader') {
+      this.post({ type: 'resign', tabId: this.tabId });
+    }
+    if (this.heartbeatId) clearInterval(this.heartbeatId);
+    this.timers.forEach(clearTimeout);
+    this.channel.onmessage = null;
+    this.channel.close();
+  }
+
+  /**
+   * Leader only: send the shared state to the followers
+   */
+  broadcastState(state: SharedTickerState): void {
+    if (this.currentRole === 'leader') {
+      this.post({ type: 'state', tabId: this.tabId, state });
+    }
+  }
+
+  /**
+   * Follower only: ask the leader to apply a control used in this tab
+   */
+  sendCommand(name: string, args: unknown[]): void {
+    if (this.currentRole === 'follower') {
+      this.post({ type: 'command', tabId: this.tabId, name, args });
+    }
+  }
+
+  private handleMessage(message: TabSyncMessage): void {
+    if (this.stopped || !message || message.tabId === this.tabId) return;
+
+    const now = Date.now();
+    switch (message.type) {
+      case 'heartbeat': {
+        const isNewPeer = !this.peers.has(message.tabId);
+        this.peers.set(message.tabId, now);
+        if (message.leader) {
+          this.hearLeader(message.tabId, now);
+        } else if (isNewPeer) {
+          // Let a new tab find the leader without waiting for the next heartbeat
+          if (this.currentRole === 'leader') this.sendHeartbeat();
+          this.notifyRole();
+        }
+        break;
+      }
+      case 'claim':
+        if (this.currentRole === 'leader') {
+          this.sendHeartbeat();
+        } else if (this.claiming && message.tabId < this.tabId) {
+          this.claiming = false;
+        }
+        break;
+      case 'resign':
+        this.peers.delete(message.tabId);
+        if (message.tabId === this.leaderId) {
+          this.leaderId = null;
+          this.claim();
+        }
+        break;
+      case 'state':
+        if (this.currentRole === 'follower' && message.tabId === this.leaderId) {
+          this.handlers.onState(message.state);
+        }
+        break;
+      case 'command':
+        if (this.currentRole === 'leader') {
+          this.handlers.onCommand(message.name, message.args);
+        }
+        break;
+    }
+  }
+
+  private hearLeader(tabId: string, now: number): void {
+    // Two leaders after a split: the lower tab id keeps the lead
+    if (this.currentRole === 'leader') {
+      if (tabId < this.tabId) {
+        this.setRole('follower');
+      } else {
+        this.sendHeartbeat();
+        return;
+      }
+    }
+    this.claiming = false;
+    this.leaderId = tabId;
+    this.leaderSeenAt = now;
+    this.notifyRole();
+  }
+
+  private claim(): void {
+    if (this.stopped || this.claiming || this.currentRole === 'leader') return;
+    this.claiming = true;
+    this.post({ type: 'claim', tabId: this.tabId });
+    this.later(TAB_SYNC.CLAIM_WINDOW_MS, () => {
+      if (!this.claiming) return;
+      this.claiming = false;
+      this.leaderId = this.tabId;
+      this.setRole('leader');
+      this.sendHeartbeat();
+    });
+  }
+
+  // Runs every heartbeat: announce this tab, forget silent tabs, replace a silent leader
+  private tick(): void {
+    const now = Date.now();
+    this.sendHeartbeat();
+
+    let changed = false;
+    this.peers.forEach((seenAt, tabId) => {
+      if (now - seenAt > TAB_SYNC.LEADER_TIMEOUT_MS) {
+        this.peers.delete(tabId);
+        changed = true;
+      }
+    });
+
+    if (this.currentRole === 'follower' && this.leaderId && now - this.leaderSeenAt > TAB_SYNC.LEADER_TIMEOUT_MS) {
+      this.leaderId = null;
+      this.claim();
+    } else if (changed) {
+      this.notifyRole();
+    }
+  }
+
+  private setRole(role: TabRole): void {
+    this.currentRole = role;
+    this.notifyRole();
+  }
+
+  private notifyRole(): void {
+    this.handlers.onRoleChange(this.currentRole, this.tabCount);
+  }
+
+  private sendHeartbeat(): void {
+    this.post({ type: 'heartbeat', tabId: this.tabId, leader: this.currentRole === 'leader' });
+  }
+
+  private post(message: TabSyncMessage): void {
+    try {
+      this.channel.postMessage(message);
+    } catch (err) {
+      // e.g. a control argument that cannot be cloned; the tabs stay as they are
+      console.warn('Failed to send tab sync message:', err);
+    }
+  }
+
+  private later(delayMs: number, callback: () => void): void {
+    this.timers.push(setTimeout(callback, delayMs));
+  }
+}
+
+/**
+ * Coordinator for this tab, or null where BroadcastChannel is not supported
+ * (the tab then runs on its own)
+ */
+export function createTabCoordinator(handlers: TabSyncHandlers): TabCoordinator | null {
+  if (typeof BroadcastChannel === 'undefined') {
+    return null;
+  }
+  return new TabCoordinator(new BroadcastChannel(TAB_SYNC.CHANNEL_NAME) as SyncChannel, handlers);
+}
+
+// Any control; never[] parameters accept functions whatever they take
+type Command = (...args: never[]) => unknown;
+
+const isRejected = (result: unknown): boolean =>
+  !!result && typeof result === 'object' && (result as ValidationResult).isValid === false;
+
+/**
+ * Wrap controls so that, in a follower tab, each one that succeeds locally is
+ * also sent to the leader, whose state replaces the local result. The wrappers
+ * call the latest commands, so they can be created once.
+ */
+export function relayCommands<T extends Record<string, Command>>(
+  getCommands: () => T,
+  getCoordinator: () => TabCoordinator | null
+): T {
+  const names = Object.keys(getCommands()) as (keyof T & string)[];
+  return Object.fromEntries(names.map(name => [name, (...args: unknown[]) => {
+    // The wrapper has the command's type, so the arguments are the ones the command takes
+    const result = getCommands()[name](...(args as never[]));
+    const coordinator = getCoordinator();
+    if (coordinator && coordinator.role === 'follower' && !isRejected(result)) {
+      coordinator.sendCommand(name, args);
+    }
+    return result;
+  }])) as unknown as T;
+}
@@ -1,3 +1,5 @@
+import type { RandomSource } from '../utils/random';
+
 // Maximum number of points to store in price history
 export const MAX_HISTORY_POINTS = 30;
 
@@ -9,10 +11,33 @@ export interface PricePoint {
   price: number;
 }
 
+/**
+ * OHLC candle aggregated from price points
+ */
+export interface Candle {
+  timestamp: Date; // Start of the candle's interval
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  pointCount: number; // Number of price points in the interval
+}
+
 // Enhanced security constraints for the application
 export const SECURITY_CONSTRAINTS = {
-  // Stock symbols should be 1-5 uppercase letters
-  STOCK_SYMBOL_PATTERN: /^[A-Z]{1,5}$/,
+  // Symbol grammar per instrument type:
+  // equities and ETFs take optional class or exchange suffixes (BRK.B, RDS-A, 7203.T),
+  // indices an optional caret (^GSPC), crypto a quote currency (BTC-USD), FX pairs =X (EURUSD=X)
+  SYMBOL_PATTERNS: {
+    equity: /^[A-Z0-9]{1,6}(?:[.-][A-Z0-9]{1,3}){0,2}$/,
+    etf: /^[A-Z0-9]{1,6}(?:[.-][A-Z0-9]{1,3}){0,2}$/,
+    index: /^\^?[A-Z0-9]{1,8}$/,
+    crypto: /^[A-Z0-9]{2,10}-[A-Z]{3,4}$/,
+    fx: /^[A-Z]{6}=X$/,
+  } as Record<InstrumentType, RegExp>,
+  // Any symbol accepted by one of the SYMBOL_PATTERNS
+  STOCK_SYMBOL_PATTERN: /^(?:[A-Z0-9]{1,6}(?:[.-][A-Z0-9]{1,3}){0,2}|\^?[A-Z0-9]{1,8}|[A-Z0-9]{2,10}-[A-Z]{3,4}|[A-Z]{6}=X)$/,
+  STOCK_SYMBOL_MAX_LENGTH: 15,
   // Stock name constraints
   STOCK_NAME_MAX_LENGTH: 50,
   STOCK_NAME_PATTERN: /^[A-Za-z0-9&\s\-.,]+$/,
@@ -34,7 +59,6 @@ export const SECURITY_CONSTRAINTS = {
   RETRY_DELAY_MS: 1000, // Delay between retry attempts
   // LocalStorage
   STORAGE_PREFIX: 'secure_ticker_',
-  STORAGE_ENCRYPTION_KEY: import.meta.env.VITE_STORAGE_ENCRYPTION_KEY || 'TICKER_STORAGE_KEY_FALLBACK',
   // Maximum localStorage items
   MAX_STORAGE_ITEMS: 100,
 };
@@ -81,10 +105,280 @@ export interface RetryTracker {
 export interface SecureStorageItem<T> {
   data: T;
   timestamp: number;
-  checksum: string; // For integrity verification
+  checksum?: string; // Items saved before encryption only; encrypted items are verified by their GCM tag
   version: number;
 }
 
+/**
+ * Available price simulation models
+ */
+export type PriceModelType = 'realistic' | 'gbm' | 'ornsteinUhlenbeck' | 'jumpDiffusion' | 'garch';
+
+/**
+ * Legacy three-bucket random walk (see generateRealisticPriceChange)
+ */
+export interface RealisticModelConfig {
+  type: 'realistic';
+  maxChangePercent: number;
+}
+
+/**
+ * Geometric Brownian motion. Rates are expressed per second of simulated time.
+ */
+export interface GbmModelConfig {
+  type: 'gbm';
+  drift: number; // Expected return per second (e.g. 0.0001 = 0.01%/s)
+  sigma: number; // Volatility per sqrt(second)
+}
+
+/**
+ * Mean-reverting Ornstein–Uhlenbeck process around a target price
+ */
+export interface OrnsteinUhlenbeckModelConfig {
+  type: 'ornsteinUhlenbeck';
+  mean?: number; // Price level to revert to (defaults to the stock's initial price)
+  theta: number; // Speed of reversion per second
+  sigma: number; // Volatility per sqrt(second), relative to the mean
+}
+
+/**
+ * Merton jump-diffusion: GBM with occasional log-normal jumps
+ */
+export interface JumpDiffusionModelConfig {
+  type: 'jumpDiffusion';
+  drift: number;
+  sigma: number;
+  jumpIntensity: number; // Expected number of jumps per second
+  jumpMean: number; // Mean of log jump size
+  jumpStdDev: number; // Standard deviation of log jump size
+}
+
+/**
+ * GARCH(1,1) volatility clustering, applied per tick
+ */
+export interface GarchModelConfig {
+  type: 'garch';
+  drift: number; // Expected return per tick
+  omega: number; // Long-run variance weight
+  alpha: number; // Reaction to the last squared return
+  beta: number; // Persistence of the previous variance
+}
+
+export type PriceModelConfig =
+  | RealisticModelConfig
+  | GbmModelConfig
+  | OrnsteinUhlenbeckModelConfig
+  | JumpDiffusionModelConfig
+  | GarchModelConfig;
+
+/**
+ * Technical indicators available on the stock chart
+ */
+export type IndicatorType = 'sma' | 'ema' | 'bollinger' | 'rsi' | 'macd';
+
+export interface SmaIndicatorConfig {
+  type: 'sma';
+  period: number;
+}
+
+export interface EmaIndicatorConfig {
+  type: 'ema';
+  period: number;
+}
+
+export interface BollingerIndicatorConfig {
+  type: 'bollinger';
+  period: number;
+  stdDevMultiplier: number; // Band width in standard deviations
+}
+
+export interface RsiIndicatorConfig {
+  type: 'rsi';
+  period: number;
+}
+
+export interface MacdIndicatorConfig {
+  type: 'macd';
+  fastPeriod: number;
+  slowPeriod: number;
+  signalPeriod: number;
+}
+
+export type IndicatorConfig =
+  | SmaIndicatorConfig
+  | EmaIndicatorConfig
+  | BollingerIndicatorConfig
+  | RsiIndicatorConfig
+  | MacdIndicatorConfig;
+
+/**
+ * Conditions a price alert can watch for
+ */
+export type AlertRuleType = 'priceAbove' | 'priceBelow' | 'percentChange' | 'maCrossover';
+
+export interface PriceThresholdRule {
+  type: 'priceAbove' | 'priceBelow';
+  price: number;
+}
+
+export interface PercentChangeRule {
+  type: 'percentChange';
+  percent: number; // 5 fires on a rise of at least 5%, -5 on a fall of at least 5%
+  windowMinutes?: number; // Measure over the last N minutes instead of from initialPrice
+}
+
+export interface MaCrossoverRule {
+  type: 'maCrossover';
+  fastPeriod: number; // In price updates
+  slowPeriod: number;
+  direction: 'bullish' | 'bearish' | 'either'; // Bullish: fast crosses above slow
+}
+
+export type AlertRule = PriceThresholdRule | PercentChangeRule | MaCrossoverRule;
+
+/**
+ * A price alert on one stock
+ */
+export interface PriceAlert {
+  id: string;
+  symbol: string;
+  rule: AlertRule;
+  repeat: boolean; // One-shot alerts disable themselves after firing
+  cooldownSeconds: number; // Minimum time between two firings of a repeating alert
+  enabled: boolean;
+  armed: boolean; // Cleared on firing; re-armed once the condition stops holding
+  triggerCount: number;
+  createdAt: number;
+  lastTriggeredAt?: number;
+}
+
+/**
+ * Fields supplied when creating an alert
+ */
+export type NewPriceAlert = Pick<PriceAlert, 'symbol' | 'rule' | 'repeat' | 'cooldownSeconds'>;
+
+/**
+ * Record of an alert firing
+ */
+export interface AlertEvent {
+  id: string;
+  alertId: string;
+  symbol: string;
+  message: string;
+  price: number;
+  timestamp: number;
+}
+
+/**
+ * Kind of movement a scenario step scripts
+ * - move: change the price by a percentage of its level at the start of the step
+ * - recover: undo a percentage of the scenario's net move so far
+ * - hold: keep the scripted level (useful for volatility-only phases)
+ */
+export type ScenarioStepType = 'move' | 'recover' | 'hold';
+
+/**
+ * One step in a scripted market scenario
+ */
+export interface ScenarioStep {
+  symbol: string;
+  type: ScenarioStepType;
+  percent: number; // -12 for a 12% drop, 50 to recover half of the move (ignored for hold)
+  durationSeconds: number; // 0 for an instant gap
+  volatilityMultiplier?: number; // Scales the stock's normal price-model noise (default 1)
+  withPrevious?: boolean; // Start together with the previous step instead of after it
+}
+
+/**
+ * A scripted market scenario, saved and loaded as JSON
+ */
+export interface MarketScenario {
+  name: string;
+  description?: string;
+  steps: ScenarioStep[];
+}
+
+export type ScenarioStatus = 'running' | 'paused' | 'completed' | 'aborted';
+
+/**
+ * Progress of the active (or most recent) scenario
+ */
+export interface ScenarioProgress {
+  name: string;
+  status: ScenarioStatus;
+  elapsedSeconds: number; // Simulated time, advanced one tick at a time
+  totalSeconds: number;
+  stepIndex: number; // Index of the latest step that has started
+  stepCount: number;
+}
+
+export type ReplayStatus = 'playing' | 'paused' | 'ended';
+
+/**
+ * Playback settings for a historical replay
+ */
+export interface ReplayOptions {
+  speed: number; // Market time per unit of wall time, e.g. 60 plays an hour of bars per minute
+  loop: boolean; // Start over at the end instead of stopping
+}
+
+/**
+ * Position of the active historical replay. Times are market time
+ * (the timestamps in the replayed data), in ms since epoch.
+ */
+export interface ReplayProgress extends ReplayOptions {
+  status: ReplayStatus;
+  symbols: string[];
+  startTime: number;
+  endTime: number;
+  currentTime: number;
+}
+
+/**
+ * Kinds of instrument the ticker can follow; each has its own symbol grammar
+ */
+export type InstrumentType = 'equity' | 'etf' | 'index' | 'crypto' | 'fx';
+
+export const INSTRUMENT_TYPES: Record<InstrumentType, { label: string; examples: string }> = {
+  equity: { label: 'Equity', examples: 'AAPL, BRK.B, RDS-A, 7203.T' },
+  etf: { label: 'ETF', examples: 'SPY, VUSA.L' },
+  index: { label: 'Index', examples: '^GSPC, ^N225' },
+  crypto: { label: 'Crypto', examples: 'BTC-USD, ETH-EUR' },
+  fx: { label: 'FX', examples: 'EURUSD=X' },
+};
+
+/**
+ * Exchange (or market) an instrument is listed on
+ */
+export interface ExchangeInfo {
+  name: string;
+  currency: Currency; // Usual listing currency
+  suffix?: string; // Symbol suffix market data vendors use for the exchange, e.g. '.T'
+  instrumentTypes: InstrumentType[];
+}
+
+export const EXCHANGE_CODES = [
+  'NASDAQ', 'NYSE', 'LSE', 'XETRA', 'EURONEXT', 'SIX', 'TSE', 'HKEX', 'TSX', 'NSE', 'ASX', 'CRYPTO', 'FX',
+] as const;
+
+export type ExchangeCode = typeof EXCHANGE_CODES[number];
+
+export const EXCHANGES: Record<ExchangeCode, ExchangeInfo> = {
+  NASDAQ: { name: 'Nasdaq', currency: 'USD', instrumentTypes: ['equity', 'etf', 'index'] },
+  NYSE: { name: 'New York Stock Exchange', currency: 'USD', instrumentTypes: ['equity', 'etf', 'index'] },
+  LSE: { name: 'London Stock Exchange', currency: 'GBP', suffix: '.L', instrumentTypes: ['equity', 'etf', 'index'] },
+  XETRA: { name: 'Deutsche Börse Xetra', currency: 'EUR', suffix: '.DE', instrumentTypes: ['equity', 'etf', 'index'] },
+  EURONEXT: { name: 'Euronext Paris', currency: 'EUR', suffix: '.PA', instrumentTypes: ['equity', 'etf', 'index'] },
+  SIX: { name: 'SIX Swiss Exchange', currency: 'CHF', suffix: '.SW', instrumentTypes: ['equity', 'etf', 'index'] },
+  TSE: { name: 'Tokyo Stock Exchange', currency: 'JPY', suffix: '.T', instrumentTypes: ['equity', 'etf', 'index'] },
+  HKEX: { name: 'Hong Kong Stock Exchange', currency: 'HKD', suffix: '.HK', instrumentTypes: ['equity', 'etf', 'index'] },
+  TSX: { name: 'Toronto Stock Exchange', currency: 'CAD', suffix: '.TO', instrumentTypes: ['equity', 'etf', 'index'] },
+  NSE: { name: 'National Stock Exchange of India', currency: 'INR', suffix: '.NS', instrumentTypes: ['equity', 'etf', 'index'] },
+  ASX: { name: 'Australian Securities Exchange', currency: 'AUD', suffix: '.AX', instrumentTypes: ['equity', 'etf', 'index'] },
+  CRYPTO: { name: 'Crypto (24/7)', currency: 'USD', instrumentTypes: ['crypto'] },
+  FX: { name: 'Foreign exchange (OTC)', currency: 'USD', instrumentTypes: ['fx'] },
+};
+
 /**
  * Stock information interface
  */
@@ -93,6 +387,12 @@ export interface StockInfo {
   symbol: string;
   // Name must follow the pattern in SECURITY_CONSTRAINTS.STOCK_NAME_PATTERN
   name: string;
+  // Listing currency that all of the stock's prices are quoted in (USD if unset)
+  currency?: Currency;
+  // Kind of instrument, which decides the symbol grammar (equity if unset)
+  instrumentType?: InstrumentType;
+  // Exchange the instrument is listed on, if known
+  exchange?: ExchangeCode;
   // Prices must be between MIN_STOCK_PRICE and MAX_STOCK_PRICE
   currentPrice: number;
   previousPrice: number;
@@ -100,18 +400,146 @@ export interface StockInfo {
   percentChange: number; // Changed from percentageChange to match API
   lastUpdated: Date;
   priceHistory: PricePoint[];
+  // Simulation model driving automatic updates (defaults to the realistic random walk)
+  priceModel?: PriceModelConfig;
+  // Indicators shown on this stock's chart
+  indicators?: IndicatorConfig[];
 }
 
 /**
- * Supported currencies
+ * Instrument identity given when adding a stock
  */
-export type Currency = 'USD' | 'EUR' | 'GBP' | 'JPY' | 'CAD' | 'INR' | 'CHF';
+export type InstrumentIdentity = Pick<StockInfo, 'instrumentType' | 'exchange'>;
+
+export type TradeSide = 'buy' | 'sell';
+
+/**
+ * A recorded buy or sell in the simulated portfolio. Prices are booked in USD
+ * whatever the selected display currency was at the time.
+ */
+export interface Trade {
+  id: string;
+  symbol: string;
+  side: TradeSide;
+  quantity: number;
+  price: number;
+  timestamp: number;
+  orderId?: string; // The paper-trading order this trade filled
+}
+
+export type OrderType = 'market' | 'limit' | 'stop' | 'stopLimit';
+
+export type OrderStatus = 'open' | 'filled' | 'cancelled' | 'rejected';
+
+/**
+ * Order entry. Limit and stop prices are in USD, like trade prices.
+ */
+export interface NewOrder {
+  symbol: string;
+  side: TradeSide;
+  type: OrderType;
+  quantity: number;
+  limitPrice?: number; // limit and stopLimit orders
+  stopPrice?: number; // stop and stopLimit orders
+}
+
+/**
+ * A paper-trading order, matched against the simulated price on each tick
+ */
+export interface Order extends NewOrder {
+  id: string;
+  status: OrderStatus;
+  triggered: boolean; // Stop price reached; stop-limit orders then work as limit orders
+  createdAt: number;
+  updatedAt: number;
+  fillPrice?: number; // USD
+  filledAt?: number;
+  rejectReason?: string;
+}
+
+/**
+ * An open position built from the trade log, using average cost
+ */
+export interface Position {
+  symbol: string;
+  quantity: number;
+  averageCost: number; // USD per share
+  realizedPnl: number; // USD, from sells of this symbol
+}
+
+/**
+ * Simulated portfolio state, kept by PortfolioProvider on top of the ticker
+ */
+export interface PortfolioState {
+  startingCash: number; // USD
+  cash: number; // USD
+  trades: Trade[]; // Oldest first
+  orders: Order[]; // Oldest first
+}
+
+export interface PortfolioContextType {
+  portfolio: PortfolioState;
+  positions: Position[];
+  // Market orders, filled at the stock's current simulated price
+  buy: (symbol: string, quantity: number) => ValidationResult;
+  sell: (symbol: string, quantity: number) => ValidationResult;
+  placeOrder: (order: NewOrder) => ValidationResult;
+  cancelOrder: (id: string) => ValidationResult;
+  clearClosedOrders: () => void;
+  resetPortfolio: (startingCash?: number) => ValidationResult;
+}
+
+/**
+ * A named group of stocks shown together in the ticker view
+ */
+export interface Watchlist {
+  id: string;
+  name: string;
+  symbols: string[]; // In display order
+}
+
+/**
+ * ISO 4217 currency code. The supported currencies are the ones the configured
+ * rates provider has rates for (see getSupportedCurrencies).
+ */
+export type Currency = string;
+
+export const CURRENCY_CODE_PATTERN = /^[A-Z]{3}$/;
 
 /**
  * Chart time range options for filtering price history
  */
 export type ChartTimeRange = '1m' | '5m' | '15m' | '1h' | '4h' | 'all';
 
+/**
+ * How price history is drawn on the chart
+ */
+export type ChartType = 'line' | 'candlestick';
+
+/**
+ * Algorithm used to thin out older price history
+ * - lttb: Largest-Triangle-Three-Buckets, keeps the visual shape of the line
+ * - minmax: keeps the lowest and highest price of each bucket, so spikes survive
+ */
+export type DownsampleMethod = 'lttb' | 'minmax';
+
+/**
+ * One tier of the history store. Tier 0 holds full-resolution points; when a tier
+ * overflows, its oldest points are downsampled by the next tier's compression factor.
+ */
+export interface HistoryTierConfig {
+  capacity: number; // Maximum points kept in this tier
+  compression: number; // Points merged into one when moving into this tier (ignored for tier 0)
+}
+
+/**
+ * Retention settings for the tiered price history store
+ */
+export interface HistoryRetentionConfig {
+  method: DownsampleMethod;
+  tiers: HistoryTierConfig[];
+}
+
 /**
  * Currency display information
  */
@@ -122,7 +550,8 @@ export interface CurrencyInfo {
 }
 
 /**
- * Available currencies with their display information
+ * Display information for common currencies; getCurrencyInfo asks Intl for the others.
+ * Whether a currency can be used depends on the rates, not on this table.
  */
 export const CURRENCIES: Record<Currency, CurrencyInfo> = {
   USD: { code: 'USD', symbol: '$', name: 'US Dollar' },
@@ -131,11 +560,36 @@ export const CURRENCIES: Record<Currency, CurrencyInfo> = {
   JPY: { code: 'JPY', symbol: '¥', name: 'Japanese Yen' },
   CAD: { code: 'CAD', symbol: 'C$', name: 'Canadian Dollar' },
   INR: { code: 'INR', symbol: '₹', name: 'Indian Rupee' },
-  CHF: { code: 'CHF', symbol: 'CHF', name: 'Swiss Franc' }
+  CHF: { code: 'CHF', symbol: 'CHF', name: 'Swiss Franc' },
+  AUD: { code: 'AUD', symbol: 'A$', name: 'Australian Dollar' },
+  BGN: { code: 'BGN', symbol: 'лв', name: 'Bulgarian Lev' },
+  BRL: { code: 'BRL', symbol: 'R$', name: 'Brazilian Real' },
+  CNY: { code: 'CNY', symbol: 'CN¥', name: 'Chinese Yuan' },
+  CZK: { code: 'CZK', symbol: 'Kč', name: 'Czech Koruna' },
+  DKK: { code: 'DKK', symbol: 'kr', name: 'Danish Krone' },
+  HKD: { code: 'HKD', symbol: 'HK$', name: 'Hong Kong Dollar' },
+  HUF: { code: 'HUF', symbol: 'Ft', name: 'Hungarian Forint' },
+  IDR: { code: 'IDR', symbol: 'Rp', name: 'Indonesian Rupiah' },
+  ILS: { code: 'ILS', symbol: '₪', name: 'Israeli New Shekel' },
+  ISK: { code: 'ISK', symbol: 'kr', name: 'Icelandic Króna' },
+  KRW: { code: 'KRW', symbol: '₩', name: 'South Korean Won' },
+  MXN: { code: 'MXN', symbol: 'MX$', name: 'Mexican Peso' },
+  MYR: { code: 'MYR', symbol: 'RM', name: 'Malaysian Ringgit' },
+  NOK: { code: 'NOK', symbol: 'kr', name: 'Norwegian Krone' },
+  NZD: { code: 'NZD', symbol: 'NZ$', name: 'New Zealand Dollar' },
+  PHP: { code: 'PHP', symbol: '₱', name: 'Philippine Peso' },
+  PLN: { code: 'PLN', symbol: 'zł', name: 'Polish Złoty' },
+  RON: { code: 'RON', symbol: 'lei', name: 'Romanian Leu' },
+  SEK: { code: 'SEK', symbol: 'kr', name: 'Swedish Krona' },
+  SGD: { code: 'SGD', symbol: 'S$', name: 'Singapore Dollar' },
+  THB: { code: 'THB', symbol: '฿', name: 'Thai Baht' },
+  TRY: { code: 'TRY', symbol: '₺', name: 'Turkish Lira' },
+  ZAR: { code: 'ZAR', symbol: 'R', name: 'South African Rand' }
 };
 
 /**
- * Simple currency conversion rates (in a real app, these would come from an API)
+ * Built-in currency conversion rates, used by the static rates provider and
+ * until the configured provider has delivered its first rates.
  * All rates are relative to USD
  */
 export const CURRENCY_RATES: Record<Currency, number> = {
@@ -145,9 +599,252 @@ export const CURRENCY_RATES: Record<Currency, number> = {
   JPY: 110.0,
   CAD: 1.25,
   INR: 74.5,
-  CHF: 0.92
+  CHF: 0.92,
+  AUD: 1.35,
+  BGN: 1.66,
+  BRL: 5.2,
+  CNY: 6.45,
+  CZK: 21.7,
+  DKK: 6.32,
+  HKD: 7.77,
+  HUF: 300.0,
+  IDR: 14300.0,
+  ILS: 3.25,
+  ISK: 125.0,
+  KRW: 1150.0,
+  MXN: 20.0,
+  MYR: 4.15,
+  NOK: 8.6,
+  NZD: 1.42,
+  PHP: 49.5,
+  PLN: 3.85,
+  RON: 4.15,
+  SEK: 8.6,
+  SGD: 1.34,
+  THB: 31.5,
+  TRY: 8.6,
+  ZAR: 14.5
+};
+
+/**
+ * How numbers and amounts are displayed
+ */
+export interface FormatPreferences {
+  locale: string; // BCP 47 language tag, or '' for the browser's locale
+  compactLargeAmounts: boolean; // Abbreviate amounts of COMPACT_AMOUNT_THRESHOLD and above, e.g. $1.2M
+}
+
+export const DEFAULT_FORMAT_PREFERENCES: FormatPreferences = {
+  locale: 'en-US',
+  compactLargeAmounts: false,
+};
+
+// Amounts from here up are abbreviated when compactLargeAmounts is on
+export const COMPACT_AMOUNT_THRESHOLD = 100000;
+
+/**
+ * Locales offered in the display settings. Any valid BCP 47 tag is accepted.
+ */
+export const FORMAT_LOCALES: Record<string, string> = {
+  '': 'Browser default',
+  'en-US': 'English (United States)',
+  'en-GB': 'English (United Kingdom)',
+  'en-IN': 'English (India)',
+  'de-DE': 'Deutsch (Deutschland)',
+  'de-CH': 'Deutsch (Schweiz)',
+  'fr-FR': 'Français (France)',
+  'es-ES': 'Español (España)',
+  'it-IT': 'Italiano (Italia)',
+  'pt-BR': 'Português (Brasil)',
+  'ja-JP': '日本語 (日本)',
+  'zh-CN': '中文 (中国)',
+  'hi-IN': 'हिन्दी (भारत)',
 };
 
+/**
+ * Where exchange rates come from
+ * - static: the built-in CURRENCY_RATES table
+ * - json: a JSON document fetched from a URL (a file served by the dev server or a mock API)
+ * - simulated: rates drifting randomly around the built-in table
+ */
+export type RatesProviderType = 'static' | 'json' | 'simulated';
+
+/**
+ * Exchange rates relative to USD at a point in time
+ */
+export interface RatesSnapshot {
+  rates: Record<Currency, number>; // Every currency the provider quotes, which makes it a supported currency
+  timestamp: number; // When the rates were published (ms since epoch)
+  source: string; // Where they came from, e.g. the URL
+}
+
+/**
+ * The configured rates provider and how often it is refreshed
+ */
+export interface RatesProviderConfig {
+  type: RatesProviderType;
+  url?: string; // json provider only
+  refreshIntervalMs: number;
+  maxAgeMs: number; // Rates older than this are shown as stale
+  volatilityPercent?: number; // simulated provider only, standard deviation per refresh
+}
+
+/**
+ * Rates currently used for conversion and the outcome of the last refresh
+ */
+export interface FxRatesState {
+  config: RatesProviderConfig;
+  snapshot: RatesSnapshot;
+  lastAttemptAt?: number;
+  lastError?: string; // Set when the last refresh failed; the previous rates stay in use
+}
+
+/**
+ * Where saved state and price history can be kept in this browser
+ */
+export type StorageBackendName = 'localStorage' | 'indexedDB';
+
+/**
+ * Storage backends in use, how much space they take and whether the last save ran out of it
+ */
+export interface StorageStatus {
+  backends: StorageBackendName[];
+  // Reported by the browser for the whole origin, where supported
+  usageBytes?: number;
+  quotaBytes?: number;
+  lastSavedAt?: number;
+  quotaError?: string; // Set when the last save failed because storage is full
+}
+
+/**
+ * This tab's part in running the ticker when it is open in several tabs:
+ * the leader runs the simulation and broadcasts it, followers render it.
+ * A tab is solo when the browser cannot broadcast between tabs.
+ */
+export type TabRole = 'solo' | 'leader' | 'follower';
+
+export interface TabSyncStatus {
+  role: TabRole;
+  // Open ticker tabs, including this one
+  tabCount: number;
+}
+
+/**
+ * Stock and control fields kept in step with the API server
+ */
+export type SyncedStockField = 'name' | 'currentPrice' | 'currency' | 'instrumentType' | 'exchange';
+export type SyncedControlField = 'isPaused' | 'updateIntervalMs' | 'selectedCurrency';
+
+export type SyncValue = string | number | boolean | null;
+
+/**
+ * What this tab last saw of a synced field on the server. Local edits the
+ * server has not confirmed yet are the queued SyncEdits.
+ */
+export interface FieldVersion {
+  server: number;
+  // Server value at that version; compared instead when the server sends no versions
+  serverValue: SyncValue;
+}
+
+export interface StockVersions {
+  fields: Partial<Record<SyncedStockField, FieldVersion>>;
+  // Version at which the server added the stock; undefined until the server has it
+  created?: number;
+}
+
+/**
+ * A local edit waiting to be sent to the API server
+ */
+export type SyncEdit =
+  | { id: string; type: 'setPrice'; symbol: string; price: number; createdAt: number }
+  | { id: string; type: 'addStock'; stock: { symbol: string; name: string; initialPrice: number; currency: Currency; instrumentType: InstrumentType; exchange?: ExchangeCode }; createdAt: number }
+  | { id: string; type: 'removeStock'; symbol: string; createdAt: number }
+  | { id: string; type: 'updateControls'; updates: Partial<Pick<TickerState, SyncedControlField>>; createdAt: number };
+
+/**
+ * A field both this tab and the server changed since they last synced
+ */
+export interface SyncConflict {
+  id: string;
+  // Stock symbol, or undefined for the controls
+  symbol?: string;
+  field: SyncedStockField | SyncedControlField | 'stock';
+  localValue: SyncValue;
+  serverValue: SyncValue;
+  // Whose value was kept
+  winner: 'local' | 'server';
+  message: string;
+  detectedAt: number;
+}
+
+/**
+ * A queued edit the server refused; kept until it is retried or discarded
+ */
+export interface FailedSyncEdit {
+  edit: SyncEdit;
+  message: string;
+  failedAt: number;
+}
+
+// Whether the API server answered the last health check or edit
+export type SyncConnection = 'unknown' | 'online' | 'offline';
+
+export interface SyncState {
+  stocks: Record<string, StockVersions>;
+  controls: Partial<Record<SyncedControlField, FieldVersion>>;
+  // Oldest first; sent in order once the API server can be reached
+  pendingEdits: SyncEdit[];
+  // Newest first
+  failedEdits: FailedSyncEdit[];
+  // Newest first
+  conflicts: SyncConflict[];
+  connection: SyncConnection;
+}
+
+/**
+ * A change to the ticker the command log can apply, to undo or redo a control-panel action
+ */
+export type TickerCommand =
+  | { type: 'setPrices'; prices: Record<string, number> }
+  // Puts back a stock as it was, at its place in the list
+  | { type: 'restoreStock'; stock: StockInfo; index: number }
+  | { type: 'removeStock'; symbol: string }
+  | { type: 'updateControls'; updates: Partial<Pick<TickerState, 'updateIntervalMs' | 'selectedCurrency'>> };
+
+/**
+ * A recorded control-panel action: the command that made it and the one that reverts it
+ */
+export interface CommandLogEntry {
+  id: string;
+  label: string;
+  command: TickerCommand;
+  inverse: TickerCommand;
+  recordedAt: number;
+}
+
+export interface CommandLog {
+  // Oldest first; undo takes the last
+  done: CommandLogEntry[];
+  // Oldest undo first; redo takes the last
+  undone: CommandLogEntry[];
+}
+
+/**
+ * Portable ticker setup, exported to and imported from files to move demo
+ * setups between machines and environments
+ */
+export interface TickerSetup {
+  stocks: StockInfo[];
+  updateIntervalMs: number;
+  selectedCurrency: Currency;
+  selectedStock?: string;
+  // Active scenario at export time; restored paused on import
+  scenario?: MarketScenario;
+  // Long-range history from the tiered history store by symbol, oldest first
+  histories?: Record<string, PricePoint[]>;
+}
+
 /**
  * Application state for the ticker
  */
@@ -157,8 +854,34 @@ export interface TickerState {
   updateIntervalMs: number;
   isPaused: boolean;
   selectedStock?: string;
-  // Currency support
+  // Display currency; stock prices stay in each stock's listing currency and are converted for display
   selectedCurrency: Currency;
+  // Seed of the simulation's random source; the same seed replays the same session
+  simulationSeed: number;
+  // Scripted scenario driving the simulation, if one has been started
+  scenario?: ScenarioProgress;
+  // Historical replay driving the replayed stocks' prices instead of the simulation, if one is loaded
+  replay?: ReplayProgress;
+  // How much price history is kept beyond each stock's recent priceHistory
+  historyRetention: HistoryRetentionConfig;
+  // Price alerts and the most recent alert firings (newest first)
+  alerts: PriceAlert[];
+  alertEvents: AlertEvent[];
+  // Named stock groups, synced with the API server, and the one shown in the ticker (all stocks if unset)
+  watchlists: Watchlist[];
+  activeWatchlistId?: string;
+  // Exchange rates used by convertCurrency and where they come from
+  fxRates: FxRatesState;
+  // Locale and notation used by formatPrice and formatNumber
+  formatPreferences: FormatPreferences;
+  // Persistence of saved state and price history
+  storage: StorageStatus;
+  // Whether this tab runs the simulation or follows another tab's
+  tabSync: TabSyncStatus;
+  // Versions of the fields synced with the API server, unsent edits and conflicts
+  sync: SyncState;
+  // Control-panel actions that can be undone and redone
+  commandLog: CommandLog;
   // Rate limiting state for security
   rateLimiters: {
     [key: string]: RateLimitTracker;
@@ -177,14 +900,68 @@ export interface TickerState {
 export interface TickerContextType {
   tickerState: TickerState;
   setPrice: (symbol: string, price: number) => ValidationResult;
+  // Several prices at once, e.g. a bulk change, undone as one action
+  setPrices: (prices: Record<string, number>, label?: string) => ValidationResult;
   updateSpeed: (intervalMs: number) => ValidationResult;
   togglePause: () => void;
-  addStock: (symbol: string, name: string, initialPrice: number) => ValidationResult;
+  addStock: (
+    symbol: string,
+    name: string,
+    initialPrice: number,
+    priceModel?: PriceModelConfig,
+    currency?: Currency,
+    instrument?: InstrumentIdentity
+  ) => ValidationResult;
   removeStock: (symbol: string) => ValidationResult;
+  setPriceModel: (symbol: string, priceModel: PriceModelConfig) => ValidationResult;
+  setIndicators: (symbol: string, indicators: IndicatorConfig[]) => ValidationResult;
   selectStock: (symbol: string) => ValidationResult;
-  getStockPriceHistory: (symbol: string) => PricePoint[];
+  // Query the tiered history store; older points come back downsampled
+  getStockPriceHistory: (symbol: string, range?: ChartTimeRange, maxPoints?: number) => PricePoint[];
+  setHistoryRetention: (config: HistoryRetentionConfig) => ValidationResult;
+  // Deterministic simulation support
+  random: RandomSource;
+  setSimulationSeed: (seed: number | string) => ValidationResult;
+  // Scripted market scenarios
+  startScenario: (scenario: MarketScenario) => ValidationResult;
+  pauseScenario: () => ValidationResult;
+  resumeScenario: () => ValidationResult;
+  abortScenario: () => ValidationResult;
+  // Historical replay
+  startReplay: (histories: Record<string, PricePoint[]>, options?: Partial<ReplayOptions>) => ValidationResult;
+  pauseReplay: () => ValidationResult;
+  resumeReplay: () => ValidationResult;
+  seekReplay: (time: number) => ValidationResult;
+  setReplayOptions: (options: Partial<ReplayOptions>) => ValidationResult;
+  stopReplay: () => ValidationResult;
+  // Price alerts
+  addAlert: (alert: NewPriceAlert) => ValidationResult;
+  removeAlert: (id: string) => ValidationResult;
+  setAlertEnabled: (id: string, enabled: boolean) => ValidationResult;
+  clearAlertEvents: () => void;
+  // API server sync conflicts and refused edits
+  dismissSyncConflict: (id: string) => void;
+  clearSyncConflicts: () => void;
+  retryFailedEdit: (id: string) => ValidationResult;
+  discardFailedEdit: (id: string) => void;
+  // Control-panel undo history
+  undo: () => ValidationResult;
+  redo: () => ValidationResult;
+  // Watchlists
+  createWatchlist: (name: string, symbols?: string[]) => ValidationResult;
+  renameWatchlist: (id: string, name: string) => ValidationResult;
+  deleteWatchlist: (id: string) => ValidationResult;
+  setWatchlistSymbols: (id: string, symbols: string[]) => ValidationResult;
+  selectWatchlist: (id: string | null) => ValidationResult;
   // Currency support
   changeCurrency: (currency: Currency) => ValidationResult;
+  setRatesProvider: (config: RatesProviderConfig) => ValidationResult;
+  refreshRates: () => ValidationResult;
+  updateFormatPreferences: (preferences: FormatPreferences) => ValidationResult;
+  // Setup import/export
+  exportSetup: () => TickerSetup;
+  importSetup: (setup: TickerSetup) => ValidationResult;
+  importPriceHistory: (histories: Record<string, PricePoint[]>) => ValidationResult;
   // Utility for validation (moved from just implementation to the public interface)
   validateInput: {
     stockSymbol: (symbol: string) => ValidationResult;
@@ -193,16 +970,25 @@ export interface TickerContextType {
     updateInterval: (intervalMs: number) => ValidationResult;
   };
   // New security enhancement methods
-  saveStateToStorage: () => ValidationResult;
-  loadStateFromStorage: () => ValidationResult;
+  saveStateToStorage: () => Promise<ValidationResult>;
+  loadStateFromStorage: () => Promise<ValidationResult>;
   getMemoryUsage: () => MemoryStats | undefined;
   maskSensitiveData: (data: string, type: 'symbol' | 'price') => string;
 }
 
 // Sanitization utilities to prevent XSS and other injection attacks
-export function sanitizeStockSymbol(symbol: string): string {
-  // Only allow uppercase letters, max 5 characters
-  return symbol.trim().toUpperCase().replace(/[^A-Z]/g, '').substring(0, 5);
+export function sanitizeStockSymbol(symbol: string, instrumentType?: InstrumentType): string {
+  let sanitized = symbol.trim().toUpperCase();
+  // Pairs are often typed with a slash: BTC/USD -> BTC-USD, EUR/USD -> EURUSD=X
+  if (instrumentType === 'crypto') {
+    sanitized = sanitized.replace('/', '-');
+  }
+  // Only allow uppercase letters, digits and the separators of the symbol grammars
+  sanitized = sanitized.replace(/[^A-Z0-9.\-^=]/g, '').substring(0, SECURITY_CONSTRAINTS.STOCK_SYMBOL_MAX_LENGTH);
+  if (instrumentType === 'fx' && /^[A-Z]{6}$/.test(sanitized)) {
+    sanitized += '=X';
+  }
+  return sanitized;
 }
 
 export function sanitizeStockName(name: string): string {
@@ -213,21 +999,85 @@ export function sanitizeStockName(name: string): string {
 }
 
 // Input validation functions
-export function validateStockSymbol(symbol: string): ValidationResult {
+export function validateStockSymbol(symbol: string, instrumentType?: InstrumentType): ValidationResult {
   if (!symbol || typeof symbol !== 'string') {
     return { isValid: false, errorMessage: 'Stock symbol is required' };
   }
   
-  if (!SECURITY_CONSTRAINTS.STOCK_SYMBOL_PATTERN.test(symbol)) {
+  // Without an instrument type any of the grammars will do
+  if (instrumentType === undefined) {
+    if (!SECURITY_CONSTRAINTS.STOCK_SYMBOL_PATTERN.test(symbol)) {
+      return { 
+        isValid: false, 
+        errorMessage: 'Stock symbol must be uppercase letters and digits, e.g. AAPL, BRK.B, 7203.T, ^GSPC, BTC-USD or EURUSD=X' 
+      };
+    }
+    return { isValid: true };
+  }
+  
+  const typeValidation = validateInstrumentType(instrumentType);
+  if (!typeValidation.isValid) {
+    return typeValidation;
+  }
+  
+  if (!SECURITY_CONSTRAINTS.SYMBOL_PATTERNS[instrumentType].test(symbol)) {
+    const { label, examples } = INSTRUMENT_TYPES[instrumentType];
     return { 
       isValid: false, 
-      errorMessage: 'Stock symbol must be 1-5 uppercase letters' 
+      errorMessage: `${symbol} is not a valid ${label.toLowerCase()} symbol (e.g. ${examples})` 
     };
   }
   
   return { isValid: true };
 }
 
+/**
+ * Validate an instrument type
+ */
+export function validateInstrumentType(instrumentType: string): ValidationResult {
+  if (!(instrumentType in INSTRUMENT_TYPES)) {
+    return { isValid: false, errorMessage: `Unknown instrument type: ${String(instrumentType)}` };
+  }
+  return { isValid: true };
+}
+
+/**
+ * Validate that an exchange is known and lists the given instrument type
+ */
+export function validateExchange(exchange: string, instrumentType: InstrumentType = 'equity'): ValidationResult {
+  if (!(exchange in EXCHANGES)) {
+    return { isValid: false, errorMessage: `Unknown exchange: ${String(exchange)}` };
+  }
+  if (!EXCHANGES[exchange as ExchangeCode].instrumentTypes.includes(instrumentType)) {
+    return {
+      isValid: false,
+      errorMessage: `${exchange} does not list ${INSTRUMENT_TYPES[instrumentType].label.toLowerCase()} instruments`,
+    };
+  }
+  return { isValid: true };
+}
+
+/**
+ * Instrument type of a stock; stocks without one are equities
+ */
+export function getInstrumentType(stock: Pick<StockInfo, 'instrumentType'>): InstrumentType {
+  return stock.instrumentType ?? 'equity';
+}
+
+/**
+ * Best guess at the exchange from the instrument type and the symbol's
+ * exchange suffix (7203.T -> TSE). US listings carry no suffix, so they
+ * stay undefined.
+ */
+export function inferExchange(symbol: string, instrumentType: InstrumentType = 'equity'): ExchangeCode | undefined {
+  if (instrumentType === 'crypto') return 'CRYPTO';
+  if (instrumentType === 'fx') return 'FX';
+  return EXCHANGE_CODES.find(code => {
+    const { suffix } = EXCHANGES[code];
+    return suffix !== undefined && symbol.endsWith(suffix) && symbol.length > suffix.length;
+  });
+}
+
 export function validateStockName(name: string): ValidationResult {
   if (!name || typeof name !== 'string') {
     return { isValid: false, errorMessage: 'Stock name is required' };
@@ -393,10 +1243,9 @@ export function checkMemoryUsage(memoryStats?: MemoryStats): ValidationResult {
 }
 
 /**
- * Secure storage utilities with encryption
+ * Checksum of items saved before storage was encrypted, to verify them when upgrading
  */
 export function generateChecksum(data: string): string {
-  // Simple implementation - in production use a proper hashing algorithm
   let hash = 0;
   for (let i = 0; i < data.length; i++) {
     const char = data.charCodeAt(i);
@@ -406,172 +1255,189 @@ export function generateChecksum(data: string): string {
   return hash.toString(16);
 }
 
-export function encryptData(data: string): string {
-  // Simple XOR encryption - in production use a proper encryption library
-  const key = SECURITY_CONSTRAINTS.STORAGE_ENCRYPTION_KEY;
-  let result = '';
-  
-  for (let i = 0; i < data.length; i++) {
-    const charCode = data.charCodeAt(i) ^ key.charCodeAt(i % key.length);
-    result += String.fromCharCode(charCode);
-  }
-  
-  // Convert to base64 for safe storage
-  return btoa(result);
-}
+/**
+ * Rates used by convertCurrency. TickerProvider replaces them with the latest
+ * rates from the configured rates provider.
+ */
+let activeCurrencyRates: Record<Currency, number> = { ...CURRENCY_RATES };
 
-export function decryptData(encryptedData: string): string {
-  try {
-    // Convert from base64
-    const data = atob(encryptedData);
-    const key = SECURITY_CONSTRAINTS.STORAGE_ENCRYPTION_KEY;
-    let result = '';
-    
-    for (let i = 0; i < data.length; i++) {
-      const charCode = data.charCodeAt(i) ^ key.charCodeAt(i % key.length);
-      result += String.fromCharCode(charCode);
-    }
-    
-    return result;
-  } catch (err) {
-    console.error('Error decrypting data:', err);
-    return '';
-  }
+export function getCurrencyRates(): Record<Currency, number> {
+  return activeCurrencyRates;
 }
 
-export function saveToSecureStorage<T>(key: string, data: T): ValidationResult {
-  try {
-    // Convert data to string
-    const dataString = JSON.stringify(data);
-    
-    // Create secure item with metadata
-    const secureItem: SecureStorageItem<T> = {
-      data,
-      timestamp: Date.now(),
-      checksum: generateChecksum(dataString),
-      version: 1
-    };
-    
-    // Encrypt and store
-    const encryptedData = encryptData(JSON.stringify(secureItem));
-    localStorage.setItem(
-      `${SECURITY_CONSTRAINTS.STORAGE_PREFIX}${key}`,
-      encryptedData
-    );
-    
-    return { isValid: true };
-  } catch (err) {
-    return {
-      isValid: false,
-      errorMessage: `Failed to save data: ${err instanceof Error ? err.message : String(err)}`
-    };
-  }
+export function setCurrencyRates(rates: Record<Currency, number>): void {
+  activeCurrencyRates = { ...rates };
 }
 
-export function loadFromSecureStorage<T>(key: string): { result: ValidationResult; data?: T } {
-  try {
-    // Get encrypted data
-    const encryptedData = localStorage.getItem(
-      `${SECURITY_CONSTRAINTS.STORAGE_PREFIX}${key}`
-    );
-    
-    if (!encryptedData) {
-      return {
-        result: {
-          isValid: false,
-          errorMessage: `No data found for key: ${key}`
-        }
-      };
-    }
-    
-    // Decrypt data
-    const decryptedData = decryptData(encryptedData);
-    
-    if (!decryptedData) {
-      return {
-        result: {
-          isValid: false,
-          errorMessage: 'Failed to decrypt data'
-        }
-      };
-    }
-    
-    // Parse secure item
-    const secureItem = JSON.parse(decryptedData) as SecureStorageItem<T>;
-    
-    // Verify checksum
-    const dataString = JSON.stringify(secureItem.data);
-    const currentChecksum = generateChecksum(dataString);
-    
-    if (currentChecksum !== secureItem.checksum) {
-      return {
-        result: {
-          isValid: false,
-          errorMessage: 'Data integrity check failed'
-        }
-      };
-    }
-    
-    return {
-      result: { isValid: true },
-      data: secureItem.data
-    };
-  } catch (err) {
-    return {
-      result: {
-        isValid: false,
-        errorMessage: `Failed to load data: ${err instanceof Error ? err.message : String(err)}`
-      }
-    };
-  }
+/**
+ * Currencies that can be displayed and listed in: those the rates have a rate for
+ */
+export function getSupportedCurrencies(rates: Record<Currency, number> = activeCurrencyRates): Currency[] {
+  return Object.keys(rates).sort();
 }
 
 /**
  * Currency conversion utilities
  */
-export function convertCurrency(amount: number, fromCurrency: Currency, toCurrency: Currency): number {
+export function convertCurrency(
+  amount: number,
+  fromCurrency: Currency,
+  toCurrency: Currency,
+  rates: Record<Currency, number> = activeCurrencyRates
+): number {
   if (fromCurrency === toCurrency) {
     return amount;
   }
   
   // Convert to USD first, then to target currency
-  const usdAmount = amount / CURRENCY_RATES[fromCurrency];
-  const convertedAmount = usdAmount * CURRENCY_RATES[toCurrency];
+  const usdAmount = amount / rates[fromCurrency];
+  const convertedAmount = usdAmount * rates[toCurrency];
   
   return convertedAmount;
 }
 
 /**
- * Format a price with currency symbol
+ * Display preferences used by formatPrice and formatNumber. TickerProvider
+ * replaces them when the user changes them.
  */
-export function formatPrice(amount: number, currency: Currency, decimals: number = 2): string {
-  const currencyInfo = CURRENCIES[currency];
+let activeFormatPreferences: FormatPreferences = { ...DEFAULT_FORMAT_PREFERENCES };
+
+export function getFormatPreferences(): FormatPreferences {
+  return activeFormatPreferences;
+}
+
+export function setFormatPreferences(preferences: FormatPreferences): void {
+  activeFormatPreferences = { ...preferences };
+}
+
+// Intl.NumberFormat instances are costly to create, so they are reused per locale and options
+const numberFormatCache = new Map<string, Intl.NumberFormat>();
+
+function getNumberFormat(options: Intl.NumberFormatOptions): Intl.NumberFormat {
+  const locale = activeFormatPreferences.locale || undefined;
+  const key = JSON.stringify([locale ?? '', options]);
+  let format = numberFormatCache.get(key);
+  if (!format) {
+    format = new Intl.NumberFormat(locale, options);
+    numberFormatCache.set(key, format);
+  }
+  return format;
+}
+
+/**
+ * Number of minor-unit digits a currency is normally shown with (0 for JPY, KRW, ...)
+ */
+export function getCurrencyDecimals(currency: Currency): number {
+  return getNumberFormat({ style: 'currency', currency }).resolvedOptions().maximumFractionDigits ?? 2;
+}
+
+export interface PriceFormatOptions {
+  // Abbreviate (e.g. $1.2M) regardless of the user's preference (true) or never (false)
+  compact?: boolean;
+}
+
+/**
+ * Symbol and name of a currency, from CURRENCIES or else from Intl in the user's locale
+ */
+export function getCurrencyInfo(currency: Currency): CurrencyInfo {
+  if (Object.prototype.hasOwnProperty.call(CURRENCIES, currency)) {
+    return CURRENCIES[currency];
+  }
+  
+  let name = currency;
+  try {
+    name = new Intl.DisplayNames(activeFormatPreferences.locale || undefined, { type: 'currency' }).of(currency) ?? currency;
+  } catch {
+    // Keep the code as the name where Intl.DisplayNames is unavailable
+  }
+  const symbol = getNumberFormat({ style: 'currency', currency }).formatToParts(0)
+    .find(part => part.type === 'currency')?.value ?? currency;
+  return { code: currency, symbol, name };
+}
+
+/**
+ * Format a price in the user's locale. When the amount is in another currency
+ * (fromCurrency), it is converted with the active rates first. Currencies
+ * without minor units (JPY, KRW, ...) are always shown without decimals.
+ */
+export function formatPrice(
+  amount: number,
+  currency: Currency,
+  decimals: number = 2,
+  fromCurrency?: Currency,
+  options: PriceFormatOptions = {}
+): string {
+  if (fromCurrency) {
+    amount = convertCurrency(amount, fromCurrency, currency);
+  }
   
-  // Special formatting for JPY (no decimals)
-  const finalDecimals = currency === 'JPY' ? 0 : decimals;
+  const compact = options.compact ??
+    (activeFormatPreferences.compactLargeAmounts && Math.abs(amount) >= COMPACT_AMOUNT_THRESHOLD);
+  if (compact) {
+    return getNumberFormat({ style: 'currency', currency, notation: 'compact' }).format(amount);
+  }
   
-  const formattedAmount = amount.toFixed(finalDecimals);
+  const finalDecimals = getCurrencyDecimals(currency) === 0 ? 0 : decimals;
+  return getNumberFormat({
+    style: 'currency',
+    currency,
+    minimumFractionDigits: finalDecimals,
+    maximumFractionDigits: finalDecimals,
+  }).format(amount);
+}
+
+/**
+ * Format a plain number (quantities, percentages, ...) in the user's locale
+ */
+export function formatNumber(value: number, options: Intl.NumberFormatOptions = {}): string {
+  return getNumberFormat(options).format(value);
+}
+
+/**
+ * Validate a display locale; '' stands for the browser's locale
+ */
+export function validateLocale(locale: string): ValidationResult {
+  if (typeof locale !== 'string') {
+    return { isValid: false, errorMessage: 'Locale must be a string' };
+  }
+  if (locale === '') {
+    return { isValid: true };
+  }
   
-  // Add thousands separators
-  const parts = formattedAmount.split('.');
-  parts[0] = parts[0].replace(/\B(?=(\d{3})+(?!\d))/g, ',');
-  const formattedWithCommas = parts.join('.');
+  try {
+    if (Intl.NumberFormat.supportedLocalesOf(locale).length === 0) {
+      return { isValid: false, errorMessage: `Locale ${locale} is not supported by this browser` };
+    }
+  } catch {
+    return { isValid: false, errorMessage: `Invalid locale: ${locale}` };
+  }
   
-  return `${currencyInfo.symbol}${formattedWithCommas}`;
+  return { isValid: true };
 }
 
 /**
- * Validate currency selection
+ * Listing currency of a stock; stocks without one are quoted in USD
  */
-export function validateCurrency(currency: string): ValidationResult {
+export function getStockCurrency(stock: Pick<StockInfo, 'currency'>): Currency {
+  return stock.currency ?? 'USD';
+}
+
+/**
+ * Validate currency selection against the currencies there are rates for
+ */
+export function validateCurrency(currency: string, rates: Record<Currency, number> = activeCurrencyRates): ValidationResult {
   if (!currency || typeof currency !== 'string') {
     return { isValid: false, errorMessage: 'Currency is required' };
   }
   
-  if (!(currency in CURRENCIES)) {
+  if (!CURRENCY_CODE_PATTERN.test(currency)) {
+    return { isValid: false, errorMessage: `Invalid currency: ${currency}. Currencies are ISO 4217 codes such as USD` };
+  }
+  
+  if (!Object.prototype.hasOwnProperty.call(rates, currency)) {
     return { 
       isValid: false, 
-      errorMessage: `Invalid currency: ${currency}. Supported currencies: ${Object.keys(CURRENCIES).join(', ')}` 
+      errorMessage: `No exchange rate for ${currency}. Supported currencies: ${getSupportedCurrencies(rates).join(', ')}` 
     };
   }
   
@@ -1,9 +1,49 @@
 import React, { useState, FormEvent, useEffect } from 'react';
 import { useClerk } from '@clerk/clerk-react';
 import { useTickerContext } from '../lib/context';
-import { StockInfo, Currency, CURRENCIES, formatPrice } from '../lib/types';
-import { shouldUseApiServer, buildApiUrl, API_ENDPOINTS } from '../lib/config';
+import {
+  StockInfo,
+  Currency,
+  EXCHANGES,
+  EXCHANGE_CODES,
+  ExchangeCode,
+  INSTRUMENT_TYPES,
+  InstrumentType,
+  formatPrice,
+  getCurrencyInfo,
+  getStockCurrency,
+  getSupportedCurrencies,
+  sanitizeStockSymbol,
+  DownsampleMethod,
+  HistoryRetentionConfig,
+} from '../lib/types';
+import { shouldUseApiServer, apiClient } from '../lib/config';
 import Tooltip from '../components/Tooltip';
+import PriceModelSettings from '../components/PriceModelSettings';
+import ScenarioPanel from '../components/ScenarioPanel';
+import AlertSettings from '../components/AlertSettings';
+import RatesSettings from '../components/RatesSettings';
+import FormatSettings from '../components/FormatSettings';
+import SetupTransfer from '../components/SetupTransfer';
+import ReplayPanel from '../components/ReplayPanel';
+import StorageStatus from '../components/StorageStatus';
+import SyncStatus from '../components/SyncStatus';
+import CommandHistory from '../components/CommandHistory';
+import TabSyncStatus from '../components/TabSyncStatus';
+import { HISTORY_RETENTION_PRESETS, getRetentionCoverageMs } from '../lib/historyStore';
+
+type RetentionPreset = keyof typeof HISTORY_RETENTION_PRESETS;
+
+// Format a duration in milliseconds as e.g. "45m" or "8h 20m"
+const formatDuration = (ms: number): string => {
+  const totalMinutes = Math.round(ms / 60000);
+  if (totalMinutes < 60) {
+    return `${Math.max(totalMinutes, 1)}m`;
+  }
+  const hours = Math.floor(totalMinutes / 60);
+  const minutes = totalMinutes % 60;
+  return minutes > 0 ? `${hours}h ${minutes}m` : `${hours}h`;
+};
 
 // Add global style for select dropdowns
 // This is needed because select option styling is not consistently supported across browsers
@@ -82,8 +122,10 @@ const styleOptionsForDarkMode = () => {
 
 export default function ControlsPage() {
   const { signOut } = useClerk();
-  const { tickerState, setPrice, updateSpeed, togglePause, addStock, removeStock, changeCurrency } = useTickerContext();
-  const { stocks, updateIntervalMs, isPaused, selectedCurrency } = tickerState;
+  const { tickerState, setPrice, setPrices, updateSpeed, togglePause, addStock, removeStock, changeCurrency, setPriceModel, setSimulationSeed, setHistoryRetention, startScenario, pauseScenario, resumeScenario, abortScenario, addAlert, removeAlert, setAlertEnabled, clearAlertEvents, dismissSyncConflict, clearSyncConflicts, retryFailedEdit, discardFailedEdit, setRatesProvider, refreshRates, updateFormatPreferences, exportSetup, importSetup, importPriceHistory, getStockPriceHistory, startReplay, pauseReplay, resumeReplay, seekReplay, setReplayOptions, stopReplay, undo, redo } = useTickerContext();
+  const { stocks, updateIntervalMs, isPaused, selectedCurrency, simulationSeed, scenario, replay, historyRetention, alerts, alertEvents, fxRates, formatPreferences, storage, tabSync, sync, commandLog } = tickerState;
+  // Offered in the currency pickers: whatever the rates provider has rates for
+  const currencies = getSupportedCurrencies(fxRates.snapshot.rates);
 
   // Hydration state to prevent SSR mismatch
   const [isHydrated, setIsHydrated] = useState(false);
@@ -92,6 +134,9 @@ export default function ControlsPage() {
   const [newStockSymbol, setNewStockSymbol] = useState('');
   const [newStockName, setNewStockName] = useState('');
   const [newStockPrice, setNewStockPrice] = useState('');
+  const [newStockCurrency, setNewStockCurrency] = useState<Currency>('USD');
+  const [newStockType, setNewStockType] = useState<InstrumentType>('equity');
+  const [newStockExchange, setNewStockExchange] = useState<ExchangeCode | ''>('');
   const [formError, setFormError] = useState('');
 
   // State for selected stock
@@ -107,6 +152,11 @@ export default function ControlsPage() {
   
   // State for volatility control
   const [volatility, setVolatility] = useState<number>(2.0);
+  
+  // State for replaying a seeded simulation
+  const [seedInput, setSeedInput] = useState('');
+  const [seedError, setSeedError] = useState('');
+  const [retentionError, setRetentionError] = useState('');
 
   // API Server status management
   const [serverStatus, setServerStatus] = useState<'online' | 'offline' | 'checking' | 'restarting'>('checking');
@@ -137,29 +187,21 @@ export default function ControlsPage() {
     }
     
     if (selectedStock === 'ALL_STOCKS') {
-      // Apply percentage change to all stocks
-      let hasError = false;
-      let errorMessage = '';
-      
-      stocks.forEach(stock => {
+      // Apply percentage change to all stocks, as one action in the undo history
+      const prices: Record<string, number> = {};
+      for (const stock of stocks) {
         const finalPrice = stock.currentPrice * (1 + percentageChange / 100);
         
         if (finalPrice < 0.01 || finalPrice > 1000000) {
-          hasError = true;
-          errorMessage = `Price for ${stock.symbol} would be out of range ($0.01 - $1,000,000)`;
-          return;
-        }
-        
-        const result = setPrice(stock.symbol, finalPrice);
-        if (!result.isValid && result.errorMessage) {
-          hasError = true;
-          errorMessage = result.errorMessage;
+          setPriceError(`Price for ${stock.symbol} would be out of range ($0.01 - $1,000,000)`);
           return;
         }
-      });
+        prices[stock.symbol] = finalPrice;
+      }
       
-      if (hasError) {
-        setPriceError(errorMessage);
+      const result = setPrices(prices, `${percentageChange > 0 ? '+' : ''}${percentageChange.toFixed(1)}% on all stocks`);
+      if (!result.isValid && result.errorMessage) {
+        setPriceError(result.errorMessage);
         return;
       }
     } else {
@@ -215,20 +257,10 @@ export default function ControlsPage() {
     
     if (selectedStock === 'ALL_STOCKS') {
       // Apply same price to all stocks
-      let hasError = false;
-      let errorMessage = '';
-      
-      stocks.forEach(stock => {
-        const result = setPrice(stock.symbol, finalPrice);
-        if (!result.isValid && result.errorMessage) {
-          hasError = true;
-          errorMessage = result.errorMessage;
-          return;
-        }
-      });
-      
-      if (hasError) {
-        setPriceError(errorMessage);
+      const prices = Object.fromEntries(stocks.map(stock => [stock.symbol, finalPrice]));
+      const result = setPrices(prices, `Set all stocks to ${finalPrice}`);
+      if (!result.isValid && result.errorMessage) {
+        setPriceError(result.errorMessage);
         return;
       }
     } else {
@@ -248,6 +280,35 @@ export default function ControlsPage() {
     setPriceError('');
   };
 
+  // Restart the simulation from a seed so a session can be replayed
+  const handleSeedSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    
+    if (!seedInput.trim()) {
+      setSeedError('Please enter a seed');
+      return;
+    }
+    
+    const result = setSimulationSeed(seedInput);
+    if (!result.isValid && result.errorMessage) {
+      setSeedError(result.errorMessage);
+      return;
+    }
+    
+    setSeedError('');
+    setSeedInput('');
+  };
+
+  // Match the current retention config to a preset (tier layout only; the method is chosen separately)
+  const retentionPreset = (Object.keys(HISTORY_RETENTION_PRESETS) as RetentionPreset[]).find(preset =>
+    JSON.stringify(HISTORY_RETENTION_PRESETS[preset].tiers) === JSON.stringify(historyRetention.tiers)
+  );
+
+  const applyHistoryRetention = (config: HistoryRetentionConfig) => {
+    const result = setHistoryRetention(config);
+    setRetentionError(!result.isValid && result.errorMessage ? result.errorMessage : '');
+  };
+
   // Hydration effect to prevent SSR mismatch
   useEffect(() => {
     setIsHydrated(true);
@@ -288,13 +349,21 @@ export default function ControlsPage() {
     }
 
     // Check if stock symbol already exists
-    if (stocks.some(stock => stock.symbol === newStockSymbol.toUpperCase())) {
+    const symbol = sanitizeStockSymbol(newStockSymbol, newStockType);
+    if (stocks.some(stock => stock.symbol === symbol)) {
       setFormError('Stock symbol already exists');
       return;
     }
 
-    // Add the new stock
-    addStock(newStockSymbol.toUpperCase(), newStockName, price);
+    // Add the new stock, quoted in its listing currency; a blank exchange is inferred from the symbol
+    const result = addStock(newStockSymbol, newStockName, price, undefined, newStockCurrency, {
+      instrumentType: newStockType,
+      exchange: newStockExchange || undefined,
+    });
+    if (!result.isValid) {
+      setFormError(result.errorMessage || 'Unable to add stock');
+      return;
+    }
 
     // Reset form
     setNewStockSymbol('');
@@ -303,7 +372,25 @@ export default function ControlsPage() {
     setFormError('');
     
     // Select the newly added stock
-    setSelectedStock(newStockSymbol.toUpperCase());
+    setSelectedStock(symbol);
+  };
+
+  // Exchanges that list the chosen instrument type
+  const newStockExchanges = EXCHANGE_CODES.filter(code => EXCHANGES[code].instrumentTypes.includes(newStockType));
+
+  const handleNewStockTypeChange = (type: InstrumentType) => {
+    setNewStockType(type);
+    // Crypto and FX have a single venue; otherwise keep the exchange if it still fits
+    const venues = EXCHANGE_CODES.filter(code => EXCHANGES[code].instrumentTypes.includes(type));
+    setNewStockExchange(prev => venues.length === 1 ? venues[0] : (prev && venues.includes(prev) ? prev : ''));
+  };
+
+  const handleNewStockExchangeChange = (exchange: ExchangeCode | '') => {
+    setNewStockExchange(exchange);
+    // Most listings trade in the exchange's home currency
+    if (exchange && newStockType !== 'crypto' && newStockType !== 'fx') {
+      setNewStockCurrency(EXCHANGES[exchange].currency);
+    }
   };
 
   // Apply the dark select options styling when component mounts
@@ -331,7 +418,7 @@ export default function ControlsPage() {
         setServerStatus('checking');
         
         // Import JWT bridge functions
-        const { isJWTBridgeAuthenticated, authenticateWithJWTBridge, getJWTBridgeHeaders } = await import('../auth/utils/clerkJwtBridge');
+        const { isJWTBridgeAuthenticated, authenticateWithJWTBridge } = await import('../auth/utils/clerkJwtBridge');
         
         // Try to authenticate if not already authenticated
         if (!isJWTBridgeAuthenticated()) {
@@ -345,16 +432,9 @@ export default function ControlsPage() {
         }
         
         // Now make authenticated request
-        const apiUrl = buildApiUrl(API_ENDPOINTS.STOCKS);
-        const headers = getJWTBridgeHeaders();
+        const result = await apiClient.getStocks();
         
-        const response = await fetch(apiUrl, {
-          method: 'GET',
-          headers,
-        });
-        
-        if (response.ok) {
-          const data = await response.json();
+        if (result.ok) {
           setServerStatus('online');
           setServerInfo({
             port: 3001,
@@ -362,7 +442,7 @@ export default function ControlsPage() {
             uptime: 'Running'
           });
           console.log('✅ API Server Status: Connected and authenticated');
-        } else if (response.status === 401) {
+        } else if (result.error.kind === 'unauthorized') {
           // 401 means server is up but authentication failed
           setServerStatus('online');
           setServerInfo({
@@ -372,26 +452,32 @@ export default function ControlsPage() {
             error: undefined // Clear any previous errors
           });
           console.log('🔑 API Server Status: Online (authentication required)');
-        } else {
-          throw new Error(`Server responded with status ${response.status}`);
-        }
-      } catch (error) {
-        // Only show as offline for real connection errors (not auth errors)
-        if (error instanceof Error && error.message.includes('fetch')) {
+        } else if (result.error.kind === 'network' || result.error.kind === 'timeout') {
+          // Only show as offline for real connection errors (not auth errors)
           setServerStatus('offline');
           setServerInfo({
             lastCheck: new Date(),
             error: 'Connection failed - Server may be down'
           });
+          console.log('⚠️ API Status check result:', result.error.message);
         } else {
-          // Authentication or other errors - server is likely up
+          // The server answered, but not with usable data
           setServerStatus('online');
           setServerInfo({
             lastCheck: new Date(),
             uptime: 'Server responding',
-            error: 'Authentication in progress'
+            error: result.error.message
           });
+          console.log('⚠️ API Status check result:', result.error.message);
         }
+      } catch (error) {
+        // Authentication errors - server is likely up
+        setServerStatus('online');
+        setServerInfo({
+          lastCheck: new Date(),
+          uptime: 'Server responding',
+          error: 'Authentication in progress'
+        });
         console.log('⚠️ API Status check result:', error instanceof Error ? error.message : 'Unknown error');
       }
     };
@@ -425,47 +511,21 @@ export default function ControlsPage() {
       };
       
       // First, authenticate to get a valid token
-      let authToken = null;
-      try {
-        const authUrl = buildApiUrl(API_ENDPOINTS.AUTH);
-        const authResponse = await fetch(authUrl, {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify(adminCredentials)
-        });
-        
-        if (authResponse.ok) {
-          const authData = await authResponse.json();
-          if (authData.success && authData.token) {
-            authToken = authData.token;
-            console.log('✅ Successfully authenticated for server restart');
-          } else {
-            throw new Error('Authentication failed - invalid credentials');
-          }
-        } else {
-          throw new Error(`Authentication failed - server responded with ${authResponse.status}`);
-        }
-      } catch (authError) {
-        console.error('❌ Authentication error:', authError);
-        setRestartError(`Authentication failed: ${authError instanceof Error ? authError.message : 'Unknown error'}. Please ensure the API server is running and accessible.`);
+      const authResult = await apiClient.login(adminCredentials.username, adminCredentials.password);
+      if (!authResult.ok) {
+        console.error('❌ Authentication error:', authResult.error);
+        setRestartError(`Authentication failed: ${authResult.error.message}. Please ensure the API server is running and accessible.`);
         setServerStatus('offline');
         return;
       }
+      console.log('✅ Successfully authenticated for server restart');
       
       // Now send the restart command with proper authentication
       try {
-        const restartUrl = buildApiUrl(API_ENDPOINTS.RESTART);
-        const restartResponse = await fetch(restartUrl, {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-            'Authorization': `Bearer ${authToken}`
-          }
-        });
+        const restartResult = await apiClient.restart({ token: authResult.data.token });
         
-        if (restartResponse.ok) {
-          const restartData = await restartResponse.json();
-          console.log('✅ Server restart command sent successfully:', restartData);
+        if (restartResult.ok) {
+          console.log('✅ Server restart command sent successfully:', restartResult.data);
           setRestartSuccess(true);
           
           // The server will now restart, so we need to wait and then check status
@@ -484,13 +544,10 @@ export default function ControlsPage() {
               pollAttempts++;
               
               try {
-                const statusUrl = buildApiUrl(API_ENDPOINTS.STOCKS);
-                const statusResponse = await fetch(statusUrl, {
-                  method: 'GET',
-                  timeout: 5000
-                });
+                // Any answer, even a 401, means the server is back
+                const statusResult = await apiClient.getStocks({ timeoutMs: 5000, anonymous: true });
                 
-                if (statusResponse.ok) {
+                if (statusResult.ok || statusResult.error.kind === 'unauthorized') {
                   console.log('✅ Server is back online!');
                   setServerStatus('online');
                   setServerInfo({
@@ -524,8 +581,7 @@ export default function ControlsPage() {
           }, 3000);
           
         } else {
-          const errorData = await restartResponse.json().catch(() => ({ error: 'Unknown error' }));
-          throw new Error(errorData.error || `Server responded with status ${restartResponse.status}`);
+          throw new Error(restartResult.error.message);
         }
       } catch (restartError) {
         console.error('❌ Restart command failed:', restartError);
@@ -559,10 +615,16 @@ export default function ControlsPage() {
   return (
     <div className="space-y-8 text-white">
       <div>
-        <h2 className="text-xl font-semibold mb-4">Control Panel</h2>
+        <h2 className="text-xl font-semibold mb-4 flex items-center gap-3">
+          Control Panel
+          <TabSyncStatus tabSync={tabSync} />
+        </h2>
         <p className="text-sm text-gray-400 mb-6">Adjust stock prices, update speed, and manage displayed stocks.</p>
       </div>
 
+      {/* Undo/redo for the actions below */}
+      <CommandHistory commandLog={commandLog} onUndo={undo} onRedo={redo} />
+
       {/* API Server Status & Control */}
       <div className="bg-gray-900 p-4 rounded-lg border border-gray-700">
         <h3 className="font-medium mb-3 flex items-center gap-2">
@@ -634,6 +696,16 @@ export default function ControlsPage() {
             </button>
           </div>
           
+          {shouldUseApiServer() && (
+            <SyncStatus
+              sync={sync}
+              onDismiss={dismissSyncConflict}
+              onClear={clearSyncConflicts}
+              onRetry={retryFailedEdit}
+              onDiscard={discardFailedEdit}
+            />
+          )}
+          
           {restartError && (
             <div className="p-3 bg-red-900 text-red-100 text-sm rounded-md border border-red-700">
               <div className="font-medium mb-1">⚠️ Restart Failed</div>
@@ -746,6 +818,139 @@ export default function ControlsPage() {
         </button>
       </div>
 
+      {/* Simulation Seed */}
+      <div className="bg-gray-900 p-4 rounded-lg border border-gray-700">
+        <div className="flex items-center gap-2 mb-3">
+          <h3 className="font-medium">Simulation Seed</h3>
+          <Tooltip 
+            content="Every simulated price comes from a seeded random source. Restarting with the same seed resets all stocks to their initial prices and replays the same price movements tick for tick."
+            position="right"
+          >
+            <div className="inline-flex items-center justify-center w-4 h-4 text-xs font-bold text-white bg-blue-600 rounded-full cursor-help hover:bg-blue-500 transition-colors">
+              ?
+            </div>
+          </Tooltip>
+        </div>
+        
+        <div className="flex items-center gap-4 mb-3 bg-gray-800 p-3 rounded-md border border-gray-700">
+          <span className="text-sm font-medium text-gray-300">Current Seed:</span>
+          <span className="text-lg font-mono font-bold text-blue-400">{simulationSeed}</span>
+        </div>
+        
+        <form onSubmit={handleSeedSubmit} className="space-y-3">
+          {seedError && (
+            <div className="p-2 bg-red-900 text-red-100 text-sm rounded-md">
+              {seedError}
+            </div>
+          )}
+          <div className="flex items-center gap-3">
+            <input
+              id="seed-input"
+              type="text"
+              value={seedInput}
+              onChange={(e) => setSeedInput(e.target.value)}
+              placeholder="Number or text, e.g. 42 or earnings-demo"
+              className="flex-1 p-2 border border-gray-700 rounded-md bg-black text-white"
+            />
+            <button
+              type="submit"
+              className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-md transition-colors font-medium text-sm"
+            >
+              Restart with Seed
+            </button>
+          </div>
+        </form>
+      </div>
+
+      {/* Price History Retention */}
+      <div className="bg-gray-900 p-4 rounded-lg border border-gray-700">
+        <div className="flex items-center gap-2 mb-3">
+          <h3 className="font-medium">Price History Retention</h3>
+          <Tooltip 
+            content="Recent prices are kept at full resolution. As they age they are downsampled into coarser tiers, so charts can show hours of history in bounded memory. LTTB keeps the shape of the line; Min/Max keeps every spike."
+            position="right"
+          >
+            <div className="inline-flex items-center justify-center w-4 h-4 text-xs font-bold text-white bg-blue-600 rounded-full cursor-help hover:bg-blue-500 transition-colors">
+              ?
+            </div>
+          </Tooltip>
+        </div>
+        
+        {retentionError && (
+          <div className="mb-3 p-2 bg-red-900 text-red-100 text-sm rounded-md">
+            {retentionError}
+          </div>
+        )}
+        
+        <div className="grid grid-cols-2 gap-3 mb-3">
+          <div>
+            <label htmlFor="retention-preset" className="block text-sm font-medium text-gray-300 mb-1">
+              Retention
+            </label>
+            <select
+              id="retention-preset"
+              value={retentionPreset ?? ''}
+              onChange={(e) => applyHistoryRetention({
+                ...HISTORY_RETENTION_PRESETS[e.target.value as RetentionPreset],
+                method: historyRetention.method,
+              })}
+              className="w-full p-2 border border-gray-700 rounded-md bg-black text-white"
+            >
+              {!retentionPreset && <option value="">Custom</option>}
+              {(Object.keys(HISTORY_RETENTION_PRESETS) as RetentionPreset[]).map(preset => (
+                <option key={preset} value={preset}>
+                  {preset.charAt(0).toUpperCase() + preset.slice(1)}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label htmlFor="retention-method" className="block text-sm font-medium text-gray-300 mb-1">
+              Downsampling
+            </label>
+            <select
+              id="retention-method"
+              value={historyRetention.method}
+              onChange={(e) => applyHistoryRetention({ ...historyRetention, method: e.target.value as DownsampleMethod })}
+              className="w-full p-2 border border-gray-700 rounded-md bg-black text-white"
+            >
+              <option value="lttb">LTTB (shape)</option>
+              <option value="minmax">Min/Max (extremes)</option>
+            </select>
+          </div>
+        </div>
+        
+        <div className="bg-gray-800 p-3 rounded-md border border-gray-700 text-sm text-gray-300 space-y-1">
+          {historyRetention.tiers.map((tier, index) => {
+            const resolution = historyRetention.tiers
+              .slice(1, index + 1)
+              .reduce((total, t) => total * t.compression, 1);
+            return (
+              <div key={index} className="flex justify-between">
+                <span>Tier {index + 1}: {tier.capacity} points</span>
+                <span className="text-gray-400">
+                  {index === 0 ? 'every tick' : `~1 per ${resolution} ticks`}
+                </span>
+              </div>
+            );
+          })}
+          <div className="flex justify-between pt-1 border-t border-gray-700 font-medium">
+            <span>Covers about</span>
+            <span className="text-blue-400">{formatDuration(getRetentionCoverageMs(historyRetention, updateIntervalMs))}</span>
+          </div>
+        </div>
+        
+        <div className="mt-3 flex items-center justify-between gap-2 text-sm text-gray-400">
+          <span>History is saved between visits</span>
+          <StorageStatus storage={storage} />
+        </div>
+        {storage.quotaError && (
+          <div className="mt-2 p-2 bg-red-900 text-red-100 text-sm rounded-md">
+            {storage.quotaError}
+          </div>
+        )}
+      </div>
+
       {/* Price Adjustment */}
       {stocks.length > 0 && (
         <div className="bg-gray-900 p-4 rounded-lg border border-gray-700">
@@ -824,28 +1029,22 @@ backgroundImage: "url('data:image/svg+xml;charset=US-ASCII,%3Csvg%20xmlns%3D%22h
             <button
               type="button"
               onClick={() => {
-                let hasError = false;
-                let errorMessage = '';
-
-                Object.entries(individualStockPrices).forEach(([symbol, price]) => {
+                const prices: Record<string, number> = {};
+                for (const [symbol, price] of Object.entries(individualStockPrices)) {
                   const parsedPrice = parseFloat(price);
                   if (isNaN(parsedPrice) || parsedPrice <= 0) {
-                    hasError = true;
-                    errorMessage = `Invalid price for ${symbol}`;
+                    setPriceError(`Invalid price for ${symbol}`);
                     return;
                   }
+                  prices[symbol] = parsedPrice;
+                }
 
-                  const result = setPrice(symbol, parsedPrice);
+                if (Object.keys(prices).length > 0) {
+                  const result = setPrices(prices);
                   if (!result.isValid && result.errorMessage) {
-                    hasError = true;
-                    errorMessage = result.errorMessage;
+                    setPriceError(result.errorMessage);
                     return;
                   }
-                });
-                
-                if (hasError) {
-                  setPriceError(errorMessage);
-                  return;
                 }
 
                 setPriceError('');
@@ -954,7 +1153,12 @@ backgroundImage: "url('data:image/svg+xml;charset=US-ASCII,%3Csvg%20xmlns%3D%22h
             <>
               <div className="flex items-center gap-4 mb-4 bg-gray-800 p-3 rounded-md border border-gray-700">
                 <span className="text-sm font-medium text-gray-300">Current Price: </span>
-                <span className="text-lg font-bold text-blue-400">{formatPrice(currentStock.currentPrice, selectedCurrency)}</span>
+                <span className="text-lg font-bold text-blue-400">{formatPrice(currentStock.currentPrice, getStockCurrency(currentStock))}</span>
+                {getStockCurrency(currentStock) !== selectedCurrency && (
+                  <span className="text-sm text-gray-400">
+                    ≈ {formatPrice(currentStock.currentPrice, selectedCurrency, 2, getStockCurrency(currentStock))}
+                  </span>
+                )}
               </div>
               
               <div className="space-y-4">
@@ -1000,7 +1204,7 @@ backgroundImage: "url('data:image/svg+xml;charset=US-ASCII,%3Csvg%20xmlns%3D%22h
                   <div className="flex items-center justify-between gap-3">
                     {percentageChange !== 0 && (
                       <div className="text-xs text-gray-400 bg-gray-700 p-2 rounded flex-1">
-                        Preview: {formatPrice(currentStock.currentPrice * (1 + percentageChange / 100), selectedCurrency)}
+                        Preview: {formatPrice(currentStock.currentPrice * (1 + percentageChange / 100), getStockCurrency(currentStock))}
                       </div>
                     )}
                     <button
@@ -1024,7 +1228,7 @@ Apply Percentage Change
                   <div className="flex items-center gap-3">
                     <div className="flex-1">
                       <label htmlFor="price-input" className="block text-xs font-medium text-gray-400 mb-1">
-                        Enter Exact Price
+                        Enter Exact Price ({getStockCurrency(currentStock)})
                       </label>
                       <input
                         id="price-input"
@@ -1068,6 +1272,97 @@ Apply Percentage Change
         </div>
       )}
 
+      {/* Price Simulation Model */}
+      {currentStock && (
+        <div className="bg-gray-900 p-4 rounded-lg border border-gray-700">
+          <div className="flex items-center gap-2 mb-3">
+            <h3 className="font-medium">Price Model</h3>
+            <Tooltip 
+              content="Chooses how the selected stock moves on each automatic update. Geometric Brownian motion trends with constant volatility, mean reverting pulls back toward a target price, jump diffusion adds sudden gaps, and GARCH produces calm and turbulent periods."
+              position="right"
+            >
+              <div className="inline-flex items-center justify-center w-4 h-4 text-xs font-bold text-white bg-blue-600 rounded-full cursor-help hover:bg-blue-500 transition-colors">
+                ?
+              </div>
+            </Tooltip>
+          </div>
+          <PriceModelSettings stock={currentStock} onApply={setPriceModel} />
+        </div>
+      )}
+
+      {/* Market Scenarios */}
+      <div className="bg-gray-900 p-4 rounded-lg border border-gray-700">
+        <div className="flex items-center gap-2 mb-3">
+          <h3 className="font-medium">Market Scenarios</h3>
+          <Tooltip 
+            content="Script a market story as a timeline of steps, e.g. drop 12% over 90 seconds, then recover half of the move over 5 minutes with 3× volatility. Scenario time advances with each price update, so pausing the ticker also pauses the scenario. Save scenarios as JSON to rehearse the same story again later."
+            position="right"
+          >
+            <div className="inline-flex items-center justify-center w-4 h-4 text-xs font-bold text-white bg-blue-600 rounded-full cursor-help hover:bg-blue-500 transition-colors">
+              ?
+            </div>
+          </Tooltip>
+        </div>
+        <ScenarioPanel
+          symbols={stocks.map(stock => stock.symbol)}
+          progress={scenario}
+          onStart={startScenario}
+          onPause={pauseScenario}
+          onResume={resumeScenario}
+          onAbort={abortScenario}
+        />
+      </div>
+
+      {/* Historical Replay */}
+      <div className="bg-gray-900 p-4 rounded-lg border border-gray-700">
+        <div className="flex items-center gap-2 mb-3">
+          <h3 className="font-medium">Historical Replay</h3>
+          <Tooltip 
+            content="Drive stocks from recorded prices instead of the simulation, e.g. the minute bars of an earnings day, to demo a real market event with the usual chart and ticker. At 60× a trading hour plays in a minute. Drag the playhead on the timeline to jump to a moment; looping starts over at the first bar."
+            position="right"
+          >
+            <div className="inline-flex items-center justify-center w-4 h-4 text-xs font-bold text-white bg-blue-600 rounded-full cursor-help hover:bg-blue-500 transition-colors">
+              ?
+            </div>
+          </Tooltip>
+        </div>
+        <ReplayPanel
+          stocks={stocks}
+          replay={replay}
+          onStart={startReplay}
+          onPause={pauseReplay}
+          onResume={resumeReplay}
+          onSeek={seekReplay}
+          onSetOptions={setReplayOptions}
+          onStop={stopReplay}
+        />
+      </div>
+
+      {/* Price Alerts */}
+      <div className="bg-gray-900 p-4 rounded-lg border border-gray-700">
+        <div className="flex items-center gap-2 mb-3">
+          <h3 className="font-medium">Price Alerts</h3>
+          <Tooltip 
+            content="Get notified when a stock crosses a price, moves by a percentage since the start or within the last few minutes, or when its fast moving average crosses the slow one. One-shot alerts switch off after firing; repeating alerts fire again once the condition clears, no more often than their cooldown."
+            position="right"
+          >
+            <div className="inline-flex items-center justify-center w-4 h-4 text-xs font-bold text-white bg-blue-600 rounded-full cursor-help hover:bg-blue-500 transition-colors">
+              ?
+            </div>
+          </Tooltip>
+        </div>
+        <AlertSettings
+          symbols={stocks.map(stock => stock.symbol)}
+          currencies={Object.fromEntries(stocks.map(stock => [stock.symbol, getStockCurrency(stock)]))}
+          alerts={alerts}
+          events={alertEvents}
+          onAdd={addAlert}
+          onRemove={removeAlert}
+          onToggle={setAlertEnabled}
+          onClearEvents={clearAlertEvents}
+        />
+      </div>
+
       {/* Currency Selection */}
       <div className="bg-gray-900 p-4 rounded-lg border border-gray-700">
         <h3 className="font-medium mb-3">Currency Settings</h3>
@@ -1076,7 +1371,7 @@ Apply Percentage Change
           <div className="flex items-center gap-4 mb-4 bg-gray-800 p-3 rounded-md border border-gray-700">
             <span className="text-sm font-medium text-gray-300">Current Currency:</span>
             <span className="text-lg font-bold text-green-400">
-              {CURRENCIES[selectedCurrency].symbol} {CURRENCIES[selectedCurrency].name}
+              {getCurrencyInfo(selectedCurrency).symbol} {getCurrencyInfo(selectedCurrency).name}
             </span>
           </div>
           
@@ -1087,45 +1382,11 @@ Apply Percentage Change
             <select
               id="currency-select"
               value={selectedCurrency}
-              onChange={async (e) => {
-                const newCurrency = e.target.value as Currency;
-                
-                // First update local currency for immediate UI feedback
-                const localResult = changeCurrency(newCurrency);
-                if (!localResult.isValid && localResult.errorMessage) {
-                  console.error('Local currency change failed:', localResult.errorMessage);
-                  return;
-                }
-                
-                // Then sync with remote API server (only in development)
-                if (shouldUseApiServer()) {
-                  try {
-                    console.log('🌍 Syncing currency change to remote API:', newCurrency);
-                    const controlsUrl = buildApiUrl(API_ENDPOINTS.CONTROLS);
-                    const response = await fetch(controlsUrl, {
-                      method: 'PUT',
-                      headers: {
-                        'Content-Type': 'application/json',
-                        'Authorization': 'Bearer dummy-token-for-now' // TODO: Use real auth
-                      },
-                      body: JSON.stringify({
-                        selectedCurrency: newCurrency
-                      })
-                    });
-                  
-                  if (response.ok) {
-                    const data = await response.json();
-                    console.log('✅ Currency successfully synced to remote API:', data);
-                    } else {
-                      console.warn('⚠️ Failed to sync currency to remote API:', response.status);
-                      // Continue with local change even if remote sync fails
-                    }
-                  } catch (err) {
-                    console.warn('⚠️ Could not sync currency to remote API:', err);
-                    // Continue with local change even if remote sync fails
-                  }
-                } else {
-                  console.log('🏭 Production mode: API server disabled, skipping currency sync');
+              onChange={(e) => {
+                // Sent to the API server with the other queued edits
+                const result = changeCurrency(e.target.value as Currency);
+                if (!result.isValid && result.errorMessage) {
+                  console.error('Local currency change failed:', result.errorMessage);
                 }
               }}
               className="w-full p-2 border border-gray-700 rounded-md bg-black text-white"
@@ -1139,17 +1400,37 @@ Apply Percentage Change
                 backgroundSize: '0.65rem auto'
               }}
             >
-              {Object.entries(CURRENCIES).map(([code, currencyInfo]) => (
+              {currencies.map(code => (
                 <option key={code} value={code}>
-                  {currencyInfo.symbol} {currencyInfo.name} ({code})
+                  {getCurrencyInfo(code).symbol} {getCurrencyInfo(code).name} ({code})
                 </option>
               ))}
             </select>
           </div>
           
           <div className="text-xs text-gray-400 bg-gray-800 p-2 rounded">
-            <p className="mb-1"><strong>Note:</strong> Changing currency will convert all stock prices and historical data.</p>
-            <p>Supported currencies: USD, EUR, GBP, JPY, CAD, INR, CHF</p>
+            <p className="mb-1"><strong>Note:</strong> Stocks keep their listing currency; prices are shown converted to the selected currency at the current exchange rates.</p>
+            <p>Supported currencies (those the rates provider has rates for): {currencies.join(', ')}</p>
+          </div>
+          
+          <div className="pt-3 border-t border-gray-700">
+            <div className="flex items-center gap-2 mb-2">
+              <h4 className="text-sm font-medium text-gray-300">Exchange Rates</h4>
+              <Tooltip 
+                content="Exchange rates can come from the built-in table, a JSON file or URL (for example /fx-rates.json served by the dev server, or the API server's /api/remote/fx-rates), or a simulated feed that drifts around the built-in table. Rates older than the stale limit are flagged; if a refresh fails the previous rates stay in use."
+                position="right"
+              >
+                <div className="inline-flex items-center justify-center w-4 h-4 text-xs font-bold text-white bg-blue-600 rounded-full cursor-help hover:bg-blue-500 transition-colors">
+                  ?
+                </div>
+              </Tooltip>
+            </div>
+            <RatesSettings fxRates={fxRates} onSetProvider={setRatesProvider} onRefresh={refreshRates} />
+          </div>
+          
+          <div className="pt-3 border-t border-gray-700">
+            <h4 className="text-sm font-medium text-gray-300 mb-2">Number Format</h4>
+            <FormatSettings preferences={formatPreferences} currency={selectedCurrency} onChange={updateFormatPreferences} />
           </div>
         </div>
       </div>
@@ -1165,6 +1446,40 @@ Apply Percentage Change
             </div>
           )}
           
+          <div className="grid grid-cols-2 gap-2">
+            <div>
+              <label htmlFor="instrument-type" className="block text-sm font-medium text-gray-300 mb-1">
+                Instrument Type
+              </label>
+              <select
+                id="instrument-type"
+                value={newStockType}
+                onChange={(e) => handleNewStockTypeChange(e.target.value as InstrumentType)}
+                className="w-full p-2 border border-gray-700 rounded-md bg-black text-white"
+              >
+                {(Object.keys(INSTRUMENT_TYPES) as InstrumentType[]).map(type => (
+                  <option key={type} value={type}>{INSTRUMENT_TYPES[type].label}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label htmlFor="exchange" className="block text-sm font-medium text-gray-300 mb-1">
+                Exchange
+              </label>
+              <select
+                id="exchange"
+                value={newStockExchange}
+                onChange={(e) => handleNewStockExchangeChange(e.target.value as ExchangeCode | '')}
+                className="w-full p-2 border border-gray-700 rounded-md bg-black text-white"
+              >
+                <option value="">From symbol</option>
+                {newStockExchanges.map(code => (
+                  <option key={code} value={code}>{code} - {EXCHANGES[code].name}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+          
           <div>
             <label htmlFor="symbol" className="block text-sm font-medium text-gray-300 mb-1">
               Symbol
@@ -1172,11 +1487,12 @@ Apply Percentage Change
             <input
               id="symbol"
               type="text"
-              placeholder="AAPL"
+              placeholder={INSTRUMENT_TYPES[newStockType].examples.split(', ')[0]}
               value={newStockSymbol}
               onChange={(e) => setNewStockSymbol(e.target.value)}
               className="w-full p-2 border border-gray-700 rounded-md bg-black text-white"
             />
+            <p className="text-xs text-gray-400 mt-1">e.g. {INSTRUMENT_TYPES[newStockType].examples}</p>
           </div>
           
           <div>
@@ -1195,7 +1511,7 @@ Apply Percentage Change
           
           <div>
             <label htmlFor="price" className="block text-sm font-medium text-gray-300 mb-1">
-              Initial Price ($)
+              Initial Price ({newStockCurrency})
             </label>
             <input
               id="price"
@@ -1226,6 +1542,23 @@ Apply Percentage Change
             />
           </div>
           
+          <div>
+            <label htmlFor="listing-currency" className="block text-sm font-medium text-gray-300 mb-1">
+              Listing Currency
+            </label>
+            <select
+              id="listing-currency"
+              value={newStockCurrency}
+              onChange={(e) => setNewStockCurrency(e.target.value as Currency)}
+              className="w-full p-2 border border-gray-700 rounded-md bg-black text-white"
+            >
+              {currencies.map(code => (
+                <option key={code} value={code}>{code} - {getCurrencyInfo(code).name}</option>
+              ))}
+            </select>
+            <p className="text-xs text-gray-400 mt-1">Prices are simulated in this currency and converted for display.</p>
+          </div>
+          
           <button
             type="submit"
             className="w-full py-2 px-4 bg-blue-600 hover:bg-blue-700 text-white rounded-md transition-colors shadow-md"
@@ -1235,6 +1568,28 @@ Apply Percentage Change
         </form>
       </div>
 
+      {/* Import / Export */}
+      <div className="bg-gray-900 p-4 rounded-lg border border-gray-700">
+        <div className="flex items-center gap-2 mb-3">
+          <h3 className="font-medium">Import / Export</h3>
+          <Tooltip 
+            content="Save the whole ticker setup as a JSON file and load it on another machine or environment to repeat a demo. Price histories export as CSV and can be edited in a spreadsheet; importing a history replaces that stock's chart and current price. Imports are checked with the same rules as the forms above."
+            position="right"
+          >
+            <div className="inline-flex items-center justify-center w-4 h-4 text-xs font-bold text-white bg-blue-600 rounded-full cursor-help hover:bg-blue-500 transition-colors">
+              ?
+            </div>
+          </Tooltip>
+        </div>
+        <SetupTransfer
+          stocks={stocks}
+          onExportSetup={exportSetup}
+          onImportSetup={importSetup}
+          onImportHistory={importPriceHistory}
+          getHistory={getStockPriceHistory}
+        />
+      </div>
+
       {/* Debug Tools */}
       <div className="bg-gray-900 p-4 rounded-lg border border-gray-700">
         <h3 className="font-medium mb-3">🔧 Debug Tools</h3>
@@ -1252,24 +1607,14 @@ Apply Percentage Change
                 return;
               }
               
-              try {
-                const apiUrl = buildApiUrl(API_ENDPOINTS.STOCKS);
-                const response = await fetch(apiUrl, {
-                  method: 'GET',
-                  headers: {
-                    'Content-Type': 'application/json',
-                  },
-                });
-                
-                console.log('🧪 Manual test - API Response:', response.status);
-                const data = await response.json();
-                console.log('🧪 Manual test - API Data:', data);
-                
-                const message = `API Test Result: ${data.success ? 'SUCCESS ✅' : 'FAILED ❌'}\n\nDetails:\n- Status Code: ${response.status}\n- Stocks Found: ${data.stocks?.length || 0}\n- Server Response: ${data.success ? 'OK' : 'Error'}\n\nCheck console for full debug info.`;
-                alert(message);
-              } catch (err) {
-                console.error('🧪 Manual API test failed:', err);
-                alert(`API Test FAILED ❌\n\nError: ${err}\n\nCheck console for details.`);
+              const result = await apiClient.getStocks();
+              console.log('🧪 Manual test - API Result:', result);
+              
+              if (result.ok) {
+                alert(`API Test Result: SUCCESS ✅\n\nDetails:\n- Status Code: ${result.status}\n- Stocks Found: ${result.data.stocks.length}\n- Server Response: OK\n\nCheck console for full debug info.`);
+              } else {
+                console.error('🧪 Manual API test failed:', result.error);
+                alert(`API Test FAILED ❌\n\nError (${result.error.kind}): ${result.error.message}\n\nCheck console for details.`);
               }
             }}
             className="w-full py-2 px-4 bg-yellow-600 hover:bg-yellow-700 text-white rounded-md transition-colors font-medium"
@@ -1,7 +1,7 @@
 import React, { useState, useEffect } from 'react';
 import SafeStockChart from '../components/SafeStockChart';
 import { useEnhancedTickerContext } from '../lib/enhancedContext';
-import { formatPrice } from '../lib/types';
+import { formatPrice, getStockCurrency } from '../lib/types';
 
 const EnhancedDemo: React.FC = () => {
   const {
@@ -201,7 +201,7 @@ const EnhancedDemo: React.FC = () => {
               <div>
                 <span className="text-gray-400">Current Price:</span>
                 <div className="text-2xl font-bold text-white">
-                  {formatPrice(currentStock.currentPrice, 'USD')}
+                  {formatPrice(currentStock.currentPrice, getStockCurrency(currentStock))}
                 </div>
               </div>
               <div>
@@ -215,13 +215,13 @@ const EnhancedDemo: React.FC = () => {
               <div>
                 <span className="text-gray-400">Previous Price:</span>
                 <div className="text-xl text-gray-300">
-                  {formatPrice(currentStock.previousPrice, 'USD')}
+                  {formatPrice(currentStock.previousPrice, getStockCurrency(currentStock))}
                 </div>
               </div>
               <div>
                 <span className="text-gray-400">Initial Price:</span>
                 <div className="text-xl text-gray-300">
-                  {formatPrice(currentStock.initialPrice, 'USD')}
+                  {formatPrice(currentStock.initialPrice, getStockCurrency(currentStock))}
                 </div>
               </div>
             </div>
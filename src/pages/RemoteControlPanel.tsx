@@ -1,41 +1,15 @@
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { shouldUseApiServer, getApiBaseUrl } from '../lib/config';
-
-// API Base URL
-const API_BASE = shouldUseApiServer() ? `${getApiBaseUrl()}/api/remote` : '';
-
-interface User {
-  id: number;
-  username: string;
-  role: string;
-}
-
-interface Stock {
-  symbol: string;
-  name: string;
-  currentPrice: number;
-  previousPrice: number;
-  initialPrice: number;
-  percentageChange: number;
-  lastUpdated: string;
-  priceHistory: Array<{ timestamp: string; price: number }>;
-}
-
-interface SystemControls {
-  isPaused: boolean;
-  updateIntervalMs: number;
-  selectedCurrency: string;
-  lastUpdated: string;
-  isEmergencyStopped: boolean;
-}
+import { ApiClient, ApiControls, ApiError, ApiStock, ApiUser, ControlsUpdate } from '../lib/apiClient';
+import { Currency } from '../lib/types';
 
 interface RemoteState {
-  user: User | null;
+  user: ApiUser | null;
   token: string | null;
   isAuthenticated: boolean;
   isLoading: boolean;
-  stocks: Stock[];
-  controls: SystemControls | null;
+  stocks: ApiStock[];
+  controls: ApiControls | null;
   connectionStatus: 'connected' | 'connecting' | 'disconnected' | 'error';
   lastError: string | null;
 }
@@ -98,56 +72,38 @@ const RemoteControlPanel: React.FC = () => {
     }
   }, []);
 
-  // API call helper
-  const apiCall = useCallback(async (endpoint: string, options: RequestInit = {}) => {
-    const response = await fetch(`${API_BASE}${endpoint}`, {
-      ...options,
-      headers: {
-        'Authorization': state.token ? `Bearer ${state.token}` : '',
-        'Content-Type': 'application/json',
-        ...options.headers,
-      },
-    });
-
-    if (response.status === 401) {
-      logout();
-      throw new Error('Authentication expired');
-    }
+  // API client with the signed-in token
+  const api = useMemo(() => new ApiClient({
+    baseUrl: getApiBaseUrl,
+    getAuthHeaders: () => state.token ? { 'Authorization': `Bearer ${state.token}` } : null,
+    onUnauthorized: () => logout(),
+  }), [state.token]);
 
-    return response;
-  }, [state.token]);
+  // Show a failed call; without an answer the connection is down
+  const reportError = (error: ApiError) => {
+    const connectionLost = error.kind === 'network' || error.kind === 'timeout';
+    setState(prev => ({
+      ...prev,
+      lastError: error.kind === 'unauthorized' ? 'Authentication expired' : error.message,
+      connectionStatus: connectionLost ? 'error' : prev.connectionStatus,
+    }));
+  };
 
   // Verify token
   const verifyToken = async (token: string) => {
-    try {
-      const response = await fetch(`${API_BASE}/auth`, {
-        headers: { 'Authorization': `Bearer ${token}` },
-      });
-
-      if (response.ok) {
-        const data = await response.json();
-        setState(prev => ({
-          ...prev,
-          user: data.user,
-          token,
-          isAuthenticated: true,
-          connectionStatus: 'connected',
-          isLoading: false,
-        }));
-        return true;
-      } else {
-        localStorage.removeItem('remote-token');
-        setState(prev => ({
-          ...prev,
-          token: null,
-          user: null,
-          isAuthenticated: false,
-          connectionStatus: 'disconnected',
-          isLoading: false,
-        }));
-        return false;
-      }
-    } catch (error) {
+    const result = await api.verifyAuth({ token });
+    if (result.ok) {
+      setState(prev => ({
+        ...prev,
+        user: result.data.user ?? null,
+        token,
+        isAuthenticated: true,
+        connectionStatus: 'connected',
+        isLoading: false,
+      }));
+      return true;
+    }
+    if (result.error.kind === 'network' || result.error.kind === 'timeout') {
       setState(prev => ({
         ...prev,
         connectionStatus: 'error',
@@ -156,6 +112,16 @@ const RemoteControlPanel: React.FC = () => {
       }));
       return false;
     }
+    localStorage.removeItem('remote-token');
+    setState(prev => ({
+      ...prev,
+      token: null,
+      user: null,
+      isAuthenticated: false,
+      connectionStatus: 'disconnected',
+      isLoading: false,
+    }));
+    return false;
   };
 
   // Login
@@ -163,40 +129,25 @@ const RemoteControlPanel: React.FC = () => {
     e.preventDefault();
     setState(prev => ({ ...prev, isLoading: true, lastError: null }));
 
-    try {
-      const response = await fetch(`${API_BASE}/auth`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(loginForm),
-      });
-
-      const data = await response.json();
-
-      if (response.ok && data.success) {
-        localStorage.setItem('remote-token', data.token);
-        setState(prev => ({
-          ...prev,
-          user: data.user,
-          token: data.token,
-          isAuthenticated: true,
-          connectionStatus: 'connected',
-          isLoading: false,
-        }));
-        setLoginForm({ username: '', password: '' });
-      } else {
-        setState(prev => ({
-          ...prev,
-          lastError: data.error || 'Login failed',
-          isLoading: false,
-          connectionStatus: 'disconnected',
-        }));
-      }
-    } catch (error) {
+    const result = await api.login(loginForm.username, loginForm.password);
+    if (result.ok) {
+      localStorage.setItem('remote-token', result.data.token);
       setState(prev => ({
         ...prev,
-        lastError: 'Connection failed',
+        user: result.data.user ?? null,
+        token: result.data.token,
+        isAuthenticated: true,
+        connectionStatus: 'connected',
         isLoading: false,
-        connectionStatus: 'error',
+      }));
+      setLoginForm({ username: '', password: '' });
+    } else {
+      const connectionFailed = result.error.kind === 'network' || result.error.kind === 'timeout';
+      setState(prev => ({
+        ...prev,
+        lastError: connectionFailed ? 'Connection failed' : result.error.message,
+        isLoading: false,
+        connectionStatus: connectionFailed ? 'error' : 'disconnected',
       }));
     }
   };
@@ -217,209 +168,104 @@ const RemoteControlPanel: React.FC = () => {
 
   // Fetch data functions
   const fetchStocks = async () => {
-    try {
-      const response = await apiCall('/stocks');
-      const data = await response.json();
-      if (response.ok && data.success) {
-        setState(prev => ({ ...prev, stocks: data.stocks, connectionStatus: 'connected' }));
-      }
-    } catch (error) {
-      setState(prev => ({
-        ...prev,
-        lastError: error instanceof Error ? error.message : 'Failed to fetch stocks',
-        connectionStatus: 'error',
-      }));
+    const result = await api.getStocks();
+    if (result.ok) {
+      setState(prev => ({ ...prev, stocks: result.data.stocks, connectionStatus: 'connected' }));
+    } else {
+      reportError(result.error);
     }
   };
 
   const fetchControls = async () => {
-    try {
-      const response = await apiCall('/controls');
-      const data = await response.json();
-      if (response.ok && data.success) {
-        setState(prev => ({ ...prev, controls: data.controls, connectionStatus: 'connected' }));
-      }
-    } catch (error) {
-      setState(prev => ({
-        ...prev,
-        lastError: error instanceof Error ? error.message : 'Failed to fetch controls',
-      }));
+    const result = await api.getControls();
+    if (result.ok) {
+      setState(prev => ({ ...prev, controls: result.data.controls, connectionStatus: 'connected' }));
+    } else {
+      reportError(result.error);
     }
   };
 
   // Stock operations
   const updateStock = async (symbol: string, price: number) => {
-    try {
-      const response = await apiCall(`/stocks/${symbol}`, {
-        method: 'PUT',
-        body: JSON.stringify({ price }),
-      });
-
-      if (response.ok) {
-        await fetchStocks(); // Refresh stock data
-        return true;
-      } else {
-        const data = await response.json();
-        setState(prev => ({ ...prev, lastError: data.error || 'Failed to update stock' }));
-        return false;
-      }
-    } catch (error) {
-      setState(prev => ({
-        ...prev,
-        lastError: error instanceof Error ? error.message : 'Failed to update stock',
-      }));
+    const result = await api.setStockPrice(symbol, price);
+    if (!result.ok) {
+      reportError(result.error);
       return false;
     }
+    await fetchStocks(); // Refresh stock data
+    return true;
   };
 
   // Bulk price update operations
   const bulkUpdateStocks = async (updateType: string, percentage?: number) => {
-    try {
-      const response = await apiCall('/stocks/bulk', {
-        method: 'PUT',
-        body: JSON.stringify({ updateType, percentage }),
-      });
-
-      if (response.ok) {
-        const data = await response.json();
-        setState(prev => ({ ...prev, lastError: null }));
-        await fetchStocks(); // Refresh stock data
-        return { success: true, data };
-      } else {
-        const data = await response.json();
-        setState(prev => ({ ...prev, lastError: data.error || 'Failed to perform bulk update' }));
-        return { success: false, error: data.error };
-      }
-    } catch (error) {
-      const errorMsg = error instanceof Error ? error.message : 'Failed to perform bulk update';
-      setState(prev => ({ ...prev, lastError: errorMsg }));
-      return { success: false, error: errorMsg };
+    const result = await api.bulkUpdate({ updateType, percentage });
+    if (!result.ok) {
+      reportError(result.error);
+      return { success: false, error: result.error.message };
     }
+    setState(prev => ({ ...prev, lastError: null }));
+    await fetchStocks(); // Refresh stock data
+    return { success: true, data: result.data };
   };
 
   const addStock = async (e: React.FormEvent) => {
     e.preventDefault();
-    try {
-      const response = await apiCall('/stocks', {
-        method: 'POST',
-        body: JSON.stringify({
-          symbol: addStockForm.symbol.toUpperCase(),
-          name: addStockForm.name,
-          initialPrice: parseFloat(addStockForm.price),
-        }),
-      });
-
-      if (response.ok) {
-        await fetchStocks();
-        setAddStockForm({ symbol: '', name: '', price: '' });
-        return true;
-      } else {
-        const data = await response.json();
-        setState(prev => ({ ...prev, lastError: data.error || 'Failed to add stock' }));
-        return false;
-      }
-    } catch (error) {
-      setState(prev => ({
-        ...prev,
-        lastError: error instanceof Error ? error.message : 'Failed to add stock',
-      }));
+    const result = await api.addStock({
+      symbol: addStockForm.symbol.toUpperCase(),
+      name: addStockForm.name,
+      initialPrice: parseFloat(addStockForm.price),
+    });
+    if (!result.ok) {
+      reportError(result.error);
       return false;
     }
+    await fetchStocks();
+    setAddStockForm({ symbol: '', name: '', price: '' });
+    return true;
   };
 
   const deleteStock = async (symbol: string) => {
     if (!confirm(`Are you sure you want to delete ${symbol}?`)) return;
 
-    try {
-      const response = await apiCall(`/stocks/${symbol}`, { method: 'DELETE' });
-
-      if (response.ok) {
-        await fetchStocks();
-        return true;
-      } else {
-        const data = await response.json();
-        setState(prev => ({ ...prev, lastError: data.error || 'Failed to delete stock' }));
-        return false;
-      }
-    } catch (error) {
-      setState(prev => ({
-        ...prev,
-        lastError: error instanceof Error ? error.message : 'Failed to delete stock',
-      }));
+    const result = await api.removeStock(symbol);
+    if (!result.ok) {
+      reportError(result.error);
       return false;
     }
+    await fetchStocks();
+    return true;
   };
 
   // System controls
-  const updateControls = async (updates: Partial<SystemControls>) => {
-    try {
-      const response = await apiCall('/controls', {
-        method: 'PUT',
-        body: JSON.stringify(updates),
-      });
-
-      if (response.ok) {
-        await fetchControls();
-        return true;
-      } else {
-        const data = await response.json();
-        setState(prev => ({ ...prev, lastError: data.error || 'Failed to update controls' }));
-        return false;
-      }
-    } catch (error) {
-      setState(prev => ({
-        ...prev,
-        lastError: error instanceof Error ? error.message : 'Failed to update controls',
-      }));
+  const updateControls = async (updates: ControlsUpdate) => {
+    const result = await api.updateControls(updates);
+    if (!result.ok) {
+      reportError(result.error);
       return false;
     }
+    await fetchControls();
+    return true;
   };
 
   // Dedicated pause/resume functions
   const pauseSystem = async () => {
-    try {
-      const response = await apiCall('/controls/pause', {
-        method: 'POST',
-      });
-
-      if (response.ok) {
-        await fetchControls();
-        return true;
-      } else {
-        const data = await response.json();
-        setState(prev => ({ ...prev, lastError: data.error || 'Failed to pause system' }));
-        return false;
-      }
-    } catch (error) {
-      setState(prev => ({
-        ...prev,
-        lastError: error instanceof Error ? error.message : 'Failed to pause system',
-      }));
+    const result = await api.pause();
+    if (!result.ok) {
+      reportError(result.error);
       return false;
     }
+    await fetchControls();
+    return true;
   };
 
   const resumeSystem = async () => {
-    try {
-      const response = await apiCall('/controls/resume', {
-        method: 'POST',
-      });
-
-      if (response.ok) {
-        await fetchControls();
-        return true;
-      } else {
-        const data = await response.json();
-        setState(prev => ({ ...prev, lastError: data.error || 'Failed to resume system' }));
-        return false;
-      }
-    } catch (error) {
-      setState(prev => ({
-        ...prev,
-        lastError: error instanceof Error ? error.message : 'Failed to resume system',
-      }));
+    const result = await api.resume();
+    if (!result.ok) {
+      reportError(result.error);
       return false;
     }
+    await fetchControls();
+    return true;
   };
 
   const togglePause = async () => {
@@ -434,49 +280,33 @@ const RemoteControlPanel: React.FC = () => {
   const restartServer = async () => {
     if (!confirm('Are you sure you want to restart the API server? This will disconnect all users temporarily.')) return;
 
-    try {
-      setState(prev => ({ ...prev, isLoading: true }));
-      const response = await apiCall('/restart', { method: 'POST' });
-
-      if (response.ok) {
-        const data = await response.json();
-        setState(prev => ({ 
-          ...prev, 
-          lastError: null,
-          connectionStatus: 'connecting',
-          isLoading: false 
-        }));
-        
-        // Show success message briefly
-        alert(`API server restart initiated successfully by ${data.restartedBy}. The API server will restart shortly.`);
-        
-        // Clear session data as server will restart
-        setTimeout(() => {
-          logout();
-        }, 2000);
-        
-        return true;
-      } else {
-        const data = await response.json();
-        setState(prev => ({ 
-          ...prev, 
-          lastError: data.error || 'Failed to restart API server',
-          isLoading: false 
-        }));
-        return false;
-      }
-    } catch (error) {
-      setState(prev => ({
-        ...prev,
-        lastError: error instanceof Error ? error.message : 'Failed to restart API server',
-        isLoading: false,
-      }));
+    setState(prev => ({ ...prev, isLoading: true }));
+    const result = await api.restart();
+    if (!result.ok) {
+      reportError(result.error);
+      setState(prev => ({ ...prev, isLoading: false }));
       return false;
     }
+    setState(prev => ({ 
+      ...prev, 
+      lastError: null,
+      connectionStatus: 'connecting',
+      isLoading: false 
+    }));
+    
+    // Show success message briefly
+    alert(`API server restart initiated successfully by ${result.data.restartedBy ?? 'an administrator'}. The API server will restart shortly.`);
+    
+    // Clear session data as server will restart
+    setTimeout(() => {
+      logout();
+    }, 2000);
+    
+    return true;
   };
 
   // Stock editing handlers
-  const handleEditStock = (stock: Stock) => {
+  const handleEditStock = (stock: ApiStock) => {
     setEditingStock(stock.symbol);
     setEditPrice(stock.currentPrice.toString());
   };
@@ -750,9 +580,9 @@ const RemoteControlPanel: React.FC = () => {
                             <div className="text-right">
                               <div className="font-semibold">{formatPrice(stock.currentPrice)}</div>
                               <div className={`text-sm ${
-                                stock.percentageChange >= 0 ? 'text-green-400' : 'text-red-400'
+                                (stock.percentageChange ?? 0) >= 0 ? 'text-green-400' : 'text-red-400'
                               }`}>
-                                {formatPercentage(stock.percentageChange)}
+                                {formatPercentage(stock.percentageChange ?? 0)}
                               </div>
                             </div>
                             <div className="flex space-x-2">
@@ -939,7 +769,7 @@ const RemoteControlPanel: React.FC = () => {
                     </label>
                     <select
                       value={state.controls.selectedCurrency}
-                      onChange={(e) => updateControls({ selectedCurrency: e.target.value })}
+                      onChange={(e) => updateControls({ selectedCurrency: e.target.value as Currency })}
                       className="w-full px-3 py-2 bg-gray-700 text-white rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
                     >
                       <option value="USD">🇺🇸 USD - US Dollar ($)</option>
@@ -1,33 +1,13 @@
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
 import { useAuth } from '../hooks/useAuth';
 import { shouldUseApiServer, getApiBaseUrl } from '../lib/config';
+import { ApiClient, ApiControls, ApiError, ApiStock, ControlsUpdate } from '../lib/apiClient';
+import { Currency } from '../lib/types';
 import AuthLoading from '../components/auth/AuthLoading';
 
-interface Stock {
-  symbol: string;
-  name: string;
-  currentPrice: number;
-  previousPrice: number;
-  initialPrice: number;
-  change: number;
-  percentChange: number;
-  volume: number;
-  lastUpdated: string;
-  priceHistory: Array<{ timestamp: string; price: number }>;
-}
-
-interface SystemControls {
-  isPaused: boolean;
-  updateIntervalMs: number;
-  volatility: number;
-  selectedCurrency: string;
-  lastUpdated: string;
-  isEmergencyStopped: boolean;
-}
-
 interface RemoteState {
-  stocks: Stock[];
-  controls: SystemControls | null;
+  stocks: ApiStock[];
+  controls: ApiControls | null;
   connectionStatus: 'connected' | 'connecting' | 'disconnected' | 'error';
   lastError: string | null;
   isLoading: boolean;
@@ -143,9 +123,6 @@ const RemoteControlPanelClerk: React.FC = () => {
       }
     }
   }, [signOut]);
-  
-  // API Base URL - using remote endpoints to control shared data
-  const API_BASE = `${getApiBaseUrl()}/api/remote`;
 
   const [state, setState] = useState<RemoteState>({
     stocks: [],
@@ -189,197 +166,87 @@ const RemoteControlPanelClerk: React.FC = () => {
     );
   }
 
-  // API call helper with Clerk token
-  const apiCall = useCallback(async (endpoint: string, options: RequestInit = {}) => {
-    try {
+  // API client with Clerk token
+  const api = useMemo(() => new ApiClient({
+    baseUrl: getApiBaseUrl,
+    getAuthHeaders: async () => {
       const token = await getAuthToken();
-      const fullUrl = `${API_BASE}${endpoint}`;
-      
-      console.log('📡 API Call:', { 
-        endpoint, 
-        fullUrl,
-        method: options.method || 'GET',
-        hasToken: Boolean(token),
-        tokenPrefix: token ? token.substring(0, 20) + '...' : 'none',
-        body: options.body 
-      });
-      
-      const response = await fetch(fullUrl, {
-        ...options,
-        headers: {
-          'Authorization': token ? `Bearer ${token}` : '',
-          'Content-Type': 'application/json',
-          ...options.headers,
-        },
-      });
-
-      console.log('📡 Response:', { status: response.status, statusText: response.statusText });
-
-      if (response.status === 401) {
-        setState(prev => ({
-          ...prev,
-          lastError: 'Authentication expired. Please sign in again.',
-          connectionStatus: 'error'
-        }));
-        setTimeout(() => handleSignOut(), 2000);
-        throw new Error('Authentication expired');
-      }
-
-      return response;
-    } catch (error) {
-      console.error('💥 API Call error:', error);
-      setState(prev => ({
-        ...prev,
-        connectionStatus: 'error',
-        lastError: error instanceof Error ? error.message : 'Request failed'
-      }));
-      throw error;
-    }
-  }, [getAuthToken, handleSignOut]);
+      return token ? { 'Authorization': `Bearer ${token}` } : null;
+    },
+    onUnauthorized: () => {
+      setTimeout(() => handleSignOut(), 2000);
+    },
+  }), [getAuthToken, handleSignOut]);
+
+  // Show a failed call; no answer or no valid token means the connection is down
+  const reportError = (error: ApiError) => {
+    console.error('💥 API Call error:', error);
+    const connectionLost = error.kind === 'unauthorized' || error.kind === 'network' || error.kind === 'timeout';
+    setState(prev => ({
+      ...prev,
+      connectionStatus: connectionLost ? 'error' : prev.connectionStatus,
+      lastError: error.kind === 'unauthorized' ? 'Authentication expired. Please sign in again.' : error.message
+    }));
+  };
 
   // Fetch user-specific stocks
   const fetchStocks = async () => {
-    try {
-      // Use authenticated API call for user-specific stocks
-      const response = await apiCall('/stocks');
-      const data = await response.json();
-      
-      if (response.ok && data.success) {
-        console.log(`📋 User ${userInfo?.username || 'unknown'} loaded ${data.stocks.length} stocks`);
-        setState(prev => ({
-          ...prev,
-          stocks: data.stocks,
-          connectionStatus: 'connected',
-          lastError: null
-        }));
-      } else {
-        setState(prev => ({
-          ...prev,
-          lastError: data.error || 'Failed to fetch your stocks'
-        }));
-      }
-    } catch (error) {
-      setState(prev => ({
-        ...prev,
-        connectionStatus: 'error',
-        lastError: error instanceof Error ? error.message : 'Failed to fetch your stocks'
-      }));
+    // Use authenticated API call for user-specific stocks
+    const result = await api.getStocks();
+    if (!result.ok) {
+      reportError(result.error);
+      return;
     }
+    console.log(`📋 User ${userInfo?.username || 'unknown'} loaded ${result.data.stocks.length} stocks`);
+    setState(prev => ({
+      ...prev,
+      stocks: result.data.stocks,
+      connectionStatus: 'connected',
+      lastError: null
+    }));
   };
 
   // Fetch user-specific controls
   const fetchControls = async () => {
-    try {
-      // Use authenticated API call for user-specific controls
-      const response = await apiCall('/controls');
-      const data = await response.json();
-      
-      if (response.ok && data.success) {
-        setState(prev => ({
-          ...prev,
-          controls: data.controls,
-          connectionStatus: 'connected',
-          lastError: null
-        }));
-      } else {
-        setState(prev => ({
-          ...prev,
-          lastError: data.error || 'Failed to fetch your controls'
-        }));
-      }
-    } catch (error) {
-      setState(prev => ({
-        ...prev,
-        connectionStatus: 'error',
-        lastError: error instanceof Error ? error.message : 'Failed to fetch your controls'
-      }));
+    // Use authenticated API call for user-specific controls
+    const result = await api.getControls();
+    if (!result.ok) {
+      reportError(result.error);
+      return;
     }
+    setState(prev => ({
+      ...prev,
+      controls: result.data.controls,
+      connectionStatus: 'connected',
+      lastError: null
+    }));
   };
 
   // Update stock price
   const updateStockPrice = async (symbol: string, price: number) => {
-    try {
-      const response = await apiCall(`/stocks/${symbol}`, {
-        method: 'PUT',
-        body: JSON.stringify({ price }),
-      });
-
-      if (response.ok) {
-        await fetchStocks();
-        return true;
-      } else {
-        const data = await response.json();
-        setState(prev => ({
-          ...prev,
-          lastError: data.error || 'Failed to update stock'
-        }));
-        return false;
-      }
-    } catch (error) {
+    const result = await api.setStockPrice(symbol, price);
+    if (!result.ok) {
+      reportError(result.error);
       return false;
     }
+    await fetchStocks();
+    return true;
   };
 
   // Bulk update stocks
   const bulkUpdateStocks = async (updateType: string, percentage?: number) => {
     console.log('🔄 Bulk update called:', { updateType, percentage });
     
-    try {
-      const response = await apiCall('/stocks/bulk', {
-        method: 'PUT',
-        body: JSON.stringify({ updateType, percentage }),
-      });
-
-      console.log('📡 Response status:', response.status);
-      
-      if (response.ok) {
-        const data = await response.json();
-        console.log('✅ Bulk update successful:', data);
-        setState(prev => ({ ...prev, lastError: null }));
-        await fetchStocks();
-        return { success: true, data };
-      } else {
-        // Handle different types of errors
-        let errorData;
-        try {
-          errorData = await response.json();
-        } catch {
-          errorData = { error: `Server error: ${response.status} ${response.statusText}` };
-        }
-        
-        console.log('❌ Bulk update failed:', { status: response.status, data: errorData });
-        
-        // Specific handling for authentication errors
-        if (response.status === 401) {
-          setState(prev => ({
-            ...prev,
-            lastError: 'Authentication expired. Please sign in again.'
-          }));
-          setTimeout(() => signOut(), 2000);
-          return { success: false, error: 'Authentication expired' };
-        }
-        
-        // Handle redirect responses (like 302)
-        if (response.status >= 300 && response.status < 400) {
-          setState(prev => ({
-            ...prev,
-            lastError: 'Authentication required. Please make sure you are signed in.'
-          }));
-          return { success: false, error: 'Authentication required' };
-        }
-        
-        setState(prev => ({
-          ...prev,
-          lastError: errorData.error || `Failed to perform bulk update (${response.status})`
-        }));
-        return { success: false, error: errorData.error };
-      }
-    } catch (error) {
-      console.error('💥 Bulk update error:', error);
-      const errorMsg = error instanceof Error ? error.message : 'Failed to perform bulk update';
-      setState(prev => ({ ...prev, lastError: errorMsg }));
-      return { success: false, error: errorMsg };
+    const result = await api.bulkUpdate({ updateType, percentage });
+    if (!result.ok) {
+      console.log('❌ Bulk update failed:', result.error);
+      reportError(result.error);
+      return { success: false, error: result.error.message };
     }
+    console.log('✅ Bulk update successful:', result.data);
+    setState(prev => ({ ...prev, lastError: null }));
+    await fetchStocks();
+    return { success: true, data: result.data };
   };
 
   // Add new stock - Full functionality enabled
@@ -414,37 +281,21 @@ const RemoteControlPanelClerk: React.FC = () => {
       return false;
     }
 
-    try {
-      const response = await apiCall('/stocks', {
-        method: 'POST',
-        body: JSON.stringify({
-          symbol: symbol.toUpperCase(),
-          name: name.trim(),
-          initialPrice: initialPrice
-        })
-      });
-
-      if (response.ok) {
-        const data = await response.json();
-        setState(prev => ({ ...prev, lastError: null }));
-        // Clear the form
-        setAddStockForm({ symbol: '', name: '', price: '' });
-        // Refresh the stocks list
-        await fetchStocks();
-        return true;
-      } else {
-        const data = await response.json();
-        setState(prev => ({
-          ...prev,
-          lastError: data.error || 'Failed to add stock'
-        }));
-        return false;
-      }
-    } catch (error) {
-      const errorMsg = error instanceof Error ? error.message : 'Failed to add stock';
-      setState(prev => ({ ...prev, lastError: errorMsg }));
+    const result = await api.addStock({
+      symbol: symbol.toUpperCase(),
+      name: name.trim(),
+      initialPrice: initialPrice
+    });
+    if (!result.ok) {
+      reportError(result.error);
       return false;
     }
+    setState(prev => ({ ...prev, lastError: null }));
+    // Clear the form
+    setAddStockForm({ symbol: '', name: '', price: '' });
+    // Refresh the stocks list
+    await fetchStocks();
+    return true;
   };
 
   // Remove stock - Full functionality enabled
@@ -453,54 +304,26 @@ const RemoteControlPanelClerk: React.FC = () => {
       return false;
     }
 
-    try {
-      const response = await apiCall(`/stocks/${symbol}`, {
-        method: 'DELETE'
-      });
-
-      if (response.ok) {
-        const data = await response.json();
-        setState(prev => ({ ...prev, lastError: null }));
-        // Refresh the stocks list
-        await fetchStocks();
-        return true;
-      } else {
-        const data = await response.json();
-        setState(prev => ({
-          ...prev,
-          lastError: data.error || `Failed to delete ${symbol}`
-        }));
-        return false;
-      }
-    } catch (error) {
-      const errorMsg = error instanceof Error ? error.message : `Failed to delete ${symbol}`;
-      setState(prev => ({ ...prev, lastError: errorMsg }));
+    const result = await api.removeStock(symbol);
+    if (!result.ok) {
+      reportError(result.error);
       return false;
     }
+    setState(prev => ({ ...prev, lastError: null }));
+    // Refresh the stocks list
+    await fetchStocks();
+    return true;
   };
 
   // Update system controls
-  const updateControls = async (updates: Partial<SystemControls>) => {
-    try {
-      const response = await apiCall('/controls', {
-        method: 'PUT',
-        body: JSON.stringify(updates),
-      });
-
-      if (response.ok) {
-        await fetchControls();
-        return true;
-      } else {
-        const data = await response.json();
-        setState(prev => ({
-          ...prev,
-          lastError: data.error || 'Failed to update controls'
-        }));
-        return false;
-      }
-    } catch (error) {
+  const updateControls = async (updates: ControlsUpdate) => {
+    const result = await api.updateControls(updates);
+    if (!result.ok) {
+      reportError(result.error);
       return false;
     }
+    await fetchControls();
+    return true;
   };
 
   // Toggle pause/resume using the controls endpoint
@@ -526,48 +349,31 @@ const RemoteControlPanelClerk: React.FC = () => {
       return false;
     }
 
-    try {
-      setState(prev => ({ ...prev, isLoading: true }));
-      
-      const response = await apiCall('/restart', {
-        method: 'POST',
-      });
-
-      if (response.ok) {
-        const data = await response.json();
-        setState(prev => ({
-          ...prev,
-          lastError: null,
-          connectionStatus: 'connecting',
-          isLoading: false
-        }));
-        alert(`Your session has been reset successfully. You now have fresh default data.`);
-        // Refresh data to show the reset
-        setTimeout(() => {
-          fetchStocks();
-          fetchControls();
-        }, 1000);
-        return true;
-      } else {
-        const data = await response.json();
-        setState(prev => ({
-          ...prev,
-          lastError: data.error || 'Failed to reset your session',
-          isLoading: false
-        }));
-        return false;
-      }
-    } catch (error) {
-      setState(prev => ({
-        ...prev,
-        isLoading: false
-      }));
+    setState(prev => ({ ...prev, isLoading: true }));
+    
+    const result = await api.restart();
+    if (!result.ok) {
+      reportError(result.error);
+      setState(prev => ({ ...prev, isLoading: false }));
       return false;
     }
+    setState(prev => ({
+      ...prev,
+      lastError: null,
+      connectionStatus: 'connecting',
+      isLoading: false
+    }));
+    alert(`Your session has been reset successfully. You now have fresh default data.`);
+    // Refresh data to show the reset
+    setTimeout(() => {
+      fetchStocks();
+      fetchControls();
+    }, 1000);
+    return true;
   };
 
   // Start editing stock
-  const startEditingStock = (stock: Stock) => {
+  const startEditingStock = (stock: ApiStock) => {
     setEditingStock(stock.symbol);
     setEditPrice(stock.currentPrice.toString());
   };
@@ -589,37 +395,21 @@ const RemoteControlPanelClerk: React.FC = () => {
 
   // Verify authentication by checking user endpoint
   const verifyAuthentication = async () => {
-    try {
-      console.log('🔐 Verifying authentication with API server...');
-      const response = await apiCall('/user');
-      const data = await response.json();
-      
-      if (response.ok && data.success) {
-        console.log('✅ Authentication verified:', data.user);
-        setState(prev => ({
-          ...prev,
-          connectionStatus: 'connected',
-          lastError: null
-        }));
-        return true;
-      } else {
-        console.error('❌ Authentication failed:', data);
-        setState(prev => ({
-          ...prev,
-          lastError: data.error || 'Authentication verification failed',
-          connectionStatus: 'error'
-        }));
-        return false;
-      }
-    } catch (error) {
-      console.error('❌ Auth verification error:', error);
-      setState(prev => ({
-        ...prev,
-        lastError: error instanceof Error ? error.message : 'Authentication verification failed',
-        connectionStatus: 'error'
-      }));
+    console.log('🔐 Verifying authentication with API server...');
+    const result = await api.getUser();
+    if (!result.ok) {
+      console.error('❌ Authentication failed:', result.error);
+      reportError(result.error);
+      setState(prev => ({ ...prev, connectionStatus: 'error' }));
       return false;
     }
+    console.log('✅ Authentication verified:', result.data.user);
+    setState(prev => ({
+      ...prev,
+      connectionStatus: 'connected',
+      lastError: null
+    }));
+    return true;
   };
 
   // Fetch data on component mount and set up polling
@@ -996,7 +786,7 @@ const RemoteControlPanelClerk: React.FC = () => {
                     </label>
                     <select
                       value={state.controls.selectedCurrency}
-                      onChange={(e) => updateControls({ selectedCurrency: e.target.value })}
+                      onChange={(e) => updateControls({ selectedCurrency: e.target.value as Currency })}
                       className="w-full px-3 py-2 bg-gray-700 text-white rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
                     >
                       <option value="USD">🇺🇸 USD - US Dollar ($)</option>
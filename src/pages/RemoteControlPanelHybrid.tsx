@@ -5,35 +5,18 @@
  * JWT and Clerk authentication methods seamlessly.
  */
 
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { useHybridAuth } from '../hooks/auth/useHybridAuth';
 import { shouldUseApiServer, getApiBaseUrl } from '../lib/config';
+import { ApiClient, ApiControls, ApiError, ApiStock, ControlsUpdate } from '../lib/apiClient';
 import { HybridAuthGuard } from '../components/auth/hybrid/HybridAuthGuard';
-import { userUtils, apiUtils } from '../auth/utils';
+import { userUtils } from '../auth/utils';
 import { AuthMethod } from '../auth/types';
-
-interface Stock {
-  symbol: string;
-  name: string;
-  currentPrice: number;
-  previousPrice: number;
-  initialPrice: number;
-  percentageChange: number;
-  lastUpdated: string;
-  priceHistory: Array<{ timestamp: string; price: number }>;
-}
-
-interface SystemControls {
-  isPaused: boolean;
-  updateIntervalMs: number;
-  selectedCurrency: string;
-  lastUpdated: string;
-  isEmergencyStopped: boolean;
-}
+import { Currency } from '../lib/types';
 
 interface RemoteState {
-  stocks: Stock[];
-  controls: SystemControls | null;
+  stocks: ApiStock[];
+  controls: ApiControls | null;
   connectionStatus: 'connected' | 'connecting' | 'disconnected' | 'error';
   lastError: string | null;
   isLoading: boolean;
@@ -107,9 +90,6 @@ const RemoteControlPanelHybrid: React.FC = () => {
 
 const RemoteControlContent: React.FC = () => {
   const { user, authMethod, getToken, signOut, hasRole, isAdmin } = useHybridAuth();
-  
-  // API Base URL - only set if we reach this point (API server available)
-  const API_BASE = `${getApiBaseUrl()}/api/remote`;
 
   const [state, setState] = useState<RemoteState>({
     stocks: [],
@@ -126,271 +106,147 @@ const RemoteControlContent: React.FC = () => {
   const [bulkPercentage, setBulkPercentage] = useState<string>('');
 
   /**
-   * API call helper with hybrid token support
+   * API client with hybrid token support
    */
-  const apiCall = useCallback(async (endpoint: string, options: RequestInit = {}) => {
-    try {
+  const api = useMemo(() => new ApiClient({
+    baseUrl: getApiBaseUrl,
+    getAuthHeaders: async () => {
       const token = await getToken();
-      
-      const response = await apiUtils.authenticatedFetch(endpoint, {
-        ...options,
-        headers: {
-          'Authorization': token ? `Bearer ${token}` : '',
-          'Content-Type': 'application/json',
-          ...options.headers,
-        },
-      }, token, authMethod || undefined);
-
-      if (response.status === 401) {
-        setState(prev => ({
-          ...prev,
-          lastError: 'Authentication expired. Please sign in again.',
-          connectionStatus: 'error'
-        }));
-        setTimeout(() => signOut(), 2000);
-        throw new Error('Authentication expired');
-      }
-
-      return response;
-    } catch (error) {
-      setState(prev => ({
-        ...prev,
-        connectionStatus: 'error',
-        lastError: error instanceof Error ? error.message : 'Request failed'
-      }));
-      throw error;
-    }
-  }, [getToken, authMethod, signOut]);
+      return token ? { 'Authorization': `Bearer ${token}` } : null;
+    },
+    onUnauthorized: () => {
+      setTimeout(() => signOut(), 2000);
+    },
+  }), [getToken, signOut]);
+
+  // Show a failed call; no answer or no valid token means the connection is down
+  const reportError = (error: ApiError) => {
+    const connectionLost = error.kind === 'unauthorized' || error.kind === 'network' || error.kind === 'timeout';
+    setState(prev => ({
+      ...prev,
+      connectionStatus: connectionLost ? 'error' : prev.connectionStatus,
+      lastError: error.kind === 'unauthorized' ? 'Authentication expired. Please sign in again.' : error.message
+    }));
+  };
 
   // Fetch stocks
   const fetchStocks = async () => {
-    try {
-      const response = await apiCall('/stocks');
-      const data = await response.json();
-      
-      if (response.ok && data.success) {
-        setState(prev => ({
-          ...prev,
-          stocks: data.stocks,
-          connectionStatus: 'connected',
-          lastError: null
-        }));
-      } else {
-        setState(prev => ({
-          ...prev,
-          lastError: data.error || 'Failed to fetch stocks'
-        }));
-      }
-    } catch (error) {
-      // Error already handled in apiCall
+    const result = await api.getStocks();
+    if (!result.ok) {
+      reportError(result.error);
+      return;
     }
+    setState(prev => ({
+      ...prev,
+      stocks: result.data.stocks,
+      connectionStatus: 'connected',
+      lastError: null
+    }));
   };
 
   // Fetch controls
   const fetchControls = async () => {
-    try {
-      const response = await apiCall('/controls');
-      const data = await response.json();
-      
-      if (response.ok && data.success) {
-        setState(prev => ({
-          ...prev,
-          controls: data.controls,
-          connectionStatus: 'connected',
-          lastError: null
-        }));
-      } else {
-        setState(prev => ({
-          ...prev,
-          lastError: data.error || 'Failed to fetch controls'
-        }));
-      }
-    } catch (error) {
-      // Error already handled in apiCall
+    const result = await api.getControls();
+    if (!result.ok) {
+      reportError(result.error);
+      return;
     }
+    setState(prev => ({
+      ...prev,
+      controls: result.data.controls,
+      connectionStatus: 'connected',
+      lastError: null
+    }));
   };
 
   // Update stock price
   const updateStockPrice = async (symbol: string, price: number) => {
-    try {
-      const response = await apiCall(`/stocks/${symbol}/price`, {
-        method: 'PUT',
-        body: JSON.stringify({ price }),
-      });
-
-      if (response.ok) {
-        await fetchStocks();
-        return true;
-      } else {
-        const data = await response.json();
-        setState(prev => ({
-          ...prev,
-          lastError: data.error || 'Failed to update stock'
-        }));
-        return false;
-      }
-    } catch (error) {
+    const result = await api.setStockPriceLegacy(symbol, price);
+    if (!result.ok) {
+      reportError(result.error);
       return false;
     }
+    await fetchStocks();
+    return true;
   };
 
   // Bulk update stocks
   const bulkUpdateStocks = async (updateType: string, percentage?: number) => {
-    try {
-      const response = await apiCall('/stocks/bulk', {
-        method: 'PUT',
-        body: JSON.stringify({ updateType, percentage }),
-      });
-
-      if (response.ok) {
-        const data = await response.json();
-        setState(prev => ({ ...prev, lastError: null }));
-        await fetchStocks();
-        return { success: true, data };
-      } else {
-        const data = await response.json();
-        setState(prev => ({
-          ...prev,
-          lastError: data.error || 'Failed to perform bulk update'
-        }));
-        return { success: false, error: data.error };
-      }
-    } catch (error) {
-      const errorMsg = error instanceof Error ? error.message : 'Failed to perform bulk update';
-      setState(prev => ({ ...prev, lastError: errorMsg }));
-      return { success: false, error: errorMsg };
+    const result = await api.bulkUpdate({ updateType, percentage });
+    if (!result.ok) {
+      reportError(result.error);
+      return { success: false, error: result.error.message };
     }
+    setState(prev => ({ ...prev, lastError: null }));
+    await fetchStocks();
+    return { success: true, data: result.data };
   };
 
   // Add new stock
   const addNewStock = async (e: React.FormEvent) => {
     e.preventDefault();
     
-    try {
-      const response = await apiCall('/stocks', {
-        method: 'POST',
-        body: JSON.stringify({
-          symbol: addStockForm.symbol.toUpperCase(),
-          name: addStockForm.name,
-          initialPrice: parseFloat(addStockForm.price),
-        }),
-      });
-
-      if (response.ok) {
-        await fetchStocks();
-        setAddStockForm({ symbol: '', name: '', price: '' });
-        return true;
-      } else {
-        const data = await response.json();
-        setState(prev => ({
-          ...prev,
-          lastError: data.error || 'Failed to add stock'
-        }));
-        return false;
-      }
-    } catch (error) {
+    const result = await api.addStock({
+      symbol: addStockForm.symbol.toUpperCase(),
+      name: addStockForm.name,
+      initialPrice: parseFloat(addStockForm.price),
+    });
+    if (!result.ok) {
+      reportError(result.error);
       return false;
     }
+    await fetchStocks();
+    setAddStockForm({ symbol: '', name: '', price: '' });
+    return true;
   };
 
   // Remove stock
   const deleteStock = async (symbol: string) => {
     if (!confirm(`Are you sure you want to remove ${symbol} from the panel?`)) return false;
 
-    try {
-      const response = await apiCall(`/stocks/${symbol}`, {
-        method: 'DELETE',
-      });
-
-      if (response.ok) {
-        await fetchStocks();
-        setState(prev => ({
-          ...prev,
-          lastError: null
-        }));
-        return true;
-      } else {
-        const data = await response.json();
-        setState(prev => ({
-          ...prev,
-          lastError: data.error || 'Failed to remove stock'
-        }));
-        return false;
-      }
-    } catch (error) {
-      const errorMsg = error instanceof Error ? error.message : 'Failed to remove stock';
-      setState(prev => ({ ...prev, lastError: errorMsg }));
+    const result = await api.removeStock(symbol);
+    if (!result.ok) {
+      reportError(result.error);
       return false;
     }
+    await fetchStocks();
+    setState(prev => ({
+      ...prev,
+      lastError: null
+    }));
+    return true;
   };
 
   // Update system controls
-  const updateControls = async (updates: Partial<SystemControls>) => {
-    try {
-      const response = await apiCall('/controls', {
-        method: 'PUT',
-        body: JSON.stringify(updates),
-      });
-
-      if (response.ok) {
-        await fetchControls();
-        return true;
-      } else {
-        const data = await response.json();
-        setState(prev => ({
-          ...prev,
-          lastError: data.error || 'Failed to update controls'
-        }));
-        return false;
-      }
-    } catch (error) {
+  const updateControls = async (updates: ControlsUpdate) => {
+    const result = await api.updateControls(updates);
+    if (!result.ok) {
+      reportError(result.error);
       return false;
     }
+    await fetchControls();
+    return true;
   };
 
   // Dedicated pause/resume functions
   const pauseSystem = async () => {
-    try {
-      const response = await apiCall('/controls/pause', {
-        method: 'POST',
-      });
-
-      if (response.ok) {
-        await fetchControls();
-        return true;
-      } else {
-        const data = await response.json();
-        setState(prev => ({
-          ...prev,
-          lastError: data.error || 'Failed to pause system'
-        }));
-        return false;
-      }
-    } catch (error) {
+    const result = await api.pause();
+    if (!result.ok) {
+      reportError(result.error);
       return false;
     }
+    await fetchControls();
+    return true;
   };
 
   const resumeSystem = async () => {
-    try {
-      const response = await apiCall('/controls/resume', {
-        method: 'POST',
-      });
-
-      if (response.ok) {
-        await fetchControls();
-        return true;
-      } else {
-        const data = await response.json();
-        setState(prev => ({
-          ...prev,
-          lastError: data.error || 'Failed to resume system'
-        }));
-        return false;
-      }
-    } catch (error) {
+    const result = await api.resume();
+    if (!result.ok) {
+      reportError(result.error);
       return false;
     }
+    await fetchControls();
+    return true;
   };
 
   const togglePause = async () => {
@@ -407,46 +263,29 @@ const RemoteControlContent: React.FC = () => {
       return false;
     }
 
-    try {
-      setState(prev => ({ ...prev, isLoading: true }));
-      
-      const response = await apiCall('/restart', {
-        method: 'POST',
-      });
-
-      if (response.ok) {
-        const data = await response.json();
-        setState(prev => ({
-          ...prev,
-          lastError: null,
-          connectionStatus: 'connecting',
-          isLoading: false
-        }));
-        alert(`API server restart initiated successfully. The API server will restart shortly.`);
-        setTimeout(() => {
-          signOut();
-        }, 2000);
-        return true;
-      } else {
-        const data = await response.json();
-        setState(prev => ({
-          ...prev,
-          lastError: data.error || 'Failed to restart API server',
-          isLoading: false
-        }));
-        return false;
-      }
-    } catch (error) {
-      setState(prev => ({
-        ...prev,
-        isLoading: false
-      }));
+    setState(prev => ({ ...prev, isLoading: true }));
+    
+    const result = await api.restart();
+    if (!result.ok) {
+      reportError(result.error);
+      setState(prev => ({ ...prev, isLoading: false }));
       return false;
     }
+    setState(prev => ({
+      ...prev,
+      lastError: null,
+      connectionStatus: 'connecting',
+      isLoading: false
+    }));
+    alert(`API server restart initiated successfully. The API server will restart shortly.`);
+    setTimeout(() => {
+      signOut();
+    }, 2000);
+    return true;
   };
 
   // Start editing stock
-  const startEditingStock = (stock: Stock) => {
+  const startEditingStock = (stock: ApiStock) => {
     setEditingStock(stock.symbol);
     setEditPrice(stock.currentPrice.toString());
   };
@@ -468,32 +307,21 @@ const RemoteControlContent: React.FC = () => {
 
   // Verify authentication with server
   const verifyAuthentication = async () => {
-    try {
-      console.log('🔐 Verifying hybrid authentication with API server...');
-      const response = await apiCall('/auth');
-      const data = await response.json();
-      
-      if (response.ok && data.success) {
-        console.log('✅ Hybrid authentication verified:', data.user, 'Method:', data.authMethod);
-        setState(prev => ({
-          ...prev,
-          connectionStatus: 'connected',
-          lastError: null
-        }));
-        return true;
-      } else {
-        console.error('❌ Hybrid authentication failed:', data);
-        setState(prev => ({
-          ...prev,
-          lastError: data.error || 'Authentication verification failed',
-          connectionStatus: 'error'
-        }));
-        return false;
-      }
-    } catch (error) {
-      console.error('❌ Hybrid auth verification error:', error);
+    console.log('🔐 Verifying hybrid authentication with API server...');
+    const result = await api.verifyAuth();
+    if (!result.ok) {
+      console.error('❌ Hybrid authentication failed:', result.error);
+      reportError(result.error);
+      setState(prev => ({ ...prev, connectionStatus: 'error' }));
       return false;
     }
+    console.log('✅ Hybrid authentication verified:', result.data.user, 'Method:', result.data.authMethod);
+    setState(prev => ({
+      ...prev,
+      connectionStatus: 'connected',
+      lastError: null
+    }));
+    return true;
   };
 
   // Fetch data on component mount and set up polling
@@ -693,8 +521,8 @@ const RemoteControlContent: React.FC = () => {
                           <>
                             <div className="text-right">
                               <div className="font-semibold">{formatPrice(stock.currentPrice)}</div>
-                              <div className={`text-sm ${stock.percentageChange >= 0 ? 'text-green-400' : 'text-red-400'}`}>
-                                {formatPercentage(stock.percentageChange)}
+                              <div className={`text-sm ${(stock.percentageChange ?? 0) >= 0 ? 'text-green-400' : 'text-red-400'}`}>
+                                {formatPercentage(stock.percentageChange ?? 0)}
                               </div>
                             </div>
                             <div className="flex space-x-2">
@@ -883,7 +711,7 @@ const RemoteControlContent: React.FC = () => {
                     </label>
                     <select
                       value={state.controls.selectedCurrency}
-                      onChange={(e) => updateControls({ selectedCurrency: e.target.value })}
+                      onChange={(e) => updateControls({ selectedCurrency: e.target.value as Currency })}
                       className="w-full px-3 py-2 bg-gray-700 text-white rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
                     >
                       <option value="USD">🇺🇸 USD - US Dollar ($)</option>
@@ -5,34 +5,34 @@
  * completely independent of Clerk authentication.
  */
 
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { getApiBaseUrl, shouldUseApiServer } from '../lib/config';
+import { API_ENDPOINTS, ApiClient, ApiControls, ApiError, ApiStock, ApiStockGroup, ControlsUpdate } from '../lib/apiClient';
+import { parseRatesPayload } from '../lib/ratesProvider';
 import JWTAuthGuard from '../components/auth/JWTAuthGuard';
-import { CURRENCIES, Currency, type CurrencyInfo } from '../lib/types';
+import {
+  CURRENCIES,
+  CURRENCY_CODE_PATTERN,
+  Currency,
+  type CurrencyInfo,
+  ExchangeCode,
+  INSTRUMENT_TYPES,
+  InstrumentType,
+  formatPrice as formatCurrencyAmount,
+  getCurrencyInfo as lookupCurrencyInfo,
+  getSupportedCurrencies,
+  sanitizeStockSymbol,
+  setCurrencyRates,
+} from '../lib/types';
 import Tooltip from '../components/Tooltip';
-
-interface Stock {
-  symbol: string;
-  name: string;
-  currentPrice: number;
-  change: number;
-  percentChange: number;
-  volume: number;
-  lastUpdated: string;
-}
-
-interface SystemControls {
-  isPaused: boolean;
-  updateIntervalMs: number;
-  volatility: number;
-  selectedCurrency: Currency;
-  isEmergencyStopped: boolean;
-  lastUpdated: string;
-}
+import ExchangeBadge from '../components/ExchangeBadge';
 
 interface RemoteState {
-  stocks: Stock[];
-  controls: SystemControls | null;
+  stocks: ApiStock[];
+  groups: ApiStockGroup[];
+  controls: ApiControls | null;
+  // Currencies the server has exchange rates for
+  currencies: Currency[];
   connectionStatus: 'disconnected' | 'connected' | 'connecting' | 'error';
   lastError: string | null;
   isLoading: boolean;
@@ -41,7 +41,9 @@ interface RemoteState {
 const RemoteControlPanelJWT: React.FC = () => {
   const [state, setState] = useState<RemoteState>({
     stocks: [],
+    groups: [],
     controls: null,
+    currencies: getSupportedCurrencies(),
     connectionStatus: 'disconnected',
     lastError: null,
     isLoading: false,
@@ -50,127 +52,104 @@ const RemoteControlPanelJWT: React.FC = () => {
   // Form states
   const [editingStock, setEditingStock] = useState<string | null>(null);
   const [editPrice, setEditPrice] = useState<string>('');
-  const [addStockForm, setAddStockForm] = useState({ symbol: '', name: '', price: '' });
+  const [addStockForm, setAddStockForm] = useState({
+    symbol: '',
+    name: '',
+    price: '',
+    currency: 'USD' as Currency,
+    instrumentType: 'equity' as InstrumentType,
+  });
   const [bulkPercentage, setBulkPercentage] = useState<string>('');
-
-  const API_BASE = `${getApiBaseUrl()}/api/remote`;
+  const [bulkGroup, setBulkGroup] = useState<string>(''); // Empty targets all stocks
 
   // Get JWT token from localStorage
   const getToken = () => localStorage.getItem('remote-token');
 
-  // API call helper with JWT token
-  const apiCall = useCallback(async (endpoint: string, options: RequestInit = {}) => {
-    try {
+  // API client with the JWT token
+  const api = useMemo(() => new ApiClient({
+    baseUrl: getApiBaseUrl,
+    // Don't make API calls without authentication token
+    getAuthHeaders: () => {
       const token = getToken();
-      
-      // Don't make API calls without authentication token
-      if (!token) {
-        throw new Error('No authentication token available');
-      }
-      
-      const response = await fetch(`${API_BASE}${endpoint}`, {
-        ...options,
-        headers: {
-          'Authorization': `Bearer ${token}`,
-          'Content-Type': 'application/json',
-          ...options.headers,
-        },
-      });
-
-      if (response.status === 401) {
-        setState(prev => ({
-          ...prev,
-          lastError: 'Authentication expired. Please sign in again.',
-          connectionStatus: 'error'
-        }));
-        // Clear token but DON'T reload - let JWTAuthGuard handle the redirect
-        localStorage.removeItem('remote-token');
-        throw new Error('Authentication expired');
-      }
-
-      return response;
-    } catch (error) {
-      setState(prev => ({
-        ...prev,
-        connectionStatus: 'error',
-        lastError: error instanceof Error ? error.message : 'Request failed'
-      }));
-      throw error;
-    }
-  }, []);
+      return token ? { 'Authorization': `Bearer ${token}` } : null;
+    },
+    onUnauthorized: () => {
+      // Clear token but DON'T reload - let JWTAuthGuard handle the redirect
+      localStorage.removeItem('remote-token');
+    },
+  }), []);
+
+  // Show a failed call; no answer or no valid token means the connection is down
+  const reportError = (error: ApiError) => {
+    const connectionLost = error.kind === 'unauthorized' || error.kind === 'network' || error.kind === 'timeout';
+    setState(prev => ({
+      ...prev,
+      connectionStatus: connectionLost ? 'error' : prev.connectionStatus,
+      lastError: error.kind === 'unauthorized' && error.status === 401
+        ? 'Authentication expired. Please sign in again.'
+        : error.message
+    }));
+  };
 
   // Fetch stocks
   const fetchStocks = async () => {
     console.log('📊 DEBUG: fetchStocks() called - making GET request to /stocks');
-    try {
-      const response = await apiCall('/stocks', { method: 'GET' });
-      const data = await response.json();
-      
-      if (response.ok && data.success) {
-        setState(prev => ({
-          ...prev,
-          stocks: data.stocks,
-          connectionStatus: 'connected',
-          lastError: null
-        }));
-      } else {
-        setState(prev => ({
-          ...prev,
-          lastError: data.error || 'Failed to fetch stocks'
-        }));
-      }
-    } catch (error) {
-      // Error already handled in apiCall
+    const result = await api.getStocks();
+    if (!result.ok) {
+      reportError(result.error);
+      return;
     }
+    setState(prev => ({
+      ...prev,
+      stocks: result.data.stocks,
+      groups: result.data.groups ?? [],
+      connectionStatus: 'connected',
+      lastError: null
+    }));
   };
 
   // Fetch controls
   const fetchControls = async () => {
     console.log('🎮 DEBUG: fetchControls() called - making GET request to /controls');
-    try {
-      const response = await apiCall('/controls', { method: 'GET' });
-      const data = await response.json();
-      
-      if (response.ok && data.success) {
-        setState(prev => ({
-          ...prev,
-          controls: data.controls,
-          connectionStatus: 'connected',
-          lastError: null
-        }));
-      } else {
-        setState(prev => ({
-          ...prev,
-          lastError: data.error || 'Failed to fetch controls'
-        }));
-      }
-    } catch (error) {
-      // Error already handled in apiCall
+    const result = await api.getControls();
+    if (!result.ok) {
+      reportError(result.error);
+      return;
+    }
+    setState(prev => ({
+      ...prev,
+      controls: result.data.controls,
+      connectionStatus: 'connected',
+      lastError: null
+    }));
+  };
+
+  // Fetch the server's exchange rates, which decide the currencies it accepts
+  const fetchRates = async () => {
+    const result = await api.getFxRates();
+    if (!result.ok) {
+      reportError(result.error);
+      return;
+    }
+    const { result: validation, snapshot } = parseRatesPayload(result.data, API_ENDPOINTS.FX_RATES);
+    if (!validation.isValid || !snapshot) {
+      setState(prev => ({ ...prev, lastError: validation.errorMessage || 'Invalid exchange rates' }));
+      return;
     }
+    // This panel runs without TickerProvider, so it converts and checks currencies with the server's rates
+    setCurrencyRates(snapshot.rates);
+    setState(prev => ({ ...prev, currencies: getSupportedCurrencies(snapshot.rates) }));
   };
 
   // Update stock price
   const updateStockPrice = async (symbol: string, price: number) => {
-    try {
-      const response = await apiCall(`/stocks/${symbol}`, {
-        method: 'PUT',
-        body: JSON.stringify({ price }),
-      });
-
-      if (response.ok) {
-        await fetchStocks();
-        return true;
-      } else {
-        const data = await response.json();
-        setState(prev => ({
-          ...prev,
-          lastError: data.error || 'Failed to update stock'
-        }));
-        return false;
-      }
-    } catch (error) {
+    const result = await api.setStockPrice(symbol, price);
+    if (!result.ok) {
+      reportError(result.error);
       return false;
     }
+    await fetchStocks();
+    return true;
   };
 
   // Bulk update stocks
@@ -179,161 +158,83 @@ const RemoteControlPanelJWT: React.FC = () => {
     console.log('🚨 DEBUG: bulkUpdateStocks called with:', { updateType, percentage });
     console.trace('🚨 DEBUG: Call stack trace:');
     
-    try {
-      const response = await apiCall('/stocks/bulk', {
-        method: 'PUT',
-        body: JSON.stringify({ updateType, percentage }),
-      });
-
-      if (response.ok) {
-        const data = await response.json();
-        setState(prev => ({ ...prev, lastError: null }));
-        await fetchStocks();
-        return { success: true, data };
-      } else {
-        const data = await response.json();
-        setState(prev => ({
-          ...prev,
-          lastError: data.error || 'Failed to perform bulk update'
-        }));
-        return { success: false, error: data.error };
-      }
-    } catch (error) {
-      const errorMsg = error instanceof Error ? error.message : 'Failed to perform bulk update';
-      setState(prev => ({ ...prev, lastError: errorMsg }));
-      return { success: false, error: errorMsg };
+    const result = await api.bulkUpdate({ updateType, percentage, group: bulkGroup || undefined });
+    if (!result.ok) {
+      reportError(result.error);
+      return { success: false, error: result.error.message };
     }
+    setState(prev => ({ ...prev, lastError: null }));
+    await fetchStocks();
+    return { success: true, data: result.data };
   };
 
   // Add new stock
   const addNewStock = async (e: React.FormEvent) => {
     e.preventDefault();
     
-    try {
-      const response = await apiCall('/stocks', {
-        method: 'POST',
-        body: JSON.stringify({
-          symbol: addStockForm.symbol.toUpperCase(),
-          name: addStockForm.name,
-          initialPrice: parseFloat(addStockForm.price),
-        }),
-      });
-
-      if (response.ok) {
-        await fetchStocks();
-        setAddStockForm({ symbol: '', name: '', price: '' });
-        return true;
-      } else {
-        const data = await response.json();
-        setState(prev => ({
-          ...prev,
-          lastError: data.error || 'Failed to add stock'
-        }));
-        return false;
-      }
-    } catch (error) {
+    const result = await api.addStock({
+      symbol: sanitizeStockSymbol(addStockForm.symbol, addStockForm.instrumentType),
+      name: addStockForm.name,
+      initialPrice: parseFloat(addStockForm.price),
+      currency: addStockForm.currency,
+      instrumentType: addStockForm.instrumentType,
+    });
+    if (!result.ok) {
+      reportError(result.error);
       return false;
     }
+    await fetchStocks();
+    setAddStockForm(prev => ({ ...prev, symbol: '', name: '', price: '' }));
+    return true;
   };
 
   // Remove stock
   const deleteStock = async (symbol: string) => {
     if (!confirm(`Are you sure you want to remove ${symbol} from the panel?`)) return false;
 
-    try {
-      const response = await apiCall(`/stocks/${symbol}`, {
-        method: 'DELETE',
-      });
-
-      if (response.ok) {
-        await fetchStocks();
-        setState(prev => ({
-          ...prev,
-          lastError: null
-        }));
-        return true;
-      } else {
-        const data = await response.json();
-        setState(prev => ({
-          ...prev,
-          lastError: data.error || 'Failed to remove stock'
-        }));
-        return false;
-      }
-    } catch (error) {
-      const errorMsg = error instanceof Error ? error.message : 'Failed to remove stock';
-      setState(prev => ({ ...prev, lastError: errorMsg }));
+    const result = await api.removeStock(symbol);
+    if (!result.ok) {
+      reportError(result.error);
       return false;
     }
+    await fetchStocks();
+    setState(prev => ({
+      ...prev,
+      lastError: null
+    }));
+    return true;
   };
 
   // Update system controls
-  const updateControls = async (updates: Partial<SystemControls>) => {
-    try {
-      const response = await apiCall('/controls', {
-        method: 'PUT',
-        body: JSON.stringify(updates),
-      });
-
-      if (response.ok) {
-        await fetchControls();
-        return true;
-      } else {
-        const data = await response.json();
-        setState(prev => ({
-          ...prev,
-          lastError: data.error || 'Failed to update controls'
-        }));
-        return false;
-      }
-    } catch (error) {
+  const updateControls = async (updates: ControlsUpdate) => {
+    const result = await api.updateControls(updates);
+    if (!result.ok) {
+      reportError(result.error);
       return false;
     }
+    await fetchControls();
+    return true;
   };
 
   // Dedicated pause/resume functions
   const pauseSystem = async () => {
-    try {
-      const response = await apiCall('/controls/pause', {
-        method: 'POST',
-      });
-
-      if (response.ok) {
-        await fetchControls();
-        return true;
-      } else {
-        const data = await response.json();
-        setState(prev => ({
-          ...prev,
-          lastError: data.error || 'Failed to pause system'
-        }));
-        return false;
-      }
-    } catch (error) {
+    const result = await api.pause();
+    if (!result.ok) {
+      reportError(result.error);
       return false;
     }
+    await fetchControls();
+    return true;
   };
 
   const resumeSystem = async () => {
-    try {
-      const response = await apiCall('/controls/resume', {
-        method: 'POST',
-      });
-
-      if (response.ok) {
-        await fetchControls();
-        return true;
-      } else {
-        const data = await response.json();
-        setState(prev => ({
-          ...prev,
-          lastError: data.error || 'Failed to resume system'
-        }));
-        return false;
-      }
-    } catch (error) {
+    const result = await api.resume();
+    if (!result.ok) {
+      reportError(result.error);
       return false;
     }
+    await fetchControls();
+    return true;
   };
 
   const togglePause = async () => {
@@ -376,32 +277,22 @@ const RemoteControlPanelJWT: React.FC = () => {
       CHF: { ...CURRENCIES.CHF, flag: '🇨🇭' },
       INR: { ...CURRENCIES.INR, flag: '🇮🇳' }
     };
-    return currencies[currencyCode as keyof typeof currencies] || currencies.USD;
+    if (currencyCode in currencies) {
+      return currencies[currencyCode as keyof typeof currencies];
+    }
+    return CURRENCY_CODE_PATTERN.test(currencyCode)
+      ? { ...lookupCurrencyInfo(currencyCode), flag: '🏳️' }
+      : currencies.USD;
   };
 
   // Format price based on selected currency
   const formatPrice = (price: number, currency?: Currency) => {
     const selectedCurrency = currency || state.controls?.selectedCurrency || 'USD';
-    const currencyInfo = getCurrencyInfo(selectedCurrency);
-    
-    switch (selectedCurrency) {
-      case 'JPY':
-        // Japanese Yen doesn't use decimal places
-        return `${currencyInfo.symbol}${Math.round(price).toLocaleString()}`;
-      case 'EUR':
-      case 'GBP':
-      case 'CAD':
-      case 'INR':
-      case 'CHF':
-        return `${currencyInfo.symbol}${price.toFixed(2)}`;
-      case 'USD':
-      default:
-        return `${currencyInfo.symbol}${price.toFixed(2)}`;
-    }
+    return formatCurrencyAmount(price, CURRENCY_CODE_PATTERN.test(selectedCurrency) ? selectedCurrency : 'USD');
   };
 
   // Stock editing handlers
-  const startEditingStock = (stock: Stock) => {
+  const startEditingStock = (stock: ApiStock) => {
     setEditingStock(stock.symbol);
     setEditPrice(stock.currentPrice.toString());
   };
@@ -433,10 +324,11 @@ const RemoteControlPanelJWT: React.FC = () => {
       setState(prev => ({ ...prev, isLoading: true }));
       
       console.log('📝 DEBUG: About to call fetchStocks() and fetchControls()');
-      Promise.all([
+      // Rates first: stocks and controls are checked against the currencies they support
+      fetchRates().then(() => Promise.all([
         fetchStocks(),
         fetchControls()
-      ]).finally(() => {
+      ])).finally(() => {
         console.log('📝 DEBUG: Initialization complete');
         setState(prev => ({ ...prev, isLoading: false }));
       });
@@ -585,7 +477,9 @@ const RemoteControlPanelJWT: React.FC = () => {
                     .filter(stock => stock && stock.symbol && stock.name)
                     .map((stock) => (
                     <tr key={stock.symbol} className="border-b border-gray-700/50 hover:bg-gray-700/20">
-                      <td className="p-2 font-mono font-bold text-blue-300">{stock.symbol}</td>
+                      <td className="p-2 font-mono font-bold text-blue-300">
+                        {stock.symbol} <ExchangeBadge stock={stock} />
+                      </td>
                       <td className="p-2 text-gray-300">{stock.name}</td>
                       <td className="p-2 text-right">
                         {editingStock === stock.symbol ? (
@@ -598,7 +492,7 @@ const RemoteControlPanelJWT: React.FC = () => {
                           />
                         ) : (
                           <span className="font-mono">
-                            {formatPrice(stock.currentPrice ?? 0)}
+                            {formatPrice(stock.currentPrice ?? 0, stock.currency ?? 'USD')}
                           </span>
                         )}
                       </td>
@@ -655,10 +549,20 @@ const RemoteControlPanelJWT: React.FC = () => {
             {/* Add New Stock Form */}
             <div className="border-t border-gray-700 pt-4">
               <h3 className="text-lg font-medium mb-3">Add New Stock</h3>
-              <form onSubmit={addNewStock} className="grid grid-cols-1 md:grid-cols-4 gap-3">
+              <form onSubmit={addNewStock} className="grid grid-cols-1 md:grid-cols-6 gap-3">
+                <select
+                  value={addStockForm.instrumentType}
+                  onChange={(e) => setAddStockForm(prev => ({ ...prev, instrumentType: e.target.value as InstrumentType }))}
+                  aria-label="Instrument type"
+                  className="px-3 py-2 bg-gray-700 border border-gray-600 rounded focus:outline-none focus:border-blue-500"
+                >
+                  {(Object.keys(INSTRUMENT_TYPES) as InstrumentType[]).map(type => (
+                    <option key={type} value={type}>{INSTRUMENT_TYPES[type].label}</option>
+                  ))}
+                </select>
                 <input
                   type="text"
-                  placeholder="Symbol (e.g. AAPL)"
+                  placeholder={`Symbol (e.g. ${INSTRUMENT_TYPES[addStockForm.instrumentType].examples.split(', ')[0]})`}
                   value={addStockForm.symbol}
                   onChange={(e) => setAddStockForm(prev => ({ ...prev, symbol: e.target.value }))}
                   className="px-3 py-2 bg-gray-700 border border-gray-600 rounded focus:outline-none focus:border-blue-500"
@@ -681,6 +585,16 @@ const RemoteControlPanelJWT: React.FC = () => {
                   step="0.01"
                   required
                 />
+                <select
+                  value={addStockForm.currency}
+                  onChange={(e) => setAddStockForm(prev => ({ ...prev, currency: e.target.value as Currency }))}
+                  aria-label="Listing currency"
+                  className="px-3 py-2 bg-gray-700 border border-gray-600 rounded focus:outline-none focus:border-blue-500"
+                >
+                  {state.currencies.map(code => (
+                    <option key={code} value={code}>{code}</option>
+                  ))}
+                </select>
                 <button
                   type="submit"
                   className="px-4 py-2 bg-green-600 hover:bg-green-700 rounded transition-colors"
@@ -693,6 +607,22 @@ const RemoteControlPanelJWT: React.FC = () => {
             {/* Bulk Operations */}
             <div className="border-t border-gray-700 pt-4 mt-4">
               <h3 className="text-lg font-medium mb-3">Bulk Operations</h3>
+              <div className="flex items-center gap-2 mb-3">
+                <label htmlFor="bulk-group" className="text-sm text-gray-400">Apply to</label>
+                <select
+                  id="bulk-group"
+                  value={bulkGroup}
+                  onChange={(e) => setBulkGroup(e.target.value)}
+                  className="px-2 py-1 bg-gray-700 border border-gray-600 rounded focus:outline-none focus:border-blue-500"
+                >
+                  <option value="">All stocks ({state.stocks.length})</option>
+                  {state.groups.map(group => (
+                    <option key={group.id} value={group.id}>
+                      {group.name} ({group.symbols.length})
+                    </option>
+                  ))}
+                </select>
+              </div>
               <div className="flex flex-wrap gap-3">
                 <button
                   onClick={() => bulkUpdateStocks('simulate')}
@@ -717,7 +647,9 @@ const RemoteControlPanelJWT: React.FC = () => {
                 </button>
                 <button
                   onClick={() => {
-                    if (confirm(`Are you sure you want to reset all ${state.stocks.length} stocks to their initial prices? This cannot be undone.`)) {
+                    const targetGroup = state.groups.find(group => group.id === bulkGroup);
+                    const target = targetGroup ? `the ${targetGroup.name} stocks` : `all ${state.stocks.length} stocks`;
+                    if (confirm(`Are you sure you want to reset ${target} to their initial prices? This cannot be undone.`)) {
                       bulkUpdateStocks('reset');
                     }
                   }}
@@ -858,11 +790,11 @@ const RemoteControlPanelJWT: React.FC = () => {
                     onChange={(e) => updateControls({ selectedCurrency: e.target.value as Currency })}
                     className="w-full p-2 bg-gray-700 border border-gray-600 rounded focus:outline-none focus:border-blue-500 text-white"
                   >
-                    {Object.entries(CURRENCIES).map(([code, info]) => {
+                    {state.currencies.map(code => {
                       const currencyInfo = getCurrencyInfo(code);
                       return (
                         <option key={code} value={code}>
-                          {currencyInfo.flag} {currencyInfo.symbol} {info.name}
+                          {currencyInfo.flag} {currencyInfo.symbol} {currencyInfo.name}
                         </option>
                       );
                     })}
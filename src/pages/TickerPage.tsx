@@ -2,11 +2,36 @@ import React from 'react';
 import { useTickerContext } from '../lib/context';
 import { StockTickerList } from '../components/StockTicker';
 import SafeStockChart from '../components/SafeStockChart';
-import { formatPrice } from '../lib/types';
+import WatchlistTabs from '../components/WatchlistTabs';
+import PortfolioPanel from '../components/PortfolioPanel';
+import OrderPanel from '../components/OrderPanel';
+import RatesStatus from '../components/RatesStatus';
+import StorageStatus from '../components/StorageStatus';
+import TabSyncStatus from '../components/TabSyncStatus';
+import ExchangeBadge from '../components/ExchangeBadge';
+import { formatPrice, getStockCurrency } from '../lib/types';
+import { getWatchlistStocks, moveItem } from '../utils/watchlists';
 
 export default function TickerPage() {
-  const { tickerState } = useTickerContext();
-  const { stocks, isPaused, updateIntervalMs, selectedStock, selectedCurrency } = tickerState;
+  const {
+    tickerState,
+    selectWatchlist,
+    createWatchlist,
+    renameWatchlist,
+    deleteWatchlist,
+    setWatchlistSymbols,
+  } = useTickerContext();
+  const { stocks, isPaused, updateIntervalMs, selectedStock, selectedCurrency, watchlists, activeWatchlistId, fxRates, storage, tabSync } = tickerState;
+  
+  const activeWatchlist = watchlists.find(watchlist => watchlist.id === activeWatchlistId);
+  const visibleStocks = getWatchlistStocks(stocks, activeWatchlist);
+  
+  // Dragging reorders the active watchlist
+  const handleReorder = (fromIndex: number, toIndex: number) => {
+    if (activeWatchlist) {
+      setWatchlistSymbols(activeWatchlist.id, moveItem(visibleStocks.map(stock => stock.symbol), fromIndex, toIndex));
+    }
+  };
 
   return (
     <div className="space-y-8">
@@ -48,7 +73,12 @@ export default function TickerPage() {
             </svg>
           )}
         </h2>
-        <div className="text-sm">
+        <div className="text-sm flex items-center gap-2">
+          <TabSyncStatus tabSync={tabSync} />
+          {/* Shown whenever prices or the USD portfolio are being converted */}
+          {(selectedCurrency !== 'USD' || stocks.some(stock => getStockCurrency(stock) !== 'USD')) && <RatesStatus fxRates={fxRates} />}
+          {/* Shown when saving failed because browser storage is full */}
+          {storage.quotaError && <StorageStatus storage={storage} />}
           <span className={`inline-flex items-center gap-2 px-4 py-2 rounded-full font-medium shadow-sm ${
             isPaused 
               ? 'bg-yellow-900 text-yellow-100 border border-yellow-600' 
@@ -92,7 +122,11 @@ export default function TickerPage() {
                     return (
                       <>
                         <div className="text-2xl font-bold text-gray-100 mb-2">
-                          {currentStock.symbol} - {formatPrice(currentStock.currentPrice, selectedCurrency)}
+                          {currentStock.symbol} - {formatPrice(currentStock.currentPrice, selectedCurrency, 2, getStockCurrency(currentStock))}
+                          {getStockCurrency(currentStock) !== selectedCurrency && (
+                            <span className="ml-2 text-base text-gray-400">({formatPrice(currentStock.currentPrice, getStockCurrency(currentStock))})</span>
+                          )}
+                          <ExchangeBadge stock={currentStock} className="ml-2 align-middle" />
                         </div>
                         <div className="text-lg text-gray-400 font-semibold">
                           {(() => {
@@ -102,19 +136,19 @@ export default function TickerPage() {
                             if (current < initial) {
                               return (
                                 <span className="text-red-400 font-medium">
-                                  🔴 -{Math.abs(parseFloat(diff))}% from initial ({formatPrice(initial, selectedCurrency)})
+                                  🔴 -{Math.abs(parseFloat(diff))}% from initial ({formatPrice(initial, selectedCurrency, 2, getStockCurrency(currentStock))})
                                 </span>
                               );
                             } else if (current > initial) {
                               return (
                                 <span className="text-green-400 font-medium">
-                                  🟢 +{diff}% from initial ({formatPrice(initial, selectedCurrency)})
+                                  🟢 +{diff}% from initial ({formatPrice(initial, selectedCurrency, 2, getStockCurrency(currentStock))})
                                 </span>
                               );
                             } else {
                               return (
                                 <span className="text-blue-400 font-medium">
-                                  🔵 At initial price ({formatPrice(initial, selectedCurrency)})
+                                  🔵 At initial price ({formatPrice(initial, selectedCurrency, 2, getStockCurrency(currentStock))})
                                 </span>
                               );
                             }
@@ -147,8 +181,34 @@ export default function TickerPage() {
                 </span>
               )}
             </h3>
+            <WatchlistTabs
+              stocks={stocks}
+              watchlists={watchlists}
+              activeWatchlistId={activeWatchlistId}
+              onSelect={selectWatchlist}
+              onCreate={createWatchlist}
+              onRename={renameWatchlist}
+              onDelete={deleteWatchlist}
+              onSetSymbols={setWatchlistSymbols}
+            />
             <div className="transition-all duration-300 ease-in-out">
-              <StockTickerList stocks={stocks} />
+              {activeWatchlist && visibleStocks.length === 0 ? (
+                <div className="text-center py-4 text-gray-400">
+                  No stocks in {activeWatchlist.name} yet. Use Edit list to add some.
+                </div>
+              ) : (
+                <StockTickerList stocks={visibleStocks} onReorder={activeWatchlist ? handleReorder : undefined} />
+              )}
+            </div>
+          </div>
+
+          {/* Paper trading - positions next to order entry and the blotter */}
+          <div className="grid grid-cols-1 xl:grid-cols-5 gap-6">
+            <div className="xl:col-span-3">
+              <PortfolioPanel />
+            </div>
+            <div className="xl:col-span-2">
+              <OrderPanel />
             </div>
           </div>
         </div>
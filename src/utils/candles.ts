@@ -0,0 +1,116 @@
+import { Candle, ChartTimeRange, PricePoint } from '../lib/types';
+
+/**
+ * Fixed chart time ranges (everything except 'all')
+ */
+export type CandleGranularity = Exclude<ChartTimeRange, 'all'>;
+
+/**
+ * Duration of each fixed time range in milliseconds
+ */
+export const TIME_RANGE_MS: Record<CandleGranularity, number> = {
+  '1m': 60 * 1000,
+  '5m': 5 * 60 * 1000,
+  '15m': 15 * 60 * 1000,
+  '1h': 60 * 60 * 1000,
+  '4h': 4 * 60 * 60 * 1000,
+};
+
+/**
+ * Candle width used when viewing each time range, so a range shows a readable number of candles
+ */
+export const RANGE_CANDLE_INTERVAL_MS: Record<CandleGranularity, number> = {
+  '1m': 5 * 1000,
+  '5m': 15 * 1000,
+  '15m': 30 * 1000,
+  '1h': TIME_RANGE_MS['1m'],
+  '4h': TIME_RANGE_MS['5m'],
+};
+
+// Candle widths considered when sizing candles for the 'all' range, smallest first
+const CANDLE_INTERVAL_LADDER_MS = [
+  1000,
+  5 * 1000,
+  15 * 1000,
+  30 * 1000,
+  TIME_RANGE_MS['1m'],
+  TIME_RANGE_MS['5m'],
+  TIME_RANGE_MS['15m'],
+  TIME_RANGE_MS['1h'],
+  TIME_RANGE_MS['4h'],
+];
+
+// Default number of candles to aim for when sizing automatically
+const TARGET_CANDLE_COUNT = 12;
+
+/**
+ * Aggregate price points into OHLC candles
+ * @param points Price points (any order)
+ * @param interval Candle width in milliseconds, or a time range name such as '5m'
+ * @returns Candles in chronological order; intervals without points are skipped
+ */
+export function aggregateCandles(points: PricePoint[], interval: number | CandleGranularity): Candle[] {
+  const intervalMs = typeof interval === 'number' ? interval : TIME_RANGE_MS[interval];
+  if (!isFinite(intervalMs) || intervalMs <= 0) {
+    throw new Error(`Invalid candle interval: ${interval}`);
+  }
+
+  const sorted = [...points].sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+  const candles: Candle[] = [];
+  let current: Candle | null = null;
+
+  for (const point of sorted) {
+    const time = new Date(point.timestamp).getTime();
+    // Align buckets to the epoch so candles line up across stocks and refreshes
+    const bucketStart = Math.floor(time / intervalMs) * intervalMs;
+
+    if (!current || current.timestamp.getTime() !== bucketStart) {
+      current = {
+        timestamp: new Date(bucketStart),
+        open: point.price,
+        high: point.price,
+        low: point.price,
+        close: point.price,
+        pointCount: 1,
+      };
+      candles.push(current);
+    } else {
+      current.high = Math.max(current.high, point.price);
+      current.low = Math.min(current.low, point.price);
+      current.close = point.price;
+      current.pointCount++;
+    }
+  }
+
+  return candles;
+}
+
+/**
+ * Pick the candle width for viewing a time range
+ * @param range Time range being displayed
+ * @param points Price points in view (used to size candles for the 'all' range)
+ * @param targetCount Approximate number of candles wanted for the 'all' range
+ */
+export function getCandleInterval(range: ChartTimeRange, points: PricePoint[], targetCount = TARGET_CANDLE_COUNT): number {
+  if (range !== 'all') {
+    return RANGE_CANDLE_INTERVAL_MS[range];
+  }
+
+  if (points.length < 2) {
+    return CANDLE_INTERVAL_LADDER_MS[0];
+  }
+
+  const times = points.map(point => new Date(point.timestamp).getTime());
+  const spanMs = Math.max(...times) - Math.min(...times);
+  const interval = CANDLE_INTERVAL_LADDER_MS.find(ms => spanMs / ms <= targetCount);
+  return interval ?? CANDLE_INTERVAL_LADDER_MS[CANDLE_INTERVAL_LADDER_MS.length - 1];
+}
+
+/**
+ * Short label for a candle width, e.g. "15s", "5m" or "4h"
+ */
+export function formatCandleInterval(intervalMs: number): string {
+  if (intervalMs % TIME_RANGE_MS['1h'] === 0) return `${intervalMs / TIME_RANGE_MS['1h']}h`;
+  if (intervalMs % TIME_RANGE_MS['1m'] === 0) return `${intervalMs / TIME_RANGE_MS['1m']}m`;
+  return `${Math.round(intervalMs / 1000)}s`;
+}
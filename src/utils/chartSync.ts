@@ -0,0 +1,33 @@
+import { Chart as ChartJS } from 'chart.js';
+
+/**
+ * Width reserved for the value axis of the price chart and its indicator
+ * sub-panels, so their x positions line up
+ */
+export const CHART_VALUE_AXIS_WIDTH = 72;
+
+/**
+ * Highlight the same data index on a chart, mirroring a hover on a sibling chart
+ * @param chart Chart to update
+ * @param index Data index to highlight, or null to clear the highlight
+ */
+export function syncHoverIndex(chart: ChartJS, index: number | null): void {
+  const elements = index === null
+    ? []
+    : chart.data.datasets
+        .map((dataset, datasetIndex) => ({ dataset, datasetIndex }))
+        .filter(({ dataset }) => {
+          const value = dataset.data[index];
+          return value !== null && value !== undefined;
+        })
+        .map(({ datasetIndex }) => ({ datasetIndex, index }));
+
+  try {
+    chart.setActiveElements(elements);
+    chart.tooltip?.setActiveElements(elements, { x: 0, y: 0 });
+    chart.update('none');
+  } catch (error) {
+    // The chart may have been destroyed between renders
+    console.warn('Error syncing chart hover:', error);
+  }
+}
@@ -1,4 +1,5 @@
 import { PricePoint, MAX_HISTORY_POINTS } from '../lib/types';
+import { RandomSource } from './random';
 
 /**
  * Configuration for generating fake price history data
@@ -16,6 +17,8 @@ export interface PriceHistoryConfig {
   enableTrend?: boolean;
   /** Trend strength (-1 to 1, negative for downward trend, positive for upward) */
   trendStrength?: number;
+  /** Random source (defaults to Math.random; pass a seeded source for reproducible data) */
+  random?: RandomSource;
 }
 
 /**
@@ -30,7 +33,8 @@ export function generateFakePriceHistory(config: PriceHistoryConfig): PricePoint
     intervalSeconds = 15, // 15 seconds between each data point
     maxVariationPercent = 3, // Maximum 3% variation
     enableTrend = false,
-    trendStrength = 0
+    trendStrength = 0,
+    random = Math.random
   } = config;
 
   const priceHistory: PricePoint[] = [];
@@ -52,7 +56,7 @@ export function generateFakePriceHistory(config: PriceHistoryConfig): PricePoint
     }
     
     // Add random fluctuation
-    const randomVariation = (Math.random() - 0.5) * 2 * (maxVariationPercent / 100);
+    const randomVariation = (random() - 0.5) * 2 * (maxVariationPercent / 100);
     priceVariation += randomVariation;
     
     // Apply some smoothing to make the data look more realistic
@@ -82,10 +86,12 @@ export function generateFakePriceHistory(config: PriceHistoryConfig): PricePoint
 /**
  * Generates fake price history for multiple stocks with different characteristics
  * @param stocks Array of objects with symbol, name, and basePrice
+ * @param random Random source shared by all generated histories
  * @returns Object mapping stock symbols to their generated price histories
  */
 export function generateMultipleStockHistories(
-  stocks: Array<{ symbol: string; name: string; basePrice: number }>
+  stocks: Array<{ symbol: string; name: string; basePrice: number }>,
+  random: RandomSource = Math.random
 ): Record<string, PricePoint[]> {
   const histories: Record<string, PricePoint[]> = {};
   
@@ -96,8 +102,9 @@ export function generateMultipleStockHistories(
       pointsCount: MAX_HISTORY_POINTS,
       intervalSeconds: 15,
       maxVariationPercent: 2 + (index * 0.5), // Vary volatility by stock
-      enableTrend: Math.random() > 0.5, // 50% chance of trending
-      trendStrength: (Math.random() - 0.5) * 0.4 // Random trend between -0.2 and 0.2
+      enableTrend: random() > 0.5, // 50% chance of trending
+      trendStrength: (random() - 0.5) * 0.4, // Random trend between -0.2 and 0.2
+      random
     };
     
     histories[stock.symbol] = generateFakePriceHistory(configs);
@@ -137,14 +144,16 @@ export function updatePriceHistory(
  * Generates a single realistic price change based on current price
  * @param currentPrice Current price of the stock
  * @param maxChangePercent Maximum percentage change allowed
+ * @param random Random source (defaults to Math.random)
  * @returns New price after applying realistic fluctuation
  */
 export function generateRealisticPriceChange(
   currentPrice: number,
-  maxChangePercent: number = 2
+  maxChangePercent: number = 2,
+  random: RandomSource = Math.random
 ): number {
   // Generate a random change with bias towards smaller changes
-  const randomFactor = Math.random();
+  const randomFactor = random();
   
   // Use a weighted distribution that favors smaller changes
   // Most changes should be small (within 0.5%), with occasional larger moves
@@ -152,13 +161,13 @@ export function generateRealisticPriceChange(
   
   if (randomFactor < 0.7) {
     // 70% of changes are small (within 0.5%)
-    changePercent = (Math.random() - 0.5) * 1.0; // -0.5% to +0.5%
+    changePercent = (random() - 0.5) * 1.0; // -0.5% to +0.5%
   } else if (randomFactor < 0.9) {
     // 20% are medium changes (0.5% to 1.5%)
-    changePercent = (Math.random() - 0.5) * 3.0; // -1.5% to +1.5%
+    changePercent = (random() - 0.5) * 3.0; // -1.5% to +1.5%
   } else {
     // 10% are larger changes (up to max)
-    changePercent = (Math.random() - 0.5) * maxChangePercent * 2; // -max% to +max%
+    changePercent = (random() - 0.5) * maxChangePercent * 2; // -max% to +max%
   }
   
   const newPrice = currentPrice * (1 + changePercent / 100);
@@ -0,0 +1,104 @@
+import { DownsampleMethod, PricePoint } from '../lib/types';
+
+// Timestamps may arrive as Date objects or ISO strings (e.g. from storage or the API)
+const timeOf = (point: PricePoint): number => new Date(point.timestamp).getTime();
+
+/**
+ * Downsample with Largest-Triangle-Three-Buckets, which keeps the visual shape of a line
+ * @param points Points in chronological order
+ * @param threshold Number of points to keep (first and last are always kept)
+ */
+export function lttb(points: PricePoint[], threshold: number): PricePoint[] {
+  if (threshold >= points.length || points.length <= 2) {
+    return [...points];
+  }
+  if (threshold < 3) {
+    return threshold <= 1 ? [points[points.length - 1]] : [points[0], points[points.length - 1]];
+  }
+
+  const sampled: PricePoint[] = [points[0]];
+  const bucketSize = (points.length - 2) / (threshold - 2);
+  let previousIndex = 0;
+
+  for (let i = 0; i < threshold - 2; i++) {
+    // Average of the next bucket is the third corner of the triangle
+    const nextStart = Math.floor((i + 1) * bucketSize) + 1;
+    const nextEnd = Math.min(Math.floor((i + 2) * bucketSize) + 1, points.length);
+    let averageTime = 0;
+    let averagePrice = 0;
+    for (let j = nextStart; j < nextEnd; j++) {
+      averageTime += timeOf(points[j]);
+      averagePrice += points[j].price;
+    }
+    const nextCount = Math.max(nextEnd - nextStart, 1);
+    averageTime /= nextCount;
+    averagePrice /= nextCount;
+
+    // Pick the point in this bucket forming the largest triangle with the previous pick
+    const start = Math.floor(i * bucketSize) + 1;
+    const end = Math.floor((i + 1) * bucketSize) + 1;
+    const previousTime = timeOf(points[previousIndex]);
+    const previousPrice = points[previousIndex].price;
+    let maxArea = -1;
+    let selectedIndex = start;
+
+    for (let j = start; j < end; j++) {
+      const area = Math.abs(
+        (previousTime - averageTime) * (points[j].price - previousPrice) -
+        (previousTime - timeOf(points[j])) * (averagePrice - previousPrice)
+      );
+      if (area > maxArea) {
+        maxArea = area;
+        selectedIndex = j;
+      }
+    }
+
+    sampled.push(points[selectedIndex]);
+    previousIndex = selectedIndex;
+  }
+
+  sampled.push(points[points.length - 1]);
+  return sampled;
+}
+
+/**
+ * Downsample by keeping the lowest and highest point of each bucket, so spikes are never lost
+ * @param points Points in chronological order
+ * @param threshold Number of points to keep (rounded down to an even number, at least 2)
+ */
+export function minMaxDecimate(points: PricePoint[], threshold: number): PricePoint[] {
+  if (threshold >= points.length) {
+    return [...points];
+  }
+
+  const bucketCount = Math.max(1, Math.floor(threshold / 2));
+  const bucketSize = points.length / bucketCount;
+  const sampled: PricePoint[] = [];
+
+  for (let i = 0; i < bucketCount; i++) {
+    const start = Math.floor(i * bucketSize);
+    const end = Math.min(Math.floor((i + 1) * bucketSize), points.length);
+    let minIndex = start;
+    let maxIndex = start;
+    for (let j = start; j < end; j++) {
+      if (points[j].price < points[minIndex].price) minIndex = j;
+      if (points[j].price > points[maxIndex].price) maxIndex = j;
+    }
+
+    // Emit in time order; a flat bucket contributes a single point
+    if (minIndex === maxIndex) {
+      sampled.push(points[minIndex]);
+    } else {
+      sampled.push(points[Math.min(minIndex, maxIndex)], points[Math.max(minIndex, maxIndex)]);
+    }
+  }
+
+  return sampled;
+}
+
+/**
+ * Downsample points with the chosen method
+ */
+export function downsample(points: PricePoint[], threshold: number, method: DownsampleMethod): PricePoint[] {
+  return method === 'minmax' ? minMaxDecimate(points, threshold) : lttb(points, threshold);
+}
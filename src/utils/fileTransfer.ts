@@ -0,0 +1,41 @@
+/**
+ * Browser helpers for saving and loading text files
+ */
+
+/**
+ * Offer text content to the user as a file download
+ * @param filename Suggested file name
+ * @param content File contents
+ * @param mimeType MIME type of the contents
+ */
+export function downloadTextFile(filename: string, content: string, mimeType = 'application/json'): void {
+  const blob = new Blob([content], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Read a user-selected file as text
+ */
+export function readTextFile(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result ?? ''));
+    reader.onerror = () => reject(reader.error ?? new Error(`Could not read ${file.name}`));
+    reader.readAsText(file);
+  });
+}
+
+/**
+ * Turn arbitrary text into a safe file name stem
+ */
+export function toFileName(value: string, fallback = 'export'): string {
+  const stem = value.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+  return stem || fallback;
+}
@@ -0,0 +1,339 @@
+import {
+  IndicatorConfig,
+  IndicatorType,
+  SmaIndicatorConfig,
+  EmaIndicatorConfig,
+  BollingerIndicatorConfig,
+  RsiIndicatorConfig,
+  MacdIndicatorConfig,
+  ValidationResult,
+} from '../lib/types';
+
+/**
+ * Indicator values aligned with the input prices; null where there is not enough history yet
+ */
+export type IndicatorValues = (number | null)[];
+
+/**
+ * One drawable line of an indicator
+ */
+export interface IndicatorLine {
+  label: string;
+  values: IndicatorValues;
+  color: string;
+  style?: 'line' | 'dashed' | 'histogram';
+}
+
+/**
+ * Computed indicator ready for charting
+ */
+export interface IndicatorSeries {
+  config: IndicatorConfig;
+  label: string;
+  pane: 'price' | 'oscillator'; // Overlay on the price chart or draw in the sub-panel
+  lines: IndicatorLine[];
+  range?: { min: number; max: number; guides: number[] }; // Fixed scale for bounded oscillators
+}
+
+// Largest period accepted for any indicator
+export const MAX_INDICATOR_PERIOD = 200;
+
+/**
+ * Default parameters for each indicator type
+ */
+export const DEFAULT_INDICATORS: {
+  sma: SmaIndicatorConfig;
+  ema: EmaIndicatorConfig;
+  bollinger: BollingerIndicatorConfig;
+  rsi: RsiIndicatorConfig;
+  macd: MacdIndicatorConfig;
+} = {
+  sma: { type: 'sma', period: 10 },
+  ema: { type: 'ema', period: 10 },
+  bollinger: { type: 'bollinger', period: 20, stdDevMultiplier: 2 },
+  rsi: { type: 'rsi', period: 14 },
+  macd: { type: 'macd', fastPeriod: 12, slowPeriod: 26, signalPeriod: 9 },
+};
+
+/**
+ * Human-readable names for each indicator type
+ */
+export const INDICATOR_LABELS: Record<IndicatorType, string> = {
+  sma: 'Simple moving average',
+  ema: 'Exponential moving average',
+  bollinger: 'Bollinger bands',
+  rsi: 'Relative strength index',
+  macd: 'MACD',
+};
+
+// Overlay colors, cycled when several indicators are shown
+const INDICATOR_COLORS = ['#facc15', '#c084fc', '#38bdf8', '#fb923c', '#f472b6'];
+
+/**
+ * Simple moving average
+ */
+export function sma(values: number[], period: number): IndicatorValues {
+  const result: IndicatorValues = [];
+  let sum = 0;
+  for (let i = 0; i < values.length; i++) {
+    sum += values[i];
+    if (i >= period) {
+      sum -= values[i - period];
+    }
+    result.push(i >= period - 1 ? sum / period : null);
+  }
+  return result;
+}
+
+/**
+ * Exponential moving average, seeded with the SMA of the first period values
+ */
+export function ema(values: number[], period: number): IndicatorValues {
+  const result: IndicatorValues = [];
+  const multiplier = 2 / (period + 1);
+  let previous: number | null = null;
+  let seedSum = 0;
+
+  for (let i = 0; i < values.length; i++) {
+    if (previous === null) {
+      seedSum += values[i];
+      if (i === period - 1) {
+        previous = seedSum / period;
+      }
+      result.push(previous);
+    } else {
+      previous = (values[i] - previous) * multiplier + previous;
+      result.push(previous);
+    }
+  }
+  return result;
+}
+
+/**
+ * Bollinger bands: SMA with bands a number of (population) standard deviations away
+ */
+export function bollingerBands(
+  values: number[],
+  period: number,
+  stdDevMultiplier: number
+): { middle: IndicatorValues; upper: IndicatorValues; lower: IndicatorValues } {
+  const middle = sma(values, period);
+  const upper: IndicatorValues = [];
+  const lower: IndicatorValues = [];
+
+  middle.forEach((mean, i) => {
+    if (mean === null) {
+      upper.push(null);
+      lower.push(null);
+      return;
+    }
+    let squaredDiffs = 0;
+    for (let j = i - period + 1; j <= i; j++) {
+      squaredDiffs += (values[j] - mean) ** 2;
+    }
+    const deviation = Math.sqrt(squaredDiffs / period) * stdDevMultiplier;
+    upper.push(mean + deviation);
+    lower.push(mean - deviation);
+  });
+
+  return { middle, upper, lower };
+}
+
+/**
+ * Relative strength index with Wilder's smoothing
+ */
+export function rsi(values: number[], period: number): IndicatorValues {
+  const result: IndicatorValues = values.length > 0 ? [null] : [];
+  let averageGain = 0;
+  let averageLoss = 0;
+
+  for (let i = 1; i < values.length; i++) {
+    const change = values[i] - values[i - 1];
+    const gain = Math.max(change, 0);
+    const loss = Math.max(-change, 0);
+
+    if (i <= period) {
+      averageGain += gain / period;
+      averageLoss += loss / period;
+      if (i < period) {
+        result.push(null);
+        continue;
+      }
+    } else {
+      averageGain = (averageGain * (period - 1) + gain) / period;
+      averageLoss = (averageLoss * (period - 1) + loss) / period;
+    }
+
+    if (averageLoss === 0) {
+      result.push(averageGain === 0 ? 50 : 100);
+    } else {
+      result.push(100 - 100 / (1 + averageGain / averageLoss));
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Moving average convergence divergence
+ */
+export function macd(
+  values: number[],
+  fastPeriod: number,
+  slowPeriod: number,
+  signalPeriod: number
+): { macd: IndicatorValues; signal: IndicatorValues; histogram: IndicatorValues } {
+  const fast = ema(values, fastPeriod);
+  const slow = ema(values, slowPeriod);
+  const macdLine: IndicatorValues = fast.map((value, i) => {
+    const slowValue = slow[i];
+    return value === null || slowValue === null ? null : value - slowValue;
+  });
+
+  // The signal line is an EMA of the MACD line once it exists
+  const firstIndex = macdLine.findIndex(value => value !== null);
+  const signal: IndicatorValues = macdLine.map(() => null);
+  if (firstIndex >= 0) {
+    const signalValues = ema(macdLine.slice(firstIndex) as number[], signalPeriod);
+    signalValues.forEach((value, i) => {
+      signal[firstIndex + i] = value;
+    });
+  }
+
+  const histogram: IndicatorValues = macdLine.map((value, i) => {
+    const signalValue = signal[i];
+    return value === null || signalValue === null ? null : value - signalValue;
+  });
+
+  return { macd: macdLine, signal, histogram };
+}
+
+/**
+ * Short label for an indicator, e.g. "SMA(20)" or "MACD(12, 26, 9)"
+ */
+export function getIndicatorLabel(config: IndicatorConfig): string {
+  switch (config.type) {
+    case 'sma':
+      return `SMA(${config.period})`;
+    case 'ema':
+      return `EMA(${config.period})`;
+    case 'bollinger':
+      return `BB(${config.period}, ${config.stdDevMultiplier})`;
+    case 'rsi':
+      return `RSI(${config.period})`;
+    case 'macd':
+      return `MACD(${config.fastPeriod}, ${config.slowPeriod}, ${config.signalPeriod})`;
+    default:
+      return 'Unknown';
+  }
+}
+
+/**
+ * Whether an indicator is drawn on the price chart rather than in the sub-panel
+ */
+export function isOverlayIndicator(type: IndicatorType): boolean {
+  return type === 'sma' || type === 'ema' || type === 'bollinger';
+}
+
+/**
+ * Compute an indicator over a price series
+ * @param config Indicator configuration
+ * @param prices Prices in chronological order
+ * @param colorIndex Position of the indicator in the stock's list, used to pick a color
+ */
+export function computeIndicator(config: IndicatorConfig, prices: number[], colorIndex = 0): IndicatorSeries {
+  const label = getIndicatorLabel(config);
+  const color = INDICATOR_COLORS[colorIndex % INDICATOR_COLORS.length];
+
+  switch (config.type) {
+    case 'sma':
+      return { config, label, pane: 'price', lines: [{ label, values: sma(prices, config.period), color }] };
+    case 'ema':
+      return { config, label, pane: 'price', lines: [{ label, values: ema(prices, config.period), color }] };
+    case 'bollinger': {
+      const bands = bollingerBands(prices, config.period, config.stdDevMultiplier);
+      return {
+        config,
+        label,
+        pane: 'price',
+        lines: [
+          { label: `${label} upper`, values: bands.upper, color, style: 'dashed' },
+          { label: `${label} middle`, values: bands.middle, color },
+          { label: `${label} lower`, values: bands.lower, color, style: 'dashed' },
+        ],
+      };
+    }
+    case 'rsi':
+      return {
+        config,
+        label,
+        pane: 'oscillator',
+        lines: [{ label, values: rsi(prices, config.period), color }],
+        range: { min: 0, max: 100, guides: [30, 70] },
+      };
+    case 'macd':
+    default: {
+      const macdConfig = config as MacdIndicatorConfig;
+      const result = macd(prices, macdConfig.fastPeriod, macdConfig.slowPeriod, macdConfig.signalPeriod);
+      return {
+        config,
+        label,
+        pane: 'oscillator',
+        lines: [
+          { label: 'MACD', values: result.macd, color },
+          { label: 'Signal', values: result.signal, color: '#f87171' },
+          { label: 'Histogram', values: result.histogram, color: 'rgba(148, 163, 184, 0.6)', style: 'histogram' },
+        ],
+      };
+    }
+  }
+}
+
+// Check that each named parameter is a whole-number period in range
+function validatePeriods(config: object, keys: string[]): ValidationResult {
+  const values = config as Record<string, unknown>;
+  for (const key of keys) {
+    const value = values[key];
+    if (typeof value !== 'number' || !Number.isInteger(value) || value < 1 || value > MAX_INDICATOR_PERIOD) {
+      return { isValid: false, errorMessage: `Indicator parameter "${key}" must be a whole number between 1 and ${MAX_INDICATOR_PERIOD}` };
+    }
+  }
+  return { isValid: true };
+}
+
+/**
+ * Validate an indicator configuration
+ */
+export function validateIndicator(config: IndicatorConfig): ValidationResult {
+  if (!config || typeof config !== 'object') {
+    return { isValid: false, errorMessage: 'Indicator configuration is required' };
+  }
+
+  switch (config.type) {
+    case 'sma':
+    case 'ema':
+    case 'rsi':
+      return validatePeriods(config, ['period']);
+    case 'bollinger': {
+      const result = validatePeriods(config, ['period']);
+      if (!result.isValid) return result;
+      if (typeof config.stdDevMultiplier !== 'number' || !isFinite(config.stdDevMultiplier) || config.stdDevMultiplier <= 0 || config.stdDevMultiplier > 10) {
+        return { isValid: false, errorMessage: 'Bollinger band width must be between 0 and 10 standard deviations' };
+      }
+      return { isValid: true };
+    }
+    case 'macd': {
+      const result = validatePeriods(config, ['fastPeriod', 'slowPeriod', 'signalPeriod']);
+      if (!result.isValid) return result;
+      if (config.fastPeriod >= config.slowPeriod) {
+        return { isValid: false, errorMessage: 'MACD fast period must be shorter than the slow period' };
+      }
+      return { isValid: true };
+    }
+    default:
+      return {
+        isValid: false,
+        errorMessage: `Unknown indicator: ${(config as { type?: string }).type}`
+      };
+  }
+}
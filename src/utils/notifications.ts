@@ -0,0 +1,44 @@
+/**
+ * Whether the browser supports the Notification API
+ */
+export function isNotificationSupported(): boolean {
+  return typeof window !== 'undefined' && 'Notification' in window;
+}
+
+/**
+ * Ask for permission to show browser notifications. Must be called from a user gesture
+ * in most browsers.
+ * @returns The resulting permission, or 'denied' when notifications are unsupported
+ */
+export async function requestNotificationPermission(): Promise<NotificationPermission> {
+  if (!isNotificationSupported()) {
+    return 'denied';
+  }
+  if (Notification.permission !== 'default') {
+    return Notification.permission;
+  }
+  try {
+    return await Notification.requestPermission();
+  } catch (error) {
+    console.warn('Error requesting notification permission:', error);
+    return 'denied';
+  }
+}
+
+/**
+ * Show a browser notification if permission has been granted
+ * @returns Whether a notification was shown
+ */
+export function showBrowserNotification(title: string, body: string, tag?: string): boolean {
+  if (!isNotificationSupported() || Notification.permission !== 'granted') {
+    return false;
+  }
+  try {
+    new Notification(title, { body, tag });
+    return true;
+  } catch (error) {
+    // Some browsers only allow notifications from a service worker
+    console.warn('Error showing notification:', error);
+    return false;
+  }
+}
@@ -0,0 +1,241 @@
+import {
+  Currency,
+  PortfolioState,
+  Position,
+  StockInfo,
+  Trade,
+  TradeSide,
+  ValidationResult,
+  SECURITY_CONSTRAINTS,
+  convertCurrency,
+  getStockCurrency,
+} from '../lib/types';
+
+export const PORTFOLIO_LIMITS = {
+  DEFAULT_STARTING_CASH: 100000,
+  MAX_STARTING_CASH: 1000000000,
+  MAX_QUANTITY: 1000000,
+  MAX_TRADES: 1000,
+};
+
+/**
+ * A position valued at current prices, in the display currency
+ */
+export interface PositionValuation {
+  symbol: string;
+  name: string;
+  quantity: number;
+  averageCost: number;
+  price: number;
+  isPriced: boolean; // False when the stock is no longer on the ticker (valued at cost)
+  marketValue: number;
+  costBasis: number;
+  unrealizedPnl: number;
+  unrealizedPnlPercent: number;
+  realizedPnl: number;
+  dayChange: number; // Change since the session opened at the stock's initial price
+  dayChangePercent: number;
+  allocationPercent: number; // Share of total equity
+}
+
+/**
+ * Whole-portfolio totals, in the display currency
+ */
+export interface PortfolioSummary {
+  currency: Currency;
+  positions: PositionValuation[]; // Open positions only
+  cash: number;
+  marketValue: number;
+  equity: number; // Cash plus market value
+  costBasis: number;
+  unrealizedPnl: number;
+  realizedPnl: number;
+  totalPnl: number; // Equity minus starting cash
+  totalPnlPercent: number;
+  dayChange: number;
+  cashAllocationPercent: number;
+}
+
+/**
+ * Empty portfolio with the given starting cash (USD)
+ */
+export function createPortfolio(startingCash: number = PORTFOLIO_LIMITS.DEFAULT_STARTING_CASH): PortfolioState {
+  return { startingCash, cash: startingCash, trades: [], orders: [] };
+}
+
+/**
+ * Create a trade id
+ */
+export function createTradeId(): string {
+  return `tr-${Date.now().toString(36)}-${Math.random().toString(36).substr(2, 5)}`;
+}
+
+/**
+ * Build positions from the trade log using the average cost method.
+ * Closed positions are kept (with zero quantity) so their realized P&L still counts.
+ */
+export function buildPositions(trades: Trade[]): Position[] {
+  const positions = new Map<string, Position>();
+
+  trades.forEach(trade => {
+    const position = positions.get(trade.symbol) ?? { symbol: trade.symbol, quantity: 0, averageCost: 0, realizedPnl: 0 };
+
+    if (trade.side === 'buy') {
+      const quantity = position.quantity + trade.quantity;
+      position.averageCost = (position.averageCost * position.quantity + trade.price * trade.quantity) / quantity;
+      position.quantity = quantity;
+    } else {
+      const quantity = Math.min(trade.quantity, position.quantity);
+      position.realizedPnl += (trade.price - position.averageCost) * quantity;
+      position.quantity -= quantity;
+      if (position.quantity === 0) {
+        position.averageCost = 0;
+      }
+    }
+
+    positions.set(trade.symbol, position);
+  });
+
+  return Array.from(positions.values());
+}
+
+/**
+ * Validate a trade against the available cash and holdings (no short selling)
+ */
+export function validateTrade(
+  side: TradeSide,
+  quantity: number,
+  price: number,
+  cash: number,
+  position?: Position
+): ValidationResult {
+  if (side !== 'buy' && side !== 'sell') {
+    return { isValid: false, errorMessage: 'Trade side must be buy or sell' };
+  }
+  if (typeof quantity !== 'number' || !Number.isInteger(quantity) || quantity < 1 || quantity > PORTFOLIO_LIMITS.MAX_QUANTITY) {
+    return {
+      isValid: false,
+      errorMessage: `Quantity must be a whole number of shares between 1 and ${PORTFOLIO_LIMITS.MAX_QUANTITY.toLocaleString()}`,
+    };
+  }
+  if (typeof price !== 'number' || !isFinite(price) || price < SECURITY_CONSTRAINTS.MIN_STOCK_PRICE) {
+    return { isValid: false, errorMessage: 'Trade price is not valid' };
+  }
+
+  if (side === 'buy' && quantity * price > cash + 1e-9) {
+    return { isValid: false, errorMessage: 'Not enough cash for this trade' };
+  }
+  if (side === 'sell' && quantity > (position?.quantity ?? 0)) {
+    return { isValid: false, errorMessage: `You only hold ${position?.quantity ?? 0} shares` };
+  }
+
+  return { isValid: true };
+}
+
+/**
+ * Record a validated trade, updating cash
+ */
+export function applyTrade(portfolio: PortfolioState, trade: Trade): PortfolioState {
+  const amount = trade.quantity * trade.price;
+  return {
+    ...portfolio,
+    cash: trade.side === 'buy' ? portfolio.cash - amount : portfolio.cash + amount,
+    trades: [...portfolio.trades, trade],
+  };
+}
+
+/**
+ * Parse a saved portfolio, falling back to an empty one when it is malformed.
+ * Orders are parsed separately by the order engine.
+ */
+export function parsePortfolio(data: unknown): PortfolioState {
+  if (!data || typeof data !== 'object') {
+    return createPortfolio();
+  }
+
+  const { startingCash, cash, trades } = data as Partial<PortfolioState>;
+  if (
+    typeof startingCash !== 'number' || !isFinite(startingCash) || startingCash <= 0 ||
+    typeof cash !== 'number' || !isFinite(cash) || cash < 0 ||
+    !Array.isArray(trades)
+  ) {
+    return createPortfolio();
+  }
+
+  const validTrades = trades.filter((trade): trade is Trade =>
+    !!trade &&
+    typeof trade.id === 'string' &&
+    SECURITY_CONSTRAINTS.STOCK_SYMBOL_PATTERN.test(trade.symbol) &&
+    (trade.side === 'buy' || trade.side === 'sell') &&
+    Number.isInteger(trade.quantity) && trade.quantity > 0 &&
+    typeof trade.price === 'number' && isFinite(trade.price) && trade.price > 0 &&
+    typeof trade.timestamp === 'number'
+  );
+
+  return { startingCash, cash, trades: validTrades.slice(-PORTFOLIO_LIMITS.MAX_TRADES), orders: [] };
+}
+
+/**
+ * Value the portfolio at current prices in the display currency. Stock
+ * prices are converted from each stock's listing currency and the
+ * portfolio's own USD amounts from USD.
+ */
+export function valuePortfolio(
+  portfolio: PortfolioState,
+  positions: Position[],
+  stocks: StockInfo[],
+  currency: Currency
+): PortfolioSummary {
+  const toDisplay = (usd: number) => convertCurrency(usd, 'USD', currency);
+
+  const valued = positions.map(position => {
+    const stock = stocks.find(s => s.symbol === position.symbol);
+    const averageCost = toDisplay(position.averageCost);
+    const price = stock ? convertCurrency(stock.currentPrice, getStockCurrency(stock), currency) : averageCost;
+    const openPrice = stock ? convertCurrency(stock.initialPrice, getStockCurrency(stock), currency) : price;
+    const marketValue = price * position.quantity;
+    const costBasis = averageCost * position.quantity;
+
+    return {
+      symbol: position.symbol,
+      name: stock?.name ?? position.symbol,
+      quantity: position.quantity,
+      averageCost,
+      price,
+      isPriced: Boolean(stock),
+      marketValue,
+      costBasis,
+      unrealizedPnl: marketValue - costBasis,
+      unrealizedPnlPercent: costBasis > 0 ? ((marketValue - costBasis) / costBasis) * 100 : 0,
+      realizedPnl: toDisplay(position.realizedPnl),
+      dayChange: (price - openPrice) * position.quantity,
+      dayChangePercent: openPrice > 0 ? ((price - openPrice) / openPrice) * 100 : 0,
+      allocationPercent: 0,
+    };
+  });
+
+  const cash = toDisplay(portfolio.cash);
+  const sum = (pick: (position: PositionValuation) => number) => valued.reduce((total, position) => total + pick(position), 0);
+  const marketValue = sum(position => position.marketValue);
+  const equity = cash + marketValue;
+  const startingCash = toDisplay(portfolio.startingCash);
+
+  valued.forEach(position => {
+    position.allocationPercent = equity > 0 ? (position.marketValue / equity) * 100 : 0;
+  });
+
+  return {
+    currency,
+    positions: valued.filter(position => position.quantity > 0),
+    cash,
+    marketValue,
+    equity,
+    costBasis: sum(position => position.costBasis),
+    unrealizedPnl: sum(position => position.unrealizedPnl),
+    realizedPnl: sum(position => position.realizedPnl),
+    totalPnl: equity - startingCash,
+    totalPnlPercent: startingCash > 0 ? ((equity - startingCash) / startingCash) * 100 : 0,
+    dayChange: sum(position => position.dayChange),
+    cashAllocationPercent: equity > 0 ? (cash / equity) * 100 : 0,
+  };
+}
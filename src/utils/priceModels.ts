@@ -0,0 +1,269 @@
+import {
+  PriceModelConfig,
+  PriceModelType,
+  RealisticModelConfig,
+  GbmModelConfig,
+  OrnsteinUhlenbeckModelConfig,
+  JumpDiffusionModelConfig,
+  GarchModelConfig,
+  ValidationResult,
+} from '../lib/types';
+import { generateRealisticPriceChange } from './dataGenerator';
+import { RandomSource, randomNormal } from './random';
+
+/**
+ * A price simulation model. Implementations may keep internal state
+ * (e.g. GARCH variance), so each stock should own its own instance.
+ * All randomness comes from the RandomSource given at construction.
+ */
+export interface PriceModel {
+  readonly config: PriceModelConfig;
+  /**
+   * Produce the next price
+   * @param currentPrice Current price of the stock
+   * @param dtSeconds Simulated time elapsed since the previous tick, in seconds
+   * @returns New price, never below 0.01 and rounded to 2 decimal places
+   */
+  next(currentPrice: number, dtSeconds: number): number;
+}
+
+/**
+ * Default parameters for each model type, used by the controls page and as fallbacks
+ */
+export const DEFAULT_PRICE_MODELS: {
+  realistic: RealisticModelConfig;
+  gbm: GbmModelConfig;
+  ornsteinUhlenbeck: OrnsteinUhlenbeckModelConfig;
+  jumpDiffusion: JumpDiffusionModelConfig;
+  garch: GarchModelConfig;
+} = {
+  realistic: { type: 'realistic', maxChangePercent: 2 },
+  gbm: { type: 'gbm', drift: 0.00002, sigma: 0.003 },
+  ornsteinUhlenbeck: { type: 'ornsteinUhlenbeck', theta: 0.05, sigma: 0.004 },
+  jumpDiffusion: {
+    type: 'jumpDiffusion',
+    drift: 0,
+    sigma: 0.002,
+    jumpIntensity: 0.02,
+    jumpMean: 0,
+    jumpStdDev: 0.03,
+  },
+  garch: { type: 'garch', drift: 0, omega: 0.0000005, alpha: 0.12, beta: 0.85 },
+};
+
+/**
+ * Human-readable labels for each model type
+ */
+export const PRICE_MODEL_LABELS: Record<PriceModelType, string> = {
+  realistic: 'Realistic random walk',
+  gbm: 'Geometric Brownian motion',
+  ornsteinUhlenbeck: 'Mean reverting (Ornstein–Uhlenbeck)',
+  jumpDiffusion: 'Jump diffusion',
+  garch: 'Volatility clustering (GARCH)',
+};
+
+// Round and clamp a simulated price the same way generateRealisticPriceChange does
+function finalizePrice(price: number): number {
+  if (!isFinite(price)) {
+    return 0.01;
+  }
+  return Math.max(0.01, Math.round(price * 100) / 100);
+}
+
+/**
+ * Legacy model wrapping generateRealisticPriceChange
+ */
+export class RealisticPriceModel implements PriceModel {
+  constructor(readonly config: RealisticModelConfig, private readonly random: RandomSource = Math.random) {}
+
+  next(currentPrice: number): number {
+    return generateRealisticPriceChange(currentPrice, this.config.maxChangePercent, this.random);
+  }
+}
+
+/**
+ * Geometric Brownian motion: dS = mu S dt + sigma S dW
+ */
+export class GbmPriceModel implements PriceModel {
+  constructor(readonly config: GbmModelConfig, private readonly random: RandomSource = Math.random) {}
+
+  next(currentPrice: number, dtSeconds: number): number {
+    const { drift, sigma } = this.config;
+    // Exact log-normal step so the price can never cross zero
+    const exponent = (drift - 0.5 * sigma * sigma) * dtSeconds + sigma * Math.sqrt(dtSeconds) * randomNormal(this.random);
+    return finalizePrice(currentPrice * Math.exp(exponent));
+  }
+}
+
+/**
+ * Ornstein–Uhlenbeck: dS = theta (mean - S) dt + sigma mean dW
+ */
+export class OrnsteinUhlenbeckPriceModel implements PriceModel {
+  private readonly mean: number;
+
+  constructor(
+    readonly config: OrnsteinUhlenbeckModelConfig,
+    referencePrice: number,
+    private readonly random: RandomSource = Math.random
+  ) {
+    this.mean = config.mean ?? referencePrice;
+  }
+
+  next(currentPrice: number, dtSeconds: number): number {
+    const { theta, sigma } = this.config;
+    const reversion = theta * (this.mean - currentPrice) * dtSeconds;
+    const noise = sigma * this.mean * Math.sqrt(dtSeconds) * randomNormal(this.random);
+    return finalizePrice(currentPrice + reversion + noise);
+  }
+}
+
+/**
+ * Merton jump-diffusion: GBM plus Poisson-arriving log-normal jumps
+ */
+export class JumpDiffusionPriceModel implements PriceModel {
+  constructor(readonly config: JumpDiffusionModelConfig, private readonly random: RandomSource = Math.random) {}
+
+  next(currentPrice: number, dtSeconds: number): number {
+    const { drift, sigma, jumpIntensity, jumpMean, jumpStdDev } = this.config;
+    let exponent = (drift - 0.5 * sigma * sigma) * dtSeconds + sigma * Math.sqrt(dtSeconds) * randomNormal(this.random);
+
+    // Probability of at least one jump in this interval
+    const jumpProbability = 1 - Math.exp(-jumpIntensity * dtSeconds);
+    if (this.random() < jumpProbability) {
+      exponent += jumpMean + jumpStdDev * randomNormal(this.random);
+    }
+
+    return finalizePrice(currentPrice * Math.exp(exponent));
+  }
+}
+
+/**
+ * GARCH(1,1): sigma²(t) = omega + alpha r²(t-1) + beta sigma²(t-1)
+ */
+export class GarchPriceModel implements PriceModel {
+  private variance: number;
+  private lastReturn = 0;
+
+  constructor(readonly config: GarchModelConfig, private readonly random: RandomSource = Math.random) {
+    // Start at the unconditional (long-run) variance
+    const persistence = config.alpha + config.beta;
+    this.variance = persistence < 1 ? config.omega / (1 - persistence) : config.omega;
+  }
+
+  next(currentPrice: number): number {
+    const { drift, omega, alpha, beta } = this.config;
+    this.variance = omega + alpha * this.lastReturn * this.lastReturn + beta * this.variance;
+    const shock = Math.sqrt(this.variance) * randomNormal(this.random);
+    this.lastReturn = shock;
+    return finalizePrice(currentPrice * Math.exp(drift + shock));
+  }
+
+  /**
+   * Current conditional variance (exposed for diagnostics and tests)
+   */
+  getVariance(): number {
+    return this.variance;
+  }
+}
+
+/**
+ * Create a model instance from its configuration
+ * @param config Model configuration
+ * @param referencePrice Price used for defaults such as the OU mean (usually the initial price)
+ * @param random Random source driving the model (defaults to Math.random)
+ */
+export function createPriceModel(
+  config: PriceModelConfig,
+  referencePrice: number,
+  random: RandomSource = Math.random
+): PriceModel {
+  switch (config.type) {
+    case 'gbm':
+      return new GbmPriceModel(config, random);
+    case 'ornsteinUhlenbeck':
+      return new OrnsteinUhlenbeckPriceModel(config, referencePrice, random);
+    case 'jumpDiffusion':
+      return new JumpDiffusionPriceModel(config, random);
+    case 'garch':
+      return new GarchPriceModel(config, random);
+    case 'realistic':
+    default:
+      return new RealisticPriceModel(config as RealisticModelConfig, random);
+  }
+}
+
+// Check that each named parameter is a finite number, optionally non-negative
+function validateNumbers(
+  config: object,
+  keys: string[],
+  nonNegative: boolean
+): ValidationResult {
+  const values = config as Record<string, unknown>;
+  for (const key of keys) {
+    const value = values[key];
+    if (typeof value !== 'number' || !isFinite(value)) {
+      return { isValid: false, errorMessage: `Price model parameter "${key}" must be a valid number` };
+    }
+    if (nonNegative && value < 0) {
+      return { isValid: false, errorMessage: `Price model parameter "${key}" cannot be negative` };
+    }
+  }
+  return { isValid: true };
+}
+
+/**
+ * Validate a price model configuration
+ */
+export function validatePriceModel(config: PriceModelConfig): ValidationResult {
+  if (!config || typeof config !== 'object') {
+    return { isValid: false, errorMessage: 'Price model configuration is required' };
+  }
+
+  switch (config.type) {
+    case 'realistic': {
+      const result = validateNumbers(config, ['maxChangePercent'], true);
+      if (!result.isValid) return result;
+      if (config.maxChangePercent > 50) {
+        return { isValid: false, errorMessage: 'Maximum change cannot exceed 50%' };
+      }
+      return { isValid: true };
+    }
+    case 'gbm': {
+      const result = validateNumbers(config, ['drift'], false);
+      if (!result.isValid) return result;
+      return validateNumbers(config, ['sigma'], true);
+    }
+    case 'ornsteinUhlenbeck': {
+      const result = validateNumbers(config, ['theta', 'sigma'], true);
+      if (!result.isValid) return result;
+      if (config.mean !== undefined) {
+        const meanResult = validateNumbers(config, ['mean'], true);
+        if (!meanResult.isValid) return meanResult;
+        if (config.mean <= 0) {
+          return { isValid: false, errorMessage: 'Mean price must be greater than zero' };
+        }
+      }
+      return { isValid: true };
+    }
+    case 'jumpDiffusion': {
+      const result = validateNumbers(config, ['drift', 'jumpMean'], false);
+      if (!result.isValid) return result;
+      return validateNumbers(config, ['sigma', 'jumpIntensity', 'jumpStdDev'], true);
+    }
+    case 'garch': {
+      const result = validateNumbers(config, ['drift'], false);
+      if (!result.isValid) return result;
+      const nonNegativeResult = validateNumbers(config, ['omega', 'alpha', 'beta'], true);
+      if (!nonNegativeResult.isValid) return nonNegativeResult;
+      if (config.alpha + config.beta >= 1) {
+        return { isValid: false, errorMessage: 'GARCH alpha + beta must be less than 1 for stable volatility' };
+      }
+      return { isValid: true };
+    }
+    default:
+      return {
+        isValid: false,
+        errorMessage: `Unknown price model: ${(config as { type?: string }).type}`
+      };
+  }
+}
@@ -0,0 +1,72 @@
+/**
+ * Random number sources for the price simulation
+ *
+ * Every simulation module accepts a RandomSource so sessions can be
+ * replayed exactly from a seed. Math.random remains the default.
+ */
+
+/**
+ * A function returning uniformly distributed numbers in [0, 1), like Math.random
+ */
+export type RandomSource = () => number;
+
+// Largest seed value (seeds are unsigned 32-bit integers)
+export const MAX_SEED = 0xffffffff;
+
+/**
+ * Hash an arbitrary string into a 32-bit seed (FNV-1a)
+ */
+export function hashSeed(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Normalize a numeric or string seed into an unsigned 32-bit integer
+ */
+export function normalizeSeed(seed: number | string): number {
+  if (typeof seed === 'string') {
+    const trimmed = seed.trim();
+    // Treat purely numeric strings as numbers so "42" and 42 replay identically
+    return /^\d+$/.test(trimmed) ? normalizeSeed(Number(trimmed)) : hashSeed(trimmed);
+  }
+  return Math.floor(Math.abs(seed)) % (MAX_SEED + 1);
+}
+
+/**
+ * Create a new random seed from Math.random
+ */
+export function generateSeed(): number {
+  return Math.floor(Math.random() * MAX_SEED);
+}
+
+/**
+ * Create a deterministic PRNG (mulberry32) for the given seed
+ * @param seed Numeric or string seed
+ * @returns RandomSource producing the same sequence for the same seed
+ */
+export function createSeededRandom(seed: number | string): RandomSource {
+  let state = normalizeSeed(seed);
+
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Draw a standard normal sample using the Box–Muller transform
+ */
+export function randomNormal(random: RandomSource = Math.random): number {
+  let u = 0;
+  while (u === 0) u = random(); // Avoid log(0)
+  const v = random();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+}
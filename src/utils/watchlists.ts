@@ -0,0 +1,105 @@
+import {
+  StockInfo,
+  ValidationResult,
+  Watchlist,
+  SECURITY_CONSTRAINTS,
+  sanitizeStockSymbol,
+} from '../lib/types';
+
+export const WATCHLIST_LIMITS = {
+  MAX_WATCHLISTS: 20,
+  MAX_NAME_LENGTH: 40,
+};
+
+// Letters, digits, spaces and simple punctuation, e.g. "Tech" or "Demo set A"
+const WATCHLIST_NAME_PATTERN = /^[A-Za-z0-9 .,&'()_-]+$/;
+
+/**
+ * Validate a watchlist name
+ */
+export function validateWatchlistName(name: string): ValidationResult {
+  const trimmed = typeof name === 'string' ? name.trim() : '';
+  if (!trimmed) {
+    return { isValid: false, errorMessage: 'Watchlist name is required' };
+  }
+  if (trimmed.length > WATCHLIST_LIMITS.MAX_NAME_LENGTH) {
+    return {
+      isValid: false,
+      errorMessage: `Watchlist name must be at most ${WATCHLIST_LIMITS.MAX_NAME_LENGTH} characters`,
+    };
+  }
+  if (!WATCHLIST_NAME_PATTERN.test(trimmed)) {
+    return { isValid: false, errorMessage: 'Watchlist name contains invalid characters' };
+  }
+  return { isValid: true };
+}
+
+/**
+ * Sanitize a list of symbols, dropping invalid entries and duplicates while keeping order
+ */
+export function sanitizeWatchlistSymbols(symbols: unknown): string[] {
+  if (!Array.isArray(symbols)) {
+    return [];
+  }
+  const seen = new Set<string>();
+  symbols.forEach(symbol => {
+    const sanitized = typeof symbol === 'string' ? sanitizeStockSymbol(symbol) : '';
+    if (SECURITY_CONSTRAINTS.STOCK_SYMBOL_PATTERN.test(sanitized)) {
+      seen.add(sanitized);
+    }
+  });
+  return Array.from(seen).slice(0, SECURITY_CONSTRAINTS.MAX_STOCKS_ALLOWED);
+}
+
+/**
+ * Parse watchlists from untrusted data (the API server or saved state)
+ */
+export function parseWatchlists(data: unknown): Watchlist[] {
+  if (!Array.isArray(data)) {
+    return [];
+  }
+  const ids = new Set<string>();
+  const watchlists: Watchlist[] = [];
+  data.forEach(item => {
+    if (!item || typeof item !== 'object') return;
+    const { id, name, symbols } = item as Partial<Watchlist>;
+    if (typeof id !== 'string' || !id || ids.has(id) || !validateWatchlistName(name as string).isValid) return;
+    ids.add(id);
+    watchlists.push({ id: id.slice(0, 64), name: (name as string).trim(), symbols: sanitizeWatchlistSymbols(symbols) });
+  });
+  return watchlists.slice(0, WATCHLIST_LIMITS.MAX_WATCHLISTS);
+}
+
+/**
+ * Create a watchlist id
+ */
+export function createWatchlistId(): string {
+  return `wl-${Date.now().toString(36)}-${Math.random().toString(36).substr(2, 5)}`;
+}
+
+/**
+ * Stocks of a watchlist in its display order, skipping symbols no longer on the ticker.
+ * Without a watchlist, all stocks are returned.
+ */
+export function getWatchlistStocks(stocks: StockInfo[], watchlist?: Watchlist): StockInfo[] {
+  if (!watchlist) {
+    return stocks;
+  }
+  const bySymbol = new Map(stocks.map(stock => [stock.symbol, stock]));
+  return watchlist.symbols
+    .map(symbol => bySymbol.get(symbol))
+    .filter((stock): stock is StockInfo => stock !== undefined);
+}
+
+/**
+ * Return a copy of a list with one item moved to a new position
+ */
+export function moveItem<T>(items: T[], fromIndex: number, toIndex: number): T[] {
+  if (fromIndex === toIndex || fromIndex < 0 || fromIndex >= items.length) {
+    return [...items];
+  }
+  const next = [...items];
+  const [item] = next.splice(fromIndex, 1);
+  next.splice(Math.max(0, Math.min(toIndex, next.length)), 0, item);
+  return next;
+}